@@ -84,10 +84,13 @@ export const qualifyName = (domain: string, name: UnqualifiedName): QualifiedNam
 type EventParameterNames = Map<QualifiedName, string[]>;
 type ReadonlyEventParameterNames = ReadonlyMap<QualifiedName, string[]>;
 
-interface CommandParameter {
+export interface CommandParameter {
   name: string;
   type: string;
   optional: boolean;
+  // The qualified name of the protocol type of the parameter, e.g. `DOM.NodeId`. Enum values of
+  // the type can be looked up with `InspectorBackend.getEnumValues`.
+  typeRef?: string;
 }
 
 type Callback = (error: MessageError|null, arg1: Object|null) => void;
@@ -101,6 +104,8 @@ export class InspectorBackend {
   readonly agentPrototypes: Map<ProtocolDomainName, _AgentPrototype> = new Map();
   #initialized: boolean = false;
   #eventParameterNamesForDomain = new Map<ProtocolDomainName, EventParameterNames>();
+  readonly #commandParameters = new Map<QualifiedName, CommandParameter[]>();
+  readonly #enumValues = new Map<QualifiedName, string[]>();
 
   private getOrCreateEventParameterNamesForDomain(domain: ProtocolDomainName): EventParameterNames {
     let map = this.#eventParameterNamesForDomain.get(domain);
@@ -119,6 +124,14 @@ export class InspectorBackend {
     return this.#eventParameterNamesForDomain;
   }
 
+  getCommandParameters(): ReadonlyMap<QualifiedName, readonly CommandParameter[]> {
+    return this.#commandParameters;
+  }
+
+  getEnumValues(type: QualifiedName): readonly string[]|undefined {
+    return this.#enumValues.get(type);
+  }
+
   static reportProtocolError(error: string, messageObject: Object): void {
     console.error(error + ': ' + JSON.stringify(messageObject));
   }
@@ -143,6 +156,7 @@ export class InspectorBackend {
   registerCommand(method: QualifiedName, parameters: CommandParameter[], replyArgs: string[]): void {
     const [domain, command] = splitQualifiedName(method);
     this.agentPrototype(domain as ProtocolDomainName).registerCommand(command, parameters, replyArgs);
+    this.#commandParameters.set(method, parameters);
     this.#initialized = true;
   }
 
@@ -156,6 +170,7 @@ export class InspectorBackend {
 
     // @ts-ignore globalThis global namespace pollution
     globalThis.Protocol[domain][name] = values;
+    this.#enumValues.set(type, Object.values(values));
     this.#initialized = true;
   }
 
@@ -212,10 +227,12 @@ export const test = {
   deprecatedRunAfterPendingDispatches: null as ((arg0: () => void) => void) | null,
 
   /**
-   * Sends a raw message over main connection.
+   * Sends a raw message over main connection, or to the given session.
    * ProtocolClient.test.sendRawMessage('Page.enable', {}, console.log)
    */
-  sendRawMessage: null as ((method: QualifiedName, args: Object|null, arg2: SendRawMessageCallback) => void) | null,
+  sendRawMessage: null as
+          ((method: QualifiedName, args: Object|null, arg2: SendRawMessageCallback, sessionId?: string) => void) |
+      null,
 
   /**
    * Set to true to not log any errors.
@@ -353,9 +370,10 @@ export class SessionRouter {
     this.#connectionInternal.sendRawMessage(JSON.stringify(messageObject));
   }
 
-  private sendRawMessageForTesting(method: QualifiedName, params: Object|null, callback: Callback|null): void {
+  private sendRawMessageForTesting(
+      method: QualifiedName, params: Object|null, callback: Callback|null, sessionId: string = ''): void {
     const domain = method.split('.')[0];
-    this.sendMessage('', domain, method, params, callback || ((): void => {}));
+    this.sendMessage(sessionId, domain, method, params, callback || ((): void => {}));
   }
 
   private onMessage(message: string|Object): void {
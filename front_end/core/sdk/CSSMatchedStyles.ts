@@ -10,6 +10,7 @@ import {cssMetadata, VariableRegex} from './CSSMetadata.js';
 import {type CSSModel} from './CSSModel.js';
 import {type CSSProperty} from './CSSProperty.js';
 import {CSSKeyframesRule, CSSStyleRule} from './CSSRule.js';
+import {compareSpecificity, type CSSSpecificity, selectorSpecificity} from './CSSSpecificity.js';
 import {CSSStyleDeclaration, Type} from './CSSStyleDeclaration.js';
 import {type DOMNode} from './DOMModel.js';
 
@@ -591,6 +592,70 @@ export class CSSMatchedStyles {
     return domCascade ? domCascade.propertyState(property) : null;
   }
 
+  /**
+   * The specificity of the most specific selector of the rule that matches the node. The nesting
+   * selector `&` of nested rules does not count, see `selectorSpecificity()`.
+   */
+  ruleSpecificity(rule: CSSStyleRule): CSSSpecificity {
+    let result = {a: 0, b: 0, c: 0};
+    for (const index of this.getMatchingSelectors(rule)) {
+      const specificity = selectorSpecificity(rule.selectors[index].text);
+      if (compareSpecificity(specificity, result) > 0) {
+        result = specificity;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Explains why an overloaded property loses the cascade: returns the property that wins
+   * and the first step of the cascade that decides between the two.
+   */
+  cascadeExplanation(property: CSSProperty): CascadeExplanation|null {
+    if (property.disabled || !property.parsedOk) {
+      return null;
+    }
+    const domCascade = this.#styleToDOMCascade.get(property.ownerStyle);
+    const winner = domCascade ? domCascade.winningProperty(property) : null;
+    if (!winner || winner === property) {
+      return null;
+    }
+    return {winner, reason: this.cascadeReason(property, winner)};
+  }
+
+  private cascadeReason(property: CSSProperty, winner: CSSProperty): CascadeReason {
+    const style = property.ownerStyle;
+    const winnerStyle = winner.ownerStyle;
+    if (style === winnerStyle) {
+      return CascadeReason.SourceOrder;
+    }
+    if (this.nodeForStyle(style) !== this.nodeForStyle(winnerStyle)) {
+      return CascadeReason.Inheritance;
+    }
+    if (property.important !== winner.important) {
+      return CascadeReason.Important;
+    }
+    if (originRank(style) !== originRank(winnerStyle)) {
+      return CascadeReason.Origin;
+    }
+    if (winnerStyle.type === Type.Inline) {
+      return CascadeReason.InlineStyle;
+    }
+    const rule = style.parentRule;
+    const winnerRule = winnerStyle.parentRule;
+    if (!(rule instanceof CSSStyleRule) || !(winnerRule instanceof CSSStyleRule)) {
+      return CascadeReason.SourceOrder;
+    }
+    const layerName = (styleRule: CSSStyleRule): string => styleRule.layers.map(layer => layer.text).join('.');
+    if (layerName(rule) !== layerName(winnerRule)) {
+      return CascadeReason.Layer;
+    }
+    if (compareSpecificity(this.ruleSpecificity(rule), this.ruleSpecificity(winnerRule)) !== 0) {
+      return CascadeReason.Specificity;
+    }
+    return CascadeReason.SourceOrder;
+  }
+
   resetActiveProperties(): void {
     this.#mainDOMCascade.reset();
     for (const domCascade of this.#pseudoDOMCascades.values()) {
@@ -603,6 +668,21 @@ export class CSSMatchedStyles {
   }
 }
 
+// Ranks the origins of styles from the lowest to the highest priority for normal declarations.
+function originRank(style: CSSStyleDeclaration): number {
+  const rule = style.parentRule;
+  if (!rule) {
+    return style.type === Type.Attributes ? 2 : 3;
+  }
+  if (rule.isUserAgent()) {
+    return 0;
+  }
+  if (rule.isInjected()) {
+    return 1;
+  }
+  return 3;
+}
+
 class NodeCascade {
   #matchedStyles: CSSMatchedStyles;
   readonly styles: CSSStyleDeclaration[];
@@ -687,6 +767,7 @@ class NodeCascade {
 class DOMInheritanceCascade {
   readonly #nodeCascades: NodeCascade[];
   readonly #propertiesState: Map<CSSProperty, PropertyState>;
+  readonly #activeProperties: Map<string, CSSProperty>;
   readonly #availableCSSVariables: Map<NodeCascade, Map<string, string|null>>;
   readonly #computedCSSVariables: Map<NodeCascade, Map<string, string|null>>;
   #initialized: boolean;
@@ -694,6 +775,7 @@ class DOMInheritanceCascade {
   constructor(nodeCascades: NodeCascade[]) {
     this.#nodeCascades = nodeCascades;
     this.#propertiesState = new Map();
+    this.#activeProperties = new Map();
     this.#availableCSSVariables = new Map();
     this.#computedCSSVariables = new Map();
     this.#initialized = false;
@@ -824,9 +906,30 @@ class DOMInheritanceCascade {
     return this.#propertiesState.get(property) || null;
   }
 
+  winningProperty(property: CSSProperty): CSSProperty|null {
+    this.ensureInitialized();
+    if (this.#propertiesState.get(property) !== PropertyState.Overloaded) {
+      return null;
+    }
+    const metadata = cssMetadata();
+    const winner = this.#activeProperties.get(metadata.canonicalPropertyName(property.name));
+    if (winner) {
+      return winner;
+    }
+    // A shorthand loses to the property that wins for its first overridden longhand.
+    for (const longhand of property.getLonghandProperties()) {
+      const longhandWinner = this.#activeProperties.get(metadata.canonicalPropertyName(longhand.name));
+      if (longhandWinner && longhandWinner.ownerStyle !== property.ownerStyle) {
+        return longhandWinner;
+      }
+    }
+    return null;
+  }
+
   reset(): void {
     this.#initialized = false;
     this.#propertiesState.clear();
+    this.#activeProperties.clear();
     this.#availableCSSVariables.clear();
     this.#computedCSSVariables.clear();
   }
@@ -837,7 +940,7 @@ class DOMInheritanceCascade {
     }
     this.#initialized = true;
 
-    const activeProperties = new Map<string, CSSProperty>();
+    const activeProperties = this.#activeProperties;
     for (const nodeCascade of this.#nodeCascades) {
       nodeCascade.computeActiveProperties();
       for (const [property, state] of nodeCascade.propertiesState) {
@@ -912,3 +1015,20 @@ export enum PropertyState {
   Active = 'Active',
   Overloaded = 'Overloaded',
 }
+
+export const enum CascadeReason {
+  // The winner is declared later in the same rule or in a rule that comes later.
+  SourceOrder = 'SourceOrder',
+  // The winner applies to the element itself or to a closer ancestor.
+  Inheritance = 'Inheritance',
+  Important = 'Important',
+  Origin = 'Origin',
+  InlineStyle = 'InlineStyle',
+  Layer = 'Layer',
+  Specificity = 'Specificity',
+}
+
+export interface CascadeExplanation {
+  winner: CSSProperty;
+  reason: CascadeReason;
+}
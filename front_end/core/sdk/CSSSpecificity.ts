@@ -0,0 +1,240 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+/**
+ * The specificity of a selector as defined in https://drafts.csswg.org/selectors-4/#specificity-rules:
+ * `a` counts ID selectors, `b` class, attribute and pseudo-class selectors and `c` type and
+ * pseudo-element selectors.
+ */
+export interface CSSSpecificity {
+  a: number;
+  b: number;
+  c: number;
+}
+
+// Pseudo-elements that may be written with the single colon syntax of pseudo-classes.
+const LegacyPseudoElements = new Set(['before', 'after', 'first-line', 'first-letter']);
+
+// Pseudo-classes that take the specificity of the most specific selector of their argument.
+const SelectorListPseudoClasses = new Set(['is', 'not', 'has', 'matches', '-webkit-any']);
+
+// Pseudo-classes that add the specificity of the most specific selector of their argument to their own.
+const CompoundArgumentPseudoClasses = new Set(['host', 'host-context']);
+
+const NthOfPseudoClasses = new Set(['nth-child', 'nth-last-child']);
+
+function zeroSpecificity(): CSSSpecificity {
+  return {a: 0, b: 0, c: 0};
+}
+
+function addSpecificity(specificity: CSSSpecificity, other: CSSSpecificity): void {
+  specificity.a += other.a;
+  specificity.b += other.b;
+  specificity.c += other.c;
+}
+
+export function compareSpecificity(specificity: CSSSpecificity, other: CSSSpecificity): number {
+  return specificity.a - other.a || specificity.b - other.b || specificity.c - other.c;
+}
+
+export function specificityText(specificity: CSSSpecificity): string {
+  return `(${specificity.a},${specificity.b},${specificity.c})`;
+}
+
+function isIdentifierCharacter(character: string): boolean {
+  return /[\w-]/.test(character) || character.charCodeAt(0) >= 0x80;
+}
+
+class SelectorParser {
+  readonly #text: string;
+  #index: number;
+
+  constructor(text: string) {
+    this.#text = text;
+    this.#index = 0;
+  }
+
+  /**
+   * Parses the selectors up to the end of the text or to the `)` closing the current argument,
+   * and returns the specificity of the most specific one.
+   */
+  parseSelectorList(): CSSSpecificity {
+    let result = zeroSpecificity();
+    while (this.#index < this.#text.length) {
+      const specificity = this.parseComplexSelector();
+      if (compareSpecificity(specificity, result) > 0) {
+        result = specificity;
+      }
+      const character = this.#text[this.#index];
+      if (character === ')') {
+        ++this.#index;
+        break;
+      }
+      if (character === ',') {
+        ++this.#index;
+      }
+    }
+    return result;
+  }
+
+  private parseComplexSelector(): CSSSpecificity {
+    const specificity = zeroSpecificity();
+    while (this.#index < this.#text.length) {
+      const character = this.#text[this.#index];
+      if (character === ',' || character === ')') {
+        break;
+      }
+      if (character === '#') {
+        ++this.#index;
+        this.skipIdentifier();
+        ++specificity.a;
+      } else if (character === '.') {
+        ++this.#index;
+        this.skipIdentifier();
+        ++specificity.b;
+      } else if (character === '[') {
+        this.skipBlock('[', ']');
+        ++specificity.b;
+      } else if (character === ':') {
+        addSpecificity(specificity, this.parsePseudo());
+      } else if (character === '\\' || isIdentifierCharacter(character)) {
+        this.skipIdentifier();
+        // Namespace prefixes, as in `svg|circle`, do not count.
+        if (this.#text[this.#index] !== '|' || this.#text[this.#index + 1] === '|') {
+          ++specificity.c;
+        }
+      } else {
+        // Combinators, the universal selector, namespace separators and nesting selectors, whose
+        // specificity is unknown (see `selectorSpecificity()`).
+        ++this.#index;
+      }
+    }
+    return specificity;
+  }
+
+  private parsePseudo(): CSSSpecificity {
+    ++this.#index;
+    const isPseudoElement = this.#text[this.#index] === ':';
+    if (isPseudoElement) {
+      ++this.#index;
+    }
+    const name = this.readIdentifier().toLowerCase();
+    const hasArgument = this.#text[this.#index] === '(';
+    if (hasArgument) {
+      ++this.#index;
+    }
+
+    const specificity = zeroSpecificity();
+    if (isPseudoElement || LegacyPseudoElements.has(name)) {
+      specificity.c = 1;
+      if (hasArgument && name === 'slotted') {
+        addSpecificity(specificity, this.parseSelectorList());
+      } else if (hasArgument) {
+        this.skipArgument();
+      }
+      return specificity;
+    }
+
+    if (!hasArgument) {
+      specificity.b = 1;
+      return specificity;
+    }
+    if (name === 'where') {
+      this.parseSelectorList();
+      return specificity;
+    }
+    if (SelectorListPseudoClasses.has(name)) {
+      return this.parseSelectorList();
+    }
+    specificity.b = 1;
+    if (CompoundArgumentPseudoClasses.has(name)) {
+      addSpecificity(specificity, this.parseSelectorList());
+    } else if (NthOfPseudoClasses.has(name)) {
+      const argument = this.skipArgument();
+      const ofSelectorMatch = argument.match(/\sof\s([^]*)$/i);
+      if (ofSelectorMatch) {
+        addSpecificity(specificity, selectorSpecificity(ofSelectorMatch[1]));
+      }
+    } else {
+      this.skipArgument();
+    }
+    return specificity;
+  }
+
+  private readIdentifier(): string {
+    const start = this.#index;
+    this.skipIdentifier();
+    return this.#text.substring(start, this.#index);
+  }
+
+  private skipIdentifier(): void {
+    while (this.#index < this.#text.length) {
+      const character = this.#text[this.#index];
+      if (character === '\\') {
+        this.skipEscape();
+      } else if (isIdentifierCharacter(character)) {
+        ++this.#index;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private skipEscape(): void {
+    ++this.#index;
+    const hexDigits = this.#text.substring(this.#index).match(/^[\da-f]{1,6}\s?/i);
+    this.#index += hexDigits ? hexDigits[0].length : 1;
+  }
+
+  private skipString(quote: string): void {
+    ++this.#index;
+    while (this.#index < this.#text.length && this.#text[this.#index] !== quote) {
+      this.#index += this.#text[this.#index] === '\\' ? 2 : 1;
+    }
+    ++this.#index;
+  }
+
+  // Skips a block from its opening to its closing character, including nested blocks, strings and escapes.
+  private skipBlock(open: string, close: string): void {
+    let depth = 0;
+    while (this.#index < this.#text.length) {
+      const character = this.#text[this.#index];
+      if (character === '"' || character === '\'') {
+        this.skipString(character);
+        continue;
+      }
+      if (character === '\\') {
+        this.skipEscape();
+        continue;
+      }
+      ++this.#index;
+      if (character === open) {
+        ++depth;
+      } else if (character === close && --depth === 0) {
+        return;
+      }
+    }
+  }
+
+  // Skips the argument of a functional pseudo-class, whose `(` was already consumed, and returns its text.
+  private skipArgument(): string {
+    const start = this.#index - 1;
+    this.#index = start;
+    this.skipBlock('(', ')');
+    return this.#text.substring(start + 1, this.#index - 1);
+  }
+}
+
+/**
+ * Computes the specificity of a selector, or of the most specific selector of a selector list.
+ * The specificity of `:is()`, `:not()` and `:has()` is the one of their most specific argument,
+ * `:where()` has no specificity and `:nth-child(An+B of S)` adds the specificity of `S`.
+ *
+ * The nesting selector `&` counts as nothing. It stands for the selectors of the parent rule, which
+ * the protocol does not report for nested rules, so the specificity of nested rules that use it is
+ * too low by the specificity of their parent rule.
+ */
+export function selectorSpecificity(selectorText: string): CSSSpecificity {
+  return new SelectorParser(selectorText).parseSelectorList();
+}
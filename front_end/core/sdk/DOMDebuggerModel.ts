@@ -234,12 +234,7 @@ export class DOMDebuggerModel extends SDKModel<EventTypes> {
   readonly #runtimeModelInternal: RuntimeModel;
   #domModel: DOMModel;
   #domBreakpointsInternal: DOMBreakpoint[];
-  readonly #domBreakpointsSetting: Common.Settings.Setting<{
-    url: Platform.DevToolsPath.UrlString,
-    path: string,
-    type: Protocol.DOMDebugger.DOMBreakpointType,
-    enabled: boolean,
-  }[]>;
+  readonly #domBreakpointsSetting: Common.Settings.Setting<DOMBreakpointData[]>;
   suspended = false;
 
   constructor(target: Target) {
@@ -300,6 +295,35 @@ export class DOMDebuggerModel extends SDKModel<EventTypes> {
     return this.#domBreakpointsInternal.slice();
   }
 
+  // The DOM breakpoints of the current document, in the form in which they are saved.
+  domBreakpointsData(): DOMBreakpointData[] {
+    const url = this.currentURL();
+    return this.#domBreakpointsInternal.map(
+        breakpoint => ({url, path: breakpoint.node.path(), type: breakpoint.type, enabled: breakpoint.enabled}));
+  }
+
+  // Adds DOM breakpoints that were saved elsewhere, e.g. in a file. The ones of the current document are
+  // resolved right away, the others when their document is loaded.
+  importDOMBreakpoints(breakpoints: DOMBreakpointData[]): void {
+    this.saveDOMBreakpoints();
+    const isImported = (saved: DOMBreakpointData): boolean => breakpoints.some(
+        breakpoint => breakpoint.url === saved.url && breakpoint.path === saved.path && breakpoint.type === saved.type);
+    this.#domBreakpointsSetting.set(
+        [...this.#domBreakpointsSetting.get().filter(saved => !isImported(saved)), ...breakpoints]);
+    const currentURL = this.currentURL();
+    if (!this.suspended && breakpoints.some(breakpoint => breakpoint.url === currentURL)) {
+      // The breakpoints of the document are set again from the setting, so the current ones are
+      // disabled in the backend first.
+      for (const breakpoint of this.#domBreakpointsInternal) {
+        if (breakpoint.enabled) {
+          breakpoint.enabled = false;
+          this.disableDOMBreakpoint(breakpoint);
+        }
+      }
+      void this.documentUpdated();
+    }
+  }
+
   hasDOMBreakpoint(node: DOMNode, type: Protocol.DOMDebugger.DOMBreakpointType): boolean {
     return this.#domBreakpointsInternal.some(breakpoint => (breakpoint.node === node && breakpoint.type === type));
   }
@@ -467,9 +491,7 @@ export class DOMDebuggerModel extends SDKModel<EventTypes> {
 
   private saveDOMBreakpoints(): void {
     const currentURL = this.currentURL();
-    const breakpoints = this.#domBreakpointsSetting.get().filter((breakpoint: {
-                                                                   url: Platform.DevToolsPath.UrlString,
-                                                                 }) => breakpoint.url !== currentURL);
+    const breakpoints = this.#domBreakpointsSetting.get().filter(breakpoint => breakpoint.url !== currentURL);
     for (const breakpoint of this.#domBreakpointsInternal) {
       breakpoints.push(
           {url: currentURL, path: breakpoint.node.path(), type: breakpoint.type, enabled: breakpoint.enabled});
@@ -492,6 +514,25 @@ export type EventTypes = {
   [Events.DOMBreakpointsRemoved]: DOMBreakpoint[],
 };
 
+export interface DOMBreakpointData {
+  url: Platform.DevToolsPath.UrlString;
+  path: string;
+  type: Protocol.DOMDebugger.DOMBreakpointType;
+  enabled: boolean;
+}
+
+export interface XHRBreakpointData {
+  url: string;
+  enabled: boolean;
+}
+
+// Identifies a DOMEventListenerBreakpoint, the names that do not apply to it are empty.
+export interface EventListenerBreakpointData {
+  instrumentationName: string;
+  eventName: string;
+  eventTargetNames: string[];
+}
+
 const Marker = 'breakpoint-marker';
 
 export class DOMBreakpoint {
@@ -755,13 +796,15 @@ export class DOMEventListenerBreakpoint extends CategorizedBreakpoint {
 
 let domDebuggerManagerInstance: DOMDebuggerManager;
 
-export class DOMDebuggerManager implements SDKModelObserver<DOMDebuggerModel> {
-  readonly #xhrBreakpointsSetting: Common.Settings.Setting<{url: string, enabled: boolean}[]>;
+export class DOMDebuggerManager extends Common.ObjectWrapper.ObjectWrapper<DOMDebuggerManagerEventTypes> implements
+    SDKModelObserver<DOMDebuggerModel> {
+  readonly #xhrBreakpointsSetting: Common.Settings.Setting<XHRBreakpointData[]>;
   readonly #xhrBreakpointsInternal: Map<string, boolean>;
   readonly #cspViolationsToBreakOn: CSPViolationBreakpoint[];
   readonly #eventListenerBreakpointsInternal: DOMEventListenerBreakpoint[];
 
   constructor() {
+    super();
     this.#xhrBreakpointsSetting = Common.Settings.Settings.instance().createLocalSetting('xhrBreakpoints', []);
     this.#xhrBreakpointsInternal = new Map();
     for (const breakpoint of this.#xhrBreakpointsSetting.get()) {
@@ -1061,6 +1104,26 @@ export class DOMDebuggerManager implements SDKModelObserver<DOMDebuggerModel> {
     this.saveXHRBreakpoints();
   }
 
+  // Adds XHR and event listener breakpoints that were saved elsewhere, e.g. in a file.
+  importBreakpoints(xhrBreakpoints: XHRBreakpointData[], eventListenerBreakpoints: EventListenerBreakpointData[]):
+      void {
+    for (const {url, enabled} of xhrBreakpoints) {
+      if (this.#xhrBreakpointsInternal.has(url)) {
+        this.toggleXHRBreakpoint(url, enabled);
+      } else {
+        this.addXHRBreakpoint(url, enabled);
+      }
+    }
+    for (const data of eventListenerBreakpoints) {
+      const breakpoint = this.#eventListenerBreakpointsInternal.find(
+          breakpoint => breakpoint.instrumentationName === data.instrumentationName &&
+              breakpoint.eventName === data.eventName &&
+              breakpoint.eventTargetNames.join() === data.eventTargetNames.join());
+      breakpoint?.setEnabled(true);
+    }
+    this.dispatchEventToListeners(DOMDebuggerManagerEvents.BreakpointsImported);
+  }
+
   modelAdded(domDebuggerModel: DOMDebuggerModel): void {
     for (const url of this.#xhrBreakpointsInternal.keys()) {
       if (this.#xhrBreakpointsInternal.get(url)) {
@@ -1080,4 +1143,12 @@ export class DOMDebuggerManager implements SDKModelObserver<DOMDebuggerModel> {
   }
 }
 
+export const enum DOMDebuggerManagerEvents {
+  BreakpointsImported = 'BreakpointsImported',
+}
+
+export type DOMDebuggerManagerEventTypes = {
+  [DOMDebuggerManagerEvents.BreakpointsImported]: void,
+};
+
 SDKModel.register(DOMDebuggerModel, {capabilities: Capability.DOM, autostart: false});
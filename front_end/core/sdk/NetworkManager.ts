@@ -242,6 +242,9 @@ export class NetworkManager extends SDKModel<EventTypes> {
     if (!conditions.download && !conditions.upload) {
       return Protocol.Network.ConnectionType.None;
     }
+    if (conditions.connectionType) {
+      return conditions.connectionType;
+    }
     const title =
         typeof conditions.title === 'function' ? conditions.title().toLowerCase() : conditions.title.toLowerCase();
     for (const [name, protocolType] of CONNECTION_TYPES) {
@@ -1132,6 +1135,7 @@ export class MultitargetNetworkManager extends Common.ObjectWrapper.ObjectWrappe
   #userAgentMetadataOverride: Protocol.Emulation.UserAgentMetadata|null;
   #customAcceptedEncodings: Protocol.Network.ContentEncoding[]|null;
   readonly #networkAgents: Set<ProtocolProxyApi.NetworkApi>;
+  readonly #offlineNetworkAgents: Set<ProtocolProxyApi.NetworkApi>;
   readonly #fetchAgents: Set<ProtocolProxyApi.FetchApi>;
   readonly inflightMainResourceRequests: Map<string, NetworkRequest>;
   #networkConditionsInternal: Conditions;
@@ -1139,10 +1143,15 @@ export class MultitargetNetworkManager extends Common.ObjectWrapper.ObjectWrappe
   readonly #blockingEnabledSetting: Common.Settings.Setting<boolean>;
   readonly #blockedPatternsSetting: Common.Settings.Setting<BlockedPattern[]>;
   #effectiveBlockedURLs: string[];
+  #mockedPatterns: BlockedPattern[];
+  readonly #mockingInterceptor: (interceptedRequest: InterceptedRequest) => Promise<void>;
   readonly #urlsForRequestInterceptor:
       Platform.MapUtilities.Multimap<(arg0: InterceptedRequest) => Promise<void>, InterceptionPattern>;
   #extraHeaders?: Protocol.Network.Headers;
   #customUserAgent?: string;
+  #throttlingRules: ThrottlingRule[];
+  #throttlingInterceptionPatterns: string;
+  readonly #throttlingInterceptor: (interceptedRequest: InterceptedRequest) => Promise<void>;
 
   constructor() {
     super();
@@ -1150,6 +1159,7 @@ export class MultitargetNetworkManager extends Common.ObjectWrapper.ObjectWrappe
     this.#userAgentMetadataOverride = null;
     this.#customAcceptedEncodings = null;
     this.#networkAgents = new Set();
+    this.#offlineNetworkAgents = new Set();
     this.#fetchAgents = new Set();
     this.inflightMainResourceRequests = new Map();
     this.#networkConditionsInternal = NoThrottlingConditions;
@@ -1159,9 +1169,14 @@ export class MultitargetNetworkManager extends Common.ObjectWrapper.ObjectWrappe
     this.#blockingEnabledSetting = Common.Settings.Settings.instance().moduleSetting('requestBlockingEnabled');
     this.#blockedPatternsSetting = Common.Settings.Settings.instance().createSetting('networkBlockedPatterns', []);
     this.#effectiveBlockedURLs = [];
+    this.#mockedPatterns = [];
+    this.#mockingInterceptor = this.mockInterceptedRequest.bind(this);
+    this.#urlsForRequestInterceptor = new Platform.MapUtilities.Multimap();
     this.updateBlockedPatterns();
 
-    this.#urlsForRequestInterceptor = new Platform.MapUtilities.Multimap();
+    this.#throttlingRules = [];
+    this.#throttlingInterceptionPatterns = '[]';
+    this.#throttlingInterceptor = this.throttleInterceptedRequest.bind(this);
 
     TargetManager.instance().observeModels(NetworkManager, this);
   }
@@ -1250,7 +1265,7 @@ export class MultitargetNetworkManager extends Common.ObjectWrapper.ObjectWrappe
     }
     this.#networkAgents.add(networkAgent);
     this.#fetchAgents.add(fetchAgent);
-    if (this.isThrottling()) {
+    if (this.isThrottling() || this.#offlineNetworkAgents.has(networkAgent)) {
       this.updateNetworkConditions(networkAgent);
     }
   }
@@ -1264,6 +1279,7 @@ export class MultitargetNetworkManager extends Common.ObjectWrapper.ObjectWrappe
       this.inflightMainResourceRequests.delete((entry[0] as string));
     }
     this.#networkAgents.delete(networkManager.target().networkAgent());
+    this.#offlineNetworkAgents.delete(networkManager.target().networkAgent());
     this.#fetchAgents.delete(networkManager.target().fetchAgent());
   }
 
@@ -1281,6 +1297,7 @@ export class MultitargetNetworkManager extends Common.ObjectWrapper.ObjectWrappe
     for (const agent of this.#networkAgents) {
       this.updateNetworkConditions(agent);
     }
+    this.updateThrottlingInterception();
     this.dispatchEventToListeners(MultitargetNetworkManager.Events.ConditionsChanged);
   }
 
@@ -1288,9 +1305,111 @@ export class MultitargetNetworkManager extends Common.ObjectWrapper.ObjectWrappe
     return this.#networkConditionsInternal;
   }
 
+  /**
+   * Takes a single target, like a service worker, offline regardless of the network conditions of
+   * the other targets.
+   */
+  setTargetOffline(target: Target, offline: boolean): void {
+    const networkAgent = target.networkAgent();
+    if (offline === this.#offlineNetworkAgents.has(networkAgent)) {
+      return;
+    }
+    if (offline) {
+      this.#offlineNetworkAgents.add(networkAgent);
+    } else {
+      this.#offlineNetworkAgents.delete(networkAgent);
+    }
+    if (this.#networkAgents.has(networkAgent)) {
+      this.updateNetworkConditions(networkAgent);
+    }
+  }
+
+  isTargetOffline(target: Target): boolean {
+    return this.#offlineNetworkAgents.has(target.networkAgent());
+  }
+
+  /**
+   * Rules apply their conditions to the requests to the hosts that match their patterns, on top
+   * of the network conditions. The first enabled rule that matches a host wins.
+   */
+  setThrottlingRules(rules: ThrottlingRule[]): void {
+    this.#throttlingRules = rules.filter(rule => rule.enabled && rule.hostPattern.trim());
+    this.updateThrottlingInterception();
+    this.dispatchEventToListeners(MultitargetNetworkManager.Events.ConditionsChanged);
+  }
+
+  throttlingRules(): ThrottlingRule[] {
+    return this.#throttlingRules;
+  }
+
+  private hasPacketLossOrJitter(): boolean {
+    const conditions = this.#networkConditionsInternal;
+    return this.isThrottling() && Boolean(conditions.packetLoss || conditions.jitter);
+  }
+
+  // Packet loss, jitter and throttling rules are not supported by the protocol and are emulated by
+  // intercepting the requests.
+  private updateThrottlingInterception(): void {
+    const patterns: InterceptionPattern[] = [];
+    if (this.hasPacketLossOrJitter()) {
+      patterns.push({urlPattern: '*', requestStage: Protocol.Fetch.RequestStage.Request});
+    }
+    for (const rule of this.#throttlingRules) {
+      const urlPattern = `*://${rule.hostPattern.trim()}*`;
+      patterns.push({urlPattern, requestStage: Protocol.Fetch.RequestStage.Request});
+      if (rule.conditions.download > 0) {
+        patterns.push({urlPattern, requestStage: Protocol.Fetch.RequestStage.Response});
+      }
+    }
+    const serializedPatterns = JSON.stringify(patterns);
+    if (serializedPatterns === this.#throttlingInterceptionPatterns) {
+      return;
+    }
+    this.#throttlingInterceptionPatterns = serializedPatterns;
+    void this.setInterceptionHandlerForPatterns(patterns, this.#throttlingInterceptor);
+  }
+
+  private async throttleInterceptedRequest(interceptedRequest: InterceptedRequest): Promise<void> {
+    const {request} = interceptedRequest;
+    const rule = this.#throttlingRules.find(rule => hostPatternMatches(rule.hostPattern, request.url));
+    if (!rule && !this.hasPacketLossOrJitter()) {
+      return;
+    }
+    const conditions = rule ? rule.conditions : this.#networkConditionsInternal;
+    if (interceptedRequest.responseStatusCode !== undefined) {
+      if (rule) {
+        const contentLength =
+            interceptedRequest.responseHeaders?.find(header => header.name.toLowerCase() === 'content-length');
+        await delay(throttlingResponseDelay(conditions, Number(contentLength?.value) || 0));
+      }
+      return;
+    }
+    if (rule && !conditions.download && !conditions.upload) {
+      interceptedRequest.continueRequestWithError(Protocol.Network.ErrorReason.InternetDisconnected);
+      return;
+    }
+    if (conditions.packetLoss && Math.random() * 100 < conditions.packetLoss) {
+      interceptedRequest.continueRequestWithError(Protocol.Network.ErrorReason.ConnectionFailed);
+      return;
+    }
+    if (rule) {
+      const uploadBytes = request.postData ? new TextEncoder().encode(request.postData).length : 0;
+      await delay(throttlingRequestDelay(conditions, uploadBytes, Math.random()));
+    } else {
+      await delay(Math.random() * (conditions.jitter || 0));
+    }
+
+    function delay(milliseconds: number): Promise<void> {
+      return new Promise(resolve => window.setTimeout(resolve, milliseconds));
+    }
+  }
+
   private updateNetworkConditions(networkAgent: ProtocolProxyApi.NetworkApi): void {
     const conditions = this.#networkConditionsInternal;
-    if (!this.isThrottling()) {
+    if (this.#offlineNetworkAgents.has(networkAgent)) {
+      void networkAgent.invoke_emulateNetworkConditions(
+          {offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0});
+    } else if (!this.isThrottling()) {
       void networkAgent.invoke_emulateNetworkConditions(
           {offline: false, latency: 0, downloadThroughput: 0, uploadThroughput: 0});
     } else {
@@ -1386,7 +1505,7 @@ export class MultitargetNetworkManager extends Common.ObjectWrapper.ObjectWrappe
   }
 
   isBlocking(): boolean {
-    return Boolean(this.#effectiveBlockedURLs.length);
+    return Boolean(this.#effectiveBlockedURLs.length || this.#mockedPatterns.length);
   }
 
   setBlockedPatterns(patterns: BlockedPattern[]): void {
@@ -1406,13 +1525,17 @@ export class MultitargetNetworkManager extends Common.ObjectWrapper.ObjectWrappe
 
   private updateBlockedPatterns(): void {
     const urls = [];
+    const mockedPatterns = [];
     if (this.#blockingEnabledSetting.get()) {
       for (const pattern of this.#blockedPatternsSetting.get()) {
-        if (pattern.enabled) {
+        if (pattern.enabled && pattern.mockedResponse) {
+          mockedPatterns.push(pattern);
+        } else if (pattern.enabled) {
           urls.push(pattern.url);
         }
       }
     }
+    this.updateMockedPatterns(mockedPatterns);
 
     if (!urls.length && !this.#effectiveBlockedURLs.length) {
       return;
@@ -1423,6 +1546,35 @@ export class MultitargetNetworkManager extends Common.ObjectWrapper.ObjectWrappe
     }
   }
 
+  // Mocked responses are not supported by request blocking and are served by intercepting the requests.
+  private updateMockedPatterns(patterns: BlockedPattern[]): void {
+    if (!patterns.length && !this.#mockedPatterns.length) {
+      return;
+    }
+    this.#mockedPatterns = patterns;
+    void this.setInterceptionHandlerForPatterns(
+        patterns.map(pattern => ({urlPattern: `*${pattern.url}*`, requestStage: Protocol.Fetch.RequestStage.Request})),
+        this.#mockingInterceptor);
+  }
+
+  private async mockInterceptedRequest(interceptedRequest: InterceptedRequest): Promise<void> {
+    if (interceptedRequest.responseStatusCode !== undefined) {
+      return;
+    }
+    const pattern =
+        this.#mockedPatterns.find(pattern => blockedPatternMatches(pattern.url, interceptedRequest.request.url));
+    if (!pattern || !pattern.mockedResponse) {
+      return;
+    }
+    const {statusCode, headers, body, delay} = pattern.mockedResponse;
+    if (delay > 0) {
+      await new Promise(resolve => window.setTimeout(resolve, delay));
+    }
+    if (statusCode) {
+      await interceptedRequest.fulfillRequest(statusCode, headers, body);
+    }
+  }
+
   isIntercepting(): boolean {
     return Boolean(this.#urlsForRequestInterceptor.size);
   }
@@ -1651,6 +1803,19 @@ export class InterceptedRequest {
     }
   }
 
+  async fulfillRequest(responseCode: number, responseHeaders: Protocol.Fetch.HeaderEntry[], body: string):
+      Promise<void> {
+    console.assert(!this.#hasRespondedInternal);
+    this.#hasRespondedInternal = true;
+    const response = await this.#fetchAgent.invoke_fulfillRequest(
+        {requestId: this.requestId, responseCode, responseHeaders, body: Platform.StringUtilities.toBase64(body)});
+    // The backend rejects responses it cannot send, e.g. with invalid headers, so let the request through instead
+    // of leaving it paused.
+    if (response.getError()) {
+      void this.#fetchAgent.invoke_continueRequest({requestId: this.requestId});
+    }
+  }
+
   continueRequestWithoutChange(): void {
     console.assert(!this.#hasRespondedInternal);
     this.#hasRespondedInternal = true;
@@ -1793,7 +1958,34 @@ export function networkConditionsEqual(first: Conditions, second: Conditions): b
   const firstTitle = typeof first.title === 'function' ? first.title() : first.title;
   const secondTitle = typeof second.title === 'function' ? second.title() : second.title;
   return second.download === first.download && second.upload === first.upload && second.latency === first.latency &&
-      secondTitle === firstTitle;
+      (second.packetLoss || 0) === (first.packetLoss || 0) && (second.jitter || 0) === (first.jitter || 0) &&
+      second.connectionType === first.connectionType && secondTitle === firstTitle;
+}
+
+export function hostPatternMatches(hostPattern: string, url: string): boolean {
+  const parsedURL = Common.ParsedURL.ParsedURL.fromString(url);
+  if (!parsedURL) {
+    return false;
+  }
+  const regex = hostPattern.trim().toLowerCase().split('*').map(Platform.StringUtilities.escapeForRegExp).join('.*');
+  return new RegExp(`^${regex}$`).test(parsedURL.host.toLowerCase());
+}
+
+/**
+ * The delay in milliseconds that emulates the conditions of a throttling rule before a request
+ * is sent: its latency, a random part of its jitter and the time to upload the request body.
+ */
+export function throttlingRequestDelay(conditions: Conditions, uploadBytes: number, random: number): number {
+  const uploadDelay = conditions.upload > 0 ? uploadBytes / conditions.upload * 1000 : 0;
+  return conditions.latency + random * (conditions.jitter || 0) + uploadDelay;
+}
+
+/**
+ * The delay in milliseconds that emulates the time to download a response under the conditions of
+ * a throttling rule.
+ */
+export function throttlingResponseDelay(conditions: Conditions, downloadBytes: number): number {
+  return conditions.download > 0 ? downloadBytes / conditions.download * 1000 : 0;
 }
 
 export interface Conditions {
@@ -1812,11 +2004,53 @@ export interface Conditions {
   // should not be irrecoverably baked, just in case the string changes
   // (or the user switches locales).
   i18nTitleKey?: string;
+  // The percentage of requests that fail as if their connection was lost.
+  packetLoss?: number;
+  // The upper bound in milliseconds of a random delay that is added to each request.
+  jitter?: number;
+  // When set, overrides the connection type that is otherwise derived from the title.
+  connectionType?: Protocol.Network.ConnectionType;
+}
+
+export interface ThrottlingRule {
+  // A host name in which `*` matches any characters, e.g. `*.cdn.example.com`.
+  hostPattern: string;
+  conditions: Conditions;
+  enabled: boolean;
 }
 
 export interface BlockedPattern {
   url: string;
   enabled: boolean;
+  // Patterns with a mocked response fulfil or delay the requests they match instead of blocking them.
+  mockedResponse?: MockedResponse;
+}
+
+export interface MockedResponse {
+  // The status code of the response that fulfils the requests, or 0 to only delay them.
+  statusCode: number;
+  headers: Protocol.Fetch.HeaderEntry[];
+  body: string;
+  // The number of milliseconds by which the requests are delayed.
+  delay: number;
+}
+
+// Blocked patterns match the URLs that contain their parts in order, with `*` matching any characters.
+export function blockedPatternMatches(pattern: string, url: string): boolean {
+  let pos = 0;
+  const parts = pattern.split('*');
+  for (let index = 0; index < parts.length; index++) {
+    const part = parts[index];
+    if (!part.length) {
+      continue;
+    }
+    pos = url.indexOf(part, pos);
+    if (pos === -1) {
+      return false;
+    }
+    pos += part.length;
+  }
+  return true;
 }
 
 export interface Message {
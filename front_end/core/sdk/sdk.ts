@@ -34,6 +34,7 @@ import * as CSSPropertyParser from './CSSPropertyParser.js';
 import * as CSSQuery from './CSSQuery.js';
 import * as CSSRule from './CSSRule.js';
 import * as CSSScope from './CSSScope.js';
+import * as CSSSpecificity from './CSSSpecificity.js';
 import * as CSSStyleDeclaration from './CSSStyleDeclaration.js';
 import * as CSSStyleSheetHeader from './CSSStyleSheetHeader.js';
 import * as CSSSupports from './CSSSupports.js';
@@ -106,6 +107,7 @@ export {
   CSSQuery,
   CSSRule,
   CSSScope,
+  CSSSpecificity,
   CSSStyleDeclaration,
   CSSStyleSheetHeader,
   CSSSupports,
@@ -44,6 +44,10 @@ export class FormattedContentBuilder {
     }
   }
 
+  removeSoftSpace(): void {
+    this.#softSpace = false;
+  }
+
   addHardSpace(): void {
     this.#softSpace = false;
     ++this.#hardSpaces;
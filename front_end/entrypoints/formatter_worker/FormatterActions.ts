@@ -17,7 +17,11 @@ export const enum FormattableMediaTypes {
   TEXT_CSS = 'text/css',
   TEXT_HTML = 'text/html',
   TEXT_JAVASCRIPT = 'text/javascript',
+  TEXT_JSX = 'text/jsx',
+  TEXT_TYPESCRIPT = 'text/typescript',
+  TEXT_TYPESCRIPT_JSX = 'text/typescript-jsx',
   TEXT_X_SCSS = 'text/x-scss',
+  TEXT_X_SVELTE = 'text/x.svelte',
 }
 
 export const FORMATTABLE_MEDIA_TYPES: string[] = [
@@ -27,7 +31,11 @@ export const FORMATTABLE_MEDIA_TYPES: string[] = [
   FormattableMediaTypes.TEXT_CSS,
   FormattableMediaTypes.TEXT_HTML,
   FormattableMediaTypes.TEXT_JAVASCRIPT,
+  FormattableMediaTypes.TEXT_JSX,
+  FormattableMediaTypes.TEXT_TYPESCRIPT,
+  FormattableMediaTypes.TEXT_TYPESCRIPT_JSX,
   FormattableMediaTypes.TEXT_X_SCSS,
+  FormattableMediaTypes.TEXT_X_SVELTE,
 ];
 
 export interface FormatMapping {
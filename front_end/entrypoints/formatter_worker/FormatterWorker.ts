@@ -46,6 +46,7 @@ import {IdentityFormatter} from './IdentityFormatter.js';
 import {JavaScriptFormatter} from './JavaScriptFormatter.js';
 import {JSONFormatter} from './JSONFormatter.js';
 import {substituteExpression} from './Substitute.js';
+import {type ScriptDialect} from './SyntaxEraser.js';
 
 export interface Chunk {
   // TODO(crbug.com/1172300) Ignored during the jsdoc to ts migration
@@ -140,6 +141,14 @@ export function evaluatableJavaScriptSubstring(content: string): string {
   }
 }
 
+export function scriptDialectForMimeType(mimeType: string): ScriptDialect {
+  return {
+    typescript:
+        mimeType === FormattableMediaTypes.TEXT_TYPESCRIPT || mimeType === FormattableMediaTypes.TEXT_TYPESCRIPT_JSX,
+    jsx: mimeType === FormattableMediaTypes.TEXT_JSX || mimeType === FormattableMediaTypes.TEXT_TYPESCRIPT_JSX,
+  };
+}
+
 export function format(mimeType: string, text: string, indentString?: string): FormatResult {
   // Default to a 4-space indent.
   indentString = indentString || '    ';
@@ -149,7 +158,8 @@ export function format(mimeType: string, text: string, indentString?: string): F
   const lineEndings = Platform.StringUtilities.findLineEndingIndexes(text);
   try {
     switch (mimeType) {
-      case FormattableMediaTypes.TEXT_HTML: {
+      case FormattableMediaTypes.TEXT_HTML:
+      case FormattableMediaTypes.TEXT_X_SVELTE: {
         const formatter = new HTMLFormatter(builder);
         formatter.format(text, lineEndings);
         break;
@@ -161,9 +171,12 @@ export function format(mimeType: string, text: string, indentString?: string): F
         break;
       }
       case FormattableMediaTypes.APPLICATION_JAVASCRIPT:
-      case FormattableMediaTypes.TEXT_JAVASCRIPT: {
+      case FormattableMediaTypes.TEXT_JAVASCRIPT:
+      case FormattableMediaTypes.TEXT_JSX:
+      case FormattableMediaTypes.TEXT_TYPESCRIPT:
+      case FormattableMediaTypes.TEXT_TYPESCRIPT_JSX: {
         const formatter = new JavaScriptFormatter(builder);
-        formatter.format(text, lineEndings, 0, text.length);
+        formatter.format(text, lineEndings, 0, text.length, scriptDialectForMimeType(mimeType));
         break;
       }
       case FormattableMediaTypes.APPLICATION_JSON:
@@ -6,8 +6,9 @@ import * as Platform from '../../core/platform/platform.js';
 
 import {CSSFormatter} from './CSSFormatter.js';
 import {type FormattedContentBuilder} from './FormattedContentBuilder.js';
-import {AbortTokenization, createTokenizer} from './FormatterWorker.js';
+import {AbortTokenization, createTokenizer, scriptDialectForMimeType} from './FormatterWorker.js';
 import {JavaScriptFormatter} from './JavaScriptFormatter.js';
+import {type ScriptDialect} from './SyntaxEraser.js';
 
 export class HTMLFormatter {
   readonly #builder: FormattedContentBuilder;
@@ -123,15 +124,22 @@ export class HTMLFormatter {
     if (isBodyToken && element.name === 'style') {
       this.#builder.addNewLine();
       this.#builder.increaseNestingLevel();
-      this.#cssFormatter.format(this.#text || '', this.#lineEndings || [], token.startOffset, token.endOffset);
+      if (this.#styleTagIsCSS(element)) {
+        this.#cssFormatter.format(this.#text || '', this.#lineEndings || [], token.startOffset, token.endOffset);
+      } else {
+        this.#builder.addToken(token.value, token.startOffset);
+        this.#builder.addNewLine();
+      }
       this.#builder.decreaseNestingLevel();
       return;
     }
     if (isBodyToken && element.name === 'script') {
       this.#builder.addNewLine();
       this.#builder.increaseNestingLevel();
-      if (this.#scriptTagIsJavaScript(element)) {
-        this.#jsFormatter.format(this.#text || '', this.#lineEndings || [], token.startOffset, token.endOffset);
+      const dialect = this.#scriptDialect(element);
+      if (dialect) {
+        this.#jsFormatter.format(
+            this.#text || '', this.#lineEndings || [], token.startOffset, token.endOffset, dialect);
       } else {
         this.#builder.addToken(token.value, token.startOffset);
         this.#builder.addNewLine();
@@ -147,26 +155,26 @@ export class HTMLFormatter {
     this.#builder.addToken(token.value, token.startOffset);
   }
 
-  #scriptTagIsJavaScript(element: FormatterElement): boolean {
-    if (!element.openTag) {
-      return true;
+  // Single-file components of frameworks like Vue and Svelte specify the language of
+  // their scripts with `lang`, e.g. `<script lang="ts">`.
+  #scriptDialect(element: FormatterElement): ScriptDialect|null {
+    const lang = attributeValue(element, 'lang');
+    if (lang) {
+      const dialect = ScriptLanguages.get(lang);
+      return dialect ? {...dialect} : null;
     }
 
-    if (!element.openTag.attributes.has('type')) {
-      return true;
-    }
-
-    let type = element.openTag.attributes.get('type');
-    if (!type) {
-      return true;
+    const type = attributeValue(element, 'type');
+    if (!type || HTMLFormatter.SupportedJavaScriptMimeTypes.has(type)) {
+      return {typescript: false, jsx: false};
     }
+    const dialect = scriptDialectForMimeType(type);
+    return dialect.typescript || dialect.jsx ? dialect : null;
+  }
 
-    type = type.toLowerCase();
-    const isWrappedInQuotes = /^(["\'])(.*)\1$/.exec(type.trim());
-    if (isWrappedInQuotes) {
-      type = isWrappedInQuotes[2];
-    }
-    return HTMLFormatter.SupportedJavaScriptMimeTypes.has(type.trim());
+  #styleTagIsCSS(element: FormatterElement): boolean {
+    const lang = attributeValue(element, 'lang');
+    return !lang || StyleLanguages.has(lang);
   }
 
   // TODO(crbug.com/1172300) Ignored during the jsdoc to ts migration
@@ -191,6 +199,28 @@ export class HTMLFormatter {
   ]);
 }
 
+const ScriptLanguages = new Map<string, ScriptDialect>([
+  ['js', {typescript: false, jsx: false}],
+  ['javascript', {typescript: false, jsx: false}],
+  ['jsx', {typescript: false, jsx: true}],
+  ['ts', {typescript: true, jsx: false}],
+  ['typescript', {typescript: true, jsx: false}],
+  ['tsx', {typescript: true, jsx: true}],
+]);
+
+// Languages of style tags that the CSS formatter can format. Indentation based ones
+// like Sass or Stylus are kept as they are.
+const StyleLanguages = new Set(['css', 'less', 'postcss', 'scss']);
+
+function attributeValue(element: FormatterElement, name: string): string|null {
+  const value = element.openTag?.attributes.get(name);
+  if (!value) {
+    return null;
+  }
+  const isWrappedInQuotes = /^(["\'])(.*)\1$/.exec(value.trim());
+  return (isWrappedInQuotes ? isWrappedInQuotes[2] : value).trim().toLowerCase();
+}
+
 function hasTokenInSet(tokenTypes: Set<string>, type: string): boolean {
   // We prefix the CodeMirror HTML tokenizer with the xml- prefix
   // in a full version. When running in a worker context, this
@@ -28,11 +28,13 @@
  * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
  */
 
+import * as Platform from '../../core/platform/platform.js';
 import * as Acorn from '../../third_party/acorn/acorn.js';
 
 import {AcornTokenizer, ECMA_VERSION, type TokenOrComment} from './AcornTokenizer.js';
 import {ESTreeWalker} from './ESTreeWalker.js';
 import {type FormattedContentBuilder} from './FormattedContentBuilder.js';
+import {eraseSyntax, type ErasedRange, type ScriptDialect} from './SyntaxEraser.js';
 
 export class JavaScriptFormatter {
   readonly #builder: FormattedContentBuilder;
@@ -41,40 +43,83 @@ export class JavaScriptFormatter {
   #fromOffset!: number;
   #lastLineNumber!: number;
   #toOffset?: number;
+  #lineEndings!: number[];
+  #originalContent!: string;
+  #erasedRanges: ErasedRange[] = [];
+  #nextErasedRangeIndex = 0;
   constructor(builder: FormattedContentBuilder) {
     this.#builder = builder;
   }
 
-  format(text: string, lineEndings: number[], fromOffset: number, toOffset: number): void {
+  /**
+   * TypeScript and JSX are formatted by formatting the JavaScript that is left after erasing
+   * the rest of the syntax. The erased parts are kept as they are, and so is the whole source
+   * if what is left is not valid JavaScript.
+   */
+  format(text: string, lineEndings: number[], fromOffset: number, toOffset: number, dialect?: ScriptDialect): void {
     this.#fromOffset = fromOffset;
     this.#toOffset = toOffset;
-    this.#content = text.substring(this.#fromOffset, this.#toOffset);
+    this.#lineEndings = lineEndings;
+    this.#originalContent = text.substring(this.#fromOffset, this.#toOffset);
+    const isErased = Boolean(dialect && (dialect.typescript || dialect.jsx));
+    if (dialect && isErased) {
+      const {content, erasedRanges} = eraseSyntax(this.#originalContent, dialect);
+      this.#content = content;
+      this.#erasedRanges = erasedRanges;
+    } else {
+      this.#content = this.#originalContent;
+      this.#erasedRanges = [];
+    }
+    this.#nextErasedRangeIndex = 0;
     this.#lastLineNumber = 0;
     this.#tokenizer = new AcornTokenizer(this.#content);
-    const ast = Acorn.parse(this.#content, {
-      ranges: false,
-      preserveParens: true,
-      allowAwaitOutsideFunction: true,
-      allowImportExportEverywhere: true,
-      ecmaVersion: ECMA_VERSION,
-      allowHashBang: true,
-    });
+    let ast;
+    try {
+      ast = Acorn.parse(this.#content, {
+        ranges: false,
+        preserveParens: true,
+        allowAwaitOutsideFunction: true,
+        allowImportExportEverywhere: true,
+        ecmaVersion: ECMA_VERSION,
+        allowHashBang: true,
+      });
+    } catch (error) {
+      if (!isErased) {
+        throw error;
+      }
+      // The syntax was not erased into valid JavaScript, so the source is kept unformatted.
+      this.#builder.addToken(this.#originalContent, this.#fromOffset);
+      this.#builder.addNewLine();
+      return;
+    }
     const walker = new ESTreeWalker(this.#beforeVisit.bind(this), this.#afterVisit.bind(this));
     // @ts-ignore Technically, the acorn Node type is a subclass of Acorn.ESTree.Node.
     // However, the acorn package currently exports its type without specifying
     // this relationship. So while this is allowed on runtime, we can't properly
     // typecheck it.
     walker.walk(ast);
+    this.#addErasedRangesBefore(Infinity);
   }
 
   #push(token: Acorn.Token|Acorn.Comment|null, format: string): void {
+    // Tokens in erased ranges stand in for the erased syntax, which is added as it is instead.
+    const isErased = token !== null && this.#isErased(token.start);
+    if (token) {
+      this.#addErasedRangesBefore(token.start);
+    }
     for (let i = 0; i < format.length; ++i) {
       if (format[i] === 's') {
-        this.#builder.addSoftSpace();
+        if (!isErased) {
+          this.#builder.addSoftSpace();
+        }
       } else if (format[i] === 'S') {
-        this.#builder.addHardSpace();
+        if (!isErased) {
+          this.#builder.addHardSpace();
+        }
       } else if (format[i] === 'n') {
-        this.#builder.addNewLine();
+        if (!isErased) {
+          this.#builder.addNewLine();
+        }
       } else if (format[i] === '>') {
         this.#builder.increaseNestingLevel();
       } else if (format[i] === '<') {
@@ -84,13 +129,65 @@ export class JavaScriptFormatter {
           this.#builder.addNewLine(true);
         }
         this.#lastLineNumber = this.#tokenizer.tokenLineEnd();
-        if (token) {
+        if (token && !isErased) {
           this.#builder.addToken(this.#content.substring(token.start, token.end), this.#fromOffset + token.start);
         }
       }
     }
   }
 
+  #isErased(offset: number): boolean {
+    for (let i = Math.max(this.#nextErasedRangeIndex - 1, 0);
+         i < this.#erasedRanges.length && this.#erasedRanges[i].start <= offset; ++i) {
+      if (offset < this.#erasedRanges[i].end) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  #addErasedRangesBefore(offset: number): void {
+    while (this.#nextErasedRangeIndex < this.#erasedRanges.length &&
+           this.#erasedRanges[this.#nextErasedRangeIndex].start <= offset) {
+      const {start, end} = this.#erasedRanges[this.#nextErasedRangeIndex++];
+      this.#addWhitespaceAround(start, -1);
+      // The erased syntax is only separated from the tokens next to it if it was in the original.
+      const enforceSpaceBetweenWords = this.#builder.setEnforceSpaceBetweenWords(false);
+      this.#builder.addToken(this.#originalContent.substring(start, end), this.#fromOffset + start);
+      this.#builder.setEnforceSpaceBetweenWords(enforceSpaceBetweenWords);
+      this.#addWhitespaceAround(end - 1, 1);
+      this.#lastLineNumber = this.#lineNumber(end - 1);
+    }
+  }
+
+  // Keeps the line break or the space next to erased syntax.
+  #addWhitespaceAround(offset: number, direction: number): void {
+    let hasWhitespace = false;
+    for (let i = offset + direction; i >= 0 && i < this.#originalContent.length; i += direction) {
+      const char = this.#originalContent[i];
+      if (char === '\n') {
+        this.#builder.addNewLine();
+        return;
+      }
+      if (!Platform.StringUtilities.isWhitespace(char)) {
+        break;
+      }
+      hasWhitespace = true;
+    }
+    if (hasWhitespace) {
+      this.#builder.addSoftSpace();
+    } else if (direction < 0) {
+      // Type annotations stick to the token they annotate, e.g. the `)` of the parameters.
+      this.#builder.removeSoftSpace();
+    }
+  }
+
+  #lineNumber(offset: number): number {
+    const lineNumber = (offset: number): number =>
+        Platform.ArrayUtilities.lowerBound(this.#lineEndings, offset, Platform.ArrayUtilities.DEFAULT_COMPARATOR);
+    return lineNumber(this.#fromOffset + offset) - lineNumber(this.#fromOffset);
+  }
+
   #beforeVisit(node: Acorn.ESTree.Node): undefined {
     if (!node.parent) {
       return;
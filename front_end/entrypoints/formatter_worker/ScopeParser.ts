@@ -7,8 +7,13 @@ import * as Acorn from '../../third_party/acorn/acorn.js';
 import {ECMA_VERSION} from './AcornTokenizer.js';
 
 import {DefinitionKind, type ScopeTreeNode} from './FormatterActions.js';
+import {eraseSyntax, type ScriptDialect} from './SyntaxEraser.js';
 
-export function parseScopes(expression: string): Scope|null {
+export function parseScopes(expression: string, dialect?: ScriptDialect): Scope|null {
+  // TypeScript and JSX are erased without moving the JavaScript, so the offsets stay the same.
+  if (dialect && (dialect.typescript || dialect.jsx)) {
+    expression = eraseSyntax(expression, dialect).content;
+  }
   // Parse the expression and find variables and scopes.
   let root: Acorn.ESTree.Node|null = null;
   try {
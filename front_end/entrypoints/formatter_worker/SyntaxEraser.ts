@@ -0,0 +1,1290 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+/**
+ * Acorn only parses JavaScript. To format and analyze TypeScript and JSX, the
+ * syntax that isn't JavaScript is erased first. The result has the length and
+ * the line breaks of the original, so that offsets into it are offsets into the
+ * original too.
+ *
+ * TypeScript annotations and declarations are replaced by whitespace. JSX
+ * elements are replaced by array literals with the expressions embedded in them
+ * and the components they reference, so that their variables are still used:
+ *
+ *   <Foo title={title}>{children}</Foo>
+ *
+ * becomes
+ *
+ *   [Foo        title  ,children  ,Foo]
+ */
+
+export interface ScriptDialect {
+  typescript: boolean;
+  jsx: boolean;
+}
+
+export interface ErasedRange {
+  start: number;
+  end: number;
+}
+
+export interface ErasedScript {
+  content: string;
+  // The erased ranges of the original, sorted by offset. The content has whitespace
+  // or the tokens that stand in for the erased syntax in these ranges.
+  erasedRanges: ErasedRange[];
+}
+
+export function eraseSyntax(text: string, dialect: ScriptDialect): ErasedScript {
+  const lexer = new Lexer(text, dialect.jsx);
+  lexer.tokenize();
+  const eraser = new Eraser(text, lexer.tokens);
+  for (const element of lexer.jsxElements) {
+    eraser.eraseJSXElement(element);
+  }
+  if (dialect.typescript) {
+    eraser.eraseTypeScript();
+  }
+  return eraser.result();
+}
+
+const enum TokenType {
+  Name = 'Name',
+  Number = 'Number',
+  String = 'String',
+  Template = 'Template',
+  RegExp = 'RegExp',
+  Punctuator = 'Punctuator',
+  // The markup of a JSX element up to, between or after the expressions embedded in it.
+  JSX = 'JSX',
+}
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+  newlineBefore: boolean;
+}
+
+interface JSXElement {
+  start: number;
+  end: number;
+  // The embedded expressions, including their braces.
+  containers: ErasedRange[];
+  // Tag names that refer to variables, like `Foo` or `foo.Bar`.
+  componentNames: ErasedRange[];
+}
+
+const PUNCTUATORS = [
+  '>>>=', '...', '===', '!==', '**=', '<<=', '>>=', '>>>', '&&=', '||=', '??=', '=>', '==', '!=', '<=', '>=', '&&',
+  '||',   '??',  '?.',  '++',  '--',  '+=',  '-=',  '*=',  '/=',  '%=',  '&=',  '|=', '^=', '**', '<<', '>>',
+];
+
+// Keywords after which an expression starts rather than ends.
+const KEYWORDS_BEFORE_EXPRESSION = new Set([
+  'await',   'case',  'catch', 'class',  'const', 'default',    'delete', 'do',   'else',  'export',
+  'extends', 'for',   'if',    'import', 'in',    'instanceof', 'let',    'new',  'of',    'return',
+  'switch',  'throw', 'try',   'typeof', 'var',   'void',       'while',  'with', 'yield',
+]);
+
+const NAME_START_REGEX = /[\w$\\\u0080-\uffff]/;
+const NAME_REGEX = /[\w$\\\u0080-\uffff]/;
+const JSX_NAME_REGEX = /[\w$.:\-\u0080-\uffff]/;
+
+function isNewline(char: string): boolean {
+  return char === '\n' || char === '\r' || char === '\u2028' || char === '\u2029';
+}
+
+// Templates are split into tokens at their substitutions, so `a${b}c` is read as the
+// template tokens `a${ and }c` with the tokens of `b` in between.
+function isTemplateHead(token: Token|undefined): boolean {
+  return token !== undefined && token.type === TokenType.Template && token.value.startsWith('`') &&
+      token.value.endsWith('${');
+}
+
+function isTemplateTail(token: Token|undefined): boolean {
+  return token !== undefined && token.type === TokenType.Template && token.value.startsWith('}') &&
+      !token.value.endsWith('${');
+}
+
+class Lexer {
+  readonly #text: string;
+  readonly #jsx: boolean;
+  #position = 0;
+  #newlineBefore = false;
+  readonly tokens: Token[] = [];
+  readonly jsxElements: JSXElement[] = [];
+
+  constructor(text: string, jsx: boolean) {
+    this.#text = text;
+    this.#jsx = jsx;
+  }
+
+  tokenize(): void {
+    if (this.#text.startsWith('#!')) {
+      while (this.#position < this.#text.length && !isNewline(this.#text[this.#position])) {
+        ++this.#position;
+      }
+    }
+    this.#readTokens(/* untilClosingBrace */ false);
+  }
+
+  #readTokens(untilClosingBrace: boolean): void {
+    let depth = 0;
+    while (true) {
+      this.#skipWhitespaceAndComments();
+      if (this.#position >= this.#text.length) {
+        return;
+      }
+      const char = this.#text[this.#position];
+      if (untilClosingBrace && char === '{') {
+        ++depth;
+      } else if (untilClosingBrace && char === '}' && depth-- === 0) {
+        return;
+      }
+      this.#readToken();
+    }
+  }
+
+  #skipWhitespaceAndComments(): void {
+    const text = this.#text;
+    while (this.#position < text.length) {
+      const char = text[this.#position];
+      if (isNewline(char)) {
+        this.#newlineBefore = true;
+        ++this.#position;
+      } else if (/\s/.test(char)) {
+        ++this.#position;
+      } else if (text.startsWith('//', this.#position)) {
+        while (this.#position < text.length && !isNewline(text[this.#position])) {
+          ++this.#position;
+        }
+      } else if (text.startsWith('/*', this.#position)) {
+        const end = text.indexOf('*/', this.#position + 2);
+        const commentEnd = end === -1 ? text.length : end + 2;
+        if (/[\n\r\u2028\u2029]/.test(text.substring(this.#position, commentEnd))) {
+          this.#newlineBefore = true;
+        }
+        this.#position = commentEnd;
+      } else {
+        return;
+      }
+    }
+  }
+
+  #pushToken(type: TokenType, start: number, value = this.#text.substring(start, this.#position)): void {
+    this.tokens.push({type, value, start, end: this.#position, newlineBefore: this.#newlineBefore});
+    this.#newlineBefore = false;
+  }
+
+  #readToken(): void {
+    const text = this.#text;
+    const start = this.#position;
+    const char = text[start];
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(text[start + 1]))) {
+      while (this.#position < text.length &&
+             (/[\w.]/.test(text[this.#position]) ||
+              (/[+-]/.test(text[this.#position]) && /[eE]/.test(text[this.#position - 1]) &&
+               !/^0x/i.test(text.substring(start, start + 2))))) {
+        ++this.#position;
+      }
+      this.#pushToken(TokenType.Number, start);
+    } else if (NAME_START_REGEX.test(char) || char === '#') {
+      ++this.#position;
+      while (this.#position < text.length && NAME_REGEX.test(text[this.#position])) {
+        ++this.#position;
+      }
+      this.#pushToken(TokenType.Name, start);
+    } else if (char === '"' || char === '\'') {
+      this.#skipString(char);
+      this.#pushToken(TokenType.String, start);
+    } else if (char === '`') {
+      this.#readTemplate();
+    } else if (char === '/' && this.#expressionAllowed()) {
+      this.#skipRegExp();
+      this.#pushToken(TokenType.RegExp, start);
+    } else if (char === '<' && this.#jsx && this.#expressionAllowed() && this.#jsxElementStarts()) {
+      this.#readJSXElement();
+    } else {
+      const punctuator = PUNCTUATORS.find(punctuator => text.startsWith(punctuator, start)) || char;
+      this.#position += punctuator.length;
+      this.#pushToken(TokenType.Punctuator, start);
+    }
+  }
+
+  #skipString(quote: string): void {
+    const text = this.#text;
+    ++this.#position;
+    while (this.#position < text.length && text[this.#position] !== quote && !isNewline(text[this.#position])) {
+      this.#position += text[this.#position] === '\\' ? 2 : 1;
+    }
+    this.#position = Math.min(this.#position + 1, text.length);
+  }
+
+  #readTemplate(): void {
+    const text = this.#text;
+    let start = this.#position++;
+    while (this.#position < text.length && text[this.#position] !== '`') {
+      if (text[this.#position] === '\\') {
+        this.#position += 2;
+      } else if (text.startsWith('${', this.#position)) {
+        this.#position += 2;
+        this.#pushToken(TokenType.Template, start);
+        this.#readTokens(/* untilClosingBrace */ true);
+        start = Math.min(this.#position++, text.length);
+      } else {
+        ++this.#position;
+      }
+    }
+    this.#position = Math.min(this.#position + 1, text.length);
+    this.#pushToken(TokenType.Template, start);
+  }
+
+  #skipRegExp(): void {
+    const text = this.#text;
+    let inClass = false;
+    ++this.#position;
+    while (this.#position < text.length && !isNewline(text[this.#position])) {
+      const char = text[this.#position++];
+      if (char === '\\') {
+        ++this.#position;
+      } else if (char === '[') {
+        inClass = true;
+      } else if (char === ']') {
+        inClass = false;
+      } else if (char === '/' && !inClass) {
+        break;
+      }
+    }
+    while (this.#position < text.length && /\w/.test(text[this.#position])) {
+      ++this.#position;
+    }
+  }
+
+  // Whether the next token starts an expression, which decides between division and
+  // regular expressions, and between comparisons and JSX.
+  #expressionAllowed(): boolean {
+    const token = this.tokens[this.tokens.length - 1];
+    if (!token) {
+      return true;
+    }
+    switch (token.type) {
+      case TokenType.Name:
+        return KEYWORDS_BEFORE_EXPRESSION.has(token.value);
+      case TokenType.Punctuator:
+        return ![')', ']', '}', '++', '--'].includes(token.value);
+      case TokenType.JSX:
+        return token.value.endsWith('{');
+      case TokenType.Template:
+        return token.value.endsWith('${');
+      default:
+        return false;
+    }
+  }
+
+  #jsxElementStarts(): boolean {
+    const rest = this.#text.substring(this.#position, this.#position + 100);
+    // `<T,>() => {}` and `<T extends U>() => {}` are generic arrow functions in TSX.
+    return /^<(>|[\w$])/.test(rest) && !/^<[\w$]+\s*(,|extends\s)/.test(rest);
+  }
+
+  // Skips the type arguments of a generic component, like in `<Foo<string> a={1} />`, which
+  // are erased with the rest of the tag.
+  #skipJSXTypeArguments(): void {
+    const text = this.#text;
+    let position = this.#position;
+    while (/\s/.test(text[position])) {
+      ++position;
+    }
+    if (text[position] !== '<') {
+      return;
+    }
+    let depth = 0;
+    while (position < text.length) {
+      if (text.startsWith('=>', position)) {
+        position += 2;
+        continue;
+      }
+      const char = text[position++];
+      if (char === '<') {
+        ++depth;
+      } else if (char === '>' && --depth === 0) {
+        this.#position = position;
+        return;
+      }
+    }
+  }
+
+  #readJSXElement(): void {
+    const text = this.#text;
+    const element: JSXElement = {start: this.#position, end: text.length, containers: [], componentNames: []};
+    this.jsxElements.push(element);
+    let chunkStart = this.#position;
+    const readContainer = (): void => {
+      const start = this.#position++;
+      this.#pushToken(TokenType.JSX, chunkStart);
+      this.#readTokens(/* untilClosingBrace */ true);
+      chunkStart = this.#position++;
+      element.containers.push({start, end: this.#position});
+    };
+
+    let depth = 0;
+    while (this.#position < text.length) {
+      // Read a tag.
+      ++this.#position;
+      const isClosingTag = text[this.#position] === '/';
+      if (isClosingTag) {
+        ++this.#position;
+      }
+      while (/\s/.test(text[this.#position])) {
+        ++this.#position;
+      }
+      const nameStart = this.#position;
+      while (this.#position < text.length && JSX_NAME_REGEX.test(text[this.#position])) {
+        ++this.#position;
+      }
+      const name = text.substring(nameStart, this.#position);
+      if (/^([A-Z_$][\w$]*|[\w$]+(\.[\w$]+)+)$/.test(name)) {
+        element.componentNames.push({start: nameStart, end: this.#position});
+      }
+      if (!isClosingTag) {
+        this.#skipJSXTypeArguments();
+      }
+      let isSelfClosing = false;
+      while (this.#position < text.length) {
+        const char = text[this.#position];
+        if (char === '>') {
+          ++this.#position;
+          break;
+        }
+        if (char === '/' && text[this.#position + 1] === '>') {
+          this.#position += 2;
+          isSelfClosing = true;
+          break;
+        }
+        if (char === '{') {
+          readContainer();
+        } else if (char === '"' || char === '\'') {
+          const end = text.indexOf(char, this.#position + 1);
+          this.#position = end === -1 ? text.length : end + 1;
+        } else {
+          ++this.#position;
+        }
+      }
+      if (isClosingTag) {
+        --depth;
+      } else if (!isSelfClosing) {
+        ++depth;
+      }
+      if (depth <= 0) {
+        break;
+      }
+      // Read the children up to the next tag.
+      while (this.#position < text.length && text[this.#position] !== '<') {
+        if (text[this.#position] === '{') {
+          readContainer();
+        } else {
+          ++this.#position;
+        }
+      }
+    }
+    element.end = Math.min(this.#position, text.length);
+    this.#pushToken(TokenType.JSX, chunkStart);
+  }
+}
+
+// Splits `>=`, `>>=` and `>>>=` into their characters, so that the closing angle brackets of
+// type arguments can be erased without the `=` after them, like in `let a: Array<number>= [];`.
+function splitAssignmentAfterAngleBrackets(token: Token): Token[] {
+  if (token.type !== TokenType.Punctuator || !/^>+=$/.test(token.value)) {
+    return [token];
+  }
+  return [...token.value].map((value, index) => ({
+                                type: TokenType.Punctuator,
+                                value,
+                                start: token.start + index,
+                                end: token.start + index + 1,
+                                newlineBefore: index === 0 && token.newlineBefore,
+                              }));
+}
+
+class Eraser {
+  readonly #text: string;
+  readonly #tokens: Token[];
+  // For every opening bracket token and template head, the index of the matching closing
+  // bracket token or template tail.
+  readonly #matchingBrackets = new Map<number, number>();
+  readonly #erasedRanges: ErasedRange[] = [];
+  readonly #replacements = new Map<number, string>();
+
+  constructor(text: string, tokens: Token[]) {
+    this.#text = text;
+    this.#tokens = tokens.flatMap(splitAssignmentAfterAngleBrackets);
+    const openBrackets: number[] = [];
+    for (let i = 0; i < tokens.length; ++i) {
+      if (this.#isPunctuator(i, '(', '[', '{') || isTemplateHead(tokens[i])) {
+        openBrackets.push(i);
+      } else if (this.#isPunctuator(i, ')', ']', '}') || isTemplateTail(tokens[i])) {
+        const open = openBrackets.pop();
+        if (open !== undefined) {
+          this.#matchingBrackets.set(open, i);
+        }
+      }
+    }
+  }
+
+  result(): ErasedScript {
+    const ranges = [...this.#erasedRanges].sort((a, b) => a.start - b.start);
+    const erasedRanges: ErasedRange[] = [];
+    for (const range of ranges) {
+      const last = erasedRanges[erasedRanges.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        erasedRanges.push({...range});
+      }
+    }
+    const chunks = [];
+    let offset = 0;
+    for (const {start, end} of erasedRanges) {
+      chunks.push(this.#text.substring(offset, start));
+      for (let i = start; i < end; ++i) {
+        const char = this.#text[i];
+        chunks.push(this.#replacements.get(i) ?? (isNewline(char) ? char : ' '));
+      }
+      offset = end;
+    }
+    chunks.push(this.#text.substring(offset));
+    return {content: chunks.join(''), erasedRanges};
+  }
+
+  #erase(start: number, end: number): void {
+    if (start < end) {
+      this.#erasedRanges.push({start, end});
+    }
+  }
+
+  // Erases the tokens from `start` up to, but not including, `end`.
+  #eraseTokens(start: number, end: number): void {
+    if (start < end) {
+      this.#erase(this.#tokens[start].start, this.#tokens[end - 1].end);
+    }
+  }
+
+  eraseJSXElement(element: JSXElement): void {
+    const kept = [
+      ...element.containers.map(({start, end}) => ({start: start + 1, end: end - 1})),
+      ...element.componentNames,
+    ].sort((a, b) => a.start - b.start);
+    let offset = element.start;
+    for (const range of kept) {
+      this.#erase(offset, range.start);
+      offset = range.end;
+    }
+    this.#erase(offset, element.end);
+
+    this.#replacements.set(element.start, '[');
+    if (element.componentNames[0]?.start !== element.start + 1) {
+      this.#replacements.set(element.start + 1, '0');
+    }
+    for (const container of element.containers) {
+      this.#replacements.set(container.start, ',');
+    }
+    for (const name of element.componentNames) {
+      if (name.start !== element.start + 1) {
+        this.#replacements.set(name.start - 1, ',');
+      }
+    }
+    this.#replacements.set(element.end - 1, ']');
+  }
+
+  eraseTypeScript(): void {
+    this.#scan(0, this.#tokens.length, /* isObjectLiteral */ false);
+  }
+
+  #isPunctuator(index: number, ...values: string[]): boolean {
+    const token = this.#tokens[index];
+    return token !== undefined && token.type === TokenType.Punctuator && values.includes(token.value);
+  }
+
+  #isName(index: number, ...values: string[]): boolean {
+    const token = this.#tokens[index];
+    return token !== undefined && token.type === TokenType.Name && (!values.length || values.includes(token.value));
+  }
+
+  #isOnSameLine(index: number): boolean {
+    const token = this.#tokens[index];
+    return token !== undefined && !token.newlineBefore;
+  }
+
+  #endsExpression(index: number): boolean {
+    const token = this.#tokens[index];
+    if (!token) {
+      return false;
+    }
+    switch (token.type) {
+      case TokenType.Name:
+        return !KEYWORDS_BEFORE_EXPRESSION.has(token.value);
+      case TokenType.Punctuator:
+        return [')', ']', '}'].includes(token.value);
+      case TokenType.JSX:
+        return !token.value.endsWith('{');
+      case TokenType.Template:
+        return !token.value.endsWith('${');
+      default:
+        return true;
+    }
+  }
+
+  #closingBracket(index: number): number {
+    return this.#matchingBrackets.get(index) ?? this.#tokens.length;
+  }
+
+  // Returns the index of the token after the token, or after the brackets or template it opens.
+  #skipBrackets(index: number): number {
+    return this.#matchingBrackets.has(index) ? this.#closingBracket(index) + 1 : index + 1;
+  }
+
+  #scan(start: number, end: number, isObjectLiteral: boolean): void {
+    let i = start;
+    while (i < end) {
+      const isPropertyStart = isObjectLiteral &&
+          (i === start || this.#isPunctuator(i - 1, ',', '*') || this.#isName(i - 1, 'get', 'set', 'async'));
+      if (isPropertyStart && this.#tokens[i].type !== TokenType.Punctuator && this.#isMethod(i)) {
+        i = this.#function(i + 1);
+      } else {
+        i = this.#scanToken(i, end);
+      }
+    }
+  }
+
+  #isMethod(name: number): boolean {
+    let i = name + 1;
+    if (this.#isPunctuator(i, '<')) {
+      i = this.#skipAngleBrackets(i, /* allowDefaults */ true) ?? i;
+    }
+    if (!this.#isPunctuator(i, '(')) {
+      return false;
+    }
+    i = this.#closingBracket(i) + 1;
+    if (this.#isPunctuator(i, ':')) {
+      i = this.#skipType(i + 1);
+    }
+    return this.#isPunctuator(i, '{');
+  }
+
+  #scanUntil(start: number, end: number, ...values: string[]): number {
+    let i = start;
+    while (i < end && !this.#isPunctuator(i, ...values)) {
+      i = this.#scanToken(i, end);
+    }
+    return i;
+  }
+
+  // Handles the construct starting at the token and returns the index of the token after it.
+  #scanToken(i: number, end: number): number {
+    const token = this.#tokens[i];
+    if (token.type === TokenType.Punctuator) {
+      switch (token.value) {
+        case '{': {
+          const close = this.#closingBracket(i);
+          this.#scan(i + 1, close, !this.#isBlock(i));
+          return close + 1;
+        }
+        case '[': {
+          const close = this.#closingBracket(i);
+          this.#scan(i + 1, close, /* isObjectLiteral */ false);
+          return close + 1;
+        }
+        case '(':
+          return this.#parenthesized(i);
+        case '<':
+          return this.#angleBrackets(i);
+        case '!':
+          // Non-null assertion.
+          if (this.#endsExpression(i - 1) && this.#isOnSameLine(i)) {
+            this.#eraseTokens(i, i + 1);
+          }
+          return i + 1;
+        case '@':
+          return this.#decorator(i);
+      }
+      return i + 1;
+    }
+    if (isTemplateHead(token)) {
+      const tail = this.#closingBracket(i);
+      this.#scan(i + 1, tail, /* isObjectLiteral */ false);
+      return tail + 1;
+    }
+    if (token.type !== TokenType.Name || this.#isPunctuator(i - 1, '.', '?.')) {
+      return i + 1;
+    }
+    const declarationEnd = this.#typeScriptDeclaration(i);
+    if (declarationEnd !== null) {
+      return declarationEnd;
+    }
+    switch (token.value) {
+      case 'function':
+        return this.#function(i + 1);
+      case 'class':
+        return this.#classDeclaration(i);
+      case 'let':
+      case 'const':
+      case 'var':
+        return this.#variableDeclaration(i, end);
+      case 'catch':
+        if (this.#isPunctuator(i + 1, '(')) {
+          const close = this.#closingBracket(i + 1);
+          this.#parameters(i + 2, close);
+          return close + 1;
+        }
+        return i + 1;
+      case 'import':
+      case 'export':
+        return this.#importOrExport(i);
+      case 'as':
+      case 'satisfies':
+        if (this.#endsExpression(i - 1)) {
+          const typeEnd = this.#skipType(i + 1);
+          this.#eraseTokens(i, typeEnd);
+          return typeEnd;
+        }
+        return i + 1;
+    }
+    return i + 1;
+  }
+
+  #isBlock(openBrace: number): boolean {
+    const previous = this.#tokens[openBrace - 1];
+    if (!previous) {
+      return true;
+    }
+    if (previous.type === TokenType.Name) {
+      return ['else', 'do', 'try', 'finally'].includes(previous.value) ||
+          !KEYWORDS_BEFORE_EXPRESSION.has(previous.value);
+    }
+    return previous.type === TokenType.Punctuator && [';', '{', '}', ')', '=>'].includes(previous.value);
+  }
+
+  // Parentheses are either an expression or the parameters of an arrow function.
+  #parenthesized(open: number): number {
+    const close = this.#closingBracket(open);
+    if (this.#isPunctuator(close + 1, '=>')) {
+      this.#parameters(open + 1, close);
+      return close + 1;
+    }
+    if (this.#isPunctuator(close + 1, ':')) {
+      const typeEnd = this.#skipType(close + 2, /* stopAtArrow */ true);
+      if (this.#isPunctuator(typeEnd, '=>')) {
+        this.#parameters(open + 1, close);
+        this.#eraseTokens(close + 1, typeEnd);
+        return typeEnd;
+      }
+    }
+    this.#scan(open + 1, close, /* isObjectLiteral */ false);
+    return close + 1;
+  }
+
+  // Type arguments like in `new Map<string, number>()`, type parameters of generic arrow
+  // functions and type assertions like `<Foo>bar`.
+  #angleBrackets(open: number): number {
+    const previousEndsExpression = this.#endsExpression(open - 1) && this.#isOnSameLine(open);
+    const close = this.#skipAngleBrackets(open, /* allowDefaults */ !previousEndsExpression);
+    if (close === null) {
+      return open + 1;
+    }
+    if (previousEndsExpression && !this.#canFollowTypeArguments(close)) {
+      // A comparison.
+      return open + 1;
+    }
+    this.#eraseTokens(open, close);
+    return close;
+  }
+
+  // Whether the token can follow the type arguments of a call, a tagged template or an
+  // instantiation expression like `f<string>;`, rather than the operand of a comparison. This is
+  // how TypeScript tells them apart.
+  #canFollowTypeArguments(index: number): boolean {
+    const token = this.#tokens[index];
+    if (!token || token.newlineBefore || token.type === TokenType.Template) {
+      return true;
+    }
+    if (token.type === TokenType.Name) {
+      return ['as', 'satisfies', 'in', 'instanceof'].includes(token.value);
+    }
+    if (token.type !== TokenType.Punctuator) {
+      return false;
+    }
+    return token.value === '(' ||
+        !['[', '{', '<', '>', '+', '-', '!', '~', '++', '--', '...', '@', '#'].includes(token.value);
+  }
+
+  // Returns the index after the closing angle bracket, or null if the tokens can't be types.
+  #skipAngleBrackets(open: number, allowDefaults: boolean): number|null {
+    let depth = 0;
+    let i = open;
+    while (i < this.#tokens.length) {
+      const token = this.#tokens[i];
+      if (token.type === TokenType.Punctuator) {
+        if (token.value === '<') {
+          ++depth;
+        } else if (/^>+$/.test(token.value)) {
+          depth -= token.value.length;
+          if (depth <= 0) {
+            return i + 1;
+          }
+        } else if (['(', '[', '{'].includes(token.value)) {
+          i = this.#closingBracket(i);
+        } else if (
+            !['=>', ',', '.', '|', '&', '?', ':', '-', '...'].includes(token.value) &&
+            !(allowDefaults && token.value === '=')) {
+          return null;
+        }
+      } else if (token.type === TokenType.JSX || token.type === TokenType.RegExp) {
+        return null;
+      } else if (isTemplateHead(token)) {
+        i = this.#closingBracket(i);
+      }
+      ++i;
+    }
+    return null;
+  }
+
+  // Returns the index of the token after the type starting at the given token.
+  #skipType(start: number, stopAtArrow = false): number {
+    let expectOperand = true;
+    let pendingConditionals = 0;
+    let i = start;
+    while (i < this.#tokens.length) {
+      const token = this.#tokens[i];
+      const isPunctuator = token.type === TokenType.Punctuator;
+      if (expectOperand) {
+        if ((isPunctuator && ['(', '[', '{'].includes(token.value)) || isTemplateHead(token)) {
+          i = this.#closingBracket(i) + 1;
+          expectOperand = false;
+        } else if (token.type === TokenType.Name && token.value === 'import' && this.#isPunctuator(i + 1, '(')) {
+          // Import types like `typeof import('./foo.js')`.
+          i = this.#closingBracket(i + 1) + 1;
+          expectOperand = false;
+        } else if (isPunctuator && ['|', '&', '-'].includes(token.value)) {
+          ++i;
+        } else if (isPunctuator && token.value === '<') {
+          i = this.#skipAngleBrackets(i, /* allowDefaults */ true) ?? i + 1;
+        } else if (
+            token.type === TokenType.Name &&
+            ['keyof', 'typeof', 'readonly', 'unique', 'infer', 'asserts', 'new', 'abstract'].includes(token.value) &&
+            !this.#isPunctuator(i + 1, ',', ')', ']', '}', ';', '=', ':', '>', '|', '&', '.')) {
+          ++i;
+        } else if (!isPunctuator && token.type !== TokenType.JSX && token.type !== TokenType.RegExp) {
+          ++i;
+          expectOperand = false;
+        } else {
+          break;
+        }
+        continue;
+      }
+      if (isPunctuator && ['|', '&', '.'].includes(token.value)) {
+        expectOperand = true;
+      } else if (isPunctuator && token.value === '[' && !token.newlineBefore) {
+        i = this.#closingBracket(i);
+      } else if (isPunctuator && token.value === '<' && !token.newlineBefore) {
+        const close = this.#skipAngleBrackets(i, /* allowDefaults */ false);
+        if (close === null) {
+          break;
+        }
+        i = close - 1;
+      } else if (isPunctuator && token.value === '=>' && !stopAtArrow) {
+        expectOperand = true;
+      } else if (token.type === TokenType.Name && token.value === 'extends' && !token.newlineBefore) {
+        ++pendingConditionals;
+        expectOperand = true;
+      } else if (token.type === TokenType.Name && token.value === 'is' && !token.newlineBefore) {
+        expectOperand = true;
+      } else if (isPunctuator && token.value === '?' && pendingConditionals) {
+        expectOperand = true;
+      } else if (isPunctuator && token.value === ':' && pendingConditionals) {
+        --pendingConditionals;
+        expectOperand = true;
+      } else {
+        break;
+      }
+      ++i;
+    }
+    return i;
+  }
+
+  // Returns the start of a declaration, including the modifiers in front of it.
+  #declarationStart(i: number): number {
+    while (this.#isName(i - 1, 'export', 'default', 'declare', 'async')) {
+      --i;
+    }
+    return i;
+  }
+
+  // Erases declarations that only exist in TypeScript. Returns the index of the token after
+  // the declaration, or null if the token doesn't start such a declaration.
+  #typeScriptDeclaration(i: number): number|null {
+    const {value} = this.#tokens[i];
+    const hasName = this.#isName(i + 1) && this.#isOnSameLine(i + 1);
+    switch (value) {
+      case 'interface': {
+        if (!hasName) {
+          return null;
+        }
+        let open = i + 2;
+        while (open < this.#tokens.length && !this.#isPunctuator(open, '{')) {
+          open = this.#isPunctuator(open, '(', '[') ? this.#closingBracket(open) + 1 : open + 1;
+        }
+        const close = this.#closingBracket(open);
+        this.#eraseTokens(this.#declarationStart(i), close + 1);
+        return close + 1;
+      }
+      case 'type': {
+        if (!hasName || !this.#isPunctuator(i + 2, '=', '<')) {
+          return null;
+        }
+        let typeStart = i + 2;
+        if (this.#isPunctuator(typeStart, '<')) {
+          typeStart = this.#skipAngleBrackets(typeStart, /* allowDefaults */ true) ?? typeStart;
+        }
+        let typeEnd = this.#skipType(typeStart + 1);
+        if (this.#isPunctuator(typeEnd, ';')) {
+          ++typeEnd;
+        }
+        this.#eraseTokens(this.#declarationStart(i), typeEnd);
+        return typeEnd;
+      }
+      case 'enum':
+        return hasName && this.#isPunctuator(i + 2, '{') ? this.#enumDeclaration(i) : null;
+      case 'const':
+        if (this.#isName(i + 1, 'enum') && this.#isName(i + 2) && this.#isPunctuator(i + 3, '{')) {
+          this.#eraseTokens(i, i + 1);
+          return this.#enumDeclaration(i + 1);
+        }
+        return null;
+      case 'abstract':
+        if (this.#isName(i + 1, 'class') && this.#isOnSameLine(i + 1)) {
+          this.#eraseTokens(i, i + 1);
+          return i + 1;
+        }
+        return null;
+      case 'namespace':
+      case 'module': {
+        if (!hasName && !(value === 'module' && this.#tokens[i + 1]?.type === TokenType.String)) {
+          return null;
+        }
+        let open = i + 2;
+        while (this.#isPunctuator(open, '.') && this.#isName(open + 1)) {
+          open += 2;
+        }
+        if (!this.#isPunctuator(open, '{')) {
+          return null;
+        }
+        // The body of a namespace is left as a block, where nothing can be exported.
+        this.#eraseTokens(this.#declarationStart(i), open);
+        const close = this.#closingBracket(open);
+        for (let j = open + 1; j < close; j = this.#skipBrackets(j)) {
+          if (this.#isName(j, 'export') && !this.#isPunctuator(j - 1, '.', '?.')) {
+            this.#eraseTokens(j, j + 1);
+          }
+        }
+        this.#scan(open + 1, close, /* isObjectLiteral */ false);
+        return close + 1;
+      }
+      case 'declare':
+        return hasName ? this.#ambientDeclaration(i) : null;
+    }
+    return null;
+  }
+
+  // Enums are kept as variables, as they exist at runtime: `enum E {A, B}` turns into `var E;`.
+  #enumDeclaration(i: number): number {
+    const {start} = this.#tokens[i];
+    this.#eraseTokens(i, i + 1);
+    for (let offset = 0; offset < 4; ++offset) {
+      this.#replacements.set(start + offset, 'var '[offset]);
+    }
+    const close = this.#closingBracket(i + 2);
+    this.#eraseTokens(i + 2, close + 1);
+    const closeToken = this.#tokens[close];
+    if (closeToken) {
+      this.#replacements.set(closeToken.start, ';');
+    }
+    return close + 1;
+  }
+
+  #ambientDeclaration(i: number): number {
+    const start = this.#declarationStart(i);
+    let end = i + 1;
+    if (this.#isName(end, 'const', 'let', 'var')) {
+      do {
+        end = this.#skipType(end + 1);
+      } while (this.#isPunctuator(end, ':', ','));
+    } else if (this.#isName(end, 'function')) {
+      end = this.#isName(end + 1) ? end + 2 : end + 1;
+      if (this.#isPunctuator(end, '<')) {
+        end = this.#skipAngleBrackets(end, /* allowDefaults */ true) ?? end;
+      }
+      end = this.#closingBracket(end) + 1;
+      if (this.#isPunctuator(end, ':')) {
+        end = this.#skipType(end + 1);
+      }
+    } else if (this.#isName(end, 'type')) {
+      end = this.#typeScriptDeclaration(end) ?? end + 1;
+    } else {
+      while (end < this.#tokens.length && !this.#isPunctuator(end, '{', ';')) {
+        ++end;
+      }
+      if (this.#isPunctuator(end, '{')) {
+        end = this.#closingBracket(end) + 1;
+      }
+    }
+    if (this.#isPunctuator(end, ';')) {
+      ++end;
+    }
+    this.#eraseTokens(start, end);
+    return end;
+  }
+
+  #decorator(at: number): number {
+    let end = at + 1;
+    while (this.#isName(end) && this.#isPunctuator(end + 1, '.')) {
+      end += 2;
+    }
+    end += 1;
+    if (this.#isPunctuator(end, '(')) {
+      end = this.#closingBracket(end) + 1;
+    }
+    this.#eraseTokens(at, end);
+    return end;
+  }
+
+  // Handles a function, starting after the `function` keyword, or a method, starting at the
+  // parameters or type parameters. Returns the index of the token after it.
+  #function(i: number): number {
+    const start = this.#declarationStart(this.#isName(i - 1, 'function') ? i - 1 : i);
+    if (this.#isPunctuator(i, '*')) {
+      ++i;
+    }
+    if (this.#isName(i)) {
+      ++i;
+    }
+    if (this.#isPunctuator(i, '<')) {
+      const close = this.#skipAngleBrackets(i, /* allowDefaults */ true) ?? i + 1;
+      this.#eraseTokens(i, close);
+      i = close;
+    }
+    if (!this.#isPunctuator(i, '(')) {
+      return i;
+    }
+    const close = this.#closingBracket(i);
+    this.#parameters(i + 1, close);
+    i = close + 1;
+    if (this.#isPunctuator(i, ':')) {
+      const typeEnd = this.#skipType(i + 1);
+      this.#eraseTokens(i, typeEnd);
+      i = typeEnd;
+    }
+    if (this.#isPunctuator(i, '{')) {
+      const bodyClose = this.#closingBracket(i);
+      this.#scan(i + 1, bodyClose, /* isObjectLiteral */ false);
+      return bodyClose + 1;
+    }
+    // An overload signature without a body.
+    if (this.#isPunctuator(i, ';')) {
+      ++i;
+    }
+    this.#eraseTokens(start, i);
+    return i;
+  }
+
+  #parameters(start: number, end: number): void {
+    let i = start;
+    while (i < end) {
+      const parameterStart = i;
+      while (this.#isPunctuator(i, '@')) {
+        i = this.#decorator(i);
+      }
+      while (this.#isName(i, 'public', 'private', 'protected', 'readonly', 'override') &&
+             !this.#isPunctuator(i + 1, ',', ')', ':', '=', '?')) {
+        this.#eraseTokens(i, i + 1);
+        ++i;
+      }
+      if (this.#isName(i, 'this') && this.#isPunctuator(i + 1, ':')) {
+        let typeEnd = this.#skipType(i + 2);
+        if (this.#isPunctuator(typeEnd, ',')) {
+          ++typeEnd;
+        }
+        this.#eraseTokens(i, typeEnd);
+        i = typeEnd;
+        continue;
+      }
+      if (this.#isPunctuator(i, '...')) {
+        ++i;
+      }
+      if (this.#isPunctuator(i, '{', '[')) {
+        const close = this.#closingBracket(i);
+        this.#scan(i + 1, close, /* isObjectLiteral */ false);
+        i = close + 1;
+      } else {
+        ++i;
+      }
+      if (this.#isPunctuator(i, '?')) {
+        this.#eraseTokens(i, i + 1);
+        ++i;
+      }
+      if (this.#isPunctuator(i, ':')) {
+        const typeEnd = this.#skipType(i + 1);
+        this.#eraseTokens(i, typeEnd);
+        i = typeEnd;
+      }
+      if (this.#isPunctuator(i, '=')) {
+        i = this.#scanUntil(i + 1, end, ',');
+      }
+      if (this.#isPunctuator(i, ',')) {
+        ++i;
+      } else if (i < end) {
+        this.#scan(Math.max(i, parameterStart + 1), end, /* isObjectLiteral */ false);
+        return;
+      }
+    }
+  }
+
+  #variableDeclaration(i: number, end: number): number {
+    let next = i + 1;
+    while (next < end) {
+      if (this.#isPunctuator(next, '{', '[')) {
+        const close = this.#closingBracket(next);
+        this.#scan(next + 1, close, /* isObjectLiteral */ false);
+        next = close + 1;
+      } else if (this.#isName(next) && !this.#isName(next, 'in', 'of', 'instanceof')) {
+        ++next;
+      } else {
+        return next;
+      }
+      // Definite assignment assertion.
+      if (this.#isPunctuator(next, '!')) {
+        this.#eraseTokens(next, next + 1);
+        ++next;
+      }
+      if (this.#isPunctuator(next, ':')) {
+        const typeEnd = this.#skipType(next + 1);
+        this.#eraseTokens(next, typeEnd);
+        next = typeEnd;
+      }
+      if (this.#isPunctuator(next, '=')) {
+        next = this.#scanUntil(next + 1, end, ',', ';');
+      }
+      if (!this.#isPunctuator(next, ',')) {
+        return next;
+      }
+      ++next;
+    }
+    return next;
+  }
+
+  #classDeclaration(i: number): number {
+    let next = i + 1;
+    if (this.#isName(next) && !this.#isName(next, 'extends', 'implements')) {
+      ++next;
+    }
+    if (this.#isPunctuator(next, '<')) {
+      const close = this.#skipAngleBrackets(next, /* allowDefaults */ true) ?? next + 1;
+      this.#eraseTokens(next, close);
+      next = close;
+    }
+    if (this.#isName(next, 'extends')) {
+      ++next;
+      while (next < this.#tokens.length && !this.#isPunctuator(next, '{') && !this.#isName(next, 'implements')) {
+        if (this.#isPunctuator(next, '<')) {
+          const close = this.#skipAngleBrackets(next, /* allowDefaults */ false);
+          if (close !== null && (this.#isPunctuator(close, '{') || this.#isName(close, 'implements'))) {
+            this.#eraseTokens(next, close);
+            next = close;
+            continue;
+          }
+        }
+        next = this.#scanToken(next, this.#tokens.length);
+      }
+    }
+    if (this.#isName(next, 'implements')) {
+      let typeEnd = this.#skipType(next + 1);
+      while (this.#isPunctuator(typeEnd, ',')) {
+        typeEnd = this.#skipType(typeEnd + 1);
+      }
+      this.#eraseTokens(next, typeEnd);
+      next = typeEnd;
+    }
+    if (!this.#isPunctuator(next, '{')) {
+      return next;
+    }
+    const close = this.#closingBracket(next);
+    this.#classBody(next + 1, close);
+    return close + 1;
+  }
+
+  #classBody(start: number, end: number): void {
+    let i = start;
+    while (i < end) {
+      const memberStart = i;
+      if (this.#isPunctuator(i, ';')) {
+        ++i;
+        continue;
+      }
+      if (this.#isPunctuator(i, '@')) {
+        i = this.#decorator(i);
+        continue;
+      }
+      const isModifier = (index: number): boolean =>
+          !this.#isPunctuator(index + 1, '(', '=', ';', ':', '?', '!', '<') && this.#isOnSameLine(index + 1) &&
+          index + 1 < end;
+      while (this.#isName(
+                 i, 'public', 'private', 'protected', 'readonly', 'abstract', 'override', 'declare', 'static',
+                 'accessor') &&
+             isModifier(i)) {
+        if (!this.#isName(i, 'static')) {
+          this.#eraseTokens(i, i + 1);
+        }
+        ++i;
+      }
+      // Static initialization block.
+      if (this.#isName(i - 1, 'static') && this.#isPunctuator(i, '{')) {
+        const close = this.#closingBracket(i);
+        this.#scan(i + 1, close, /* isObjectLiteral */ false);
+        i = close + 1;
+        continue;
+      }
+      // Index signature.
+      if (this.#isPunctuator(i, '[') && this.#isName(i + 1) && this.#isPunctuator(i + 2, ':')) {
+        let signatureEnd = this.#closingBracket(i) + 1;
+        if (this.#isPunctuator(signatureEnd, ':')) {
+          signatureEnd = this.#skipType(signatureEnd + 1);
+        }
+        if (this.#isPunctuator(signatureEnd, ';')) {
+          ++signatureEnd;
+        }
+        this.#eraseTokens(memberStart, signatureEnd);
+        i = signatureEnd;
+        continue;
+      }
+      while (this.#isName(i, 'get', 'set', 'async') && isModifier(i) || this.#isPunctuator(i, '*')) {
+        ++i;
+      }
+      if (this.#isPunctuator(i, '[')) {
+        const close = this.#closingBracket(i);
+        this.#scan(i + 1, close, /* isObjectLiteral */ false);
+        i = close + 1;
+      } else {
+        ++i;
+      }
+      if (this.#isPunctuator(i, '?', '!')) {
+        this.#eraseTokens(i, i + 1);
+        ++i;
+      }
+      if (this.#isPunctuator(i, '(', '<')) {
+        const next = this.#function(i);
+        // Overloads and abstract methods have no body.
+        if (!this.#isPunctuator(next - 1, '}')) {
+          this.#eraseTokens(memberStart, next);
+        }
+        i = next;
+        continue;
+      }
+      if (this.#isPunctuator(i, ':')) {
+        const typeEnd = this.#skipType(i + 1);
+        this.#eraseTokens(i, typeEnd);
+        i = typeEnd;
+      }
+      if (this.#isPunctuator(i, '=')) {
+        i = this.#fieldInitializer(i + 1, end);
+      }
+      if (i === memberStart) {
+        ++i;
+      }
+    }
+  }
+
+  #fieldInitializer(start: number, end: number): number {
+    let i = start;
+    while (i < end && !this.#isPunctuator(i, ';')) {
+      const token = this.#tokens[i];
+      // A new member on the next line ends the initializer.
+      if (i > start && token.newlineBefore && this.#endsExpression(i - 1) &&
+          (token.type !== TokenType.Punctuator || ['@', '*', '#'].includes(token.value))) {
+        return i;
+      }
+      i = this.#scanToken(i, end);
+    }
+    return i;
+  }
+
+  #importOrExport(i: number): number {
+    const isImport = this.#isName(i, 'import');
+    if (isImport && this.#isPunctuator(i + 1, '(', '.')) {
+      return i + 1;
+    }
+    // `import fs = require('fs');` and `import Bar = Foo.Bar;` declare constants.
+    if (isImport && this.#isName(i + 1) && this.#isPunctuator(i + 2, '=')) {
+      const {start} = this.#tokens[i];
+      this.#eraseTokens(i, i + 1);
+      for (let offset = 0; offset < 'import'.length; ++offset) {
+        this.#replacements.set(start + offset, 'const '[offset]);
+      }
+      return i + 3;
+    }
+    // `import type {Foo} from './foo.js';`, but not `import type from './type.js';`.
+    const isTypeOnly = this.#isName(i + 1, 'type') &&
+        (this.#isPunctuator(i + 2, '{', '*') ||
+         (isImport && this.#isName(i + 2) &&
+          !(this.#isName(i + 2, 'from') && this.#tokens[i + 3]?.type === TokenType.String)));
+    if (isTypeOnly || (!isImport && this.#isPunctuator(i + 1, '=')) || (!isImport && this.#isName(i + 1, 'as'))) {
+      let end = i + 1;
+      while (end < this.#tokens.length && !this.#isPunctuator(end, ';') &&
+             !(this.#tokens[end].type === TokenType.String && this.#isName(end - 1, 'from')) &&
+             (end === i + 1 || this.#isOnSameLine(end) || this.#isPunctuator(end - 1, ',', '{'))) {
+        end = this.#isPunctuator(end, '{', '(') ? this.#closingBracket(end) + 1 : end + 1;
+      }
+      if (this.#tokens[end]?.type === TokenType.String) {
+        ++end;
+      }
+      if (this.#isPunctuator(end, ';')) {
+        ++end;
+      }
+      this.#eraseTokens(i, end);
+      return end;
+    }
+    if (!isImport && !this.#isPunctuator(i + 1, '{')) {
+      return i + 1;
+    }
+    let next = i + 1;
+    while (next < this.#tokens.length && this.#tokens[next].type !== TokenType.String &&
+           !this.#isPunctuator(next, ';') &&
+           (next === i + 1 || this.#isOnSameLine(next) || !this.#endsExpression(next - 1))) {
+      if (this.#isPunctuator(next, '{')) {
+        const close = this.#closingBracket(next);
+        this.#specifiers(next + 1, close);
+        next = close + 1;
+      } else {
+        ++next;
+      }
+    }
+    return next;
+  }
+
+  // Erases type only specifiers like in `import {type Foo, Bar} from './foo.js';`.
+  #specifiers(start: number, end: number): void {
+    let i = start;
+    while (i < end) {
+      let specifierEnd = i;
+      while (specifierEnd < end && !this.#isPunctuator(specifierEnd, ',')) {
+        ++specifierEnd;
+      }
+      if (this.#isName(i, 'type') && this.#isName(i + 1) && (!this.#isName(i + 1, 'as') || this.#isName(i + 2, 'as'))) {
+        this.#eraseTokens(i, Math.min(specifierEnd + 1, end));
+      }
+      i = specifierEnd + 1;
+    }
+  }
+}
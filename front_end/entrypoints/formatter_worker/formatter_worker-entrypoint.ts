@@ -5,7 +5,6 @@
 import * as Platform from '../../core/platform/platform.js';
 
 import * as FormatterWorker from './formatter_worker.js';
-
 import {FormatterActions} from './FormatterActions.js';
 
 self.onmessage = function(event: MessageEvent): void {
@@ -29,7 +28,8 @@ self.onmessage = function(event: MessageEvent): void {
       break;
     }
     case FormatterActions.JAVASCRIPT_SCOPE_TREE: {
-      self.postMessage(FormatterWorker.ScopeParser.parseScopes(params.content)?.export());
+      const dialect = FormatterWorker.FormatterWorker.scriptDialectForMimeType(params.mimeType);
+      self.postMessage(FormatterWorker.ScopeParser.parseScopes(params.content, dialect)?.export());
       break;
     }
     case FormatterActions.EVALUATE_JAVASCRIPT_SUBSTRING:
@@ -16,6 +16,7 @@ import * as JavaScriptFormatter from './JavaScriptFormatter.js';
 import * as JSONFormatter from './JSONFormatter.js';
 import * as ScopeParser from './ScopeParser.js';
 import * as Substitute from './Substitute.js';
+import * as SyntaxEraser from './SyntaxEraser.js';
 
 export {
   CSSFormatter,
@@ -27,4 +28,5 @@ export {
   JSONFormatter,
   ScopeParser,
   Substitute,
+  SyntaxEraser,
 };
@@ -593,6 +593,10 @@ export abstract class HeapSnapshot {
       [x: string]: HeapSnapshotModel.HeapSnapshotModel.Diff,
     },
   };
+  #retainerPathDiffs: Map<string, {
+    diffs: HeapSnapshotModel.HeapSnapshotModel.RetainerPathDiff[],
+    nodeIndexes: number[][],
+  }>;
   #aggregatesForDiffInternal!: {
     [x: string]: HeapSnapshotModel.HeapSnapshotModel.AggregateForDiff,
   };
@@ -672,6 +676,7 @@ export abstract class HeapSnapshot {
     }
 
     this.#snapshotDiffs = {};
+    this.#retainerPathDiffs = new Map();
 
     this.#aggregates = {};
 
@@ -1918,6 +1923,94 @@ export abstract class HeapSnapshot {
     return diff;
   }
 
+  /**
+   * Groups the objects that were added since the base snapshot by their class and their shortest
+   * retainer path, and ranks the groups by retained size. Objects that are retained by other added
+   * objects only add to the retained size of their group through those objects, so that the size
+   * of nested leaks is not counted twice.
+   */
+  calculateRetainerPathDiff(
+      baseSnapshotId: string,
+      baseSnapshotAggregates: {[x: string]: HeapSnapshotModel.HeapSnapshotModel.AggregateForDiff}):
+      HeapSnapshotModel.HeapSnapshotModel.RetainerPathDiff[] {
+    const cachedRetainerPathDiff = this.#retainerPathDiffs.get(baseSnapshotId);
+    if (cachedRetainerPathDiff) {
+      return cachedRetainerPathDiff.diffs;
+    }
+    const snapshotDiff = this.calculateSnapshotDiff(baseSnapshotId, baseSnapshotAggregates);
+    const nodeFieldCount = this.nodeFieldCount;
+    const addedNodes = new Uint8Array(this.nodeCount);
+    for (const className in snapshotDiff) {
+      for (const nodeIndex of snapshotDiff[className].addedIndexes) {
+        addedNodes[nodeIndex / nodeFieldCount] = 1;
+      }
+    }
+
+    // Whether a node is an added node or is dominated by one: 0 when not known yet, 1 or 2 otherwise.
+    const dominatorsTree = this.dominatorsTree;
+    const rootNodeOrdinal = this.rootNodeIndexInternal / nodeFieldCount;
+    const retainedByAddedNode = new Uint8Array(this.nodeCount);
+    function isRetainedByAddedNode(nodeOrdinal: number): boolean {
+      const unknownOrdinals = [];
+      let ordinal = nodeOrdinal;
+      let result = false;
+      while (!retainedByAddedNode[ordinal]) {
+        if (addedNodes[ordinal]) {
+          result = true;
+          break;
+        }
+        if (ordinal === rootNodeOrdinal || dominatorsTree[ordinal] === ordinal) {
+          break;
+        }
+        unknownOrdinals.push(ordinal);
+        ordinal = dominatorsTree[ordinal];
+      }
+      if (retainedByAddedNode[ordinal]) {
+        result = retainedByAddedNode[ordinal] === 1;
+      }
+      for (const unknownOrdinal of unknownOrdinals) {
+        retainedByAddedNode[unknownOrdinal] = result ? 1 : 2;
+      }
+      return result;
+    }
+
+    const retainerPaths = new RetainerPaths(this);
+    const groups =
+        new Map<string, {diff: HeapSnapshotModel.HeapSnapshotModel.RetainerPathDiff, nodeIndexes: number[]}>();
+    const node = this.createNode();
+    for (const className in snapshotDiff) {
+      for (const nodeIndex of snapshotDiff[className].addedIndexes) {
+        node.nodeIndex = nodeIndex;
+        const pathId = retainerPaths.pathIdOfNode(node);
+        const key = pathId + ':' + className;
+        let group = groups.get(key);
+        if (!group) {
+          group = {
+            diff: new HeapSnapshotModel.HeapSnapshotModel.RetainerPathDiff(className, retainerPaths.path(pathId)),
+            nodeIndexes: [],
+          };
+          groups.set(key, group);
+        }
+        group.nodeIndexes.push(nodeIndex);
+        group.diff.count++;
+        group.diff.selfSize += node.selfSize();
+        if (!isRetainedByAddedNode(dominatorsTree[node.ordinal()])) {
+          group.diff.retainedSize += node.retainedSize();
+        }
+      }
+    }
+
+    const sortedGroups = [...groups.values()].sort(
+        (group1, group2) =>
+            group2.diff.retainedSize - group1.diff.retainedSize || group2.diff.count - group1.diff.count);
+    const retainerPathDiff = {
+      diffs: sortedGroups.map(group => group.diff),
+      nodeIndexes: sortedGroups.map(group => group.nodeIndexes),
+    };
+    this.#retainerPathDiffs.set(baseSnapshotId, retainerPathDiff);
+    return retainerPathDiff.diffs;
+  }
+
   private nodeForSnapshotObjectId(snapshotObjectId: number): HeapSnapshotNode|null {
     for (let it = this.allNodes(); it.hasNext(); it.next()) {
       if (it.node.id() === snapshotObjectId) {
@@ -1980,6 +2073,14 @@ export abstract class HeapSnapshot {
     return new HeapSnapshotNodesProvider(this, diffForClass.addedIndexes);
   }
 
+  createRetainerPathNodesProvider(baseSnapshotId: string, retainerPathIndex: number): HeapSnapshotNodesProvider {
+    const retainerPathDiff = this.#retainerPathDiffs.get(baseSnapshotId);
+    if (!retainerPathDiff) {
+      throw new Error('Retainer paths have not been compared with the base snapshot');
+    }
+    return new HeapSnapshotNodesProvider(this, retainerPathDiff.nodeIndexes[retainerPathIndex]);
+  }
+
   createDeletedNodesProvider(nodeIndexes: number[]): HeapSnapshotNodesProvider {
     return new HeapSnapshotNodesProvider(this, nodeIndexes);
   }
@@ -2013,6 +2114,95 @@ export abstract class HeapSnapshot {
   }
 }
 
+/**
+ * Finds the shortest retainer paths of nodes by following the retainers that are one step closer
+ * to the roots according to `distance()`. Paths are shared by the nodes that have them in common:
+ * a path is stored as its last step and the id of the path that leads to that step. The path with
+ * id 0 is the empty path of the nodes that have no retainers but the roots.
+ */
+class RetainerPaths {
+  readonly #snapshot: HeapSnapshot;
+  readonly #pathIdOfNodeOrdinal: Int32Array;
+  readonly #steps: string[] = [''];
+  readonly #previousPathIds: number[] = [-1];
+  readonly #pathIds = new Map<string, number>();
+
+  constructor(snapshot: HeapSnapshot) {
+    this.#snapshot = snapshot;
+    this.#pathIdOfNodeOrdinal = new Int32Array(snapshot.nodeCount).fill(-1);
+  }
+
+  pathIdOfNode(node: HeapSnapshotNode): number {
+    const unknownPaths = [];
+    let current = node;
+    let pathId = this.#pathIdOfNodeOrdinal[current.ordinal()];
+    while (pathId === -1) {
+      const retainer = this.#closestRetainer(current);
+      if (!retainer) {
+        pathId = 0;
+        this.#pathIdOfNodeOrdinal[current.ordinal()] = pathId;
+        break;
+      }
+      unknownPaths.push({ordinal: current.ordinal(), step: this.#step(retainer)});
+      current = this.#snapshot.createNode(retainer.nodeIndex());
+      pathId = this.#pathIdOfNodeOrdinal[current.ordinal()];
+    }
+    for (let i = unknownPaths.length - 1; i >= 0; --i) {
+      const {ordinal, step} = unknownPaths[i];
+      const key = pathId + ':' + step;
+      let nextPathId = this.#pathIds.get(key);
+      if (nextPathId === undefined) {
+        nextPathId = this.#steps.length;
+        this.#steps.push(step);
+        this.#previousPathIds.push(pathId);
+        this.#pathIds.set(key, nextPathId);
+      }
+      pathId = nextPathId;
+      this.#pathIdOfNodeOrdinal[ordinal] = pathId;
+    }
+    return pathId;
+  }
+
+  path(pathId: number): string[] {
+    const path = [];
+    for (let id = pathId; id > 0; id = this.#previousPathIds[id]) {
+      path.push(this.#steps[id]);
+    }
+    return path.reverse();
+  }
+
+  #closestRetainer(node: HeapSnapshotNode): JSHeapSnapshotRetainerEdge|null {
+    const distance = node.distance();
+    for (let iter = node.retainers(); iter.hasNext(); iter.next()) {
+      const retainer = iter.retainer;
+      if (retainer.isWeak() || retainer.isInvisible()) {
+        continue;
+      }
+      const retainerNode = retainer.node();
+      if (!retainerNode.isRoot() && retainerNode.distance() === distance - 1) {
+        return retainer;
+      }
+    }
+    return null;
+  }
+
+  #step(retainer: JSHeapSnapshotRetainerEdge): string {
+    // The elements of an array share their path, as do the hidden references of an object.
+    let edgeName;
+    switch (retainer.type()) {
+      case 'element':
+        edgeName = '[]';
+        break;
+      case 'hidden':
+        edgeName = '{}';
+        break;
+      default:
+        edgeName = retainer.toString();
+    }
+    return retainer.node().className() + edgeName;
+  }
+}
+
 class HeapSnapshotMetainfo {
   location_fields: string[] = [];              // eslint-disable-line @typescript-eslint/naming-convention
   node_fields: string[] = [];                  // eslint-disable-line @typescript-eslint/naming-convention
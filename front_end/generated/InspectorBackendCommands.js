@@ -5,7 +5,7 @@
 
 /**
  * @typedef {{
- *  registerCommand: function(string&any, !Array.<!{name: string, type: string, optional: boolean}>, !Array.<string>):void,
+ *  registerCommand: function(string&any, !Array.<!{name: string, type: string, optional: boolean, typeRef?: string}>, !Array.<string>):void,
  *  registerEnum: function(string&any, !Object<string, string>):void,
  *  registerEvent: function(string&any, !Array<string>):void,
  * }}
@@ -28,12 +28,12 @@ inspectorBackend.registerEvent("Accessibility.loadComplete", ["root"]);
 inspectorBackend.registerEvent("Accessibility.nodesUpdated", ["nodes"]);
 inspectorBackend.registerCommand("Accessibility.disable", [], []);
 inspectorBackend.registerCommand("Accessibility.enable", [], []);
-inspectorBackend.registerCommand("Accessibility.getPartialAXTree", [{"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}, {"name": "fetchRelatives", "type": "boolean", "optional": true}], ["nodes"]);
-inspectorBackend.registerCommand("Accessibility.getFullAXTree", [{"name": "depth", "type": "number", "optional": true}, {"name": "frameId", "type": "string", "optional": true}], ["nodes"]);
-inspectorBackend.registerCommand("Accessibility.getRootAXNode", [{"name": "frameId", "type": "string", "optional": true}], ["node"]);
-inspectorBackend.registerCommand("Accessibility.getAXNodeAndAncestors", [{"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}], ["nodes"]);
-inspectorBackend.registerCommand("Accessibility.getChildAXNodes", [{"name": "id", "type": "string", "optional": false}, {"name": "frameId", "type": "string", "optional": true}], ["nodes"]);
-inspectorBackend.registerCommand("Accessibility.queryAXTree", [{"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}, {"name": "accessibleName", "type": "string", "optional": true}, {"name": "role", "type": "string", "optional": true}], ["nodes"]);
+inspectorBackend.registerCommand("Accessibility.getPartialAXTree", [{"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}, {"name": "fetchRelatives", "type": "boolean", "optional": true}], ["nodes"]);
+inspectorBackend.registerCommand("Accessibility.getFullAXTree", [{"name": "depth", "type": "number", "optional": true}, {"name": "frameId", "type": "string", "optional": true, "typeRef": "Page.FrameId"}], ["nodes"]);
+inspectorBackend.registerCommand("Accessibility.getRootAXNode", [{"name": "frameId", "type": "string", "optional": true, "typeRef": "Page.FrameId"}], ["node"]);
+inspectorBackend.registerCommand("Accessibility.getAXNodeAndAncestors", [{"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}], ["nodes"]);
+inspectorBackend.registerCommand("Accessibility.getChildAXNodes", [{"name": "id", "type": "string", "optional": false, "typeRef": "Accessibility.AXNodeId"}, {"name": "frameId", "type": "string", "optional": true, "typeRef": "Page.FrameId"}], ["nodes"]);
+inspectorBackend.registerCommand("Accessibility.queryAXTree", [{"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}, {"name": "accessibleName", "type": "string", "optional": true}, {"name": "role", "type": "string", "optional": true}], ["nodes"]);
 
 // Animation.
 inspectorBackend.registerEnum("Animation.AnimationType", {CSSTransition: "CSSTransition", CSSAnimation: "CSSAnimation", WebAnimation: "WebAnimation"});
@@ -71,7 +71,7 @@ inspectorBackend.registerEnum("Audits.FederatedAuthRequestIssueReason", {ShouldE
 inspectorBackend.registerEnum("Audits.InspectorIssueCode", {CookieIssue: "CookieIssue", MixedContentIssue: "MixedContentIssue", BlockedByResponseIssue: "BlockedByResponseIssue", HeavyAdIssue: "HeavyAdIssue", ContentSecurityPolicyIssue: "ContentSecurityPolicyIssue", SharedArrayBufferIssue: "SharedArrayBufferIssue", TrustedWebActivityIssue: "TrustedWebActivityIssue", LowTextContrastIssue: "LowTextContrastIssue", CorsIssue: "CorsIssue", AttributionReportingIssue: "AttributionReportingIssue", QuirksModeIssue: "QuirksModeIssue", NavigatorUserAgentIssue: "NavigatorUserAgentIssue", GenericIssue: "GenericIssue", DeprecationIssue: "DeprecationIssue", ClientHintIssue: "ClientHintIssue", FederatedAuthRequestIssue: "FederatedAuthRequestIssue"});
 inspectorBackend.registerEvent("Audits.issueAdded", ["issue"]);
 inspectorBackend.registerEnum("Audits.GetEncodedResponseRequestEncoding", {Webp: "webp", Jpeg: "jpeg", Png: "png"});
-inspectorBackend.registerCommand("Audits.getEncodedResponse", [{"name": "requestId", "type": "string", "optional": false}, {"name": "encoding", "type": "string", "optional": false}, {"name": "quality", "type": "number", "optional": true}, {"name": "sizeOnly", "type": "boolean", "optional": true}], ["body", "originalSize", "encodedSize"]);
+inspectorBackend.registerCommand("Audits.getEncodedResponse", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Network.RequestId"}, {"name": "encoding", "type": "string", "optional": false, "typeRef": "Audits.GetEncodedResponseRequestEncoding"}, {"name": "quality", "type": "number", "optional": true}, {"name": "sizeOnly", "type": "boolean", "optional": true}], ["body", "originalSize", "encodedSize"]);
 inspectorBackend.registerCommand("Audits.disable", [], []);
 inspectorBackend.registerCommand("Audits.enable", [], []);
 inspectorBackend.registerCommand("Audits.checkContrast", [{"name": "reportAAA", "type": "boolean", "optional": true}], []);
@@ -80,10 +80,10 @@ inspectorBackend.registerCommand("Audits.checkContrast", [{"name": "reportAAA",
 inspectorBackend.registerEnum("BackgroundService.ServiceName", {BackgroundFetch: "backgroundFetch", BackgroundSync: "backgroundSync", PushMessaging: "pushMessaging", Notifications: "notifications", PaymentHandler: "paymentHandler", PeriodicBackgroundSync: "periodicBackgroundSync"});
 inspectorBackend.registerEvent("BackgroundService.recordingStateChanged", ["isRecording", "service"]);
 inspectorBackend.registerEvent("BackgroundService.backgroundServiceEventReceived", ["backgroundServiceEvent"]);
-inspectorBackend.registerCommand("BackgroundService.startObserving", [{"name": "service", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("BackgroundService.stopObserving", [{"name": "service", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("BackgroundService.setRecording", [{"name": "shouldRecord", "type": "boolean", "optional": false}, {"name": "service", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("BackgroundService.clearEvents", [{"name": "service", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("BackgroundService.startObserving", [{"name": "service", "type": "string", "optional": false, "typeRef": "BackgroundService.ServiceName"}], []);
+inspectorBackend.registerCommand("BackgroundService.stopObserving", [{"name": "service", "type": "string", "optional": false, "typeRef": "BackgroundService.ServiceName"}], []);
+inspectorBackend.registerCommand("BackgroundService.setRecording", [{"name": "shouldRecord", "type": "boolean", "optional": false}, {"name": "service", "type": "string", "optional": false, "typeRef": "BackgroundService.ServiceName"}], []);
+inspectorBackend.registerCommand("BackgroundService.clearEvents", [{"name": "service", "type": "string", "optional": false, "typeRef": "BackgroundService.ServiceName"}], []);
 
 // Browser.
 inspectorBackend.registerEnum("Browser.WindowState", {Normal: "normal", Minimized: "minimized", Maximized: "maximized", Fullscreen: "fullscreen"});
@@ -93,12 +93,12 @@ inspectorBackend.registerEnum("Browser.BrowserCommandId", {OpenTabSearch: "openT
 inspectorBackend.registerEvent("Browser.downloadWillBegin", ["frameId", "guid", "url", "suggestedFilename"]);
 inspectorBackend.registerEnum("Browser.DownloadProgressEventState", {InProgress: "inProgress", Completed: "completed", Canceled: "canceled"});
 inspectorBackend.registerEvent("Browser.downloadProgress", ["guid", "totalBytes", "receivedBytes", "state"]);
-inspectorBackend.registerCommand("Browser.setPermission", [{"name": "permission", "type": "object", "optional": false}, {"name": "setting", "type": "string", "optional": false}, {"name": "origin", "type": "string", "optional": true}, {"name": "browserContextId", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Browser.grantPermissions", [{"name": "permissions", "type": "object", "optional": false}, {"name": "origin", "type": "string", "optional": true}, {"name": "browserContextId", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Browser.resetPermissions", [{"name": "browserContextId", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Browser.setPermission", [{"name": "permission", "type": "object", "optional": false, "typeRef": "Browser.PermissionDescriptor"}, {"name": "setting", "type": "string", "optional": false, "typeRef": "Browser.PermissionSetting"}, {"name": "origin", "type": "string", "optional": true}, {"name": "browserContextId", "type": "string", "optional": true, "typeRef": "Browser.BrowserContextID"}], []);
+inspectorBackend.registerCommand("Browser.grantPermissions", [{"name": "permissions", "type": "object", "optional": false}, {"name": "origin", "type": "string", "optional": true}, {"name": "browserContextId", "type": "string", "optional": true, "typeRef": "Browser.BrowserContextID"}], []);
+inspectorBackend.registerCommand("Browser.resetPermissions", [{"name": "browserContextId", "type": "string", "optional": true, "typeRef": "Browser.BrowserContextID"}], []);
 inspectorBackend.registerEnum("Browser.SetDownloadBehaviorRequestBehavior", {Deny: "deny", Allow: "allow", AllowAndName: "allowAndName", Default: "default"});
-inspectorBackend.registerCommand("Browser.setDownloadBehavior", [{"name": "behavior", "type": "string", "optional": false}, {"name": "browserContextId", "type": "string", "optional": true}, {"name": "downloadPath", "type": "string", "optional": true}, {"name": "eventsEnabled", "type": "boolean", "optional": true}], []);
-inspectorBackend.registerCommand("Browser.cancelDownload", [{"name": "guid", "type": "string", "optional": false}, {"name": "browserContextId", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Browser.setDownloadBehavior", [{"name": "behavior", "type": "string", "optional": false, "typeRef": "Browser.SetDownloadBehaviorRequestBehavior"}, {"name": "browserContextId", "type": "string", "optional": true, "typeRef": "Browser.BrowserContextID"}, {"name": "downloadPath", "type": "string", "optional": true}, {"name": "eventsEnabled", "type": "boolean", "optional": true}], []);
+inspectorBackend.registerCommand("Browser.cancelDownload", [{"name": "guid", "type": "string", "optional": false}, {"name": "browserContextId", "type": "string", "optional": true, "typeRef": "Browser.BrowserContextID"}], []);
 inspectorBackend.registerCommand("Browser.close", [], []);
 inspectorBackend.registerCommand("Browser.crash", [], []);
 inspectorBackend.registerCommand("Browser.crashGpuProcess", [], []);
@@ -106,11 +106,11 @@ inspectorBackend.registerCommand("Browser.getVersion", [], ["protocolVersion", "
 inspectorBackend.registerCommand("Browser.getBrowserCommandLine", [], ["arguments"]);
 inspectorBackend.registerCommand("Browser.getHistograms", [{"name": "query", "type": "string", "optional": true}, {"name": "delta", "type": "boolean", "optional": true}], ["histograms"]);
 inspectorBackend.registerCommand("Browser.getHistogram", [{"name": "name", "type": "string", "optional": false}, {"name": "delta", "type": "boolean", "optional": true}], ["histogram"]);
-inspectorBackend.registerCommand("Browser.getWindowBounds", [{"name": "windowId", "type": "number", "optional": false}], ["bounds"]);
-inspectorBackend.registerCommand("Browser.getWindowForTarget", [{"name": "targetId", "type": "string", "optional": true}], ["windowId", "bounds"]);
-inspectorBackend.registerCommand("Browser.setWindowBounds", [{"name": "windowId", "type": "number", "optional": false}, {"name": "bounds", "type": "object", "optional": false}], []);
+inspectorBackend.registerCommand("Browser.getWindowBounds", [{"name": "windowId", "type": "number", "optional": false, "typeRef": "Browser.WindowID"}], ["bounds"]);
+inspectorBackend.registerCommand("Browser.getWindowForTarget", [{"name": "targetId", "type": "string", "optional": true, "typeRef": "Target.TargetID"}], ["windowId", "bounds"]);
+inspectorBackend.registerCommand("Browser.setWindowBounds", [{"name": "windowId", "type": "number", "optional": false, "typeRef": "Browser.WindowID"}, {"name": "bounds", "type": "object", "optional": false, "typeRef": "Browser.Bounds"}], []);
 inspectorBackend.registerCommand("Browser.setDockTile", [{"name": "badgeLabel", "type": "string", "optional": true}, {"name": "image", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Browser.executeBrowserCommand", [{"name": "commandId", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Browser.executeBrowserCommand", [{"name": "commandId", "type": "string", "optional": false, "typeRef": "Browser.BrowserCommandId"}], []);
 
 // CSS.
 inspectorBackend.registerEnum("CSS.StyleSheetOrigin", {Injected: "injected", UserAgent: "user-agent", Inspector: "inspector", Regular: "regular"});
@@ -120,30 +120,30 @@ inspectorBackend.registerEvent("CSS.mediaQueryResultChanged", []);
 inspectorBackend.registerEvent("CSS.styleSheetAdded", ["header"]);
 inspectorBackend.registerEvent("CSS.styleSheetChanged", ["styleSheetId"]);
 inspectorBackend.registerEvent("CSS.styleSheetRemoved", ["styleSheetId"]);
-inspectorBackend.registerCommand("CSS.addRule", [{"name": "styleSheetId", "type": "string", "optional": false}, {"name": "ruleText", "type": "string", "optional": false}, {"name": "location", "type": "object", "optional": false}], ["rule"]);
-inspectorBackend.registerCommand("CSS.collectClassNames", [{"name": "styleSheetId", "type": "string", "optional": false}], ["classNames"]);
-inspectorBackend.registerCommand("CSS.createStyleSheet", [{"name": "frameId", "type": "string", "optional": false}], ["styleSheetId"]);
+inspectorBackend.registerCommand("CSS.addRule", [{"name": "styleSheetId", "type": "string", "optional": false, "typeRef": "CSS.StyleSheetId"}, {"name": "ruleText", "type": "string", "optional": false}, {"name": "location", "type": "object", "optional": false, "typeRef": "CSS.SourceRange"}], ["rule"]);
+inspectorBackend.registerCommand("CSS.collectClassNames", [{"name": "styleSheetId", "type": "string", "optional": false, "typeRef": "CSS.StyleSheetId"}], ["classNames"]);
+inspectorBackend.registerCommand("CSS.createStyleSheet", [{"name": "frameId", "type": "string", "optional": false, "typeRef": "Page.FrameId"}], ["styleSheetId"]);
 inspectorBackend.registerCommand("CSS.disable", [], []);
 inspectorBackend.registerCommand("CSS.enable", [], []);
-inspectorBackend.registerCommand("CSS.forcePseudoState", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "forcedPseudoClasses", "type": "object", "optional": false}], []);
-inspectorBackend.registerCommand("CSS.getBackgroundColors", [{"name": "nodeId", "type": "number", "optional": false}], ["backgroundColors", "computedFontSize", "computedFontWeight"]);
-inspectorBackend.registerCommand("CSS.getComputedStyleForNode", [{"name": "nodeId", "type": "number", "optional": false}], ["computedStyle"]);
-inspectorBackend.registerCommand("CSS.getInlineStylesForNode", [{"name": "nodeId", "type": "number", "optional": false}], ["inlineStyle", "attributesStyle"]);
-inspectorBackend.registerCommand("CSS.getMatchedStylesForNode", [{"name": "nodeId", "type": "number", "optional": false}], ["inlineStyle", "attributesStyle", "matchedCSSRules", "pseudoElements", "inherited", "inheritedPseudoElements", "cssKeyframesRules", "parentLayoutNodeId"]);
+inspectorBackend.registerCommand("CSS.forcePseudoState", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "forcedPseudoClasses", "type": "object", "optional": false}], []);
+inspectorBackend.registerCommand("CSS.getBackgroundColors", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["backgroundColors", "computedFontSize", "computedFontWeight"]);
+inspectorBackend.registerCommand("CSS.getComputedStyleForNode", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["computedStyle"]);
+inspectorBackend.registerCommand("CSS.getInlineStylesForNode", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["inlineStyle", "attributesStyle"]);
+inspectorBackend.registerCommand("CSS.getMatchedStylesForNode", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["inlineStyle", "attributesStyle", "matchedCSSRules", "pseudoElements", "inherited", "inheritedPseudoElements", "cssKeyframesRules", "parentLayoutNodeId"]);
 inspectorBackend.registerCommand("CSS.getMediaQueries", [], ["medias"]);
-inspectorBackend.registerCommand("CSS.getPlatformFontsForNode", [{"name": "nodeId", "type": "number", "optional": false}], ["fonts"]);
-inspectorBackend.registerCommand("CSS.getStyleSheetText", [{"name": "styleSheetId", "type": "string", "optional": false}], ["text"]);
-inspectorBackend.registerCommand("CSS.getLayersForNode", [{"name": "nodeId", "type": "number", "optional": false}], ["rootLayer"]);
+inspectorBackend.registerCommand("CSS.getPlatformFontsForNode", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["fonts"]);
+inspectorBackend.registerCommand("CSS.getStyleSheetText", [{"name": "styleSheetId", "type": "string", "optional": false, "typeRef": "CSS.StyleSheetId"}], ["text"]);
+inspectorBackend.registerCommand("CSS.getLayersForNode", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["rootLayer"]);
 inspectorBackend.registerCommand("CSS.trackComputedStyleUpdates", [{"name": "propertiesToTrack", "type": "object", "optional": false}], []);
 inspectorBackend.registerCommand("CSS.takeComputedStyleUpdates", [], ["nodeIds"]);
-inspectorBackend.registerCommand("CSS.setEffectivePropertyValueForNode", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "propertyName", "type": "string", "optional": false}, {"name": "value", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("CSS.setKeyframeKey", [{"name": "styleSheetId", "type": "string", "optional": false}, {"name": "range", "type": "object", "optional": false}, {"name": "keyText", "type": "string", "optional": false}], ["keyText"]);
-inspectorBackend.registerCommand("CSS.setMediaText", [{"name": "styleSheetId", "type": "string", "optional": false}, {"name": "range", "type": "object", "optional": false}, {"name": "text", "type": "string", "optional": false}], ["media"]);
-inspectorBackend.registerCommand("CSS.setContainerQueryText", [{"name": "styleSheetId", "type": "string", "optional": false}, {"name": "range", "type": "object", "optional": false}, {"name": "text", "type": "string", "optional": false}], ["containerQuery"]);
-inspectorBackend.registerCommand("CSS.setSupportsText", [{"name": "styleSheetId", "type": "string", "optional": false}, {"name": "range", "type": "object", "optional": false}, {"name": "text", "type": "string", "optional": false}], ["supports"]);
-inspectorBackend.registerCommand("CSS.setScopeText", [{"name": "styleSheetId", "type": "string", "optional": false}, {"name": "range", "type": "object", "optional": false}, {"name": "text", "type": "string", "optional": false}], ["scope"]);
-inspectorBackend.registerCommand("CSS.setRuleSelector", [{"name": "styleSheetId", "type": "string", "optional": false}, {"name": "range", "type": "object", "optional": false}, {"name": "selector", "type": "string", "optional": false}], ["selectorList"]);
-inspectorBackend.registerCommand("CSS.setStyleSheetText", [{"name": "styleSheetId", "type": "string", "optional": false}, {"name": "text", "type": "string", "optional": false}], ["sourceMapURL"]);
+inspectorBackend.registerCommand("CSS.setEffectivePropertyValueForNode", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "propertyName", "type": "string", "optional": false}, {"name": "value", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("CSS.setKeyframeKey", [{"name": "styleSheetId", "type": "string", "optional": false, "typeRef": "CSS.StyleSheetId"}, {"name": "range", "type": "object", "optional": false, "typeRef": "CSS.SourceRange"}, {"name": "keyText", "type": "string", "optional": false}], ["keyText"]);
+inspectorBackend.registerCommand("CSS.setMediaText", [{"name": "styleSheetId", "type": "string", "optional": false, "typeRef": "CSS.StyleSheetId"}, {"name": "range", "type": "object", "optional": false, "typeRef": "CSS.SourceRange"}, {"name": "text", "type": "string", "optional": false}], ["media"]);
+inspectorBackend.registerCommand("CSS.setContainerQueryText", [{"name": "styleSheetId", "type": "string", "optional": false, "typeRef": "CSS.StyleSheetId"}, {"name": "range", "type": "object", "optional": false, "typeRef": "CSS.SourceRange"}, {"name": "text", "type": "string", "optional": false}], ["containerQuery"]);
+inspectorBackend.registerCommand("CSS.setSupportsText", [{"name": "styleSheetId", "type": "string", "optional": false, "typeRef": "CSS.StyleSheetId"}, {"name": "range", "type": "object", "optional": false, "typeRef": "CSS.SourceRange"}, {"name": "text", "type": "string", "optional": false}], ["supports"]);
+inspectorBackend.registerCommand("CSS.setScopeText", [{"name": "styleSheetId", "type": "string", "optional": false, "typeRef": "CSS.StyleSheetId"}, {"name": "range", "type": "object", "optional": false, "typeRef": "CSS.SourceRange"}, {"name": "text", "type": "string", "optional": false}], ["scope"]);
+inspectorBackend.registerCommand("CSS.setRuleSelector", [{"name": "styleSheetId", "type": "string", "optional": false, "typeRef": "CSS.StyleSheetId"}, {"name": "range", "type": "object", "optional": false, "typeRef": "CSS.SourceRange"}, {"name": "selector", "type": "string", "optional": false}], ["selectorList"]);
+inspectorBackend.registerCommand("CSS.setStyleSheetText", [{"name": "styleSheetId", "type": "string", "optional": false, "typeRef": "CSS.StyleSheetId"}, {"name": "text", "type": "string", "optional": false}], ["sourceMapURL"]);
 inspectorBackend.registerCommand("CSS.setStyleTexts", [{"name": "edits", "type": "object", "optional": false}], ["styles"]);
 inspectorBackend.registerCommand("CSS.startRuleUsageTracking", [], []);
 inspectorBackend.registerCommand("CSS.stopRuleUsageTracking", [], ["ruleUsage"]);
@@ -152,11 +152,11 @@ inspectorBackend.registerCommand("CSS.setLocalFontsEnabled", [{"name": "enabled"
 
 // CacheStorage.
 inspectorBackend.registerEnum("CacheStorage.CachedResponseType", {Basic: "basic", Cors: "cors", Default: "default", Error: "error", OpaqueResponse: "opaqueResponse", OpaqueRedirect: "opaqueRedirect"});
-inspectorBackend.registerCommand("CacheStorage.deleteCache", [{"name": "cacheId", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("CacheStorage.deleteEntry", [{"name": "cacheId", "type": "string", "optional": false}, {"name": "request", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("CacheStorage.deleteCache", [{"name": "cacheId", "type": "string", "optional": false, "typeRef": "CacheStorage.CacheId"}], []);
+inspectorBackend.registerCommand("CacheStorage.deleteEntry", [{"name": "cacheId", "type": "string", "optional": false, "typeRef": "CacheStorage.CacheId"}, {"name": "request", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("CacheStorage.requestCacheNames", [{"name": "securityOrigin", "type": "string", "optional": true}, {"name": "storageKey", "type": "string", "optional": true}], ["caches"]);
-inspectorBackend.registerCommand("CacheStorage.requestCachedResponse", [{"name": "cacheId", "type": "string", "optional": false}, {"name": "requestURL", "type": "string", "optional": false}, {"name": "requestHeaders", "type": "object", "optional": false}], ["response"]);
-inspectorBackend.registerCommand("CacheStorage.requestEntries", [{"name": "cacheId", "type": "string", "optional": false}, {"name": "skipCount", "type": "number", "optional": true}, {"name": "pageSize", "type": "number", "optional": true}, {"name": "pathFilter", "type": "string", "optional": true}], ["cacheDataEntries", "returnCount"]);
+inspectorBackend.registerCommand("CacheStorage.requestCachedResponse", [{"name": "cacheId", "type": "string", "optional": false, "typeRef": "CacheStorage.CacheId"}, {"name": "requestURL", "type": "string", "optional": false}, {"name": "requestHeaders", "type": "object", "optional": false}], ["response"]);
+inspectorBackend.registerCommand("CacheStorage.requestEntries", [{"name": "cacheId", "type": "string", "optional": false, "typeRef": "CacheStorage.CacheId"}, {"name": "skipCount", "type": "number", "optional": true}, {"name": "pageSize", "type": "number", "optional": true}, {"name": "pathFilter", "type": "string", "optional": true}], ["cacheDataEntries", "returnCount"]);
 
 // Cast.
 inspectorBackend.registerEvent("Cast.sinksUpdated", ["sinks"]);
@@ -189,67 +189,67 @@ inspectorBackend.registerEvent("DOM.pseudoElementRemoved", ["parentId", "pseudoE
 inspectorBackend.registerEvent("DOM.setChildNodes", ["parentId", "nodes"]);
 inspectorBackend.registerEvent("DOM.shadowRootPopped", ["hostId", "rootId"]);
 inspectorBackend.registerEvent("DOM.shadowRootPushed", ["hostId", "root"]);
-inspectorBackend.registerCommand("DOM.collectClassNamesFromSubtree", [{"name": "nodeId", "type": "number", "optional": false}], ["classNames"]);
-inspectorBackend.registerCommand("DOM.copyTo", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "targetNodeId", "type": "number", "optional": false}, {"name": "insertBeforeNodeId", "type": "number", "optional": true}], ["nodeId"]);
-inspectorBackend.registerCommand("DOM.describeNode", [{"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}, {"name": "depth", "type": "number", "optional": true}, {"name": "pierce", "type": "boolean", "optional": true}], ["node"]);
-inspectorBackend.registerCommand("DOM.scrollIntoViewIfNeeded", [{"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}, {"name": "rect", "type": "object", "optional": true}], []);
+inspectorBackend.registerCommand("DOM.collectClassNamesFromSubtree", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["classNames"]);
+inspectorBackend.registerCommand("DOM.copyTo", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "targetNodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "insertBeforeNodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}], ["nodeId"]);
+inspectorBackend.registerCommand("DOM.describeNode", [{"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}, {"name": "depth", "type": "number", "optional": true}, {"name": "pierce", "type": "boolean", "optional": true}], ["node"]);
+inspectorBackend.registerCommand("DOM.scrollIntoViewIfNeeded", [{"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}, {"name": "rect", "type": "object", "optional": true, "typeRef": "DOM.Rect"}], []);
 inspectorBackend.registerCommand("DOM.disable", [], []);
 inspectorBackend.registerCommand("DOM.discardSearchResults", [{"name": "searchId", "type": "string", "optional": false}], []);
 inspectorBackend.registerEnum("DOM.EnableRequestIncludeWhitespace", {None: "none", All: "all"});
-inspectorBackend.registerCommand("DOM.enable", [{"name": "includeWhitespace", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("DOM.focus", [{"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("DOM.getAttributes", [{"name": "nodeId", "type": "number", "optional": false}], ["attributes"]);
-inspectorBackend.registerCommand("DOM.getBoxModel", [{"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}], ["model"]);
-inspectorBackend.registerCommand("DOM.getContentQuads", [{"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}], ["quads"]);
+inspectorBackend.registerCommand("DOM.enable", [{"name": "includeWhitespace", "type": "string", "optional": true, "typeRef": "DOM.EnableRequestIncludeWhitespace"}], []);
+inspectorBackend.registerCommand("DOM.focus", [{"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}], []);
+inspectorBackend.registerCommand("DOM.getAttributes", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["attributes"]);
+inspectorBackend.registerCommand("DOM.getBoxModel", [{"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}], ["model"]);
+inspectorBackend.registerCommand("DOM.getContentQuads", [{"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}], ["quads"]);
 inspectorBackend.registerCommand("DOM.getDocument", [{"name": "depth", "type": "number", "optional": true}, {"name": "pierce", "type": "boolean", "optional": true}], ["root"]);
 inspectorBackend.registerCommand("DOM.getFlattenedDocument", [{"name": "depth", "type": "number", "optional": true}, {"name": "pierce", "type": "boolean", "optional": true}], ["nodes"]);
-inspectorBackend.registerCommand("DOM.getNodesForSubtreeByStyle", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "computedStyles", "type": "object", "optional": false}, {"name": "pierce", "type": "boolean", "optional": true}], ["nodeIds"]);
+inspectorBackend.registerCommand("DOM.getNodesForSubtreeByStyle", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "computedStyles", "type": "object", "optional": false}, {"name": "pierce", "type": "boolean", "optional": true}], ["nodeIds"]);
 inspectorBackend.registerCommand("DOM.getNodeForLocation", [{"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "includeUserAgentShadowDOM", "type": "boolean", "optional": true}, {"name": "ignorePointerEventsNone", "type": "boolean", "optional": true}], ["backendNodeId", "frameId", "nodeId"]);
-inspectorBackend.registerCommand("DOM.getOuterHTML", [{"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}], ["outerHTML"]);
-inspectorBackend.registerCommand("DOM.getRelayoutBoundary", [{"name": "nodeId", "type": "number", "optional": false}], ["nodeId"]);
+inspectorBackend.registerCommand("DOM.getOuterHTML", [{"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}], ["outerHTML"]);
+inspectorBackend.registerCommand("DOM.getRelayoutBoundary", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["nodeId"]);
 inspectorBackend.registerCommand("DOM.getSearchResults", [{"name": "searchId", "type": "string", "optional": false}, {"name": "fromIndex", "type": "number", "optional": false}, {"name": "toIndex", "type": "number", "optional": false}], ["nodeIds"]);
 inspectorBackend.registerCommand("DOM.hideHighlight", [], []);
 inspectorBackend.registerCommand("DOM.highlightNode", [], []);
 inspectorBackend.registerCommand("DOM.highlightRect", [], []);
 inspectorBackend.registerCommand("DOM.markUndoableState", [], []);
-inspectorBackend.registerCommand("DOM.moveTo", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "targetNodeId", "type": "number", "optional": false}, {"name": "insertBeforeNodeId", "type": "number", "optional": true}], ["nodeId"]);
+inspectorBackend.registerCommand("DOM.moveTo", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "targetNodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "insertBeforeNodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}], ["nodeId"]);
 inspectorBackend.registerCommand("DOM.performSearch", [{"name": "query", "type": "string", "optional": false}, {"name": "includeUserAgentShadowDOM", "type": "boolean", "optional": true}], ["searchId", "resultCount"]);
 inspectorBackend.registerCommand("DOM.pushNodeByPathToFrontend", [{"name": "path", "type": "string", "optional": false}], ["nodeId"]);
 inspectorBackend.registerCommand("DOM.pushNodesByBackendIdsToFrontend", [{"name": "backendNodeIds", "type": "object", "optional": false}], ["nodeIds"]);
-inspectorBackend.registerCommand("DOM.querySelector", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "selector", "type": "string", "optional": false}], ["nodeId"]);
-inspectorBackend.registerCommand("DOM.querySelectorAll", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "selector", "type": "string", "optional": false}], ["nodeIds"]);
+inspectorBackend.registerCommand("DOM.querySelector", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "selector", "type": "string", "optional": false}], ["nodeId"]);
+inspectorBackend.registerCommand("DOM.querySelectorAll", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "selector", "type": "string", "optional": false}], ["nodeIds"]);
 inspectorBackend.registerCommand("DOM.getTopLayerElements", [], ["nodeIds"]);
 inspectorBackend.registerCommand("DOM.redo", [], []);
-inspectorBackend.registerCommand("DOM.removeAttribute", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "name", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("DOM.removeNode", [{"name": "nodeId", "type": "number", "optional": false}], []);
-inspectorBackend.registerCommand("DOM.requestChildNodes", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "depth", "type": "number", "optional": true}, {"name": "pierce", "type": "boolean", "optional": true}], []);
-inspectorBackend.registerCommand("DOM.requestNode", [{"name": "objectId", "type": "string", "optional": false}], ["nodeId"]);
-inspectorBackend.registerCommand("DOM.resolveNode", [{"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectGroup", "type": "string", "optional": true}, {"name": "executionContextId", "type": "number", "optional": true}], ["object"]);
-inspectorBackend.registerCommand("DOM.setAttributeValue", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "name", "type": "string", "optional": false}, {"name": "value", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("DOM.setAttributesAsText", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "text", "type": "string", "optional": false}, {"name": "name", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("DOM.setFileInputFiles", [{"name": "files", "type": "object", "optional": false}, {"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("DOM.removeAttribute", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "name", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("DOM.removeNode", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], []);
+inspectorBackend.registerCommand("DOM.requestChildNodes", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "depth", "type": "number", "optional": true}, {"name": "pierce", "type": "boolean", "optional": true}], []);
+inspectorBackend.registerCommand("DOM.requestNode", [{"name": "objectId", "type": "string", "optional": false, "typeRef": "Runtime.RemoteObjectId"}], ["nodeId"]);
+inspectorBackend.registerCommand("DOM.resolveNode", [{"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectGroup", "type": "string", "optional": true}, {"name": "executionContextId", "type": "number", "optional": true, "typeRef": "Runtime.ExecutionContextId"}], ["object"]);
+inspectorBackend.registerCommand("DOM.setAttributeValue", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "name", "type": "string", "optional": false}, {"name": "value", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("DOM.setAttributesAsText", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "text", "type": "string", "optional": false}, {"name": "name", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("DOM.setFileInputFiles", [{"name": "files", "type": "object", "optional": false}, {"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}], []);
 inspectorBackend.registerCommand("DOM.setNodeStackTracesEnabled", [{"name": "enable", "type": "boolean", "optional": false}], []);
-inspectorBackend.registerCommand("DOM.getNodeStackTraces", [{"name": "nodeId", "type": "number", "optional": false}], ["creation"]);
-inspectorBackend.registerCommand("DOM.getFileInfo", [{"name": "objectId", "type": "string", "optional": false}], ["path"]);
-inspectorBackend.registerCommand("DOM.setInspectedNode", [{"name": "nodeId", "type": "number", "optional": false}], []);
-inspectorBackend.registerCommand("DOM.setNodeName", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "name", "type": "string", "optional": false}], ["nodeId"]);
-inspectorBackend.registerCommand("DOM.setNodeValue", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "value", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("DOM.setOuterHTML", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "outerHTML", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("DOM.getNodeStackTraces", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["creation"]);
+inspectorBackend.registerCommand("DOM.getFileInfo", [{"name": "objectId", "type": "string", "optional": false, "typeRef": "Runtime.RemoteObjectId"}], ["path"]);
+inspectorBackend.registerCommand("DOM.setInspectedNode", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], []);
+inspectorBackend.registerCommand("DOM.setNodeName", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "name", "type": "string", "optional": false}], ["nodeId"]);
+inspectorBackend.registerCommand("DOM.setNodeValue", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "value", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("DOM.setOuterHTML", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "outerHTML", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("DOM.undo", [], []);
-inspectorBackend.registerCommand("DOM.getFrameOwner", [{"name": "frameId", "type": "string", "optional": false}], ["backendNodeId", "nodeId"]);
-inspectorBackend.registerCommand("DOM.getContainerForNode", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "containerName", "type": "string", "optional": true}, {"name": "physicalAxes", "type": "string", "optional": true}, {"name": "logicalAxes", "type": "string", "optional": true}], ["nodeId"]);
-inspectorBackend.registerCommand("DOM.getQueryingDescendantsForContainer", [{"name": "nodeId", "type": "number", "optional": false}], ["nodeIds"]);
+inspectorBackend.registerCommand("DOM.getFrameOwner", [{"name": "frameId", "type": "string", "optional": false, "typeRef": "Page.FrameId"}], ["backendNodeId", "nodeId"]);
+inspectorBackend.registerCommand("DOM.getContainerForNode", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "containerName", "type": "string", "optional": true}, {"name": "physicalAxes", "type": "string", "optional": true, "typeRef": "DOM.PhysicalAxes"}, {"name": "logicalAxes", "type": "string", "optional": true, "typeRef": "DOM.LogicalAxes"}], ["nodeId"]);
+inspectorBackend.registerCommand("DOM.getQueryingDescendantsForContainer", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["nodeIds"]);
 
 // DOMDebugger.
 inspectorBackend.registerEnum("DOMDebugger.DOMBreakpointType", {SubtreeModified: "subtree-modified", AttributeModified: "attribute-modified", NodeRemoved: "node-removed"});
 inspectorBackend.registerEnum("DOMDebugger.CSPViolationType", {TrustedtypeSinkViolation: "trustedtype-sink-violation", TrustedtypePolicyViolation: "trustedtype-policy-violation"});
-inspectorBackend.registerCommand("DOMDebugger.getEventListeners", [{"name": "objectId", "type": "string", "optional": false}, {"name": "depth", "type": "number", "optional": true}, {"name": "pierce", "type": "boolean", "optional": true}], ["listeners"]);
-inspectorBackend.registerCommand("DOMDebugger.removeDOMBreakpoint", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "type", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("DOMDebugger.getEventListeners", [{"name": "objectId", "type": "string", "optional": false, "typeRef": "Runtime.RemoteObjectId"}, {"name": "depth", "type": "number", "optional": true}, {"name": "pierce", "type": "boolean", "optional": true}], ["listeners"]);
+inspectorBackend.registerCommand("DOMDebugger.removeDOMBreakpoint", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "type", "type": "string", "optional": false, "typeRef": "DOMDebugger.DOMBreakpointType"}], []);
 inspectorBackend.registerCommand("DOMDebugger.removeEventListenerBreakpoint", [{"name": "eventName", "type": "string", "optional": false}, {"name": "targetName", "type": "string", "optional": true}], []);
 inspectorBackend.registerCommand("DOMDebugger.removeInstrumentationBreakpoint", [{"name": "eventName", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("DOMDebugger.removeXHRBreakpoint", [{"name": "url", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("DOMDebugger.setBreakOnCSPViolation", [{"name": "violationTypes", "type": "object", "optional": false}], []);
-inspectorBackend.registerCommand("DOMDebugger.setDOMBreakpoint", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "type", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("DOMDebugger.setDOMBreakpoint", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "type", "type": "string", "optional": false, "typeRef": "DOMDebugger.DOMBreakpointType"}], []);
 inspectorBackend.registerCommand("DOMDebugger.setEventListenerBreakpoint", [{"name": "eventName", "type": "string", "optional": false}, {"name": "targetName", "type": "string", "optional": true}], []);
 inspectorBackend.registerCommand("DOMDebugger.setInstrumentationBreakpoint", [{"name": "eventName", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("DOMDebugger.setXHRBreakpoint", [{"name": "url", "type": "string", "optional": false}], []);
@@ -269,19 +269,19 @@ inspectorBackend.registerEvent("DOMStorage.domStorageItemAdded", ["storageId", "
 inspectorBackend.registerEvent("DOMStorage.domStorageItemRemoved", ["storageId", "key"]);
 inspectorBackend.registerEvent("DOMStorage.domStorageItemUpdated", ["storageId", "key", "oldValue", "newValue"]);
 inspectorBackend.registerEvent("DOMStorage.domStorageItemsCleared", ["storageId"]);
-inspectorBackend.registerCommand("DOMStorage.clear", [{"name": "storageId", "type": "object", "optional": false}], []);
+inspectorBackend.registerCommand("DOMStorage.clear", [{"name": "storageId", "type": "object", "optional": false, "typeRef": "DOMStorage.StorageId"}], []);
 inspectorBackend.registerCommand("DOMStorage.disable", [], []);
 inspectorBackend.registerCommand("DOMStorage.enable", [], []);
-inspectorBackend.registerCommand("DOMStorage.getDOMStorageItems", [{"name": "storageId", "type": "object", "optional": false}], ["entries"]);
-inspectorBackend.registerCommand("DOMStorage.removeDOMStorageItem", [{"name": "storageId", "type": "object", "optional": false}, {"name": "key", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("DOMStorage.setDOMStorageItem", [{"name": "storageId", "type": "object", "optional": false}, {"name": "key", "type": "string", "optional": false}, {"name": "value", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("DOMStorage.getDOMStorageItems", [{"name": "storageId", "type": "object", "optional": false, "typeRef": "DOMStorage.StorageId"}], ["entries"]);
+inspectorBackend.registerCommand("DOMStorage.removeDOMStorageItem", [{"name": "storageId", "type": "object", "optional": false, "typeRef": "DOMStorage.StorageId"}, {"name": "key", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("DOMStorage.setDOMStorageItem", [{"name": "storageId", "type": "object", "optional": false, "typeRef": "DOMStorage.StorageId"}, {"name": "key", "type": "string", "optional": false}, {"name": "value", "type": "string", "optional": false}], []);
 
 // Database.
 inspectorBackend.registerEvent("Database.addDatabase", ["database"]);
 inspectorBackend.registerCommand("Database.disable", [], []);
 inspectorBackend.registerCommand("Database.enable", [], []);
-inspectorBackend.registerCommand("Database.executeSQL", [{"name": "databaseId", "type": "string", "optional": false}, {"name": "query", "type": "string", "optional": false}], ["columnNames", "values", "sqlError"]);
-inspectorBackend.registerCommand("Database.getDatabaseTableNames", [{"name": "databaseId", "type": "string", "optional": false}], ["tableNames"]);
+inspectorBackend.registerCommand("Database.executeSQL", [{"name": "databaseId", "type": "string", "optional": false, "typeRef": "Database.DatabaseId"}, {"name": "query", "type": "string", "optional": false}], ["columnNames", "values", "sqlError"]);
+inspectorBackend.registerCommand("Database.getDatabaseTableNames", [{"name": "databaseId", "type": "string", "optional": false, "typeRef": "Database.DatabaseId"}], ["tableNames"]);
 
 // DeviceOrientation.
 inspectorBackend.registerCommand("DeviceOrientation.clearDeviceOrientationOverride", [], []);
@@ -300,15 +300,15 @@ inspectorBackend.registerCommand("Emulation.resetPageScaleFactor", [], []);
 inspectorBackend.registerCommand("Emulation.setFocusEmulationEnabled", [{"name": "enabled", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Emulation.setAutoDarkModeOverride", [{"name": "enabled", "type": "boolean", "optional": true}], []);
 inspectorBackend.registerCommand("Emulation.setCPUThrottlingRate", [{"name": "rate", "type": "number", "optional": false}], []);
-inspectorBackend.registerCommand("Emulation.setDefaultBackgroundColorOverride", [{"name": "color", "type": "object", "optional": true}], []);
-inspectorBackend.registerCommand("Emulation.setDeviceMetricsOverride", [{"name": "width", "type": "number", "optional": false}, {"name": "height", "type": "number", "optional": false}, {"name": "deviceScaleFactor", "type": "number", "optional": false}, {"name": "mobile", "type": "boolean", "optional": false}, {"name": "scale", "type": "number", "optional": true}, {"name": "screenWidth", "type": "number", "optional": true}, {"name": "screenHeight", "type": "number", "optional": true}, {"name": "positionX", "type": "number", "optional": true}, {"name": "positionY", "type": "number", "optional": true}, {"name": "dontSetVisibleSize", "type": "boolean", "optional": true}, {"name": "screenOrientation", "type": "object", "optional": true}, {"name": "viewport", "type": "object", "optional": true}, {"name": "displayFeature", "type": "object", "optional": true}], []);
+inspectorBackend.registerCommand("Emulation.setDefaultBackgroundColorOverride", [{"name": "color", "type": "object", "optional": true, "typeRef": "DOM.RGBA"}], []);
+inspectorBackend.registerCommand("Emulation.setDeviceMetricsOverride", [{"name": "width", "type": "number", "optional": false}, {"name": "height", "type": "number", "optional": false}, {"name": "deviceScaleFactor", "type": "number", "optional": false}, {"name": "mobile", "type": "boolean", "optional": false}, {"name": "scale", "type": "number", "optional": true}, {"name": "screenWidth", "type": "number", "optional": true}, {"name": "screenHeight", "type": "number", "optional": true}, {"name": "positionX", "type": "number", "optional": true}, {"name": "positionY", "type": "number", "optional": true}, {"name": "dontSetVisibleSize", "type": "boolean", "optional": true}, {"name": "screenOrientation", "type": "object", "optional": true, "typeRef": "Emulation.ScreenOrientation"}, {"name": "viewport", "type": "object", "optional": true, "typeRef": "Page.Viewport"}, {"name": "displayFeature", "type": "object", "optional": true, "typeRef": "Emulation.DisplayFeature"}], []);
 inspectorBackend.registerCommand("Emulation.setScrollbarsHidden", [{"name": "hidden", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Emulation.setDocumentCookieDisabled", [{"name": "disabled", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerEnum("Emulation.SetEmitTouchEventsForMouseRequestConfiguration", {Mobile: "mobile", Desktop: "desktop"});
-inspectorBackend.registerCommand("Emulation.setEmitTouchEventsForMouse", [{"name": "enabled", "type": "boolean", "optional": false}, {"name": "configuration", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Emulation.setEmitTouchEventsForMouse", [{"name": "enabled", "type": "boolean", "optional": false}, {"name": "configuration", "type": "string", "optional": true, "typeRef": "Emulation.SetEmitTouchEventsForMouseRequestConfiguration"}], []);
 inspectorBackend.registerCommand("Emulation.setEmulatedMedia", [{"name": "media", "type": "string", "optional": true}, {"name": "features", "type": "object", "optional": true}], []);
 inspectorBackend.registerEnum("Emulation.SetEmulatedVisionDeficiencyRequestType", {None: "none", Achromatopsia: "achromatopsia", BlurredVision: "blurredVision", Deuteranopia: "deuteranopia", Protanopia: "protanopia", Tritanopia: "tritanopia"});
-inspectorBackend.registerCommand("Emulation.setEmulatedVisionDeficiency", [{"name": "type", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Emulation.setEmulatedVisionDeficiency", [{"name": "type", "type": "string", "optional": false, "typeRef": "Emulation.SetEmulatedVisionDeficiencyRequestType"}], []);
 inspectorBackend.registerCommand("Emulation.setGeolocationOverride", [{"name": "latitude", "type": "number", "optional": true}, {"name": "longitude", "type": "number", "optional": true}, {"name": "accuracy", "type": "number", "optional": true}], []);
 inspectorBackend.registerCommand("Emulation.setIdleOverride", [{"name": "isUserActive", "type": "boolean", "optional": false}, {"name": "isScreenUnlocked", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Emulation.clearIdleOverride", [], []);
@@ -316,35 +316,35 @@ inspectorBackend.registerCommand("Emulation.setNavigatorOverrides", [{"name": "p
 inspectorBackend.registerCommand("Emulation.setPageScaleFactor", [{"name": "pageScaleFactor", "type": "number", "optional": false}], []);
 inspectorBackend.registerCommand("Emulation.setScriptExecutionDisabled", [{"name": "value", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Emulation.setTouchEmulationEnabled", [{"name": "enabled", "type": "boolean", "optional": false}, {"name": "maxTouchPoints", "type": "number", "optional": true}], []);
-inspectorBackend.registerCommand("Emulation.setVirtualTimePolicy", [{"name": "policy", "type": "string", "optional": false}, {"name": "budget", "type": "number", "optional": true}, {"name": "maxVirtualTimeTaskStarvationCount", "type": "number", "optional": true}, {"name": "initialVirtualTime", "type": "number", "optional": true}], ["virtualTimeTicksBase"]);
+inspectorBackend.registerCommand("Emulation.setVirtualTimePolicy", [{"name": "policy", "type": "string", "optional": false, "typeRef": "Emulation.VirtualTimePolicy"}, {"name": "budget", "type": "number", "optional": true}, {"name": "maxVirtualTimeTaskStarvationCount", "type": "number", "optional": true}, {"name": "initialVirtualTime", "type": "number", "optional": true, "typeRef": "Network.TimeSinceEpoch"}], ["virtualTimeTicksBase"]);
 inspectorBackend.registerCommand("Emulation.setLocaleOverride", [{"name": "locale", "type": "string", "optional": true}], []);
 inspectorBackend.registerCommand("Emulation.setTimezoneOverride", [{"name": "timezoneId", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("Emulation.setVisibleSize", [{"name": "width", "type": "number", "optional": false}, {"name": "height", "type": "number", "optional": false}], []);
 inspectorBackend.registerCommand("Emulation.setDisabledImageTypes", [{"name": "imageTypes", "type": "object", "optional": false}], []);
 inspectorBackend.registerCommand("Emulation.setHardwareConcurrencyOverride", [{"name": "hardwareConcurrency", "type": "number", "optional": false}], []);
-inspectorBackend.registerCommand("Emulation.setUserAgentOverride", [{"name": "userAgent", "type": "string", "optional": false}, {"name": "acceptLanguage", "type": "string", "optional": true}, {"name": "platform", "type": "string", "optional": true}, {"name": "userAgentMetadata", "type": "object", "optional": true}], []);
+inspectorBackend.registerCommand("Emulation.setUserAgentOverride", [{"name": "userAgent", "type": "string", "optional": false}, {"name": "acceptLanguage", "type": "string", "optional": true}, {"name": "platform", "type": "string", "optional": true}, {"name": "userAgentMetadata", "type": "object", "optional": true, "typeRef": "Emulation.UserAgentMetadata"}], []);
 inspectorBackend.registerCommand("Emulation.setAutomationOverride", [{"name": "enabled", "type": "boolean", "optional": false}], []);
 
 // HeadlessExperimental.
 inspectorBackend.registerEnum("HeadlessExperimental.ScreenshotParamsFormat", {Jpeg: "jpeg", Png: "png", Webp: "webp"});
-inspectorBackend.registerCommand("HeadlessExperimental.beginFrame", [{"name": "frameTimeTicks", "type": "number", "optional": true}, {"name": "interval", "type": "number", "optional": true}, {"name": "noDisplayUpdates", "type": "boolean", "optional": true}, {"name": "screenshot", "type": "object", "optional": true}], ["hasDamage", "screenshotData"]);
+inspectorBackend.registerCommand("HeadlessExperimental.beginFrame", [{"name": "frameTimeTicks", "type": "number", "optional": true}, {"name": "interval", "type": "number", "optional": true}, {"name": "noDisplayUpdates", "type": "boolean", "optional": true}, {"name": "screenshot", "type": "object", "optional": true, "typeRef": "HeadlessExperimental.ScreenshotParams"}], ["hasDamage", "screenshotData"]);
 inspectorBackend.registerCommand("HeadlessExperimental.disable", [], []);
 inspectorBackend.registerCommand("HeadlessExperimental.enable", [], []);
 
 // IO.
-inspectorBackend.registerCommand("IO.close", [{"name": "handle", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("IO.read", [{"name": "handle", "type": "string", "optional": false}, {"name": "offset", "type": "number", "optional": true}, {"name": "size", "type": "number", "optional": true}], ["base64Encoded", "data", "eof"]);
-inspectorBackend.registerCommand("IO.resolveBlob", [{"name": "objectId", "type": "string", "optional": false}], ["uuid"]);
+inspectorBackend.registerCommand("IO.close", [{"name": "handle", "type": "string", "optional": false, "typeRef": "IO.StreamHandle"}], []);
+inspectorBackend.registerCommand("IO.read", [{"name": "handle", "type": "string", "optional": false, "typeRef": "IO.StreamHandle"}, {"name": "offset", "type": "number", "optional": true}, {"name": "size", "type": "number", "optional": true}], ["base64Encoded", "data", "eof"]);
+inspectorBackend.registerCommand("IO.resolveBlob", [{"name": "objectId", "type": "string", "optional": false, "typeRef": "Runtime.RemoteObjectId"}], ["uuid"]);
 
 // IndexedDB.
 inspectorBackend.registerEnum("IndexedDB.KeyType", {Number: "number", String: "string", Date: "date", Array: "array"});
 inspectorBackend.registerEnum("IndexedDB.KeyPathType", {Null: "null", String: "string", Array: "array"});
 inspectorBackend.registerCommand("IndexedDB.clearObjectStore", [{"name": "securityOrigin", "type": "string", "optional": true}, {"name": "storageKey", "type": "string", "optional": true}, {"name": "databaseName", "type": "string", "optional": false}, {"name": "objectStoreName", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("IndexedDB.deleteDatabase", [{"name": "securityOrigin", "type": "string", "optional": true}, {"name": "storageKey", "type": "string", "optional": true}, {"name": "databaseName", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("IndexedDB.deleteObjectStoreEntries", [{"name": "securityOrigin", "type": "string", "optional": true}, {"name": "storageKey", "type": "string", "optional": true}, {"name": "databaseName", "type": "string", "optional": false}, {"name": "objectStoreName", "type": "string", "optional": false}, {"name": "keyRange", "type": "object", "optional": false}], []);
+inspectorBackend.registerCommand("IndexedDB.deleteObjectStoreEntries", [{"name": "securityOrigin", "type": "string", "optional": true}, {"name": "storageKey", "type": "string", "optional": true}, {"name": "databaseName", "type": "string", "optional": false}, {"name": "objectStoreName", "type": "string", "optional": false}, {"name": "keyRange", "type": "object", "optional": false, "typeRef": "IndexedDB.KeyRange"}], []);
 inspectorBackend.registerCommand("IndexedDB.disable", [], []);
 inspectorBackend.registerCommand("IndexedDB.enable", [], []);
-inspectorBackend.registerCommand("IndexedDB.requestData", [{"name": "securityOrigin", "type": "string", "optional": true}, {"name": "storageKey", "type": "string", "optional": true}, {"name": "databaseName", "type": "string", "optional": false}, {"name": "objectStoreName", "type": "string", "optional": false}, {"name": "indexName", "type": "string", "optional": false}, {"name": "skipCount", "type": "number", "optional": false}, {"name": "pageSize", "type": "number", "optional": false}, {"name": "keyRange", "type": "object", "optional": true}], ["objectStoreDataEntries", "hasMore"]);
+inspectorBackend.registerCommand("IndexedDB.requestData", [{"name": "securityOrigin", "type": "string", "optional": true}, {"name": "storageKey", "type": "string", "optional": true}, {"name": "databaseName", "type": "string", "optional": false}, {"name": "objectStoreName", "type": "string", "optional": false}, {"name": "indexName", "type": "string", "optional": false}, {"name": "skipCount", "type": "number", "optional": false}, {"name": "pageSize", "type": "number", "optional": false}, {"name": "keyRange", "type": "object", "optional": true, "typeRef": "IndexedDB.KeyRange"}], ["objectStoreDataEntries", "hasMore"]);
 inspectorBackend.registerCommand("IndexedDB.getMetadata", [{"name": "securityOrigin", "type": "string", "optional": true}, {"name": "storageKey", "type": "string", "optional": true}, {"name": "databaseName", "type": "string", "optional": false}, {"name": "objectStoreName", "type": "string", "optional": false}], ["entriesCount", "keyGeneratorValue"]);
 inspectorBackend.registerCommand("IndexedDB.requestDatabase", [{"name": "securityOrigin", "type": "string", "optional": true}, {"name": "storageKey", "type": "string", "optional": true}, {"name": "databaseName", "type": "string", "optional": false}], ["databaseWithObjectStores"]);
 inspectorBackend.registerCommand("IndexedDB.requestDatabaseNames", [{"name": "securityOrigin", "type": "string", "optional": true}, {"name": "storageKey", "type": "string", "optional": true}], ["databaseNames"]);
@@ -354,23 +354,23 @@ inspectorBackend.registerEnum("Input.GestureSourceType", {Default: "default", To
 inspectorBackend.registerEnum("Input.MouseButton", {None: "none", Left: "left", Middle: "middle", Right: "right", Back: "back", Forward: "forward"});
 inspectorBackend.registerEvent("Input.dragIntercepted", ["data"]);
 inspectorBackend.registerEnum("Input.DispatchDragEventRequestType", {DragEnter: "dragEnter", DragOver: "dragOver", Drop: "drop", DragCancel: "dragCancel"});
-inspectorBackend.registerCommand("Input.dispatchDragEvent", [{"name": "type", "type": "string", "optional": false}, {"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "data", "type": "object", "optional": false}, {"name": "modifiers", "type": "number", "optional": true}], []);
+inspectorBackend.registerCommand("Input.dispatchDragEvent", [{"name": "type", "type": "string", "optional": false, "typeRef": "Input.DispatchDragEventRequestType"}, {"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "data", "type": "object", "optional": false, "typeRef": "Input.DragData"}, {"name": "modifiers", "type": "number", "optional": true}], []);
 inspectorBackend.registerEnum("Input.DispatchKeyEventRequestType", {KeyDown: "keyDown", KeyUp: "keyUp", RawKeyDown: "rawKeyDown", Char: "char"});
-inspectorBackend.registerCommand("Input.dispatchKeyEvent", [{"name": "type", "type": "string", "optional": false}, {"name": "modifiers", "type": "number", "optional": true}, {"name": "timestamp", "type": "number", "optional": true}, {"name": "text", "type": "string", "optional": true}, {"name": "unmodifiedText", "type": "string", "optional": true}, {"name": "keyIdentifier", "type": "string", "optional": true}, {"name": "code", "type": "string", "optional": true}, {"name": "key", "type": "string", "optional": true}, {"name": "windowsVirtualKeyCode", "type": "number", "optional": true}, {"name": "nativeVirtualKeyCode", "type": "number", "optional": true}, {"name": "autoRepeat", "type": "boolean", "optional": true}, {"name": "isKeypad", "type": "boolean", "optional": true}, {"name": "isSystemKey", "type": "boolean", "optional": true}, {"name": "location", "type": "number", "optional": true}, {"name": "commands", "type": "object", "optional": true}], []);
+inspectorBackend.registerCommand("Input.dispatchKeyEvent", [{"name": "type", "type": "string", "optional": false, "typeRef": "Input.DispatchKeyEventRequestType"}, {"name": "modifiers", "type": "number", "optional": true}, {"name": "timestamp", "type": "number", "optional": true, "typeRef": "Input.TimeSinceEpoch"}, {"name": "text", "type": "string", "optional": true}, {"name": "unmodifiedText", "type": "string", "optional": true}, {"name": "keyIdentifier", "type": "string", "optional": true}, {"name": "code", "type": "string", "optional": true}, {"name": "key", "type": "string", "optional": true}, {"name": "windowsVirtualKeyCode", "type": "number", "optional": true}, {"name": "nativeVirtualKeyCode", "type": "number", "optional": true}, {"name": "autoRepeat", "type": "boolean", "optional": true}, {"name": "isKeypad", "type": "boolean", "optional": true}, {"name": "isSystemKey", "type": "boolean", "optional": true}, {"name": "location", "type": "number", "optional": true}, {"name": "commands", "type": "object", "optional": true}], []);
 inspectorBackend.registerCommand("Input.insertText", [{"name": "text", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("Input.imeSetComposition", [{"name": "text", "type": "string", "optional": false}, {"name": "selectionStart", "type": "number", "optional": false}, {"name": "selectionEnd", "type": "number", "optional": false}, {"name": "replacementStart", "type": "number", "optional": true}, {"name": "replacementEnd", "type": "number", "optional": true}], []);
 inspectorBackend.registerEnum("Input.DispatchMouseEventRequestType", {MousePressed: "mousePressed", MouseReleased: "mouseReleased", MouseMoved: "mouseMoved", MouseWheel: "mouseWheel"});
 inspectorBackend.registerEnum("Input.DispatchMouseEventRequestPointerType", {Mouse: "mouse", Pen: "pen"});
-inspectorBackend.registerCommand("Input.dispatchMouseEvent", [{"name": "type", "type": "string", "optional": false}, {"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "modifiers", "type": "number", "optional": true}, {"name": "timestamp", "type": "number", "optional": true}, {"name": "button", "type": "string", "optional": true}, {"name": "buttons", "type": "number", "optional": true}, {"name": "clickCount", "type": "number", "optional": true}, {"name": "force", "type": "number", "optional": true}, {"name": "tangentialPressure", "type": "number", "optional": true}, {"name": "tiltX", "type": "number", "optional": true}, {"name": "tiltY", "type": "number", "optional": true}, {"name": "twist", "type": "number", "optional": true}, {"name": "deltaX", "type": "number", "optional": true}, {"name": "deltaY", "type": "number", "optional": true}, {"name": "pointerType", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Input.dispatchMouseEvent", [{"name": "type", "type": "string", "optional": false, "typeRef": "Input.DispatchMouseEventRequestType"}, {"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "modifiers", "type": "number", "optional": true}, {"name": "timestamp", "type": "number", "optional": true, "typeRef": "Input.TimeSinceEpoch"}, {"name": "button", "type": "string", "optional": true, "typeRef": "Input.MouseButton"}, {"name": "buttons", "type": "number", "optional": true}, {"name": "clickCount", "type": "number", "optional": true}, {"name": "force", "type": "number", "optional": true}, {"name": "tangentialPressure", "type": "number", "optional": true}, {"name": "tiltX", "type": "number", "optional": true}, {"name": "tiltY", "type": "number", "optional": true}, {"name": "twist", "type": "number", "optional": true}, {"name": "deltaX", "type": "number", "optional": true}, {"name": "deltaY", "type": "number", "optional": true}, {"name": "pointerType", "type": "string", "optional": true, "typeRef": "Input.DispatchMouseEventRequestPointerType"}], []);
 inspectorBackend.registerEnum("Input.DispatchTouchEventRequestType", {TouchStart: "touchStart", TouchEnd: "touchEnd", TouchMove: "touchMove", TouchCancel: "touchCancel"});
-inspectorBackend.registerCommand("Input.dispatchTouchEvent", [{"name": "type", "type": "string", "optional": false}, {"name": "touchPoints", "type": "object", "optional": false}, {"name": "modifiers", "type": "number", "optional": true}, {"name": "timestamp", "type": "number", "optional": true}], []);
+inspectorBackend.registerCommand("Input.dispatchTouchEvent", [{"name": "type", "type": "string", "optional": false, "typeRef": "Input.DispatchTouchEventRequestType"}, {"name": "touchPoints", "type": "object", "optional": false}, {"name": "modifiers", "type": "number", "optional": true}, {"name": "timestamp", "type": "number", "optional": true, "typeRef": "Input.TimeSinceEpoch"}], []);
 inspectorBackend.registerEnum("Input.EmulateTouchFromMouseEventRequestType", {MousePressed: "mousePressed", MouseReleased: "mouseReleased", MouseMoved: "mouseMoved", MouseWheel: "mouseWheel"});
-inspectorBackend.registerCommand("Input.emulateTouchFromMouseEvent", [{"name": "type", "type": "string", "optional": false}, {"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "button", "type": "string", "optional": false}, {"name": "timestamp", "type": "number", "optional": true}, {"name": "deltaX", "type": "number", "optional": true}, {"name": "deltaY", "type": "number", "optional": true}, {"name": "modifiers", "type": "number", "optional": true}, {"name": "clickCount", "type": "number", "optional": true}], []);
+inspectorBackend.registerCommand("Input.emulateTouchFromMouseEvent", [{"name": "type", "type": "string", "optional": false, "typeRef": "Input.EmulateTouchFromMouseEventRequestType"}, {"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "button", "type": "string", "optional": false, "typeRef": "Input.MouseButton"}, {"name": "timestamp", "type": "number", "optional": true, "typeRef": "Input.TimeSinceEpoch"}, {"name": "deltaX", "type": "number", "optional": true}, {"name": "deltaY", "type": "number", "optional": true}, {"name": "modifiers", "type": "number", "optional": true}, {"name": "clickCount", "type": "number", "optional": true}], []);
 inspectorBackend.registerCommand("Input.setIgnoreInputEvents", [{"name": "ignore", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Input.setInterceptDrags", [{"name": "enabled", "type": "boolean", "optional": false}], []);
-inspectorBackend.registerCommand("Input.synthesizePinchGesture", [{"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "scaleFactor", "type": "number", "optional": false}, {"name": "relativeSpeed", "type": "number", "optional": true}, {"name": "gestureSourceType", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Input.synthesizeScrollGesture", [{"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "xDistance", "type": "number", "optional": true}, {"name": "yDistance", "type": "number", "optional": true}, {"name": "xOverscroll", "type": "number", "optional": true}, {"name": "yOverscroll", "type": "number", "optional": true}, {"name": "preventFling", "type": "boolean", "optional": true}, {"name": "speed", "type": "number", "optional": true}, {"name": "gestureSourceType", "type": "string", "optional": true}, {"name": "repeatCount", "type": "number", "optional": true}, {"name": "repeatDelayMs", "type": "number", "optional": true}, {"name": "interactionMarkerName", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Input.synthesizeTapGesture", [{"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "duration", "type": "number", "optional": true}, {"name": "tapCount", "type": "number", "optional": true}, {"name": "gestureSourceType", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Input.synthesizePinchGesture", [{"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "scaleFactor", "type": "number", "optional": false}, {"name": "relativeSpeed", "type": "number", "optional": true}, {"name": "gestureSourceType", "type": "string", "optional": true, "typeRef": "Input.GestureSourceType"}], []);
+inspectorBackend.registerCommand("Input.synthesizeScrollGesture", [{"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "xDistance", "type": "number", "optional": true}, {"name": "yDistance", "type": "number", "optional": true}, {"name": "xOverscroll", "type": "number", "optional": true}, {"name": "yOverscroll", "type": "number", "optional": true}, {"name": "preventFling", "type": "boolean", "optional": true}, {"name": "speed", "type": "number", "optional": true}, {"name": "gestureSourceType", "type": "string", "optional": true, "typeRef": "Input.GestureSourceType"}, {"name": "repeatCount", "type": "number", "optional": true}, {"name": "repeatDelayMs", "type": "number", "optional": true}, {"name": "interactionMarkerName", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Input.synthesizeTapGesture", [{"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "duration", "type": "number", "optional": true}, {"name": "tapCount", "type": "number", "optional": true}, {"name": "gestureSourceType", "type": "string", "optional": true, "typeRef": "Input.GestureSourceType"}], []);
 
 // Inspector.
 inspectorBackend.registerEvent("Inspector.detached", ["reason"]);
@@ -383,15 +383,15 @@ inspectorBackend.registerCommand("Inspector.enable", [], []);
 inspectorBackend.registerEnum("LayerTree.ScrollRectType", {RepaintsOnScroll: "RepaintsOnScroll", TouchEventHandler: "TouchEventHandler", WheelEventHandler: "WheelEventHandler"});
 inspectorBackend.registerEvent("LayerTree.layerPainted", ["layerId", "clip"]);
 inspectorBackend.registerEvent("LayerTree.layerTreeDidChange", ["layers"]);
-inspectorBackend.registerCommand("LayerTree.compositingReasons", [{"name": "layerId", "type": "string", "optional": false}], ["compositingReasons", "compositingReasonIds"]);
+inspectorBackend.registerCommand("LayerTree.compositingReasons", [{"name": "layerId", "type": "string", "optional": false, "typeRef": "LayerTree.LayerId"}], ["compositingReasons", "compositingReasonIds"]);
 inspectorBackend.registerCommand("LayerTree.disable", [], []);
 inspectorBackend.registerCommand("LayerTree.enable", [], []);
 inspectorBackend.registerCommand("LayerTree.loadSnapshot", [{"name": "tiles", "type": "object", "optional": false}], ["snapshotId"]);
-inspectorBackend.registerCommand("LayerTree.makeSnapshot", [{"name": "layerId", "type": "string", "optional": false}], ["snapshotId"]);
-inspectorBackend.registerCommand("LayerTree.profileSnapshot", [{"name": "snapshotId", "type": "string", "optional": false}, {"name": "minRepeatCount", "type": "number", "optional": true}, {"name": "minDuration", "type": "number", "optional": true}, {"name": "clipRect", "type": "object", "optional": true}], ["timings"]);
-inspectorBackend.registerCommand("LayerTree.releaseSnapshot", [{"name": "snapshotId", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("LayerTree.replaySnapshot", [{"name": "snapshotId", "type": "string", "optional": false}, {"name": "fromStep", "type": "number", "optional": true}, {"name": "toStep", "type": "number", "optional": true}, {"name": "scale", "type": "number", "optional": true}], ["dataURL"]);
-inspectorBackend.registerCommand("LayerTree.snapshotCommandLog", [{"name": "snapshotId", "type": "string", "optional": false}], ["commandLog"]);
+inspectorBackend.registerCommand("LayerTree.makeSnapshot", [{"name": "layerId", "type": "string", "optional": false, "typeRef": "LayerTree.LayerId"}], ["snapshotId"]);
+inspectorBackend.registerCommand("LayerTree.profileSnapshot", [{"name": "snapshotId", "type": "string", "optional": false, "typeRef": "LayerTree.SnapshotId"}, {"name": "minRepeatCount", "type": "number", "optional": true}, {"name": "minDuration", "type": "number", "optional": true}, {"name": "clipRect", "type": "object", "optional": true, "typeRef": "DOM.Rect"}], ["timings"]);
+inspectorBackend.registerCommand("LayerTree.releaseSnapshot", [{"name": "snapshotId", "type": "string", "optional": false, "typeRef": "LayerTree.SnapshotId"}], []);
+inspectorBackend.registerCommand("LayerTree.replaySnapshot", [{"name": "snapshotId", "type": "string", "optional": false, "typeRef": "LayerTree.SnapshotId"}, {"name": "fromStep", "type": "number", "optional": true}, {"name": "toStep", "type": "number", "optional": true}, {"name": "scale", "type": "number", "optional": true}], ["dataURL"]);
+inspectorBackend.registerCommand("LayerTree.snapshotCommandLog", [{"name": "snapshotId", "type": "string", "optional": false, "typeRef": "LayerTree.SnapshotId"}], ["commandLog"]);
 
 // Log.
 inspectorBackend.registerEnum("Log.LogEntrySource", {XML: "xml", Javascript: "javascript", Network: "network", Storage: "storage", Appcache: "appcache", Rendering: "rendering", Security: "security", Deprecation: "deprecation", Worker: "worker", Violation: "violation", Intervention: "intervention", Recommendation: "recommendation", Other: "other"});
@@ -411,7 +411,7 @@ inspectorBackend.registerCommand("Memory.getDOMCounters", [], ["documents", "nod
 inspectorBackend.registerCommand("Memory.prepareForLeakDetection", [], []);
 inspectorBackend.registerCommand("Memory.forciblyPurgeJavaScriptMemory", [], []);
 inspectorBackend.registerCommand("Memory.setPressureNotificationsSuppressed", [{"name": "suppressed", "type": "boolean", "optional": false}], []);
-inspectorBackend.registerCommand("Memory.simulatePressureNotification", [{"name": "level", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Memory.simulatePressureNotification", [{"name": "level", "type": "string", "optional": false, "typeRef": "Memory.PressureLevel"}], []);
 inspectorBackend.registerCommand("Memory.startSampling", [{"name": "samplingInterval", "type": "number", "optional": true}, {"name": "suppressRandomness", "type": "boolean", "optional": true}], []);
 inspectorBackend.registerCommand("Memory.stopSampling", [], []);
 inspectorBackend.registerCommand("Memory.getAllTimeSamplingProfile", [], ["profile"]);
@@ -485,32 +485,32 @@ inspectorBackend.registerCommand("Network.canClearBrowserCookies", [], ["result"
 inspectorBackend.registerCommand("Network.canEmulateNetworkConditions", [], ["result"]);
 inspectorBackend.registerCommand("Network.clearBrowserCache", [], []);
 inspectorBackend.registerCommand("Network.clearBrowserCookies", [], []);
-inspectorBackend.registerCommand("Network.continueInterceptedRequest", [{"name": "interceptionId", "type": "string", "optional": false}, {"name": "errorReason", "type": "string", "optional": true}, {"name": "rawResponse", "type": "string", "optional": true}, {"name": "url", "type": "string", "optional": true}, {"name": "method", "type": "string", "optional": true}, {"name": "postData", "type": "string", "optional": true}, {"name": "headers", "type": "object", "optional": true}, {"name": "authChallengeResponse", "type": "object", "optional": true}], []);
+inspectorBackend.registerCommand("Network.continueInterceptedRequest", [{"name": "interceptionId", "type": "string", "optional": false, "typeRef": "Network.InterceptionId"}, {"name": "errorReason", "type": "string", "optional": true, "typeRef": "Network.ErrorReason"}, {"name": "rawResponse", "type": "string", "optional": true}, {"name": "url", "type": "string", "optional": true}, {"name": "method", "type": "string", "optional": true}, {"name": "postData", "type": "string", "optional": true}, {"name": "headers", "type": "object", "optional": true, "typeRef": "Network.Headers"}, {"name": "authChallengeResponse", "type": "object", "optional": true, "typeRef": "Network.AuthChallengeResponse"}], []);
 inspectorBackend.registerCommand("Network.deleteCookies", [{"name": "name", "type": "string", "optional": false}, {"name": "url", "type": "string", "optional": true}, {"name": "domain", "type": "string", "optional": true}, {"name": "path", "type": "string", "optional": true}], []);
 inspectorBackend.registerCommand("Network.disable", [], []);
-inspectorBackend.registerCommand("Network.emulateNetworkConditions", [{"name": "offline", "type": "boolean", "optional": false}, {"name": "latency", "type": "number", "optional": false}, {"name": "downloadThroughput", "type": "number", "optional": false}, {"name": "uploadThroughput", "type": "number", "optional": false}, {"name": "connectionType", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Network.emulateNetworkConditions", [{"name": "offline", "type": "boolean", "optional": false}, {"name": "latency", "type": "number", "optional": false}, {"name": "downloadThroughput", "type": "number", "optional": false}, {"name": "uploadThroughput", "type": "number", "optional": false}, {"name": "connectionType", "type": "string", "optional": true, "typeRef": "Network.ConnectionType"}], []);
 inspectorBackend.registerCommand("Network.enable", [{"name": "maxTotalBufferSize", "type": "number", "optional": true}, {"name": "maxResourceBufferSize", "type": "number", "optional": true}, {"name": "maxPostDataSize", "type": "number", "optional": true}], []);
 inspectorBackend.registerCommand("Network.getAllCookies", [], ["cookies"]);
 inspectorBackend.registerCommand("Network.getCertificate", [{"name": "origin", "type": "string", "optional": false}], ["tableNames"]);
 inspectorBackend.registerCommand("Network.getCookies", [{"name": "urls", "type": "object", "optional": true}], ["cookies"]);
-inspectorBackend.registerCommand("Network.getResponseBody", [{"name": "requestId", "type": "string", "optional": false}], ["body", "base64Encoded"]);
-inspectorBackend.registerCommand("Network.getRequestPostData", [{"name": "requestId", "type": "string", "optional": false}], ["postData"]);
-inspectorBackend.registerCommand("Network.getResponseBodyForInterception", [{"name": "interceptionId", "type": "string", "optional": false}], ["body", "base64Encoded"]);
-inspectorBackend.registerCommand("Network.takeResponseBodyForInterceptionAsStream", [{"name": "interceptionId", "type": "string", "optional": false}], ["stream"]);
-inspectorBackend.registerCommand("Network.replayXHR", [{"name": "requestId", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("Network.searchInResponseBody", [{"name": "requestId", "type": "string", "optional": false}, {"name": "query", "type": "string", "optional": false}, {"name": "caseSensitive", "type": "boolean", "optional": true}, {"name": "isRegex", "type": "boolean", "optional": true}], ["result"]);
+inspectorBackend.registerCommand("Network.getResponseBody", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Network.RequestId"}], ["body", "base64Encoded"]);
+inspectorBackend.registerCommand("Network.getRequestPostData", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Network.RequestId"}], ["postData"]);
+inspectorBackend.registerCommand("Network.getResponseBodyForInterception", [{"name": "interceptionId", "type": "string", "optional": false, "typeRef": "Network.InterceptionId"}], ["body", "base64Encoded"]);
+inspectorBackend.registerCommand("Network.takeResponseBodyForInterceptionAsStream", [{"name": "interceptionId", "type": "string", "optional": false, "typeRef": "Network.InterceptionId"}], ["stream"]);
+inspectorBackend.registerCommand("Network.replayXHR", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Network.RequestId"}], []);
+inspectorBackend.registerCommand("Network.searchInResponseBody", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Network.RequestId"}, {"name": "query", "type": "string", "optional": false}, {"name": "caseSensitive", "type": "boolean", "optional": true}, {"name": "isRegex", "type": "boolean", "optional": true}], ["result"]);
 inspectorBackend.registerCommand("Network.setBlockedURLs", [{"name": "urls", "type": "object", "optional": false}], []);
 inspectorBackend.registerCommand("Network.setBypassServiceWorker", [{"name": "bypass", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Network.setCacheDisabled", [{"name": "cacheDisabled", "type": "boolean", "optional": false}], []);
-inspectorBackend.registerCommand("Network.setCookie", [{"name": "name", "type": "string", "optional": false}, {"name": "value", "type": "string", "optional": false}, {"name": "url", "type": "string", "optional": true}, {"name": "domain", "type": "string", "optional": true}, {"name": "path", "type": "string", "optional": true}, {"name": "secure", "type": "boolean", "optional": true}, {"name": "httpOnly", "type": "boolean", "optional": true}, {"name": "sameSite", "type": "string", "optional": true}, {"name": "expires", "type": "number", "optional": true}, {"name": "priority", "type": "string", "optional": true}, {"name": "sameParty", "type": "boolean", "optional": true}, {"name": "sourceScheme", "type": "string", "optional": true}, {"name": "sourcePort", "type": "number", "optional": true}, {"name": "partitionKey", "type": "string", "optional": true}], ["success"]);
+inspectorBackend.registerCommand("Network.setCookie", [{"name": "name", "type": "string", "optional": false}, {"name": "value", "type": "string", "optional": false}, {"name": "url", "type": "string", "optional": true}, {"name": "domain", "type": "string", "optional": true}, {"name": "path", "type": "string", "optional": true}, {"name": "secure", "type": "boolean", "optional": true}, {"name": "httpOnly", "type": "boolean", "optional": true}, {"name": "sameSite", "type": "string", "optional": true, "typeRef": "Network.CookieSameSite"}, {"name": "expires", "type": "number", "optional": true, "typeRef": "Network.TimeSinceEpoch"}, {"name": "priority", "type": "string", "optional": true, "typeRef": "Network.CookiePriority"}, {"name": "sameParty", "type": "boolean", "optional": true}, {"name": "sourceScheme", "type": "string", "optional": true, "typeRef": "Network.CookieSourceScheme"}, {"name": "sourcePort", "type": "number", "optional": true}, {"name": "partitionKey", "type": "string", "optional": true}], ["success"]);
 inspectorBackend.registerCommand("Network.setCookies", [{"name": "cookies", "type": "object", "optional": false}], []);
-inspectorBackend.registerCommand("Network.setExtraHTTPHeaders", [{"name": "headers", "type": "object", "optional": false}], []);
+inspectorBackend.registerCommand("Network.setExtraHTTPHeaders", [{"name": "headers", "type": "object", "optional": false, "typeRef": "Network.Headers"}], []);
 inspectorBackend.registerCommand("Network.setAttachDebugStack", [{"name": "enabled", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Network.setRequestInterception", [{"name": "patterns", "type": "object", "optional": false}], []);
-inspectorBackend.registerCommand("Network.setUserAgentOverride", [{"name": "userAgent", "type": "string", "optional": false}, {"name": "acceptLanguage", "type": "string", "optional": true}, {"name": "platform", "type": "string", "optional": true}, {"name": "userAgentMetadata", "type": "object", "optional": true}], []);
-inspectorBackend.registerCommand("Network.getSecurityIsolationStatus", [{"name": "frameId", "type": "string", "optional": true}], ["status"]);
+inspectorBackend.registerCommand("Network.setUserAgentOverride", [{"name": "userAgent", "type": "string", "optional": false}, {"name": "acceptLanguage", "type": "string", "optional": true}, {"name": "platform", "type": "string", "optional": true}, {"name": "userAgentMetadata", "type": "object", "optional": true, "typeRef": "Emulation.UserAgentMetadata"}], []);
+inspectorBackend.registerCommand("Network.getSecurityIsolationStatus", [{"name": "frameId", "type": "string", "optional": true, "typeRef": "Page.FrameId"}], ["status"]);
 inspectorBackend.registerCommand("Network.enableReportingApi", [{"name": "enable", "type": "boolean", "optional": false}], []);
-inspectorBackend.registerCommand("Network.loadNetworkResource", [{"name": "frameId", "type": "string", "optional": true}, {"name": "url", "type": "string", "optional": false}, {"name": "options", "type": "object", "optional": false}], ["resource"]);
+inspectorBackend.registerCommand("Network.loadNetworkResource", [{"name": "frameId", "type": "string", "optional": true, "typeRef": "Page.FrameId"}, {"name": "url", "type": "string", "optional": false}, {"name": "options", "type": "object", "optional": false, "typeRef": "Network.LoadNetworkResourceOptions"}], ["resource"]);
 
 // Overlay.
 inspectorBackend.registerEnum("Overlay.LineStylePattern", {Dashed: "dashed", Dotted: "dotted"});
@@ -523,16 +523,16 @@ inspectorBackend.registerEvent("Overlay.screenshotRequested", ["viewport"]);
 inspectorBackend.registerEvent("Overlay.inspectModeCanceled", []);
 inspectorBackend.registerCommand("Overlay.disable", [], []);
 inspectorBackend.registerCommand("Overlay.enable", [], []);
-inspectorBackend.registerCommand("Overlay.getHighlightObjectForTest", [{"name": "nodeId", "type": "number", "optional": false}, {"name": "includeDistance", "type": "boolean", "optional": true}, {"name": "includeStyle", "type": "boolean", "optional": true}, {"name": "colorFormat", "type": "string", "optional": true}, {"name": "showAccessibilityInfo", "type": "boolean", "optional": true}], ["highlight"]);
+inspectorBackend.registerCommand("Overlay.getHighlightObjectForTest", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}, {"name": "includeDistance", "type": "boolean", "optional": true}, {"name": "includeStyle", "type": "boolean", "optional": true}, {"name": "colorFormat", "type": "string", "optional": true, "typeRef": "Overlay.ColorFormat"}, {"name": "showAccessibilityInfo", "type": "boolean", "optional": true}], ["highlight"]);
 inspectorBackend.registerCommand("Overlay.getGridHighlightObjectsForTest", [{"name": "nodeIds", "type": "object", "optional": false}], ["highlights"]);
-inspectorBackend.registerCommand("Overlay.getSourceOrderHighlightObjectForTest", [{"name": "nodeId", "type": "number", "optional": false}], ["highlight"]);
+inspectorBackend.registerCommand("Overlay.getSourceOrderHighlightObjectForTest", [{"name": "nodeId", "type": "number", "optional": false, "typeRef": "DOM.NodeId"}], ["highlight"]);
 inspectorBackend.registerCommand("Overlay.hideHighlight", [], []);
-inspectorBackend.registerCommand("Overlay.highlightFrame", [{"name": "frameId", "type": "string", "optional": false}, {"name": "contentColor", "type": "object", "optional": true}, {"name": "contentOutlineColor", "type": "object", "optional": true}], []);
-inspectorBackend.registerCommand("Overlay.highlightNode", [{"name": "highlightConfig", "type": "object", "optional": false}, {"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}, {"name": "selector", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Overlay.highlightQuad", [{"name": "quad", "type": "object", "optional": false}, {"name": "color", "type": "object", "optional": true}, {"name": "outlineColor", "type": "object", "optional": true}], []);
-inspectorBackend.registerCommand("Overlay.highlightRect", [{"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "width", "type": "number", "optional": false}, {"name": "height", "type": "number", "optional": false}, {"name": "color", "type": "object", "optional": true}, {"name": "outlineColor", "type": "object", "optional": true}], []);
-inspectorBackend.registerCommand("Overlay.highlightSourceOrder", [{"name": "sourceOrderConfig", "type": "object", "optional": false}, {"name": "nodeId", "type": "number", "optional": true}, {"name": "backendNodeId", "type": "number", "optional": true}, {"name": "objectId", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Overlay.setInspectMode", [{"name": "mode", "type": "string", "optional": false}, {"name": "highlightConfig", "type": "object", "optional": true}], []);
+inspectorBackend.registerCommand("Overlay.highlightFrame", [{"name": "frameId", "type": "string", "optional": false, "typeRef": "Page.FrameId"}, {"name": "contentColor", "type": "object", "optional": true, "typeRef": "DOM.RGBA"}, {"name": "contentOutlineColor", "type": "object", "optional": true, "typeRef": "DOM.RGBA"}], []);
+inspectorBackend.registerCommand("Overlay.highlightNode", [{"name": "highlightConfig", "type": "object", "optional": false, "typeRef": "Overlay.HighlightConfig"}, {"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}, {"name": "selector", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Overlay.highlightQuad", [{"name": "quad", "type": "object", "optional": false, "typeRef": "DOM.Quad"}, {"name": "color", "type": "object", "optional": true, "typeRef": "DOM.RGBA"}, {"name": "outlineColor", "type": "object", "optional": true, "typeRef": "DOM.RGBA"}], []);
+inspectorBackend.registerCommand("Overlay.highlightRect", [{"name": "x", "type": "number", "optional": false}, {"name": "y", "type": "number", "optional": false}, {"name": "width", "type": "number", "optional": false}, {"name": "height", "type": "number", "optional": false}, {"name": "color", "type": "object", "optional": true, "typeRef": "DOM.RGBA"}, {"name": "outlineColor", "type": "object", "optional": true, "typeRef": "DOM.RGBA"}], []);
+inspectorBackend.registerCommand("Overlay.highlightSourceOrder", [{"name": "sourceOrderConfig", "type": "object", "optional": false, "typeRef": "Overlay.SourceOrderConfig"}, {"name": "nodeId", "type": "number", "optional": true, "typeRef": "DOM.NodeId"}, {"name": "backendNodeId", "type": "number", "optional": true, "typeRef": "DOM.BackendNodeId"}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}], []);
+inspectorBackend.registerCommand("Overlay.setInspectMode", [{"name": "mode", "type": "string", "optional": false, "typeRef": "Overlay.InspectMode"}, {"name": "highlightConfig", "type": "object", "optional": true, "typeRef": "Overlay.HighlightConfig"}], []);
 inspectorBackend.registerCommand("Overlay.setShowAdHighlights", [{"name": "show", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Overlay.setPausedInDebuggerMessage", [{"name": "message", "type": "string", "optional": true}], []);
 inspectorBackend.registerCommand("Overlay.setShowDebugBorders", [{"name": "show", "type": "boolean", "optional": false}], []);
@@ -547,7 +547,7 @@ inspectorBackend.registerCommand("Overlay.setShowScrollBottleneckRects", [{"name
 inspectorBackend.registerCommand("Overlay.setShowHitTestBorders", [{"name": "show", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Overlay.setShowWebVitals", [{"name": "show", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Overlay.setShowViewportSizeOnResize", [{"name": "show", "type": "boolean", "optional": false}], []);
-inspectorBackend.registerCommand("Overlay.setShowHinge", [{"name": "hingeConfig", "type": "object", "optional": true}], []);
+inspectorBackend.registerCommand("Overlay.setShowHinge", [{"name": "hingeConfig", "type": "object", "optional": true, "typeRef": "Overlay.HingeConfig"}], []);
 inspectorBackend.registerCommand("Overlay.setShowIsolatedElements", [{"name": "isolatedElementHighlightConfigs", "type": "object", "optional": false}], []);
 
 // Page.
@@ -604,13 +604,13 @@ inspectorBackend.registerCommand("Page.addScriptToEvaluateOnLoad", [{"name": "sc
 inspectorBackend.registerCommand("Page.addScriptToEvaluateOnNewDocument", [{"name": "source", "type": "string", "optional": false}, {"name": "worldName", "type": "string", "optional": true}, {"name": "includeCommandLineAPI", "type": "boolean", "optional": true}], ["identifier"]);
 inspectorBackend.registerCommand("Page.bringToFront", [], []);
 inspectorBackend.registerEnum("Page.CaptureScreenshotRequestFormat", {Jpeg: "jpeg", Png: "png", Webp: "webp"});
-inspectorBackend.registerCommand("Page.captureScreenshot", [{"name": "format", "type": "string", "optional": true}, {"name": "quality", "type": "number", "optional": true}, {"name": "clip", "type": "object", "optional": true}, {"name": "fromSurface", "type": "boolean", "optional": true}, {"name": "captureBeyondViewport", "type": "boolean", "optional": true}, {"name": "optimizeForSpeed", "type": "boolean", "optional": true}], ["data"]);
+inspectorBackend.registerCommand("Page.captureScreenshot", [{"name": "format", "type": "string", "optional": true, "typeRef": "Page.CaptureScreenshotRequestFormat"}, {"name": "quality", "type": "number", "optional": true}, {"name": "clip", "type": "object", "optional": true, "typeRef": "Page.Viewport"}, {"name": "fromSurface", "type": "boolean", "optional": true}, {"name": "captureBeyondViewport", "type": "boolean", "optional": true}, {"name": "optimizeForSpeed", "type": "boolean", "optional": true}], ["data"]);
 inspectorBackend.registerEnum("Page.CaptureSnapshotRequestFormat", {MHTML: "mhtml"});
-inspectorBackend.registerCommand("Page.captureSnapshot", [{"name": "format", "type": "string", "optional": true}], ["data"]);
+inspectorBackend.registerCommand("Page.captureSnapshot", [{"name": "format", "type": "string", "optional": true, "typeRef": "Page.CaptureSnapshotRequestFormat"}], ["data"]);
 inspectorBackend.registerCommand("Page.clearDeviceMetricsOverride", [], []);
 inspectorBackend.registerCommand("Page.clearDeviceOrientationOverride", [], []);
 inspectorBackend.registerCommand("Page.clearGeolocationOverride", [], []);
-inspectorBackend.registerCommand("Page.createIsolatedWorld", [{"name": "frameId", "type": "string", "optional": false}, {"name": "worldName", "type": "string", "optional": true}, {"name": "grantUniveralAccess", "type": "boolean", "optional": true}], ["executionContextId"]);
+inspectorBackend.registerCommand("Page.createIsolatedWorld", [{"name": "frameId", "type": "string", "optional": false, "typeRef": "Page.FrameId"}, {"name": "worldName", "type": "string", "optional": true}, {"name": "grantUniveralAccess", "type": "boolean", "optional": true}], ["executionContextId"]);
 inspectorBackend.registerCommand("Page.deleteCookie", [{"name": "cookieName", "type": "string", "optional": false}, {"name": "url", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("Page.disable", [], []);
 inspectorBackend.registerCommand("Page.enable", [], []);
@@ -618,52 +618,52 @@ inspectorBackend.registerCommand("Page.getAppManifest", [], ["url", "errors", "d
 inspectorBackend.registerCommand("Page.getInstallabilityErrors", [], ["installabilityErrors"]);
 inspectorBackend.registerCommand("Page.getManifestIcons", [], ["primaryIcon"]);
 inspectorBackend.registerCommand("Page.getAppId", [], ["appId", "recommendedId"]);
-inspectorBackend.registerCommand("Page.getAdScriptId", [{"name": "frameId", "type": "string", "optional": false}], ["adScriptId"]);
+inspectorBackend.registerCommand("Page.getAdScriptId", [{"name": "frameId", "type": "string", "optional": false, "typeRef": "Page.FrameId"}], ["adScriptId"]);
 inspectorBackend.registerCommand("Page.getCookies", [], ["cookies"]);
 inspectorBackend.registerCommand("Page.getFrameTree", [], ["frameTree"]);
 inspectorBackend.registerCommand("Page.getLayoutMetrics", [], ["layoutViewport", "visualViewport", "contentSize", "cssLayoutViewport", "cssVisualViewport", "cssContentSize"]);
 inspectorBackend.registerCommand("Page.getNavigationHistory", [], ["currentIndex", "entries"]);
 inspectorBackend.registerCommand("Page.resetNavigationHistory", [], []);
-inspectorBackend.registerCommand("Page.getResourceContent", [{"name": "frameId", "type": "string", "optional": false}, {"name": "url", "type": "string", "optional": false}], ["content", "base64Encoded"]);
+inspectorBackend.registerCommand("Page.getResourceContent", [{"name": "frameId", "type": "string", "optional": false, "typeRef": "Page.FrameId"}, {"name": "url", "type": "string", "optional": false}], ["content", "base64Encoded"]);
 inspectorBackend.registerCommand("Page.getResourceTree", [], ["frameTree"]);
 inspectorBackend.registerCommand("Page.handleJavaScriptDialog", [{"name": "accept", "type": "boolean", "optional": false}, {"name": "promptText", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Page.navigate", [{"name": "url", "type": "string", "optional": false}, {"name": "referrer", "type": "string", "optional": true}, {"name": "transitionType", "type": "string", "optional": true}, {"name": "frameId", "type": "string", "optional": true}, {"name": "referrerPolicy", "type": "string", "optional": true}], ["frameId", "loaderId", "errorText"]);
+inspectorBackend.registerCommand("Page.navigate", [{"name": "url", "type": "string", "optional": false}, {"name": "referrer", "type": "string", "optional": true}, {"name": "transitionType", "type": "string", "optional": true, "typeRef": "Page.TransitionType"}, {"name": "frameId", "type": "string", "optional": true, "typeRef": "Page.FrameId"}, {"name": "referrerPolicy", "type": "string", "optional": true, "typeRef": "Page.ReferrerPolicy"}], ["frameId", "loaderId", "errorText"]);
 inspectorBackend.registerCommand("Page.navigateToHistoryEntry", [{"name": "entryId", "type": "number", "optional": false}], []);
 inspectorBackend.registerEnum("Page.PrintToPDFRequestTransferMode", {ReturnAsBase64: "ReturnAsBase64", ReturnAsStream: "ReturnAsStream"});
-inspectorBackend.registerCommand("Page.printToPDF", [{"name": "landscape", "type": "boolean", "optional": true}, {"name": "displayHeaderFooter", "type": "boolean", "optional": true}, {"name": "printBackground", "type": "boolean", "optional": true}, {"name": "scale", "type": "number", "optional": true}, {"name": "paperWidth", "type": "number", "optional": true}, {"name": "paperHeight", "type": "number", "optional": true}, {"name": "marginTop", "type": "number", "optional": true}, {"name": "marginBottom", "type": "number", "optional": true}, {"name": "marginLeft", "type": "number", "optional": true}, {"name": "marginRight", "type": "number", "optional": true}, {"name": "pageRanges", "type": "string", "optional": true}, {"name": "headerTemplate", "type": "string", "optional": true}, {"name": "footerTemplate", "type": "string", "optional": true}, {"name": "preferCSSPageSize", "type": "boolean", "optional": true}, {"name": "transferMode", "type": "string", "optional": true}], ["data", "stream"]);
+inspectorBackend.registerCommand("Page.printToPDF", [{"name": "landscape", "type": "boolean", "optional": true}, {"name": "displayHeaderFooter", "type": "boolean", "optional": true}, {"name": "printBackground", "type": "boolean", "optional": true}, {"name": "scale", "type": "number", "optional": true}, {"name": "paperWidth", "type": "number", "optional": true}, {"name": "paperHeight", "type": "number", "optional": true}, {"name": "marginTop", "type": "number", "optional": true}, {"name": "marginBottom", "type": "number", "optional": true}, {"name": "marginLeft", "type": "number", "optional": true}, {"name": "marginRight", "type": "number", "optional": true}, {"name": "pageRanges", "type": "string", "optional": true}, {"name": "headerTemplate", "type": "string", "optional": true}, {"name": "footerTemplate", "type": "string", "optional": true}, {"name": "preferCSSPageSize", "type": "boolean", "optional": true}, {"name": "transferMode", "type": "string", "optional": true, "typeRef": "Page.PrintToPDFRequestTransferMode"}], ["data", "stream"]);
 inspectorBackend.registerCommand("Page.reload", [{"name": "ignoreCache", "type": "boolean", "optional": true}, {"name": "scriptToEvaluateOnLoad", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Page.removeScriptToEvaluateOnLoad", [{"name": "identifier", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("Page.removeScriptToEvaluateOnNewDocument", [{"name": "identifier", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Page.removeScriptToEvaluateOnLoad", [{"name": "identifier", "type": "string", "optional": false, "typeRef": "Page.ScriptIdentifier"}], []);
+inspectorBackend.registerCommand("Page.removeScriptToEvaluateOnNewDocument", [{"name": "identifier", "type": "string", "optional": false, "typeRef": "Page.ScriptIdentifier"}], []);
 inspectorBackend.registerCommand("Page.screencastFrameAck", [{"name": "sessionId", "type": "number", "optional": false}], []);
-inspectorBackend.registerCommand("Page.searchInResource", [{"name": "frameId", "type": "string", "optional": false}, {"name": "url", "type": "string", "optional": false}, {"name": "query", "type": "string", "optional": false}, {"name": "caseSensitive", "type": "boolean", "optional": true}, {"name": "isRegex", "type": "boolean", "optional": true}], ["result"]);
+inspectorBackend.registerCommand("Page.searchInResource", [{"name": "frameId", "type": "string", "optional": false, "typeRef": "Page.FrameId"}, {"name": "url", "type": "string", "optional": false}, {"name": "query", "type": "string", "optional": false}, {"name": "caseSensitive", "type": "boolean", "optional": true}, {"name": "isRegex", "type": "boolean", "optional": true}], ["result"]);
 inspectorBackend.registerCommand("Page.setAdBlockingEnabled", [{"name": "enabled", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Page.setBypassCSP", [{"name": "enabled", "type": "boolean", "optional": false}], []);
-inspectorBackend.registerCommand("Page.getPermissionsPolicyState", [{"name": "frameId", "type": "string", "optional": false}], ["states"]);
-inspectorBackend.registerCommand("Page.getOriginTrials", [{"name": "frameId", "type": "string", "optional": false}], ["originTrials"]);
-inspectorBackend.registerCommand("Page.setDeviceMetricsOverride", [{"name": "width", "type": "number", "optional": false}, {"name": "height", "type": "number", "optional": false}, {"name": "deviceScaleFactor", "type": "number", "optional": false}, {"name": "mobile", "type": "boolean", "optional": false}, {"name": "scale", "type": "number", "optional": true}, {"name": "screenWidth", "type": "number", "optional": true}, {"name": "screenHeight", "type": "number", "optional": true}, {"name": "positionX", "type": "number", "optional": true}, {"name": "positionY", "type": "number", "optional": true}, {"name": "dontSetVisibleSize", "type": "boolean", "optional": true}, {"name": "screenOrientation", "type": "object", "optional": true}, {"name": "viewport", "type": "object", "optional": true}], []);
+inspectorBackend.registerCommand("Page.getPermissionsPolicyState", [{"name": "frameId", "type": "string", "optional": false, "typeRef": "Page.FrameId"}], ["states"]);
+inspectorBackend.registerCommand("Page.getOriginTrials", [{"name": "frameId", "type": "string", "optional": false, "typeRef": "Page.FrameId"}], ["originTrials"]);
+inspectorBackend.registerCommand("Page.setDeviceMetricsOverride", [{"name": "width", "type": "number", "optional": false}, {"name": "height", "type": "number", "optional": false}, {"name": "deviceScaleFactor", "type": "number", "optional": false}, {"name": "mobile", "type": "boolean", "optional": false}, {"name": "scale", "type": "number", "optional": true}, {"name": "screenWidth", "type": "number", "optional": true}, {"name": "screenHeight", "type": "number", "optional": true}, {"name": "positionX", "type": "number", "optional": true}, {"name": "positionY", "type": "number", "optional": true}, {"name": "dontSetVisibleSize", "type": "boolean", "optional": true}, {"name": "screenOrientation", "type": "object", "optional": true, "typeRef": "Emulation.ScreenOrientation"}, {"name": "viewport", "type": "object", "optional": true, "typeRef": "Page.Viewport"}], []);
 inspectorBackend.registerCommand("Page.setDeviceOrientationOverride", [{"name": "alpha", "type": "number", "optional": false}, {"name": "beta", "type": "number", "optional": false}, {"name": "gamma", "type": "number", "optional": false}], []);
-inspectorBackend.registerCommand("Page.setFontFamilies", [{"name": "fontFamilies", "type": "object", "optional": false}, {"name": "forScripts", "type": "object", "optional": true}], []);
-inspectorBackend.registerCommand("Page.setFontSizes", [{"name": "fontSizes", "type": "object", "optional": false}], []);
-inspectorBackend.registerCommand("Page.setDocumentContent", [{"name": "frameId", "type": "string", "optional": false}, {"name": "html", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Page.setFontFamilies", [{"name": "fontFamilies", "type": "object", "optional": false, "typeRef": "Page.FontFamilies"}, {"name": "forScripts", "type": "object", "optional": true}], []);
+inspectorBackend.registerCommand("Page.setFontSizes", [{"name": "fontSizes", "type": "object", "optional": false, "typeRef": "Page.FontSizes"}], []);
+inspectorBackend.registerCommand("Page.setDocumentContent", [{"name": "frameId", "type": "string", "optional": false, "typeRef": "Page.FrameId"}, {"name": "html", "type": "string", "optional": false}], []);
 inspectorBackend.registerEnum("Page.SetDownloadBehaviorRequestBehavior", {Deny: "deny", Allow: "allow", Default: "default"});
-inspectorBackend.registerCommand("Page.setDownloadBehavior", [{"name": "behavior", "type": "string", "optional": false}, {"name": "downloadPath", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Page.setDownloadBehavior", [{"name": "behavior", "type": "string", "optional": false, "typeRef": "Page.SetDownloadBehaviorRequestBehavior"}, {"name": "downloadPath", "type": "string", "optional": true}], []);
 inspectorBackend.registerCommand("Page.setGeolocationOverride", [{"name": "latitude", "type": "number", "optional": true}, {"name": "longitude", "type": "number", "optional": true}, {"name": "accuracy", "type": "number", "optional": true}], []);
 inspectorBackend.registerCommand("Page.setLifecycleEventsEnabled", [{"name": "enabled", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerEnum("Page.SetTouchEmulationEnabledRequestConfiguration", {Mobile: "mobile", Desktop: "desktop"});
-inspectorBackend.registerCommand("Page.setTouchEmulationEnabled", [{"name": "enabled", "type": "boolean", "optional": false}, {"name": "configuration", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Page.setTouchEmulationEnabled", [{"name": "enabled", "type": "boolean", "optional": false}, {"name": "configuration", "type": "string", "optional": true, "typeRef": "Page.SetTouchEmulationEnabledRequestConfiguration"}], []);
 inspectorBackend.registerEnum("Page.StartScreencastRequestFormat", {Jpeg: "jpeg", Png: "png"});
-inspectorBackend.registerCommand("Page.startScreencast", [{"name": "format", "type": "string", "optional": true}, {"name": "quality", "type": "number", "optional": true}, {"name": "maxWidth", "type": "number", "optional": true}, {"name": "maxHeight", "type": "number", "optional": true}, {"name": "everyNthFrame", "type": "number", "optional": true}], []);
+inspectorBackend.registerCommand("Page.startScreencast", [{"name": "format", "type": "string", "optional": true, "typeRef": "Page.StartScreencastRequestFormat"}, {"name": "quality", "type": "number", "optional": true}, {"name": "maxWidth", "type": "number", "optional": true}, {"name": "maxHeight", "type": "number", "optional": true}, {"name": "everyNthFrame", "type": "number", "optional": true}], []);
 inspectorBackend.registerCommand("Page.stopLoading", [], []);
 inspectorBackend.registerCommand("Page.crash", [], []);
 inspectorBackend.registerCommand("Page.close", [], []);
 inspectorBackend.registerEnum("Page.SetWebLifecycleStateRequestState", {Frozen: "frozen", Active: "active"});
-inspectorBackend.registerCommand("Page.setWebLifecycleState", [{"name": "state", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Page.setWebLifecycleState", [{"name": "state", "type": "string", "optional": false, "typeRef": "Page.SetWebLifecycleStateRequestState"}], []);
 inspectorBackend.registerCommand("Page.stopScreencast", [], []);
 inspectorBackend.registerCommand("Page.produceCompilationCache", [{"name": "scripts", "type": "object", "optional": false}], []);
 inspectorBackend.registerCommand("Page.addCompilationCache", [{"name": "url", "type": "string", "optional": false}, {"name": "data", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("Page.clearCompilationCache", [], []);
 inspectorBackend.registerEnum("Page.SetSPCTransactionModeRequestMode", {None: "none", AutoAccept: "autoAccept", AutoReject: "autoReject", AutoOptOut: "autoOptOut"});
-inspectorBackend.registerCommand("Page.setSPCTransactionMode", [{"name": "mode", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Page.setSPCTransactionMode", [{"name": "mode", "type": "string", "optional": false, "typeRef": "Page.SetSPCTransactionModeRequestMode"}], []);
 inspectorBackend.registerCommand("Page.generateTestReport", [{"name": "message", "type": "string", "optional": false}, {"name": "group", "type": "string", "optional": true}], []);
 inspectorBackend.registerCommand("Page.waitForDebugger", [], []);
 inspectorBackend.registerCommand("Page.setInterceptFileChooserDialog", [{"name": "enabled", "type": "boolean", "optional": false}], []);
@@ -672,9 +672,9 @@ inspectorBackend.registerCommand("Page.setInterceptFileChooserDialog", [{"name":
 inspectorBackend.registerEvent("Performance.metrics", ["metrics", "title"]);
 inspectorBackend.registerCommand("Performance.disable", [], []);
 inspectorBackend.registerEnum("Performance.EnableRequestTimeDomain", {TimeTicks: "timeTicks", ThreadTicks: "threadTicks"});
-inspectorBackend.registerCommand("Performance.enable", [{"name": "timeDomain", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Performance.enable", [{"name": "timeDomain", "type": "string", "optional": true, "typeRef": "Performance.EnableRequestTimeDomain"}], []);
 inspectorBackend.registerEnum("Performance.SetTimeDomainRequestTimeDomain", {TimeTicks: "timeTicks", ThreadTicks: "threadTicks"});
-inspectorBackend.registerCommand("Performance.setTimeDomain", [{"name": "timeDomain", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Performance.setTimeDomain", [{"name": "timeDomain", "type": "string", "optional": false, "typeRef": "Performance.SetTimeDomainRequestTimeDomain"}], []);
 inspectorBackend.registerCommand("Performance.getMetrics", [], ["metrics"]);
 
 // PerformanceTimeline.
@@ -692,7 +692,7 @@ inspectorBackend.registerEvent("Security.securityStateChanged", ["securityState"
 inspectorBackend.registerCommand("Security.disable", [], []);
 inspectorBackend.registerCommand("Security.enable", [], []);
 inspectorBackend.registerCommand("Security.setIgnoreCertificateErrors", [{"name": "ignore", "type": "boolean", "optional": false}], []);
-inspectorBackend.registerCommand("Security.handleCertificateError", [{"name": "eventId", "type": "number", "optional": false}, {"name": "action", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Security.handleCertificateError", [{"name": "eventId", "type": "number", "optional": false}, {"name": "action", "type": "string", "optional": false, "typeRef": "Security.CertificateErrorAction"}], []);
 inspectorBackend.registerCommand("Security.setOverrideCertificateErrors", [{"name": "override", "type": "boolean", "optional": false}], []);
 
 // ServiceWorker.
@@ -701,10 +701,10 @@ inspectorBackend.registerEnum("ServiceWorker.ServiceWorkerVersionStatus", {New:
 inspectorBackend.registerEvent("ServiceWorker.workerErrorReported", ["errorMessage"]);
 inspectorBackend.registerEvent("ServiceWorker.workerRegistrationUpdated", ["registrations"]);
 inspectorBackend.registerEvent("ServiceWorker.workerVersionUpdated", ["versions"]);
-inspectorBackend.registerCommand("ServiceWorker.deliverPushMessage", [{"name": "origin", "type": "string", "optional": false}, {"name": "registrationId", "type": "string", "optional": false}, {"name": "data", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("ServiceWorker.deliverPushMessage", [{"name": "origin", "type": "string", "optional": false}, {"name": "registrationId", "type": "string", "optional": false, "typeRef": "ServiceWorker.RegistrationID"}, {"name": "data", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("ServiceWorker.disable", [], []);
-inspectorBackend.registerCommand("ServiceWorker.dispatchSyncEvent", [{"name": "origin", "type": "string", "optional": false}, {"name": "registrationId", "type": "string", "optional": false}, {"name": "tag", "type": "string", "optional": false}, {"name": "lastChance", "type": "boolean", "optional": false}], []);
-inspectorBackend.registerCommand("ServiceWorker.dispatchPeriodicSyncEvent", [{"name": "origin", "type": "string", "optional": false}, {"name": "registrationId", "type": "string", "optional": false}, {"name": "tag", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("ServiceWorker.dispatchSyncEvent", [{"name": "origin", "type": "string", "optional": false}, {"name": "registrationId", "type": "string", "optional": false, "typeRef": "ServiceWorker.RegistrationID"}, {"name": "tag", "type": "string", "optional": false}, {"name": "lastChance", "type": "boolean", "optional": false}], []);
+inspectorBackend.registerCommand("ServiceWorker.dispatchPeriodicSyncEvent", [{"name": "origin", "type": "string", "optional": false}, {"name": "registrationId", "type": "string", "optional": false, "typeRef": "ServiceWorker.RegistrationID"}, {"name": "tag", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("ServiceWorker.enable", [], []);
 inspectorBackend.registerCommand("ServiceWorker.inspectWorker", [{"name": "versionId", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("ServiceWorker.setForceUpdateOnPageLoad", [{"name": "forceUpdateOnPageLoad", "type": "boolean", "optional": false}], []);
@@ -725,12 +725,12 @@ inspectorBackend.registerEvent("Storage.indexedDBContentUpdated", ["origin", "st
 inspectorBackend.registerEvent("Storage.indexedDBListUpdated", ["origin", "storageKey"]);
 inspectorBackend.registerEvent("Storage.interestGroupAccessed", ["accessTime", "type", "ownerOrigin", "name"]);
 inspectorBackend.registerEvent("Storage.sharedStorageAccessed", ["accessTime", "type", "mainFrameId", "ownerOrigin", "params"]);
-inspectorBackend.registerCommand("Storage.getStorageKeyForFrame", [{"name": "frameId", "type": "string", "optional": false}], ["storageKey"]);
+inspectorBackend.registerCommand("Storage.getStorageKeyForFrame", [{"name": "frameId", "type": "string", "optional": false, "typeRef": "Page.FrameId"}], ["storageKey"]);
 inspectorBackend.registerCommand("Storage.clearDataForOrigin", [{"name": "origin", "type": "string", "optional": false}, {"name": "storageTypes", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("Storage.clearDataForStorageKey", [{"name": "storageKey", "type": "string", "optional": false}, {"name": "storageTypes", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("Storage.getCookies", [{"name": "browserContextId", "type": "string", "optional": true}], ["cookies"]);
-inspectorBackend.registerCommand("Storage.setCookies", [{"name": "cookies", "type": "object", "optional": false}, {"name": "browserContextId", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Storage.clearCookies", [{"name": "browserContextId", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Storage.getCookies", [{"name": "browserContextId", "type": "string", "optional": true, "typeRef": "Browser.BrowserContextID"}], ["cookies"]);
+inspectorBackend.registerCommand("Storage.setCookies", [{"name": "cookies", "type": "object", "optional": false}, {"name": "browserContextId", "type": "string", "optional": true, "typeRef": "Browser.BrowserContextID"}], []);
+inspectorBackend.registerCommand("Storage.clearCookies", [{"name": "browserContextId", "type": "string", "optional": true, "typeRef": "Browser.BrowserContextID"}], []);
 inspectorBackend.registerCommand("Storage.getUsageAndQuota", [{"name": "origin", "type": "string", "optional": false}], ["usage", "quota", "overrideActive", "usageBreakdown"]);
 inspectorBackend.registerCommand("Storage.overrideQuotaForOrigin", [{"name": "origin", "type": "string", "optional": false}, {"name": "quotaSize", "type": "number", "optional": true}], []);
 inspectorBackend.registerCommand("Storage.trackCacheStorageForOrigin", [{"name": "origin", "type": "string", "optional": false}], []);
@@ -768,22 +768,22 @@ inspectorBackend.registerEvent("Target.targetCreated", ["targetInfo"]);
 inspectorBackend.registerEvent("Target.targetDestroyed", ["targetId"]);
 inspectorBackend.registerEvent("Target.targetCrashed", ["targetId", "status", "errorCode"]);
 inspectorBackend.registerEvent("Target.targetInfoChanged", ["targetInfo"]);
-inspectorBackend.registerCommand("Target.activateTarget", [{"name": "targetId", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("Target.attachToTarget", [{"name": "targetId", "type": "string", "optional": false}, {"name": "flatten", "type": "boolean", "optional": true}], ["sessionId"]);
+inspectorBackend.registerCommand("Target.activateTarget", [{"name": "targetId", "type": "string", "optional": false, "typeRef": "Target.TargetID"}], []);
+inspectorBackend.registerCommand("Target.attachToTarget", [{"name": "targetId", "type": "string", "optional": false, "typeRef": "Target.TargetID"}, {"name": "flatten", "type": "boolean", "optional": true}], ["sessionId"]);
 inspectorBackend.registerCommand("Target.attachToBrowserTarget", [], ["sessionId"]);
-inspectorBackend.registerCommand("Target.closeTarget", [{"name": "targetId", "type": "string", "optional": false}], ["success"]);
-inspectorBackend.registerCommand("Target.exposeDevToolsProtocol", [{"name": "targetId", "type": "string", "optional": false}, {"name": "bindingName", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Target.closeTarget", [{"name": "targetId", "type": "string", "optional": false, "typeRef": "Target.TargetID"}], ["success"]);
+inspectorBackend.registerCommand("Target.exposeDevToolsProtocol", [{"name": "targetId", "type": "string", "optional": false, "typeRef": "Target.TargetID"}, {"name": "bindingName", "type": "string", "optional": true}], []);
 inspectorBackend.registerCommand("Target.createBrowserContext", [{"name": "disposeOnDetach", "type": "boolean", "optional": true}, {"name": "proxyServer", "type": "string", "optional": true}, {"name": "proxyBypassList", "type": "string", "optional": true}, {"name": "originsWithUniversalNetworkAccess", "type": "object", "optional": true}], ["browserContextId"]);
 inspectorBackend.registerCommand("Target.getBrowserContexts", [], ["browserContextIds"]);
-inspectorBackend.registerCommand("Target.createTarget", [{"name": "url", "type": "string", "optional": false}, {"name": "width", "type": "number", "optional": true}, {"name": "height", "type": "number", "optional": true}, {"name": "browserContextId", "type": "string", "optional": true}, {"name": "enableBeginFrameControl", "type": "boolean", "optional": true}, {"name": "newWindow", "type": "boolean", "optional": true}, {"name": "background", "type": "boolean", "optional": true}, {"name": "forTab", "type": "boolean", "optional": true}], ["targetId"]);
-inspectorBackend.registerCommand("Target.detachFromTarget", [{"name": "sessionId", "type": "string", "optional": true}, {"name": "targetId", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Target.disposeBrowserContext", [{"name": "browserContextId", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("Target.getTargetInfo", [{"name": "targetId", "type": "string", "optional": true}], ["targetInfo"]);
-inspectorBackend.registerCommand("Target.getTargets", [{"name": "filter", "type": "object", "optional": true}], ["targetInfos"]);
-inspectorBackend.registerCommand("Target.sendMessageToTarget", [{"name": "message", "type": "string", "optional": false}, {"name": "sessionId", "type": "string", "optional": true}, {"name": "targetId", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Target.setAutoAttach", [{"name": "autoAttach", "type": "boolean", "optional": false}, {"name": "waitForDebuggerOnStart", "type": "boolean", "optional": false}, {"name": "flatten", "type": "boolean", "optional": true}, {"name": "filter", "type": "object", "optional": true}], []);
-inspectorBackend.registerCommand("Target.autoAttachRelated", [{"name": "targetId", "type": "string", "optional": false}, {"name": "waitForDebuggerOnStart", "type": "boolean", "optional": false}, {"name": "filter", "type": "object", "optional": true}], []);
-inspectorBackend.registerCommand("Target.setDiscoverTargets", [{"name": "discover", "type": "boolean", "optional": false}, {"name": "filter", "type": "object", "optional": true}], []);
+inspectorBackend.registerCommand("Target.createTarget", [{"name": "url", "type": "string", "optional": false}, {"name": "width", "type": "number", "optional": true}, {"name": "height", "type": "number", "optional": true}, {"name": "browserContextId", "type": "string", "optional": true, "typeRef": "Browser.BrowserContextID"}, {"name": "enableBeginFrameControl", "type": "boolean", "optional": true}, {"name": "newWindow", "type": "boolean", "optional": true}, {"name": "background", "type": "boolean", "optional": true}, {"name": "forTab", "type": "boolean", "optional": true}], ["targetId"]);
+inspectorBackend.registerCommand("Target.detachFromTarget", [{"name": "sessionId", "type": "string", "optional": true, "typeRef": "Target.SessionID"}, {"name": "targetId", "type": "string", "optional": true, "typeRef": "Target.TargetID"}], []);
+inspectorBackend.registerCommand("Target.disposeBrowserContext", [{"name": "browserContextId", "type": "string", "optional": false, "typeRef": "Browser.BrowserContextID"}], []);
+inspectorBackend.registerCommand("Target.getTargetInfo", [{"name": "targetId", "type": "string", "optional": true, "typeRef": "Target.TargetID"}], ["targetInfo"]);
+inspectorBackend.registerCommand("Target.getTargets", [{"name": "filter", "type": "object", "optional": true, "typeRef": "Target.TargetFilter"}], ["targetInfos"]);
+inspectorBackend.registerCommand("Target.sendMessageToTarget", [{"name": "message", "type": "string", "optional": false}, {"name": "sessionId", "type": "string", "optional": true, "typeRef": "Target.SessionID"}, {"name": "targetId", "type": "string", "optional": true, "typeRef": "Target.TargetID"}], []);
+inspectorBackend.registerCommand("Target.setAutoAttach", [{"name": "autoAttach", "type": "boolean", "optional": false}, {"name": "waitForDebuggerOnStart", "type": "boolean", "optional": false}, {"name": "flatten", "type": "boolean", "optional": true}, {"name": "filter", "type": "object", "optional": true, "typeRef": "Target.TargetFilter"}], []);
+inspectorBackend.registerCommand("Target.autoAttachRelated", [{"name": "targetId", "type": "string", "optional": false, "typeRef": "Target.TargetID"}, {"name": "waitForDebuggerOnStart", "type": "boolean", "optional": false}, {"name": "filter", "type": "object", "optional": true, "typeRef": "Target.TargetFilter"}], []);
+inspectorBackend.registerCommand("Target.setDiscoverTargets", [{"name": "discover", "type": "boolean", "optional": false}, {"name": "filter", "type": "object", "optional": true, "typeRef": "Target.TargetFilter"}], []);
 inspectorBackend.registerCommand("Target.setRemoteLocations", [{"name": "locations", "type": "object", "optional": false}], []);
 
 // Tethering.
@@ -803,9 +803,9 @@ inspectorBackend.registerEvent("Tracing.tracingComplete", ["dataLossOccurred", "
 inspectorBackend.registerCommand("Tracing.end", [], []);
 inspectorBackend.registerCommand("Tracing.getCategories", [], ["categories"]);
 inspectorBackend.registerCommand("Tracing.recordClockSyncMarker", [{"name": "syncId", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("Tracing.requestMemoryDump", [{"name": "deterministic", "type": "boolean", "optional": true}, {"name": "levelOfDetail", "type": "string", "optional": true}], ["dumpGuid", "success"]);
+inspectorBackend.registerCommand("Tracing.requestMemoryDump", [{"name": "deterministic", "type": "boolean", "optional": true}, {"name": "levelOfDetail", "type": "string", "optional": true, "typeRef": "Tracing.MemoryDumpLevelOfDetail"}], ["dumpGuid", "success"]);
 inspectorBackend.registerEnum("Tracing.StartRequestTransferMode", {ReportEvents: "ReportEvents", ReturnAsStream: "ReturnAsStream"});
-inspectorBackend.registerCommand("Tracing.start", [{"name": "categories", "type": "string", "optional": true}, {"name": "options", "type": "string", "optional": true}, {"name": "bufferUsageReportingInterval", "type": "number", "optional": true}, {"name": "transferMode", "type": "string", "optional": true}, {"name": "streamFormat", "type": "string", "optional": true}, {"name": "streamCompression", "type": "string", "optional": true}, {"name": "traceConfig", "type": "object", "optional": true}, {"name": "perfettoConfig", "type": "string", "optional": true}, {"name": "tracingBackend", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Tracing.start", [{"name": "categories", "type": "string", "optional": true}, {"name": "options", "type": "string", "optional": true}, {"name": "bufferUsageReportingInterval", "type": "number", "optional": true}, {"name": "transferMode", "type": "string", "optional": true, "typeRef": "Tracing.StartRequestTransferMode"}, {"name": "streamFormat", "type": "string", "optional": true, "typeRef": "Tracing.StreamFormat"}, {"name": "streamCompression", "type": "string", "optional": true, "typeRef": "Tracing.StreamCompression"}, {"name": "traceConfig", "type": "object", "optional": true, "typeRef": "Tracing.TraceConfig"}, {"name": "perfettoConfig", "type": "string", "optional": true}, {"name": "tracingBackend", "type": "string", "optional": true, "typeRef": "Tracing.TracingBackend"}], []);
 
 // Fetch.
 inspectorBackend.registerEnum("Fetch.RequestStage", {Request: "Request", Response: "Response"});
@@ -815,13 +815,13 @@ inspectorBackend.registerEvent("Fetch.requestPaused", ["requestId", "request", "
 inspectorBackend.registerEvent("Fetch.authRequired", ["requestId", "request", "frameId", "resourceType", "authChallenge"]);
 inspectorBackend.registerCommand("Fetch.disable", [], []);
 inspectorBackend.registerCommand("Fetch.enable", [{"name": "patterns", "type": "object", "optional": true}, {"name": "handleAuthRequests", "type": "boolean", "optional": true}], []);
-inspectorBackend.registerCommand("Fetch.failRequest", [{"name": "requestId", "type": "string", "optional": false}, {"name": "errorReason", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("Fetch.fulfillRequest", [{"name": "requestId", "type": "string", "optional": false}, {"name": "responseCode", "type": "number", "optional": false}, {"name": "responseHeaders", "type": "object", "optional": true}, {"name": "binaryResponseHeaders", "type": "string", "optional": true}, {"name": "body", "type": "string", "optional": true}, {"name": "responsePhrase", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Fetch.continueRequest", [{"name": "requestId", "type": "string", "optional": false}, {"name": "url", "type": "string", "optional": true}, {"name": "method", "type": "string", "optional": true}, {"name": "postData", "type": "string", "optional": true}, {"name": "headers", "type": "object", "optional": true}, {"name": "interceptResponse", "type": "boolean", "optional": true}], []);
-inspectorBackend.registerCommand("Fetch.continueWithAuth", [{"name": "requestId", "type": "string", "optional": false}, {"name": "authChallengeResponse", "type": "object", "optional": false}], []);
-inspectorBackend.registerCommand("Fetch.continueResponse", [{"name": "requestId", "type": "string", "optional": false}, {"name": "responseCode", "type": "number", "optional": true}, {"name": "responsePhrase", "type": "string", "optional": true}, {"name": "responseHeaders", "type": "object", "optional": true}, {"name": "binaryResponseHeaders", "type": "string", "optional": true}], []);
-inspectorBackend.registerCommand("Fetch.getResponseBody", [{"name": "requestId", "type": "string", "optional": false}], ["body", "base64Encoded"]);
-inspectorBackend.registerCommand("Fetch.takeResponseBodyAsStream", [{"name": "requestId", "type": "string", "optional": false}], ["stream"]);
+inspectorBackend.registerCommand("Fetch.failRequest", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Fetch.RequestId"}, {"name": "errorReason", "type": "string", "optional": false, "typeRef": "Network.ErrorReason"}], []);
+inspectorBackend.registerCommand("Fetch.fulfillRequest", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Fetch.RequestId"}, {"name": "responseCode", "type": "number", "optional": false}, {"name": "responseHeaders", "type": "object", "optional": true}, {"name": "binaryResponseHeaders", "type": "string", "optional": true}, {"name": "body", "type": "string", "optional": true}, {"name": "responsePhrase", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Fetch.continueRequest", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Fetch.RequestId"}, {"name": "url", "type": "string", "optional": true}, {"name": "method", "type": "string", "optional": true}, {"name": "postData", "type": "string", "optional": true}, {"name": "headers", "type": "object", "optional": true}, {"name": "interceptResponse", "type": "boolean", "optional": true}], []);
+inspectorBackend.registerCommand("Fetch.continueWithAuth", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Fetch.RequestId"}, {"name": "authChallengeResponse", "type": "object", "optional": false, "typeRef": "Fetch.AuthChallengeResponse"}], []);
+inspectorBackend.registerCommand("Fetch.continueResponse", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Fetch.RequestId"}, {"name": "responseCode", "type": "number", "optional": true}, {"name": "responsePhrase", "type": "string", "optional": true}, {"name": "responseHeaders", "type": "object", "optional": true}, {"name": "binaryResponseHeaders", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Fetch.getResponseBody", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Fetch.RequestId"}], ["body", "base64Encoded"]);
+inspectorBackend.registerCommand("Fetch.takeResponseBodyAsStream", [{"name": "requestId", "type": "string", "optional": false, "typeRef": "Fetch.RequestId"}], ["stream"]);
 
 // WebAudio.
 inspectorBackend.registerEnum("WebAudio.ContextType", {Realtime: "realtime", Offline: "offline"});
@@ -844,7 +844,8 @@ inspectorBackend.registerEvent("WebAudio.nodeParamConnected", ["contextId", "sou
 inspectorBackend.registerEvent("WebAudio.nodeParamDisconnected", ["contextId", "sourceId", "destinationId", "sourceOutputIndex"]);
 inspectorBackend.registerCommand("WebAudio.enable", [], []);
 inspectorBackend.registerCommand("WebAudio.disable", [], []);
-inspectorBackend.registerCommand("WebAudio.getRealtimeData", [{"name": "contextId", "type": "string", "optional": false}], ["realtimeData"]);
+inspectorBackend.registerCommand("WebAudio.getRealtimeData", [{"name": "contextId", "type": "string", "optional": false, "typeRef": "WebAudio.GraphObjectId"}], ["realtimeData"]);
+inspectorBackend.registerCommand("WebAudio.getAudioParamValue", [{"name": "contextId", "type": "string", "optional": false, "typeRef": "WebAudio.GraphObjectId"}, {"name": "paramId", "type": "string", "optional": false, "typeRef": "WebAudio.GraphObjectId"}], ["value"]);
 
 // WebAuthn.
 inspectorBackend.registerEnum("WebAuthn.AuthenticatorProtocol", {U2f: "u2f", Ctap2: "ctap2"});
@@ -854,16 +855,16 @@ inspectorBackend.registerEvent("WebAuthn.credentialAdded", ["authenticatorId", "
 inspectorBackend.registerEvent("WebAuthn.credentialAsserted", ["authenticatorId", "credential"]);
 inspectorBackend.registerCommand("WebAuthn.enable", [{"name": "enableUI", "type": "boolean", "optional": true}], []);
 inspectorBackend.registerCommand("WebAuthn.disable", [], []);
-inspectorBackend.registerCommand("WebAuthn.addVirtualAuthenticator", [{"name": "options", "type": "object", "optional": false}], ["authenticatorId"]);
-inspectorBackend.registerCommand("WebAuthn.setResponseOverrideBits", [{"name": "authenticatorId", "type": "string", "optional": false}, {"name": "isBogusSignature", "type": "boolean", "optional": true}, {"name": "isBadUV", "type": "boolean", "optional": true}, {"name": "isBadUP", "type": "boolean", "optional": true}], []);
-inspectorBackend.registerCommand("WebAuthn.removeVirtualAuthenticator", [{"name": "authenticatorId", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("WebAuthn.addCredential", [{"name": "authenticatorId", "type": "string", "optional": false}, {"name": "credential", "type": "object", "optional": false}], []);
-inspectorBackend.registerCommand("WebAuthn.getCredential", [{"name": "authenticatorId", "type": "string", "optional": false}, {"name": "credentialId", "type": "string", "optional": false}], ["credential"]);
-inspectorBackend.registerCommand("WebAuthn.getCredentials", [{"name": "authenticatorId", "type": "string", "optional": false}], ["credentials"]);
-inspectorBackend.registerCommand("WebAuthn.removeCredential", [{"name": "authenticatorId", "type": "string", "optional": false}, {"name": "credentialId", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("WebAuthn.clearCredentials", [{"name": "authenticatorId", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("WebAuthn.setUserVerified", [{"name": "authenticatorId", "type": "string", "optional": false}, {"name": "isUserVerified", "type": "boolean", "optional": false}], []);
-inspectorBackend.registerCommand("WebAuthn.setAutomaticPresenceSimulation", [{"name": "authenticatorId", "type": "string", "optional": false}, {"name": "enabled", "type": "boolean", "optional": false}], []);
+inspectorBackend.registerCommand("WebAuthn.addVirtualAuthenticator", [{"name": "options", "type": "object", "optional": false, "typeRef": "WebAuthn.VirtualAuthenticatorOptions"}], ["authenticatorId"]);
+inspectorBackend.registerCommand("WebAuthn.setResponseOverrideBits", [{"name": "authenticatorId", "type": "string", "optional": false, "typeRef": "WebAuthn.AuthenticatorId"}, {"name": "isBogusSignature", "type": "boolean", "optional": true}, {"name": "isBadUV", "type": "boolean", "optional": true}, {"name": "isBadUP", "type": "boolean", "optional": true}], []);
+inspectorBackend.registerCommand("WebAuthn.removeVirtualAuthenticator", [{"name": "authenticatorId", "type": "string", "optional": false, "typeRef": "WebAuthn.AuthenticatorId"}], []);
+inspectorBackend.registerCommand("WebAuthn.addCredential", [{"name": "authenticatorId", "type": "string", "optional": false, "typeRef": "WebAuthn.AuthenticatorId"}, {"name": "credential", "type": "object", "optional": false, "typeRef": "WebAuthn.Credential"}], []);
+inspectorBackend.registerCommand("WebAuthn.getCredential", [{"name": "authenticatorId", "type": "string", "optional": false, "typeRef": "WebAuthn.AuthenticatorId"}, {"name": "credentialId", "type": "string", "optional": false}], ["credential"]);
+inspectorBackend.registerCommand("WebAuthn.getCredentials", [{"name": "authenticatorId", "type": "string", "optional": false, "typeRef": "WebAuthn.AuthenticatorId"}], ["credentials"]);
+inspectorBackend.registerCommand("WebAuthn.removeCredential", [{"name": "authenticatorId", "type": "string", "optional": false, "typeRef": "WebAuthn.AuthenticatorId"}, {"name": "credentialId", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("WebAuthn.clearCredentials", [{"name": "authenticatorId", "type": "string", "optional": false, "typeRef": "WebAuthn.AuthenticatorId"}], []);
+inspectorBackend.registerCommand("WebAuthn.setUserVerified", [{"name": "authenticatorId", "type": "string", "optional": false, "typeRef": "WebAuthn.AuthenticatorId"}, {"name": "isUserVerified", "type": "boolean", "optional": false}], []);
+inspectorBackend.registerCommand("WebAuthn.setAutomaticPresenceSimulation", [{"name": "authenticatorId", "type": "string", "optional": false, "typeRef": "WebAuthn.AuthenticatorId"}, {"name": "enabled", "type": "boolean", "optional": false}], []);
 
 // Media.
 inspectorBackend.registerEnum("Media.PlayerMessageLevel", {Error: "error", Warning: "warning", Info: "info", Debug: "debug"});
@@ -887,38 +888,38 @@ inspectorBackend.registerEvent("Debugger.resumed", []);
 inspectorBackend.registerEvent("Debugger.scriptFailedToParse", ["scriptId", "url", "startLine", "startColumn", "endLine", "endColumn", "executionContextId", "hash", "executionContextAuxData", "sourceMapURL", "hasSourceURL", "isModule", "length", "stackTrace", "codeOffset", "scriptLanguage", "embedderName"]);
 inspectorBackend.registerEvent("Debugger.scriptParsed", ["scriptId", "url", "startLine", "startColumn", "endLine", "endColumn", "executionContextId", "hash", "executionContextAuxData", "isLiveEdit", "sourceMapURL", "hasSourceURL", "isModule", "length", "stackTrace", "codeOffset", "scriptLanguage", "debugSymbols", "embedderName"]);
 inspectorBackend.registerEnum("Debugger.ContinueToLocationRequestTargetCallFrames", {Any: "any", Current: "current"});
-inspectorBackend.registerCommand("Debugger.continueToLocation", [{"name": "location", "type": "object", "optional": false}, {"name": "targetCallFrames", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Debugger.continueToLocation", [{"name": "location", "type": "object", "optional": false, "typeRef": "Debugger.Location"}, {"name": "targetCallFrames", "type": "string", "optional": true, "typeRef": "Debugger.ContinueToLocationRequestTargetCallFrames"}], []);
 inspectorBackend.registerCommand("Debugger.disable", [], []);
 inspectorBackend.registerCommand("Debugger.enable", [{"name": "maxScriptsCacheSize", "type": "number", "optional": true}], ["debuggerId"]);
-inspectorBackend.registerCommand("Debugger.evaluateOnCallFrame", [{"name": "callFrameId", "type": "string", "optional": false}, {"name": "expression", "type": "string", "optional": false}, {"name": "objectGroup", "type": "string", "optional": true}, {"name": "includeCommandLineAPI", "type": "boolean", "optional": true}, {"name": "silent", "type": "boolean", "optional": true}, {"name": "returnByValue", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}, {"name": "throwOnSideEffect", "type": "boolean", "optional": true}, {"name": "timeout", "type": "number", "optional": true}], ["result", "exceptionDetails"]);
-inspectorBackend.registerCommand("Debugger.getPossibleBreakpoints", [{"name": "start", "type": "object", "optional": false}, {"name": "end", "type": "object", "optional": true}, {"name": "restrictToFunction", "type": "boolean", "optional": true}], ["locations"]);
-inspectorBackend.registerCommand("Debugger.getScriptSource", [{"name": "scriptId", "type": "string", "optional": false}], ["scriptSource", "bytecode"]);
-inspectorBackend.registerCommand("Debugger.disassembleWasmModule", [{"name": "scriptId", "type": "string", "optional": false}], ["streamId", "totalNumberOfLines", "functionBodyOffsets", "chunk"]);
+inspectorBackend.registerCommand("Debugger.evaluateOnCallFrame", [{"name": "callFrameId", "type": "string", "optional": false, "typeRef": "Debugger.CallFrameId"}, {"name": "expression", "type": "string", "optional": false}, {"name": "objectGroup", "type": "string", "optional": true}, {"name": "includeCommandLineAPI", "type": "boolean", "optional": true}, {"name": "silent", "type": "boolean", "optional": true}, {"name": "returnByValue", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}, {"name": "throwOnSideEffect", "type": "boolean", "optional": true}, {"name": "timeout", "type": "number", "optional": true, "typeRef": "Runtime.TimeDelta"}], ["result", "exceptionDetails"]);
+inspectorBackend.registerCommand("Debugger.getPossibleBreakpoints", [{"name": "start", "type": "object", "optional": false, "typeRef": "Debugger.Location"}, {"name": "end", "type": "object", "optional": true, "typeRef": "Debugger.Location"}, {"name": "restrictToFunction", "type": "boolean", "optional": true}], ["locations"]);
+inspectorBackend.registerCommand("Debugger.getScriptSource", [{"name": "scriptId", "type": "string", "optional": false, "typeRef": "Runtime.ScriptId"}], ["scriptSource", "bytecode"]);
+inspectorBackend.registerCommand("Debugger.disassembleWasmModule", [{"name": "scriptId", "type": "string", "optional": false, "typeRef": "Runtime.ScriptId"}], ["streamId", "totalNumberOfLines", "functionBodyOffsets", "chunk"]);
 inspectorBackend.registerCommand("Debugger.nextWasmDisassemblyChunk", [{"name": "streamId", "type": "string", "optional": false}], ["chunk"]);
-inspectorBackend.registerCommand("Debugger.getWasmBytecode", [{"name": "scriptId", "type": "string", "optional": false}], ["bytecode"]);
-inspectorBackend.registerCommand("Debugger.getStackTrace", [{"name": "stackTraceId", "type": "object", "optional": false}], ["stackTrace"]);
+inspectorBackend.registerCommand("Debugger.getWasmBytecode", [{"name": "scriptId", "type": "string", "optional": false, "typeRef": "Runtime.ScriptId"}], ["bytecode"]);
+inspectorBackend.registerCommand("Debugger.getStackTrace", [{"name": "stackTraceId", "type": "object", "optional": false, "typeRef": "Runtime.StackTraceId"}], ["stackTrace"]);
 inspectorBackend.registerCommand("Debugger.pause", [], []);
-inspectorBackend.registerCommand("Debugger.pauseOnAsyncCall", [{"name": "parentStackTraceId", "type": "object", "optional": false}], []);
-inspectorBackend.registerCommand("Debugger.removeBreakpoint", [{"name": "breakpointId", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Debugger.pauseOnAsyncCall", [{"name": "parentStackTraceId", "type": "object", "optional": false, "typeRef": "Runtime.StackTraceId"}], []);
+inspectorBackend.registerCommand("Debugger.removeBreakpoint", [{"name": "breakpointId", "type": "string", "optional": false, "typeRef": "Debugger.BreakpointId"}], []);
 inspectorBackend.registerEnum("Debugger.RestartFrameRequestMode", {StepInto: "StepInto"});
-inspectorBackend.registerCommand("Debugger.restartFrame", [{"name": "callFrameId", "type": "string", "optional": false}, {"name": "mode", "type": "string", "optional": true}], ["callFrames", "asyncStackTrace", "asyncStackTraceId"]);
+inspectorBackend.registerCommand("Debugger.restartFrame", [{"name": "callFrameId", "type": "string", "optional": false, "typeRef": "Debugger.CallFrameId"}, {"name": "mode", "type": "string", "optional": true, "typeRef": "Debugger.RestartFrameRequestMode"}], ["callFrames", "asyncStackTrace", "asyncStackTraceId"]);
 inspectorBackend.registerCommand("Debugger.resume", [{"name": "terminateOnResume", "type": "boolean", "optional": true}], []);
-inspectorBackend.registerCommand("Debugger.searchInContent", [{"name": "scriptId", "type": "string", "optional": false}, {"name": "query", "type": "string", "optional": false}, {"name": "caseSensitive", "type": "boolean", "optional": true}, {"name": "isRegex", "type": "boolean", "optional": true}], ["result"]);
+inspectorBackend.registerCommand("Debugger.searchInContent", [{"name": "scriptId", "type": "string", "optional": false, "typeRef": "Runtime.ScriptId"}, {"name": "query", "type": "string", "optional": false}, {"name": "caseSensitive", "type": "boolean", "optional": true}, {"name": "isRegex", "type": "boolean", "optional": true}], ["result"]);
 inspectorBackend.registerCommand("Debugger.setAsyncCallStackDepth", [{"name": "maxDepth", "type": "number", "optional": false}], []);
 inspectorBackend.registerCommand("Debugger.setBlackboxPatterns", [{"name": "patterns", "type": "object", "optional": false}], []);
-inspectorBackend.registerCommand("Debugger.setBlackboxedRanges", [{"name": "scriptId", "type": "string", "optional": false}, {"name": "positions", "type": "object", "optional": false}], []);
-inspectorBackend.registerCommand("Debugger.setBreakpoint", [{"name": "location", "type": "object", "optional": false}, {"name": "condition", "type": "string", "optional": true}], ["breakpointId", "actualLocation"]);
+inspectorBackend.registerCommand("Debugger.setBlackboxedRanges", [{"name": "scriptId", "type": "string", "optional": false, "typeRef": "Runtime.ScriptId"}, {"name": "positions", "type": "object", "optional": false}], []);
+inspectorBackend.registerCommand("Debugger.setBreakpoint", [{"name": "location", "type": "object", "optional": false, "typeRef": "Debugger.Location"}, {"name": "condition", "type": "string", "optional": true}], ["breakpointId", "actualLocation"]);
 inspectorBackend.registerEnum("Debugger.SetInstrumentationBreakpointRequestInstrumentation", {BeforeScriptExecution: "beforeScriptExecution", BeforeScriptWithSourceMapExecution: "beforeScriptWithSourceMapExecution"});
-inspectorBackend.registerCommand("Debugger.setInstrumentationBreakpoint", [{"name": "instrumentation", "type": "string", "optional": false}], ["breakpointId"]);
+inspectorBackend.registerCommand("Debugger.setInstrumentationBreakpoint", [{"name": "instrumentation", "type": "string", "optional": false, "typeRef": "Debugger.SetInstrumentationBreakpointRequestInstrumentation"}], ["breakpointId"]);
 inspectorBackend.registerCommand("Debugger.setBreakpointByUrl", [{"name": "lineNumber", "type": "number", "optional": false}, {"name": "url", "type": "string", "optional": true}, {"name": "urlRegex", "type": "string", "optional": true}, {"name": "scriptHash", "type": "string", "optional": true}, {"name": "columnNumber", "type": "number", "optional": true}, {"name": "condition", "type": "string", "optional": true}], ["breakpointId", "locations"]);
-inspectorBackend.registerCommand("Debugger.setBreakpointOnFunctionCall", [{"name": "objectId", "type": "string", "optional": false}, {"name": "condition", "type": "string", "optional": true}], ["breakpointId"]);
+inspectorBackend.registerCommand("Debugger.setBreakpointOnFunctionCall", [{"name": "objectId", "type": "string", "optional": false, "typeRef": "Runtime.RemoteObjectId"}, {"name": "condition", "type": "string", "optional": true}], ["breakpointId"]);
 inspectorBackend.registerCommand("Debugger.setBreakpointsActive", [{"name": "active", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerEnum("Debugger.SetPauseOnExceptionsRequestState", {None: "none", Caught: "caught", Uncaught: "uncaught", All: "all"});
-inspectorBackend.registerCommand("Debugger.setPauseOnExceptions", [{"name": "state", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("Debugger.setReturnValue", [{"name": "newValue", "type": "object", "optional": false}], []);
-inspectorBackend.registerCommand("Debugger.setScriptSource", [{"name": "scriptId", "type": "string", "optional": false}, {"name": "scriptSource", "type": "string", "optional": false}, {"name": "dryRun", "type": "boolean", "optional": true}, {"name": "allowTopFrameEditing", "type": "boolean", "optional": true}], ["callFrames", "stackChanged", "asyncStackTrace", "asyncStackTraceId", "status", "exceptionDetails"]);
+inspectorBackend.registerCommand("Debugger.setPauseOnExceptions", [{"name": "state", "type": "string", "optional": false, "typeRef": "Debugger.SetPauseOnExceptionsRequestState"}], []);
+inspectorBackend.registerCommand("Debugger.setReturnValue", [{"name": "newValue", "type": "object", "optional": false, "typeRef": "Runtime.CallArgument"}], []);
+inspectorBackend.registerCommand("Debugger.setScriptSource", [{"name": "scriptId", "type": "string", "optional": false, "typeRef": "Runtime.ScriptId"}, {"name": "scriptSource", "type": "string", "optional": false}, {"name": "dryRun", "type": "boolean", "optional": true}, {"name": "allowTopFrameEditing", "type": "boolean", "optional": true}], ["callFrames", "stackChanged", "asyncStackTrace", "asyncStackTraceId", "status", "exceptionDetails"]);
 inspectorBackend.registerCommand("Debugger.setSkipAllPauses", [{"name": "skip", "type": "boolean", "optional": false}], []);
-inspectorBackend.registerCommand("Debugger.setVariableValue", [{"name": "scopeNumber", "type": "number", "optional": false}, {"name": "variableName", "type": "string", "optional": false}, {"name": "newValue", "type": "object", "optional": false}, {"name": "callFrameId", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Debugger.setVariableValue", [{"name": "scopeNumber", "type": "number", "optional": false}, {"name": "variableName", "type": "string", "optional": false}, {"name": "newValue", "type": "object", "optional": false, "typeRef": "Runtime.CallArgument"}, {"name": "callFrameId", "type": "string", "optional": false, "typeRef": "Debugger.CallFrameId"}], []);
 inspectorBackend.registerCommand("Debugger.stepInto", [{"name": "breakOnAsyncCall", "type": "boolean", "optional": true}, {"name": "skipList", "type": "object", "optional": true}], []);
 inspectorBackend.registerCommand("Debugger.stepOut", [], []);
 inspectorBackend.registerCommand("Debugger.stepOver", [{"name": "skipList", "type": "object", "optional": true}], []);
@@ -929,12 +930,12 @@ inspectorBackend.registerEvent("HeapProfiler.heapStatsUpdate", ["statsUpdate"]);
 inspectorBackend.registerEvent("HeapProfiler.lastSeenObjectId", ["lastSeenObjectId", "timestamp"]);
 inspectorBackend.registerEvent("HeapProfiler.reportHeapSnapshotProgress", ["done", "total", "finished"]);
 inspectorBackend.registerEvent("HeapProfiler.resetProfiles", []);
-inspectorBackend.registerCommand("HeapProfiler.addInspectedHeapObject", [{"name": "heapObjectId", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("HeapProfiler.addInspectedHeapObject", [{"name": "heapObjectId", "type": "string", "optional": false, "typeRef": "HeapProfiler.HeapSnapshotObjectId"}], []);
 inspectorBackend.registerCommand("HeapProfiler.collectGarbage", [], []);
 inspectorBackend.registerCommand("HeapProfiler.disable", [], []);
 inspectorBackend.registerCommand("HeapProfiler.enable", [], []);
-inspectorBackend.registerCommand("HeapProfiler.getHeapObjectId", [{"name": "objectId", "type": "string", "optional": false}], ["heapSnapshotObjectId"]);
-inspectorBackend.registerCommand("HeapProfiler.getObjectByHeapObjectId", [{"name": "objectId", "type": "string", "optional": false}, {"name": "objectGroup", "type": "string", "optional": true}], ["result"]);
+inspectorBackend.registerCommand("HeapProfiler.getHeapObjectId", [{"name": "objectId", "type": "string", "optional": false, "typeRef": "Runtime.RemoteObjectId"}], ["heapSnapshotObjectId"]);
+inspectorBackend.registerCommand("HeapProfiler.getObjectByHeapObjectId", [{"name": "objectId", "type": "string", "optional": false, "typeRef": "HeapProfiler.HeapSnapshotObjectId"}, {"name": "objectGroup", "type": "string", "optional": true}], ["result"]);
 inspectorBackend.registerCommand("HeapProfiler.getSamplingProfile", [], ["profile"]);
 inspectorBackend.registerCommand("HeapProfiler.startSampling", [{"name": "samplingInterval", "type": "number", "optional": true}, {"name": "includeObjectsCollectedByMajorGC", "type": "boolean", "optional": true}, {"name": "includeObjectsCollectedByMinorGC", "type": "boolean", "optional": true}], []);
 inspectorBackend.registerCommand("HeapProfiler.startTrackingHeapObjects", [{"name": "trackAllocations", "type": "boolean", "optional": true}], []);
@@ -973,29 +974,29 @@ inspectorBackend.registerEvent("Runtime.executionContextCreated", ["context"]);
 inspectorBackend.registerEvent("Runtime.executionContextDestroyed", ["executionContextId"]);
 inspectorBackend.registerEvent("Runtime.executionContextsCleared", []);
 inspectorBackend.registerEvent("Runtime.inspectRequested", ["object", "hints", "executionContextId"]);
-inspectorBackend.registerCommand("Runtime.awaitPromise", [{"name": "promiseObjectId", "type": "string", "optional": false}, {"name": "returnByValue", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}], ["result", "exceptionDetails"]);
-inspectorBackend.registerCommand("Runtime.callFunctionOn", [{"name": "functionDeclaration", "type": "string", "optional": false}, {"name": "objectId", "type": "string", "optional": true}, {"name": "arguments", "type": "object", "optional": true}, {"name": "silent", "type": "boolean", "optional": true}, {"name": "returnByValue", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}, {"name": "userGesture", "type": "boolean", "optional": true}, {"name": "awaitPromise", "type": "boolean", "optional": true}, {"name": "executionContextId", "type": "number", "optional": true}, {"name": "objectGroup", "type": "string", "optional": true}, {"name": "throwOnSideEffect", "type": "boolean", "optional": true}, {"name": "generateWebDriverValue", "type": "boolean", "optional": true}], ["result", "exceptionDetails"]);
-inspectorBackend.registerCommand("Runtime.compileScript", [{"name": "expression", "type": "string", "optional": false}, {"name": "sourceURL", "type": "string", "optional": false}, {"name": "persistScript", "type": "boolean", "optional": false}, {"name": "executionContextId", "type": "number", "optional": true}], ["scriptId", "exceptionDetails"]);
+inspectorBackend.registerCommand("Runtime.awaitPromise", [{"name": "promiseObjectId", "type": "string", "optional": false, "typeRef": "Runtime.RemoteObjectId"}, {"name": "returnByValue", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}], ["result", "exceptionDetails"]);
+inspectorBackend.registerCommand("Runtime.callFunctionOn", [{"name": "functionDeclaration", "type": "string", "optional": false}, {"name": "objectId", "type": "string", "optional": true, "typeRef": "Runtime.RemoteObjectId"}, {"name": "arguments", "type": "object", "optional": true}, {"name": "silent", "type": "boolean", "optional": true}, {"name": "returnByValue", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}, {"name": "userGesture", "type": "boolean", "optional": true}, {"name": "awaitPromise", "type": "boolean", "optional": true}, {"name": "executionContextId", "type": "number", "optional": true, "typeRef": "Runtime.ExecutionContextId"}, {"name": "objectGroup", "type": "string", "optional": true}, {"name": "throwOnSideEffect", "type": "boolean", "optional": true}, {"name": "generateWebDriverValue", "type": "boolean", "optional": true}], ["result", "exceptionDetails"]);
+inspectorBackend.registerCommand("Runtime.compileScript", [{"name": "expression", "type": "string", "optional": false}, {"name": "sourceURL", "type": "string", "optional": false}, {"name": "persistScript", "type": "boolean", "optional": false}, {"name": "executionContextId", "type": "number", "optional": true, "typeRef": "Runtime.ExecutionContextId"}], ["scriptId", "exceptionDetails"]);
 inspectorBackend.registerCommand("Runtime.disable", [], []);
 inspectorBackend.registerCommand("Runtime.discardConsoleEntries", [], []);
 inspectorBackend.registerCommand("Runtime.enable", [], []);
-inspectorBackend.registerCommand("Runtime.evaluate", [{"name": "expression", "type": "string", "optional": false}, {"name": "objectGroup", "type": "string", "optional": true}, {"name": "includeCommandLineAPI", "type": "boolean", "optional": true}, {"name": "silent", "type": "boolean", "optional": true}, {"name": "contextId", "type": "number", "optional": true}, {"name": "returnByValue", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}, {"name": "userGesture", "type": "boolean", "optional": true}, {"name": "awaitPromise", "type": "boolean", "optional": true}, {"name": "throwOnSideEffect", "type": "boolean", "optional": true}, {"name": "timeout", "type": "number", "optional": true}, {"name": "disableBreaks", "type": "boolean", "optional": true}, {"name": "replMode", "type": "boolean", "optional": true}, {"name": "allowUnsafeEvalBlockedByCSP", "type": "boolean", "optional": true}, {"name": "uniqueContextId", "type": "string", "optional": true}, {"name": "generateWebDriverValue", "type": "boolean", "optional": true}], ["result", "exceptionDetails"]);
+inspectorBackend.registerCommand("Runtime.evaluate", [{"name": "expression", "type": "string", "optional": false}, {"name": "objectGroup", "type": "string", "optional": true}, {"name": "includeCommandLineAPI", "type": "boolean", "optional": true}, {"name": "silent", "type": "boolean", "optional": true}, {"name": "contextId", "type": "number", "optional": true, "typeRef": "Runtime.ExecutionContextId"}, {"name": "returnByValue", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}, {"name": "userGesture", "type": "boolean", "optional": true}, {"name": "awaitPromise", "type": "boolean", "optional": true}, {"name": "throwOnSideEffect", "type": "boolean", "optional": true}, {"name": "timeout", "type": "number", "optional": true, "typeRef": "Runtime.TimeDelta"}, {"name": "disableBreaks", "type": "boolean", "optional": true}, {"name": "replMode", "type": "boolean", "optional": true}, {"name": "allowUnsafeEvalBlockedByCSP", "type": "boolean", "optional": true}, {"name": "uniqueContextId", "type": "string", "optional": true}, {"name": "generateWebDriverValue", "type": "boolean", "optional": true}], ["result", "exceptionDetails"]);
 inspectorBackend.registerCommand("Runtime.getIsolateId", [], ["id"]);
 inspectorBackend.registerCommand("Runtime.getHeapUsage", [], ["usedSize", "totalSize"]);
-inspectorBackend.registerCommand("Runtime.getProperties", [{"name": "objectId", "type": "string", "optional": false}, {"name": "ownProperties", "type": "boolean", "optional": true}, {"name": "accessorPropertiesOnly", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}, {"name": "nonIndexedPropertiesOnly", "type": "boolean", "optional": true}], ["result", "internalProperties", "privateProperties", "exceptionDetails"]);
-inspectorBackend.registerCommand("Runtime.globalLexicalScopeNames", [{"name": "executionContextId", "type": "number", "optional": true}], ["names"]);
-inspectorBackend.registerCommand("Runtime.queryObjects", [{"name": "prototypeObjectId", "type": "string", "optional": false}, {"name": "objectGroup", "type": "string", "optional": true}], ["objects"]);
-inspectorBackend.registerCommand("Runtime.releaseObject", [{"name": "objectId", "type": "string", "optional": false}], []);
+inspectorBackend.registerCommand("Runtime.getProperties", [{"name": "objectId", "type": "string", "optional": false, "typeRef": "Runtime.RemoteObjectId"}, {"name": "ownProperties", "type": "boolean", "optional": true}, {"name": "accessorPropertiesOnly", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}, {"name": "nonIndexedPropertiesOnly", "type": "boolean", "optional": true}], ["result", "internalProperties", "privateProperties", "exceptionDetails"]);
+inspectorBackend.registerCommand("Runtime.globalLexicalScopeNames", [{"name": "executionContextId", "type": "number", "optional": true, "typeRef": "Runtime.ExecutionContextId"}], ["names"]);
+inspectorBackend.registerCommand("Runtime.queryObjects", [{"name": "prototypeObjectId", "type": "string", "optional": false, "typeRef": "Runtime.RemoteObjectId"}, {"name": "objectGroup", "type": "string", "optional": true}], ["objects"]);
+inspectorBackend.registerCommand("Runtime.releaseObject", [{"name": "objectId", "type": "string", "optional": false, "typeRef": "Runtime.RemoteObjectId"}], []);
 inspectorBackend.registerCommand("Runtime.releaseObjectGroup", [{"name": "objectGroup", "type": "string", "optional": false}], []);
 inspectorBackend.registerCommand("Runtime.runIfWaitingForDebugger", [], []);
-inspectorBackend.registerCommand("Runtime.runScript", [{"name": "scriptId", "type": "string", "optional": false}, {"name": "executionContextId", "type": "number", "optional": true}, {"name": "objectGroup", "type": "string", "optional": true}, {"name": "silent", "type": "boolean", "optional": true}, {"name": "includeCommandLineAPI", "type": "boolean", "optional": true}, {"name": "returnByValue", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}, {"name": "awaitPromise", "type": "boolean", "optional": true}], ["result", "exceptionDetails"]);
+inspectorBackend.registerCommand("Runtime.runScript", [{"name": "scriptId", "type": "string", "optional": false, "typeRef": "Runtime.ScriptId"}, {"name": "executionContextId", "type": "number", "optional": true, "typeRef": "Runtime.ExecutionContextId"}, {"name": "objectGroup", "type": "string", "optional": true}, {"name": "silent", "type": "boolean", "optional": true}, {"name": "includeCommandLineAPI", "type": "boolean", "optional": true}, {"name": "returnByValue", "type": "boolean", "optional": true}, {"name": "generatePreview", "type": "boolean", "optional": true}, {"name": "awaitPromise", "type": "boolean", "optional": true}], ["result", "exceptionDetails"]);
 inspectorBackend.registerCommand("Runtime.setAsyncCallStackDepth", [{"name": "maxDepth", "type": "number", "optional": false}], []);
 inspectorBackend.registerCommand("Runtime.setCustomObjectFormatterEnabled", [{"name": "enabled", "type": "boolean", "optional": false}], []);
 inspectorBackend.registerCommand("Runtime.setMaxCallStackSizeToCapture", [{"name": "size", "type": "number", "optional": false}], []);
 inspectorBackend.registerCommand("Runtime.terminateExecution", [], []);
-inspectorBackend.registerCommand("Runtime.addBinding", [{"name": "name", "type": "string", "optional": false}, {"name": "executionContextId", "type": "number", "optional": true}, {"name": "executionContextName", "type": "string", "optional": true}], []);
+inspectorBackend.registerCommand("Runtime.addBinding", [{"name": "name", "type": "string", "optional": false}, {"name": "executionContextId", "type": "number", "optional": true, "typeRef": "Runtime.ExecutionContextId"}, {"name": "executionContextName", "type": "string", "optional": true}], []);
 inspectorBackend.registerCommand("Runtime.removeBinding", [{"name": "name", "type": "string", "optional": false}], []);
-inspectorBackend.registerCommand("Runtime.getExceptionDetails", [{"name": "errorObjectId", "type": "string", "optional": false}], ["exceptionDetails"]);
+inspectorBackend.registerCommand("Runtime.getExceptionDetails", [{"name": "errorObjectId", "type": "string", "optional": false, "typeRef": "Runtime.RemoteObjectId"}], ["exceptionDetails"]);
 
 // Schema.
 inspectorBackend.registerCommand("Schema.getDomains", [], ["domains"]);
@@ -3917,6 +3917,13 @@ export namespace ProtocolMapping {
       paramsType: [Protocol.WebAudio.GetRealtimeDataRequest];
       returnType: Protocol.WebAudio.GetRealtimeDataResponse;
     };
+    /**
+     * Returns the value an AudioParam has for the current render quantum of its context.
+     */
+    'WebAudio.getAudioParamValue': {
+      paramsType: [Protocol.WebAudio.GetAudioParamValueRequest];
+      returnType: Protocol.WebAudio.GetAudioParamValueResponse;
+    };
     /**
      * Enable the WebAuthn domain and start intercepting credential storage and
      * retrieval with a virtual authenticator.
@@ -3368,6 +3368,11 @@ declare namespace ProtocolProxyApi {
      */
     invoke_getRealtimeData(params: Protocol.WebAudio.GetRealtimeDataRequest): Promise<Protocol.WebAudio.GetRealtimeDataResponse>;
 
+    /**
+     * Returns the value an AudioParam has for the current render quantum of its context.
+     */
+    invoke_getAudioParamValue(params: Protocol.WebAudio.GetAudioParamValueRequest): Promise<Protocol.WebAudio.GetAudioParamValueResponse>;
+
   }
   export interface WebAudioDispatcher {
     /**
@@ -14847,6 +14847,15 @@ export namespace WebAudio {
     realtimeData: ContextRealtimeData;
   }
 
+  export interface GetAudioParamValueRequest {
+    contextId: GraphObjectId;
+    paramId: GraphObjectId;
+  }
+
+  export interface GetAudioParamValueResponse extends ProtocolResponseWithError {
+    value: number;
+  }
+
   /**
    * Notifies that a new BaseAudioContext has been created.
    */
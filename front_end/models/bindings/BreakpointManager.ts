@@ -113,10 +113,44 @@ export class BreakpointManager extends Common.ObjectWrapper.ObjectWrapper<EventT
     if (Root.Runtime.experiments.isEnabled(Root.Runtime.ExperimentName.INSTRUMENTATION_BREAKPOINTS)) {
       debuggerModel.setSynchronizeBreakpointsCallback(this.restoreBreakpointsForScript.bind(this));
     }
+    debuggerModel.addEventListener(SDK.DebuggerModel.Events.DebuggerPaused, this.#debuggerPaused, this);
+    debuggerModel.addEventListener(SDK.DebuggerModel.Events.GlobalObjectCleared, this.#globalObjectCleared, this);
   }
 
   modelRemoved(debuggerModel: SDK.DebuggerModel.DebuggerModel): void {
     debuggerModel.setSynchronizeBreakpointsCallback(null);
+    debuggerModel.removeEventListener(SDK.DebuggerModel.Events.DebuggerPaused, this.#debuggerPaused, this);
+    debuggerModel.removeEventListener(SDK.DebuggerModel.Events.GlobalObjectCleared, this.#globalObjectCleared, this);
+  }
+
+  // Arms the dependent breakpoints of the breakpoints that paused the debugger.
+  #debuggerPaused(event: Common.EventTarget.EventTargetEvent<SDK.DebuggerModel.DebuggerModel>): void {
+    const debuggerModel = event.data;
+    const hitBreakpointIds = debuggerModel.debuggerPausedDetails()?.breakpointIds ?? [];
+    if (!hitBreakpointIds.length) {
+      return;
+    }
+    const breakpoints = [...this.#breakpointByStorageId.values()];
+    const hitStorageIds =
+        new Set(breakpoints
+                    .filter(breakpoint => {
+                      const breakpointIds = breakpoint.modelBreakpoint(debuggerModel)?.breakpointIds ?? [];
+                      return breakpointIds.some(breakpointId => hitBreakpointIds.includes(breakpointId));
+                    })
+                    .map(breakpoint => breakpoint.breakpointStorageId()));
+    for (const breakpoint of breakpoints) {
+      const triggerBreakpointId = breakpoint.triggerBreakpointId();
+      if (triggerBreakpointId && hitStorageIds.has(triggerBreakpointId)) {
+        breakpoint.setArmed(debuggerModel, true);
+      }
+    }
+  }
+
+  // Dependent breakpoints have to be triggered again after a navigation of the target.
+  #globalObjectCleared(event: Common.EventTarget.EventTargetEvent<SDK.DebuggerModel.DebuggerModel>): void {
+    for (const breakpoint of this.#breakpointByStorageId.values()) {
+      breakpoint.setArmed(event.data, false);
+    }
   }
 
   addUpdateBindingsCallback(callback: ((uiSourceCode: Workspace.UISourceCode.UISourceCode) => Promise<void>)): void {
@@ -128,7 +162,8 @@ export class BreakpointManager extends Common.ObjectWrapper.ObjectWrapper<EventT
     const breakpointItems = this.storage.breakpointItems(fromURL);
     for (const item of breakpointItems) {
       await this.setBreakpoint(
-          toSourceCode, item.lineNumber, item.columnNumber, item.condition, item.enabled, BreakpointOrigin.OTHER);
+          toSourceCode, item.lineNumber, item.columnNumber, item.condition, item.enabled, BreakpointOrigin.OTHER,
+          Storage.hitOptions(item));
     }
   }
 
@@ -231,6 +266,20 @@ export class BreakpointManager extends Common.ObjectWrapper.ObjectWrapper<EventT
     return breakpointItems.length > 0;
   }
 
+  // Adds breakpoints that were saved elsewhere, e.g. in a file. They are set on the UI source codes of their URLs
+  // that are loaded, and kept in storage until the others are added. The replaced breakpoints are removed from
+  // storage, e.g. when imported breakpoints move to another URL.
+  importBreakpoints(breakpoints: BreakpointData[], replacedBreakpoints: BreakpointData[] = []): void {
+    this.storage.removeItems(replacedBreakpoints);
+    this.storage.addItems(breakpoints);
+    const urls = new Set(breakpoints.map(breakpoint => breakpoint.url));
+    for (const uiSourceCode of this.#workspace.uiSourceCodes()) {
+      if (urls.has(uiSourceCode.url())) {
+        this.restoreBreakpoints(uiSourceCode);
+      }
+    }
+  }
+
   static getScriptForInlineUiSourceCode(uiSourceCode: Workspace.UISourceCode.UISourceCode): SDK.Script.Script|null {
     const script = DefaultScriptMapping.scriptForUISourceCode(uiSourceCode);
     if (script && script.isInlineScript() && !script.hasSourceURL) {
@@ -300,7 +349,8 @@ export class BreakpointManager extends Common.ObjectWrapper.ObjectWrapper<EventT
         continue;
       }
       this.innerSetBreakpoint(
-          uiSourceCode, lineNumber, columnNumber, item.condition, item.enabled, BreakpointOrigin.OTHER);
+          uiSourceCode, lineNumber, columnNumber, item.condition, item.enabled, BreakpointOrigin.OTHER,
+          Storage.hitOptions(item));
     }
     this.storage.unmute();
   }
@@ -329,7 +379,8 @@ export class BreakpointManager extends Common.ObjectWrapper.ObjectWrapper<EventT
 
   async setBreakpoint(
       uiSourceCode: Workspace.UISourceCode.UISourceCode, lineNumber: number, columnNumber: number|undefined,
-      condition: string, enabled: boolean, origin: BreakpointOrigin): Promise<Breakpoint> {
+      condition: string, enabled: boolean, origin: BreakpointOrigin,
+      hitOptions: HitOptions = NO_HIT_OPTIONS): Promise<Breakpoint> {
     let uiLocation: Workspace.UISourceCode.UILocation =
         new Workspace.UISourceCode.UILocation(uiSourceCode, lineNumber, columnNumber);
     const normalizedLocation = await this.debuggerWorkspaceBinding.normalizeUILocation(uiLocation);
@@ -340,22 +391,23 @@ export class BreakpointManager extends Common.ObjectWrapper.ObjectWrapper<EventT
     const breakpointLocation = BreakpointManager.breakpointLocationFromUiLocation(uiLocation);
     return this.innerSetBreakpoint(
         uiLocation.uiSourceCode, breakpointLocation.lineNumber, breakpointLocation.columnNumber, condition, enabled,
-        origin);
+        origin, hitOptions);
   }
 
   private innerSetBreakpoint(
       uiSourceCode: Workspace.UISourceCode.UISourceCode, lineNumber: number, columnNumber: number|undefined,
-      condition: string, enabled: boolean, origin: BreakpointOrigin): Breakpoint {
+      condition: string, enabled: boolean, origin: BreakpointOrigin, hitOptions: HitOptions): Breakpoint {
     const url = BreakpointManager.getScriptForInlineUiSourceCode(uiSourceCode)?.sourceURL ?? uiSourceCode.url();
     const itemId = BreakpointManager.breakpointStorageId(url, lineNumber, columnNumber);
     let breakpoint = this.#breakpointByStorageId.get(itemId);
     if (breakpoint) {
-      breakpoint.updateState(condition, enabled);
+      breakpoint.updateState(condition, enabled, hitOptions);
       breakpoint.addUISourceCode(uiSourceCode);
       void breakpoint.updateBreakpoint();
       return breakpoint;
     }
-    breakpoint = new Breakpoint(this, uiSourceCode, url, lineNumber, columnNumber, condition, enabled, origin);
+    breakpoint =
+        new Breakpoint(this, uiSourceCode, url, lineNumber, columnNumber, condition, enabled, origin, hitOptions);
     this.#breakpointByStorageId.set(itemId, breakpoint);
     return breakpoint;
   }
@@ -479,6 +531,20 @@ export class BreakpointManager extends Common.ObjectWrapper.ObjectWrapper<EventT
       this.storage.removeBreakpoint(breakpoint);
     }
     this.#breakpointByStorageId.delete(breakpoint.breakpointStorageId());
+    if (removeFromStorage) {
+      this.clearTriggerBreakpoint(breakpoint.breakpointStorageId());
+    }
+  }
+
+  // Turns the breakpoints that depend on the given breakpoint into ordinary breakpoints, for when it
+  // is removed or can no longer pause.
+  clearTriggerBreakpoint(triggerBreakpointId: string): void {
+    for (const breakpoint of this.#breakpointByStorageId.values()) {
+      if (breakpoint.triggerBreakpointId() === triggerBreakpointId) {
+        breakpoint.setHitOptions({hitCount: breakpoint.hitCount(), triggerBreakpointId: null});
+      }
+    }
+    this.storage.clearTriggerBreakpoint(triggerBreakpointId);
   }
 
   uiLocationAdded(breakpoint: Breakpoint, uiLocation: Workspace.UISourceCode.UILocation): void {
@@ -511,6 +577,30 @@ export class BreakpointManager extends Common.ObjectWrapper.ObjectWrapper<EventT
   supportsConditionalBreakpoints(uiSourceCode: Workspace.UISourceCode.UISourceCode): boolean {
     return this.debuggerWorkspaceBinding.supportsConditionalBreakpoints(uiSourceCode);
   }
+
+  // The hits are counted in the inspected page, in an object behind a registered symbol so that
+  // it does not clash with the page's own globals. `counterId` identifies the counter of a breakpoint.
+  static conditionWithHitCount(condition: string, hitCount: HitCount, counterId: string): string {
+    let check;
+    switch (hitCount.mode) {
+      case HitCountMode.EQUAL:
+        check = `hits === ${hitCount.count}`;
+        break;
+      case HitCountMode.MULTIPLE:
+        check = `hits % ${hitCount.count} === 0`;
+        break;
+      case HitCountMode.GREATER:
+        check = `hits > ${hitCount.count}`;
+        break;
+    }
+    const counters = `globalThis[Symbol.for('${HitCountersSymbol}')] ??= {}`;
+    const hitCountCondition = `${HitCountPrefix}((counters, id) => {
+  const hits = counters[id] = (counters[id] || 0) + 1;
+  return ${check};
+})(${counters}, ${JSON.stringify(counterId)})`;
+    // The hits are counted before the condition is evaluated, so that logpoints can use hit counts as well.
+    return condition ? `${hitCountCondition} && (${condition}\n)` : hitCountCondition;
+  }
 }
 
 // TODO(crbug.com/1167717): Make this a const enum again
@@ -525,6 +615,47 @@ export type EventTypes = {
   [Events.BreakpointRemoved]: BreakpointLocation,
 };
 
+export const enum HitCountMode {
+  // Pause on the Nth hit only.
+  EQUAL = 'equal',
+  // Pause on every Nth hit.
+  MULTIPLE = 'multiple',
+  // Pause on every hit after the Nth hit.
+  GREATER = 'greater',
+}
+
+export interface HitCount {
+  mode: HitCountMode;
+  count: number;
+}
+
+// Options that restrict the hits on which a breakpoint pauses, in addition to its condition.
+export interface HitOptions {
+  hitCount: HitCount|null;
+  // The storage id of the breakpoint that has to pause before this breakpoint is armed.
+  triggerBreakpointId: string|null;
+}
+
+export const NO_HIT_OPTIONS: HitOptions = {
+  hitCount: null,
+  triggerBreakpointId: null,
+};
+
+const HitCountPrefix = '/** DEVTOOLS_HIT_COUNT */ ';
+const HitCountersSymbol = 'devtools.breakpointHitCounts';
+let lastHitCounterId = 0;
+
+// A breakpoint in the form in which it is saved.
+export interface BreakpointData {
+  url: Platform.DevToolsPath.UrlString;
+  lineNumber: number;
+  columnNumber?: number;
+  condition: string;
+  enabled: boolean;
+  hitCount?: HitCount;
+  triggerBreakpointId?: string;
+}
+
 export const enum DebuggerUpdateResult {
   OK = 'OK',
   ERROR_BREAKPOINT_CLASH = 'ERROR_BREAKPOINT_CLASH',
@@ -551,6 +682,13 @@ export class Breakpoint implements SDK.TargetManager.SDKModelObserver<SDK.Debugg
   uiSourceCodes: Set<Workspace.UISourceCode.UISourceCode>;
   #conditionInternal!: string;
   #enabledInternal!: boolean;
+  #hitCountInternal: HitCount|null = null;
+  #triggerBreakpointIdInternal: string|null = null;
+  // Dependent breakpoints are only set in the back-end of a debugger model once their trigger
+  // breakpoint has paused it.
+  readonly #armedDebuggerModels = new Set<SDK.DebuggerModel.DebuggerModel>();
+  // Identifies the hit counter in the inspected page, which is reset whenever the hit count changes.
+  #hitCounterId = '';
   #origin: BreakpointOrigin;
   isRemoved = false;
   currentState: Breakpoint.State|null;
@@ -559,7 +697,7 @@ export class Breakpoint implements SDK.TargetManager.SDKModelObserver<SDK.Debugg
   constructor(
       breakpointManager: BreakpointManager, primaryUISourceCode: Workspace.UISourceCode.UISourceCode,
       url: Platform.DevToolsPath.UrlString, lineNumber: number, columnNumber: number|undefined, condition: string,
-      enabled: boolean, origin: BreakpointOrigin) {
+      enabled: boolean, origin: BreakpointOrigin, hitOptions: HitOptions = NO_HIT_OPTIONS) {
     this.breakpointManager = breakpointManager;
     this.urlInternal = url;
     this.#lineNumberInternal = lineNumber;
@@ -573,7 +711,7 @@ export class Breakpoint implements SDK.TargetManager.SDKModelObserver<SDK.Debugg
     this.currentState = null;
 
     this.#modelBreakpoints = new Map();
-    this.updateState(condition, enabled);
+    this.updateState(condition, enabled, hitOptions);
     this.addUISourceCode(primaryUISourceCode);
     this.breakpointManager.targetManager.observeModels(SDK.DebuggerModel.DebuggerModel, this);
   }
@@ -606,6 +744,7 @@ export class Breakpoint implements SDK.TargetManager.SDKModelObserver<SDK.Debugg
     const modelBreakpoint = this.#modelBreakpoints.get(debuggerModel);
     modelBreakpoint?.cleanUpAfterDebuggerIsGone();
     this.#modelBreakpoints.delete(debuggerModel);
+    this.#armedDebuggerModels.delete(debuggerModel);
 
     this.#removeDebuggerModelListeners(debuggerModel);
   }
@@ -729,7 +868,7 @@ export class Breakpoint implements SDK.TargetManager.SDKModelObserver<SDK.Debugg
   }
 
   setEnabled(enabled: boolean): void {
-    this.updateState(this.#conditionInternal, enabled);
+    this.updateState(this.#conditionInternal, enabled, this.hitOptions());
   }
 
   condition(): string {
@@ -737,15 +876,70 @@ export class Breakpoint implements SDK.TargetManager.SDKModelObserver<SDK.Debugg
   }
 
   setCondition(condition: string): void {
-    this.updateState(condition, this.#enabledInternal);
+    this.updateState(condition, this.#enabledInternal, this.hitOptions());
+  }
+
+  hitCount(): HitCount|null {
+    return this.#hitCountInternal;
+  }
+
+  triggerBreakpointId(): string|null {
+    return this.#triggerBreakpointIdInternal;
   }
 
-  updateState(condition: string, enabled: boolean): void {
-    if (this.#enabledInternal === enabled && this.#conditionInternal === condition) {
+  hitOptions(): HitOptions {
+    return {hitCount: this.#hitCountInternal, triggerBreakpointId: this.#triggerBreakpointIdInternal};
+  }
+
+  setHitOptions(hitOptions: HitOptions): void {
+    this.updateState(this.#conditionInternal, this.#enabledInternal, hitOptions);
+  }
+
+  armed(debuggerModel: SDK.DebuggerModel.DebuggerModel): boolean {
+    return !this.#triggerBreakpointIdInternal || this.#armedDebuggerModels.has(debuggerModel);
+  }
+
+  setArmed(debuggerModel: SDK.DebuggerModel.DebuggerModel, armed: boolean): void {
+    if (!this.#triggerBreakpointIdInternal || this.#armedDebuggerModels.has(debuggerModel) === armed) {
+      return;
+    }
+    if (armed) {
+      this.#armedDebuggerModels.add(debuggerModel);
+    } else {
+      this.#armedDebuggerModels.delete(debuggerModel);
+    }
+    const modelBreakpoint = this.#modelBreakpoints.get(debuggerModel);
+    if (modelBreakpoint) {
+      void this.#updateModel(modelBreakpoint);
+    }
+  }
+
+  // The condition that is set in the back-end, which includes the counting of hits.
+  backendCondition(): string {
+    if (!this.#hitCountInternal) {
+      return this.#conditionInternal;
+    }
+    return BreakpointManager.conditionWithHitCount(this.#conditionInternal, this.#hitCountInternal, this.#hitCounterId);
+  }
+
+  updateState(condition: string, enabled: boolean, hitOptions: HitOptions = this.hitOptions()): void {
+    const {hitCount, triggerBreakpointId} = hitOptions;
+    const hitCountChanged =
+        this.#hitCountInternal?.mode !== hitCount?.mode || this.#hitCountInternal?.count !== hitCount?.count;
+    if (this.#enabledInternal === enabled && this.#conditionInternal === condition && !hitCountChanged &&
+        this.#triggerBreakpointIdInternal === triggerBreakpointId) {
       return;
     }
     this.#enabledInternal = enabled;
     this.#conditionInternal = condition;
+    if (hitCountChanged) {
+      this.#hitCountInternal = hitCount && {...hitCount};
+      this.#hitCounterId = `${this.breakpointStorageId()}#${++lastHitCounterId}`;
+    }
+    if (this.#triggerBreakpointIdInternal !== triggerBreakpointId) {
+      this.#triggerBreakpointIdInternal = triggerBreakpointId;
+      this.#armedDebuggerModels.clear();
+    }
     this.breakpointManager.storage.updateBreakpoint(this);
     void this.updateBreakpoint();
   }
@@ -851,6 +1045,10 @@ export class ModelBreakpoint {
     return this.#currentState;
   }
 
+  get breakpointIds(): Protocol.Debugger.BreakpointId[] {
+    return this.#breakpointIds;
+  }
+
   resetLocations(): void {
     for (const uiLocation of this.#uiLocations.values()) {
       this.#breakpoint.uiLocationRemoved(uiLocation);
@@ -891,11 +1089,12 @@ export class ModelBreakpoint {
     }
     const lineNumber = this.#breakpoint.lineNumber();
     const columnNumber = this.#breakpoint.columnNumber();
-    const condition = this.#breakpoint.condition();
+    const condition = this.#breakpoint.backendCondition();
 
     // Calculate the new state.
     let newState: Breakpoint.State|null = null;
-    if (!this.#breakpoint.getIsRemoved() && this.#breakpoint.enabled() && !this.scriptDiverged()) {
+    if (!this.#breakpoint.getIsRemoved() && this.#breakpoint.enabled() && this.#breakpoint.armed(this.#debuggerModel) &&
+        !this.scriptDiverged()) {
       let debuggerLocations: SDK.DebuggerModel.Location[] = [];
       for (const uiSourceCode of this.#breakpoint.getUiSourceCodes()) {
         const {lineNumber: uiLineNumber, columnNumber: uiColumnNumber} =
@@ -1005,7 +1204,7 @@ export class ModelBreakpoint {
     locations: SDK.DebuggerModel.Location[],
     serverError: boolean,
   }> {
-    const condition = this.#breakpoint.condition();
+    const condition = this.#breakpoint.backendCondition();
     const results = await Promise.all(newState.positions.map(pos => {
       if (pos.url) {
         return this.#debuggerModel.setBreakpointByURL(pos.url, pos.lineNumber, pos.columnNumber, condition);
@@ -1196,18 +1395,49 @@ class Storage {
     }
   }
 
+  clearTriggerBreakpoint(triggerBreakpointId: string): void {
+    const items = [...this.#breakpoints.values()].filter(item => item.triggerBreakpointId === triggerBreakpointId);
+    if (this.#muted || !items.length) {
+      return;
+    }
+    for (const item of items) {
+      delete item.triggerBreakpointId;
+    }
+    this.save();
+  }
+
+  removeItems(items: BreakpointData[]): void {
+    for (const item of items) {
+      this.#breakpoints.delete(BreakpointManager.breakpointStorageId(item.url, item.lineNumber, item.columnNumber));
+    }
+    this.save();
+  }
+
+  addItems(items: BreakpointData[]): void {
+    for (const item of items) {
+      this.#breakpoints.set(BreakpointManager.breakpointStorageId(item.url, item.lineNumber, item.columnNumber), item);
+    }
+    this.save();
+  }
+
   private save(): void {
     this.#setting.set(Array.from(this.#breakpoints.values()));
   }
+
+  static hitOptions(item: Storage.Item): HitOptions {
+    return {hitCount: item.hitCount ?? null, triggerBreakpointId: item.triggerBreakpointId ?? null};
+  }
 }
 
 namespace Storage {
-  export class Item {
+  export class Item implements BreakpointData {
     url: Platform.DevToolsPath.UrlString;
     lineNumber: number;
     columnNumber?: number;
     condition: string;
     enabled: boolean;
+    hitCount?: HitCount;
+    triggerBreakpointId?: string;
 
     constructor(breakpoint: Breakpoint) {
       this.url = breakpoint.url();
@@ -1215,6 +1445,14 @@ namespace Storage {
       this.columnNumber = breakpoint.columnNumber();
       this.condition = breakpoint.condition();
       this.enabled = breakpoint.enabled();
+      const hitCount = breakpoint.hitCount();
+      if (hitCount) {
+        this.hitCount = hitCount;
+      }
+      const triggerBreakpointId = breakpoint.triggerBreakpointId();
+      if (triggerBreakpointId) {
+        this.triggerBreakpointId = triggerBreakpointId;
+      }
     }
   }
 }
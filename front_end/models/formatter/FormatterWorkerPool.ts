@@ -133,8 +133,9 @@ export class FormatterWorkerPool {
         .then(result => result || '');
   }
 
-  javaScriptScopeTree(expression: string): Promise<FormatterActions.ScopeTreeNode|null> {
-    return this.runTask(FormatterActions.FormatterActions.JAVASCRIPT_SCOPE_TREE, {content: expression})
+  javaScriptScopeTree(expression: string, mimeType: string = FormatterActions.FormattableMediaTypes.TEXT_JAVASCRIPT):
+      Promise<FormatterActions.ScopeTreeNode|null> {
+    return this.runTask(FormatterActions.FormatterActions.JAVASCRIPT_SCOPE_TREE, {content: expression, mimeType})
         .then(result => result || null);
   }
 
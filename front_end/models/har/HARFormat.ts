@@ -38,7 +38,7 @@ class HARBase {
   }
 
   static optionalString(data: any): string|undefined {
-    return data !== undefined ? String(data) : undefined;
+    return data !== undefined && data !== null ? String(data) : undefined;
   }
 
   customAsString(name: string): string|undefined {
@@ -51,7 +51,7 @@ class HARBase {
 
   customAsNumber(name: string): number|undefined {
     const value = this.custom.get(name);
-    if (!value) {
+    if (value === undefined || value === null) {
       return undefined;
     }
     const numberValue = Number(value);
@@ -173,10 +173,11 @@ export class HAREntry extends HARBase {
     this.custom.set('priority', HARBase.optionalString(data['_priority']));
     this.custom.set('resourceType', HARBase.optionalString(data['_resourceType']));
     this.custom.set('webSocketMessages', this.importWebSocketMessages(data['_webSocketMessages']));
+    this.custom.set('eventSourceMessages', this.importEventSourceMessages(data['_eventSourceMessages']));
   }
 
   private importInitiator(initiator: any): HARInitiator|undefined {
-    if (typeof initiator !== 'object') {
+    if (!initiator || typeof initiator !== 'object') {
       return;
     }
 
@@ -197,6 +198,21 @@ export class HAREntry extends HARBase {
     }
     return outputMessages;
   }
+
+  private importEventSourceMessages(inputMessages: any): HAREventSourceMessage[]|undefined {
+    if (!Array.isArray(inputMessages)) {
+      return;
+    }
+
+    const outputMessages = [];
+    for (const message of inputMessages) {
+      if (typeof message !== 'object') {
+        return;
+      }
+      outputMessages.push(new HAREventSourceMessage(message));
+    }
+    return outputMessages;
+  }
 }
 
 class HARRequest extends HARBase {
@@ -372,6 +388,10 @@ export class HARTimings extends HARBase {
     // Chrome specific.
     this.custom.set('blocked_queueing', HARBase.optionalNumber(data['_blocked_queueing']));
     this.custom.set('blocked_proxy', HARBase.optionalNumber(data['_blocked_proxy']));
+    this.custom.set('workerStart', HARBase.optionalNumber(data['_workerStart']));
+    this.custom.set('workerReady', HARBase.optionalNumber(data['_workerReady']));
+    this.custom.set('workerFetchStart', HARBase.optionalNumber(data['_workerFetchStart']));
+    this.custom.set('workerRespondWithSettled', HARBase.optionalNumber(data['_workerRespondWithSettled']));
   }
 }
 
@@ -379,6 +399,7 @@ export class HARInitiator extends HARBase {
   type: Protocol.Network.InitiatorType;
   url?: string;
   lineNumber?: number;
+  columnNumber?: number;
   requestId?: Protocol.Network.RequestId;
   stack?: HARStack;
   /**
@@ -390,6 +411,7 @@ export class HARInitiator extends HARBase {
         Protocol.Network.InitiatorType;
     this.url = HARBase.optionalString(data['url']);
     this.lineNumber = HARBase.optionalNumber(data['lineNumber']);
+    this.columnNumber = HARBase.optionalNumber(data['columnNumber']);
     this.requestId = HARBase.optionalString(data['requestId']) as Protocol.Network.RequestId;
     if (data['stack']) {
       this.stack = new HARStack(data['stack']);
@@ -464,3 +486,17 @@ class HARWebSocketMessage extends HARBase {
     this.type = HARBase.optionalString(data['type']);
   }
 }
+
+class HAREventSourceMessage extends HARBase {
+  time: number|undefined;
+  eventName: string|undefined;
+  eventId: string|undefined;
+  data: string|undefined;
+  constructor(data: any) {
+    super(data);
+    this.time = HARBase.optionalNumber(data['time']);
+    this.eventName = HARBase.optionalString(data['eventName']);
+    this.eventId = HARBase.optionalString(data['eventId']);
+    this.data = HARBase.optionalString(data['data']);
+  }
+}
@@ -35,6 +35,9 @@ export class Importer {
           requestId: initiatorEntry.requestId,
           stack: initiatorEntry.stack,
         };
+        if (initiatorEntry.columnNumber !== undefined) {
+          initiator.columnNumber = initiatorEntry.columnNumber;
+        }
       }
       const request = SDK.NetworkRequest.NetworkRequest.createWithoutBackendRequest(
           'har-' + requests.length, entry.request.url, documentURL, initiator);
@@ -70,13 +73,13 @@ export class Importer {
     }
     request.connectionId = entry.connection || '';
     request.requestMethod = entry.request.method;
-    request.setRequestHeaders(entry.request.headers);
+    request.setRequestHeaders(entry.request.headers.map(({name, value}) => ({name, value})));
 
     // Response data.
     if (entry.response.content.mimeType && entry.response.content.mimeType !== 'x-unknown') {
       request.mimeType = (entry.response.content.mimeType as SDK.NetworkRequest.MIME_TYPE);
     }
-    request.responseHeaders = entry.response.headers;
+    request.responseHeaders = entry.response.headers.map(({name, value}) => ({name, value}));
     request.statusCode = entry.response.status;
     request.statusText = entry.response.statusText;
     let protocol = entry.response.httpVersion.toLowerCase();
@@ -149,6 +152,24 @@ export class Importer {
       }
     }
 
+    const eventSourceMessages = entry.customAsArray('eventSourceMessages');
+    if (eventSourceMessages) {
+      for (const message of eventSourceMessages) {
+        if (message.time === undefined) {
+          continue;
+        }
+        // addEventSourceMessage() takes a protocol monotonic timestamp and converts it with pseudoWallTime(). Imported
+        // requests are issued at the same time on both clocks, so that conversion keeps the exported times as they are.
+        request.addEventSourceMessage(message.time, message.eventName || '', message.eventId || '', message.data || '');
+      }
+    }
+
+    const error = entry.response.customAsString('error');
+    if (error) {
+      request.failed = true;
+      request.localizedFailDescription = error;
+    }
+
     request.finished = true;
   }
 
@@ -190,10 +211,17 @@ export class Importer {
       lastEntry += timing;
       return lastEntry;
     }
-    let lastEntry = timings.blocked && (timings.blocked >= 0) ? timings.blocked : 0;
-
     const proxy = timings.customAsNumber('blocked_proxy') || -1;
-    const queueing = timings.customAsNumber('blocked_queueing') || -1;
+    const exportedQueueing = timings.customAsNumber('blocked_queueing');
+    const queueing = exportedQueueing || -1;
+
+    // The timings below are relative to the request time, which is after the queueing part of "blocked".
+    // DevTools exports "blocked" as the queueing time, which is -1 when there was none, plus the time before
+    // the request started.
+    let lastEntry = 0;
+    if (timings.blocked && (timings.blocked >= 0)) {
+      lastEntry = Math.max(timings.blocked - (exportedQueueing ?? 0), 0);
+    }
 
     // SSL is part of connect for both HAR and Chrome's format so subtract it here.
     const ssl = timings.ssl && (timings.ssl >= 0) ? timings.ssl : 0;
@@ -215,10 +243,10 @@ export class Importer {
       sslStart: timings.ssl && (timings.ssl >= 0) ? lastEntry : -1,
       sslEnd: accumulateTime(timings.ssl),
 
-      workerStart: -1,
-      workerReady: -1,
-      workerFetchStart: -1,
-      workerRespondWithSettled: -1,
+      workerStart: timings.customAsNumber('workerStart') ?? -1,
+      workerReady: timings.customAsNumber('workerReady') ?? -1,
+      workerFetchStart: timings.customAsNumber('workerFetchStart') ?? -1,
+      workerRespondWithSettled: timings.customAsNumber('workerRespondWithSettled') ?? -1,
       sendStart: timings.send >= 0 ? lastEntry : -1,
       sendEnd: accumulateTime(timings.send),
       pushStart: 0,
@@ -228,6 +256,6 @@ export class Importer {
     accumulateTime(timings.receive);
 
     request.timing = timing;
-    request.endTime = issueTime + Math.max(entryTotalDuration, lastEntry) / 1000;
+    request.endTime = Math.max(issueTime + entryTotalDuration / 1000, timing.requestTime + lastEntry / 1000);
   }
 }
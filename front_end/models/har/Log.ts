@@ -39,18 +39,30 @@ import type * as Platform from '../../core/platform/platform.js';
 import * as SDK from '../../core/sdk/sdk.js';
 import type * as Protocol from '../../generated/protocol.js';
 
+import {Redactor, type RedactionRule} from './Redaction.js';
+
+export interface BuildOptions {
+  // The response content isn't part of the log, so it has to be redacted by
+  // whoever adds it to the entries.
+  redactionRules?: RedactionRule[];
+}
+
 export class Log {
   static pseudoWallTime(request: SDK.NetworkRequest.NetworkRequest, monotonicTime: number): Date {
     return new Date(request.pseudoWallTime(monotonicTime) * 1000);
   }
 
-  static async build(requests: SDK.NetworkRequest.NetworkRequest[]): Promise<LogDTO> {
+  static async build(requests: SDK.NetworkRequest.NetworkRequest[], options: BuildOptions = {}): Promise<LogDTO> {
     const log = new Log();
     const entryPromises = [];
     for (const request of requests) {
       entryPromises.push(Entry.build(request));
     }
     const entries = await Promise.all(entryPromises);
+    if (options.redactionRules && options.redactionRules.length) {
+      const redactor = new Redactor(options.redactionRules);
+      await Promise.all(entries.map(entry => redactor.redactEntry(entry)));
+    }
     return {version: '1.2', creator: log.creator(), pages: log.buildPages(requests), entries};
   }
 
@@ -136,8 +148,11 @@ export class Entry {
       if (initiator.lineNumber !== undefined) {
         exportedInitiator.lineNumber = initiator.lineNumber;
       }
+      if (initiator.columnNumber !== undefined) {
+        exportedInitiator.columnNumber = initiator.columnNumber;
+      }
       if (initiator.stack) {
-        exportedInitiator.stack = initiator.stack;
+        exportedInitiator.stack = harEntry.buildStackTrace(initiator.stack);
       }
     }
 
@@ -147,6 +162,7 @@ export class Entry {
       _priority: harEntry.request.priority(),
       _resourceType: harEntry.request.resourceType().name(),
       _webSocketMessages: undefined,
+      _eventSourceMessages: undefined,
       cache: {},
       connection: undefined,
       pageref: undefined,
@@ -190,9 +206,45 @@ export class Entry {
       delete entry._webSocketMessages;
     }
 
+    if (harEntry.request.resourceType() === Common.ResourceType.resourceTypes.EventSource) {
+      const messages = [];
+      for (const message of harEntry.request.eventSourceMessages()) {
+        messages.push({time: message.time, eventName: message.eventName, eventId: message.eventId, data: message.data});
+      }
+      entry._eventSourceMessages = messages;
+    } else {
+      delete entry._eventSourceMessages;
+    }
+
     return entry;
   }
 
+  private buildStackTrace(stack: Protocol.Runtime.StackTrace): Protocol.Runtime.StackTrace {
+    // Stacks of imported requests carry the HAR parsing state along, so only copy the fields of the protocol type.
+    const result: Protocol.Runtime.StackTrace = {
+      callFrames: stack.callFrames.map(callFrame => ({
+                                         functionName: callFrame.functionName,
+                                         scriptId: callFrame.scriptId,
+                                         url: callFrame.url,
+                                         lineNumber: callFrame.lineNumber,
+                                         columnNumber: callFrame.columnNumber,
+                                       })),
+    };
+    if (stack.description !== undefined) {
+      result.description = stack.description;
+    }
+    if (stack.parent) {
+      result.parent = this.buildStackTrace(stack.parent);
+    }
+    if (stack.parentId) {
+      result.parentId = {id: stack.parentId.id};
+      if (stack.parentId.debuggerId !== undefined) {
+        result.parentId.debuggerId = stack.parentId.debuggerId;
+      }
+    }
+    return result;
+  }
+
   private async buildRequest(): Promise<Request> {
     const headersText = this.request.requestHeadersText();
     const res: Request = {
@@ -309,6 +361,14 @@ export class Entry {
         result.send = 0;
       }
       highestTime = Math.max(sendEnd, connectEnd, sslEnd, dnsEnd, blockedStart, 0);
+
+      // Service worker timings don't map to any of the HAR phases, so they are kept relative to the request time.
+      if (timing.workerStart >= 0) {
+        result._workerStart = timing.workerStart;
+        result._workerReady = timing.workerReady;
+        result._workerFetchStart = timing.workerFetchStart;
+        result._workerRespondWithSettled = timing.workerRespondWithSettled;
+      }
     } else if (this.request.responseReceivedTime === -1) {
       // Means that we don't have any more details after blocked, so attribute all to blocked.
       result.blocked = Entry.toMilliseconds(this.request.endTime - issueTime);
@@ -425,6 +485,10 @@ export interface Timing {
   // TODO(crbug.com/1172300) Ignored during the jsdoc to ts migration
   // eslint-disable-next-line @typescript-eslint/naming-convention
   _blocked_proxy?: number;
+  _workerStart?: number;
+  _workerReady?: number;
+  _workerFetchStart?: number;
+  _workerRespondWithSettled?: number;
 }
 
 export interface Parameter {
@@ -444,7 +508,7 @@ export interface Request {
   method: string;
   url: Platform.DevToolsPath.UrlString;
   httpVersion: string;
-  headers: Object;
+  headers: Parameter[];
   queryString: Parameter[];
   cookies: CookieDTO[];
   headersSize: number;
@@ -456,7 +520,7 @@ export interface Response {
   status: number;
   statusText: string;
   httpVersion: string;
-  headers: Object;
+  headers: Parameter[];
   cookies: CookieDTO[];
   content: Content;
   redirectURL: string;
@@ -472,6 +536,7 @@ export interface EntryDTO {
   _priority: Protocol.Network.ResourcePriority|null;
   _resourceType: string;
   _webSocketMessages?: Object[];
+  _eventSourceMessages?: Object[];
   cache: Object;
   connection?: string;
   pageref?: string;
@@ -0,0 +1,306 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type * as Protocol from '../../generated/protocol.js';
+
+import {type Content, type CookieDTO, type EntryDTO, type Parameter} from './Log.js';
+
+export const enum RedactionTarget {
+  Header = 'header',
+  Cookie = 'cookie',
+  QueryParameter = 'query-parameter',
+  BodyField = 'body-field',
+}
+
+export const enum RedactionAction {
+  // Drops the header, cookie, parameter or field from the log.
+  Remove = 'remove',
+  // Replaces the value with its SHA-256 hash, so that equal values can still
+  // be told apart from different ones.
+  Hash = 'hash',
+}
+
+export interface RedactionRule {
+  target: RedactionTarget;
+  // Header names are matched case-insensitively, everything else exactly.
+  // '*' matches every name.
+  name: string;
+  action: RedactionAction;
+}
+
+export class Redactor {
+  readonly #rules: RedactionRule[];
+  readonly #hashes = new Map<string, Promise<string>>();
+
+  constructor(rules: RedactionRule[]) {
+    this.#rules = rules;
+  }
+
+  async redactEntry(entry: EntryDTO): Promise<void> {
+    const request = entry.request;
+    request.url = await this.#redactURL(request.url);
+    request.queryString = await this.#redactParameters(RedactionTarget.QueryParameter, request.queryString);
+    request.headers = await this.#redactHeaders(request.headers);
+    request.cookies = await this.#redactCookies(request.cookies);
+    if (request.postData) {
+      const postData = request.postData;
+      postData.text = await this.#redactBody(postData.text, postData.mimeType);
+      if (postData.params) {
+        postData.params = await this.#redactParameters(RedactionTarget.BodyField, postData.params);
+      }
+    }
+
+    const response = entry.response;
+    response.headers = await this.#redactHeaders(response.headers);
+    response.cookies = await this.#redactCookies(response.cookies);
+    response.redirectURL = await this.#redactURL(response.redirectURL);
+    await this.redactContent(response.content);
+
+    if (entry._initiator) {
+      entry._initiator = await this.#redactInitiator(entry._initiator);
+    }
+    if (entry._webSocketMessages) {
+      entry._webSocketMessages = await this.#redactMessages(entry._webSocketMessages);
+    }
+    if (entry._eventSourceMessages) {
+      entry._eventSourceMessages = await this.#redactMessages(entry._eventSourceMessages);
+    }
+  }
+
+  async redactContent(content: Content): Promise<void> {
+    // There is no telling what is in encoded content, so it is left alone.
+    if (content.text === undefined || content.encoding) {
+      return;
+    }
+    content.text = await this.#redactBody(content.text, content.mimeType);
+  }
+
+  #rule(target: RedactionTarget, name: string): RedactionRule|undefined {
+    const ignoreCase = target === RedactionTarget.Header;
+    return this.#rules.find(
+        rule => rule.target === target &&
+            (rule.name === '*' || rule.name === name ||
+             (ignoreCase && rule.name.toLowerCase() === name.toLowerCase())));
+  }
+
+  // Returns null if the value should be removed.
+  async #redactValue(target: RedactionTarget, name: string, value: string): Promise<string|null> {
+    const rule = this.#rule(target, name);
+    if (!rule) {
+      return value;
+    }
+    if (rule.action === RedactionAction.Remove) {
+      return null;
+    }
+    return this.#hash(value);
+  }
+
+  #hash(value: string): Promise<string> {
+    let hash = this.#hashes.get(value);
+    if (!hash) {
+      hash = crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)).then(digest => {
+        const bytes = [...new Uint8Array(digest)];
+        return 'sha256:' + bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+      });
+      this.#hashes.set(value, hash);
+    }
+    return hash;
+  }
+
+  async #redactParameters(target: RedactionTarget, parameters: Parameter[]): Promise<Parameter[]> {
+    const result = [];
+    for (const {name, value} of parameters) {
+      const redactedValue = await this.#redactValue(target, name, value);
+      if (redactedValue !== null) {
+        result.push({name, value: redactedValue});
+      }
+    }
+    return result;
+  }
+
+  async #redactHeaders(headers: Parameter[]): Promise<Parameter[]> {
+    const result = [];
+    // Cookies and query parameters can be found in headers too.
+    for (const {name, value} of await this.#redactParameters(RedactionTarget.Header, headers)) {
+      const lowerCaseName = name.toLowerCase();
+      let redactedValue = value;
+      if (lowerCaseName === 'cookie') {
+        redactedValue = await this.#redactCookieHeader(value);
+      } else if (lowerCaseName === 'set-cookie') {
+        redactedValue = await this.#redactSetCookieHeader(value);
+      } else if (lowerCaseName === ':path' || lowerCaseName === 'location' || lowerCaseName === 'referer') {
+        redactedValue = await this.#redactURL(value);
+      }
+      // Drop the cookie headers if all their cookies were removed.
+      if (redactedValue || !value) {
+        result.push({name, value: redactedValue});
+      }
+    }
+    return result;
+  }
+
+  async #redactInitiator(initiator: Protocol.Network.Initiator): Promise<Protocol.Network.Initiator> {
+    const result = {...initiator};
+    if (result.url !== undefined) {
+      result.url = await this.#redactURL(result.url);
+    }
+    if (result.stack) {
+      result.stack = await this.#redactStackTrace(result.stack);
+    }
+    return result;
+  }
+
+  async #redactStackTrace(stack: Protocol.Runtime.StackTrace): Promise<Protocol.Runtime.StackTrace> {
+    const callFrames = [];
+    for (const callFrame of stack.callFrames) {
+      callFrames.push({...callFrame, url: await this.#redactURL(callFrame.url)});
+    }
+    const result = {...stack, callFrames};
+    if (result.parent) {
+      result.parent = await this.#redactStackTrace(result.parent);
+    }
+    return result;
+  }
+
+  // WebSocket frames and server-sent events often carry JSON, whose fields are redacted like body fields.
+  async #redactMessages(messages: Object[]): Promise<Object[]> {
+    const result = [];
+    for (const message of messages as {data?: unknown}[]) {
+      if (typeof message.data === 'string') {
+        result.push({...message, data: await this.#redactBody(message.data, 'application/json')});
+      } else {
+        result.push(message);
+      }
+    }
+    return result;
+  }
+
+  async #redactCookies(cookies: CookieDTO[]): Promise<CookieDTO[]> {
+    const result = [];
+    for (const cookie of cookies) {
+      const value = await this.#redactValue(RedactionTarget.Cookie, cookie.name, cookie.value);
+      if (value !== null) {
+        result.push({...cookie, value});
+      }
+    }
+    return result;
+  }
+
+  async #redactCookieHeader(value: string): Promise<string> {
+    const cookies = [];
+    for (const cookie of value.split(';')) {
+      const redactedCookie =
+          await this.#redactNameValuePair(RedactionTarget.Cookie, cookie.trim(), keepComponent, keepComponent);
+      if (redactedCookie !== null) {
+        cookies.push(redactedCookie);
+      }
+    }
+    return cookies.join('; ');
+  }
+
+  async #redactSetCookieHeader(value: string): Promise<string> {
+    // DevTools joins multiple Set-Cookie headers with new lines.
+    const cookies = [];
+    for (const line of value.split('\n')) {
+      const separator = line.indexOf(';');
+      const pair = separator === -1 ? line : line.substring(0, separator);
+      const redactedPair = await this.#redactNameValuePair(RedactionTarget.Cookie, pair, keepComponent, keepComponent);
+      if (redactedPair !== null) {
+        cookies.push(separator === -1 ? redactedPair : redactedPair + line.substring(separator));
+      }
+    }
+    return cookies.join('\n');
+  }
+
+  async #redactURL<T extends string>(url: T): Promise<T> {
+    const queryStart = url.indexOf('?');
+    if (queryStart === -1) {
+      return url;
+    }
+    const query = await this.#redactQuery(RedactionTarget.QueryParameter, url.substring(queryStart + 1));
+    return (query ? url.substring(0, queryStart + 1) + query : url.substring(0, queryStart)) as T;
+  }
+
+  async #redactQuery(target: RedactionTarget, query: string): Promise<string> {
+    const parameters = [];
+    for (const parameter of query.split('&')) {
+      const redactedParameter =
+          await this.#redactNameValuePair(target, parameter, decodeQueryComponent, encodeURIComponent);
+      if (redactedParameter !== null) {
+        parameters.push(redactedParameter);
+      }
+    }
+    return parameters.join('&');
+
+    function decodeQueryComponent(component: string): string {
+      try {
+        return decodeURIComponent(component.replace(/\+/g, ' '));
+      } catch {
+        return component;
+      }
+    }
+  }
+
+  // Redacts a `name=value` pair, leaving it exactly as it was if it isn't redacted.
+  async #redactNameValuePair(
+      target: RedactionTarget, pair: string, decode: (component: string) => string,
+      encode: (component: string) => string): Promise<string|null> {
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex === -1) {
+      return pair;
+    }
+    const name = pair.substring(0, separatorIndex);
+    const value = decode(pair.substring(separatorIndex + 1));
+    const redactedValue = await this.#redactValue(target, decode(name), value);
+    if (redactedValue === null) {
+      return null;
+    }
+    return redactedValue === value ? pair : name + '=' + encode(redactedValue);
+  }
+
+  async #redactBody(text: string, mimeType: string): Promise<string> {
+    if (/\bjson\b|\+json\b/.test(mimeType)) {
+      let body;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        return text;
+      }
+      return await this.#redactJSONFields(body) ? JSON.stringify(body) : text;
+    }
+    if (mimeType.startsWith('application/x-www-form-urlencoded')) {
+      return this.#redactQuery(RedactionTarget.BodyField, text);
+    }
+    return text;
+  }
+
+  // Redacts the fields of the JSON value in place, and returns whether anything was redacted.
+  async #redactJSONFields(value: unknown): Promise<boolean> {
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+    let redacted = false;
+    const object = value as {[key: string]: unknown};
+    for (const key of Object.keys(object)) {
+      const field = object[key];
+      if (!Array.isArray(object) && this.#rule(RedactionTarget.BodyField, key)) {
+        const fieldValue = typeof field === 'string' ? field : JSON.stringify(field);
+        const redactedValue = await this.#redactValue(RedactionTarget.BodyField, key, fieldValue);
+        if (redactedValue === null) {
+          delete object[key];
+        } else {
+          object[key] = redactedValue;
+        }
+        redacted = true;
+        continue;
+      }
+      redacted = await this.#redactJSONFields(field) || redacted;
+    }
+    return redacted;
+  }
+}
+
+function keepComponent(component: string): string {
+  return component;
+}
@@ -37,7 +37,8 @@ import * as i18n from '../../core/i18n/i18n.js';
 import * as Platform from '../../core/platform/platform.js';
 import type * as SDK from '../../core/sdk/sdk.js';
 
-import {Log, type EntryDTO} from './Log.js';
+import {Log, type BuildOptions, type EntryDTO} from './Log.js';
+import {Redactor} from './Redaction.js';
 
 const UIStrings = {
   /**
@@ -54,10 +55,10 @@ const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
 export class Writer {
   static async write(
       stream: Common.StringOutputStream.OutputStream, requests: SDK.NetworkRequest.NetworkRequest[],
-      progress: Common.Progress.Progress): Promise<void> {
+      progress: Common.Progress.Progress, options: BuildOptions = {}): Promise<void> {
     const compositeProgress = new Common.Progress.CompositeProgress(progress);
 
-    const content = await Writer.harStringForRequests(requests, compositeProgress);
+    const content = await Writer.harStringForRequests(requests, compositeProgress, options);
     if (progress.isCanceled()) {
       return;
     }
@@ -65,15 +66,15 @@ export class Writer {
   }
 
   static async harStringForRequests(
-      requests: SDK.NetworkRequest.NetworkRequest[],
-      compositeProgress: Common.Progress.CompositeProgress): Promise<string> {
+      requests: SDK.NetworkRequest.NetworkRequest[], compositeProgress: Common.Progress.CompositeProgress,
+      options: BuildOptions = {}): Promise<string> {
     const progress = compositeProgress.createSubProgress();
     progress.setTitle(i18nString(UIStrings.collectingContent));
     progress.setTotalWork(requests.length);
 
     // Sort by issueTime because this is recorded as startedDateTime in HAR logs.
     requests.sort((reqA, reqB) => reqA.issueTime() - reqB.issueTime());
-    const harLog = await Log.build(requests);
+    const harLog = await Log.build(requests, options);
     const promises = [];
     for (let i = 0; i < requests.length; i++) {
       const promise = requests[i].contentData();
@@ -81,6 +82,10 @@ export class Writer {
     }
 
     await Promise.all(promises);
+    if (options.redactionRules && options.redactionRules.length) {
+      const redactor = new Redactor(options.redactionRules);
+      await Promise.all(harLog.entries.map(entry => redactor.redactContent(entry.response.content)));
+    }
     progress.done();
 
     if (progress.isCanceled()) {
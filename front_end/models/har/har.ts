@@ -5,11 +5,13 @@
 import * as HARFormat from './HARFormat.js';
 import * as Importer from './Importer.js';
 import * as Log from './Log.js';
+import * as Redaction from './Redaction.js';
 import * as Writer from './Writer.js';
 
 export {
   HARFormat,
   Importer,
   Log,
+  Redaction,
   Writer,
 };
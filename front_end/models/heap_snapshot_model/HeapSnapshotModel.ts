@@ -186,6 +186,25 @@ export class DiffForClass {
   }
 }
 
+/**
+ * The objects of a class that were added since the base snapshot and share the same
+ * shortest retainer path, e.g. `Window.cache → Array[]`.
+ */
+export class RetainerPathDiff {
+  className: string;
+  retainerPath: string[];
+  count: number;
+  selfSize: number;
+  retainedSize: number;
+  constructor(className: string, retainerPath: string[]) {
+    this.className = className;
+    this.retainerPath = retainerPath;
+    this.count = 0;
+    this.selfSize = 0;
+    this.retainedSize = 0;
+  }
+}
+
 export class ComparatorConfig {
   fieldName1: string;
   ascending1: boolean;
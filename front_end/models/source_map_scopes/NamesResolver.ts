@@ -2,6 +2,7 @@
 // Use of this source code is governed by a BSD-style license that can be
 // found in the LICENSE file.
 
+import * as Common from '../../core/common/common.js';
 import * as SDK from '../../core/sdk/sdk.js';
 import * as Bindings from '../bindings/bindings.js';
 import * as Formatter from '../formatter/formatter.js';
@@ -48,7 +49,7 @@ export class IdentifierPositions {
   }
 }
 
-const tryParseScope = async function(scopeText: string): Promise<{
+const tryParseScope = async function(scopeText: string, mimeType: string): Promise<{
   prefixLength: number, scopeTree: Formatter.FormatterWorkerPool.ScopeTreeNode,
 }|null> {
   const prefixSuffixToTry = [
@@ -62,8 +63,8 @@ const tryParseScope = async function(scopeText: string): Promise<{
     {prefix: 'async ', suffix: ''},
   ];
   for (const {prefix, suffix} of prefixSuffixToTry) {
-    const scopeTree =
-        await Formatter.FormatterWorkerPool.formatterWorkerPool().javaScriptScopeTree(prefix + scopeText + suffix);
+    const scopeTree = await Formatter.FormatterWorkerPool.formatterWorkerPool().javaScriptScopeTree(
+        prefix + scopeText + suffix, mimeType);
     if (scopeTree) {
       return {prefixLength: prefix.length, scopeTree};
     }
@@ -92,7 +93,9 @@ const computeScopeTree = async function(functionScope: SDK.DebuggerModel.ScopeCh
       functionEndLocation.columnNumber);
   const scopeText = text.extract(scopeRange);
   const scopeStart = text.toSourceRange(scopeRange).offset;
-  const prefixLengthAndscopeTree = await tryParseScope(scopeText);
+  // Scripts that are served unbundled, like TypeScript and JSX in development, are parsed in their own syntax.
+  const mimeType = Common.ResourceType.ResourceType.mimeFromURL(script.sourceURL) ?? 'text/javascript';
+  const prefixLengthAndscopeTree = await tryParseScope(scopeText, mimeType);
   if (!prefixLengthAndscopeTree) {
     return null;
   }
@@ -0,0 +1,89 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Platform from '../../core/platform/platform.js';
+
+import type * as Handlers from './handlers/handlers.js';
+import type * as Types from './types/types.js';
+
+// The built-in handlers are fixed at build time (see ModelHandlers.ts). Code
+// outside of the trace engine, such as an embedder of DevTools, can contribute
+// extra handlers at runtime by registering them with an
+// ExtensionHandlerRegistry and passing that registry to the TraceProcessor (or
+// the Model) that should run them. Only the processors given the registry run
+// its handlers, and their data ends up in the TraceParseData under the
+// handler's namespaced name, e.g. `com.example/Instrumentation`.
+//
+// Extension handlers can depend on the built-in handlers, or on other
+// extension handlers, via their deps() function, just like the built-in ones.
+
+export function extensionHandlerName(namespace: string, name: string): Handlers.Types.ExtensionHandlerName {
+  if (!namespace) {
+    throw new Error('Trace event handlers must be registered with a namespace.');
+  }
+  if (!name || name.includes('/')) {
+    throw new Error(`Invalid trace event handler name: "${name}".`);
+  }
+  return `${namespace}/${name}`;
+}
+
+export class ExtensionHandlerRegistry {
+  readonly #handlers = new Map<Handlers.Types.ExtensionHandlerName, Handlers.Types.TraceEventHandler>();
+
+  register(namespace: string, name: string, handler: Handlers.Types.TraceEventHandler):
+      Handlers.Types.ExtensionHandlerName {
+    const handlerName = extensionHandlerName(namespace, name);
+    if (this.#handlers.has(handlerName)) {
+      throw new Error(`A trace event handler named ${handlerName} is already registered.`);
+    }
+    this.#handlers.set(handlerName, handler);
+    return handlerName;
+  }
+
+  unregister(handlerName: Handlers.Types.ExtensionHandlerName): void {
+    this.#handlers.delete(handlerName);
+  }
+
+  handlers(): Map<Handlers.Types.ExtensionHandlerName, Handlers.Types.TraceEventHandler> {
+    return new Map(this.#handlers);
+  }
+}
+
+export interface EventCollectorData {
+  events: readonly Types.TraceEvents.TraceEventData[];
+  eventsByName: Map<string, Types.TraceEvents.TraceEventData[]>;
+}
+
+/**
+ * Creates a handler that collects all the trace events with the given names,
+ * in the order they appear in the trace, for instrumentation events that need
+ * no further processing.
+ */
+export function createEventCollectorHandler(eventNames: readonly string[]): Handlers.Types.TraceEventHandler&{
+  data(): EventCollectorData,
+} {
+  const names = new Set(eventNames);
+  const events: Types.TraceEvents.TraceEventData[] = [];
+  const eventsByName = new Map<string, Types.TraceEvents.TraceEventData[]>();
+
+  return {
+    reset(): void {
+      events.length = 0;
+      eventsByName.clear();
+    },
+    handleEvent(event: Types.TraceEvents.TraceEventData): void {
+      if (!names.has(event.name)) {
+        return;
+      }
+      events.push(event);
+      Platform.MapUtilities.getWithDefault(eventsByName, event.name, () => []).push(event);
+    },
+    data(): EventCollectorData {
+      return {
+        events: [...events],
+        eventsByName: new Map(eventsByName),
+      };
+    },
+  };
+}
@@ -8,6 +8,7 @@ import * as Handlers from './handlers/handlers.js';
 import * as Helpers from './helpers/helpers.js';
 import {TraceProcessor} from './TraceProcessor.js';
 
+import {type ExtensionHandlerRegistry} from './ExtensionHandlers.js';
 import type * as Types from './types/types.js';
 
 // Note: this model is implemented in a way that can support multiple trace
@@ -15,13 +16,20 @@ import type * as Types from './types/types.js';
 // references to "processors" plural because it can easily be extended in the future.
 
 export class Model extends EventTarget {
-  readonly #traceProcessor = new TraceProcessor(Handlers.ModelHandlers);
+  readonly #traceProcessor: TraceProcessor<typeof Handlers.ModelHandlers>;
   readonly #traces: ParsedTraceFile[] = [];
   readonly #nextNumberByDomain = new Map<string, number>();
 
   readonly #recordingsAvailable: string[] = [];
   #lastRecordingIndex = 0;
 
+  // Handlers registered with `extensionHandlers` run alongside the built-in
+  // ones for every trace this model parses.
+  constructor(extensionHandlers?: ExtensionHandlerRegistry) {
+    super();
+    this.#traceProcessor = new TraceProcessor(Handlers.ModelHandlers, {extensionHandlers});
+  }
+
   async parse(
       traceEvents: readonly Types.TraceEvents.TraceEventData[], metadata: TraceFileMetaData = {},
       freshRecording = false): Promise<void> {
@@ -5,6 +5,7 @@
 import type * as Handlers from './handlers/handlers.js';
 import type * as Types from './types/types.js';
 
+import {type ExtensionHandlerRegistry} from './ExtensionHandlers.js';
 import {type TraceParseEventProgressData, TraceParseEvent} from './ModelImpl.js';
 const enum Status {
   IDLE = 0,
@@ -16,14 +17,23 @@ const enum Status {
 export class TraceProcessor<ModelHandlers extends {[key: string]: Handlers.Types.TraceEventHandler}> extends
     EventTarget {
   readonly #traceHandlers: {[key: string]: Handlers.Types.TraceEventHandler};
+  // The extension handlers that were registered when parsing started. They are
+  // kept so that the data can be read even if they are unregistered later.
+  #extensionHandlers = new Map<Handlers.Types.ExtensionHandlerName, Handlers.Types.TraceEventHandler>();
+  readonly #extensionHandlerRegistry: ExtensionHandlerRegistry|null;
   #pauseDuration: number;
   #pauseFrequencyMs: number;
   #status = Status.IDLE;
 
-  constructor(traceHandlers: ModelHandlers, {pauseDuration = 20, pauseFrequencyMs = 100} = {}) {
+  constructor(traceHandlers: ModelHandlers, {pauseDuration = 20, pauseFrequencyMs = 100, extensionHandlers}: {
+    pauseDuration?: number,
+    pauseFrequencyMs?: number,
+    extensionHandlers?: ExtensionHandlerRegistry,
+  } = {}) {
     super();
 
     this.#traceHandlers = traceHandlers;
+    this.#extensionHandlerRegistry = extensionHandlers ?? null;
     this.#pauseDuration = pauseDuration;
     this.#pauseFrequencyMs = pauseFrequencyMs;
   }
@@ -33,10 +43,11 @@ export class TraceProcessor<ModelHandlers extends {[key: string]: Handlers.Types
       throw new Error('Trace processor can\'t reset while parsing.');
     }
 
-    const handlers = Object.values(this.#traceHandlers);
+    const handlers = [...Object.values(this.#traceHandlers), ...this.#extensionHandlers.values()];
     for (const handler of handlers) {
       handler.reset();
     }
+    this.#extensionHandlers.clear();
 
     this.#status = Status.IDLE;
   }
@@ -62,8 +73,11 @@ export class TraceProcessor<ModelHandlers extends {[key: string]: Handlers.Types
     // pause duration and frequency.
     const traceEventIterator = new TraceEventIterator(traceEvents, this.#pauseDuration, this.#pauseFrequencyMs);
 
+    this.#extensionHandlers = this.#extensionHandlerRegistry?.handlers() ?? new Map();
+    const allHandlers = {...this.#traceHandlers, ...Object.fromEntries(this.#extensionHandlers)};
+
     // Convert to array so that we are able to iterate all handlers multiple times.
-    const sortedHandlers = [...sortHandlers(this.#traceHandlers).values()];
+    const sortedHandlers = [...sortHandlers(allHandlers).values()];
     // Reset.
     for (const handler of sortedHandlers) {
       handler.reset();
@@ -91,7 +105,7 @@ export class TraceProcessor<ModelHandlers extends {[key: string]: Handlers.Types
     }
   }
 
-  get data(): Handlers.Types.HandlerData<ModelHandlers>|null {
+  get data(): Handlers.Types.HandlerDataWithExtensions<ModelHandlers>|null {
     if (this.#status !== Status.FINISHED_PARSING) {
       return null;
     }
@@ -100,8 +114,11 @@ export class TraceProcessor<ModelHandlers extends {[key: string]: Handlers.Types
     for (const [name, handler] of Object.entries(this.#traceHandlers)) {
       Object.assign(data, {[name]: handler.data()});
     }
+    for (const [name, handler] of this.#extensionHandlers) {
+      Object.assign(data, {[name]: handler.data()});
+    }
 
-    return data as Handlers.Types.HandlerData<ModelHandlers>;
+    return data as Handlers.Types.HandlerDataWithExtensions<ModelHandlers>;
   }
 }
 
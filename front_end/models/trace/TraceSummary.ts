@@ -0,0 +1,216 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Handlers from './handlers/handlers.js';
+import {MetricName} from './handlers/PageLoadMetricsHandler.js';
+import {type TraceFile, type TraceFileContents} from './ModelImpl.js';
+import {TraceProcessor} from './TraceProcessor.js';
+
+import type * as Types from './types/types.js';
+
+// This module contains no DOM or SDK dependencies, so that it can be used to
+// analyze traces outside of the DevTools UI; for example, from Node via
+// scripts/trace/analyze_trace.mjs. Everything it returns is plain data that
+// can be serialized with JSON.stringify.
+
+/**
+ * Traces can be stored either as a plain array of trace events, or as an
+ * object containing the events and some metadata. This normalizes both into
+ * the latter.
+ */
+export function traceFileFromContents(contents: TraceFileContents): TraceFile {
+  if (Array.isArray(contents)) {
+    return {traceEvents: contents, metadata: {}};
+  }
+  if (!Array.isArray(contents.traceEvents)) {
+    throw new Error('Trace file contents do not contain any trace events.');
+  }
+  return {traceEvents: contents.traceEvents, metadata: contents.metadata ?? {}};
+}
+
+/**
+ * Runs all the model handlers over the given trace and returns a summary of
+ * the parsed data. Unlike the Model, this doesn't yield to the main thread
+ * while parsing, as there is no UI to keep responsive.
+ */
+export async function analyzeTrace(contents: TraceFileContents): Promise<TraceSummary> {
+  const {traceEvents, metadata} = traceFileFromContents(contents);
+  const processor = new TraceProcessor(Handlers.ModelHandlers, {pauseDuration: 0, pauseFrequencyMs: Infinity});
+  await processor.parse(traceEvents);
+  const data = processor.data;
+  if (!data) {
+    throw new Error('Trace processor did not produce any data.');
+  }
+  return summarizeTraceParseData(data, metadata);
+}
+
+export function summarizeTraceParseData(
+    data: Handlers.Types.TraceParseData, metadata: TraceFile['metadata'] = {}): TraceSummary {
+  return {
+    metadata,
+    mainFrameId: data.Meta.mainFrameId,
+    mainFrameURL: data.Meta.mainFrameURL,
+    traceBounds: {...data.Meta.traceBounds},
+    navigations: summarizeNavigations(data),
+    layoutShifts: summarizeLayoutShifts(data),
+    longTasks: data.LongTasks.longTasks.map(summarizeLongTask),
+    networkRequests: data.NetworkRequests.byTime.map(summarizeNetworkRequest),
+    userTimings: data.UserTimings.timings.map(summarizeUserTiming),
+  };
+}
+
+function summarizeNavigations(data: Handlers.Types.TraceParseData): NavigationSummary[] {
+  const navigations: NavigationSummary[] = [];
+  for (const [frameId, metricsByNavigation] of data.PageLoadMetrics.metricScoresByFrameId) {
+    for (const [navigationId, metrics] of metricsByNavigation) {
+      const summary: NavigationSummary = {
+        navigationId,
+        frameId,
+        isMainFrame: frameId === data.Meta.mainFrameId,
+        url: null,
+        ts: null,
+        metrics: {},
+        totalBlockingTime: data.LongTasks.totalBlockingTimeByNavigationId.get(navigationId)?.value ?? null,
+      };
+      for (const [metricName, metricScore] of metrics) {
+        const navigation = metricScore.navigation;
+        if (navigation) {
+          summary.url = navigation.args.data?.documentLoaderURL ?? null;
+          summary.ts = navigation.ts;
+        }
+        summary.metrics[metricName] = {
+          score: metricScore.score,
+          classification: metricScore.classification,
+          estimated: Boolean(metricScore.estimated),
+          // The time since the navigation, for the metrics that are tied to a
+          // point in time. TBT is a duration, and its event is the TTI event.
+          timing: metricScore.event && navigation && metricName !== MetricName.TBT ?
+              metricScore.event.ts - navigation.ts :
+              null,
+        };
+      }
+      navigations.push(summary);
+    }
+  }
+  return navigations.sort((a, b) => (a.ts ?? 0) - (b.ts ?? 0));
+}
+
+function summarizeLayoutShifts(data: Handlers.Types.TraceParseData): LayoutShiftsSummary {
+  return {
+    sessionMaxScore: data.LayoutShifts.sessionMaxScore,
+    clusters: data.LayoutShifts.clusters.map(cluster => {
+      return {
+        ts: cluster.clusterWindow.min,
+        dur: cluster.clusterWindow.range,
+        score: cluster.clusterCumulativeScore,
+        shiftCount: cluster.events.length,
+      };
+    }),
+  };
+}
+
+function summarizeLongTask(longTask: Handlers.ModelHandlers.LongTasks.LongTask): LongTaskSummary {
+  return {
+    ts: longTask.event.ts,
+    dur: longTask.duration,
+    blockingDuration: longTask.blockingDuration,
+    scriptURL: longTask.scriptURL,
+  };
+}
+
+function summarizeNetworkRequest(request: Types.TraceEvents.TraceEventSyntheticNetworkRequest): NetworkRequestSummary {
+  const {data} = request.args;
+  return {
+    requestId: data.requestId,
+    url: data.url,
+    ts: request.ts,
+    dur: request.dur,
+    statusCode: data.statusCode,
+    mimeType: data.mimeType,
+    priority: data.priority,
+    renderBlocking: data.renderBlocking,
+    fromCache: data.fromCache,
+    fromServiceWorker: data.fromServiceWorker,
+    encodedDataLength: data.encodedDataLength,
+    decodedBodyLength: data.decodedBodyLength,
+  };
+}
+
+function summarizeUserTiming(timing: Types.TraceEvents.TraceEventSyntheticUserTiming): UserTimingSummary {
+  return {
+    name: timing.name,
+    ts: timing.ts,
+    dur: timing.dur,
+  };
+}
+
+// All timestamps and durations in the summary are in microseconds, like the
+// trace events they come from.
+
+export interface TraceSummary {
+  metadata: TraceFile['metadata'];
+  mainFrameId: string;
+  mainFrameURL: string;
+  traceBounds: Types.Timing.TraceWindow;
+  navigations: NavigationSummary[];
+  layoutShifts: LayoutShiftsSummary;
+  longTasks: LongTaskSummary[];
+  networkRequests: NetworkRequestSummary[];
+  userTimings: UserTimingSummary[];
+}
+
+export interface NavigationSummary {
+  navigationId: string;
+  frameId: string;
+  isMainFrame: boolean;
+  url: string|null;
+  ts: Types.Timing.MicroSeconds|null;
+  metrics: {[key in Handlers.ModelHandlers.PageLoadMetrics.MetricName]?: MetricSummary};
+  totalBlockingTime: Types.Timing.MicroSeconds|null;
+}
+
+export interface MetricSummary {
+  score: string;
+  classification: Handlers.ModelHandlers.PageLoadMetrics.ScoreClassification;
+  estimated: boolean;
+  timing: number|null;
+}
+
+export interface LayoutShiftsSummary {
+  sessionMaxScore: number;
+  clusters: Array<{
+    ts: Types.Timing.MicroSeconds,
+    dur: Types.Timing.MicroSeconds,
+    score: number,
+    shiftCount: number,
+  }>;
+}
+
+export interface LongTaskSummary {
+  ts: Types.Timing.MicroSeconds;
+  dur: Types.Timing.MicroSeconds;
+  blockingDuration: Types.Timing.MicroSeconds;
+  scriptURL: string|null;
+}
+
+export interface NetworkRequestSummary {
+  requestId: string;
+  url: string;
+  ts: Types.Timing.MicroSeconds;
+  dur: Types.Timing.MicroSeconds;
+  statusCode: number;
+  mimeType: string;
+  priority: string;
+  renderBlocking: Types.TraceEvents.RenderBlocking;
+  fromCache: boolean;
+  fromServiceWorker: boolean;
+  encodedDataLength: number;
+  decodedBodyLength: number;
+}
+
+export interface UserTimingSummary {
+  name: string;
+  ts: Types.Timing.MicroSeconds;
+  dur: Types.Timing.MicroSeconds;
+}
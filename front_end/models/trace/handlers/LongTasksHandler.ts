@@ -0,0 +1,242 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Platform from '../../../core/platform/platform.js';
+import * as Helpers from '../helpers/helpers.js';
+import * as Types from '../types/types.js';
+
+import {data as metaHandlerData} from './MetaHandler.js';
+import {data as pageLoadMetricsData, MetricName} from './PageLoadMetricsHandler.js';
+import {data as rendererHandlerData, type RendererEvent, type RendererThread} from './RendererHandler.js';
+import {data as samplesHandlerData, type ProfileCall, type ProfileTree} from './SamplesHandler.js';
+import {HandlerState, KnownEventName, type TraceEventHandlerName} from './types.js';
+
+/**
+ * Any main thread task that takes longer than this is considered a long task.
+ * The time over this threshold is what counts as "blocking" time.
+ * See https://web.dev/long-tasks-devtools/.
+ */
+export const LONG_TASK_THRESHOLD = Helpers.Timing.millisecondsToMicroseconds(Types.Timing.MilliSeconds(50));
+
+let handlerState = HandlerState.UNINITIALIZED;
+
+const longTasks: LongTask[] = [];
+const longTasksByScriptURL = new Map<string, LongTask[]>();
+const totalBlockingTimeByNavigationId = new Map<string, TotalBlockingTime>();
+
+export function reset(): void {
+  longTasks.length = 0;
+  longTasksByScriptURL.clear();
+  totalBlockingTimeByNavigationId.clear();
+
+  handlerState = HandlerState.UNINITIALIZED;
+}
+
+export function initialize(): void {
+  if (handlerState !== HandlerState.UNINITIALIZED) {
+    throw new Error('LongTasks Handler was not reset');
+  }
+
+  handlerState = HandlerState.INITIALIZED;
+}
+
+export function handleEvent(_event: Types.TraceEvents.TraceEventData): void {
+  // All the data for this handler is derived from the Renderer, Samples and
+  // PageLoadMetrics handlers once they have finalized, so there is nothing to
+  // do on a per-event basis.
+  if (handlerState !== HandlerState.INITIALIZED) {
+    throw new Error('LongTasks Handler is not initialized');
+  }
+}
+
+export async function finalize(): Promise<void> {
+  if (handlerState !== HandlerState.INITIALIZED) {
+    throw new Error('LongTasks Handler is not initialized');
+  }
+
+  collectLongTasks();
+  calculateTotalBlockingTimes();
+
+  handlerState = HandlerState.FINALIZED;
+}
+
+export function data(): LongTasksHandlerData {
+  if (handlerState !== HandlerState.FINALIZED) {
+    throw new Error('LongTasks Handler is not finalized');
+  }
+
+  return {
+    longTasks: [...longTasks],
+    longTasksByScriptURL: new Map(longTasksByScriptURL),
+    totalBlockingTimeByNavigationId: new Map(totalBlockingTimeByNavigationId),
+  };
+}
+
+export function deps(): TraceEventHandlerName[] {
+  return ['Meta', 'Renderer', 'Samples', 'PageLoadMetrics'];
+}
+
+function isMainThread(thread: RendererThread): boolean {
+  return thread.name === 'CrRendererMain';
+}
+
+/**
+ * Steps through the top level tasks of every renderer main thread and keeps
+ * the ones that exceed the long task threshold. Only top level tasks are
+ * considered, as nested tasks are already accounted for by their parent.
+ */
+function collectLongTasks(): void {
+  const {processes} = rendererHandlerData();
+  for (const process of processes.values()) {
+    for (const thread of process.threads.values()) {
+      if (!isMainThread(thread) || !thread.tree) {
+        continue;
+      }
+      for (const rootId of thread.tree.roots) {
+        const node = thread.tree.nodes.get(rootId);
+        if (node === undefined) {
+          throw new Error(`Node not found for id: ${rootId}`);
+        }
+        const task = thread.events[node.eventIndex];
+        if (task === undefined) {
+          throw new Error(`Event not found for index: ${node.eventIndex}`);
+        }
+        if (!isLongTask(task)) {
+          continue;
+        }
+        const longTask: LongTask = {
+          event: task,
+          duration: task.dur,
+          blockingDuration: Types.Timing.MicroSeconds(task.dur - LONG_TASK_THRESHOLD),
+          scriptURL: getTopLevelScriptURLForTask(task),
+        };
+        longTasks.push(longTask);
+        if (longTask.scriptURL) {
+          Platform.MapUtilities.getWithDefault(longTasksByScriptURL, longTask.scriptURL, () => []).push(longTask);
+        }
+      }
+    }
+  }
+  longTasks.sort((a, b) => a.event.ts - b.event.ts);
+}
+
+function isLongTask(event: RendererEvent): event is Types.TraceEvents.TraceEventComplete {
+  return event.name === KnownEventName.RunTask && Types.TraceEvents.isTraceEventComplete(event) &&
+      event.dur > LONG_TASK_THRESHOLD;
+}
+
+/**
+ * Attributes a task to the script that was responsible for most of its
+ * execution time. For every sampled call that happened during the task, the
+ * stack is walked from the bottom until the first frame with a URL is found;
+ * that frame's URL is the "top level" script for the call. The URL that
+ * accumulated the longest duration wins.
+ */
+export function getTopLevelScriptURLForTask(task: Types.TraceEvents.TraceEventComplete): string|null {
+  const thread = samplesHandlerData().processes.get(task.pid)?.threads.get(task.tid);
+  if (!thread?.calls || !thread.tree) {
+    return null;
+  }
+  const taskEnd = task.ts + task.dur;
+  const durationByURL = new Map<string, number>();
+  for (const call of thread.calls) {
+    if (call.ts < task.ts || call.ts + call.dur > taskEnd) {
+      continue;
+    }
+    const url = findTopLevelScriptURL(call, thread.tree);
+    if (url) {
+      durationByURL.set(url, (durationByURL.get(url) || 0) + call.dur);
+    }
+  }
+
+  let topLevelURL: string|null = null;
+  let maxDuration = -1;
+  for (const [url, duration] of durationByURL) {
+    if (duration > maxDuration) {
+      topLevelURL = url;
+      maxDuration = duration;
+    }
+  }
+  return topLevelURL;
+}
+
+function findTopLevelScriptURL(call: ProfileCall, tree: ProfileTree): string|null {
+  const url = tree.nodes.get(call.stackFrame.nodeId)?.callFrame.url;
+  if (url) {
+    return url;
+  }
+  // If the frame has no URL (e.g. it is a native or an anonymous frame), look
+  // for the longest child instead.
+  let longestChild: ProfileCall|null = null;
+  for (const child of call.children) {
+    if (!longestChild || child.dur > longestChild.dur) {
+      longestChild = child;
+    }
+  }
+  return longestChild ? findTopLevelScriptURL(longestChild, tree) : null;
+}
+
+/**
+ * Collects the Total Blocking Time that the PageLoadMetrics handler reported or
+ * estimated for every navigation that reached FCP, together with the long tasks
+ * on the navigation's main thread that contributed to it. TBT is measured
+ * between FCP and TTI, or the end of the trace if TTI wasn't reached (e.g. the
+ * recording was stopped before the page settled).
+ */
+function calculateTotalBlockingTimes(): void {
+  const {metricScoresByFrameId} = pageLoadMetricsData();
+  const {traceBounds} = metaHandlerData();
+  for (const [frameId, metricsByNavigation] of metricScoresByFrameId) {
+    for (const [navigationId, metrics] of metricsByNavigation) {
+      const fcp = metrics.get(MetricName.FCP);
+      const tbt = metrics.get(MetricName.TBT);
+      if (!fcp?.event || !fcp.navigation || tbt?.value === undefined) {
+        continue;
+      }
+      const {pid, ts: startTime} = fcp.event;
+      const endTime = metrics.get(MetricName.TTI)?.event?.ts ?? traceBounds.max;
+      // Following Lighthouse, the tasks that straddle FCP or TTI only count if
+      // their portion within the window is long.
+      const tasksInWindow = longTasks.filter(
+          ({event}) => event.pid === pid &&
+              Math.min(event.ts + event.dur, endTime) - Math.max(event.ts, startTime) > LONG_TASK_THRESHOLD);
+      totalBlockingTimeByNavigationId.set(navigationId, {
+        frameId,
+        navigation: fcp.navigation,
+        startTime,
+        endTime,
+        value: tbt.value,
+        longTasks: tasksInWindow,
+      });
+    }
+  }
+}
+
+export interface LongTask {
+  event: Types.TraceEvents.TraceEventComplete;
+  duration: Types.Timing.MicroSeconds;
+  // The portion of the task over the long task threshold.
+  blockingDuration: Types.Timing.MicroSeconds;
+  // The URL of the script that was responsible for most of the task's
+  // execution, if the CPU profile allowed us to work it out.
+  scriptURL: string|null;
+}
+
+export interface TotalBlockingTime {
+  frameId: string;
+  navigation: Types.TraceEvents.TraceEventNavigationStart;
+  // The FCP timestamp.
+  startTime: Types.Timing.MicroSeconds;
+  // The TTI timestamp, or the end of the trace if TTI was not reached.
+  endTime: Types.Timing.MicroSeconds;
+  value: Types.Timing.MicroSeconds;
+  // The long tasks that contributed to this TBT value.
+  longTasks: LongTask[];
+}
+
+export interface LongTasksHandlerData {
+  longTasks: readonly LongTask[];
+  longTasksByScriptURL: Map<string, LongTask[]>;
+  totalBlockingTimeByNavigationId: Map<string, TotalBlockingTime>;
+}
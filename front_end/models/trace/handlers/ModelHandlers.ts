@@ -7,6 +7,7 @@ export * as GPU from './GPUHandler.js';
 export * as LargestImagePaint from './LargestImagePaintHandler.js';
 export * as LargestTextPaint from './LargestTextPaintHandler.js';
 export * as LayoutShifts from './LayoutShiftsHandler.js';
+export * as LongTasks from './LongTasksHandler.js';
 export * as Meta from './MetaHandler.js';
 export * as NetworkRequests from './NetworkRequestsHandler.js';
 export * as PageLoadMetrics from './PageLoadMetricsHandler.js';
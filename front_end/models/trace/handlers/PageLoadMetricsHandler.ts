@@ -127,6 +127,7 @@ function storePageLoadMetricAgainstNavigationId(
     const tbt = {
       event,
       score: tbtScore,
+      value: tbtValue,
       metricName: MetricName.TBT,
       classification: scoreClassificationForTotalBlockingTime(tbtValue),
       navigation,
@@ -318,6 +319,7 @@ function estimateTotalBlockingTimes(): void {
       });
       const tbtMetric = {
         score: tbtScore,
+        value: tbtValue,
         estimated: true,
         metricName: MetricName.TBT,
         classification: scoreClassificationForTotalBlockingTime(tbtValue),
@@ -496,6 +498,8 @@ export const enum MetricName {
 
 export interface MetricScore {
   score: string;
+  // The total blocking time, for TBT scores.
+  value?: Types.Timing.MicroSeconds;
   metricName: MetricName;
   classification: ScoreClassification;
   event?: Types.TraceEvents.PageLoadEvent;
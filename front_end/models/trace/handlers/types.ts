@@ -11,7 +11,11 @@ export interface TraceEventHandler {
   data(): unknown;
   deps?(): TraceEventHandlerName[];
 }
-export type TraceEventHandlerName = keyof typeof ModelHandlers;
+// Handlers contributed from outside the trace engine (see ExtensionHandlers.ts)
+// are keyed by a namespaced name, so that they can't clash with the built-in
+// ones.
+export type ExtensionHandlerName = `${string}/${string}`;
+export type TraceEventHandlerName = keyof typeof ModelHandlers|ExtensionHandlerName;
 
 // This type maps TraceEventHandler names to the return type of their data
 // function. So, for example, if we are given an object with a key of 'foo'
@@ -37,7 +41,16 @@ export type HandlerData<T extends {[key: string]: TraceEventHandler}> = {
 
 import type * as ModelHandlers from './ModelHandlers.js';
 
-export type TraceParseData = Readonly<HandlerData<typeof ModelHandlers>>;
+// The data from extension handlers is opaque to the trace engine; whoever
+// registered the handler knows what its data looks like.
+export type ExtensionHandlerData = {
+  readonly [key: ExtensionHandlerName]: unknown,
+};
+
+export type HandlerDataWithExtensions<T extends {[key: string]: TraceEventHandler}> =
+    HandlerData<T>&ExtensionHandlerData;
+
+export type TraceParseData = Readonly<HandlerData<typeof ModelHandlers>>&ExtensionHandlerData;
 
 export type Handlers = typeof ModelHandlers;
 
@@ -2,18 +2,22 @@
 // Use of this source code is governed by a BSD-style license that can be
 // found in the LICENSE file.
 
+import * as ExtensionHandlers from './ExtensionHandlers.js';
 import * as Handlers from './handlers/handlers.js';
 import * as Helpers from './helpers/helpers.js';
 import * as TraceModel from './ModelImpl.js';
 import * as SDKServices from './sdk_services/sdk_services.js';
 import * as TraceProcessor from './TraceProcessor.js';
+import * as TraceSummary from './TraceSummary.js';
 import * as Types from './types/types.js';
 
 export {
+  ExtensionHandlers,
   Handlers,
   Helpers,
   SDKServices,
   TraceModel,
   TraceProcessor,
+  TraceSummary,
   Types,
 };
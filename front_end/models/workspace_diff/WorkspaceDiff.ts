@@ -4,6 +4,8 @@
 
 import * as Common from '../../core/common/common.js';
 import * as Host from '../../core/host/host.js';
+import type * as Platform from '../../core/platform/platform.js';
+import * as SDK from '../../core/sdk/sdk.js';
 import * as Diff from '../../third_party/diff/diff.js';
 import * as FormatterModule from '../formatter/formatter.js';
 import * as Persistence from '../persistence/persistence.js';
@@ -161,6 +163,44 @@ export class WorkspaceDiffImpl extends Common.ObjectWrapper.ObjectWrapper<EventT
     return this.uiSourceCodeDiff(uiSourceCode).originalContent();
   }
 
+  /**
+   * Returns the changes to all modified text files as a unified diff that `git apply` accepts.
+   * Changes to compiled files are made to their authored files when their source maps allow it.
+   * Files are patched at their path in the workspace folder they are mapped to, or else at the
+   * path of their URL.
+   */
+  async requestPatch(): Promise<string> {
+    const files: PatchFile[] = [];
+    for (const uiSourceCode of this.modifiedUISourceCodes()) {
+      if (!uiSourceCode.contentType().isTextType()) {
+        continue;
+      }
+      const baseline = await this.requestOriginalContentForUISourceCode(uiSourceCode);
+      let current = uiSourceCode.workingCopy();
+      if (!current && !uiSourceCode.contentLoaded()) {
+        current = (await uiSourceCode.requestContent()).content ?? '';
+      }
+      if (baseline === null) {
+        continue;
+      }
+      const sourceMap = sourceMapForUISourceCode(uiSourceCode);
+      const authoredChanges =
+          sourceMap &&
+          await authoredFileChanges(
+              baseline, current, authoredLineResolver(sourceMap), authoredContentProvider(sourceMap));
+      if (authoredChanges) {
+        for (const [url, changes] of authoredChanges) {
+          const authoredUISourceCode = Workspace.Workspace.WorkspaceImpl.instance().uiSourceCodeForURL(url);
+          const path = authoredUISourceCode ? patchPath(authoredUISourceCode) : patchPathForURL(url);
+          files.push({path, url, ...changes});
+        }
+      } else {
+        files.push({path: patchPath(uiSourceCode), url: uiSourceCode.url(), baseline, current});
+      }
+    }
+    return distinctPatchPaths(files).map(file => unifiedDiff(file.path, file.baseline, file.current)).sort().join('');
+  }
+
   revertToOriginal(uiSourceCode: Workspace.UISourceCode.UISourceCode): Promise<void> {
     function callback(content: string|null): void {
       if (typeof content !== 'string') {
@@ -315,6 +355,271 @@ export function workspaceDiff(): WorkspaceDiffImpl {
   return _instance;
 }
 
+// The number of unchanged lines around the changes in a hunk, as in `git diff`.
+const UnifiedDiffContextLines = 3;
+
+function patchLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.split(/\r\n?|\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    // A last line without a newline differs from the same line with one.
+    lines[lines.length - 1] += '\n\\ No newline at end of file';
+  }
+  return lines;
+}
+
+function hunkRange(start: number, count: number): string {
+  // Empty ranges start at the line before them.
+  return count === 1 ? `${start + 1}` : `${count ? start + 1 : start},${count}`;
+}
+
+/**
+ * Returns the unified diff of a file with three lines of context around every change, or an empty
+ * string when the file is unchanged.
+ */
+export function unifiedDiff(path: string, baseline: string, current: string): string {
+  const lines: {operation: Diff.Diff.Operation, text: string}[] = [];
+  for (const {0: operation, 1: texts} of Diff.Diff.DiffWrapper.lineDiff(patchLines(baseline), patchLines(current))) {
+    lines.push(...texts.map(text => ({operation, text})));
+  }
+  const changes = [];
+  for (let i = 0; i < lines.length; ++i) {
+    if (lines[i].operation !== Diff.Diff.Operation.Equal) {
+      changes.push(i);
+    }
+  }
+  if (!changes.length) {
+    return '';
+  }
+
+  const patch = [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`];
+  let baselineLine = 0;
+  let currentLine = 0;
+  let index = 0;
+  for (let i = 0; i < changes.length;) {
+    // Changes whose contexts touch or overlap are in the same hunk.
+    let last = i;
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] <= 2 * UnifiedDiffContextLines + 1) {
+      ++last;
+    }
+    const start = Math.max(index, changes[i] - UnifiedDiffContextLines);
+    const end = Math.min(lines.length, changes[last] + UnifiedDiffContextLines + 1);
+    for (; index < start; ++index) {
+      ++baselineLine;
+      ++currentLine;
+    }
+    const hunk = lines.slice(start, end);
+    const baselineCount = hunk.filter(line => line.operation !== Diff.Diff.Operation.Insert).length;
+    const currentCount = hunk.filter(line => line.operation !== Diff.Diff.Operation.Delete).length;
+    patch.push(`@@ -${hunkRange(baselineLine, baselineCount)} +${hunkRange(currentLine, currentCount)} @@`);
+    for (const {operation, text} of hunk) {
+      const prefix = operation === Diff.Diff.Operation.Insert ? '+' :
+          operation === Diff.Diff.Operation.Delete            ? '-' :
+                                                                ' ';
+      patch.push(prefix + text);
+    }
+    baselineLine += baselineCount;
+    currentLine += currentCount;
+    index = end;
+    i = last + 1;
+  }
+  return patch.join('\n') + '\n';
+}
+
+/**
+ * Returns the path of a URL in a patch, e.g. `src/app.css` for `webpack:///./src/app.css` or
+ * `https://example.com/src/app.css`.
+ */
+export function patchPathForURL(url: Platform.DevToolsPath.UrlString): string {
+  const {path, lastPathComponent} = new Common.ParsedURL.ParsedURL(url);
+  let decodedPath = path;
+  try {
+    decodedPath = decodeURIComponent(path);
+  } catch {
+    // Keep paths with malformed escapes as they are.
+  }
+  return decodedPath.replace(/^\/+/, '').replace(/^(\.\/)+/, '') || lastPathComponent || url;
+}
+
+// Files mapped to a workspace folder are patched at their path in the folder.
+export function patchPath(uiSourceCode: Workspace.UISourceCode.UISourceCode): string {
+  const binding = Persistence.Persistence.PersistenceImpl.instance().binding(uiSourceCode);
+  if (binding) {
+    return Persistence.FileSystemWorkspaceBinding.FileSystemWorkspaceBinding.relativePath(binding.fileSystem)
+        .map(component => Common.ParsedURL.ParsedURL.encodedPathToRawPathString(component))
+        .join('/');
+  }
+  return patchPathForURL(uiSourceCode.url());
+}
+
+// The source map of the style sheet or script that a file was loaded as.
+function sourceMapForUISourceCode(uiSourceCode: Workspace.UISourceCode.UISourceCode): SDK.SourceMap.SourceMap|null {
+  const url = uiSourceCode.url();
+  // The lines of inline style sheets and scripts are not the lines of their document.
+  for (const cssModel of SDK.TargetManager.TargetManager.instance().models(SDK.CSSModel.CSSModel)) {
+    for (const header of cssModel.headersForSourceURL(url)) {
+      const sourceMap = header.isInline ? null : cssModel.sourceMapManager().sourceMapForClient(header);
+      if (sourceMap) {
+        return sourceMap;
+      }
+    }
+  }
+  for (const debuggerModel of SDK.TargetManager.TargetManager.instance().models(SDK.DebuggerModel.DebuggerModel)) {
+    for (const script of debuggerModel.scriptsForSourceURL(url)) {
+      const sourceMap = script.isInlineScript() ? null : debuggerModel.sourceMapManager().sourceMapForClient(script);
+      if (sourceMap) {
+        return sourceMap;
+      }
+    }
+  }
+  return null;
+}
+
+function authoredLineResolver(sourceMap: SDK.SourceMap.SourceMap): (lineNumber: number, columnNumber: number) =>
+    AuthoredLine | null {
+  return (lineNumber, columnNumber) => {
+    const entry = sourceMap.findEntry(lineNumber, columnNumber);
+    if (!entry || entry.lineNumber !== lineNumber || !entry.sourceURL) {
+      return null;
+    }
+    return {sourceURL: entry.sourceURL, lineNumber: entry.sourceLineNumber};
+  };
+}
+
+function authoredContentProvider(sourceMap: SDK.SourceMap.SourceMap): (sourceURL: Platform.DevToolsPath.UrlString) =>
+    Promise<string|null> {
+  return async sourceURL => {
+    const uiSourceCode = Workspace.Workspace.WorkspaceImpl.instance().uiSourceCodeForURL(sourceURL);
+    if (uiSourceCode) {
+      return (await uiSourceCode.requestContent()).content;
+    }
+    return sourceMap.embeddedContentByURL(sourceURL);
+  };
+}
+
+export interface AuthoredLine {
+  sourceURL: Platform.DevToolsPath.UrlString;
+  lineNumber: number;
+}
+
+function indentation(line: string): string {
+  return /^\s*/.exec(line)?.[0] ?? '';
+}
+
+/**
+ * Makes the changes between two versions of a compiled file to the authored files it was compiled
+ * from, for compilers that keep the lines of the authored files, such as CSS preprocessors and
+ * bundlers. Every deleted line, and the line before every inserted one, has to map to a line of an
+ * authored file with the same text, otherwise the changes can't be made and null is returned.
+ * Inserted lines take the indentation of the authored line they follow.
+ */
+export async function authoredFileChanges(
+    baseline: string, current: string, authoredLine: (lineNumber: number, columnNumber: number) => AuthoredLine | null,
+    authoredContent: (sourceURL: Platform.DevToolsPath.UrlString) =>
+        Promise<string|null>): Promise<Map<Platform.DevToolsPath.UrlString, {baseline: string, current: string}>|null> {
+  const baselineLines = baseline.split('\n');
+  const authoredLines = new Map<Platform.DevToolsPath.UrlString, string[]|null>();
+  // The deleted lines, and the lines inserted after each line (or -1 for the start), of every authored file.
+  const edits = new Map<Platform.DevToolsPath.UrlString, {deleted: Set<number>, inserted: Map<number, string[]>}>();
+
+  // Maps a line of the baseline to the authored line with the same text.
+  const mapLine = async(lineNumber: number): Promise<{line: AuthoredLine, text: string}|null> => {
+    const text = baselineLines[lineNumber];
+    const line = authoredLine(lineNumber, indentation(text).length);
+    if (!line) {
+      return null;
+    }
+    if (!authoredLines.has(line.sourceURL)) {
+      const content = await authoredContent(line.sourceURL);
+      authoredLines.set(line.sourceURL, content === null ? null : content.split('\n'));
+    }
+    const authoredText = authoredLines.get(line.sourceURL)?.[line.lineNumber];
+    return authoredText !== undefined && authoredText.trim() === text.trim() ? {line, text: authoredText} : null;
+  };
+  const editsOf =
+      (sourceURL: Platform.DevToolsPath.UrlString): {deleted: Set<number>, inserted: Map<number, string[]>} => {
+        let fileEdits = edits.get(sourceURL);
+        if (!fileEdits) {
+          fileEdits = {deleted: new Set(), inserted: new Map()};
+          edits.set(sourceURL, fileEdits);
+        }
+        return fileEdits;
+      };
+
+  let baselineLine = 0;
+  for (const {0: operation, 1: texts} of Diff.Diff.DiffWrapper.lineDiff(baselineLines, current.split('\n'))) {
+    if (operation === Diff.Diff.Operation.Equal) {
+      baselineLine += texts.length;
+    } else if (operation === Diff.Diff.Operation.Delete) {
+      for (let i = 0; i < texts.length; ++i, ++baselineLine) {
+        const mapped = await mapLine(baselineLine);
+        if (!mapped) {
+          return null;
+        }
+        editsOf(mapped.line.sourceURL).deleted.add(mapped.line.lineNumber);
+      }
+    } else {
+      // Lines inserted at the start go before the first line instead.
+      const anchor = await mapLine(Math.max(baselineLine - 1, 0));
+      if (!anchor) {
+        return null;
+      }
+      const compiledIndentation = indentation(baselineLines[Math.max(baselineLine - 1, 0)]);
+      const authoredIndentation = indentation(anchor.text);
+      const lines = texts.map(
+          text => text.startsWith(compiledIndentation) ?
+              authoredIndentation + text.substring(compiledIndentation.length) :
+              text);
+      const afterLine = baselineLine ? anchor.line.lineNumber : anchor.line.lineNumber - 1;
+      const inserted = editsOf(anchor.line.sourceURL).inserted;
+      inserted.set(afterLine, [...(inserted.get(afterLine) || []), ...lines]);
+    }
+  }
+
+  const changes = new Map<Platform.DevToolsPath.UrlString, {baseline: string, current: string}>();
+  for (const [sourceURL, {deleted, inserted}] of edits) {
+    const lines = authoredLines.get(sourceURL) as string[];
+    const currentLines = [...(inserted.get(-1) || [])];
+    lines.forEach((line, lineNumber) => {
+      if (!deleted.has(lineNumber)) {
+        currentLines.push(line);
+      }
+      currentLines.push(...(inserted.get(lineNumber) || []));
+    });
+    changes.set(sourceURL, {baseline: lines.join('\n'), current: currentLines.join('\n')});
+  }
+  return changes;
+}
+
+export interface PatchFile {
+  path: string;
+  url: Platform.DevToolsPath.UrlString;
+  baseline: string;
+  current: string;
+}
+
+/**
+ * Files of different origins whose URLs have the same path are patched under a directory named
+ * after the host of their origin, e.g. `cdn.example.com/styles/main.css`.
+ */
+export function distinctPatchPaths(files: PatchFile[]): PatchFile[] {
+  const urlsByPath = new Map<string, Set<Platform.DevToolsPath.UrlString>>();
+  for (const {path, url} of files) {
+    urlsByPath.set(path, (urlsByPath.get(path) || new Set()).add(url));
+  }
+  return files.map(file => {
+    const domain = new Common.ParsedURL.ParsedURL(file.url).domain();
+    if (urlsByPath.get(file.path)?.size === 1 || !domain) {
+      return file;
+    }
+    return {...file, path: `${domain}/${file.path}`};
+  });
+}
+
 export class DiffUILocation {
   uiSourceCode: Workspace.UISourceCode.UISourceCode;
   constructor(uiSourceCode: Workspace.UISourceCode.UISourceCode) {
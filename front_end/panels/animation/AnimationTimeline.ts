@@ -21,6 +21,7 @@ import {
 } from './AnimationModel.js';
 import {AnimationScreenshotPopover} from './AnimationScreenshotPopover.js';
 import {AnimationUI} from './AnimationUI.js';
+import {KeyframesEditor} from './KeyframesEditor.js';
 
 const UIStrings = {
   /**
@@ -113,6 +114,7 @@ export class AnimationTimeline extends UI.Widget.VBox implements SDK.TargetManag
   #groupBuffer: AnimationGroup[];
   readonly #previewMap: Map<AnimationGroup, AnimationGroupPreviewUI>;
   readonly #animationsMap: Map<string, AnimationImpl>;
+  readonly #keyframesEditor: KeyframesEditor;
   #timelineScrubberLine?: HTMLElement;
   #pauseButton?: UI.Toolbar.ToolbarToggle;
   #controlButton?: UI.Toolbar.ToolbarToggle;
@@ -139,6 +141,9 @@ export class AnimationTimeline extends UI.Widget.VBox implements SDK.TargetManag
     this.#animationsContainer = this.contentElement.createChild('div', 'animation-timeline-rows');
     const timelineHint = this.contentElement.createChild('div', 'animation-timeline-rows-hint');
     timelineHint.textContent = i18nString(UIStrings.selectAnEffectAboveToInspectAnd);
+    this.#keyframesEditor = new KeyframesEditor(this);
+    this.#keyframesEditor.show(this.contentElement);
+    this.#keyframesEditor.setAnimation(null, null);
 
     /** @const */ this.#defaultDuration = 100;
     this.#durationInternal = this.#defaultDuration;
@@ -471,7 +476,12 @@ export class AnimationTimeline extends UI.Widget.VBox implements SDK.TargetManag
     this.scheduleRedraw();
   }
 
+  editKeyframes(animation: AnimationImpl, node: SDK.DOMModel.DOMNode|null): void {
+    this.#keyframesEditor.setAnimation(animation, node);
+  }
+
   private clearTimeline(): void {
+    this.#keyframesEditor.setAnimation(null, null);
     this.#uiAnimations = [];
     this.#nodesMap.clear();
     this.#animationsMap.clear();
@@ -13,6 +13,7 @@ import * as UI from '../../ui/legacy/legacy.js';
 import {type AnimationImpl, type KeyframeStyle} from './AnimationModel.js';
 
 import {StepTimingFunction, type AnimationTimeline} from './AnimationTimeline.js';
+import {KeyframesEditor} from './KeyframesEditor.js';
 
 const UIStrings = {
   /**
@@ -28,6 +29,10 @@ const UIStrings = {
   *@example {anilogo} PH1
   */
   sSlider: '{PH1} slider',
+  /**
+  *@description Context menu item of an animation in the Animations tool that opens its keyframes in an editor
+  */
+  editKeyframes: 'Edit keyframes',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/animation/AnimationUI.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
@@ -457,14 +462,19 @@ export class AnimationUI {
   }
 
   private onContextMenu(event: Event): void {
-    function showContextMenu(remoteObject: SDK.RemoteObject.RemoteObject|null): void {
+    const showContextMenu = (remoteObject: SDK.RemoteObject.RemoteObject|null): void => {
       if (!remoteObject) {
         return;
       }
       const contextMenu = new UI.ContextMenu.ContextMenu(event);
+      if (KeyframesEditor.isEditable(this.#animationInternal) && this.#node) {
+        contextMenu.editSection().appendItem(
+            i18nString(UIStrings.editKeyframes),
+            () => this.#timeline.editKeyframes(this.#animationInternal, this.#node ?? null));
+      }
       contextMenu.appendApplicableItems(remoteObject);
       void contextMenu.show();
-    }
+    };
 
     void this.#animationInternal.remoteObjectPromise().then(showContextMenu);
     event.consume(true);
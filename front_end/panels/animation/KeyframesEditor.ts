@@ -0,0 +1,372 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Common from '../../core/common/common.js';
+import * as Host from '../../core/host/host.js';
+import * as i18n from '../../core/i18n/i18n.js';
+import * as SDK from '../../core/sdk/sdk.js';
+import * as Protocol from '../../generated/protocol.js';
+import * as UI from '../../ui/legacy/legacy.js';
+
+import {type AnimationImpl} from './AnimationModel.js';
+import {type AnimationTimeline} from './AnimationTimeline.js';
+import keyframesEditorStyles from './keyframesEditor.css.js';
+
+const UIStrings = {
+  /**
+  *@description Title of the keyframes editor of the Animations tool
+  *@example {fade-in} PH1
+  */
+  keyframesS: '@keyframes {PH1}',
+  /**
+  *@description Tooltip text of the button that writes the keyframe offsets and the timing changed in the Animations tool to the stylesheet
+  */
+  exportToStylesheet: 'Export keyframes and timing to stylesheet',
+  /**
+  *@description Tooltip text of the button that copies the @keyframes rule and the timing of an animation in the Animations tool
+  */
+  copyKeyframesRule: 'Copy @keyframes rule and timing',
+  /**
+  *@description Tooltip text of the button that closes the keyframes editor of the Animations tool
+  */
+  closeKeyframesEditor: 'Close keyframes editor',
+  /**
+  *@description Text in the keyframes editor of the Animations tool when the @keyframes rule of an animation is not found
+  */
+  keyframesRuleNotFound: 'The `@keyframes` rule of this animation could not be found.',
+  /**
+  *@description Accessible name of the input for the offset of a keyframe in the Animations tool
+  */
+  keyframeOffset: 'Keyframe offset',
+  /**
+  *@description Accessible name of the input for the value of a property of a keyframe in the Animations tool
+  *@example {opacity} PH1
+  *@example {50%} PH2
+  */
+  valueOfSAtS: 'Value of {PH1} at {PH2}',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/animation/KeyframesEditor.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+export interface KeyframeText {
+  keyText: string;
+  properties: {name: string, value: string}[];
+}
+
+export function keyframeOffsetText(offset: number): string {
+  return Math.round(offset * 10000) / 100 + '%';
+}
+
+// Returns the offset of a keyframe with a single key, e.g. `from` or `25%`.
+export function keyframeKeyOffset(keyText: string): number|null {
+  const key = keyText.trim().toLowerCase();
+  if (key === 'from') {
+    return 0;
+  }
+  if (key === 'to') {
+    return 1;
+  }
+  const match = key.match(/^(\d+(?:\.\d+)?|\.\d+)%$/);
+  return match ? parseFloat(match[1]) / 100 : null;
+}
+
+/**
+ * Returns the value of a comma separated `animation-*` longhand for an animation whose name is
+ * at `index` of the `count` names of `animation-name`. The values of the other animations are
+ * repeated from `existingValue`, or are `initialValue` when the longhand is not declared.
+ */
+export function animationListValue(
+    existingValue: string|null, index: number, count: number, value: string, initialValue: string): string {
+  const existingValues = (existingValue ?? initialValue).split(',').map(value => value.trim());
+  const values = [];
+  for (let i = 0; i < count; ++i) {
+    values.push(i === index ? value : existingValues[i % existingValues.length]);
+  }
+  return values.join(', ');
+}
+
+export function keyframesRuleText(name: string, keyframes: KeyframeText[]): string {
+  const lines = [`@keyframes ${name} {`];
+  for (const keyframe of keyframes) {
+    lines.push(`  ${keyframe.keyText} {`);
+    for (const property of keyframe.properties) {
+      lines.push(`    ${property.name}: ${property.value};`);
+    }
+    lines.push('  }');
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+export function animationTimingText(duration: number, delay: number): string {
+  return `animation-duration: ${Math.round(duration)}ms;\nanimation-delay: ${Math.round(delay)}ms;`;
+}
+
+function keyframeProperties(keyframe: SDK.CSSRule.CSSKeyframeRule): SDK.CSSProperty.CSSProperty[] {
+  return keyframe.style.leadingProperties().filter(property => !property.implicit && !property.disabled);
+}
+
+function animationNames(property: SDK.CSSProperty.CSSProperty): string[] {
+  if (property.name === 'animation-name') {
+    return property.value.split(',').map(name => name.trim());
+  }
+  // The name is one of the identifiers of each animation of the shorthand.
+  return property.value.split(',').map(
+      animation => animation.trim().split(/\s+/).find(token => /^[a-z_-]/i.test(token)) ?? '');
+}
+
+/**
+ * Edits the `@keyframes` rule of a CSS animation in the stylesheet that declares it, so that the
+ * page previews the changes live and the Changes tool records them. Keyframe offsets and timing
+ * changed by dragging in the timeline are written back to the stylesheet on export.
+ */
+export class KeyframesEditor extends UI.Widget.VBox {
+  readonly #timeline: AnimationTimeline;
+  readonly #titleElement: HTMLElement;
+  readonly #keyframesContainer: HTMLElement;
+  readonly #exportButton: UI.Toolbar.ToolbarButton;
+  readonly #copyButton: UI.Toolbar.ToolbarButton;
+  readonly #throttler: Common.Throttler.Throttler;
+  #animation: AnimationImpl|null;
+  #node: SDK.DOMModel.DOMNode|null;
+  #keyframesRule: SDK.CSSRule.CSSKeyframesRule|null;
+
+  constructor(timeline: AnimationTimeline) {
+    super(true);
+    this.#timeline = timeline;
+    this.element.classList.add('keyframes-editor');
+
+    const header = this.contentElement.createChild('div', 'keyframes-editor-header');
+    this.#titleElement = header.createChild('div', 'keyframes-editor-title monospace');
+    const toolbar = new UI.Toolbar.Toolbar('keyframes-editor-toolbar', header);
+    this.#exportButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.exportToStylesheet), 'largeicon-download');
+    this.#exportButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => void this.exportToStyleSheet());
+    toolbar.appendToolbarItem(this.#exportButton);
+    this.#copyButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.copyKeyframesRule), 'largeicon-copy');
+    this.#copyButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, this.copyKeyframesRule, this);
+    toolbar.appendToolbarItem(this.#copyButton);
+    const closeButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.closeKeyframesEditor), 'largeicon-delete');
+    closeButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => this.setAnimation(null, null));
+    toolbar.appendToolbarItem(closeButton);
+
+    this.#keyframesContainer = this.contentElement.createChild('div', 'keyframes-editor-keyframes');
+    this.#throttler = new Common.Throttler.Throttler(100);
+    this.#animation = null;
+    this.#node = null;
+    this.#keyframesRule = null;
+  }
+
+  static isEditable(animation: AnimationImpl): boolean {
+    return animation.type() === Protocol.Animation.AnimationType.CSSAnimation && Boolean(animation.name());
+  }
+
+  animation(): AnimationImpl|null {
+    return this.#animation;
+  }
+
+  setAnimation(animation: AnimationImpl|null, node: SDK.DOMModel.DOMNode|null): void {
+    this.#node?.domModel().cssModel().removeEventListener(
+        SDK.CSSModel.Events.StyleSheetChanged, this.styleSheetChanged, this);
+    this.#animation = animation && node ? animation : null;
+    this.#node = this.#animation ? node : null;
+    this.#keyframesRule = null;
+    this.#node?.domModel().cssModel().addEventListener(
+        SDK.CSSModel.Events.StyleSheetChanged, this.styleSheetChanged, this);
+    this.element.classList.toggle('hidden', !this.#animation);
+    void this.#throttler.schedule(this.update.bind(this), true);
+  }
+
+  wasShown(): void {
+    super.wasShown();
+    this.registerCSSFiles([keyframesEditorStyles]);
+  }
+
+  private styleSheetChanged(): void {
+    void this.#throttler.schedule(this.update.bind(this));
+  }
+
+  private async matchedStyles(): Promise<SDK.CSSMatchedStyles.CSSMatchedStyles|null> {
+    if (!this.#node || !this.#node.id) {
+      return null;
+    }
+    return this.#node.domModel().cssModel().getMatchedStyles(this.#node.id);
+  }
+
+  private async computedStyle(): Promise<Map<string, string>|null> {
+    if (!this.#node || !this.#node.id) {
+      return null;
+    }
+    return this.#node.domModel().cssModel().getComputedStyle(this.#node.id);
+  }
+
+  private async findKeyframesRule(): Promise<SDK.CSSRule.CSSKeyframesRule|null> {
+    const matchedStyles = await this.matchedStyles();
+    const name = this.#animation?.name();
+    return matchedStyles?.keyframes().find(rule => rule.name().text === name) ?? null;
+  }
+
+  // Finds the declaration of the animation name in the most specific editable style of the node that names it.
+  private async findAnimationDeclaration():
+      Promise<{style: SDK.CSSStyleDeclaration.CSSStyleDeclaration, index: number, count: number}|null> {
+    const matchedStyles = await this.matchedStyles();
+    const name = this.#animation?.name();
+    for (const style of matchedStyles?.nodeStyles() ?? []) {
+      if (!style.range || !style.styleSheetId || style.parentRule?.isUserAgent()) {
+        continue;
+      }
+      const properties = style.leadingProperties().filter(
+          property => !property.disabled && (property.name === 'animation' || property.name === 'animation-name'));
+      const property = properties[properties.length - 1];
+      if (!property) {
+        continue;
+      }
+      const names = animationNames(property);
+      const index = names.indexOf(name ?? '');
+      if (index !== -1) {
+        return {style, index, count: names.length};
+      }
+    }
+    return null;
+  }
+
+  private async update(): Promise<void> {
+    this.#keyframesRule = this.#animation ? await this.findKeyframesRule() : null;
+    this.#titleElement.textContent =
+        this.#animation ? i18nString(UIStrings.keyframesS, {PH1: this.#animation.name()}) : '';
+    this.#exportButton.setEnabled(Boolean(this.#keyframesRule));
+    this.#copyButton.setEnabled(Boolean(this.#keyframesRule));
+    this.#keyframesContainer.removeChildren();
+    if (!this.#animation) {
+      return;
+    }
+    if (!this.#keyframesRule) {
+      this.#keyframesContainer.createChild('div', 'keyframes-editor-empty').textContent =
+          i18nString(UIStrings.keyframesRuleNotFound);
+      return;
+    }
+    for (const keyframe of this.#keyframesRule.keyframes()) {
+      this.renderKeyframe(keyframe);
+    }
+  }
+
+  private renderKeyframe(keyframe: SDK.CSSRule.CSSKeyframeRule): void {
+    const editable = Boolean(keyframe.styleSheetId) && !keyframe.isUserAgent();
+    const keyframeElement = this.#keyframesContainer.createChild('div', 'keyframes-editor-keyframe');
+    const keyInput = this.createInput(keyframeElement, 'keyframes-editor-key', keyframe.key().text, editable);
+    UI.ARIAUtils.setAccessibleName(keyInput, i18nString(UIStrings.keyframeOffset));
+    keyInput.addEventListener('change', () => void this.commitKeyText(keyframe, keyInput));
+
+    for (const property of keyframeProperties(keyframe)) {
+      const propertyElement = keyframeElement.createChild('div', 'keyframes-editor-property');
+      propertyElement.createChild('span', 'keyframes-editor-property-name').textContent = property.name + ':';
+      const valueInput = this.createInput(propertyElement, 'keyframes-editor-property-value', property.value, editable);
+      UI.ARIAUtils.setAccessibleName(
+          valueInput, i18nString(UIStrings.valueOfSAtS, {PH1: property.name, PH2: keyframe.key().text}));
+      valueInput.addEventListener('change', () => void this.commitValue(property, valueInput));
+    }
+  }
+
+  private createInput(parentElement: Element, className: string, value: string, editable: boolean): HTMLInputElement {
+    const input = UI.UIUtils.createInput(className + ' monospace', 'text');
+    input.value = value;
+    input.disabled = !editable;
+    input.spellcheck = false;
+    input.addEventListener('keydown', event => {
+      if (event.key === 'Enter') {
+        input.blur();
+      } else if (event.key === 'Escape') {
+        input.value = value;
+        input.blur();
+      }
+    });
+    parentElement.appendChild(input);
+    return input;
+  }
+
+  private async commitKeyText(keyframe: SDK.CSSRule.CSSKeyframeRule, input: HTMLInputElement): Promise<void> {
+    const index = this.#keyframesRule?.keyframes().indexOf(keyframe) ?? -1;
+    if (!input.value.trim() || !await keyframe.setKeyText(input.value.trim())) {
+      input.value = keyframe.key().text;
+      return;
+    }
+    // Keep the timeline in sync, so that exporting its offsets does not revert the edit.
+    const offset = keyframeKeyOffset(input.value);
+    const keyframeStyles = this.#animation?.source().keyframesRule()?.keyframes();
+    if (offset !== null && keyframeStyles && keyframeStyles.length === this.#keyframesRule?.keyframes().length) {
+      keyframeStyles[index]?.setOffset(offset);
+      this.#timeline.scheduleRedraw();
+    }
+  }
+
+  private async commitValue(property: SDK.CSSProperty.CSSProperty, input: HTMLInputElement): Promise<void> {
+    const text = property.name + ': ' + input.value + (property.important ? ' !important' : '') + ';';
+    if (!await property.setText(text, true, true)) {
+      input.value = property.value;
+    }
+  }
+
+  /**
+   * Writes the keyframe offsets and the duration and delay of the timeline to the stylesheet. The
+   * matched styles are fetched again after each edit, since edits move the source ranges.
+   */
+  private async exportToStyleSheet(): Promise<void> {
+    const animation = this.#animation;
+    const keyframeStyles = animation?.source().keyframesRule()?.keyframes() ?? [];
+    for (let i = 0; i < keyframeStyles.length; ++i) {
+      const keyframes = (await this.findKeyframesRule())?.keyframes();
+      if (!keyframes || keyframes.length !== keyframeStyles.length) {
+        break;
+      }
+      const offset = keyframeKeyOffset(keyframes[i].key().text);
+      if (offset !== null && Math.abs(offset - keyframeStyles[i].offsetAsNumber()) > 0.0001) {
+        await keyframes[i].setKeyText(keyframeOffsetText(keyframeStyles[i].offsetAsNumber()));
+      }
+    }
+    if (!animation) {
+      return;
+    }
+    const timing = [
+      {name: 'animation-duration', value: Math.round(animation.source().duration()) + 'ms'},
+      {name: 'animation-delay', value: Math.round(animation.source().delay()) + 'ms'},
+    ];
+    for (const {name, value} of timing) {
+      const declaration = await this.findAnimationDeclaration();
+      if (!declaration) {
+        return;
+      }
+      const {style, index, count} = declaration;
+      const property = style.leadingProperties().filter(property => property.name === name && !property.disabled).pop();
+      // Without the longhand, the timing of the other animations comes from the `animation` shorthand or
+      // another rule, so it is taken from the computed style.
+      const existingValue = property?.value ?? (await this.computedStyle())?.get(name) ?? null;
+      const listValue = animationListValue(existingValue, index, count, value, '0s');
+      if (property) {
+        await property.setText(`${name}: ${listValue};`, true, true);
+      } else {
+        await new Promise(resolve => style.appendProperty(name, listValue, resolve));
+      }
+    }
+  }
+
+  private copyKeyframesRule(): void {
+    if (!this.#animation || !this.#keyframesRule) {
+      return;
+    }
+    // Offsets dragged in the timeline are copied in place of the ones of the stylesheet.
+    const keyframeStyles = this.#animation.source().keyframesRule()?.keyframes() ?? [];
+    const cssKeyframes = this.#keyframesRule.keyframes();
+    const keyframes = cssKeyframes.map((keyframe, index) => {
+      const keyText = keyframe.key().text;
+      const useTimelineOffset = keyframeStyles.length === cssKeyframes.length && keyframeKeyOffset(keyText) !== null;
+      return {
+        keyText: useTimelineOffset ? keyframeOffsetText(keyframeStyles[index].offsetAsNumber()) : keyText,
+        properties: keyframeProperties(keyframe).map(property => ({name: property.name, value: property.value})),
+      };
+    });
+    const source = this.#animation.source();
+    const text = keyframesRuleText(this.#animation.name(), keyframes) + '\n\n' +
+        animationTimingText(source.duration(), source.delay());
+    Host.InspectorFrontendHost.InspectorFrontendHostInstance.copyText(text);
+  }
+}
@@ -7,6 +7,7 @@ import * as AnimationModel from './AnimationModel.js';
 import * as AnimationScreenshotPopover from './AnimationScreenshotPopover.js';
 import * as AnimationTimeline from './AnimationTimeline.js';
 import * as AnimationUI from './AnimationUI.js';
+import * as KeyframesEditor from './KeyframesEditor.js';
 
 export {
   AnimationGroupPreviewUI,
@@ -14,4 +15,5 @@ export {
   AnimationScreenshotPopover,
   AnimationTimeline,
   AnimationUI,
+  KeyframesEditor,
 };
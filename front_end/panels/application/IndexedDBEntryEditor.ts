@@ -0,0 +1,270 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type * as Common from '../../core/common/common.js';
+import * as i18n from '../../core/i18n/i18n.js';
+import * as UI from '../../ui/legacy/legacy.js';
+
+import indexedDBEntryEditorStyles from './indexedDBEntryEditor.css.js';
+import {EntryError, IndexedDBModel, type ObjectStore} from './IndexedDBModel.js';
+
+const UIStrings = {
+  /**
+  *@description Title of the dialog that adds an entry to an IndexedDB object store in the Application panel
+  */
+  addEntry: 'Add entry',
+  /**
+  *@description Title of the dialog that edits an entry of an IndexedDB object store in the Application panel
+  */
+  editEntry: 'Edit entry',
+  /**
+  *@description Label of the input for the key of an IndexedDB entry in the Application panel
+  */
+  keyJson: 'Key (JSON)',
+  /**
+  *@description Placeholder of the key input of an IndexedDB entry when the object store generates keys
+  */
+  generatedKey: 'Generated if empty',
+  /**
+  *@description Label of the text area for the value of an IndexedDB entry in the Application panel
+  */
+  value: 'Value',
+  /**
+  *@description Label of the select for the format of the value of an IndexedDB entry in the Application panel
+  */
+  format: 'Format',
+  /**
+  *@description Option of the format of the value of an IndexedDB entry, whose value is JSON
+  */
+  json: 'JSON',
+  /**
+  *@description Option of the format of the value of an IndexedDB entry, whose value is a JavaScript expression evaluated in the page
+  */
+  javascriptExpression: 'JavaScript expression',
+  /**
+  *@description Text of the button that saves an IndexedDB entry in the Application panel
+  */
+  save: 'Save',
+  /**
+  *@description Text of the button that closes the IndexedDB entry dialog without saving
+  */
+  cancel: 'Cancel',
+  /**
+  *@description Text in the IndexedDB entry dialog that shows where the key of the entries of an object store is stored
+  *@example {"id"} PH1
+  */
+  keyPathS: 'Key path: {PH1}',
+  /**
+  *@description Error message when the key of an IndexedDB entry is not valid JSON
+  *@example {Unexpected token a in JSON at position 0} PH1
+  */
+  keyIsNotValidJsonS: 'The key is not valid JSON: {PH1}',
+  /**
+  *@description Error message when the value of an IndexedDB entry is not valid JSON
+  *@example {Unexpected token a in JSON at position 0} PH1
+  */
+  valueIsNotValidJsonS: 'The value is not valid JSON: {PH1}',
+  /**
+  *@description Error message when an IndexedDB entry has a key although its object store takes keys from values
+  */
+  keyNotAllowed: 'Entries of object stores with a key path cannot have a separate key.',
+  /**
+  *@description Error message when an IndexedDB entry has no key although its object store needs one
+  */
+  keyRequired: 'Entries of this object store need a key, since it has no key path and no key generator.',
+  /**
+  *@description Error message when the key of an IndexedDB entry is not a valid key
+  */
+  invalidKey: 'Keys must be numbers, strings, dates or arrays of keys.',
+  /**
+  *@description Error message when the value of an IndexedDB entry has no key at the key path of the object store
+  *@example {"id"} PH1
+  */
+  keyPathNotFoundS: 'The value has no key at the key path {PH1}.',
+  /**
+  *@description Error message when the value of an IndexedDB entry cannot hold the key generated by its object store
+  *@example {"id"} PH1
+  */
+  valueNotObjectS: 'The value must be an object to hold the generated key at the key path {PH1}.',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/application/IndexedDBEntryEditor.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+export const enum ValueFormat {
+  JSON = 'JSON',
+  Expression = 'Expression',
+}
+
+export interface EditedEntry {
+  // The JSON of the key, for object stores without key path.
+  keyText: string;
+  valueText: string;
+  originalKey?: unknown;
+}
+
+export function entryErrorText(error: EntryError, objectStore: ObjectStore): Common.UIString.LocalizedString {
+  switch (error) {
+    case EntryError.KeyNotAllowed:
+      return i18nString(UIStrings.keyNotAllowed);
+    case EntryError.KeyRequired:
+      return i18nString(UIStrings.keyRequired);
+    case EntryError.InvalidKey:
+      return i18nString(UIStrings.invalidKey);
+    case EntryError.KeyPathNotFound:
+      return i18nString(UIStrings.keyPathNotFoundS, {PH1: objectStore.keyPathString});
+    case EntryError.ValueNotObject:
+      return i18nString(UIStrings.valueNotObjectS, {PH1: objectStore.keyPathString});
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Validates an edited entry and returns the expression of its entries for
+ * `IndexedDBModel.putEntries`. JSON values are validated against the key path of the object
+ * store here; expressions are only evaluated in the page, where putting them reports errors.
+ */
+export function entriesExpression(objectStore: ObjectStore, entry: EditedEntry, format: ValueFormat):
+    {expression: string}|{error: Common.UIString.LocalizedString} {
+  let key;
+  try {
+    key = entry.keyText.trim() ? JSON.parse(entry.keyText) : undefined;
+  } catch (error) {
+    return {error: i18nString(UIStrings.keyIsNotValidJsonS, {PH1: errorMessage(error)})};
+  }
+  // Keys that do not survive JSON, like dates, cannot be deleted when the entry moves to another key.
+  const originalKey = IndexedDBModel.isValidKey(entry.originalKey) ? entry.originalKey : undefined;
+
+  if (format === ValueFormat.Expression) {
+    const keyError = objectStore.keyPath === null ? IndexedDBModel.validateEntry(objectStore, key, {}) : null;
+    if (keyError) {
+      return {error: entryErrorText(keyError, objectStore)};
+    }
+    return {
+      expression: `[{key: ${JSON.stringify(key) ?? 'undefined'}, value: (\n${entry.valueText}\n), originalKey: ${
+          JSON.stringify(originalKey) ?? 'undefined'}}]`,
+    };
+  }
+
+  let value;
+  try {
+    value = JSON.parse(entry.valueText);
+  } catch (error) {
+    return {error: i18nString(UIStrings.valueIsNotValidJsonS, {PH1: errorMessage(error)})};
+  }
+  const error = IndexedDBModel.validateEntry(objectStore, key, value);
+  if (error) {
+    return {error: entryErrorText(error, objectStore)};
+  }
+  return {expression: `JSON.parse(${JSON.stringify(JSON.stringify([{key, value, originalKey}]))})`};
+}
+
+export class IndexedDBEntryEditor extends UI.Widget.VBox {
+  private readonly objectStore: ObjectStore;
+  private readonly entry: EditedEntry;
+  private readonly onSave: (expression: string) => Promise<string|null>;
+  private readonly dialog: UI.Dialog.Dialog;
+  private readonly formatSelect: HTMLSelectElement;
+  private readonly keyInput: HTMLInputElement|null;
+  private readonly valueTextArea: HTMLTextAreaElement;
+  private readonly errorElement: HTMLElement;
+  private readonly saveButton: HTMLButtonElement;
+
+  constructor(objectStore: ObjectStore, entry: EditedEntry|null, onSave: (expression: string) => Promise<string|null>) {
+    super(/* isWebComponent */ true);
+    this.objectStore = objectStore;
+    this.entry = entry ?? {keyText: '', valueText: ''};
+    this.onSave = onSave;
+    this.contentElement.classList.add('indexed-db-entry-editor');
+
+    this.contentElement.createChild('div', 'indexed-db-entry-editor-title').textContent =
+        entry ? i18nString(UIStrings.editEntry) : i18nString(UIStrings.addEntry);
+
+    if (objectStore.keyPath === null) {
+      this.keyInput = UI.UIUtils.createInput('indexed-db-entry-editor-key source-code', 'text');
+      this.keyInput.value = this.entry.keyText;
+      if (objectStore.autoIncrement) {
+        this.keyInput.placeholder = i18nString(UIStrings.generatedKey);
+      }
+      this.appendRow(i18nString(UIStrings.keyJson), this.keyInput);
+    } else {
+      this.keyInput = null;
+      this.contentElement.createChild('div', 'indexed-db-entry-editor-key-path').textContent =
+          i18nString(UIStrings.keyPathS, {PH1: objectStore.keyPathString});
+    }
+
+    this.formatSelect =
+        UI.UIUtils.createSelect(i18nString(UIStrings.format), [ValueFormat.JSON, ValueFormat.Expression]);
+    this.formatSelect.options[0].textContent = i18nString(UIStrings.json);
+    this.formatSelect.options[1].textContent = i18nString(UIStrings.javascriptExpression);
+    this.appendRow(i18nString(UIStrings.format), this.formatSelect);
+
+    this.valueTextArea =
+        this.contentElement.createChild('textarea', 'indexed-db-entry-editor-value source-code') as HTMLTextAreaElement;
+    this.valueTextArea.value = this.entry.valueText;
+    this.valueTextArea.spellcheck = false;
+    UI.ARIAUtils.setAccessibleName(this.valueTextArea, i18nString(UIStrings.value));
+
+    this.errorElement = this.contentElement.createChild('div', 'indexed-db-entry-editor-error');
+    UI.ARIAUtils.markAsAlert(this.errorElement);
+
+    const buttons = this.contentElement.createChild('div', 'indexed-db-entry-editor-buttons');
+    buttons.appendChild(UI.UIUtils.createTextButton(i18nString(UIStrings.cancel), () => this.dialog.hide()));
+    this.saveButton = UI.UIUtils.createTextButton(i18nString(UIStrings.save), () => void this.save(), '', true);
+    buttons.appendChild(this.saveButton);
+
+    this.contentElement.addEventListener('keydown', event => {
+      if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+        event.consume(true);
+        void this.save();
+      }
+    });
+
+    this.dialog = new UI.Dialog.Dialog();
+    this.dialog.setSizeBehavior(UI.GlassPane.SizeBehavior.MeasureContent);
+    this.dialog.setDefaultFocusedElement(this.keyInput && !entry ? this.keyInput : this.valueTextArea);
+  }
+
+  private appendRow(title: string, control: HTMLElement): void {
+    const row = this.contentElement.createChild('div', 'indexed-db-entry-editor-row');
+    row.appendChild(UI.UIUtils.createLabel(title, '', control));
+    row.appendChild(control);
+  }
+
+  show(): void {
+    super.show(this.dialog.contentElement);
+    // @ts-ignore See AddDebugInfoURLDialog: UI.Dialog overrides `show` with a wider accepted type.
+    this.dialog.show();
+  }
+
+  private async save(): Promise<void> {
+    const result = entriesExpression(
+        this.objectStore, {
+          keyText: this.keyInput?.value ?? '',
+          valueText: this.valueTextArea.value,
+          originalKey: this.entry.originalKey,
+        },
+        this.formatSelect.value as ValueFormat);
+    if ('error' in result) {
+      this.errorElement.textContent = result.error;
+      return;
+    }
+    this.errorElement.textContent = '';
+    this.saveButton.disabled = true;
+    const error = await this.onSave(result.expression);
+    this.saveButton.disabled = false;
+    if (error) {
+      this.errorElement.textContent = error;
+      return;
+    }
+    this.dialog.hide();
+  }
+
+  wasShown(): void {
+    super.wasShown();
+    this.registerCSSFiles([indexedDBEntryEditorStyles]);
+  }
+}
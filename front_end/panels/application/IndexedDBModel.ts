@@ -29,10 +29,30 @@
  */
 
 import * as Common from '../../core/common/common.js';
+import * as i18n from '../../core/i18n/i18n.js';
 import * as SDK from '../../core/sdk/sdk.js';
 import * as Protocol from '../../generated/protocol.js';
 import type * as ProtocolProxyApi from '../../generated/protocol-proxy-api.js';
 
+const UIStrings = {
+  /**
+  *@description Error message when IndexedDB entries cannot be written because no page of their origin is loaded
+  *@example {https://example.com/} PH1
+  */
+  noPageForS: 'No page or frame of {PH1} is loaded to access its IndexedDB databases.',
+  /**
+  *@description Error message when a file imported into an IndexedDB object store does not contain object store entries
+  */
+  notAnObjectStoreFile: 'The file does not contain IndexedDB object store entries.',
+  /**
+  *@description Error message when IndexedDB entries cannot be exported, because JSON cannot represent their keys or values
+  */
+  entriesNotJson:
+      'The object store holds keys or values that JSON cannot represent, like dates, binary data or maps, so they cannot be exported.',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/application/IndexedDBModel.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
 export class IndexedDBModel extends SDK.SDKModel.SDKModel<EventTypes> implements ProtocolProxyApi.StorageDispatcher {
   private readonly storageKeyManager: SDK.StorageKeyManager.StorageKeyManager|null;
   private readonly indexedDBAgent: ProtocolProxyApi.IndexedDBApi;
@@ -141,6 +161,68 @@ export class IndexedDBModel extends SDK.SDKModel.SDKModel<EventTypes> implements
     return null;
   }
 
+  // Keys are numbers, strings, dates or arrays of keys. Dates cannot be represented in JSON.
+  static isValidKey(key: unknown): boolean {
+    if (typeof key === 'number') {
+      return !Number.isNaN(key);
+    }
+    if (typeof key === 'string' || key instanceof Date) {
+      return true;
+    }
+    return Array.isArray(key) && key.every(IndexedDBModel.isValidKey);
+  }
+
+  /**
+   * Extracts the key of a value with in-line keys, following
+   * https://w3c.github.io/IndexedDB/#evaluate-a-key-path-on-a-value. Returns undefined when the
+   * value has no key at the key path.
+   */
+  static evaluateKeyPath(value: unknown, keyPath: string|string[]): unknown {
+    if (Array.isArray(keyPath)) {
+      const keys = keyPath.map(path => IndexedDBModel.evaluateKeyPath(value, path));
+      return keys.includes(undefined) ? undefined : keys;
+    }
+    if (keyPath === '') {
+      return value;
+    }
+    let current = value;
+    for (const identifier of keyPath.split('.')) {
+      if (typeof current === 'string' && identifier === 'length') {
+        current = current.length;
+      } else if (current && typeof current === 'object' && Object.prototype.hasOwnProperty.call(current, identifier)) {
+        current = (current as {[identifier: string]: unknown})[identifier];
+      } else {
+        return undefined;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Checks that an entry can be put into an object store: stores with a key path take the key from
+   * the value, the others need an explicit key unless they have a key generator.
+   */
+  static validateEntry(objectStore: ObjectStore, key: unknown, value: unknown): EntryError|null {
+    if (objectStore.keyPath === null) {
+      if (key === undefined) {
+        return objectStore.autoIncrement ? null : EntryError.KeyRequired;
+      }
+      return IndexedDBModel.isValidKey(key) ? null : EntryError.InvalidKey;
+    }
+    if (key !== undefined) {
+      return EntryError.KeyNotAllowed;
+    }
+    const inlineKey = IndexedDBModel.evaluateKeyPath(value, objectStore.keyPath);
+    if (inlineKey === undefined) {
+      if (!objectStore.autoIncrement) {
+        return EntryError.KeyPathNotFound;
+      }
+      // The key generator stores the generated key in the value.
+      return value && typeof value === 'object' ? null : EntryError.ValueNotObject;
+    }
+    return IndexedDBModel.isValidKey(inlineKey) ? null : EntryError.InvalidKey;
+  }
+
   enable(): void {
     if (this.enabled) {
       return;
@@ -198,6 +280,56 @@ export class IndexedDBModel extends SDK.SDKModel.SDKModel<EventTypes> implements
         {storageKey: databaseId.storageKey, databaseName: databaseId.name, objectStoreName, keyRange});
   }
 
+  private executionContextForStorageKey(storageKey: string): SDK.RuntimeModel.ExecutionContext|null {
+    const runtimeModel = this.target().model(SDK.RuntimeModel.RuntimeModel);
+    return runtimeModel?.executionContexts().find(
+               context =>
+                   context.isDefault && Boolean(context.origin) && storageKey.startsWith(context.origin + '/')) ??
+        null;
+  }
+
+  // There is no protocol method to write entries, so they are written by a script in a page of their storage key.
+  private async evaluateInStorageKey(storageKey: string, expression: string, returnByValue: boolean):
+      Promise<{value: unknown}|{error: string}> {
+    const context = this.executionContextForStorageKey(storageKey);
+    if (!context) {
+      return {error: i18nString(UIStrings.noPageForS, {PH1: storageKey})};
+    }
+    const result = await context.evaluate(
+        {expression, objectGroup: 'indexeddb', includeCommandLineAPI: false, silent: true, returnByValue}, false, true);
+    if ('error' in result) {
+      return {error: result.error};
+    }
+    if (result.exceptionDetails) {
+      return {error: result.exceptionDetails.exception?.description ?? result.exceptionDetails.text};
+    }
+    return {value: result.object.value};
+  }
+
+  /**
+   * Puts the entries produced by `entriesExpression`, evaluated in the page, into an object store in
+   * a single transaction. Each entry is an object with the `value`, the `key` of stores without key
+   * path, and the `originalKey` of an edited entry, which is deleted first. Returns the error of the
+   * transaction, if any.
+   */
+  async putEntries(databaseId: DatabaseId, objectStoreName: string, entriesExpression: string): Promise<string|null> {
+    const expression = `(${putEntriesInPage.toString()})(${openDatabaseInPage.toString()}, ${
+        JSON.stringify(databaseId.name)}, ${JSON.stringify(objectStoreName)}, ${entriesExpression})`;
+    const result = await this.evaluateInStorageKey(databaseId.storageKey, expression, true);
+    return 'error' in result ? result.error : null;
+  }
+
+  async getAllEntries(databaseId: DatabaseId, objectStoreName: string):
+      Promise<{entries: EntryData[]}|{error: string}> {
+    const expression = `(${getAllEntriesInPage.toString()})(${openDatabaseInPage.toString()}, ${
+        jsonValueInPage.toString()}, ${JSON.stringify(databaseId.name)}, ${JSON.stringify(objectStoreName)})`;
+    const result = await this.evaluateInStorageKey(databaseId.storageKey, expression, true);
+    if ('error' in result) {
+      return result;
+    }
+    return result.value ? {entries: result.value as EntryData[]} : {error: i18nString(UIStrings.entriesNotJson)};
+  }
+
   private storageKeyAdded(event: Common.EventTarget.EventTargetEvent<string>): void {
     this.addStorageKey(event.data);
   }
@@ -439,6 +571,19 @@ export class Entry {
   }
 }
 
+export interface EntryData {
+  key?: unknown;
+  value: unknown;
+}
+
+export const enum EntryError {
+  KeyNotAllowed = 'KeyNotAllowed',
+  KeyRequired = 'KeyRequired',
+  InvalidKey = 'InvalidKey',
+  KeyPathNotFound = 'KeyPathNotFound',
+  ValueNotObject = 'ValueNotObject',
+}
+
 export class DatabaseId {
   readonly storageKey: string;
   name: string;
@@ -511,3 +656,115 @@ export interface ObjectStoreMetadata {
   entriesCount: number;
   keyGeneratorValue: number;
 }
+
+export const ObjectStoreFileVersion = 1;
+
+/**
+ * The JSON format in which the entries of an object store are exported and imported. Since keys
+ * and values are stored as JSON, object stores holding dates, binary data, maps or other values
+ * that JSON cannot represent are not exported.
+ */
+export interface ObjectStoreFile {
+  version: number;
+  databaseName: string;
+  objectStoreName: string;
+  entries: EntryData[];
+}
+
+export function parseObjectStoreFile(text: string): EntryData[] {
+  const json = JSON.parse(text);
+  if (!json || typeof json !== 'object' || json.version !== ObjectStoreFileVersion || !Array.isArray(json.entries) ||
+      !json.entries.every((entry: unknown) => entry && typeof entry === 'object' && 'value' in entry)) {
+    throw new Error(i18nString(UIStrings.notAnObjectStoreFile));
+  }
+  return json.entries;
+}
+
+// The functions below run in the page, so they only use their arguments.
+
+/**
+ * Returns the value in an object if JSON represents it exactly, and null if JSON would lose
+ * parts of it, like dates, binary data, maps or `undefined`.
+ */
+export function jsonValueInPage(this: Object): {value: unknown}|null {
+  const isJSON = (value: unknown): boolean => {
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+      return true;
+    }
+    if (typeof value === 'number') {
+      return Number.isFinite(value);
+    }
+    if (typeof value !== 'object') {
+      return false;
+    }
+    if (Array.isArray(value)) {
+      for (let i = 0; i < value.length; ++i) {
+        if (!(i in value) || !isJSON(value[i])) {
+          return false;
+        }
+      }
+      return Object.getPrototypeOf(value) === Array.prototype;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return (prototype === Object.prototype || prototype === null) && Object.values(value).every(isJSON);
+  };
+  return isJSON(this) ? {value: this} : null;
+}
+function openDatabaseInPage(databaseName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(databaseName);
+    // Do not create databases that were deleted in the meantime.
+    request.onupgradeneeded = (): void => request.transaction?.abort();
+    request.onsuccess = (): void => resolve(request.result);
+    request.onerror = (): void => reject(request.error);
+  });
+}
+
+async function putEntriesInPage(
+    openDatabase: typeof openDatabaseInPage, databaseName: string, objectStoreName: string,
+    entries: {key?: IDBValidKey, value: unknown, originalKey?: IDBValidKey}[]): Promise<void> {
+  const database = await openDatabase(databaseName);
+  try {
+    const transaction = database.transaction(objectStoreName, 'readwrite');
+    const completed = new Promise((resolve, reject) => {
+      transaction.oncomplete = resolve;
+      transaction.onabort = (): void => reject(transaction.error);
+    });
+    try {
+      const objectStore = transaction.objectStore(objectStoreName);
+      for (const {key, value, originalKey} of entries) {
+        if (originalKey !== undefined) {
+          objectStore.delete(originalKey);
+        }
+        objectStore.put(value, key);
+      }
+    } catch (error) {
+      // Roll back the entries put before the invalid one.
+      transaction.abort();
+      await completed.catch(() => {});
+      throw error;
+    }
+    await completed;
+  } finally {
+    database.close();
+  }
+}
+
+// Returns null if JSON cannot represent some of the entries.
+async function getAllEntriesInPage(
+    openDatabase: typeof openDatabaseInPage, jsonValue: typeof jsonValueInPage, databaseName: string,
+    objectStoreName: string): Promise<EntryData[]|null> {
+  const database = await openDatabase(databaseName);
+  try {
+    const objectStore = database.transaction(objectStoreName, 'readonly').objectStore(objectStoreName);
+    const [keys, values] = await Promise.all(
+        [objectStore.getAllKeys(), objectStore.getAll()].map(request => new Promise<unknown[]>((resolve, reject) => {
+                                                               request.onsuccess = (): void => resolve(request.result);
+                                                               request.onerror = (): void => reject(request.error);
+                                                             })));
+    const entries = keys.map((key, index) => ({key, value: values[index]}));
+    return jsonValue.call(entries) ? entries : null;
+  } finally {
+    database.close();
+  }
+}
@@ -28,6 +28,7 @@
  * OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
  */
 
+import * as Common from '../../core/common/common.js';
 import * as i18n from '../../core/i18n/i18n.js';
 
 import indexedDBViewsStyles from './indexedDBViews.css.js';
@@ -35,15 +36,22 @@ import indexedDBViewsStyles from './indexedDBViews.css.js';
 import type * as SDK from '../../core/sdk/sdk.js';
 import * as DataGrid from '../../ui/legacy/components/data_grid/data_grid.js';
 import * as ObjectUI from '../../ui/legacy/components/object_ui/object_ui.js';
+import * as Components from '../../ui/legacy/components/utils/utils.js';
 import * as UI from '../../ui/legacy/legacy.js';
 
+import {entryErrorText, IndexedDBEntryEditor} from './IndexedDBEntryEditor.js';
 import {
+  IndexedDBModel,
+  jsonValueInPage,
+  ObjectStoreFileVersion,
+  parseObjectStoreFile,
   type Database,
   type DatabaseId,
   type Entry,
+  type EntryData,
   type Index,
-  type IndexedDBModel,
   type ObjectStore,
+  type ObjectStoreFile,
   type ObjectStoreMetadata,
 } from './IndexedDBModel.js';
 
@@ -151,6 +159,50 @@ const UIStrings = {
   *@example {2} PH1
   */
   keyGeneratorValueS: 'Key generator value: {PH1}',
+  /**
+  *@description Tooltip text of the button that adds an entry to an IndexedDB object store in the Application panel
+  */
+  addEntry: 'Add entry',
+  /**
+  *@description Tooltip text of the button that edits the selected entry of an IndexedDB object store in the Application panel
+  */
+  editSelected: 'Edit selected',
+  /**
+  *@description Context menu item that edits an entry of an IndexedDB object store in the Application panel
+  */
+  editEntry: 'Edit entry',
+  /**
+  *@description Tooltip text of the button that puts the entries of a JSON file into an IndexedDB object store in the Application panel
+  */
+  importEntries: 'Import entries',
+  /**
+  *@description Tooltip text of the button that saves the entries of an IndexedDB object store to a JSON file in the Application panel
+  */
+  exportEntries: 'Export entries',
+  /**
+  *@description Error message in the Console when entries cannot be imported into an IndexedDB object store
+  *@example {todos} PH1
+  *@example {The file does not contain IndexedDB object store entries.} PH2
+  */
+  couldNotImportEntriesIntoSS: 'Could not import entries into {PH1}: {PH2}',
+  /**
+  *@description Error message in the Console when the entries of an IndexedDB object store cannot be exported
+  *@example {todos} PH1
+  *@example {No page or frame of https://example.com/ is loaded to access its IndexedDB databases.} PH2
+  */
+  couldNotExportEntriesOfSS: 'Could not export entries of {PH1}: {PH2}',
+  /**
+  *@description Error message in the Console when an IndexedDB entry cannot be edited as JSON
+  *@example {todos} PH1
+  */
+  cannotEditEntryOfS:
+      'Cannot edit the entry of {PH1}, because its key or value holds data that JSON cannot represent, like dates, binary data or maps.',
+  /**
+  *@description Error message of an imported IndexedDB entry
+  *@example {3} PH1
+  *@example {Keys must be numbers, strings, dates or arrays of keys.} PH2
+  */
+  entryDS: 'Entry {PH1}: {PH2}',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/application/IndexedDBViews.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
@@ -243,6 +295,11 @@ export class IDBDataView extends UI.View.SimpleView {
   private readonly refreshButton: UI.Toolbar.ToolbarButton;
   private readonly deleteSelectedButton: UI.Toolbar.ToolbarButton;
   private readonly clearButton: UI.Toolbar.ToolbarButton;
+  private readonly addButton: UI.Toolbar.ToolbarButton;
+  private readonly editSelectedButton: UI.Toolbar.ToolbarButton;
+  private readonly importButton: UI.Toolbar.ToolbarButton;
+  private readonly exportButton: UI.Toolbar.ToolbarButton;
+  private readonly fileSelectorElement: HTMLInputElement;
   private readonly needsRefresh: UI.Toolbar.ToolbarItem;
   private clearingObjectStore: boolean;
   private pageSize: number;
@@ -286,6 +343,27 @@ export class IDBDataView extends UI.View.SimpleView {
       void this.clearButtonClicked();
     }, this);
 
+    this.addButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.addEntry), 'largeicon-add');
+    this.addButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => {
+      new IndexedDBEntryEditor(this.objectStore, null, this.putEntries.bind(this)).show();
+    });
+
+    this.editSelectedButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.editSelected), 'largeicon-edit');
+    this.editSelectedButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => {
+      if (this.dataGrid.selectedNode) {
+        void this.editEntry(this.dataGrid.selectedNode);
+      }
+    });
+
+    this.importButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.importEntries), 'largeicon-load');
+    this.importButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => this.fileSelectorElement.click());
+    this.fileSelectorElement =
+        Components.FileImportExport.createImportFileSelectorElement(file => void this.importEntries(file));
+    this.element.appendChild(this.fileSelectorElement);
+
+    this.exportButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.exportEntries), 'largeicon-download');
+    this.exportButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => void this.exportEntries());
+
     this.needsRefresh = new UI.Toolbar.ToolbarItem(
         UI.UIUtils.createIconLabel(i18nString(UIStrings.dataMayBeStale), 'smallicon-warning'));
     this.needsRefresh.setVisible(false);
@@ -412,8 +490,13 @@ export class IDBDataView extends UI.View.SimpleView {
     this.keyInput.addEventListener(UI.Toolbar.ToolbarInput.Event.TextChanged, this.updateData.bind(this, false));
     editorToolbar.appendToolbarItem(this.keyInput);
     editorToolbar.appendToolbarItem(new UI.Toolbar.ToolbarSeparator());
+    editorToolbar.appendToolbarItem(this.addButton);
+    editorToolbar.appendToolbarItem(this.editSelectedButton);
     editorToolbar.appendToolbarItem(this.clearButton);
     editorToolbar.appendToolbarItem(this.deleteSelectedButton);
+    editorToolbar.appendToolbarItem(new UI.Toolbar.ToolbarSeparator());
+    editorToolbar.appendToolbarItem(this.importButton);
+    editorToolbar.appendToolbarItem(this.exportButton);
 
     editorToolbar.appendToolbarItem(this.needsRefresh);
   }
@@ -431,6 +514,7 @@ export class IDBDataView extends UI.View.SimpleView {
   private populateContextMenu(
       contextMenu: UI.ContextMenu.ContextMenu, gridNode: DataGrid.DataGrid.DataGridNode<unknown>): void {
     const node = (gridNode as IDBDataGridNode);
+    contextMenu.editSection().appendItem(i18nString(UIStrings.editEntry), () => void this.editEntry(node));
     if (node.valueObjectPresentation) {
       contextMenu.revealSection().appendItem(i18nString(UIStrings.expandRecursively), () => {
         if (!node.valueObjectPresentation) {
@@ -600,6 +684,77 @@ export class IDBDataView extends UI.View.SimpleView {
     this.refreshObjectStoreCallback();
   }
 
+  private async editEntry(node: DataGrid.DataGrid.DataGridNode<unknown>): Promise<void> {
+    const key = (this.isIndex ? node.data.primaryKey : node.data.key) as SDK.RemoteObject.RemoteObject;
+    const [jsonKey, jsonValue] = await Promise.all(
+        [remoteObjectJSONValue(key), remoteObjectJSONValue(node.data.value as SDK.RemoteObject.RemoteObject)]);
+    // Saving would silently replace what JSON cannot represent, so such entries are not edited.
+    if (!jsonKey || !jsonValue) {
+      Common.Console.Console.instance().error(i18nString(UIStrings.cannotEditEntryOfS, {PH1: this.objectStore.name}));
+      return;
+    }
+    const entry = {
+      keyText: this.objectStore.keyPath === null ? JSON.stringify(jsonKey.value) : '',
+      valueText: JSON.stringify(jsonValue.value, null, 2),
+      originalKey: jsonKey.value,
+    };
+    new IndexedDBEntryEditor(this.objectStore, entry, this.putEntries.bind(this)).show();
+  }
+
+  private async putEntries(entriesExpression: string): Promise<string|null> {
+    const error = await this.model.putEntries(this.databaseId, this.objectStore.name, entriesExpression);
+    if (!error) {
+      this.refreshObjectStoreCallback();
+    }
+    return error;
+  }
+
+  private async importEntries(file: File): Promise<void> {
+    const reportError = (error: string): void => {
+      Common.Console.Console.instance().error(
+          i18nString(UIStrings.couldNotImportEntriesIntoSS, {PH1: this.objectStore.name, PH2: error}));
+    };
+    let entries: EntryData[];
+    try {
+      entries = parseObjectStoreFile(await file.text());
+    } catch (error) {
+      reportError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    // Exported entries always have keys, which object stores with a key path take from the values.
+    if (this.objectStore.keyPath !== null) {
+      entries = entries.map(({value}) => ({value}));
+    }
+    for (let i = 0; i < entries.length; ++i) {
+      const entryError = IndexedDBModel.validateEntry(this.objectStore, entries[i].key, entries[i].value);
+      if (entryError) {
+        reportError(i18nString(UIStrings.entryDS, {PH1: i, PH2: entryErrorText(entryError, this.objectStore)}));
+        return;
+      }
+    }
+    const error = await this.putEntries(`JSON.parse(${JSON.stringify(JSON.stringify(entries))})`);
+    if (error) {
+      reportError(error);
+    }
+  }
+
+  private async exportEntries(): Promise<void> {
+    const result = await this.model.getAllEntries(this.databaseId, this.objectStore.name);
+    if ('error' in result) {
+      Common.Console.Console.instance().error(
+          i18nString(UIStrings.couldNotExportEntriesOfSS, {PH1: this.objectStore.name, PH2: result.error}));
+      return;
+    }
+    const file: ObjectStoreFile = {
+      version: ObjectStoreFileVersion,
+      databaseName: this.databaseId.name,
+      objectStoreName: this.objectStore.name,
+      entries: result.entries,
+    };
+    await Components.FileImportExport.saveToTimestampedFile(
+        `${this.databaseId.name}-${this.objectStore.name}`, 'json', JSON.stringify(file, null, 2));
+  }
+
   clear(): void {
     this.dataGrid.rootNode().removeChildren();
     this.entries = [];
@@ -608,6 +763,7 @@ export class IDBDataView extends UI.View.SimpleView {
   private updateToolbarEnablement(): void {
     const empty = !this.dataGrid || this.dataGrid.rootNode().children.length === 0;
     this.deleteSelectedButton.setEnabled(!empty && this.dataGrid.selectedNode !== null);
+    this.editSelectedButton.setEnabled(!empty && this.dataGrid.selectedNode !== null);
   }
   wasShown(): void {
     super.wasShown();
@@ -615,6 +771,14 @@ export class IDBDataView extends UI.View.SimpleView {
   }
 }
 
+// Returns null if JSON cannot represent the value of the object.
+async function remoteObjectJSONValue(object: SDK.RemoteObject.RemoteObject): Promise<{value: unknown}|null> {
+  if (!object.objectId) {
+    return object.type === 'undefined' || object.unserializableValue() !== undefined ? null : {value: object.value};
+  }
+  return object.callFunctionJSON(jsonValueInPage, []);
+}
+
 export class IDBDataGridNode extends DataGrid.DataGrid.DataGridNode<unknown> {
   selectable: boolean;
   valueObjectPresentation: ObjectUI.ObjectPropertiesSection.ObjectPropertiesSection|null;
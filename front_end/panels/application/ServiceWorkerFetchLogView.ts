@@ -0,0 +1,203 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as i18n from '../../core/i18n/i18n.js';
+import type * as SDK from '../../core/sdk/sdk.js';
+import * as Protocol from '../../generated/protocol.js';
+import * as Logs from '../../models/logs/logs.js';
+import * as Components from '../../ui/legacy/components/utils/utils.js';
+
+const UIStrings = {
+  /**
+  *@description Table heading for the URLs of the requests in the fetch event log of a service worker
+  */
+  request: 'Request',
+  /**
+  *@description Table heading for where the responses of the requests in the fetch event log of a service worker come from
+  */
+  servedFrom: 'Served from',
+  /**
+  *@description Table heading for the names of the caches that the responses in the fetch event log of a service worker come from
+  */
+  cache: 'Cache',
+  /**
+  *@description Table heading for the time that a service worker took to respond to a fetch event
+  */
+  fetchEvent: 'Fetch event',
+  /**
+  *@description Table heading for the total time of the requests in the fetch event log of a service worker
+  */
+  total: 'Total',
+  /**
+  *@description Text in the fetch event log of a service worker for responses from the Cache Storage
+  */
+  cacheStorage: 'Cache Storage',
+  /**
+  *@description Text in the fetch event log of a service worker for responses from the HTTP cache
+  */
+  httpCache: 'HTTP cache',
+  /**
+  *@description Text in the fetch event log of a service worker for responses that the service worker fetched from the network
+  */
+  network: 'Network',
+  /**
+  *@description Text in the fetch event log of a service worker for responses that the service worker created itself
+  */
+  synthesized: 'Synthesized',
+  /**
+  *@description Text in the fetch event log of a service worker for requests that the service worker did not respond to, so that the browser loaded them from the network
+  */
+  networkFallback: 'Network fallback',
+  /**
+  *@description Text in the fetch event log of a service worker for responses whose source was not reported
+  */
+  serviceWorker: 'Service worker',
+  /**
+  *@description Text in the fetch event log of a service worker when no request was handled by it yet
+  */
+  noFetchEvents: 'No fetch events yet',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/application/ServiceWorkerFetchLogView.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+// The log only shows the most recent fetch events of a registration.
+const MaxFetchLogEntries = 100;
+
+export const enum FetchEventSource {
+  CacheStorage = 'CacheStorage',
+  HttpCache = 'HttpCache',
+  Network = 'Network',
+  Synthesized = 'Synthesized',
+  NetworkFallback = 'NetworkFallback',
+  Unknown = 'Unknown',
+}
+
+export interface FetchLogEntry {
+  request: SDK.NetworkRequest.NetworkRequest;
+  source: FetchEventSource;
+  cacheName?: string;
+  // The time from the dispatch of the fetch event to the settling of its respondWith() promise, in milliseconds.
+  fetchEventTime?: number;
+}
+
+function sourceForResponse(responseSource: Protocol.Network.ServiceWorkerResponseSource|undefined): FetchEventSource {
+  switch (responseSource) {
+    case Protocol.Network.ServiceWorkerResponseSource.CacheStorage:
+      return FetchEventSource.CacheStorage;
+    case Protocol.Network.ServiceWorkerResponseSource.HttpCache:
+      return FetchEventSource.HttpCache;
+    case Protocol.Network.ServiceWorkerResponseSource.Network:
+      return FetchEventSource.Network;
+    case Protocol.Network.ServiceWorkerResponseSource.FallbackCode:
+      return FetchEventSource.Synthesized;
+  }
+  return FetchEventSource.Unknown;
+}
+
+/**
+ * Describes how a service worker handled the fetch event of a request, or returns null for requests
+ * that were not dispatched to a service worker. Requests that the worker did not respond to are
+ * still timed by the worker, and are loaded from the network as a fallback.
+ */
+export function fetchLogEntryForRequest(request: SDK.NetworkRequest.NetworkRequest): FetchLogEntry|null {
+  const timing = request.timing;
+  const dispatchedToWorker = Boolean(timing && timing.workerFetchStart >= 0);
+  if (!request.fetchedViaServiceWorker && !dispatchedToWorker) {
+    return null;
+  }
+  const entry: FetchLogEntry = {
+    request,
+    source: request.fetchedViaServiceWorker ? sourceForResponse(request.serviceWorkerResponseSource()) :
+                                              FetchEventSource.NetworkFallback,
+  };
+  const cacheName = request.getResponseCacheStorageCacheName();
+  if (entry.source === FetchEventSource.CacheStorage && cacheName) {
+    entry.cacheName = cacheName;
+  }
+  if (timing && timing.workerFetchStart >= 0 && timing.workerRespondWithSettled >= timing.workerFetchStart) {
+    entry.fetchEventTime = timing.workerRespondWithSettled - timing.workerFetchStart;
+  }
+  return entry;
+}
+
+// Fetch events are dispatched for the requests of the documents in the scope of a registration.
+export function isRequestInScope(request: SDK.NetworkRequest.NetworkRequest, scopeURL: string): boolean {
+  return Boolean(scopeURL) && request.documentURL.startsWith(scopeURL);
+}
+
+export function fetchSourceText(source: FetchEventSource): string {
+  switch (source) {
+    case FetchEventSource.CacheStorage:
+      return i18nString(UIStrings.cacheStorage);
+    case FetchEventSource.HttpCache:
+      return i18nString(UIStrings.httpCache);
+    case FetchEventSource.Network:
+      return i18nString(UIStrings.network);
+    case FetchEventSource.Synthesized:
+      return i18nString(UIStrings.synthesized);
+    case FetchEventSource.NetworkFallback:
+      return i18nString(UIStrings.networkFallback);
+    case FetchEventSource.Unknown:
+      return i18nString(UIStrings.serviceWorker);
+  }
+}
+
+export class ServiceWorkerFetchLogView {
+  private registration: SDK.ServiceWorkerManager.ServiceWorkerRegistration;
+  tableElement: HTMLElement;
+  constructor(registration: SDK.ServiceWorkerManager.ServiceWorkerRegistration) {
+    this.registration = registration;
+    this.tableElement = document.createElement('table');
+    this.tableElement.classList.add('service-worker-fetch-log-table');
+    this.refresh();
+  }
+
+  // The most recent fetch events of the registration, newest first.
+  fetchLogEntries(): FetchLogEntry[] {
+    const entries = [];
+    const requests = Logs.NetworkLog.NetworkLog.instance().requests();
+    for (let i = requests.length - 1; i >= 0 && entries.length < MaxFetchLogEntries; --i) {
+      if (!isRequestInScope(requests[i], this.registration.scopeURL)) {
+        continue;
+      }
+      const entry = fetchLogEntryForRequest(requests[i]);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  refresh(): void {
+    this.tableElement.removeChildren();
+    const entries = this.fetchLogEntries();
+    if (!entries.length) {
+      this.tableElement.createChild('tr').createChild('td', 'service-worker-fetch-log-empty').textContent =
+          i18nString(UIStrings.noFetchEvents);
+      return;
+    }
+
+    const header = this.tableElement.createChild('tr', 'service-worker-fetch-log-header');
+    header.createChild('td').textContent = i18nString(UIStrings.request);
+    header.createChild('td').textContent = i18nString(UIStrings.servedFrom);
+    header.createChild('td').textContent = i18nString(UIStrings.cache);
+    header.createChild('td').textContent = i18nString(UIStrings.fetchEvent);
+    header.createChild('td').textContent = i18nString(UIStrings.total);
+
+    for (const entry of entries) {
+      const {request} = entry;
+      const row = this.tableElement.createChild('tr', 'service-worker-fetch-log-row');
+      row.classList.toggle('service-worker-fetch-log-fallback', entry.source === FetchEventSource.NetworkFallback);
+      const name = request.name() || request.url();
+      row.createChild('td', 'service-worker-fetch-log-url')
+          .appendChild(Components.Linkifier.Linkifier.linkifyRevealable(request, name, request.url(), request.url()));
+      row.createChild('td').textContent = fetchSourceText(entry.source);
+      row.createChild('td').textContent = entry.cacheName || '';
+      row.createChild('td', 'service-worker-fetch-log-time').textContent =
+          entry.fetchEventTime === undefined ? '' : i18n.TimeUtilities.millisToString(entry.fetchEventTime, true);
+      row.createChild('td', 'service-worker-fetch-log-time').textContent =
+          request.duration < 0 ? '' : i18n.TimeUtilities.secondsToString(request.duration, true);
+    }
+  }
+}
@@ -17,6 +17,7 @@ import type * as Protocol from '../../generated/protocol.js';
 import * as MobileThrottling from '../mobile_throttling/mobile_throttling.js';
 import * as NetworkForward from '../../panels/network/forward/forward.js';
 
+import {ServiceWorkerFetchLogView} from './ServiceWorkerFetchLogView.js';
 import {ServiceWorkerUpdateCycleView} from './ServiceWorkerUpdateCycleView.js';
 
 const UIStrings = {
@@ -174,6 +175,23 @@ const UIStrings = {
   *@description Link to view all the Service Workers that have been registered.
   */
   seeAllRegistrations: 'See all registrations',
+  /**
+  *@description Title of the field with the network settings of a service worker in the Service Workers View of the Application panel
+  */
+  network: 'Network',
+  /**
+  *@description Text of a checkbox that takes a single service worker offline in the Service Workers View of the Application panel
+  */
+  offline: 'Offline',
+  /**
+  *@description Tooltip of a checkbox that takes a single service worker offline in the Service Workers View of the Application panel
+  */
+  takeThisServiceWorkerOffline:
+      'Fail the requests of this `service worker` as if it was offline, independently of network throttling',
+  /**
+  *@description Title of the log of the fetch events handled by a service worker in the Service Workers View of the Application panel
+  */
+  fetchEvents: 'Fetch events',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/application/ServiceWorkersView.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
@@ -248,6 +266,11 @@ export class ServiceWorkersView extends UI.Widget.VBox implements
 
     this.eventListeners = new Map();
     SDK.TargetManager.TargetManager.instance().observeModels(SDK.ServiceWorkerManager.ServiceWorkerManager, this);
+
+    const networkLog = Logs.NetworkLog.NetworkLog.instance();
+    networkLog.addEventListener(Logs.NetworkLog.Events.RequestAdded, this.networkLogChanged, this);
+    networkLog.addEventListener(Logs.NetworkLog.Events.RequestUpdated, this.networkLogChanged, this);
+    networkLog.addEventListener(Logs.NetworkLog.Events.Reset, this.networkLogChanged, this);
     this.updateListVisibility();
 
     const drawerChangeHandler = (event: Event): void => {
@@ -335,6 +358,12 @@ export class ServiceWorkersView extends UI.Widget.VBox implements
     return timestamp || 0;
   }
 
+  private networkLogChanged(): void {
+    for (const section of this.sections.values()) {
+      section.scheduleFetchLogUpdate();
+    }
+  }
+
   private updateSectionVisibility(): void {
     let hasThis = false;
     const movedSections = [];
@@ -480,6 +509,8 @@ export class Section {
   private readonly periodicSyncTagNameSetting: Common.Settings.Setting<string>;
   private readonly toolbar: UI.Toolbar.Toolbar;
   private readonly updateCycleView: ServiceWorkerUpdateCycleView;
+  private readonly fetchLogView: ServiceWorkerFetchLogView;
+  private readonly offlineCheckbox: UI.UIUtils.CheckboxLabel;
   private readonly networkRequests: UI.Toolbar.ToolbarButton;
   private readonly updateButton: UI.Toolbar.ToolbarButton;
   private readonly deleteButton: UI.Toolbar.ToolbarButton;
@@ -489,6 +520,7 @@ export class Section {
   private readonly linkifier: Components.Linkifier.Linkifier;
   private readonly clientInfoCache: Map<string, Protocol.Target.TargetInfo>;
   private readonly throttler: Common.Throttler.Throttler;
+  private readonly fetchLogThrottler: Common.Throttler.Throttler;
   private updateCycleField?: Element;
 
   constructor(
@@ -509,6 +541,7 @@ export class Section {
     this.toolbar.renderAsLinks();
 
     this.updateCycleView = new ServiceWorkerUpdateCycleView(registration);
+    this.fetchLogView = new ServiceWorkerFetchLogView(registration);
     this.networkRequests = new UI.Toolbar.ToolbarButton(
         i18nString(UIStrings.networkRequests), undefined, i18nString(UIStrings.networkRequests));
     this.networkRequests.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, this.networkRequestsClicked, this);
@@ -526,6 +559,10 @@ export class Section {
     this.sourceField = this.wrapWidget(this.section.appendField(i18nString(UIStrings.source)));
     this.statusField = this.wrapWidget(this.section.appendField(i18nString(UIStrings.status)));
     this.clientsField = this.wrapWidget(this.section.appendField(i18nString(UIStrings.clients)));
+    this.offlineCheckbox = UI.UIUtils.CheckboxLabel.create(
+        i18nString(UIStrings.offline), false, i18nString(UIStrings.takeThisServiceWorkerOffline));
+    this.offlineCheckbox.checkboxElement.addEventListener('change', this.updateOffline.bind(this));
+    this.wrapWidget(this.section.appendField(i18nString(UIStrings.network))).appendChild(this.offlineCheckbox);
     this.createSyncNotificationField(
         i18nString(UIStrings.pushString), this.pushNotificationDataSetting.get(), i18nString(UIStrings.pushData),
         this.push.bind(this));
@@ -536,10 +573,13 @@ export class Section {
         i18nString(UIStrings.periodicSync), this.periodicSyncTagNameSetting.get(),
         i18nString(UIStrings.periodicSyncTag), tag => this.periodicSync(tag));
     this.createUpdateCycleField();
+    this.wrapWidget(this.section.appendField(i18nString(UIStrings.fetchEvents)))
+        .appendChild(this.fetchLogView.tableElement);
 
     this.linkifier = new Components.Linkifier.Linkifier();
     this.clientInfoCache = new Map();
     this.throttler = new Common.Throttler.Throttler(500);
+    this.fetchLogThrottler = new Common.Throttler.Throttler(500);
   }
 
   private createSyncNotificationField(
@@ -570,6 +610,25 @@ export class Section {
     void this.throttler.schedule(this.update.bind(this));
   }
 
+  scheduleFetchLogUpdate(): void {
+    if (throttleDisabledForDebugging) {
+      this.fetchLogView.refresh();
+      return;
+    }
+    void this.fetchLogThrottler.schedule(async () => this.fetchLogView.refresh());
+  }
+
+  // Called on every update too, so that new and restarted workers, which get new targets, stay offline.
+  private updateOffline(): void {
+    const offline = this.offlineCheckbox.checkboxElement.checked;
+    for (const version of this.registration.versions.values()) {
+      const target = this.targetForVersionId(version.id);
+      if (target) {
+        SDK.NetworkManager.MultitargetNetworkManager.instance().setTargetOffline(target, offline);
+      }
+    }
+  }
+
   private targetForVersionId(versionId: string): SDK.Target.Target|null {
     const version = this.manager.findVersion(versionId);
     if (!version || !version.targetId) {
@@ -702,6 +761,7 @@ export class Section {
     }
 
     this.updateCycleView.refresh();
+    this.updateOffline();
 
     return Promise.resolve();
   }
@@ -12,6 +12,7 @@ import * as DatabaseQueryView from './DatabaseQueryView.js';
 import * as DatabaseTableView from './DatabaseTableView.js';
 import * as DOMStorageItemsView from './DOMStorageItemsView.js';
 import * as DOMStorageModel from './DOMStorageModel.js';
+import * as IndexedDBEntryEditor from './IndexedDBEntryEditor.js';
 import * as IndexedDBModel from './IndexedDBModel.js';
 import * as IndexedDBViews from './IndexedDBViews.js';
 import * as InterestGroupStorageModel from './InterestGroupStorageModel.js';
@@ -24,6 +25,7 @@ import * as ReportingApiView from './ReportingApiView.js';
 import * as ResourcesPanel from './ResourcesPanel.js';
 import * as ServiceWorkerCacheViews from './ServiceWorkerCacheViews.js';
 import * as ServiceWorkersView from './ServiceWorkersView.js';
+import * as ServiceWorkerFetchLogView from './ServiceWorkerFetchLogView.js';
 import * as ServiceWorkerUpdateCycleView from './ServiceWorkerUpdateCycleView.js';
 import * as SharedStorageEventsView from './SharedStorageEventsView.js';
 import * as SharedStorageItemsView from './SharedStorageItemsView.js';
@@ -45,6 +47,7 @@ export {
   DatabaseTableView,
   DOMStorageItemsView,
   DOMStorageModel,
+  IndexedDBEntryEditor,
   IndexedDBModel,
   IndexedDBViews,
   InterestGroupStorageModel,
@@ -57,6 +60,7 @@ export {
   ResourcesPanel,
   ServiceWorkerCacheViews,
   ServiceWorkersView,
+  ServiceWorkerFetchLogView,
   ServiceWorkerUpdateCycleView,
   SharedStorageEventsView,
   SharedStorageItemsView,
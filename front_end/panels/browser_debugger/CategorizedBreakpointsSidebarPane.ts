@@ -193,12 +193,25 @@ export abstract class CategorizedBreakpointsSidebarPane extends UI.Widget.VBox {
 
     this.toggleBreakpoint(breakpoint, item.checkbox.checked);
     UI.ARIAUtils.setChecked(item.element.listItemElement, item.checkbox.checked);
+    this.updateCategoryCheckbox(breakpoint.category());
+  }
+
+  // Shows the state of breakpoints that were enabled or disabled elsewhere, e.g. by importing a file.
+  protected updateCheckboxes(): void {
+    for (const [breakpoint, item] of this.#breakpoints) {
+      item.checkbox.checked = breakpoint.enabled();
+      UI.ARIAUtils.setChecked(item.element.listItemElement, breakpoint.enabled());
+    }
+    for (const category of this.#categories.keys()) {
+      this.updateCategoryCheckbox(category);
+    }
+  }
 
-    // Put the rest in a separate function
+  private updateCategoryCheckbox(categoryName: string): void {
     let hasEnabled = false;
     let hasDisabled = false;
     for (const other of this.#breakpoints.keys()) {
-      if (other.category() === breakpoint.category()) {
+      if (other.category() === categoryName) {
         if (other.enabled()) {
           hasEnabled = true;
         } else {
@@ -207,7 +220,7 @@ export abstract class CategorizedBreakpointsSidebarPane extends UI.Widget.VBox {
       }
     }
 
-    const category = this.#categories.get(breakpoint.category());
+    const category = this.#categories.get(categoryName);
     if (!category) {
       return;
     }
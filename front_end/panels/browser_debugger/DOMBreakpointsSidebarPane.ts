@@ -116,6 +116,18 @@ const UIStrings = {
   *@description Screen reader description for setting a DOM breakpoint.
   */
   breakpointSet: 'Breakpoint set',
+  /**
+  *@description Context menu item in the DOM Breakpoints pane of the Sources panel that saves the DOM breakpoints of the inspected pages to a JSON file.
+  */
+  exportDomBreakpoints: 'Export DOM breakpoints…',
+  /**
+  *@description Context menu item in the DOM Breakpoints pane of the Sources panel that saves all breakpoints, including JavaScript, XHR/fetch and event listener breakpoints, to a JSON file.
+  */
+  exportAllBreakpoints: 'Export all breakpoints…',
+  /**
+  *@description Context menu item in the DOM Breakpoints pane of the Sources panel that adds the breakpoints of a JSON file.
+  */
+  importBreakpoints: 'Import breakpoints…',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/browser_debugger/DOMBreakpointsSidebarPane.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
@@ -130,6 +142,7 @@ export class DOMBreakpointsSidebarPane extends UI.Widget.VBox implements
   readonly #breakpoints: UI.ListModel.ListModel<SDK.DOMDebuggerModel.DOMBreakpoint>;
   #list: UI.ListControl.ListControl<SDK.DOMDebuggerModel.DOMBreakpoint>;
   #highlightedBreakpoint: SDK.DOMDebuggerModel.DOMBreakpoint|null;
+  readonly #fileSelectorElement: HTMLInputElement;
 
   private constructor() {
     super(true);
@@ -145,6 +158,9 @@ export class DOMBreakpointsSidebarPane extends UI.Widget.VBox implements
     UI.ARIAUtils.markAsList(this.#list.element);
     UI.ARIAUtils.setAccessibleName(this.#list.element, i18nString(UIStrings.domBreakpointsList));
     this.#emptyElement.tabIndex = -1;
+    this.#emptyElement.addEventListener('contextmenu', this.emptyElementContextMenu.bind(this), true);
+    this.#fileSelectorElement = Sources.BreakpointsFile.createImportFileSelectorElement();
+    this.contentElement.appendChild(this.#fileSelectorElement);
 
     SDK.TargetManager.TargetManager.instance().addModelListener(
         SDK.DOMDebuggerModel.DOMDebuggerModel, SDK.DOMDebuggerModel.Events.DOMBreakpointAdded, this.breakpointAdded,
@@ -329,9 +345,29 @@ export class DOMBreakpointsSidebarPane extends UI.Widget.VBox implements
     contextMenu.defaultSection().appendItem(i18nString(UIStrings.removeAllDomBreakpoints), () => {
       breakpoint.domDebuggerModel.removeAllDOMBreakpoints();
     });
+    this.appendImportExportItems(contextMenu);
     void contextMenu.show();
   }
 
+  private emptyElementContextMenu(event: Event): void {
+    const contextMenu = new UI.ContextMenu.ContextMenu(event);
+    this.appendImportExportItems(contextMenu);
+    void contextMenu.show();
+  }
+
+  private appendImportExportItems(contextMenu: UI.ContextMenu.ContextMenu): void {
+    const {BreakpointsFile} = Sources;
+    contextMenu.saveSection().appendItem(i18nString(UIStrings.exportDomBreakpoints), () => {
+      void BreakpointsFile.saveBreakpointsFile(
+          BreakpointsFile.createBreakpointsFile({domBreakpoints: BreakpointsFile.domBreakpointEntries()}));
+    }, this.#breakpoints.length === 0);
+    contextMenu.saveSection().appendItem(i18nString(UIStrings.exportAllBreakpoints), () => {
+      void BreakpointsFile.saveBreakpointsFile(BreakpointsFile.allBreakpoints());
+    });
+    contextMenu.saveSection().appendItem(
+        i18nString(UIStrings.importBreakpoints), () => this.#fileSelectorElement.click());
+  }
+
   private checkboxClicked(breakpoint: SDK.DOMDebuggerModel.DOMBreakpoint, event: Event): void {
     breakpoint.domDebuggerModel.toggleDOMBreakpoint(
         breakpoint, event.target ? (event.target as HTMLInputElement).checked : false);
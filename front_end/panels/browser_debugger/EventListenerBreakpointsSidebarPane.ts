@@ -20,6 +20,8 @@ export class EventListenerBreakpointsSidebarPane extends CategorizedBreakpointsS
     categories.sort();
     super(
         categories, breakpoints, 'sources.eventListenerBreakpoints', Protocol.Debugger.PausedEventReason.EventListener);
+    SDK.DOMDebuggerModel.DOMDebuggerManager.instance().addEventListener(
+        SDK.DOMDebuggerModel.DOMDebuggerManagerEvents.BreakpointsImported, this.updateCheckboxes, this);
   }
 
   static instance(): EventListenerBreakpointsSidebarPane {
@@ -6,6 +6,7 @@ import * as i18n from '../../core/i18n/i18n.js';
 import * as SDK from '../../core/sdk/sdk.js';
 import * as Protocol from '../../generated/protocol.js';
 import * as UI from '../../ui/legacy/legacy.js';
+import * as Sources from '../sources/sources.js';
 
 import xhrBreakpointsSidebarPaneStyles from './xhrBreakpointsSidebarPane.css.js';
 
@@ -55,6 +56,18 @@ const UIStrings = {
   *@description Text to remove a breakpoint
   */
   removeBreakpoint: 'Remove breakpoint',
+  /**
+  *@description Context menu item in the XHR/fetch Breakpoints pane of the Sources panel that saves the XHR/fetch breakpoints to a JSON file.
+  */
+  exportXhrfetchBreakpoints: 'Export XHR/fetch breakpoints…',
+  /**
+  *@description Context menu item in the XHR/fetch Breakpoints pane of the Sources panel that saves all breakpoints, including JavaScript, DOM and event listener breakpoints, to a JSON file.
+  */
+  exportAllBreakpoints: 'Export all breakpoints…',
+  /**
+  *@description Context menu item in the XHR/fetch Breakpoints pane of the Sources panel that adds the breakpoints of a JSON file.
+  */
+  importBreakpoints: 'Import breakpoints…',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/browser_debugger/XHRBreakpointsSidebarPane.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
@@ -72,6 +85,7 @@ export class XHRBreakpointsSidebarPane extends UI.Widget.VBox implements UI.Cont
   readonly #emptyElement: HTMLElement;
   readonly #breakpointElements: Map<string, Element>;
   readonly #addButton: UI.Toolbar.ToolbarButton;
+  readonly #fileSelectorElement: HTMLInputElement;
   // TODO(crbug.com/1172300) Ignored during the jsdoc to ts migration)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   #hitBreakpoint?: any;
@@ -95,8 +109,16 @@ export class XHRBreakpointsSidebarPane extends UI.Widget.VBox implements UI.Cont
       void this.addButtonClicked();
     });
 
+    this.#fileSelectorElement = Sources.BreakpointsFile.createImportFileSelectorElement();
+    this.contentElement.appendChild(this.#fileSelectorElement);
+
     this.#emptyElement.addEventListener('contextmenu', this.emptyElementContextMenu.bind(this), true);
     this.#emptyElement.tabIndex = -1;
+    SDK.DOMDebuggerModel.DOMDebuggerManager.instance().addEventListener(
+        SDK.DOMDebuggerModel.DOMDebuggerManagerEvents.BreakpointsImported, () => {
+          this.restoreBreakpoints();
+          this.update();
+        });
     this.restoreBreakpoints();
     this.update();
   }
@@ -115,9 +137,23 @@ export class XHRBreakpointsSidebarPane extends UI.Widget.VBox implements UI.Cont
   private emptyElementContextMenu(event: Event): void {
     const contextMenu = new UI.ContextMenu.ContextMenu(event);
     contextMenu.defaultSection().appendItem(i18nString(UIStrings.addBreakpoint), this.addButtonClicked.bind(this));
+    this.appendImportExportItems(contextMenu);
     void contextMenu.show();
   }
 
+  private appendImportExportItems(contextMenu: UI.ContextMenu.ContextMenu): void {
+    const {BreakpointsFile} = Sources;
+    contextMenu.saveSection().appendItem(i18nString(UIStrings.exportXhrfetchBreakpoints), () => {
+      void BreakpointsFile.saveBreakpointsFile(
+          BreakpointsFile.createBreakpointsFile({xhrBreakpoints: BreakpointsFile.xhrBreakpointEntries()}));
+    }, this.#breakpoints.length === 0);
+    contextMenu.saveSection().appendItem(i18nString(UIStrings.exportAllBreakpoints), () => {
+      void BreakpointsFile.saveBreakpointsFile(BreakpointsFile.allBreakpoints());
+    });
+    contextMenu.saveSection().appendItem(
+        i18nString(UIStrings.importBreakpoints), () => this.#fileSelectorElement.click());
+  }
+
   private async addButtonClicked(): Promise<void> {
     await UI.ViewManager.ViewManager.instance().showView('sources.xhrBreakpoints');
 
@@ -294,6 +330,7 @@ export class XHRBreakpointsSidebarPane extends UI.Widget.VBox implements UI.Cont
     contextMenu.defaultSection().appendItem(i18nString(UIStrings.addBreakpoint), this.addButtonClicked.bind(this));
     contextMenu.defaultSection().appendItem(i18nString(UIStrings.removeBreakpoint), removeBreakpoint.bind(this));
     contextMenu.defaultSection().appendItem(removeAllTitle, removeAllBreakpoints.bind(this));
+    this.appendImportExportItems(contextMenu);
     void contextMenu.show();
   }
 
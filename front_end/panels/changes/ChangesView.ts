@@ -10,6 +10,7 @@ import type * as Formatter from '../../models/formatter/formatter.js';
 import {formatCSSChangesFromDiff} from '../../panels/utils/utils.js';
 import * as Diff from '../../third_party/diff/diff.js';
 import * as DiffView from '../../ui/components/diff_view/diff_view.js';
+import * as Components from '../../ui/legacy/components/utils/utils.js';
 import * as UI from '../../ui/legacy/legacy.js';
 
 import changesViewStyles from './changesView.css.js';
@@ -52,6 +53,10 @@ const UIStrings = {
   *@description Text for a button in the Changes tool that copies all the changes from the currently open file.
   */
   copy: 'Copy',
+  /**
+  *@description Screen reader/tooltip label for a button in the Changes tool that saves the changes to all files as a patch file.
+  */
+  exportAllChangesAsPatch: 'Export all changes as patch',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/changes/ChangesView.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
@@ -76,6 +81,8 @@ export class ChangesView extends UI.Widget.VBox {
   #selectedSourceCodeFormattedMapping?: Formatter.ScriptFormatter.FormatterSourceMapping;
   private readonly diffContainer: HTMLElement;
   private readonly toolbar: UI.Toolbar.Toolbar;
+  private readonly revertButton: UI.Toolbar.ToolbarButton;
+  private readonly exportPatchButton: UI.Toolbar.ToolbarButton;
   private readonly diffStats: UI.Toolbar.ToolbarText;
   private readonly diffView: DiffView.DiffView.DiffView;
   private readonly copyButton: UI.Toolbar.ToolbarButton;
@@ -106,10 +113,18 @@ export class ChangesView extends UI.Widget.VBox {
     this.diffView = this.diffContainer.appendChild(new DiffView.DiffView.DiffView());
 
     this.toolbar = new UI.Toolbar.Toolbar('changes-toolbar', mainWidget.element);
-    const revertButton =
+    this.revertButton =
         new UI.Toolbar.ToolbarButton(i18nString(UIStrings.revertAllChangesToCurrentFile), 'largeicon-undo');
-    revertButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, this.revert.bind(this));
-    this.toolbar.appendToolbarItem(revertButton);
+    this.revertButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, this.revert.bind(this));
+    this.toolbar.appendToolbarItem(this.revertButton);
+    // Unlike the other buttons, exporting the patch does not depend on the selected file.
+    this.exportPatchButton =
+        new UI.Toolbar.ToolbarButton(i18nString(UIStrings.exportAllChangesAsPatch), 'largeicon-download');
+    this.exportPatchButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => void this.exportPatch());
+    this.toolbar.appendToolbarItem(this.exportPatchButton);
+    this.workspaceDiff.addEventListener(
+        WorkspaceDiff.WorkspaceDiff.Events.ModifiedStatusChanged, this.updateExportPatchButton, this);
+    this.updateExportPatchButton();
     this.diffStats = new UI.Toolbar.ToolbarText('');
     this.toolbar.appendToolbarItem(this.diffStats);
 
@@ -117,7 +132,7 @@ export class ChangesView extends UI.Widget.VBox {
         i18nString(UIStrings.copyAllChangesFromCurrentFile), 'largeicon-copy', UIStrings.copy);
     this.copyButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, this.copyChanges.bind(this));
     this.copyButtonSeparator = new UI.Toolbar.ToolbarSeparator();
-    this.toolbar.setEnabled(false);
+    this.setDiffButtonsEnabled(false);
 
     this.hideDiff(i18nString(UIStrings.noChanges));
     this.selectedUISourceCodeChanged();
@@ -151,6 +166,23 @@ export class ChangesView extends UI.Widget.VBox {
     void this.workspaceDiff.revertToOriginal(uiSourceCode);
   }
 
+  private setDiffButtonsEnabled(enabled: boolean): void {
+    this.revertButton.setEnabled(enabled);
+    this.copyButton.setEnabled(enabled);
+  }
+
+  private updateExportPatchButton(): void {
+    this.exportPatchButton.setEnabled(this.workspaceDiff.modifiedUISourceCodes().length > 0);
+  }
+
+  private async exportPatch(): Promise<void> {
+    const patch = await this.workspaceDiff.requestPatch();
+    if (!patch) {
+      return;
+    }
+    await Components.FileImportExport.saveToTimestampedFile('changes', 'patch', patch);
+  }
+
   private async copyChanges(): Promise<void> {
     const uiSourceCode = this.selectedUISourceCode;
     if (!uiSourceCode) {
@@ -244,7 +276,7 @@ export class ChangesView extends UI.Widget.VBox {
 
   private hideDiff(message: string): void {
     this.diffStats.setText('');
-    this.toolbar.setEnabled(false);
+    this.setDiffButtonsEnabled(false);
     this.diffContainer.style.display = 'none';
     this.emptyWidget.text = message;
     this.emptyWidget.showWidget();
@@ -255,7 +287,7 @@ export class ChangesView extends UI.Widget.VBox {
       this.hideDiff(i18nString(UIStrings.noChanges));
     } else {
       this.diffStats.setText(diffStats(diff));
-      this.toolbar.setEnabled(true);
+      this.setDiffButtonsEnabled(true);
       this.emptyWidget.hideWidget();
       const mimeType = (this.selectedUISourceCode as Workspace.UISourceCode.UISourceCode).mimeType();
       this.diffContainer.style.display = 'block';
@@ -0,0 +1,243 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as i18n from '../../core/i18n/i18n.js';
+import type * as Platform from '../../core/platform/platform.js';
+import * as SDK from '../../core/sdk/sdk.js';
+import type * as Protocol from '../../generated/protocol.js';
+
+const UIStrings = {
+  /**
+  *@description Error message when a line of an imported console log is not a console message
+  *@example {3} PH1
+  */
+  lineSIsNotAConsoleMessage: 'Line {PH1} is not a console message',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/console/ConsoleLog.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+export interface SerializedRemoteObject {
+  type: string;
+  subtype?: string;
+  className?: string;
+  description?: string;
+  // The value of primitives, or the JSON preview of objects.
+  value?: unknown;
+  unserializableValue?: string;
+}
+
+export interface SerializedConsoleMessage {
+  source: SDK.ConsoleModel.MessageSource;
+  level: Protocol.Log.LogEntryLevel|null;
+  type: SDK.ConsoleModel.MessageType;
+  messageText: string;
+  timestamp: number;
+  url?: Platform.DevToolsPath.UrlString;
+  line: number;
+  column: number;
+  executionContextId: number;
+  context?: string;
+  workerId?: string;
+  category?: Protocol.Log.LogEntryCategory;
+  stackTrace?: Protocol.Runtime.StackTrace;
+  parameters?: (string|SerializedRemoteObject)[];
+}
+
+function jsonPrimitive(type: string, subtype: string|undefined, value: string|undefined): unknown {
+  switch (type) {
+    case 'number': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : value;
+    }
+    case 'boolean':
+      return value === 'true';
+    case 'undefined':
+      return null;
+    case 'object':
+      return subtype === 'null' ? null : value;
+    default:
+      return value ?? null;
+  }
+}
+
+/**
+ * Turns the preview of a remote object into JSON, e.g. the preview of `{a: 1, b: [true]}` into the
+ * same object. Nested objects beyond the depth of the preview are kept as their description, e.g. `'Object'`.
+ */
+export function jsonPreview(preview: Protocol.Runtime.ObjectPreview): unknown {
+  if (preview.type !== 'object' || preview.subtype === 'null') {
+    return jsonPrimitive(preview.type, preview.subtype, preview.description);
+  }
+  if (preview.entries) {
+    return preview.entries.map(
+        entry => entry.key ? {key: jsonPreview(entry.key), value: jsonPreview(entry.value)} : jsonPreview(entry.value));
+  }
+  if (preview.subtype === 'array' || preview.subtype === 'typedarray') {
+    const array: unknown[] = [];
+    for (const property of preview.properties) {
+      const index = Number(property.name);
+      if (Number.isInteger(index)) {
+        array[index] = jsonPropertyPreview(property);
+      }
+    }
+    return array;
+  }
+  const object: {[key: string]: unknown} = {};
+  for (const property of preview.properties) {
+    object[property.name] = jsonPropertyPreview(property);
+  }
+  return object;
+}
+
+export function jsonPropertyPreview(property: Protocol.Runtime.PropertyPreview): unknown {
+  return property.valuePreview ? jsonPreview(property.valuePreview) :
+                                 jsonPrimitive(property.type, property.subtype, property.value);
+}
+
+function serializeParameter(parameter: string|SDK.RemoteObject.RemoteObject|Protocol.Runtime.RemoteObject): string|
+    SerializedRemoteObject {
+  if (typeof parameter === 'string') {
+    return parameter;
+  }
+  const serialized: SerializedRemoteObject = {type: parameter.type};
+  if (parameter.subtype) {
+    serialized.subtype = parameter.subtype;
+  }
+  if (parameter.className) {
+    serialized.className = parameter.className;
+  }
+  if (parameter.description !== undefined) {
+    serialized.description = parameter.description;
+  }
+  const unserializableValue = parameter instanceof SDK.RemoteObject.RemoteObject ? parameter.unserializableValue() :
+                                                                                   parameter.unserializableValue;
+  if (unserializableValue) {
+    serialized.unserializableValue = unserializableValue;
+  } else if (parameter.preview) {
+    serialized.value = jsonPreview(parameter.preview);
+  } else if (parameter.subtype === 'null') {
+    serialized.value = null;
+  } else if (parameter.type !== 'object' && parameter.type !== 'function' && parameter.type !== 'symbol') {
+    serialized.value = parameter.value;
+  }
+  return serialized;
+}
+
+function restoreParameter(parameter: string|SerializedRemoteObject): string|SDK.RemoteObject.RemoteObject {
+  if (typeof parameter === 'string') {
+    return parameter;
+  }
+  if (parameter.unserializableValue) {
+    const {unserializableValue} = parameter;
+    return SDK.RemoteObject.RemoteObject.fromLocalObject(
+        unserializableValue.endsWith('n') ? BigInt(unserializableValue.slice(0, -1)) : Number(unserializableValue));
+  }
+  if (parameter.type === 'undefined') {
+    return SDK.RemoteObject.RemoteObject.fromLocalObject(undefined);
+  }
+  if (parameter.value !== undefined) {
+    return SDK.RemoteObject.RemoteObject.fromLocalObject(parameter.value);
+  }
+  // Objects without a preview, functions and symbols are only known by their description.
+  return parameter.description ?? '';
+}
+
+/**
+ * Restores a remote object that outlived its runtime, e.g. the persisted result of a snippet cell,
+ * the same way as the arguments of imported console messages.
+ */
+export function restoreRemoteObject(object: Protocol.Runtime.RemoteObject): string|SDK.RemoteObject.RemoteObject {
+  return restoreParameter(serializeParameter(object));
+}
+
+export function serializeConsoleMessage(message: SDK.ConsoleModel.ConsoleMessage): SerializedConsoleMessage {
+  const serialized: SerializedConsoleMessage = {
+    source: message.source,
+    level: message.level,
+    type: message.type,
+    messageText: message.messageText,
+    timestamp: message.timestamp,
+    line: message.line,
+    column: message.column,
+    executionContextId: message.getExecutionContextId(),
+  };
+  if (message.url) {
+    serialized.url = message.url;
+  }
+  if (message.context) {
+    serialized.context = message.context;
+  }
+  if (message.workerId) {
+    serialized.workerId = message.workerId;
+  }
+  if (message.category) {
+    serialized.category = message.category;
+  }
+  if (message.stackTrace) {
+    serialized.stackTrace = message.stackTrace;
+  }
+  if (message.parameters) {
+    serialized.parameters = message.parameters.map(serializeParameter);
+  }
+  return serialized;
+}
+
+/**
+ * Restores a serialized message. The message has no runtime model, so its remote objects are local
+ * objects built from their JSON previews and its locations link to URLs instead of scripts.
+ */
+export function restoreConsoleMessage(serialized: SerializedConsoleMessage): SDK.ConsoleModel.ConsoleMessage {
+  return new SDK.ConsoleModel.ConsoleMessage(null, serialized.source, serialized.level, serialized.messageText, {
+    type: serialized.type,
+    url: serialized.url,
+    line: serialized.line,
+    column: serialized.column,
+    parameters: serialized.parameters?.map(restoreParameter),
+    stackTrace: serialized.stackTrace,
+    timestamp: serialized.timestamp,
+    executionContextId: serialized.executionContextId,
+    workerId: serialized.workerId,
+    context: serialized.context,
+    category: serialized.category,
+  });
+}
+
+// A console log is newline-delimited JSON with one serialized message per line.
+export function consoleLogLine(message: SDK.ConsoleModel.ConsoleMessage): string {
+  return JSON.stringify(serializeConsoleMessage(message));
+}
+
+function isSerializedConsoleMessage(json: unknown): json is SerializedConsoleMessage {
+  if (!json || typeof json !== 'object') {
+    return false;
+  }
+  const {source, type, messageText, timestamp, parameters} = json as {[key: string]: unknown};
+  return typeof source === 'string' && typeof type === 'string' && typeof messageText === 'string' &&
+      typeof timestamp === 'number' && (parameters === undefined || Array.isArray(parameters));
+}
+
+function parseJSON(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+export function parseConsoleLog(text: string): SDK.ConsoleModel.ConsoleMessage[] {
+  const messages = [];
+  const lines = text.split('\n');
+  for (let i = 0; i < lines.length; ++i) {
+    const line = lines[i].trim();
+    if (!line) {
+      continue;
+    }
+    const json = parseJSON(line);
+    if (!isSerializedConsoleMessage(json)) {
+      throw new Error(i18nString(UIStrings.lineSIsNotAConsoleMessage, {PH1: i + 1}));
+    }
+    messages.push(restoreConsoleMessage(json));
+  }
+  return messages;
+}
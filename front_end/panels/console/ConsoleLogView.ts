@@ -0,0 +1,300 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Common from '../../core/common/common.js';
+import * as i18n from '../../core/i18n/i18n.js';
+import type * as Platform from '../../core/platform/platform.js';
+import * as SDK from '../../core/sdk/sdk.js';
+import * as Protocol from '../../generated/protocol.js';
+import * as IssuesManager from '../../models/issues_manager/issues_manager.js';
+import * as Logs from '../../models/logs/logs.js';
+import * as TextUtils from '../../models/text_utils/text_utils.js';
+import * as CodeHighlighter from '../../ui/components/code_highlighter/code_highlighter.js';
+// eslint-disable-next-line rulesdir/es_modules_import
+import objectValueStyles from '../../ui/legacy/components/object_ui/objectValue.css.js';
+import * as Components from '../../ui/legacy/components/utils/utils.js';
+import * as UI from '../../ui/legacy/legacy.js';
+
+import consoleViewStyles from './consoleView.css.js';
+
+import {ConsoleFilter, FilterType} from './ConsoleFilter.js';
+import {
+  ConsoleCommand,
+  ConsoleCommandResult,
+  ConsoleGroupViewMessage,
+  ConsoleTableMessageView,
+  ConsoleViewMessage,
+  getMessageForElement,
+  MaxLengthForLinks,
+} from './ConsoleViewMessage.js';
+import {ConsoleViewport, type ConsoleViewportElement, type ConsoleViewportProvider} from './ConsoleViewport.js';
+
+const UIStrings = {
+  /**
+  *@description Text to filter result items
+  */
+  filter: 'Filter',
+  /**
+  *@description Placeholder of the filter of an imported console log
+  */
+  egEventdCdnUrlacom: 'e.g. `/event\d/ -cdn url:a.com`',
+  /**
+  *@description Sdk console message message level verbose of level Labels in an imported console log
+  */
+  verbose: 'Verbose',
+  /**
+  *@description Sdk console message message level info of level Labels in an imported console log
+  */
+  info: 'Info',
+  /**
+  *@description Sdk console message message level warning of level Labels in an imported console log
+  */
+  warnings: 'Warnings',
+  /**
+  *@description Text for errors
+  */
+  errors: 'Errors',
+  /**
+  *@description Text in the toolbar of an imported console log with the number of messages that pass the filters
+  *@example {3} PH1
+  *@example {10} PH2
+  */
+  sOfSMessages: '{PH1} of {PH2} messages',
+  /**
+  *@description Context menu item to hide the messages of a URL in an imported console log
+  *@example {index.js} PH1
+  */
+  hideMessagesFromS: 'Hide messages from {PH1}',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/console/ConsoleLogView.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+let lastViewId = 0;
+
+/**
+ * A read-only console with the messages of an imported console log. The messages are filtered like
+ * in the Console, by text, level, source, URL and context.
+ */
+export class ConsoleLogView extends UI.View.SimpleView implements ConsoleViewportProvider {
+  readonly #filter = new ConsoleFilter('', [], null);
+  readonly #filterParser: TextUtils.TextUtils.FilterParser;
+  readonly #suggestionBuilder: UI.FilterSuggestionBuilder.FilterSuggestionBuilder;
+  readonly #textFilterUI: UI.Toolbar.ToolbarInput;
+  readonly #messagesCountText: UI.Toolbar.ToolbarText;
+  readonly #viewport: ConsoleViewport;
+  readonly #linkifier = new Components.Linkifier.Linkifier(MaxLengthForLinks);
+  readonly #requestResolver = new Logs.RequestResolver.RequestResolver();
+  readonly #issueResolver = new IssuesManager.IssueResolver.IssueResolver();
+  readonly #timestampsSetting: Common.Settings.Setting<boolean>;
+  readonly #viewMessages: ConsoleViewMessage[];
+  #visibleViewMessages: ConsoleViewMessage[] = [];
+
+  constructor(title: Platform.UIString.LocalizedString, messages: SDK.ConsoleModel.ConsoleMessage[]) {
+    super(title, true, `console-log-${++lastViewId}`);
+    this.contentElement.classList.add('console-view');
+
+    const filterKeys = Object.values(FilterType);
+    this.#filterParser = new TextUtils.TextUtils.FilterParser(filterKeys);
+    this.#suggestionBuilder = new UI.FilterSuggestionBuilder.FilterSuggestionBuilder(filterKeys);
+
+    const toolbarContainer = this.contentElement.createChild('div', 'console-toolbar-container');
+    const toolbar = new UI.Toolbar.Toolbar('console-main-toolbar', toolbarContainer);
+    toolbar.makeWrappable(true);
+    this.#textFilterUI = new UI.Toolbar.ToolbarInput(
+        i18nString(UIStrings.filter), '', 1, 1, i18nString(UIStrings.egEventdCdnUrlacom),
+        this.#suggestionBuilder.completions.bind(this.#suggestionBuilder), true);
+    this.#textFilterUI.addEventListener(UI.Toolbar.ToolbarInput.Event.TextChanged, this.#onFilterChanged, this);
+    toolbar.appendToolbarItem(this.#textFilterUI);
+
+    const levelLabels = new Map([
+      [Protocol.Log.LogEntryLevel.Verbose, i18nString(UIStrings.verbose)],
+      [Protocol.Log.LogEntryLevel.Info, i18nString(UIStrings.info)],
+      [Protocol.Log.LogEntryLevel.Warning, i18nString(UIStrings.warnings)],
+      [Protocol.Log.LogEntryLevel.Error, i18nString(UIStrings.errors)],
+    ]);
+    for (const [level, label] of levelLabels) {
+      const checkbox = new UI.Toolbar.ToolbarCheckbox(label, undefined, () => {
+        this.#filter.levelsMask[level] = checkbox.checked();
+        this.#onFilterChanged();
+      });
+      checkbox.setChecked(this.#filter.levelsMask[level]);
+      toolbar.appendToolbarItem(checkbox);
+    }
+
+    this.#timestampsSetting = Common.Settings.Settings.instance().moduleSetting('consoleTimestampsEnabled');
+    toolbar.appendToolbarItem(new UI.Toolbar.ToolbarSettingCheckbox(this.#timestampsSetting));
+    toolbar.appendSpacer();
+    this.#messagesCountText = new UI.Toolbar.ToolbarText();
+    toolbar.appendToolbarItem(this.#messagesCountText);
+
+    this.#viewport = new ConsoleViewport(this);
+    this.#viewport.contentElement().classList.add('console-group', 'console-group-messages');
+    this.#viewport.element.id = 'console-messages';
+    this.#viewport.element.classList.add('monospace');
+    this.#viewport.element.addEventListener('contextmenu', this.#handleContextMenuEvent.bind(this), false);
+    this.contentElement.appendChild(this.#viewport.element);
+
+    this.#viewMessages = this.#createViewMessages(messages);
+    this.#updateMessageList();
+  }
+
+  static async show(title: Platform.UIString.LocalizedString, messages: SDK.ConsoleModel.ConsoleMessage[]):
+      Promise<void> {
+    const location = await UI.ViewManager.ViewManager.instance().resolveLocation('drawer-view');
+    if (!location) {
+      return;
+    }
+    location.reveal();
+    await location.showView(new ConsoleLogView(title, messages), undefined, /* userGesture */ true);
+  }
+
+  isTransient(): boolean {
+    return true;
+  }
+
+  wasShown(): void {
+    super.wasShown();
+    this.#timestampsSetting.addChangeListener(this.#timestampsSettingChanged, this);
+    this.#viewport.refresh();
+    this.registerCSSFiles([consoleViewStyles, objectValueStyles, CodeHighlighter.Style.default]);
+  }
+
+  willHide(): void {
+    this.#timestampsSetting.removeChangeListener(this.#timestampsSettingChanged, this);
+  }
+
+  itemCount(): number {
+    return this.#visibleViewMessages.length;
+  }
+
+  itemElement(index: number): ConsoleViewportElement|null {
+    return this.#visibleViewMessages[index];
+  }
+
+  fastHeight(index: number): number {
+    return this.#visibleViewMessages[index].fastHeight();
+  }
+
+  minimumRowHeight(): number {
+    return 16;
+  }
+
+  // The messages of a log are in order, so the groups are built from their start and end messages.
+  #createViewMessages(messages: SDK.ConsoleModel.ConsoleMessage[]): ConsoleViewMessage[] {
+    const viewMessages = [];
+    const groups: ConsoleGroupViewMessage[] = [];
+    for (const message of messages) {
+      const viewMessage = this.#createViewMessage(message);
+      const currentGroup = groups[groups.length - 1];
+      if (message.type === Protocol.Runtime.ConsoleAPICalledEventType.EndGroup) {
+        currentGroup?.setGroupEnd(viewMessage);
+        groups.pop();
+      } else if (currentGroup) {
+        viewMessage.setConsoleGroup(currentGroup);
+      }
+      if (viewMessage instanceof ConsoleGroupViewMessage) {
+        groups.push(viewMessage);
+      }
+      if (message.context) {
+        this.#suggestionBuilder.addItem(FilterType.Context, message.context);
+      }
+      if (message.source) {
+        this.#suggestionBuilder.addItem(FilterType.Source, message.source);
+      }
+      if (message.url) {
+        this.#suggestionBuilder.addItem(FilterType.Url, message.url);
+      }
+      viewMessages.push(viewMessage);
+    }
+    return viewMessages;
+  }
+
+  #createViewMessage(message: SDK.ConsoleModel.ConsoleMessage): ConsoleViewMessage {
+    const onResize = (): void => this.#viewport.refresh();
+    switch (message.type) {
+      case SDK.ConsoleModel.FrontendMessageType.Command:
+        return new ConsoleCommand(message, this.#linkifier, this.#requestResolver, this.#issueResolver, onResize);
+      case SDK.ConsoleModel.FrontendMessageType.Result:
+        return new ConsoleCommandResult(message, this.#linkifier, this.#requestResolver, this.#issueResolver, onResize);
+      case Protocol.Runtime.ConsoleAPICalledEventType.StartGroupCollapsed:
+      case Protocol.Runtime.ConsoleAPICalledEventType.StartGroup:
+        return new ConsoleGroupViewMessage(
+            message, this.#linkifier, this.#requestResolver, this.#issueResolver, this.#updateMessageList.bind(this),
+            onResize);
+      case Protocol.Runtime.ConsoleAPICalledEventType.Table:
+        return new ConsoleTableMessageView(
+            message, this.#linkifier, this.#requestResolver, this.#issueResolver, onResize);
+      default:
+        return new ConsoleViewMessage(message, this.#linkifier, this.#requestResolver, this.#issueResolver, onResize);
+    }
+  }
+
+  #onFilterChanged(): void {
+    this.#filter.parsedFilters = this.#filterParser.parse(this.#textFilterUI.value());
+    this.#updateMessageList();
+  }
+
+  #updateMessageList(): void {
+    for (const viewMessage of this.#visibleViewMessages) {
+      viewMessage.resetCloseGroupDecorationCount();
+    }
+    this.#visibleViewMessages = [];
+    let visibleCount = 0;
+    let totalCount = 0;
+    for (const viewMessage of this.#viewMessages) {
+      if (viewMessage.consoleMessage().type === Protocol.Runtime.ConsoleAPICalledEventType.EndGroup) {
+        const lastMessage = this.#visibleViewMessages[this.#visibleViewMessages.length - 1];
+        const group = lastMessage?.consoleGroup();
+        if (group && !group.messagesHidden()) {
+          lastMessage.incrementCloseGroupDecorationCount();
+        }
+        continue;
+      }
+      ++totalCount;
+      if (!this.#filter.shouldBeVisible(viewMessage)) {
+        continue;
+      }
+      ++visibleCount;
+      const group = viewMessage.consoleGroup();
+      if (!group || !group.messagesHidden()) {
+        this.#showGroup(group);
+        this.#visibleViewMessages.push(viewMessage);
+      }
+    }
+    this.#messagesCountText.setText(i18nString(UIStrings.sOfSMessages, {PH1: visibleCount, PH2: totalCount}));
+    this.#viewport.invalidate();
+  }
+
+  // Shows the group of a visible message, and its parent groups.
+  #showGroup(group: ConsoleGroupViewMessage|null): void {
+    if (!group || this.#visibleViewMessages.includes(group)) {
+      return;
+    }
+    this.#showGroup(group.consoleGroup());
+    this.#visibleViewMessages.push(group);
+  }
+
+  #timestampsSettingChanged(): void {
+    for (const viewMessage of this.#viewMessages) {
+      viewMessage.updateTimestamp();
+    }
+    this.#viewport.invalidate();
+  }
+
+  #handleContextMenuEvent(event: Event): void {
+    const sourceElement = (event.target as Node).enclosingNodeOrSelfWithClass('console-message-wrapper');
+    const url = sourceElement && getMessageForElement(sourceElement)?.consoleMessage().url;
+    if (!url) {
+      return;
+    }
+    const contextMenu = new UI.ContextMenu.ContextMenu(event);
+    contextMenu.headerSection().appendItem(
+        i18nString(UIStrings.hideMessagesFromS, {PH1: new Common.ParsedURL.ParsedURL(url).displayName}), () => {
+          const filterText = this.#textFilterUI.value();
+          this.#textFilterUI.setValue(`-url:${url}${filterText ? ` ${filterText}` : ''}`);
+          this.#onFilterChanged();
+        });
+    void contextMenu.show();
+  }
+}
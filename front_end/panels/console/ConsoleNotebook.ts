@@ -0,0 +1,91 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type * as SDK from '../../core/sdk/sdk.js';
+import type * as Protocol from '../../generated/protocol.js';
+import type * as Snippets from '../snippets/snippets.js';
+
+// Cells are separated by `// %%` lines, as in the percent format of Jupytext and VS Code.
+const CellSeparatorRegex = /^\/\/\s*%%.*$/;
+const CellSeparator = '// %%';
+
+export function isCellSeparator(line: string): boolean {
+  return CellSeparatorRegex.test(line.trim());
+}
+
+export interface CellSource {
+  // The separator line that starts the cell as it was written, e.g. `//%% Setup`, or null for
+  // content before the first separator.
+  separator: string|null;
+  code: string;
+}
+
+/**
+ * Splits the content of a snippet into its cells. The separator line and the code of each cell
+ * are kept as they are written, so that `joinCells` gives back the same content. A snippet
+ * without separators is a single cell, and a separator on the first line does not start an
+ * empty cell.
+ */
+export function splitCells(content: string): CellSource[] {
+  const cells: {separator: string|null, lines: string[]}[] = [{separator: null, lines: []}];
+  for (const line of content.split('\n')) {
+    if (isCellSeparator(line)) {
+      cells.push({separator: line, lines: []});
+    } else {
+      cells[cells.length - 1].lines.push(line);
+    }
+  }
+  // Only a separator on the first line leaves the leading cell without any line.
+  if (cells[0].lines.length === 0) {
+    cells.shift();
+  }
+  return cells.map(({separator, lines}) => ({separator, code: lines.join('\n')}));
+}
+
+// The inverse of `splitCells`. Cells without a separator line of their own, other than the
+// first one, get a plain `// %%` line.
+export function joinCells(cells: CellSource[]): string {
+  return cells
+      .map(({separator, code}, index) => {
+        if (separator === null && index === 0) {
+          return code;
+        }
+        return `${separator ?? CellSeparator}\n${code}`;
+      })
+      .join('\n');
+}
+
+/**
+ * The result of running a cell as it is persisted with the snippet. Objects lose their object id,
+ * and are later restored from their preview.
+ */
+export function cellOutput(code: string, object: SDK.RemoteObject.RemoteObject, wasThrown: boolean):
+    Snippets.ScriptSnippetFileSystem.SnippetCellOutput {
+  const result: Protocol.Runtime.RemoteObject = {type: object.type as Protocol.Runtime.RemoteObjectType};
+  if (object.subtype) {
+    result.subtype = object.subtype as Protocol.Runtime.RemoteObjectSubtype;
+  }
+  if (object.className) {
+    result.className = object.className;
+  }
+  const unserializableValue = object.unserializableValue();
+  if (unserializableValue) {
+    result.unserializableValue = unserializableValue as Protocol.Runtime.UnserializableValue;
+  } else if (!object.objectId && object.type !== 'undefined') {
+    result.value = object.value;
+  }
+  if (object.description !== undefined) {
+    result.description = object.description;
+  }
+  if (object.preview) {
+    result.preview = object.preview;
+  }
+  return {code, result, wasThrown};
+}
+
+// Outputs are matched to cells by index and are outdated once the code of their cell changed.
+export function isOutdatedCellOutput(
+    output: Snippets.ScriptSnippetFileSystem.SnippetCellOutput, code: string): boolean {
+  return output.code.trim() !== code.trim();
+}
@@ -0,0 +1,280 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Common from '../../core/common/common.js';
+import * as i18n from '../../core/i18n/i18n.js';
+import * as SDK from '../../core/sdk/sdk.js';
+import * as Workspace from '../../models/workspace/workspace.js';
+import * as CodeMirror from '../../third_party/codemirror.next/codemirror.next.js';
+import * as CodeHighlighter from '../../ui/components/code_highlighter/code_highlighter.js';
+import * as TextEditor from '../../ui/components/text_editor/text_editor.js';
+import * as ObjectUI from '../../ui/legacy/components/object_ui/object_ui.js';
+// eslint-disable-next-line rulesdir/es_modules_import
+import objectValueStyles from '../../ui/legacy/components/object_ui/objectValue.css.js';
+import * as Components from '../../ui/legacy/components/utils/utils.js';
+import * as UI from '../../ui/legacy/legacy.js';
+import * as Snippets from '../snippets/snippets.js';
+
+import {restoreRemoteObject} from './ConsoleLog.js';
+import {cellOutput, type CellSource, isOutdatedCellOutput, joinCells, splitCells} from './ConsoleNotebook.js';
+import consoleNotebookViewStyles from './consoleNotebookView.css.js';
+import {MaxLengthForLinks} from './ConsoleViewMessage.js';
+
+const UIStrings = {
+  /**
+  *@description Title of the toolbar button that runs every cell of a snippet notebook in the Console
+  */
+  runAllCells: 'Run all cells',
+  /**
+  *@description Title of the toolbar button that adds a cell at the end of a snippet notebook in the Console
+  */
+  addCell: 'Add cell',
+  /**
+  *@description Title of the button that runs a cell of a snippet notebook in the Console
+  */
+  runCell: 'Run cell (Shift+Enter)',
+  /**
+  *@description Title of the button that deletes a cell of a snippet notebook in the Console
+  */
+  deleteCell: 'Delete cell',
+  /**
+  *@description Accessible name of the code editor of a cell of a snippet notebook in the Console
+  *@example {2} PH1
+  */
+  cellS: 'Cell {PH1}',
+  /**
+  *@description Tooltip of the output of a cell of a snippet notebook whose code changed since it was run
+  */
+  thisOutputIsFromAnEarlierVersion: 'This output is from an earlier version of the cell',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/console/ConsoleNotebookView.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+interface NotebookCell {
+  // The separator line the cell was read with, which is written back unchanged.
+  separator: string|null;
+  element: HTMLElement;
+  editor: TextEditor.TextEditor.TextEditor;
+  outputElement: HTMLElement;
+  // The result of the last run in this session, which can be expanded unlike persisted results.
+  result: SDK.RemoteObject.RemoteObject|null;
+}
+
+/**
+ * Shows a snippet as a notebook of cells separated by `// %%` lines. Each cell runs on its own in
+ * the selected execution context, and its output is shown beneath it and saved with the snippet.
+ */
+export class ConsoleNotebookView extends UI.View.SimpleView {
+  readonly #uiSourceCode: Workspace.UISourceCode.UISourceCode;
+  readonly #linkifier = new Components.Linkifier.Linkifier(MaxLengthForLinks);
+  readonly #commitThrottler = new Common.Throttler.Throttler(500);
+  readonly #cellsElement: HTMLElement;
+  #cells: NotebookCell[] = [];
+  #loaded = false;
+
+  constructor(uiSourceCode: Workspace.UISourceCode.UISourceCode) {
+    super(i18n.i18n.lockedString(uiSourceCode.name()), true, `console-notebook-${uiSourceCode.url()}`);
+    this.#uiSourceCode = uiSourceCode;
+    this.element.classList.add('console-notebook');
+
+    const toolbar = new UI.Toolbar.Toolbar('console-notebook-toolbar', this.contentElement);
+    const runAllButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.runAllCells), 'largeicon-play');
+    runAllButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => void this.#runAllCells());
+    toolbar.appendToolbarItem(runAllButton);
+    const addCellButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.addCell), 'largeicon-add');
+    addCellButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => this.#addCell());
+    toolbar.appendToolbarItem(addCellButton);
+
+    this.#cellsElement = this.contentElement.createChild('div', 'console-notebook-cells');
+  }
+
+  static async show(uiSourceCode: Workspace.UISourceCode.UISourceCode): Promise<void> {
+    const location = await UI.ViewManager.ViewManager.instance().resolveLocation('drawer-view');
+    if (!location) {
+      return;
+    }
+    location.reveal();
+    await location.showView(new ConsoleNotebookView(uiSourceCode), undefined, /* userGesture */ true);
+  }
+
+  isTransient(): boolean {
+    return true;
+  }
+
+  wasShown(): void {
+    super.wasShown();
+    this.#uiSourceCode.addEventListener(
+        Workspace.UISourceCode.Events.WorkingCopyCommitted, this.#workingCopyCommitted, this);
+    this.registerCSSFiles([consoleNotebookViewStyles, objectValueStyles, CodeHighlighter.Style.default]);
+    if (!this.#loaded) {
+      this.#loaded = true;
+      void this.#uiSourceCode.requestContent().then(() => this.#createCells(this.#uiSourceCode.workingCopy()));
+    }
+  }
+
+  willHide(): void {
+    this.#uiSourceCode.removeEventListener(
+        Workspace.UISourceCode.Events.WorkingCopyCommitted, this.#workingCopyCommitted, this);
+  }
+
+  disposeView(): void {
+    this.#linkifier.dispose();
+  }
+
+  #workingCopyCommitted(): void {
+    // Ignore our own commits, and rebuild the cells after edits in the Sources panel.
+    if (this.#uiSourceCode.workingCopy() !== joinCells(this.#cellSources())) {
+      this.#createCells(this.#uiSourceCode.workingCopy());
+    }
+  }
+
+  #cellSources(): CellSource[] {
+    return this.#cells.map(cell => ({separator: cell.separator, code: cell.editor.state.doc.toString()}));
+  }
+
+  #createCells(content: string): void {
+    this.#cellsElement.removeChildren();
+    this.#cells = [];
+    for (const {separator, code} of splitCells(content)) {
+      this.#appendCell(separator, code);
+    }
+    this.#cells.forEach((_cell, index) => this.#renderOutput(index));
+  }
+
+  #appendCell(separator: string|null, code: string): NotebookCell {
+    const element = this.#cellsElement.createChild('div', 'console-notebook-cell');
+    const toolbar = new UI.Toolbar.Toolbar('console-notebook-cell-toolbar', element);
+    const runButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.runCell), 'largeicon-play');
+    toolbar.appendToolbarItem(runButton);
+    const deleteButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.deleteCell), 'largeicon-trash-bin');
+    toolbar.appendToolbarItem(deleteButton);
+
+    const editor = new TextEditor.TextEditor.TextEditor(CodeMirror.EditorState.create({
+      doc: code,
+      extensions: [
+        CodeMirror.keymap.of([{
+          key: 'Shift-Enter',
+          run: (): boolean => {
+            void this.#runCell(this.#cells.indexOf(cell));
+            return true;
+          },
+        }]),
+        TextEditor.Config.baseConfiguration(code),
+        TextEditor.Config.autocompletion.instance(),
+        CodeMirror.javascript.javascript(),
+        TextEditor.JavaScript.completion(),
+        CodeMirror.EditorView.lineWrapping,
+        CodeMirror.EditorView.contentAttributes.of(
+            {'aria-label': i18nString(UIStrings.cellS, {PH1: this.#cells.length + 1})}),
+        CodeMirror.EditorView.updateListener.of(update => {
+          if (update.docChanged) {
+            this.#cellChanged(this.#cells.indexOf(cell));
+          }
+        }),
+      ],
+    }));
+    element.appendChild(editor);
+    const outputElement = element.createChild('div', 'console-notebook-output');
+
+    const cell = {separator, element, editor, outputElement, result: null};
+    runButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => {
+      void this.#runCell(this.#cells.indexOf(cell));
+    });
+    deleteButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => {
+      this.#deleteCell(this.#cells.indexOf(cell));
+    });
+    this.#cells.push(cell);
+    return cell;
+  }
+
+  #addCell(): void {
+    const cell = this.#appendCell(null, '');
+    this.#commit();
+    cell.editor.editor.focus();
+  }
+
+  #deleteCell(index: number): void {
+    const [cell] = this.#cells.splice(index, 1);
+    cell.element.remove();
+    const outputs = Snippets.ScriptSnippetFileSystem.snippetCellOutputs(this.#uiSourceCode);
+    outputs.splice(index, 1);
+    Snippets.ScriptSnippetFileSystem.setSnippetCellOutputs(this.#uiSourceCode, outputs);
+    this.#commit();
+  }
+
+  #cellChanged(index: number): void {
+    this.#renderOutput(index);
+    this.#commit();
+  }
+
+  #commit(): void {
+    void this.#commitThrottler.schedule(async () => {
+      this.#uiSourceCode.setWorkingCopy(joinCells(this.#cellSources()));
+      this.#uiSourceCode.commitWorkingCopy();
+    });
+  }
+
+  async #runAllCells(): Promise<void> {
+    for (let index = 0; index < this.#cells.length; ++index) {
+      await this.#runCell(index);
+    }
+  }
+
+  async #runCell(index: number): Promise<void> {
+    const cell = this.#cells[index];
+    const executionContext = UI.Context.Context.instance().flavor(SDK.RuntimeModel.ExecutionContext);
+    if (!cell || !executionContext) {
+      return;
+    }
+    const code = cell.editor.state.doc.toString();
+    const result = await executionContext.evaluate(
+        {
+          expression: code,
+          objectGroup: 'console',
+          includeCommandLineAPI: true,
+          silent: false,
+          returnByValue: false,
+          generatePreview: true,
+          replMode: true,
+        },
+        /* userGesture */ true, /* awaitPromise */ true);
+    if (!('object' in result)) {
+      return;
+    }
+    cell.result = result.object;
+    const outputs = Snippets.ScriptSnippetFileSystem.snippetCellOutputs(this.#uiSourceCode);
+    // The cell may have moved while it was running.
+    const cellIndex = this.#cells.indexOf(cell);
+    if (cellIndex === -1) {
+      return;
+    }
+    for (let i = outputs.length; i < cellIndex; ++i) {
+      outputs[i] = null;
+    }
+    outputs[cellIndex] = cellOutput(code, result.object, Boolean(result.exceptionDetails));
+    Snippets.ScriptSnippetFileSystem.setSnippetCellOutputs(this.#uiSourceCode, outputs);
+    this.#renderOutput(cellIndex);
+  }
+
+  #renderOutput(index: number): void {
+    const cell = this.#cells[index];
+    const output = Snippets.ScriptSnippetFileSystem.snippetCellOutputs(this.#uiSourceCode)[index];
+    const outdated = output ? isOutdatedCellOutput(output, cell.editor.state.doc.toString()) : false;
+    cell.outputElement.removeChildren();
+    cell.outputElement.classList.toggle('console-notebook-output-outdated', outdated);
+    cell.outputElement.classList.toggle('console-notebook-output-error', Boolean(output?.wasThrown));
+    UI.Tooltip.Tooltip.install(
+        cell.outputElement, outdated ? i18nString(UIStrings.thisOutputIsFromAnEarlierVersion) : '');
+    if (!output) {
+      return;
+    }
+    const object = cell.result ?? restoreRemoteObject(output.result);
+    if (typeof object === 'string') {
+      cell.outputElement.textContent = object;
+    } else {
+      cell.outputElement.appendChild(ObjectUI.ObjectPropertiesSection.ObjectPropertiesSection.defaultObjectPresentation(
+          object, this.#linkifier, /* skipProto */ true, /* readOnly */ true));
+    }
+  }
+}
@@ -0,0 +1,141 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type * as Protocol from '../../generated/protocol.js';
+
+import {jsonPropertyPreview} from './ConsoleLog.js';
+
+export interface ConsoleTableColumn {
+  key: string;
+  // The property names from a row to its cell, or null for the column of rows that are primitive values.
+  path: string[]|null;
+}
+
+export interface ConsoleTableCell {
+  property: Protocol.Runtime.PropertyPreview;
+  path: string[];
+}
+
+export interface ConsoleTableRow {
+  property: Protocol.Runtime.PropertyPreview;
+  cells: Map<string, ConsoleTableCell>;
+}
+
+export interface ConsoleTable {
+  columns: ConsoleTableColumn[];
+  rows: ConsoleTableRow[];
+}
+
+export const enum ExportFormat {
+  CSV = 'CSV',
+  TSV = 'TSV',
+  JSON = 'JSON',
+}
+
+const MaxColumns = 20;
+
+function columnKey(path: string[]|null): string {
+  return path ? JSON.stringify(path) : '';
+}
+
+/**
+ * Lays out the preview of a `console.table` argument as rows and columns. With `expandNested`,
+ * objects in cells whose preview is known are spread over a column per property, e.g. the cell
+ * `{x: 1, y: 2}` of the column `position` becomes the columns `position.x` and `position.y`.
+ */
+export function consoleTable(preview: Protocol.Runtime.ObjectPreview, expandNested: boolean): ConsoleTable {
+  const columns: ConsoleTableColumn[] = [];
+  const rows: ConsoleTableRow[] = [];
+  for (const rowProperty of preview.properties) {
+    const cells = new Map<string, ConsoleTableCell>();
+    const addCell = (path: string[]|null, property: Protocol.Runtime.PropertyPreview): void => {
+      const key = columnKey(path);
+      if (!columns.some(column => column.key === key)) {
+        if (columns.length === MaxColumns) {
+          return;
+        }
+        columns.push({key, path});
+      }
+      cells.set(key, {property, path: path ?? []});
+    };
+
+    if (rowProperty.valuePreview && rowProperty.valuePreview.properties.length) {
+      for (const cellProperty of rowProperty.valuePreview.properties) {
+        const nestedProperties = cellProperty.valuePreview?.properties;
+        if (expandNested && nestedProperties?.length) {
+          for (const nestedProperty of nestedProperties) {
+            addCell([cellProperty.name, nestedProperty.name], nestedProperty);
+          }
+        } else {
+          addCell([cellProperty.name], cellProperty);
+        }
+      }
+    } else if (rowProperty.value || rowProperty.value === '') {
+      addCell(null, rowProperty);
+    } else {
+      continue;
+    }
+    rows.push({property: rowProperty, cells});
+  }
+  return {columns, rows};
+}
+
+export function columnTitle(column: ConsoleTableColumn, valueTitle: string): string {
+  return column.path ? column.path.join('.') : valueTitle;
+}
+
+export function cellText(cell: ConsoleTableCell|undefined): string {
+  if (!cell) {
+    return '';
+  }
+  if (cell.property.type === 'accessor') {
+    return '(...)';
+  }
+  return cell.property.value ?? '';
+}
+
+// Rows match when their index or the text of one of their cells contains the query, ignoring case.
+export function rowMatches(row: ConsoleTableRow, query: string): boolean {
+  const lowerCaseQuery = query.toLowerCase();
+  return row.property.name.toLowerCase().includes(lowerCaseQuery) ||
+      [...row.cells.values()].some(cell => cellText(cell).toLowerCase().includes(lowerCaseQuery));
+}
+
+function csvField(text: string): string {
+  return /[",\n\r]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function tsvField(text: string): string {
+  return text.replace(/[\t\n\r]/g, ' ');
+}
+
+/**
+ * Formats the rows of a table with the titles of the index column and of the columns of the table.
+ * JSON exports an array of objects with the JSON previews of the cells.
+ */
+export function exportConsoleTable(
+    table: ConsoleTable, rows: ConsoleTableRow[], titles: string[], format: ExportFormat): string {
+  if (format === ExportFormat.JSON) {
+    return JSON.stringify(
+        rows.map(row => {
+          const object: {[title: string]: unknown} = {[titles[0]]: row.property.name};
+          table.columns.forEach((column, index) => {
+            const cell = row.cells.get(column.key);
+            if (cell) {
+              object[titles[index + 1]] = cell.property.type === 'accessor' ? null : jsonPropertyPreview(cell.property);
+            }
+          });
+          return object;
+        }),
+        null, 2);
+  }
+  const field = format === ExportFormat.CSV ? csvField : tsvField;
+  const separator = format === ExportFormat.CSV ? ',' : '\t';
+  const lines = [titles.map(field).join(separator)];
+  for (const row of rows) {
+    const texts = [row.property.name, ...table.columns.map(column => cellText(row.cells.get(column.key)))];
+    lines.push(texts.map(field).join(separator));
+  }
+  return lines.join('\n') + '\n';
+}
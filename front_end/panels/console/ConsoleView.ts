@@ -41,17 +41,22 @@ import * as Bindings from '../../models/bindings/bindings.js';
 import * as IssuesManager from '../../models/issues_manager/issues_manager.js';
 import * as Logs from '../../models/logs/logs.js';
 import * as TextUtils from '../../models/text_utils/text_utils.js';
+import * as Workspace from '../../models/workspace/workspace.js';
 import * as CodeHighlighter from '../../ui/components/code_highlighter/code_highlighter.js';
 import * as IssueCounter from '../../ui/components/issue_counter/issue_counter.js';
 // eslint-disable-next-line rulesdir/es_modules_import
 import objectValueStyles from '../../ui/legacy/components/object_ui/objectValue.css.js';
 import * as Components from '../../ui/legacy/components/utils/utils.js';
 import * as UI from '../../ui/legacy/legacy.js';
+import * as Snippets from '../snippets/snippets.js';
 
 import {ConsoleContextSelector} from './ConsoleContextSelector.js';
 import consoleViewStyles from './consoleView.css.js';
 
 import {ConsoleFilter, FilterType, type LevelsMask} from './ConsoleFilter.js';
+import {consoleLogLine, parseConsoleLog} from './ConsoleLog.js';
+import {ConsoleLogView} from './ConsoleLogView.js';
+import {ConsoleNotebookView} from './ConsoleNotebookView.js';
 import {ConsolePinPane} from './ConsolePinPane.js';
 import {ConsolePrompt, Events as ConsolePromptEvents} from './ConsolePrompt.js';
 import {ConsoleSidebar, Events} from './ConsoleSidebar.js';
@@ -177,6 +182,28 @@ const UIStrings = {
   */
   saveAs: 'Save as...',
   /**
+  *@description Context menu item in the Console View of the Console panel to save all console messages with their details as a file that can be imported
+  */
+  saveAsConsoleLog: 'Save as console log...',
+  /**
+  *@description Context menu item in the Console View of the Console panel to open a saved console log
+  */
+  importConsoleLog: 'Import console log...',
+  /**
+  *@description Error message in the Console when a console log could not be imported
+  *@example {console.ndjson} PH1
+  *@example {Line 3 is not a console message} PH2
+  */
+  couldNotImportConsoleLogFromSS: 'Could not import console log from {PH1}: {PH2}',
+  /**
+  *@description Context menu item in the Console View of the Console panel to open a snippet as a notebook of cells
+  */
+  openSnippetAsNotebook: 'Open snippet as notebook',
+  /**
+  *@description Context menu item in the Console View of the Console panel to create a snippet and open it as a notebook
+  */
+  newNotebook: 'New notebook',
+  /**
   *@description A context menu item in the Console View of the Console panel
   */
   copyVisibleStyledSelection: 'Copy visible styled selection',
@@ -320,6 +347,7 @@ export class ConsoleView extends UI.Widget.VBox implements UI.SearchableView.Sea
   private issueToolbarThrottle: Common.Throttler.Throttler;
   private requestResolver = new Logs.RequestResolver.RequestResolver();
   private issueResolver = new IssuesManager.IssueResolver.IssueResolver();
+  private readonly fileSelectorElement: HTMLInputElement;
 
   constructor() {
     super();
@@ -497,6 +525,10 @@ export class ConsoleView extends UI.Widget.VBox implements UI.SearchableView.Sea
     this.messagesCountElement = this.consoleToolbarContainer.createChild('div', 'message-count');
     UI.ARIAUtils.markAsPoliteLiveRegion(this.messagesCountElement, false);
 
+    this.fileSelectorElement =
+        Components.FileImportExport.createImportFileSelectorElement(file => void this.importConsoleLog(file));
+    this.element.appendChild(this.fileSelectorElement);
+
     this.viewportThrottler = new Common.Throttler.Throttler(50);
     this.pendingBatchResize = false;
     this.onMessageResizedBound = (e: Common.EventTarget.EventTargetEvent<UI.TreeOutline.TreeElement>): void => {
@@ -1087,6 +1119,10 @@ export class ConsoleView extends UI.Widget.VBox implements UI.SearchableView.Sea
     contextMenu.defaultSection().appendAction('console.clear');
     contextMenu.defaultSection().appendAction('console.clear.history');
     contextMenu.saveSection().appendItem(i18nString(UIStrings.saveAs), this.saveConsole.bind(this));
+    contextMenu.saveSection().appendItem(i18nString(UIStrings.saveAsConsoleLog), this.saveConsoleLog.bind(this));
+    contextMenu.saveSection().appendItem(
+        i18nString(UIStrings.importConsoleLog), () => this.fileSelectorElement.click());
+    this.appendNotebookMenuItems(contextMenu);
     if (this.element.hasSelection()) {
       contextMenu.clipboardSection().appendItem(
           i18nString(UIStrings.copyVisibleStyledSelection), this.viewport.copyWithStyles.bind(this.viewport));
@@ -1103,17 +1139,30 @@ export class ConsoleView extends UI.Widget.VBox implements UI.SearchableView.Sea
     void contextMenu.show();
   }
 
-  private async saveConsole(): Promise<void> {
+  private saveConsole(): Promise<void> {
+    return this.saveConsoleMessages('log', this.visibleViewMessages, message => message.toExportString());
+  }
+
+  // Unlike the text of the visible messages, the console log has every message with its details, so
+  // that it can be filtered when it is imported.
+  private saveConsoleLog(): Promise<void> {
+    return this.saveConsoleMessages(
+        'ndjson', this.consoleMessages, message => consoleLogLine(message.consoleMessage()));
+  }
+
+  private async saveConsoleMessages(
+      extension: string, messages: ConsoleViewMessage[],
+      formatMessage: (message: ConsoleViewMessage) => string): Promise<void> {
     const url = (SDK.TargetManager.TargetManager.instance().mainFrameTarget() as SDK.Target.Target).inspectedURL();
     const parsedURL = Common.ParsedURL.ParsedURL.fromString(url);
     const filename =
-        Platform.StringUtilities.sprintf('%s-%d.log', parsedURL ? parsedURL.host : 'console', Date.now()) as
+        Platform.StringUtilities.sprintf('%s-%d.%s', parsedURL ? parsedURL.host : 'console', Date.now(), extension) as
         Platform.DevToolsPath.RawPathString;
     const stream = new Bindings.FileUtils.FileOutputStream();
 
     const progressIndicator = new UI.ProgressIndicator.ProgressIndicator();
     progressIndicator.setTitle(i18nString(UIStrings.writingFile));
-    progressIndicator.setTotalWork(this.itemCount());
+    progressIndicator.setTotalWork(messages.length);
 
     const chunkSize = 350;
 
@@ -1123,12 +1172,11 @@ export class ConsoleView extends UI.Widget.VBox implements UI.SearchableView.Sea
     this.progressToolbarItem.element.appendChild(progressIndicator.element);
 
     let messageIndex = 0;
-    while (messageIndex < this.itemCount() && !progressIndicator.isCanceled()) {
+    while (messageIndex < messages.length && !progressIndicator.isCanceled()) {
       const messageContents = [];
       let i;
-      for (i = 0; i < chunkSize && i + messageIndex < this.itemCount(); ++i) {
-        const message = (this.itemElement(messageIndex + i) as ConsoleViewMessage);
-        messageContents.push(message.toExportString());
+      for (i = 0; i < chunkSize && i + messageIndex < messages.length; ++i) {
+        messageContents.push(formatMessage(messages[messageIndex + i]));
       }
       messageIndex += i;
       await stream.write(messageContents.join('\n') + '\n');
@@ -1139,6 +1187,38 @@ export class ConsoleView extends UI.Widget.VBox implements UI.SearchableView.Sea
     progressIndicator.done();
   }
 
+  private appendNotebookMenuItems(contextMenu: UI.ContextMenu.ContextMenu): void {
+    const project = Workspace.Workspace.WorkspaceImpl.instance()
+                        .projectsForType(Workspace.Workspace.projectTypes.FileSystem)
+                        .find(Snippets.ScriptSnippetFileSystem.isSnippetsProject);
+    if (!project) {
+      return;
+    }
+    const subMenu = contextMenu.defaultSection().appendSubMenuItem(i18nString(UIStrings.openSnippetAsNotebook));
+    for (const uiSourceCode of project.uiSourceCodes()) {
+      subMenu.defaultSection().appendItem(uiSourceCode.name(), () => void ConsoleNotebookView.show(uiSourceCode));
+    }
+    subMenu.footerSection().appendItem(i18nString(UIStrings.newNotebook), async () => {
+      const uiSourceCode = await project.createFile(Platform.DevToolsPath.EmptyEncodedPathString, null, '');
+      if (uiSourceCode) {
+        void ConsoleNotebookView.show(uiSourceCode);
+      }
+    });
+  }
+
+  private async importConsoleLog(file: File): Promise<void> {
+    let messages;
+    try {
+      messages = parseConsoleLog(await file.text());
+    } catch (error) {
+      Common.Console.Console.instance().error(i18nString(
+          UIStrings.couldNotImportConsoleLogFromSS,
+          {PH1: file.name, PH2: error instanceof Error ? error.message : String(error)}));
+      return;
+    }
+    await ConsoleLogView.show(i18n.i18n.lockedString(file.name), messages);
+  }
+
   private tryToCollapseMessages(viewMessage: ConsoleViewMessage, lastMessage?: ConsoleViewMessage): boolean {
     const timestampsShown = this.timestampsSetting.get();
     if (!timestampsShown && lastMessage && !viewMessage.consoleMessage().isGroupMessage() &&
@@ -33,6 +33,7 @@
  */
 
 import * as Common from '../../core/common/common.js';
+import * as Host from '../../core/host/host.js';
 import * as i18n from '../../core/i18n/i18n.js';
 import * as Platform from '../../core/platform/platform.js';
 import * as SDK from '../../core/sdk/sdk.js';
@@ -54,6 +55,16 @@ import objectValueStyles from '../../ui/legacy/components/object_ui/objectValue.
 import {type Chrome} from '../../../extension-api/ExtensionAPI.js';  // eslint-disable-line rulesdir/es_modules_import
 
 import {format, updateStyle} from './ConsoleFormat.js';
+import {
+  columnTitle,
+  consoleTable,
+  exportConsoleTable,
+  ExportFormat,
+  rowMatches,
+  type ConsoleTable,
+  type ConsoleTableCell,
+  type ConsoleTableRow,
+} from './ConsoleTable.js';
 import {type ConsoleViewportElement} from './ConsoleViewport.js';
 import consoleViewStyles from './consoleView.css.js';
 import {augmentErrorStackWithScriptIds, parseSourcePositionsFromErrorStack} from './ErrorStackParser.js';
@@ -167,6 +178,32 @@ const UIStrings = {
   */
   console: 'Console',
   /**
+  *@description Placeholder of the filter of the rows of a table in the Console, printed with console.table()
+  */
+  filterRows: 'Filter rows',
+  /**
+  *@description Label of the checkbox in the toolbar of a table in the Console that shows the properties of objects in cells as extra columns
+  */
+  expandNestedObjects: 'Expand nested objects',
+  /**
+  *@description Tooltip of the checkbox in the toolbar of a table in the Console that shows the properties of objects in cells as extra columns
+  */
+  showThePropertiesOfObjectsInCells: 'Show the properties of objects in cells as columns',
+  /**
+  *@description Title of the menu button in the toolbar of a table in the Console to copy or save the table
+  */
+  exportTable: 'Export table',
+  /**
+  *@description Context menu item to copy the visible rows of a table in the Console
+  *@example {CSV} PH1
+  */
+  copyAsS: 'Copy as {PH1}',
+  /**
+  *@description Context menu item to save the visible rows of a table in the Console as a file
+  *@example {CSV} PH1
+  */
+  saveAsS: 'Save as {PH1}...',
+  /**
   *@description Message to indicate a console message with a stack table is expanded
   */
   stackMessageExpanded: 'Stack table expanded',
@@ -490,7 +527,7 @@ export class ConsoleViewMessage implements ConsoleViewportElement {
     return null;
   }
 
-  private buildMessageWithStackTrace(runtimeModel: SDK.RuntimeModel.RuntimeModel): HTMLElement {
+  private buildMessageWithStackTrace(target: SDK.Target.Target|null): HTMLElement {
     const toggleElement = document.createElement('div');
     toggleElement.classList.add('console-message-stack-trace-toggle');
     const contentElement = toggleElement.createChild('div', 'console-message-stack-trace-wrapper');
@@ -505,7 +542,7 @@ export class ConsoleViewMessage implements ConsoleViewportElement {
     clickableElement.appendChild(messageElement);
     const stackTraceElement = contentElement.createChild('div');
     const stackTracePreview = Components.JSPresentationUtils.buildStackTracePreviewContents(
-        runtimeModel.target(), this.linkifier, {stackTrace: this.message.stackTrace, tabStops: undefined});
+        target, this.linkifier, {stackTrace: this.message.stackTrace, tabStops: undefined});
     stackTraceElement.appendChild(stackTracePreview.element);
     for (const linkElement of stackTracePreview.links) {
       this.selectableChildren.push({element: linkElement, forceSelect: (): void => linkElement.focus()});
@@ -544,22 +581,15 @@ export class ConsoleViewMessage implements ConsoleViewportElement {
     return toggleElement;
   }
 
+  // Messages of imported console logs have no runtime model and link to URLs only.
   private linkifyLocation(url: Platform.DevToolsPath.UrlString, lineNumber: number, columnNumber: number): HTMLElement
       |null {
-    const runtimeModel = this.message.runtimeModel();
-    if (!runtimeModel) {
-      return null;
-    }
     return this.linkifier.linkifyScriptLocation(
-        runtimeModel.target(), /* scriptId */ null, url, lineNumber, {columnNumber, inlineFrameIndex: 0});
+        this.message.target(), /* scriptId */ null, url, lineNumber, {columnNumber, inlineFrameIndex: 0});
   }
 
   private linkifyStackTraceTopFrame(stackTrace: Protocol.Runtime.StackTrace): HTMLElement|null {
-    const runtimeModel = this.message.runtimeModel();
-    if (!runtimeModel) {
-      return null;
-    }
-    return this.linkifier.linkifyStackTraceTopFrame(runtimeModel.target(), stackTrace);
+    return this.linkifier.linkifyStackTraceTopFrame(this.message.target(), stackTrace);
   }
 
   private linkifyScriptId(
@@ -1153,7 +1183,6 @@ export class ConsoleViewMessage implements ConsoleViewportElement {
     }
     this.contentElementInternal = contentElement;
 
-    const runtimeModel = this.message.runtimeModel();
     let formattedMessage;
     const shouldIncludeTrace = Boolean(this.message.stackTrace) &&
         (this.message.source === Protocol.Log.LogEntrySource.Network ||
@@ -1161,8 +1190,8 @@ export class ConsoleViewMessage implements ConsoleViewportElement {
          this.message.level === Protocol.Log.LogEntryLevel.Error ||
          this.message.level === Protocol.Log.LogEntryLevel.Warning ||
          this.message.type === Protocol.Runtime.ConsoleAPICalledEventType.Trace);
-    if (runtimeModel && shouldIncludeTrace) {
-      formattedMessage = this.buildMessageWithStackTrace(runtimeModel);
+    if (shouldIncludeTrace) {
+      formattedMessage = this.buildMessageWithStackTrace(this.message.target());
     } else {
       formattedMessage = this.buildMessage();
     }
@@ -1814,8 +1843,41 @@ export class ConsoleCommandResult extends ConsoleViewMessage {
   }
 }
 
+/**
+ * Adds the previews of the objects in the cells of a table to the preview of the table, which only
+ * describes them, e.g. as `Object`.
+ */
+async function nestedTablePreview(table: SDK.RemoteObject.RemoteObject, preview: Protocol.Runtime.ObjectPreview):
+    Promise<Protocol.Runtime.ObjectPreview> {
+  const nestedPreview = JSON.parse(JSON.stringify(preview)) as Protocol.Runtime.ObjectPreview;
+  const {properties: rowProperties} = await table.getOwnProperties(/* generatePreview */ true);
+  for (const row of nestedPreview.properties) {
+    const rowObject = rowProperties?.find(property => property.name === row.name)?.value;
+    if (!rowObject || !row.valuePreview) {
+      continue;
+    }
+    const {properties: cellProperties} = await rowObject.getOwnProperties(/* generatePreview */ true);
+    for (const cell of row.valuePreview.properties) {
+      const cellPreview = cellProperties?.find(property => property.name === cell.name)?.value?.preview;
+      if (cell.type === 'object' && cellPreview) {
+        cell.valuePreview = cellPreview;
+      }
+    }
+  }
+  return nestedPreview;
+}
+
 export class ConsoleTableMessageView extends ConsoleViewMessage {
   private dataGrid: DataGrid.SortableDataGrid.SortableDataGrid<unknown>|null;
+  #tableObject: SDK.RemoteObject.RemoteObject|null = null;
+  #tablePreview: Protocol.Runtime.ObjectPreview|null = null;
+  // The table preview with the previews of the objects in cells, which the table preview leaves out.
+  #nestedTablePreview: Promise<Protocol.Runtime.ObjectPreview>|null = null;
+  #table: ConsoleTable = {columns: [], rows: []};
+  #tableNodes: DataGrid.SortableDataGrid.SortableDataGridNode<unknown>[] = [];
+  #dataGridRoot: ShadowRoot|null = null;
+  #filterText = '';
+  #expandNested = false;
 
   constructor(
       consoleMessage: SDK.ConsoleModel.ConsoleMessage, linkifier: Components.Linkifier.Linkifier,
@@ -1876,79 +1938,149 @@ export class ConsoleTableMessageView extends ConsoleViewMessage {
     if (!actualTable || !actualTable.preview) {
       return this.buildMessage();
     }
+    this.#tableObject = actualTable;
+    this.#tablePreview = actualTable.preview;
+    this.#table = consoleTable(actualTable.preview, this.#expandNested);
+    if (!this.#table.rows.length) {
+      return formattedMessage;
+    }
 
-    const rawValueColumnSymbol = Symbol('rawValueColumn');
-    const columnNames: (string|symbol)[] = [];
-    const preview = actualTable.preview;
-    const rows = [];
-    for (let i = 0; i < preview.properties.length; ++i) {
-      const rowProperty = preview.properties[i];
-      let rowSubProperties: Protocol.Runtime.PropertyPreview[];
-      if (rowProperty.valuePreview && rowProperty.valuePreview.properties.length) {
-        rowSubProperties = rowProperty.valuePreview.properties;
-      } else if (rowProperty.value || rowProperty.value === '') {
-        rowSubProperties =
-            [{name: rawValueColumnSymbol as unknown as string, type: rowProperty.type, value: rowProperty.value}];
-      } else {
-        continue;
-      }
+    const formattedResult = document.createElement('span');
+    formattedResult.classList.add('console-message-text');
+    const tableElement = formattedResult.createChild('div', 'console-message-formatted-table');
+    this.createTableToolbar(tableElement);
+    const dataGridContainer = tableElement.createChild('span');
+    tableElement.appendChild(this.formatParameter(actualTable, true, false));
+    this.#dataGridRoot = dataGridContainer.attachShadow({mode: 'open'});
+    formattedMessage.appendChild(formattedResult);
+    this.renderDataGrid();
+    return formattedMessage;
+  }
 
-      const rowValue = new Map<string|symbol, HTMLElement>();
-      const maxColumnsToRender = 20;
-      for (let j = 0; j < rowSubProperties.length; ++j) {
-        const cellProperty = rowSubProperties[j];
-        let columnRendered: true|boolean = columnNames.indexOf(cellProperty.name) !== -1;
-        if (!columnRendered) {
-          if (columnNames.length === maxColumnsToRender) {
-            continue;
-          }
-          columnRendered = true;
-          columnNames.push(cellProperty.name);
-        }
+  private createTableToolbar(tableElement: HTMLElement): void {
+    const toolbar = new UI.Toolbar.Toolbar('console-message-table-toolbar', tableElement);
+    const filterInput = new UI.Toolbar.ToolbarInput(i18nString(UIStrings.filterRows), '', 0.2, 1);
+    filterInput.addEventListener(UI.Toolbar.ToolbarInput.Event.TextChanged, event => {
+      this.#filterText = event.data;
+      this.filterRows();
+    });
+    toolbar.appendToolbarItem(filterInput);
+    const expandNestedCheckbox = new UI.Toolbar.ToolbarCheckbox(
+        i18nString(UIStrings.expandNestedObjects), i18nString(UIStrings.showThePropertiesOfObjectsInCells), () => {
+          this.#expandNested = expandNestedCheckbox.checked();
+          void this.updateTable();
+        });
+    toolbar.appendToolbarItem(expandNestedCheckbox);
+    const exportButton = new UI.Toolbar.ToolbarMenuButton(this.appendExportMenuItems.bind(this));
+    exportButton.setGlyph('largeicon-download');
+    exportButton.setTitle(i18nString(UIStrings.exportTable));
+    toolbar.appendToolbarItem(exportButton);
+  }
 
-        if (columnRendered) {
-          const cellElement =
-              this.renderPropertyPreviewOrAccessor(actualTable, cellProperty, [rowProperty, cellProperty]);
-          cellElement.classList.add('console-message-nowrap-below');
-          rowValue.set(cellProperty.name, cellElement);
-        }
-      }
-      rows.push({rowName: rowProperty.name, rowValue});
+  private async updateTable(): Promise<void> {
+    if (!this.#tablePreview) {
+      return;
     }
+    let preview = this.#tablePreview;
+    if (this.#expandNested && this.#tableObject) {
+      this.#nestedTablePreview ??= nestedTablePreview(this.#tableObject, this.#tablePreview);
+      preview = await this.#nestedTablePreview;
+    }
+    this.#table = consoleTable(preview, this.#expandNested);
+    this.renderDataGrid();
+  }
 
+  private renderDataGrid(): void {
+    if (!this.#dataGridRoot) {
+      return;
+    }
+    const titles = this.tableTitles();
     const flatValues = [];
-    for (const {rowName, rowValue} of rows) {
-      flatValues.push(rowName);
-      for (let j = 0; j < columnNames.length; ++j) {
-        flatValues.push(rowValue.get(columnNames[j]));
+    for (const row of this.#table.rows) {
+      flatValues.push(row.property.name);
+      for (const column of this.#table.columns) {
+        const cell = row.cells.get(column.key);
+        flatValues.push(cell ? this.renderTableCell(row, cell) : undefined);
       }
     }
-    columnNames.unshift(i18nString(UIStrings.index));
-    const columnDisplayNames =
-        columnNames.map(name => name === rawValueColumnSymbol ? i18nString(UIStrings.value) : name.toString());
-
-    if (flatValues.length) {
-      this.dataGrid = DataGrid.SortableDataGrid.SortableDataGrid.create(
-          columnDisplayNames, flatValues, i18nString(UIStrings.console));
-      if (this.dataGrid) {
-        this.dataGrid.setStriped(true);
-        this.dataGrid.setFocusable(false);
-
-        const formattedResult = document.createElement('span');
-        formattedResult.classList.add('console-message-text');
-        const tableElement = formattedResult.createChild('div', 'console-message-formatted-table');
-        const dataGridContainer = tableElement.createChild('span');
-        tableElement.appendChild(this.formatParameter(actualTable, true, false));
-        const shadowRoot = dataGridContainer.attachShadow({mode: 'open'});
-        const dataGridWidget = this.dataGrid.asWidget();
-        dataGridWidget.markAsRoot();
-        dataGridWidget.show(shadowRoot as unknown as Element);
-        dataGridWidget.registerCSSFiles([consoleViewStyles, objectValueStyles]);
-        formattedMessage.appendChild(formattedResult);
-        this.dataGrid.renderInline();
+    const dataGrid =
+        DataGrid.SortableDataGrid.SortableDataGrid.create<unknown>(titles, flatValues, i18nString(UIStrings.console));
+    if (!dataGrid) {
+      return;
+    }
+    dataGrid.setStriped(true);
+    dataGrid.setFocusable(false);
+    this.#tableNodes = [...dataGrid.rootNode().children] as DataGrid.SortableDataGrid.SortableDataGridNode<unknown>[];
+
+    if (this.dataGrid) {
+      this.dataGrid.asWidget().detach();
+    }
+    this.dataGrid = dataGrid;
+    const dataGridWidget = dataGrid.asWidget();
+    dataGridWidget.markAsRoot();
+    dataGridWidget.show(this.#dataGridRoot as unknown as Element);
+    dataGridWidget.registerCSSFiles([consoleViewStyles, objectValueStyles]);
+    dataGrid.renderInline();
+    this.filterRows();
+  }
+
+  private renderTableCell(row: ConsoleTableRow, cell: ConsoleTableCell): HTMLElement {
+    const propertyPath = [row.property, ...cell.path.map(name => ({name}))];
+    const cellElement = this.renderPropertyPreviewOrAccessor(this.#tableObject, cell.property, propertyPath);
+    cellElement.classList.add('console-message-nowrap-below');
+    return cellElement;
+  }
+
+  private tableTitles(): string[] {
+    return [
+      i18nString(UIStrings.index),
+      ...this.#table.columns.map(column => columnTitle(column, i18nString(UIStrings.value))),
+    ];
+  }
+
+  private filterRows(): void {
+    const dataGrid = this.dataGrid;
+    if (!dataGrid) {
+      return;
+    }
+    // Re-inserting the rows keeps the sort order of the table.
+    dataGrid.rootNode().removeChildren();
+    this.#table.rows.forEach((row, index) => {
+      if (rowMatches(row, this.#filterText)) {
+        dataGrid.insertChild(this.#tableNodes[index]);
       }
+    });
+    dataGrid.updateWidths();
+  }
+
+  // The rows that pass the filter, in the order they are sorted in.
+  private visibleRows(): ConsoleTableRow[] {
+    const rootNode = this.dataGrid?.rootNode();
+    if (!rootNode) {
+      return [];
     }
-    return formattedMessage;
+    const rows = new Map(this.#tableNodes.map((node, index) => [node, this.#table.rows[index]]));
+    return rootNode.children.map(node => rows.get(node as DataGrid.SortableDataGrid.SortableDataGridNode<unknown>))
+        .filter((row): row is ConsoleTableRow => Boolean(row));
+  }
+
+  private appendExportMenuItems(contextMenu: UI.ContextMenu.ContextMenu): void {
+    for (const format of [ExportFormat.CSV, ExportFormat.TSV, ExportFormat.JSON]) {
+      contextMenu.clipboardSection().appendItem(i18nString(UIStrings.copyAsS, {PH1: format}), () => {
+        Host.InspectorFrontendHost.InspectorFrontendHostInstance.copyText(this.exportTable(format));
+      });
+      contextMenu.saveSection().appendItem(
+          i18nString(UIStrings.saveAsS, {PH1: format}), () => void this.saveTable(format));
+    }
+  }
+
+  private exportTable(format: ExportFormat): string {
+    return exportConsoleTable(this.#table, this.visibleRows(), this.tableTitles(), format);
+  }
+
+  private async saveTable(format: ExportFormat): Promise<void> {
+    await Components.FileImportExport.saveToTimestampedFile(
+        'console-table', format.toLowerCase(), this.exportTable(format));
   }
 
   approximateFastHeight(): number {
@@ -7,19 +7,29 @@ import './ConsoleFilter.js';
 import './ConsoleFormat.js';
 import './ConsolePinPane.js';
 import './ConsoleSidebar.js';
+import './ConsoleTable.js';
 import './ConsoleViewport.js';
 import './ConsoleViewMessage.js';
 import './ConsolePrompt.js';
+import './ConsoleLog.js';
+import './ConsoleLogView.js';
+import './ConsoleNotebook.js';
+import './ConsoleNotebookView.js';
 import './ConsoleView.js';
 import './ConsolePanel.js';
 
 import * as ConsoleContextSelector from './ConsoleContextSelector.js';
 import * as ConsoleFilter from './ConsoleFilter.js';
 import * as ConsoleFormat from './ConsoleFormat.js';
+import * as ConsoleLog from './ConsoleLog.js';
+import * as ConsoleLogView from './ConsoleLogView.js';
+import * as ConsoleNotebook from './ConsoleNotebook.js';
+import * as ConsoleNotebookView from './ConsoleNotebookView.js';
 import * as ConsolePanel from './ConsolePanel.js';
 import * as ConsolePinPane from './ConsolePinPane.js';
 import * as ConsolePrompt from './ConsolePrompt.js';
 import * as ConsoleSidebar from './ConsoleSidebar.js';
+import * as ConsoleTable from './ConsoleTable.js';
 import * as ConsoleView from './ConsoleView.js';
 import * as ConsoleViewMessage from './ConsoleViewMessage.js';
 import * as ConsoleViewport from './ConsoleViewport.js';
@@ -29,10 +39,15 @@ export {
   ConsoleContextSelector,
   ConsoleFilter,
   ConsoleFormat,
+  ConsoleLog,
+  ConsoleLogView,
+  ConsoleNotebook,
+  ConsoleNotebookView,
   ConsolePanel,
   ConsolePinPane,
   ConsolePrompt,
   ConsoleSidebar,
+  ConsoleTable,
   ConsoleView,
   ConsoleViewMessage,
   ConsoleViewport,
@@ -108,6 +108,11 @@ const UIStrings = {
   *@description Text that is announced by the screen reader when the user focuses on an input field for editing the name of a CSS selector in the Styles panel
   */
   cssSelector: '`CSS` selector',
+  /**
+  *@description Tooltip text of a selector in the Styles panel that shows the specificity of the selector, as a triple of numbers
+  *@example {(0,1,2)} PH1
+  */
+  specificityS: 'Specificity: {PH1}',
 };
 
 const str_ = i18n.i18n.registerUIStrings('panels/elements/StylePropertiesSection.ts', UIStrings);
@@ -1067,6 +1072,9 @@ export class StylePropertiesSection {
       this.elementToSelectorIndex.set(element, navigationIndex);
     }
     element.textContent = text;
+    const specificity = SDK.CSSSpecificity.selectorSpecificity(text);
+    UI.Tooltip.Tooltip.install(
+        element, i18nString(UIStrings.specificityS, {PH1: SDK.CSSSpecificity.specificityText(specificity)}));
     return element;
   }
 
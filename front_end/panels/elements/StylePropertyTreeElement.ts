@@ -100,6 +100,64 @@ const UIStrings = {
   *@description A context menu item in Styles panel to copy all declarations of CSS rule as JavaScript properties.
   */
   copyAllCssDeclarationsAsJs: 'Copy all declarations as JS',
+  /**
+  *@description Name of the styles of an element that come from its presentational attributes, such as `width` on images
+  *@example {img} PH1
+  */
+  sattributesStyle: '{PH1}[Attributes Style]',
+  /**
+  *@description Tooltip of the icon next to an overridden CSS declaration in the Styles panel. Clicking the icon reveals the declaration that overrides it.
+  *@example {color: red} PH1
+  *@example {.header a} PH2
+  */
+  overriddenBySourceOrder: 'Overridden by `{PH1}` in {PH2}, which is declared later',
+  /**
+  *@description Tooltip of the icon next to an overridden CSS declaration in the Styles panel. Clicking the icon reveals the declaration that overrides it.
+  *@example {color: red} PH1
+  *@example {.header a} PH2
+  */
+  overriddenByInheritance:
+      'Overridden by `{PH1}` in {PH2}, which applies to the element itself or to a closer ancestor',
+  /**
+  *@description Tooltip of the icon next to an overridden CSS declaration in the Styles panel. Clicking the icon reveals the declaration that overrides it.
+  *@example {color: red} PH1
+  *@example {.header a} PH2
+  */
+  overriddenByImportant: 'Overridden by `{PH1}` in {PH2}, which is marked `!important`',
+  /**
+  *@description Tooltip of the icon next to an overridden CSS declaration in the Styles panel. Clicking the icon reveals the declaration that overrides it.
+  *@example {color: red} PH1
+  *@example {.header a} PH2
+  */
+  overriddenByOrigin: 'Overridden by `{PH1}` in {PH2}, whose style sheet origin takes precedence',
+  /**
+  *@description Tooltip of the icon next to an overridden CSS declaration in the Styles panel. Clicking the icon reveals the declaration that overrides it.
+  *@example {color: red} PH1
+  *@example {element.style} PH2
+  */
+  overriddenByInlineStyle: 'Overridden by `{PH1}` in {PH2}, because inline styles take precedence over style rules',
+  /**
+  *@description Tooltip of the icon next to an overridden CSS declaration in the Styles panel. Clicking the icon reveals the declaration that overrides it.
+  *@example {color: red} PH1
+  *@example {.header a} PH2
+  *@example {base.components} PH3
+  */
+  overriddenByLayer: 'Overridden by `{PH1}` in {PH2}, whose cascade layer `{PH3}` takes precedence',
+  /**
+  *@description Tooltip of the icon next to an overridden CSS declaration in the Styles panel. Clicking the icon reveals the declaration that overrides it.
+  *@example {color: red} PH1
+  *@example {.header a} PH2
+  */
+  overriddenByUnlayeredStyle:
+      'Overridden by `{PH1}` in {PH2}, because styles outside of cascade layers take precedence',
+  /**
+  *@description Tooltip of the icon next to an overridden CSS declaration in the Styles panel. Clicking the icon reveals the declaration that overrides it.
+  *@example {color: red} PH1
+  *@example {.header a} PH2
+  *@example {(0,1,1)} PH3
+  *@example {(0,0,1)} PH4
+  */
+  overriddenBySpecificity: 'Overridden by `{PH1}` in {PH2}, whose selector is more specific ({PH3} over {PH4})',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/elements/StylePropertyTreeElement.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
@@ -518,6 +576,70 @@ export class StylePropertyTreeElement extends UI.TreeOutline.TreeElement {
     }
 
     this.listItemElement.classList.toggle('changed', this.isPropertyChanged(this.property));
+    this.updateCascadeExplanation();
+  }
+
+  private updateCascadeExplanation(): void {
+    this.listItemElement.querySelector('.cascade-explanation')?.remove();
+    const explanation = this.overloaded() ? this.matchedStylesInternal.cascadeExplanation(this.property) : null;
+    if (!explanation) {
+      return;
+    }
+    const icon = UI.Icon.Icon.create('smallicon-info', 'cascade-explanation');
+    const text = this.cascadeExplanationText(explanation);
+    UI.Tooltip.Tooltip.install(icon, text);
+    UI.ARIAUtils.setAccessibleName(icon, text);
+    icon.addEventListener('mousedown', event => event.consume(), false);
+    icon.addEventListener('click', event => {
+      this.parentPaneInternal.revealProperty(explanation.winner);
+      event.consume();
+    }, false);
+    this.listItemElement.appendChild(icon);
+  }
+
+  private cascadeExplanationText(explanation: SDK.CSSMatchedStyles.CascadeExplanation): string {
+    const {winner, reason} = explanation;
+    const winnerStyle = winner.ownerStyle;
+    const winnerRule = winnerStyle.parentRule;
+    const declaration = `${winner.name}: ${winner.value}`;
+    let location = 'element.style';
+    if (winnerRule instanceof SDK.CSSRule.CSSStyleRule) {
+      location = winnerRule.selectorText();
+    } else if (winnerStyle.type === SDK.CSSStyleDeclaration.Type.Attributes) {
+      const node = this.matchedStylesInternal.nodeForStyle(winnerStyle);
+      location = i18nString(UIStrings.sattributesStyle, {PH1: node ? node.nodeNameInCorrectCase() : ''});
+    }
+    switch (reason) {
+      case SDK.CSSMatchedStyles.CascadeReason.Inheritance:
+        return i18nString(UIStrings.overriddenByInheritance, {PH1: declaration, PH2: location});
+      case SDK.CSSMatchedStyles.CascadeReason.Important:
+        return i18nString(UIStrings.overriddenByImportant, {PH1: declaration, PH2: location});
+      case SDK.CSSMatchedStyles.CascadeReason.Origin:
+        return i18nString(UIStrings.overriddenByOrigin, {PH1: declaration, PH2: location});
+      case SDK.CSSMatchedStyles.CascadeReason.InlineStyle:
+        return i18nString(UIStrings.overriddenByInlineStyle, {PH1: declaration, PH2: location});
+      case SDK.CSSMatchedStyles.CascadeReason.Layer: {
+        const layers = winnerRule instanceof SDK.CSSRule.CSSStyleRule ? winnerRule.layers : [];
+        if (!layers.length) {
+          return i18nString(UIStrings.overriddenByUnlayeredStyle, {PH1: declaration, PH2: location});
+        }
+        const layerName = layers.map(layer => SDK.CSSModel.CSSModel.readableLayerName(layer.text)).join('.');
+        return i18nString(UIStrings.overriddenByLayer, {PH1: declaration, PH2: location, PH3: layerName});
+      }
+      case SDK.CSSMatchedStyles.CascadeReason.Specificity: {
+        const rule = this.property.ownerStyle.parentRule;
+        if (winnerRule instanceof SDK.CSSRule.CSSStyleRule && rule instanceof SDK.CSSRule.CSSStyleRule) {
+          return i18nString(UIStrings.overriddenBySpecificity, {
+            PH1: declaration,
+            PH2: location,
+            PH3: SDK.CSSSpecificity.specificityText(this.matchedStylesInternal.ruleSpecificity(winnerRule)),
+            PH4: SDK.CSSSpecificity.specificityText(this.matchedStylesInternal.ruleSpecificity(rule)),
+          });
+        }
+        break;
+      }
+    }
+    return i18nString(UIStrings.overriddenBySourceOrder, {PH1: declaration, PH2: location});
   }
 
   node(): SDK.DOMModel.DOMNode|null {
@@ -752,6 +874,7 @@ export class StylePropertyTreeElement extends UI.TreeOutline.TreeElement {
     if (!this.property.activeInStyle()) {
       this.listItemElement.classList.add('inactive');
     }
+    this.updateCascadeExplanation();
     this.updateFilter();
 
     if (this.property.parsedOk && this.section() && this.parent && this.parent.root) {
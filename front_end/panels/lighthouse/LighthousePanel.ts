@@ -7,6 +7,7 @@ import * as Host from '../../core/host/host.js';
 import * as i18n from '../../core/i18n/i18n.js';
 import * as SDK from '../../core/sdk/sdk.js';
 import * as EmulationModel from '../../models/emulation/emulation.js';
+import * as Components from '../../ui/legacy/components/utils/utils.js';
 import * as UI from '../../ui/legacy/legacy.js';
 import * as Emulation from '../emulation/emulation.js';
 
@@ -22,6 +23,8 @@ import lighthousePanelStyles from './lighthousePanel.css.js';
 import {ProtocolService, type LighthouseRun} from './LighthouseProtocolService.js';
 
 import {type ReportJSON, type RunnerResultArtifacts} from './LighthouseReporterTypes.js';
+import {LighthouseReportComparisonView} from './LighthouseReportComparisonView.js';
+import {parseLighthouseReport, ReportHistory} from './LighthouseReportHistory.js';
 import {LighthouseReportRenderer} from './LighthouseReportRenderer.js';
 import {Item, ReportSelector} from './LighthouseReportSelector.js';
 import {StartView} from './LighthouseStartView.js';
@@ -42,6 +45,18 @@ const UIStrings = {
   */
   clearAll: 'Clear all',
   /**
+  *@description Tooltip text of the button that imports a report from a file in the Lighthouse panel
+  */
+  importReport: 'Import `Lighthouse` JSON report…',
+  /**
+  *@description Tooltip text of the button that compares two reports in the Lighthouse panel
+  */
+  compareReports: 'Compare reports',
+  /**
+  *@description Text of the button that compares two reports in the Lighthouse panel
+  */
+  compare: 'Compare',
+  /**
   *@description Tooltip text that appears when hovering over the largeicon settings gear in show settings pane setting in start view of the audits panel
   */
   lighthouseSettings: '`Lighthouse` settings',
@@ -75,7 +90,14 @@ export class LighthousePanel extends UI.Panel.Panel {
   private readonly cachedRenderedReports: Map<ReportJSON, HTMLElement>;
   private readonly dropTarget: UI.DropTarget.DropTarget;
   private readonly auditResultsElement: HTMLElement;
+  private readonly reportHistory: ReportHistory;
+  // The reports in the report selector, oldest first.
+  private reports: ReportJSON[];
+  private comparisonView: LighthouseReportComparisonView|null;
   private clearButton!: UI.Toolbar.ToolbarButton;
+  private importButton!: UI.Toolbar.ToolbarButton;
+  private compareButton!: UI.Toolbar.ToolbarButton;
+  private fileSelectorElement!: HTMLInputElement;
   private newButton!: UI.Toolbar.ToolbarButton;
   private reportSelector!: ReportSelector;
   private settingsPane!: UI.Widget.Widget;
@@ -111,6 +133,9 @@ export class LighthousePanel extends UI.Panel.Panel {
     this.warningText = null;
     this.unauditableExplanation = null;
     this.cachedRenderedReports = new Map();
+    this.reportHistory = new ReportHistory();
+    this.reports = [];
+    this.comparisonView = null;
 
     this.dropTarget = new UI.DropTarget.DropTarget(
         this.contentElement, [UI.DropTarget.Type.File], i18nString(UIStrings.dropLighthouseJsonHere),
@@ -126,6 +151,7 @@ export class LighthousePanel extends UI.Panel.Panel {
 
     this.renderToolbar();
     this.auditResultsElement = this.contentElement.createChild('div', 'lighthouse-results-container');
+    this.restoreReportHistory();
     this.renderStartView();
 
     this.controller.recomputePageAuditability();
@@ -197,9 +223,12 @@ export class LighthousePanel extends UI.Panel.Panel {
 
   private refreshToolbarUI(): void {
     this.clearButton.setEnabled(this.reportSelector.hasItems());
+    this.compareButton.setEnabled(this.reports.length >= 2);
   }
 
   private clearAll(): void {
+    this.reports = [];
+    this.reportHistory.clear();
     this.reportSelector.clearAll();
     this.renderStartView();
     this.refreshToolbarUI();
@@ -223,6 +252,20 @@ export class LighthousePanel extends UI.Panel.Panel {
     toolbar.appendToolbarItem(this.clearButton);
     this.clearButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, this.clearAll.bind(this));
 
+    toolbar.appendSeparator();
+
+    this.importButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.importReport), 'largeicon-load');
+    toolbar.appendToolbarItem(this.importButton);
+    this.importButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => this.fileSelectorElement.click());
+    this.fileSelectorElement =
+        Components.FileImportExport.createImportFileSelectorElement(file => this.loadFromFile(file));
+    lighthouseToolbarContainer.appendChild(this.fileSelectorElement);
+
+    this.compareButton =
+        new UI.Toolbar.ToolbarButton(i18nString(UIStrings.compareReports), undefined, i18nString(UIStrings.compare));
+    toolbar.appendToolbarItem(this.compareButton);
+    this.compareButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, this.renderComparisonView.bind(this));
+
     this.settingsPane = new UI.Widget.HBox();
     this.settingsPane.show(this.contentElement);
     this.settingsPane.element.classList.add('lighthouse-settings-pane');
@@ -250,7 +293,28 @@ export class LighthousePanel extends UI.Panel.Panel {
     this.updateSettingsPaneVisibility();
   }
 
+  private hideComparisonView(): void {
+    this.comparisonView?.detach();
+    this.comparisonView = null;
+  }
+
+  private renderComparisonView(): void {
+    this.toggleSettingsDisplay(false);
+    this.contentElement.classList.toggle('in-progress', false);
+    this.startView.hideWidget();
+    this.statusView.hide();
+    this.hideComparisonView();
+    this.auditResultsElement.removeChildren();
+    this.reportSelector.selectNewReport();
+    this.newButton.setEnabled(true);
+    this.refreshToolbarUI();
+
+    this.comparisonView = new LighthouseReportComparisonView([...this.reports]);
+    this.comparisonView.show(this.auditResultsElement);
+  }
+
   private renderStartView(): void {
+    this.hideComparisonView();
     this.auditResultsElement.removeChildren();
     this.statusView.hide();
 
@@ -293,6 +357,7 @@ export class LighthousePanel extends UI.Panel.Panel {
     this.contentElement.classList.toggle('in-progress', false);
     this.startView.hideWidget();
     this.statusView.hide();
+    this.hideComparisonView();
     this.auditResultsElement.removeChildren();
     this.newButton.setEnabled(true);
     this.refreshToolbarUI();
@@ -316,6 +381,8 @@ export class LighthousePanel extends UI.Panel.Panel {
       return;
     }
 
+    this.reports.push(lighthouseResult);
+    this.reportHistory.add(lighthouseResult);
     const optionElement = new Item(
         lighthouseResult, () => this.renderReport(lighthouseResult, artifacts), this.renderStartView.bind(this));
     this.reportSelector.prepend(optionElement);
@@ -323,6 +390,17 @@ export class LighthousePanel extends UI.Panel.Panel {
     this.renderReport(lighthouseResult);
   }
 
+  // Reports of earlier sessions are listed in the report selector, but only rendered once selected.
+  private restoreReportHistory(): void {
+    for (const lighthouseResult of this.reportHistory.reports()) {
+      this.reports.push(lighthouseResult);
+      const optionElement =
+          new Item(lighthouseResult, () => this.renderReport(lighthouseResult), this.renderStartView.bind(this));
+      this.reportSelector.prepend(optionElement, false);
+    }
+    this.refreshToolbarUI();
+  }
+
   private handleDrop(dataTransfer: DataTransfer): void {
     const items = dataTransfer.items;
     if (!items.length) {
@@ -334,19 +412,25 @@ export class LighthousePanel extends UI.Panel.Panel {
       if (!file) {
         return;
       }
-
-      const reader = new FileReader();
-      reader.onload = (): void => this.loadedFromFile(reader.result as string);
-      reader.readAsText(file);
+      this.loadFromFile(file);
     }
   }
 
+  private loadFromFile(file: File): void {
+    const reader = new FileReader();
+    reader.onload = (): void => this.loadedFromFile(reader.result as string);
+    reader.readAsText(file);
+  }
+
   private loadedFromFile(report: string): void {
-    const data = JSON.parse(report);
-    if (!data['lighthouseVersion']) {
+    let lighthouseResult;
+    try {
+      lighthouseResult = parseLighthouseReport(report);
+    } catch (err) {
+      Common.Console.Console.instance().error(err.message);
       return;
     }
-    this.buildReportUI(data as ReportJSON);
+    this.buildReportUI(lighthouseResult);
   }
 
   private recordMetrics(flags: {mode: string, legacyNavigation: boolean}): void {
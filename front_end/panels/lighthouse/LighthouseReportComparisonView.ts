@@ -0,0 +1,295 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as i18n from '../../core/i18n/i18n.js';
+import * as Platform from '../../core/platform/platform.js';
+import * as UI from '../../ui/legacy/legacy.js';
+
+import lighthouseReportComparisonViewStyles from './lighthouseReportComparisonView.css.js';
+import {type ReportJSON} from './LighthouseReporterTypes.js';
+import {reportTitle} from './LighthouseReportSelector.js';
+
+const UIStrings = {
+  /**
+  *@description Label of the select for the report that another report is compared to in the Lighthouse panel
+  */
+  baseReport: 'Base report',
+  /**
+  *@description Label of the select for the report that is compared to the base report in the Lighthouse panel
+  */
+  comparedReport: 'Compared report',
+  /**
+  *@description Title of the table of the category scores of two compared Lighthouse reports
+  */
+  categories: 'Categories',
+  /**
+  *@description Title of the table of the performance metrics of two compared Lighthouse reports
+  */
+  metrics: 'Metrics',
+  /**
+  *@description Title of the table of the audits that pass in one of two compared Lighthouse reports and fail in the other
+  */
+  changedAudits: 'Audits that changed between passing and failing',
+  /**
+  *@description Header of the column of the differences between the values of two compared Lighthouse reports
+  */
+  change: 'Change',
+  /**
+  *@description Text for an audit that passes in a Lighthouse report
+  */
+  passed: 'Passed',
+  /**
+  *@description Text for an audit that fails in a Lighthouse report
+  */
+  failed: 'Failed',
+  /**
+  *@description Text for a score or value that a Lighthouse report does not have
+  */
+  notAvailable: 'n/a',
+  /**
+  *@description Text in the Lighthouse panel when no audit changed between passing and failing in two compared reports
+  */
+  noAuditChanged: 'No audit changed between passing and failing.',
+  /**
+  *@description Text in the Lighthouse panel when the compared reports have no performance metrics
+  */
+  noMetrics: 'The reports have no performance metrics.',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/lighthouse/LighthouseReportComparisonView.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+// The score from which the report renderer shows audits as passed.
+const PassThreshold = 0.9;
+
+const ScoredDisplayModes = new Set(['binary', 'numeric']);
+
+export interface CategoryComparison {
+  id: string;
+  title: string;
+  baseScore: number|null;
+  score: number|null;
+}
+
+export interface MetricComparison {
+  id: string;
+  title: string;
+  unit: string;
+  baseValue?: number;
+  value?: number;
+}
+
+export interface AuditComparison {
+  id: string;
+  title: string;
+  basePassed: boolean;
+  passed: boolean;
+}
+
+export interface ReportComparison {
+  categories: CategoryComparison[];
+  metrics: MetricComparison[];
+  // Only the audits that pass in one report and fail in the other.
+  audits: AuditComparison[];
+}
+
+function auditPassed(report: ReportJSON, id: string): boolean|null {
+  const audit = report.audits[id];
+  if (!audit || audit.score === null || !ScoredDisplayModes.has(audit.scoreDisplayMode)) {
+    return null;
+  }
+  return audit.score >= PassThreshold;
+}
+
+// The metrics are the audits in the `metrics` group of the performance category.
+function metricIds(report: ReportJSON): string[] {
+  const performance = report.categories['performance'];
+  return performance ? performance.auditRefs.filter(ref => ref.group === 'metrics').map(ref => ref.id) : [];
+}
+
+export function compareReports(baseReport: ReportJSON, report: ReportJSON): ReportComparison {
+  const categories = [];
+  const categoryIds = new Set([...Object.keys(baseReport.categories), ...Object.keys(report.categories)]);
+  for (const id of categoryIds) {
+    const baseCategory = baseReport.categories[id];
+    const category = report.categories[id];
+    categories.push({
+      id,
+      title: (category || baseCategory).title,
+      baseScore: baseCategory ? baseCategory.score : null,
+      score: category ? category.score : null,
+    });
+  }
+
+  const metrics = [];
+  for (const id of new Set([...metricIds(baseReport), ...metricIds(report)])) {
+    const baseAudit = baseReport.audits[id];
+    const audit = report.audits[id];
+    // Reports may refer to metrics whose audits they do not have.
+    if (!audit && !baseAudit) {
+      continue;
+    }
+    const metric: MetricComparison = {
+      id,
+      title: (audit || baseAudit).title,
+      unit: (audit || baseAudit).numericUnit || '',
+    };
+    if (baseAudit?.numericValue !== undefined) {
+      metric.baseValue = baseAudit.numericValue;
+    }
+    if (audit?.numericValue !== undefined) {
+      metric.value = audit.numericValue;
+    }
+    metrics.push(metric);
+  }
+
+  const audits = [];
+  for (const id of Object.keys(report.audits)) {
+    const basePassed = auditPassed(baseReport, id);
+    const passed = auditPassed(report, id);
+    if (basePassed !== null && passed !== null && basePassed !== passed) {
+      audits.push({id, title: report.audits[id].title, basePassed, passed});
+    }
+  }
+
+  return {categories, metrics, audits};
+}
+
+function scoreText(score: number|null): string {
+  return score === null ? i18nString(UIStrings.notAvailable) : String(Math.round(score * 100));
+}
+
+function metricValueText(value: number|undefined, unit: string): string {
+  if (value === undefined) {
+    return i18nString(UIStrings.notAvailable);
+  }
+  switch (unit) {
+    case 'millisecond':
+      return i18n.TimeUtilities.preciseMillisToString(value, 0);
+    case 'byte':
+      return Platform.NumberUtilities.bytesToString(value);
+  }
+  return Platform.NumberUtilities.toFixedIfFloating(value.toFixed(3));
+}
+
+// Higher scores are better, while lower metric values are.
+function appendChangeCell(row: Element, change: number|null, text: string, higherIsBetter: boolean): void {
+  const cell = row.createChild('td', 'lighthouse-comparison-change');
+  if (change === null || change === 0) {
+    cell.textContent = change === null ? '' : text;
+    return;
+  }
+  cell.textContent = (change > 0 ? '+' : '') + text;
+  cell.classList.add(change > 0 === higherIsBetter ? 'lighthouse-comparison-better' : 'lighthouse-comparison-worse');
+}
+
+export class LighthouseReportComparisonView extends UI.Widget.VBox {
+  private readonly reports: ReportJSON[];
+  private readonly baseSelect: HTMLSelectElement;
+  private readonly reportSelect: HTMLSelectElement;
+  private readonly resultsElement: HTMLElement;
+
+  // The reports are ordered from the oldest to the newest, and the two newest are compared first.
+  constructor(reports: ReportJSON[]) {
+    super(true);
+    this.reports = reports;
+    this.contentElement.classList.add('lighthouse-comparison');
+
+    const selectors = this.contentElement.createChild('div', 'lighthouse-comparison-selectors');
+    this.baseSelect = this.createReportSelect(selectors, i18nString(UIStrings.baseReport), reports.length - 2);
+    this.reportSelect = this.createReportSelect(selectors, i18nString(UIStrings.comparedReport), reports.length - 1);
+
+    this.resultsElement = this.contentElement.createChild('div', 'lighthouse-comparison-results');
+    this.update();
+  }
+
+  private createReportSelect(parent: Element, title: string, selectedIndex: number): HTMLSelectElement {
+    const select = UI.UIUtils.createSelect(title, []);
+    this.reports.forEach((report, index) => {
+      select.appendChild(new Option(reportTitle(report), String(index)));
+    });
+    select.selectedIndex = Math.max(0, selectedIndex);
+    select.addEventListener('change', this.update.bind(this));
+    const label = parent.createChild('label', 'lighthouse-comparison-selector');
+    label.createChild('span').textContent = title;
+    label.appendChild(select);
+    return select;
+  }
+
+  private update(): void {
+    const baseReport = this.reports[Number(this.baseSelect.value)];
+    const report = this.reports[Number(this.reportSelect.value)];
+    this.resultsElement.removeChildren();
+    if (!baseReport || !report) {
+      return;
+    }
+    const comparison = compareReports(baseReport, report);
+    const baseTitle = reportTitle(baseReport);
+    const title = reportTitle(report);
+
+    const categoriesTable = this.createTable(i18nString(UIStrings.categories), baseTitle, title);
+    for (const category of comparison.categories) {
+      const row = categoriesTable.createChild('tr');
+      row.createChild('td').textContent = category.title;
+      row.createChild('td', 'lighthouse-comparison-value').textContent = scoreText(category.baseScore);
+      row.createChild('td', 'lighthouse-comparison-value').textContent = scoreText(category.score);
+      const change = category.baseScore === null || category.score === null ?
+          null :
+          Math.round(category.score * 100) - Math.round(category.baseScore * 100);
+      appendChangeCell(row, change, String(change), true);
+    }
+
+    if (comparison.metrics.length) {
+      const metricsTable = this.createTable(i18nString(UIStrings.metrics), baseTitle, title);
+      for (const metric of comparison.metrics) {
+        const row = metricsTable.createChild('tr');
+        row.createChild('td').textContent = metric.title;
+        row.createChild('td', 'lighthouse-comparison-value').textContent =
+            metricValueText(metric.baseValue, metric.unit);
+        row.createChild('td', 'lighthouse-comparison-value').textContent = metricValueText(metric.value, metric.unit);
+        const change =
+            metric.baseValue === undefined || metric.value === undefined ? null : metric.value - metric.baseValue;
+        appendChangeCell(row, change, change === null ? '' : metricValueText(change, metric.unit), false);
+      }
+    } else {
+      this.createMessage(i18nString(UIStrings.noMetrics));
+    }
+
+    if (comparison.audits.length) {
+      const auditsTable = this.createTable(i18nString(UIStrings.changedAudits), baseTitle, title, false);
+      for (const audit of comparison.audits) {
+        const row = auditsTable.createChild('tr');
+        row.createChild('td').textContent = audit.title;
+        row.createChild('td').textContent =
+            audit.basePassed ? i18nString(UIStrings.passed) : i18nString(UIStrings.failed);
+        const passedCell = row.createChild('td');
+        passedCell.textContent = audit.passed ? i18nString(UIStrings.passed) : i18nString(UIStrings.failed);
+        passedCell.classList.add(audit.passed ? 'lighthouse-comparison-better' : 'lighthouse-comparison-worse');
+      }
+    } else {
+      this.createMessage(i18nString(UIStrings.noAuditChanged));
+    }
+  }
+
+  private createTable(title: string, baseTitle: string, reportTitle: string, withChange: boolean = true): HTMLElement {
+    this.resultsElement.createChild('h3', 'lighthouse-comparison-title').textContent = title;
+    const table = this.resultsElement.createChild('table', 'lighthouse-comparison-table');
+    const header = table.createChild('tr');
+    header.createChild('th');
+    header.createChild('th').textContent = baseTitle;
+    header.createChild('th').textContent = reportTitle;
+    if (withChange) {
+      header.createChild('th').textContent = i18nString(UIStrings.change);
+    }
+    return table;
+  }
+
+  private createMessage(text: string): void {
+    this.resultsElement.createChild('div', 'lighthouse-comparison-message').textContent = text;
+  }
+
+  wasShown(): void {
+    super.wasShown();
+    this.registerCSSFiles([lighthouseReportComparisonViewStyles]);
+  }
+}
@@ -0,0 +1,108 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Common from '../../core/common/common.js';
+import * as i18n from '../../core/i18n/i18n.js';
+
+import {type ReportJSON} from './LighthouseReporterTypes.js';
+
+const UIStrings = {
+  /**
+  *@description Error message when a file imported in the Lighthouse panel is not a Lighthouse report
+  */
+  notALighthouseReport: 'The file is not a `Lighthouse` report in JSON format.',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/lighthouse/LighthouseReportHistory.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+// Reports are kept in local storage, so only the most recent ones are persisted.
+export const MaxReportHistoryLength = 10;
+
+// Writes that exceed the quota of local storage fail without notice, so the history is kept below this
+// number of characters of JSON.
+export const MaxReportHistorySize = 2 * 1024 * 1024;
+
+// Screenshots make up most of the size of a report, and are not kept in the history.
+const ScreenshotDetailsTypes = new Set(['screenshot', 'filmstrip', 'full-page-screenshot']);
+
+function isObject(value: unknown): value is {[key: string]: unknown} {
+  return Boolean(value) && typeof value === 'object';
+}
+
+function isScore(value: unknown): boolean {
+  return value === null || typeof value === 'number';
+}
+
+function isCategory(value: unknown): boolean {
+  return isObject(value) && typeof value.title === 'string' && isScore(value.score) && Array.isArray(value.auditRefs) &&
+      value.auditRefs.every(ref => isObject(ref) && typeof ref.id === 'string');
+}
+
+function isAudit(value: unknown): boolean {
+  return isObject(value) && typeof value.title === 'string' && isScore(value.score) &&
+      (value.numericValue === undefined || typeof value.numericValue === 'number');
+}
+
+/**
+ * Parses a report saved from the panel or produced by the CLI with `--output json`. The result of
+ * the node module, which wraps the report in `lhr`, is accepted too.
+ */
+export function parseLighthouseReport(text: string): ReportJSON {
+  let json;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error(i18nString(UIStrings.notALighthouseReport));
+  }
+  const report = json && typeof json === 'object' && json.lhr ? json.lhr : json;
+  if (!report || typeof report !== 'object' || !report.lighthouseVersion || !isObject(report.categories) ||
+      !Object.values(report.categories).every(isCategory) || !isObject(report.audits) ||
+      !Object.values(report.audits).every(isAudit)) {
+    throw new Error(i18nString(UIStrings.notALighthouseReport));
+  }
+  return report as ReportJSON;
+}
+
+export function reportWithoutScreenshots(report: ReportJSON): ReportJSON {
+  const audits: ReportJSON['audits'] = {};
+  for (const [id, audit] of Object.entries(report.audits)) {
+    audits[id] = {...audit};
+    if (audit.details && ScreenshotDetailsTypes.has(audit.details.type)) {
+      delete audits[id].details;
+    }
+  }
+  const strippedReport = {...report, audits};
+  delete strippedReport.fullPageScreenshot;
+  return strippedReport;
+}
+
+export class ReportHistory {
+  readonly #setting: Common.Settings.Setting<ReportJSON[]>;
+
+  constructor() {
+    this.#setting = Common.Settings.Settings.instance().createSetting(
+        'lighthouseReportHistory', [], Common.Settings.SettingStorageType.Local);
+  }
+
+  // The persisted reports, oldest first.
+  reports(): ReportJSON[] {
+    return this.#setting.get();
+  }
+
+  add(report: ReportJSON): void {
+    const reports = [...this.reports(), reportWithoutScreenshots(report)].slice(-MaxReportHistoryLength);
+    // The oldest reports are dropped until the others fit, which may leave none if the new report alone is too large.
+    const sizes = reports.map(keptReport => JSON.stringify(keptReport).length + 1);
+    let size = sizes.reduce((total, reportSize) => total + reportSize, 1);
+    while (reports.length && size > MaxReportHistorySize) {
+      reports.shift();
+      size -= sizes.shift() || 0;
+    }
+    this.#setting.set(reports);
+  }
+
+  clear(): void {
+    this.#setting.set([]);
+  }
+}
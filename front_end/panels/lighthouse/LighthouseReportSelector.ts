@@ -20,6 +20,19 @@ const UIStrings = {
 };
 const str_ = i18n.i18n.registerUIStrings('panels/lighthouse/LighthouseReportSelector.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+// Reports are kept across sessions, so they are told apart by the date and time they were fetched.
+export function reportTitle(lighthouseResult: ReportRenderer.ReportJSON): string {
+  // In Lighthouse 10.0, `finalUrl` is not provided on snapshot or timespan reports.
+  // `finalDisplayedUrl` is the new preferred URL to use for cosmetic identification.
+  // TODO: Remove the `finalUrl` backport once Lighthouse 10.0 is rolled into DevTools.
+  const finalDisplayedUrl = lighthouseResult.finalDisplayedUrl || lighthouseResult.finalUrl || '';
+
+  const url = new Common.ParsedURL.ParsedURL(finalDisplayedUrl);
+  const timestamp = lighthouseResult.fetchTime;
+  return `${new Date(timestamp).toLocaleString()} - ${url.domain()}`;
+}
+
 export class ReportSelector {
   private readonly renderNewLighthouseView: () => void;
   private newLighthouseItem: HTMLOptionElement;
@@ -73,15 +86,17 @@ export class ReportSelector {
     return this.comboBoxInternal;
   }
 
-  prepend(item: Item): void {
+  prepend(item: Item, select: boolean = true): void {
     const optionEl = item.optionElement();
     const selectEl = this.comboBoxInternal.selectElement();
 
     this.itemByOptionElement.set(optionEl, item);
     selectEl.insertBefore(optionEl, selectEl.firstElementChild);
     this.comboBoxInternal.setEnabled(true);
-    this.comboBoxInternal.select(optionEl);
-    item.select();
+    if (select) {
+      this.comboBoxInternal.select(optionEl);
+      item.select();
+    }
   }
 
   clearAll(): void {
@@ -113,15 +128,8 @@ export class Item {
     this.renderReport = renderReport;
     this.showLandingCallback = showLandingCallback;
 
-    // In Lighthouse 10.0, `finalUrl` is not provided on snapshot or timespan reports.
-    // `finalDisplayedUrl` is the new preferred URL to use for cosmetic identification.
-    // TODO: Remove the `finalUrl` backport once Lighthouse 10.0 is rolled into DevTools.
-    const finalDisplayedUrl = lighthouseResult.finalDisplayedUrl || lighthouseResult.finalUrl || '';
-
-    const url = new Common.ParsedURL.ParsedURL(finalDisplayedUrl);
-    const timestamp = lighthouseResult.fetchTime;
     this.element = document.createElement('option');
-    this.element.label = `${new Date(timestamp).toLocaleTimeString()} - ${url.domain()}`;
+    this.element.label = reportTitle(lighthouseResult);
   }
 
   select(): void {
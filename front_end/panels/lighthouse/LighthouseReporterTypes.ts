@@ -21,6 +21,8 @@ export interface AuditResultJSON {
   scoreDisplayMode: string;
   error: boolean;
   score: number|null;
+  numericValue?: number;
+  numericUnit?: string;
   details?: DetailsJSON;
 }
 export interface AuditJSON {
@@ -55,6 +57,7 @@ export interface ReportJSON {
   audits: {[x: string]: AuditResultJSON};
   categories: {[x: string]: CategoryJSON};
   categoryGroups: {[x: string]: GroupJSON};
+  fullPageScreenshot?: unknown;
 }
 export interface DetailsJSON {
   type: string;
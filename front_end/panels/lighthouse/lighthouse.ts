@@ -7,7 +7,9 @@ import '../../third_party/lighthouse/report-assets/report-generator.mjs';
 import * as LighthouseController from './LighthouseController.js';
 import * as LighthousePanel from './LighthousePanel.js';
 import * as LighthouseProtocolService from './LighthouseProtocolService.js';
+import * as LighthouseReportComparisonView from './LighthouseReportComparisonView.js';
 import * as LighthouseReporterTypes from './LighthouseReporterTypes.js';
+import * as LighthouseReportHistory from './LighthouseReportHistory.js';
 import * as LighthouseReportRenderer from './LighthouseReportRenderer.js';
 import * as LighthouseReportSelector from './LighthouseReportSelector.js';
 import * as LighthouseStartView from './LighthouseStartView.js';
@@ -18,7 +20,9 @@ export {
   LighthouseController,
   LighthousePanel,
   LighthouseProtocolService,
+  LighthouseReportComparisonView,
   LighthouseReporterTypes,
+  LighthouseReportHistory,
   LighthouseReportRenderer,
   LighthouseReportSelector,
   LighthouseStartView,
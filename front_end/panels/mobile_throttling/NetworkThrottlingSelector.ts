@@ -26,19 +26,25 @@ const str_ = i18n.i18n.registerUIStrings('panels/mobile_throttling/NetworkThrott
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
 export class NetworkThrottlingSelector {
   private populateCallback:
-      (arg0: Array<NetworkThrottlingConditionsGroup>) => Array<SDK.NetworkManager.Conditions|null>;
+      (arg0: Array<NetworkThrottlingConditionsGroup>,
+       arg1: SDK.NetworkManager.ThrottlingRule[]) => Array<SDK.NetworkManager.Conditions|null>;
   private readonly selectCallback: (arg0: number) => void;
   private readonly customNetworkConditionsSetting: Common.Settings.Setting<SDK.NetworkManager.Conditions[]>;
+  private readonly throttlingRulesSetting: Common.Settings.Setting<SDK.NetworkManager.ThrottlingRule[]>;
   private options!: (SDK.NetworkManager.Conditions|null)[];
 
   constructor(
-      populateCallback: (arg0: Array<NetworkThrottlingConditionsGroup>) => Array<SDK.NetworkManager.Conditions|null>,
+      populateCallback: (arg0: Array<NetworkThrottlingConditionsGroup>, arg1: SDK.NetworkManager.ThrottlingRule[]) =>
+          Array<SDK.NetworkManager.Conditions|null>,
       selectCallback: (arg0: number) => void,
-      customNetworkConditionsSetting: Common.Settings.Setting<SDK.NetworkManager.Conditions[]>) {
+      customNetworkConditionsSetting: Common.Settings.Setting<SDK.NetworkManager.Conditions[]>,
+      throttlingRulesSetting: Common.Settings.Setting<SDK.NetworkManager.ThrottlingRule[]>) {
     this.populateCallback = populateCallback;
     this.selectCallback = selectCallback;
     this.customNetworkConditionsSetting = customNetworkConditionsSetting;
     this.customNetworkConditionsSetting.addChangeListener(this.populateOptions, this);
+    this.throttlingRulesSetting = throttlingRulesSetting;
+    this.throttlingRulesSetting.addChangeListener(this.populateOptions, this);
     SDK.NetworkManager.MultitargetNetworkManager.instance().addEventListener(
         SDK.NetworkManager.MultitargetNetworkManager.Events.ConditionsChanged, () => {
           this.networkConditionsChanged();
@@ -59,7 +65,8 @@ export class NetworkThrottlingSelector {
     const disabledGroup = {title: i18nString(UIStrings.disabled), items: [SDK.NetworkManager.NoThrottlingConditions]};
     const presetsGroup = {title: i18nString(UIStrings.presets), items: ThrottlingPresets.networkPresets};
     const customGroup = {title: i18nString(UIStrings.custom), items: this.customNetworkConditionsSetting.get()};
-    this.options = this.populateCallback([disabledGroup, presetsGroup, customGroup]);
+    const rules = this.throttlingRulesSetting.get().filter(rule => rule.enabled);
+    this.options = this.populateCallback([disabledGroup, presetsGroup, customGroup], rules);
     if (!this.networkConditionsChanged()) {
       for (let i = this.options.length - 1; i >= 0; i--) {
         if (this.options[i]) {
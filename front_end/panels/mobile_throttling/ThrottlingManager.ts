@@ -84,6 +84,10 @@ const UIStrings = {
   *@description Icon title in Throttling Manager of the Performance panel
   */
   hardwareConcurrencyIsEnabled: 'Hardware concurrency override is enabled',
+  /**
+  *@description Title of a group of options in the network throttling select, listing the rules that throttle specific hosts
+  */
+  hostRules: 'Host rules',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/mobile_throttling/ThrottlingManager.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
@@ -93,6 +97,7 @@ export class ThrottlingManager {
   private readonly cpuThrottlingControls: Set<UI.Toolbar.ToolbarComboBox>;
   private readonly cpuThrottlingRates: number[];
   private readonly customNetworkConditionsSetting: Common.Settings.Setting<SDK.NetworkManager.Conditions[]>;
+  private readonly throttlingRulesSetting: Common.Settings.Setting<SDK.NetworkManager.ThrottlingRule[]>;
   private readonly currentNetworkThrottlingConditionsSetting: Common.Settings.Setting<SDK.NetworkManager.Conditions>;
   private lastNetworkThrottlingConditions!: SDK.NetworkManager.Conditions;
   private readonly cpuThrottlingManager: SDK.CPUThrottlingManager.CPUThrottlingManager;
@@ -107,6 +112,9 @@ export class ThrottlingManager {
     this.cpuThrottlingControls = new Set();
     this.cpuThrottlingRates = ThrottlingPresets.cpuThrottlingPresets;
     this.customNetworkConditionsSetting = Common.Settings.Settings.instance().moduleSetting('customNetworkConditions');
+    this.throttlingRulesSetting = Common.Settings.Settings.instance().moduleSetting('networkThrottlingRules');
+    this.throttlingRulesSetting.addChangeListener(this.throttlingRulesChanged, this);
+    this.throttlingRulesChanged();
     this.currentNetworkThrottlingConditionsSetting = Common.Settings.Settings.instance().createSetting(
         'preferredNetworkCondition', SDK.NetworkManager.NoThrottlingConditions);
 
@@ -134,13 +142,19 @@ export class ThrottlingManager {
     return throttlingManagerInstance;
   }
 
+  private throttlingRulesChanged(): void {
+    SDK.NetworkManager.MultitargetNetworkManager.instance().setThrottlingRules(this.throttlingRulesSetting.get());
+  }
+
   decorateSelectWithNetworkThrottling(selectElement: HTMLSelectElement): NetworkThrottlingSelector {
     let options: (SDK.NetworkManager.Conditions|null)[] = [];
-    const selector = new NetworkThrottlingSelector(populate, select, this.customNetworkConditionsSetting);
+    const selector = new NetworkThrottlingSelector(
+        populate, select, this.customNetworkConditionsSetting, this.throttlingRulesSetting);
     selectElement.addEventListener('change', optionSelected, false);
     return selector;
 
-    function populate(groups: NetworkThrottlingConditionsGroup[]): (SDK.NetworkManager.Conditions|null)[] {
+    function populate(groups: NetworkThrottlingConditionsGroup[], rules: SDK.NetworkManager.ThrottlingRule[]):
+        (SDK.NetworkManager.Conditions|null)[] {
       selectElement.removeChildren();
       options = [];
       for (let i = 0; i < groups.length; ++i) {
@@ -162,17 +176,26 @@ export class ThrottlingManager {
           options.push(null);
         }
       }
+      // Rules apply on top of the selected conditions, selecting one reveals the rules in the settings.
+      if (rules.length) {
+        const groupElement = selectElement.createChild('optgroup') as HTMLOptGroupElement;
+        groupElement.label = i18nString(UIStrings.hostRules);
+        for (const rule of rules) {
+          const title = typeof rule.conditions.title === 'function' ? rule.conditions.title() : rule.conditions.title;
+          const text = i18nString(UIStrings.sS, {PH1: rule.hostPattern, PH2: title});
+          groupElement.appendChild(new Option(text, text));
+          options.push(null);
+        }
+      }
       return options;
     }
 
     function optionSelected(): void {
-      if (selectElement.selectedIndex === selectElement.options.length - 1) {
-        selector.revealAndUpdate();
+      const option = options[selectElement.selectedIndex];
+      if (option) {
+        selector.optionSelected(option);
       } else {
-        const option = options[selectElement.selectedIndex];
-        if (option) {
-          selector.optionSelected(option);
-        }
+        selector.revealAndUpdate();
       }
     }
 
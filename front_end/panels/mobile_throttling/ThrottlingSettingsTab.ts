@@ -4,12 +4,15 @@
 
 import * as Common from '../../core/common/common.js';
 import * as i18n from '../../core/i18n/i18n.js';
+import * as Protocol from '../../generated/protocol.js';
 
 import throttlingSettingsTabStyles from './throttlingSettingsTab.css.js';
 
 import type * as SDK from '../../core/sdk/sdk.js';
 import * as UI from '../../ui/legacy/legacy.js';
 
+import {ThrottlingPresets} from './ThrottlingPresets.js';
+
 const UIStrings = {
   /**
   *@description Text in Throttling Settings Tab of the Network panel
@@ -43,6 +46,27 @@ const UIStrings = {
   */
   latency: 'Latency',
   /**
+  * @description Label for a textbox that sets the percentage of requests that fail in the Throttling Settings Tab.
+  */
+  packetLoss: 'Packet loss',
+  /**
+  * @description Label for a textbox that sets the maximum random delay added to each request in the Throttling Settings Tab.
+  */
+  jitter: 'Jitter',
+  /**
+  * @description Label for a select that sets the connection type reported to the page in the Throttling Settings Tab.
+  */
+  connectionType: 'Connection type',
+  /**
+  * @description Option of the connection type select in the Throttling Settings Tab, to derive the connection type from the profile name.
+  */
+  automatic: 'Automatic',
+  /**
+  * @description A percentage of requests
+  * @example {2} PH1
+  */
+  dPercent: '{PH1}%',
+  /**
   *@description Text in Throttling Settings Tab of the Network panel
   */
   optional: 'optional',
@@ -65,6 +89,43 @@ const UIStrings = {
   */
   latencyMustBeAnIntegerBetweenSms: 'Latency must be an integer between {PH1} `ms` to {PH2} `ms` inclusive',
   /**
+  *@description Error message for Packet loss input in Throttling pane of the Settings
+  *@example {0} PH1
+  *@example {100} PH2
+  */
+  packetLossMustBeANumberBetween: 'Packet loss must be a number between {PH1}% to {PH2}% inclusive',
+  /**
+  *@description Error message for Jitter input in Throttling pane of the Settings
+  *@example {0} PH1
+  *@example {1000000} PH2
+  */
+  jitterMustBeAnIntegerBetweenSms: 'Jitter must be an integer between {PH1} `ms` to {PH2} `ms` inclusive',
+  /**
+  *@description Header of the list of rules that throttle requests to specific hosts in the Throttling Settings Tab
+  */
+  networkThrottlingRules: 'Network Throttling Rules',
+  /**
+  *@description Explanation of the network throttling rules in the Throttling Settings Tab
+  */
+  rulesApplyToMatchingHosts:
+      'Rules apply the conditions of a profile to the requests to matching hosts, in addition to the selected throttling.',
+  /**
+  *@description Text of the button that adds a network throttling rule in the Throttling Settings Tab
+  */
+  addRule: 'Add rule...',
+  /**
+  *@description Label for a textbox that sets the hosts a network throttling rule applies to, e.g. `*.cdn.example.com`
+  */
+  hostPattern: 'Host pattern',
+  /**
+  *@description Label for a select that sets the throttling profile that a network throttling rule applies
+  */
+  profile: 'Profile',
+  /**
+  *@description Error message for the Host pattern input in Throttling pane of the Settings
+  */
+  hostPatternMustBeAHostName: 'Host pattern must be a host name, in which `*` matches any characters',
+  /**
   * @description Text in Throttling Settings Tab of the Network panel, indicating the download or
   * upload speed that will be applied in kilobits per second.
   * @example {25} PH1
@@ -87,6 +148,7 @@ export class ThrottlingSettingsTab extends UI.Widget.VBox implements
   private readonly list: UI.ListWidget.ListWidget<SDK.NetworkManager.Conditions>;
   private readonly customSetting: Common.Settings.Setting<SDK.NetworkManager.Conditions[]>;
   private editor?: UI.ListWidget.Editor<SDK.NetworkManager.Conditions>;
+  private readonly rulesList: ThrottlingRulesList;
   constructor() {
     super(true);
 
@@ -106,6 +168,19 @@ export class ThrottlingSettingsTab extends UI.Widget.VBox implements
     this.customSetting = Common.Settings.Settings.instance().moduleSetting('customNetworkConditions');
     this.customSetting.addChangeListener(this.conditionsUpdated, this);
 
+    const rulesHeader = this.contentElement.createChild('div', 'header rules-header');
+    rulesHeader.textContent = i18nString(UIStrings.networkThrottlingRules);
+    UI.ARIAUtils.markAsHeading(rulesHeader, 1);
+    this.contentElement.createChild('div', 'rules-description').textContent =
+        i18nString(UIStrings.rulesApplyToMatchingHosts);
+
+    this.rulesList = new ThrottlingRulesList(
+        Common.Settings.Settings.instance().moduleSetting('networkThrottlingRules'), this.customSetting);
+    const addRuleButton = UI.UIUtils.createTextButton(
+        i18nString(UIStrings.addRule), () => this.rulesList.addRule(), 'add-conditions-button');
+    this.contentElement.appendChild(addRuleButton);
+    this.rulesList.list.show(this.contentElement);
+
     this.setDefaultFocusedElement(addButton);
   }
 
@@ -121,8 +196,10 @@ export class ThrottlingSettingsTab extends UI.Widget.VBox implements
   wasShown(): void {
     super.wasShown();
     this.list.registerCSSFiles([throttlingSettingsTabStyles]);
+    this.rulesList.list.registerCSSFiles([throttlingSettingsTabStyles]);
     this.registerCSSFiles([throttlingSettingsTabStyles]);
     this.conditionsUpdated();
+    this.rulesList.rulesUpdated();
   }
 
   private conditionsUpdated(): void {
@@ -155,6 +232,14 @@ export class ThrottlingSettingsTab extends UI.Widget.VBox implements
     element.createChild('div', 'conditions-list-separator');
     element.createChild('div', 'conditions-list-text').textContent =
         i18nString(UIStrings.dms, {PH1: conditions.latency});
+    element.createChild('div', 'conditions-list-separator');
+    element.createChild('div', 'conditions-list-text').textContent =
+        conditions.packetLoss ? i18nString(UIStrings.dPercent, {PH1: conditions.packetLoss}) : '';
+    element.createChild('div', 'conditions-list-separator');
+    element.createChild('div', 'conditions-list-text').textContent =
+        conditions.jitter ? i18nString(UIStrings.dms, {PH1: conditions.jitter}) : '';
+    element.createChild('div', 'conditions-list-separator');
+    element.createChild('div', 'conditions-list-text').textContent = conditions.connectionType || '';
     return element;
   }
 
@@ -180,6 +265,13 @@ export class ThrottlingSettingsTab extends UI.Widget.VBox implements
     conditions.upload = upload ? parseInt(upload, 10) * (1000 / 8) : -1;
     const latency = editor.control('latency').value.trim();
     conditions.latency = latency ? parseInt(latency, 10) : 0;
+    const packetLoss = editor.control('packetLoss').value.trim();
+    conditions.packetLoss = packetLoss ? Number(packetLoss) : undefined;
+    const jitter = editor.control('jitter').value.trim();
+    conditions.jitter = jitter ? parseInt(jitter, 10) : undefined;
+    const connectionType = editor.control('connectionType').value;
+    conditions.connectionType =
+        connectionType === automaticConnectionType ? undefined : connectionType as Protocol.Network.ConnectionType;
 
     const list = this.customSetting.get();
     if (isNew) {
@@ -195,6 +287,9 @@ export class ThrottlingSettingsTab extends UI.Widget.VBox implements
     editor.control('download').value = conditions.download <= 0 ? '' : String(conditions.download / (1000 / 8));
     editor.control('upload').value = conditions.upload <= 0 ? '' : String(conditions.upload / (1000 / 8));
     editor.control('latency').value = conditions.latency ? String(conditions.latency) : '';
+    editor.control('packetLoss').value = conditions.packetLoss ? String(conditions.packetLoss) : '';
+    editor.control('jitter').value = conditions.jitter ? String(conditions.jitter) : '';
+    editor.control('connectionType').value = conditions.connectionType || automaticConnectionType;
     return editor;
   }
 
@@ -227,6 +322,18 @@ export class ThrottlingSettingsTab extends UI.Widget.VBox implements
     const latencyStr = i18nString(UIStrings.latency);
     const latencyLabelText = latencyLabel.createChild('div', 'conditions-list-title-text');
     latencyLabelText.textContent = latencyStr;
+    titles.createChild('div', 'conditions-list-separator conditions-list-separator-invisible');
+    const packetLossStr = i18nString(UIStrings.packetLoss);
+    titles.createChild('div', 'conditions-list-text').createChild('div', 'conditions-list-title-text').textContent =
+        packetLossStr;
+    titles.createChild('div', 'conditions-list-separator conditions-list-separator-invisible');
+    const jitterStr = i18nString(UIStrings.jitter);
+    titles.createChild('div', 'conditions-list-text').createChild('div', 'conditions-list-title-text').textContent =
+        jitterStr;
+    titles.createChild('div', 'conditions-list-separator conditions-list-separator-invisible');
+    const connectionTypeStr = i18nString(UIStrings.connectionType);
+    titles.createChild('div', 'conditions-list-text').createChild('div', 'conditions-list-title-text').textContent =
+        connectionTypeStr;
 
     const fields = content.createChild('div', 'conditions-edit-row');
     const nameInput = editor.createInput('title', 'text', '', titleValidator);
@@ -260,6 +367,31 @@ export class ThrottlingSettingsTab extends UI.Widget.VBox implements
     const latencyOptional = cell.createChild('div', 'conditions-edit-optional');
     latencyOptional.textContent = optionalStr;
     UI.ARIAUtils.setDescription(latencyInput, optionalStr);
+    fields.createChild('div', 'conditions-list-separator conditions-list-separator-invisible');
+
+    cell = fields.createChild('div', 'conditions-list-text');
+    const packetLossInput = editor.createInput('packetLoss', 'text', '%', packetLossValidator);
+    UI.ARIAUtils.setAccessibleName(packetLossInput, packetLossStr);
+    cell.appendChild(packetLossInput);
+    cell.createChild('div', 'conditions-edit-optional').textContent = optionalStr;
+    UI.ARIAUtils.setDescription(packetLossInput, optionalStr);
+    fields.createChild('div', 'conditions-list-separator conditions-list-separator-invisible');
+
+    cell = fields.createChild('div', 'conditions-list-text');
+    const jitterInput = editor.createInput('jitter', 'text', i18n.i18n.lockedString('ms'), jitterValidator);
+    UI.ARIAUtils.setAccessibleName(jitterInput, jitterStr);
+    cell.appendChild(jitterInput);
+    cell.createChild('div', 'conditions-edit-optional').textContent = optionalStr;
+    UI.ARIAUtils.setDescription(jitterInput, optionalStr);
+    fields.createChild('div', 'conditions-list-separator conditions-list-separator-invisible');
+
+    cell = fields.createChild('div', 'conditions-list-text');
+    const connectionTypes = [automaticConnectionType, ...ConnectionTypes];
+    const connectionTypeSelect = editor.createSelect('connectionType', connectionTypes, () => {
+      return {valid: true, errorMessage: undefined};
+    }, connectionTypeStr);
+    connectionTypeSelect.options[0].textContent = i18nString(UIStrings.automatic);
+    cell.appendChild(connectionTypeSelect);
 
     return editor;
 
@@ -306,7 +438,170 @@ export class ThrottlingSettingsTab extends UI.Widget.VBox implements
       }
       return {valid, errorMessage: undefined};
     }
+
+    function packetLossValidator(
+        _item: SDK.NetworkManager.Conditions, _index: number,
+        input: UI.ListWidget.EditorControl): UI.ListWidget.ValidatorResult {
+      const minPacketLoss = 0;
+      const maxPacketLoss = 100;
+      const parsedValue = Number(input.value.trim());
+      const valid = !Number.isNaN(parsedValue) && parsedValue >= minPacketLoss && parsedValue <= maxPacketLoss;
+      if (!valid) {
+        const errorMessage =
+            i18nString(UIStrings.packetLossMustBeANumberBetween, {PH1: minPacketLoss, PH2: maxPacketLoss});
+        return {valid, errorMessage};
+      }
+      return {valid, errorMessage: undefined};
+    }
+
+    function jitterValidator(_item: SDK.NetworkManager.Conditions, _index: number, input: UI.ListWidget.EditorControl):
+        UI.ListWidget.ValidatorResult {
+      const minJitter = 0;
+      const maxJitter = 1000000;
+      const parsedValue = Number(input.value.trim());
+      const valid = Number.isInteger(parsedValue) && parsedValue >= minJitter && parsedValue <= maxJitter;
+      if (!valid) {
+        const errorMessage = i18nString(UIStrings.jitterMustBeAnIntegerBetweenSms, {PH1: minJitter, PH2: maxJitter});
+        return {valid, errorMessage};
+      }
+      return {valid, errorMessage: undefined};
+    }
+  }
+}
+
+class ThrottlingRulesList implements UI.ListWidget.Delegate<SDK.NetworkManager.ThrottlingRule> {
+  readonly list: UI.ListWidget.ListWidget<SDK.NetworkManager.ThrottlingRule>;
+  private readonly rulesSetting: Common.Settings.Setting<SDK.NetworkManager.ThrottlingRule[]>;
+  private readonly customSetting: Common.Settings.Setting<SDK.NetworkManager.Conditions[]>;
+  private rules: SDK.NetworkManager.ThrottlingRule[];
+
+  constructor(
+      rulesSetting: Common.Settings.Setting<SDK.NetworkManager.ThrottlingRule[]>,
+      customSetting: Common.Settings.Setting<SDK.NetworkManager.Conditions[]>) {
+    this.list = new UI.ListWidget.ListWidget(this);
+    this.list.element.classList.add('conditions-list');
+    this.rulesSetting = rulesSetting;
+    this.rulesSetting.addChangeListener(this.rulesUpdated, this);
+    this.customSetting = customSetting;
+    this.rules = [];
+  }
+
+  rulesUpdated(): void {
+    this.list.clear();
+    this.rules = this.rulesSetting.get();
+    for (const rule of this.rules) {
+      this.list.appendItem(rule, true);
+    }
+    this.list.appendSeparator();
+  }
+
+  addRule(): void {
+    const [profile] = this.profiles();
+    this.list.addNewItem(
+        this.rulesSetting.get().length,
+        {hostPattern: '', conditions: {...profile, title: profileTitle(profile)}, enabled: true});
+  }
+
+  private profiles(): SDK.NetworkManager.Conditions[] {
+    return [...ThrottlingPresets.networkPresets, ...this.customSetting.get()];
   }
+
+  renderItem(rule: SDK.NetworkManager.ThrottlingRule, editable: boolean): Element {
+    const element = document.createElement('div');
+    element.classList.add('conditions-list-item');
+    const checkbox = element.createChild('input', 'rule-checkbox') as HTMLInputElement;
+    checkbox.type = 'checkbox';
+    checkbox.checked = rule.enabled;
+    checkbox.disabled = !editable;
+    UI.ARIAUtils.setAccessibleName(checkbox, rule.hostPattern);
+    checkbox.addEventListener('click', event => {
+      event.consume();
+      const rules = [...this.rules];
+      rules.splice(rules.indexOf(rule), 1, {...rule, enabled: !rule.enabled});
+      this.rulesSetting.set(rules);
+    });
+    const title = element.createChild('div', 'conditions-list-text conditions-list-title');
+    const titleText = title.createChild('div', 'conditions-list-title-text');
+    titleText.textContent = rule.hostPattern;
+    UI.Tooltip.Tooltip.install(titleText, rule.hostPattern);
+    element.createChild('div', 'conditions-list-separator');
+    element.createChild('div', 'conditions-list-text').textContent = profileTitle(rule.conditions);
+    return element;
+  }
+
+  removeItemRequested(_rule: SDK.NetworkManager.ThrottlingRule, index: number): void {
+    const rules = this.rulesSetting.get();
+    rules.splice(index, 1);
+    this.rulesSetting.set(rules);
+  }
+
+  commitEdit(
+      rule: SDK.NetworkManager.ThrottlingRule, editor: UI.ListWidget.Editor<SDK.NetworkManager.ThrottlingRule>,
+      isNew: boolean): void {
+    rule.hostPattern = editor.control('hostPattern').value.trim();
+    const profileName = editor.control('profile').value;
+    const profile = this.profiles().find(profile => profileTitle(profile) === profileName);
+    if (profile) {
+      // Rules keep a copy of the profile with a plain title, as the setting is serialized.
+      rule.conditions = {...profile, title: profileName};
+    }
+
+    const rules = this.rulesSetting.get();
+    if (isNew) {
+      rules.push(rule);
+    }
+    this.rulesSetting.set(rules);
+  }
+
+  beginEdit(rule: SDK.NetworkManager.ThrottlingRule): UI.ListWidget.Editor<SDK.NetworkManager.ThrottlingRule> {
+    // The editor is not reused, as its options list the current custom profiles.
+    const editor = new UI.ListWidget.Editor<SDK.NetworkManager.ThrottlingRule>();
+    const content = editor.contentElement();
+
+    const titles = content.createChild('div', 'conditions-edit-row');
+    const hostPatternStr = i18nString(UIStrings.hostPattern);
+    titles.createChild('div', 'conditions-list-text conditions-list-title')
+        .createChild('div', 'conditions-list-title-text')
+        .textContent = hostPatternStr;
+    titles.createChild('div', 'conditions-list-separator conditions-list-separator-invisible');
+    const profileStr = i18nString(UIStrings.profile);
+    titles.createChild('div', 'conditions-list-text').createChild('div', 'conditions-list-title-text').textContent =
+        profileStr;
+
+    const fields = content.createChild('div', 'conditions-edit-row');
+    const hostPatternInput = editor.createInput('hostPattern', 'text', '*.cdn.example.com', (_rule, _index, input) => {
+      const valid = /^[^\s/:]+$/.test(input.value.trim());
+      return {valid, errorMessage: valid ? undefined : i18nString(UIStrings.hostPatternMustBeAHostName)};
+    });
+    UI.ARIAUtils.setAccessibleName(hostPatternInput, hostPatternStr);
+    fields.createChild('div', 'conditions-list-text conditions-list-title').appendChild(hostPatternInput);
+    fields.createChild('div', 'conditions-list-separator conditions-list-separator-invisible');
+    const profileSelect = editor.createSelect('profile', this.profiles().map(profileTitle), () => {
+      return {valid: true, errorMessage: undefined};
+    }, profileStr);
+    fields.createChild('div', 'conditions-list-text').appendChild(profileSelect);
+
+    hostPatternInput.value = rule.hostPattern;
+    profileSelect.value = profileTitle(rule.conditions);
+    return editor;
+  }
+}
+
+const automaticConnectionType = '';
+
+const ConnectionTypes: Protocol.Network.ConnectionType[] = [
+  Protocol.Network.ConnectionType.Cellular2g,
+  Protocol.Network.ConnectionType.Cellular3g,
+  Protocol.Network.ConnectionType.Cellular4g,
+  Protocol.Network.ConnectionType.Bluetooth,
+  Protocol.Network.ConnectionType.Ethernet,
+  Protocol.Network.ConnectionType.Wifi,
+  Protocol.Network.ConnectionType.Wimax,
+  Protocol.Network.ConnectionType.Other,
+];
+
+function profileTitle(conditions: SDK.NetworkManager.Conditions): string {
+  return typeof conditions.title === 'function' ? conditions.title() : conditions.title;
 }
 
 function throughputText(throughput: number): string {
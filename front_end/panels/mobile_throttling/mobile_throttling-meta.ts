@@ -68,6 +68,7 @@ UI.ViewManager.registerViewExtension({
   },
   settings: [
     'customNetworkConditions',
+    'networkThrottlingRules',
   ],
 });
 
@@ -133,3 +134,10 @@ Common.Settings.registerSettingExtension({
   settingType: Common.Settings.SettingType.ARRAY,
   defaultValue: [],
 });
+
+Common.Settings.registerSettingExtension({
+  storageType: Common.Settings.SettingStorageType.Synced,
+  settingName: 'networkThrottlingRules',
+  settingType: Common.Settings.SettingType.ARRAY,
+  defaultValue: [],
+});
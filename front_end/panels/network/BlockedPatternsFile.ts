@@ -0,0 +1,100 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as i18n from '../../core/i18n/i18n.js';
+import type * as SDK from '../../core/sdk/sdk.js';
+import type * as Protocol from '../../generated/protocol.js';
+import * as Components from '../../ui/legacy/components/utils/utils.js';
+
+const UIStrings = {
+  /**
+  *@description Error message when a file imported in the Network request blocking tool does not contain blocking patterns
+  */
+  notABlockedPatternsFile: 'The file does not contain network request blocking patterns.',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/network/BlockedPatternsFile.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+export const BlockedPatternsFileVersion = 1;
+
+/**
+ * The JSON format in which the patterns of the Network request blocking tool, including their
+ * mocked responses, are shared.
+ */
+export interface BlockedPatternsFile {
+  version: number;
+  patterns: SDK.NetworkManager.BlockedPattern[];
+}
+
+export function createBlockedPatternsFile(patterns: SDK.NetworkManager.BlockedPattern[]): BlockedPatternsFile {
+  return {version: BlockedPatternsFileVersion, patterns};
+}
+
+function isHeaderEntry(value: unknown): value is Protocol.Fetch.HeaderEntry {
+  const header = value as Protocol.Fetch.HeaderEntry;
+  return Boolean(header) && typeof header.name === 'string' && typeof header.value === 'string';
+}
+
+// The bounds are the same for the editor and for imported files.
+export function isValidMockedStatusCode(statusCode: number): boolean {
+  return Number.isInteger(statusCode) && statusCode >= 100 && statusCode <= 599;
+}
+
+export function isValidMockedDelay(delay: number): boolean {
+  return Number.isInteger(delay) && delay >= 0 && delay <= 3600000;
+}
+
+function isMockedResponse(value: unknown): value is SDK.NetworkManager.MockedResponse {
+  const response = value as SDK.NetworkManager.MockedResponse;
+  return Boolean(response) && isValidMockedStatusCode(response.statusCode) && Array.isArray(response.headers) &&
+      response.headers.every(isHeaderEntry) && typeof response.body === 'string' && isValidMockedDelay(response.delay);
+}
+
+function isBlockedPattern(value: unknown): value is SDK.NetworkManager.BlockedPattern {
+  const pattern = value as SDK.NetworkManager.BlockedPattern;
+  return Boolean(pattern) && typeof pattern.url === 'string' && Boolean(pattern.url) &&
+      typeof pattern.enabled === 'boolean' &&
+      (pattern.mockedResponse === undefined || isMockedResponse(pattern.mockedResponse));
+}
+
+export function parseBlockedPatternsFile(text: string): SDK.NetworkManager.BlockedPattern[] {
+  const json = JSON.parse(text);
+  if (!json || typeof json !== 'object' || json.version !== BlockedPatternsFileVersion ||
+      !Array.isArray(json.patterns) || !json.patterns.every(isBlockedPattern)) {
+    throw new Error(i18nString(UIStrings.notABlockedPatternsFile));
+  }
+  return json.patterns.map(({url, enabled, mockedResponse}: SDK.NetworkManager.BlockedPattern) => {
+    return mockedResponse ? {url, enabled, mockedResponse} : {url, enabled};
+  });
+}
+
+// Imported patterns replace the existing patterns with the same URL pattern and are added after the others.
+export function mergeBlockedPatterns(
+    patterns: SDK.NetworkManager.BlockedPattern[],
+    importedPatterns: SDK.NetworkManager.BlockedPattern[]): SDK.NetworkManager.BlockedPattern[] {
+  const importedURLs = new Set(importedPatterns.map(pattern => pattern.url));
+  return [...patterns.filter(pattern => !importedURLs.has(pattern.url)), ...importedPatterns];
+}
+
+// Headers are edited as lines of `name: value`.
+export function parseMockedHeaders(text: string): Protocol.Fetch.HeaderEntry[] {
+  const headers = [];
+  for (const line of text.split('\n')) {
+    const separatorIndex = line.indexOf(':');
+    const name = (separatorIndex === -1 ? line : line.substring(0, separatorIndex)).trim();
+    if (name) {
+      headers.push({name, value: separatorIndex === -1 ? '' : line.substring(separatorIndex + 1).trim()});
+    }
+  }
+  return headers;
+}
+
+export function mockedHeadersText(headers: Protocol.Fetch.HeaderEntry[]): string {
+  return headers.map(header => `${header.name}: ${header.value}`).join('\n');
+}
+
+export async function saveBlockedPatternsFile(patterns: SDK.NetworkManager.BlockedPattern[]): Promise<void> {
+  await Components.FileImportExport.saveToTimestampedFile(
+      'request-blocking', 'json', JSON.stringify(createBlockedPatternsFile(patterns), null, '  '));
+}
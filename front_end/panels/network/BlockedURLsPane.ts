@@ -6,8 +6,18 @@ import * as Common from '../../core/common/common.js';
 import * as i18n from '../../core/i18n/i18n.js';
 import * as Platform from '../../core/platform/platform.js';
 import * as SDK from '../../core/sdk/sdk.js';
+import * as Components from '../../ui/legacy/components/utils/utils.js';
 import * as UI from '../../ui/legacy/legacy.js';
 
+import {
+  isValidMockedDelay,
+  isValidMockedStatusCode,
+  mergeBlockedPatterns,
+  mockedHeadersText,
+  parseBlockedPatternsFile,
+  parseMockedHeaders,
+  saveBlockedPatternsFile,
+} from './BlockedPatternsFile.js';
 import blockedURLsPaneStyles from './blockedURLsPane.css.js';
 
 const UIStrings = {
@@ -53,11 +63,94 @@ const UIStrings = {
   *@description Message to be announced for a when list item is removed from list widget
   */
   itemDeleted: 'Item successfully deleted',
+  /**
+  *@description Tooltip text of the button that saves the request blocking patterns of the Network request blocking tool to a JSON file
+  */
+  exportPatterns: 'Export patterns',
+  /**
+  *@description Tooltip text of the button that loads request blocking patterns from a JSON file into the Network request blocking tool
+  */
+  importPatterns: 'Import patterns',
+  /**
+  *@description Error message in the Console when request blocking patterns cannot be imported from a file
+  *@example {patterns.json} PH1
+  *@example {Unexpected end of JSON input} PH2
+  */
+  couldNotImportPatternsFromSS: 'Could not import network request blocking patterns from {PH1}: {PH2}',
+  /**
+  *@description Label of the select that chooses what a pattern does to the requests it matches in the Network request blocking tool
+  */
+  action: 'Action',
+  /**
+  *@description Option of the Network request blocking tool to block the requests that match a pattern
+  */
+  blockRequests: 'Block requests',
+  /**
+  *@description Option of the Network request blocking tool to fulfil the requests that match a pattern with a configured response
+  */
+  mockResponse: 'Mock response',
+  /**
+  *@description Option of the Network request blocking tool to delay the requests that match a pattern
+  */
+  delayRequests: 'Delay requests',
+  /**
+  *@description Label of the input for the status code of a mocked response in the Network request blocking tool
+  */
+  statusCode: 'Status code',
+  /**
+  *@description Label of the input for the number of milliseconds by which the Network request blocking tool delays requests
+  */
+  delayMs: 'Delay (ms)',
+  /**
+  *@description Label of the text area for the headers of a mocked response in the Network request blocking tool
+  */
+  responseHeaders: 'Response headers, one `name: value` per line',
+  /**
+  *@description Label of the text area for the body of a mocked response in the Network request blocking tool
+  */
+  responseBody: 'Response body',
+  /**
+  *@description Error text for the status code input of a mocked response in the Network request blocking tool
+  */
+  statusCodeMustBeBetween: 'Status code must be an integer between 100 and 599.',
+  /**
+  *@description Error text for the delay input in the Network request blocking tool
+  */
+  delayMustBeBetween: 'Delay must be an integer between 0 and 3600000 `ms`.',
+  /**
+  *@description Description of a pattern that mocks the response of the requests it matches in the Network request blocking tool
+  *@example {503} PH1
+  */
+  mockedWithStatusD: 'mocked with {PH1}',
+  /**
+  *@description Description of a pattern that mocks the response of the requests it matches after a delay in the Network request blocking tool
+  *@example {503} PH1
+  *@example {200} PH2
+  */
+  mockedWithStatusDAfterDMs: 'mocked with {PH1} after {PH2} `ms`',
+  /**
+  *@description Description of a pattern that delays the requests it matches in the Network request blocking tool
+  *@example {200} PH1
+  */
+  delayedByDMs: 'delayed by {PH1} `ms`',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/network/BlockedURLsPane.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
 export let blockedURLsPaneInstance: BlockedURLsPane|null = null;
 
+const enum PatternAction {
+  Block = 'block',
+  Mock = 'mock',
+  Delay = 'delay',
+}
+
+function patternAction(pattern: SDK.NetworkManager.BlockedPattern): PatternAction {
+  if (!pattern.mockedResponse) {
+    return PatternAction.Block;
+  }
+  return pattern.mockedResponse.statusCode ? PatternAction.Mock : PatternAction.Delay;
+}
+
 export class BlockedURLsPane extends UI.Widget.VBox implements
     UI.ListWidget.Delegate<SDK.NetworkManager.BlockedPattern> {
   private manager: SDK.NetworkManager.MultitargetNetworkManager;
@@ -65,6 +158,10 @@ export class BlockedURLsPane extends UI.Widget.VBox implements
   private readonly enabledCheckbox: UI.Toolbar.ToolbarCheckbox;
   private readonly list: UI.ListWidget.ListWidget<SDK.NetworkManager.BlockedPattern>;
   private editor: UI.ListWidget.Editor<SDK.NetworkManager.BlockedPattern>|null;
+  private headersTextArea: HTMLTextAreaElement|null;
+  private bodyTextArea: HTMLTextAreaElement|null;
+  private updateEditorRows: (() => void)|null;
+  private readonly fileSelectorElement: HTMLInputElement;
   private blockedCountForUrl: Map<string, number>;
   private readonly updateThrottler: Common.Throttler.Throttler;
 
@@ -87,6 +184,18 @@ export class BlockedURLsPane extends UI.Widget.VBox implements
     const clearButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.removeAllPatterns), 'largeicon-clear');
     clearButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, this.removeAll, this);
     this.toolbar.appendToolbarItem(clearButton);
+    this.toolbar.appendSeparator();
+    const importButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.importPatterns), 'largeicon-load');
+    importButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => this.fileSelectorElement.click());
+    this.toolbar.appendToolbarItem(importButton);
+    const exportButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.exportPatterns), 'largeicon-download');
+    exportButton.addEventListener(
+        UI.Toolbar.ToolbarButton.Events.Click, () => saveBlockedPatternsFile(this.manager.blockedPatterns()));
+    this.toolbar.appendToolbarItem(exportButton);
+
+    this.fileSelectorElement =
+        Components.FileImportExport.createImportFileSelectorElement(file => void this.importPatterns(file));
+    this.contentElement.appendChild(this.fileSelectorElement);
 
     this.list = new UI.ListWidget.ListWidget(this);
     this.list.element.classList.add('blocked-urls');
@@ -95,6 +204,9 @@ export class BlockedURLsPane extends UI.Widget.VBox implements
     this.list.show(this.contentElement);
 
     this.editor = null;
+    this.headersTextArea = null;
+    this.bodyTextArea = null;
+    this.updateEditorRows = null;
 
     this.blockedCountForUrl = new Map();
     SDK.TargetManager.TargetManager.instance().addModelListener(
@@ -145,7 +257,9 @@ export class BlockedURLsPane extends UI.Widget.VBox implements
     checkbox.checked = pattern.enabled;
     checkbox.disabled = !editable;
     element.createChild('div', 'blocked-url-label').textContent = pattern.url;
-    element.createChild('div', 'blocked-url-count').textContent = i18nString(UIStrings.dBlocked, {PH1: count});
+    element.createChild('div', 'blocked-url-count').textContent = pattern.mockedResponse ?
+        this.mockedResponseText(pattern.mockedResponse) :
+        i18nString(UIStrings.dBlocked, {PH1: count});
     if (editable) {
       element.addEventListener('click', event => this.togglePattern(pattern, event));
       checkbox.addEventListener('click', event => this.togglePattern(pattern, event));
@@ -153,13 +267,38 @@ export class BlockedURLsPane extends UI.Widget.VBox implements
     return element;
   }
 
+  private mockedResponseText(mockedResponse: SDK.NetworkManager.MockedResponse): string {
+    const {statusCode, delay} = mockedResponse;
+    if (!statusCode) {
+      return i18nString(UIStrings.delayedByDMs, {PH1: delay});
+    }
+    if (!delay) {
+      return i18nString(UIStrings.mockedWithStatusD, {PH1: statusCode});
+    }
+    return i18nString(UIStrings.mockedWithStatusDAfterDMs, {PH1: statusCode, PH2: delay});
+  }
+
   private togglePattern(pattern: SDK.NetworkManager.BlockedPattern, event: Event): void {
     event.consume(true);
     const patterns = this.manager.blockedPatterns();
-    patterns.splice(patterns.indexOf(pattern), 1, {enabled: !pattern.enabled, url: pattern.url});
+    patterns.splice(patterns.indexOf(pattern), 1, {...pattern, enabled: !pattern.enabled});
     this.manager.setBlockedPatterns(patterns);
   }
 
+  private async importPatterns(file: File): Promise<void> {
+    let importedPatterns;
+    try {
+      importedPatterns = parseBlockedPatternsFile(await file.text());
+    } catch (error) {
+      Common.Console.Console.instance().error(i18nString(
+          UIStrings.couldNotImportPatternsFromSS,
+          {PH1: file.name, PH2: error instanceof Error ? error.message : String(error)}));
+      return;
+    }
+    this.manager.setBlockingEnabled(true);
+    this.manager.setBlockedPatterns(mergeBlockedPatterns(this.manager.blockedPatterns(), importedPatterns));
+  }
+
   private toggleEnabled(): void {
     this.manager.setBlockingEnabled(!this.manager.blockingEnabled());
     void this.update();
@@ -175,6 +314,15 @@ export class BlockedURLsPane extends UI.Widget.VBox implements
   beginEdit(pattern: SDK.NetworkManager.BlockedPattern): UI.ListWidget.Editor<SDK.NetworkManager.BlockedPattern> {
     this.editor = this.createEditor();
     this.editor.control('url').value = pattern.url;
+    const {mockedResponse} = pattern;
+    this.editor.control('action').value = patternAction(pattern);
+    this.editor.control('statusCode').value = mockedResponse?.statusCode ? String(mockedResponse.statusCode) : '200';
+    this.editor.control('delay').value = mockedResponse ? String(mockedResponse.delay) : '0';
+    if (this.headersTextArea && this.bodyTextArea) {
+      this.headersTextArea.value = mockedResponse ? mockedHeadersText(mockedResponse.headers) : '';
+      this.bodyTextArea.value = mockedResponse ? mockedResponse.body : '';
+    }
+    this.updateEditorRows?.();
     return this.editor;
   }
 
@@ -182,11 +330,21 @@ export class BlockedURLsPane extends UI.Widget.VBox implements
       item: SDK.NetworkManager.BlockedPattern, editor: UI.ListWidget.Editor<SDK.NetworkManager.BlockedPattern>,
       isNew: boolean): void {
     const url = editor.control('url').value as Platform.DevToolsPath.UrlString;
+    const newPattern: SDK.NetworkManager.BlockedPattern = {enabled: true, url: url};
+    const action = editor.control('action').value as PatternAction;
+    if (action !== PatternAction.Block) {
+      newPattern.mockedResponse = {
+        statusCode: action === PatternAction.Mock ? Number(editor.control('statusCode').value) : 0,
+        headers: action === PatternAction.Mock ? parseMockedHeaders(this.headersTextArea?.value ?? '') : [],
+        body: action === PatternAction.Mock ? this.bodyTextArea?.value ?? '' : '',
+        delay: Number(editor.control('delay').value) || 0,
+      };
+    }
     const patterns = this.manager.blockedPatterns();
     if (isNew) {
-      patterns.push({enabled: true, url: url});
+      patterns.push(newPattern);
     } else {
-      patterns.splice(patterns.indexOf(item), 1, {enabled: true, url: url});
+      patterns.splice(patterns.indexOf(item), 1, newPattern);
     }
 
     this.manager.setBlockedPatterns(patterns);
@@ -202,7 +360,7 @@ export class BlockedURLsPane extends UI.Widget.VBox implements
     const titles = content.createChild('div', 'blocked-url-edit-row');
     titles.createChild('div').textContent = i18nString(UIStrings.textPatternToBlockMatching);
     const fields = content.createChild('div', 'blocked-url-edit-row');
-    const validator = (_item: SDK.NetworkManager.BlockedPattern, _index: number, input: UI.ListWidget.EditorControl): {
+    const validator = (item: SDK.NetworkManager.BlockedPattern, _index: number, input: UI.ListWidget.EditorControl): {
       valid: boolean,
       errorMessage: Common.UIString.LocalizedString|undefined,
     } => {
@@ -211,7 +369,8 @@ export class BlockedURLsPane extends UI.Widget.VBox implements
       if (!input.value) {
         errorMessage = i18nString(UIStrings.patternInputCannotBeEmpty);
         valid = false;
-      } else if (this.manager.blockedPatterns().find(pattern => pattern.url === input.value)) {
+      } else if (
+          input.value !== item.url && this.manager.blockedPatterns().find(pattern => pattern.url === input.value)) {
         errorMessage = i18nString(UIStrings.patternAlreadyExists);
         valid = false;
       }
@@ -219,6 +378,66 @@ export class BlockedURLsPane extends UI.Widget.VBox implements
     };
     const urlInput = editor.createInput('url', 'text', '', validator);
     fields.createChild('div', 'blocked-url-edit-value').appendChild(urlInput);
+
+    const actionRow = content.createChild('div', 'blocked-url-edit-row');
+    actionRow.createChild('div', 'blocked-url-edit-label').textContent = i18nString(UIStrings.action);
+    const actionSelect = editor.createSelect(
+        'action', [PatternAction.Block, PatternAction.Mock, PatternAction.Delay],
+        () => ({valid: true, errorMessage: undefined}), i18nString(UIStrings.action));
+    const actionTitles = [
+      i18nString(UIStrings.blockRequests),
+      i18nString(UIStrings.mockResponse),
+      i18nString(UIStrings.delayRequests),
+    ];
+    actionTitles.forEach((title, index) => {
+      actionSelect.options[index].textContent = title;
+    });
+    actionRow.createChild('div', 'blocked-url-edit-value').appendChild(actionSelect);
+
+    const isAction = (action: PatternAction): boolean => editor.control('action').value === action;
+    const statusCodeRow = content.createChild('div', 'blocked-url-edit-row');
+    statusCodeRow.createChild('div', 'blocked-url-edit-label').textContent = i18nString(UIStrings.statusCode);
+    const statusCodeInput =
+        editor.createInput('statusCode', 'number', i18nString(UIStrings.statusCode), (_item, _index, input) => {
+          const valid = !isAction(PatternAction.Mock) || isValidMockedStatusCode(Number(input.value));
+          return {valid, errorMessage: valid ? undefined : i18nString(UIStrings.statusCodeMustBeBetween)};
+        });
+    statusCodeRow.createChild('div', 'blocked-url-edit-value').appendChild(statusCodeInput);
+
+    const delayRow = content.createChild('div', 'blocked-url-edit-row');
+    delayRow.createChild('div', 'blocked-url-edit-label').textContent = i18nString(UIStrings.delayMs);
+    const delayInput = editor.createInput('delay', 'number', i18nString(UIStrings.delayMs), (_item, _index, input) => {
+      const valid = isAction(PatternAction.Block) || isValidMockedDelay(Number(input.value));
+      return {valid, errorMessage: valid ? undefined : i18nString(UIStrings.delayMustBeBetween)};
+    });
+    delayRow.createChild('div', 'blocked-url-edit-value').appendChild(delayInput);
+
+    const createTextArea = (title: string): {row: Element, textArea: HTMLTextAreaElement} => {
+      const row = content.createChild('div', 'blocked-url-edit-row blocked-url-edit-text-row');
+      row.createChild('div', 'blocked-url-edit-label').textContent = title;
+      const textArea = row.createChild('textarea', 'blocked-url-edit-text harmony-input') as HTMLTextAreaElement;
+      UI.ARIAUtils.setAccessibleName(textArea, title);
+      // Enter commits the editor, except in the text areas where it inserts a new line.
+      textArea.addEventListener('keydown', event => {
+        if (event.key === 'Enter') {
+          event.stopPropagation();
+        }
+      });
+      return {row, textArea};
+    };
+    const headers = createTextArea(i18nString(UIStrings.responseHeaders));
+    const body = createTextArea(i18nString(UIStrings.responseBody));
+    this.headersTextArea = headers.textArea;
+    this.bodyTextArea = body.textArea;
+
+    this.updateEditorRows = (): void => {
+      const isMock = isAction(PatternAction.Mock);
+      statusCodeRow.classList.toggle('hidden', !isMock);
+      headers.row.classList.toggle('hidden', !isMock);
+      body.row.classList.toggle('hidden', !isMock);
+      delayRow.classList.toggle('hidden', isAction(PatternAction.Block));
+    };
+    actionSelect.addEventListener('change', this.updateEditorRows);
     return editor;
   }
 
@@ -253,20 +472,7 @@ export class BlockedURLsPane extends UI.Widget.VBox implements
   }
 
   private matches(pattern: string, url: string): boolean {
-    let pos = 0;
-    const parts = pattern.split('*');
-    for (let index = 0; index < parts.length; index++) {
-      const part = parts[index];
-      if (!part.length) {
-        continue;
-      }
-      pos = url.indexOf(part, pos);
-      if (pos === -1) {
-        return false;
-      }
-      pos += part.length;
-    }
-    return true;
+    return SDK.NetworkManager.blockedPatternMatches(pattern, url);
   }
 
   reset(): void {
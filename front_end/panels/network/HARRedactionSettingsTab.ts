@@ -0,0 +1,272 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Common from '../../core/common/common.js';
+import * as i18n from '../../core/i18n/i18n.js';
+import * as HAR from '../../models/har/har.js';
+import * as UI from '../../ui/legacy/legacy.js';
+
+import harRedactionSettingsTabStyles from './harRedactionSettingsTab.css.js';
+
+const UIStrings = {
+  /**
+  *@description Header text of the HAR redaction settings tab. HAR is a file format (HTTP Archive) and should not be translated.
+  */
+  harRedaction: '`HAR` redaction',
+  /**
+  *@description Text in the HAR redaction settings tab. HAR is a file format (HTTP Archive) and should not be translated.
+  */
+  theseRulesAreApplied:
+      'These rules are applied when saving network requests as a `HAR` file with sensitive data redacted from the Network panel.',
+  /**
+  *@description Text of the button that adds a redaction rule in the HAR redaction settings tab
+  */
+  addRule: 'Add rule',
+  /**
+  *@description Title of the column of the HAR redaction rules that says what kind of data a rule applies to
+  */
+  appliesTo: 'Applies to',
+  /**
+  *@description Title of the column of the HAR redaction rules that has the name of the header, cookie, parameter or field to redact
+  */
+  name: 'Name',
+  /**
+  *@description Title of the column of the HAR redaction rules that says how the data is redacted
+  */
+  action: 'Action',
+  /**
+  *@description Placeholder of the name input of a HAR redaction rule, '*' must not be translated
+  */
+  nameOrForAll: 'Name, or * for all',
+  /**
+  *@description Kind of data a HAR redaction rule applies to
+  */
+  header: 'Header',
+  /**
+  *@description Kind of data a HAR redaction rule applies to
+  */
+  cookie: 'Cookie',
+  /**
+  *@description Kind of data a HAR redaction rule applies to, the parameters in the query string of a URL
+  */
+  queryParameter: 'Query parameter',
+  /**
+  *@description Kind of data a HAR redaction rule applies to, the fields of JSON or form request and response bodies
+  */
+  bodyField: 'Body field',
+  /**
+  *@description Action of a HAR redaction rule that removes the data from the file
+  */
+  remove: 'Remove',
+  /**
+  *@description Action of a HAR redaction rule that replaces the data with its hash
+  */
+  replaceWithHash: 'Replace with hash',
+  /**
+  *@description Error message in the HAR redaction settings tab when the name of a rule is empty
+  */
+  nameCannotBeEmpty: 'Name cannot be empty',
+  /**
+  *@description Error message in the HAR redaction settings tab when there is already a rule for the same data
+  */
+  ruleAlreadyExists: 'There is already a rule for this name',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/network/HARRedactionSettingsTab.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+const targets = [
+  HAR.Redaction.RedactionTarget.Header,
+  HAR.Redaction.RedactionTarget.Cookie,
+  HAR.Redaction.RedactionTarget.QueryParameter,
+  HAR.Redaction.RedactionTarget.BodyField,
+];
+const actions = [HAR.Redaction.RedactionAction.Remove, HAR.Redaction.RedactionAction.Hash];
+
+function targetTitle(target: HAR.Redaction.RedactionTarget): string {
+  switch (target) {
+    case HAR.Redaction.RedactionTarget.Header:
+      return i18nString(UIStrings.header);
+    case HAR.Redaction.RedactionTarget.Cookie:
+      return i18nString(UIStrings.cookie);
+    case HAR.Redaction.RedactionTarget.QueryParameter:
+      return i18nString(UIStrings.queryParameter);
+    case HAR.Redaction.RedactionTarget.BodyField:
+      return i18nString(UIStrings.bodyField);
+  }
+}
+
+function actionTitle(action: HAR.Redaction.RedactionAction): string {
+  switch (action) {
+    case HAR.Redaction.RedactionAction.Remove:
+      return i18nString(UIStrings.remove);
+    case HAR.Redaction.RedactionAction.Hash:
+      return i18nString(UIStrings.replaceWithHash);
+  }
+}
+
+let harRedactionSettingsTabInstance: HARRedactionSettingsTab;
+
+export class HARRedactionSettingsTab extends UI.Widget.VBox implements
+    UI.ListWidget.Delegate<HAR.Redaction.RedactionRule> {
+  private readonly list: UI.ListWidget.ListWidget<HAR.Redaction.RedactionRule>;
+  private readonly setting: Common.Settings.Setting<HAR.Redaction.RedactionRule[]>;
+  private editor?: UI.ListWidget.Editor<HAR.Redaction.RedactionRule>;
+
+  constructor() {
+    super(true);
+
+    const header = this.contentElement.createChild('div', 'header');
+    header.textContent = i18nString(UIStrings.harRedaction);
+    UI.ARIAUtils.markAsHeading(header, 1);
+
+    this.contentElement.createChild('div', 'intro').textContent = i18nString(UIStrings.theseRulesAreApplied);
+
+    const addButton =
+        UI.UIUtils.createTextButton(i18nString(UIStrings.addRule), this.addButtonClicked.bind(this), 'add-rule-button');
+    this.contentElement.appendChild(addButton);
+
+    this.list = new UI.ListWidget.ListWidget(this);
+    this.list.element.classList.add('redaction-rules-list');
+    this.list.show(this.contentElement);
+
+    this.setting = Common.Settings.Settings.instance().moduleSetting('network.har-redaction-rules');
+    this.setting.addChangeListener(this.rulesUpdated, this);
+
+    this.setDefaultFocusedElement(addButton);
+  }
+
+  static instance(opts = {forceNew: null}): HARRedactionSettingsTab {
+    const {forceNew} = opts;
+    if (!harRedactionSettingsTabInstance || forceNew) {
+      harRedactionSettingsTabInstance = new HARRedactionSettingsTab();
+    }
+
+    return harRedactionSettingsTabInstance;
+  }
+
+  wasShown(): void {
+    super.wasShown();
+    this.list.registerCSSFiles([harRedactionSettingsTabStyles]);
+    this.registerCSSFiles([harRedactionSettingsTabStyles]);
+    this.rulesUpdated();
+  }
+
+  private rulesUpdated(): void {
+    this.list.clear();
+    for (const rule of this.setting.get()) {
+      this.list.appendItem(rule, true);
+    }
+  }
+
+  private addButtonClicked(): void {
+    this.list.addNewItem(this.setting.get().length, {
+      target: HAR.Redaction.RedactionTarget.Header,
+      name: '',
+      action: HAR.Redaction.RedactionAction.Remove,
+    });
+  }
+
+  renderItem(rule: HAR.Redaction.RedactionRule, _editable: boolean): Element {
+    const element = document.createElement('div');
+    element.classList.add('redaction-rules-list-item');
+    element.createChild('div', 'redaction-rules-list-text').textContent = targetTitle(rule.target);
+    element.createChild('div', 'redaction-rules-list-separator');
+    const name = element.createChild('div', 'redaction-rules-list-text redaction-rules-list-name');
+    name.textContent = rule.name;
+    UI.Tooltip.Tooltip.install(name, rule.name);
+    element.createChild('div', 'redaction-rules-list-separator');
+    element.createChild('div', 'redaction-rules-list-text').textContent = actionTitle(rule.action);
+    return element;
+  }
+
+  removeItemRequested(_rule: HAR.Redaction.RedactionRule, index: number): void {
+    const rules = this.setting.get();
+    rules.splice(index, 1);
+    this.setting.set(rules);
+  }
+
+  commitEdit(
+      rule: HAR.Redaction.RedactionRule, editor: UI.ListWidget.Editor<HAR.Redaction.RedactionRule>,
+      isNew: boolean): void {
+    rule.target = editor.control('target').value as HAR.Redaction.RedactionTarget;
+    rule.name = editor.control('name').value.trim();
+    rule.action = editor.control('action').value as HAR.Redaction.RedactionAction;
+
+    const rules = this.setting.get();
+    if (isNew) {
+      rules.push(rule);
+    }
+    this.setting.set(rules);
+  }
+
+  beginEdit(rule: HAR.Redaction.RedactionRule): UI.ListWidget.Editor<HAR.Redaction.RedactionRule> {
+    const editor = this.createEditor();
+    editor.control('target').value = rule.target;
+    editor.control('name').value = rule.name;
+    editor.control('action').value = rule.action;
+    return editor;
+  }
+
+  private createEditor(): UI.ListWidget.Editor<HAR.Redaction.RedactionRule> {
+    if (this.editor) {
+      return this.editor;
+    }
+
+    const editor = new UI.ListWidget.Editor<HAR.Redaction.RedactionRule>();
+    this.editor = editor;
+    const content = editor.contentElement();
+
+    const titles = content.createChild('div', 'redaction-rules-edit-row');
+    titles.createChild('div', 'redaction-rules-list-text').textContent = i18nString(UIStrings.appliesTo);
+    titles.createChild('div', 'redaction-rules-list-separator redaction-rules-list-separator-invisible');
+    titles.createChild('div', 'redaction-rules-list-text redaction-rules-list-name').textContent =
+        i18nString(UIStrings.name);
+    titles.createChild('div', 'redaction-rules-list-separator redaction-rules-list-separator-invisible');
+    titles.createChild('div', 'redaction-rules-list-text').textContent = i18nString(UIStrings.action);
+
+    const fields = content.createChild('div', 'redaction-rules-edit-row');
+    const target = editor.createSelect('target', targets, validate, i18nString(UIStrings.appliesTo));
+    for (const option of target.options) {
+      option.textContent = targetTitle(option.value as HAR.Redaction.RedactionTarget);
+    }
+    fields.createChild('div', 'redaction-rules-list-text').appendChild(target);
+    fields.createChild('div', 'redaction-rules-list-separator redaction-rules-list-separator-invisible');
+
+    const name = editor.createInput('name', 'text', i18nString(UIStrings.nameOrForAll), nameValidator.bind(this));
+    fields.createChild('div', 'redaction-rules-list-text redaction-rules-list-name').appendChild(name);
+    fields.createChild('div', 'redaction-rules-list-separator redaction-rules-list-separator-invisible');
+
+    const action = editor.createSelect('action', actions, validate, i18nString(UIStrings.action));
+    for (const option of action.options) {
+      option.textContent = actionTitle(option.value as HAR.Redaction.RedactionAction);
+    }
+    fields.createChild('div', 'redaction-rules-list-text').appendChild(action);
+
+    return editor;
+
+    // The editor runs every validator when any control changes, so the target is validated
+    // together with the name.
+    function validate(): UI.ListWidget.ValidatorResult {
+      return {valid: true, errorMessage: undefined};
+    }
+
+    function nameValidator(
+        this: HARRedactionSettingsTab, _rule: HAR.Redaction.RedactionRule, index: number,
+        input: UI.ListWidget.EditorControl): UI.ListWidget.ValidatorResult {
+      const name = input.value.trim();
+      if (!name) {
+        return {valid: false, errorMessage: i18nString(UIStrings.nameCannotBeEmpty)};
+      }
+      const target = editor.control('target').value as HAR.Redaction.RedactionTarget;
+      if (!targets.includes(target)) {
+        return {valid: false, errorMessage: undefined};
+      }
+      const rules = this.setting.get();
+      if (rules.some((rule, i) => i !== index && rule.target === target && rule.name === name)) {
+        return {valid: false, errorMessage: i18nString(UIStrings.ruleAlreadyExists)};
+      }
+      return {valid: true, errorMessage: undefined};
+    }
+  }
+}
@@ -324,6 +324,10 @@ const UIStrings = {
   */
   saveAllAsHarWithContent: 'Save all as `HAR` with content',
   /**
+  *@description A context menu item in the Network Log View of the Network panel. The redaction rules are configured in the settings.
+  */
+  saveAllAsRedactedHar: 'Save all as `HAR` with sensitive data redacted',
+  /**
   *@description A context menu item in the Network Log View of the Network panel
   */
   clearBrowserCache: 'Clear browser cache',
@@ -1593,7 +1597,9 @@ export class NetworkLogView extends Common.ObjectWrapper.eventMixin<EventTypes,
     }
     footerSection.appendItem(i18nString(UIStrings.copyAllAsHar), this.copyAll.bind(this));
 
-    contextMenu.saveSection().appendItem(i18nString(UIStrings.saveAllAsHarWithContent), this.exportAll.bind(this));
+    contextMenu.saveSection().appendItem(i18nString(UIStrings.saveAllAsHarWithContent), () => this.exportAll());
+    contextMenu.saveSection().appendItem(
+        i18nString(UIStrings.saveAllAsRedactedHar), () => this.exportAll({redact: true}));
     if (Root.Runtime.experiments.isEnabled(Root.Runtime.ExperimentName.HEADER_OVERRIDES)) {
       contextMenu.saveSection().appendItem(
           i18nString(UIStrings.overrideHeaders), this.#handleCreateResponseHeaderOverrideClick.bind(this, request));
@@ -1693,7 +1699,7 @@ export class NetworkLogView extends Common.ObjectWrapper.eventMixin<EventTypes,
     Host.InspectorFrontendHost.InspectorFrontendHostInstance.copyText(commands);
   }
 
-  async exportAll(): Promise<void> {
+  async exportAll(options: {redact?: boolean} = {}): Promise<void> {
     const mainTarget = SDK.TargetManager.TargetManager.instance().mainFrameTarget();
     if (!mainTarget) {
       return;
@@ -1703,13 +1709,19 @@ export class NetworkLogView extends Common.ObjectWrapper.eventMixin<EventTypes,
     const filename = (parsedURL ? parsedURL.host : 'network-log') as Platform.DevToolsPath.RawPathString;
     const stream = new Bindings.FileUtils.FileOutputStream();
 
-    if (!await stream.open(Common.ParsedURL.ParsedURL.concatenate(filename, '.har'))) {
+    if (!await stream.open(
+            Common.ParsedURL.ParsedURL.concatenate(filename, options.redact ? '-redacted.har' : '.har'))) {
       return;
     }
 
+    const redactionRules = options.redact ?
+        Common.Settings.Settings.instance()
+            .moduleSetting<HAR.Redaction.RedactionRule[]>('network.har-redaction-rules')
+            .get() :
+        undefined;
     const progressIndicator = new UI.ProgressIndicator.ProgressIndicator();
     this.progressBarContainer.appendChild(progressIndicator.element);
-    await HAR.Writer.Writer.write(stream, this.harRequests(), progressIndicator);
+    await HAR.Writer.Writer.write(stream, this.harRequests(), progressIndicator, {redactionRules});
     progressIndicator.done();
     void stream.close();
   }
@@ -108,6 +108,14 @@ const UIStrings = {
   *@description Title of a setting under the Network category that can be invoked through the Command Menu
   */
   dontGroupNetworkLogItemsByFrame: 'Don\'t group network log items by frame',
+  /**
+  *@description Title of the settings tab with the rules used to redact sensitive data from HAR files. HAR is a file format (HTTP Archive) and should not be translated.
+  */
+  harRedaction: '`HAR` redaction',
+  /**
+  *@description Command for showing the settings tab with the rules used to redact sensitive data from HAR files. HAR is a file format (HTTP Archive) and should not be translated.
+  */
+  showHarRedaction: 'Show `HAR` redaction',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/network/network-meta.ts', UIStrings);
 const i18nLazyString = i18n.i18n.getLazilyComputedLocalizedString.bind(undefined, str_);
@@ -316,6 +324,34 @@ Common.Settings.registerSettingExtension({
   ],
 });
 
+Common.Settings.registerSettingExtension({
+  storageType: Common.Settings.SettingStorageType.Synced,
+  settingName: 'network.har-redaction-rules',
+  settingType: Common.Settings.SettingType.ARRAY,
+  defaultValue: [
+    {target: 'header', name: 'Authorization', action: 'remove'},
+    {target: 'header', name: 'Proxy-Authorization', action: 'remove'},
+    {target: 'cookie', name: '*', action: 'hash'},
+    {target: 'query-parameter', name: 'access_token', action: 'remove'},
+    {target: 'body-field', name: 'password', action: 'remove'},
+  ],
+});
+
+UI.ViewManager.registerViewExtension({
+  location: UI.ViewManager.ViewLocationValues.SETTINGS_VIEW,
+  id: 'har-redaction',
+  title: i18nLazyString(UIStrings.harRedaction),
+  commandPrompt: i18nLazyString(UIStrings.showHarRedaction),
+  order: 36,
+  async loadView() {
+    const Network = await loadNetworkModule();
+    return Network.HARRedactionSettingsTab.HARRedactionSettingsTab.instance();
+  },
+  settings: [
+    'network.har-redaction-rules',
+  ],
+});
+
 UI.ViewManager.registerLocationResolver({
   name: UI.ViewManager.ViewLocationValues.NETWORK_SIDEBAR,
   category: UI.ViewManager.ViewLocationCategoryValues.NETWORK,
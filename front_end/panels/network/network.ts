@@ -3,8 +3,10 @@
 // found in the LICENSE file.
 
 import './BinaryResourceView.js';
+import './BlockedPatternsFile.js';
 import './BlockedURLsPane.js';
 import './EventSourceMessagesView.js';
+import './HARRedactionSettingsTab.js';
 import './NetworkConfigView.js';
 import './NetworkDataGridNode.js';
 import './NetworkItemView.js';
@@ -28,8 +30,10 @@ import './NetworkOverview.js';
 import './NetworkPanel.js';
 
 import * as BinaryResourceView from './BinaryResourceView.js';
+import * as BlockedPatternsFile from './BlockedPatternsFile.js';
 import * as BlockedURLsPane from './BlockedURLsPane.js';
 import * as EventSourceMessagesView from './EventSourceMessagesView.js';
+import * as HARRedactionSettingsTab from './HARRedactionSettingsTab.js';
 import * as NetworkConfigView from './NetworkConfigView.js';
 import * as NetworkDataGridNode from './NetworkDataGridNode.js';
 import * as NetworkFrameGrouper from './NetworkFrameGrouper.js';
@@ -55,8 +59,10 @@ import * as SignedExchangeInfoView from './SignedExchangeInfoView.js';
 
 export {
   BinaryResourceView,
+  BlockedPatternsFile,
   BlockedURLsPane,
   EventSourceMessagesView,
+  HARRedactionSettingsTab,
   NetworkConfigView,
   NetworkDataGridNode,
   NetworkFrameGrouper,
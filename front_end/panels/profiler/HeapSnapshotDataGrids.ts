@@ -44,6 +44,7 @@ import {
   HeapSnapshotRetainingObjectNode,
   HeapSnapshotObjectNode,
   HeapSnapshotDiffNode,
+  HeapSnapshotRetainerPathDiffNode,
   type HeapSnapshotGridNode,
 } from './HeapSnapshotGridNodes.js';
 import {type HeapSnapshotProxy} from './HeapSnapshotProxy.js';
@@ -126,6 +127,15 @@ const UIStrings = {
   */
   heapSnapshotDiff: 'Heap Snapshot Diff',
   /**
+  *@description Column header in a table that groups the objects that are new in a Heap Snapshot
+  * by the path of objects and properties that keeps them alive, e.g. 'Window.cache → Array[]'.
+  */
+  retainerPath: 'Retainer Path',
+  /**
+  *@description Data grid name for Heap Snapshot Retainer Path Diff data grids
+  */
+  heapSnapshotRetainerPathDiff: 'Heap Snapshot Retainer Path Diff',
+  /**
   *@description Text in Heap Snapshot Data Grids of a profiler tool
   */
   liveCount: 'Live Count',
@@ -992,6 +1002,84 @@ export class HeapSnapshotDiffDataGrid extends HeapSnapshotViewportDataGrid {
   }
 }
 
+export class HeapSnapshotRetainerPathDiffDataGrid extends HeapSnapshotViewportDataGrid {
+  baseSnapshot?: HeapSnapshotProxy;
+
+  constructor(
+      heapProfilerModel: SDK.HeapProfilerModel.HeapProfilerModel|null, dataDisplayDelegate: DataDisplayDelegate) {
+    const columns = ([
+      {id: 'object', title: i18nString(UIStrings.constructorString), disclosure: true, sortable: true},
+      {id: 'retainerPath', title: i18nString(UIStrings.retainerPath), sortable: true},
+      {id: 'count', title: i18nString(UIStrings.New), width: '75px', sortable: true, fixedWidth: true},
+      {id: 'shallowSize', title: i18nString(UIStrings.shallowSize), width: '110px', sortable: true, fixedWidth: true},
+      {
+        id: 'retainedSize',
+        title: i18nString(UIStrings.retainedSize),
+        width: '110px',
+        sort: DataGrid.DataGrid.Order.Descending,
+        sortable: true,
+        fixedWidth: true,
+      },
+    ] as DataGrid.DataGrid.ColumnDescriptor[]);
+    super(
+        heapProfilerModel, dataDisplayDelegate,
+        ({displayName: i18nString(UIStrings.heapSnapshotRetainerPathDiff).toString(), columns} as
+         DataGrid.DataGrid.Parameters));
+  }
+
+  defaultPopulateCount(): number {
+    return 50;
+  }
+
+  sortFields(sortColumn: string, sortAscending: boolean): HeapSnapshotModel.HeapSnapshotModel.ComparatorConfig {
+    switch (sortColumn) {
+      case 'object':
+        return new HeapSnapshotModel.HeapSnapshotModel.ComparatorConfig('name', sortAscending, 'retainedSize', false);
+      case 'retainerPath':
+        return new HeapSnapshotModel.HeapSnapshotModel.ComparatorConfig(
+            'retainerPath', sortAscending, 'retainedSize', false);
+      case 'count':
+        return new HeapSnapshotModel.HeapSnapshotModel.ComparatorConfig('count', sortAscending, 'retainedSize', false);
+      case 'shallowSize':
+        return new HeapSnapshotModel.HeapSnapshotModel.ComparatorConfig('shallowSize', sortAscending, 'name', true);
+      case 'retainedSize':
+        return new HeapSnapshotModel.HeapSnapshotModel.ComparatorConfig('retainedSize', sortAscending, 'name', true);
+      default:
+        throw new Error(`Unknown column ${sortColumn}`);
+    }
+  }
+
+  async setDataSource(snapshot: HeapSnapshotProxy, _nodeIndex: number): Promise<void> {
+    this.snapshot = snapshot;
+  }
+
+  setBaseDataSource(baseSnapshot: HeapSnapshotProxy): void {
+    this.baseSnapshot = baseSnapshot;
+    this.removeTopLevelNodes();
+    this.resetSortingCache();
+    if (this.baseSnapshot === this.snapshot) {
+      this.dispatchEventToListeners(HeapSnapshotSortableDataGridEvents.SortingComplete);
+      return;
+    }
+    void this.populateChildren();
+  }
+
+  async populateChildren(): Promise<void> {
+    if (this.snapshot === null || this.baseSnapshot === undefined || this.baseSnapshot.uid === undefined) {
+      throw new Error('Data sources have not been set correctly');
+    }
+    // As for the class diff, the ids of the objects in the base snapshot are passed to the
+    // worker of this snapshot, which tells the new objects apart.
+    const aggregatesForDiff = await this.baseSnapshot.aggregatesForDiff();
+    const retainerPathDiffs = await this.snapshot.calculateRetainerPathDiff(this.baseSnapshot.uid, aggregatesForDiff);
+
+    retainerPathDiffs.forEach((retainerPathDiff, index) => {
+      this.appendNode(this.rootNode(), new HeapSnapshotRetainerPathDiffNode(this, index, retainerPathDiff));
+    });
+    this.sortingChanged();
+  }
+}
+
 export class AllocationDataGrid extends HeapSnapshotViewportDataGrid {
   readonly linkifierInternal: Components.Linkifier.Linkifier;
   topNodes?: HeapSnapshotModel.HeapSnapshotModel.SerializedAllocationNode[];
@@ -44,6 +44,7 @@ import {
   type AllocationDataGrid,
   type HeapSnapshotConstructorsDataGrid,
   type HeapSnapshotDiffDataGrid,
+  type HeapSnapshotRetainerPathDiffDataGrid,
   type HeapSnapshotSortableDataGrid,
 } from './HeapSnapshotDataGrids.js';
 import {type HeapSnapshotProviderProxy, type HeapSnapshotProxy} from './HeapSnapshotProxy.js';
@@ -1233,6 +1234,99 @@ export class HeapSnapshotDiffNode extends HeapSnapshotGridNode {
   }
 }
 
+export class HeapSnapshotRetainerPathDiffNode extends HeapSnapshotGridNode {
+  readonly nameInternal: string;
+  readonly retainerPath: string;
+  readonly retainerPathIndex: number;
+  readonly count: number;
+  readonly shallowSize: number;
+  readonly retainedSize: number;
+
+  constructor(
+      dataGrid: HeapSnapshotRetainerPathDiffDataGrid, retainerPathIndex: number,
+      retainerPathDiff: HeapSnapshotModel.HeapSnapshotModel.RetainerPathDiff) {
+    super(dataGrid, retainerPathDiff.count > 0);
+    this.nameInternal = retainerPathDiff.className;
+    this.retainerPath = retainerPathDiff.retainerPath.join(' \u2192 ');
+    this.retainerPathIndex = retainerPathIndex;
+    this.count = retainerPathDiff.count;
+    this.shallowSize = retainerPathDiff.selfSize;
+    this.retainedSize = retainerPathDiff.retainedSize;
+
+    const snapshot = (dataGrid.snapshot as HeapSnapshotProxy);
+    const retainedSizePercent = this.retainedSize / snapshot.totalSize * 100.0;
+    const shallowSizePercent = this.shallowSize / snapshot.totalSize * 100.0;
+    this.data = {
+      'object': this.nameInternal,
+      'retainerPath': this.retainerPath,
+      'count': Platform.NumberUtilities.withThousandsSeparator(this.count),
+      'shallowSize': Platform.NumberUtilities.withThousandsSeparator(this.shallowSize),
+      'retainedSize': Platform.NumberUtilities.withThousandsSeparator(this.retainedSize),
+      'shallowSize-percent': this.toPercentString(shallowSizePercent),
+      'retainedSize-percent': this.toPercentString(retainedSizePercent),
+    };
+  }
+
+  get name(): string|undefined {
+    return this.nameInternal;
+  }
+
+  createProvider(): HeapSnapshotProviderProxy {
+    const tree = this.dataGridInternal as HeapSnapshotRetainerPathDiffDataGrid;
+    if (tree.snapshot === null || tree.baseSnapshot === undefined || tree.baseSnapshot.uid === undefined) {
+      throw new Error('Data sources have not been set correctly');
+    }
+    const provider = tree.snapshot.createRetainerPathNodesProvider(tree.baseSnapshot.uid, this.retainerPathIndex);
+    if (!provider) {
+      throw new Error('Failed to create node provider');
+    }
+    return provider;
+  }
+
+  filteredOut(filterValue: string): boolean {
+    return this.nameInternal.toLowerCase().indexOf(filterValue) === -1 &&
+        this.retainerPath.toLowerCase().indexOf(filterValue) === -1;
+  }
+
+  createCell(columnId: string): HTMLElement {
+    if (columnId === 'shallowSize' || columnId === 'retainedSize') {
+      return this.createValueCell(columnId);
+    }
+    const cell = super.createCell(columnId);
+    if (columnId === 'count') {
+      cell.classList.add('numeric-column');
+    }
+    if (columnId === 'retainerPath') {
+      UI.Tooltip.Tooltip.install(cell, this.retainerPath);
+    }
+    return cell;
+  }
+
+  createChildNode(item: HeapSnapshotModel.HeapSnapshotModel.Node|
+                  HeapSnapshotModel.HeapSnapshotModel.Edge): HeapSnapshotInstanceNode {
+    return new HeapSnapshotInstanceNode(
+        this.dataGridInternal, (this.dataGridInternal.snapshot as HeapSnapshotProxy),
+        (item as HeapSnapshotModel.HeapSnapshotModel.Node), false);
+  }
+
+  comparator(): HeapSnapshotModel.HeapSnapshotModel.ComparatorConfig {
+    const sortAscending = this.dataGridInternal.isSortOrderAscending();
+    const sortColumnId = this.dataGridInternal.sortColumnId();
+    switch (sortColumnId) {
+      case 'object':
+      case 'retainerPath':
+      case 'count':
+        return new HeapSnapshotModel.HeapSnapshotModel.ComparatorConfig('name', sortAscending, 'id', true);
+      case 'shallowSize':
+        return new HeapSnapshotModel.HeapSnapshotModel.ComparatorConfig('selfSize', sortAscending, 'id', true);
+      case 'retainedSize':
+        return new HeapSnapshotModel.HeapSnapshotModel.ComparatorConfig('retainedSize', sortAscending, 'id', true);
+      default:
+        throw new Error(`Invalid sort column id ${sortColumnId}`);
+    }
+  }
+}
+
 export class AllocationGridNode extends HeapSnapshotGridNode {
   populated: boolean;
   readonly allocationNode: HeapSnapshotModel.HeapSnapshotModel.SerializedAllocationNode;
@@ -328,6 +328,12 @@ export class HeapSnapshotProxy extends HeapSnapshotProxyObject {
     return this.callMethodPromise('calculateSnapshotDiff', baseSnapshotId, baseSnapshotAggregates);
   }
 
+  calculateRetainerPathDiff(baseSnapshotId: string, baseSnapshotAggregates: {
+    [x: string]: HeapSnapshotModel.HeapSnapshotModel.AggregateForDiff,
+  }): Promise<HeapSnapshotModel.HeapSnapshotModel.RetainerPathDiff[]> {
+    return this.callMethodPromise('calculateRetainerPathDiff', baseSnapshotId, baseSnapshotAggregates);
+  }
+
   nodeClassName(snapshotObjectId: number): Promise<string|null> {
     return this.callMethodPromise('nodeClassName', snapshotObjectId);
   }
@@ -345,6 +351,11 @@ export class HeapSnapshotProxy extends HeapSnapshotProxyObject {
         null, 'createAddedNodesProvider', HeapSnapshotProviderProxy, baseSnapshotId, className);
   }
 
+  createRetainerPathNodesProvider(baseSnapshotId: string, retainerPathIndex: number): HeapSnapshotProviderProxy|null {
+    return this.callFactoryMethod(
+        null, 'createRetainerPathNodesProvider', HeapSnapshotProviderProxy, baseSnapshotId, retainerPathIndex);
+  }
+
   createDeletedNodesProvider(nodeIndexes: number[]): HeapSnapshotProviderProxy|null {
     return this.callFactoryMethod(null, 'createDeletedNodesProvider', HeapSnapshotProviderProxy, nodeIndexes);
   }
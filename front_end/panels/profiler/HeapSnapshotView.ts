@@ -48,6 +48,7 @@ import {
   HeapSnapshotSortableDataGridEvents,
   HeapSnapshotConstructorsDataGrid,
   HeapSnapshotDiffDataGrid,
+  HeapSnapshotRetainerPathDiffDataGrid,
   HeapSnapshotRetainmentDataGrid,
   HeapSnapshotContainmentDataGrid,
   type HeapSnapshotSortableDataGrid,
@@ -157,6 +158,11 @@ const UIStrings = {
   */
   comparison: 'Comparison',
   /**
+  *@description Name of the view in the Heap Snapshot tool that groups the objects that are new in a
+  * snapshot by the path of objects and properties that keeps them alive
+  */
+  retainerPathComparison: 'Retainer Path Comparison',
+  /**
   *@description Text in Heap Snapshot View of a profiler tool
   */
   allocation: 'Allocation',
@@ -289,6 +295,8 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
   readonly constructorsWidget: DataGrid.DataGrid.DataGridWidget<HeapSnapshotGridNode>;
   readonly diffDataGrid: HeapSnapshotDiffDataGrid;
   readonly diffWidget: DataGrid.DataGrid.DataGridWidget<HeapSnapshotGridNode>;
+  readonly retainerPathDiffDataGrid: HeapSnapshotRetainerPathDiffDataGrid;
+  readonly retainerPathDiffWidget: DataGrid.DataGrid.DataGridWidget<HeapSnapshotGridNode>;
   readonly allocationDataGrid: AllocationDataGrid|null;
   readonly allocationWidget: DataGrid.DataGrid.DataGridWidget<HeapSnapshotGridNode>|undefined;
   readonly allocationStackView: HeapAllocationStackView|undefined;
@@ -296,9 +304,10 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
   readonly retainmentDataGrid: HeapSnapshotRetainmentDataGrid;
   readonly retainmentWidget: DataGrid.DataGrid.DataGridWidget<HeapSnapshotGridNode>;
   readonly objectDetailsView: UI.Widget.VBox;
-  readonly perspectives: (SummaryPerspective|ComparisonPerspective|ContainmentPerspective|AllocationPerspective|
-                          StatisticsPerspective)[];
+  readonly perspectives: (SummaryPerspective|ComparisonPerspective|RetainerPathComparisonPerspective|
+                          ContainmentPerspective|AllocationPerspective|StatisticsPerspective)[];
   readonly comparisonPerspective: ComparisonPerspective;
+  readonly retainerPathComparisonPerspective: RetainerPathComparisonPerspective;
   readonly perspectiveSelect: UI.Toolbar.ToolbarComboBox;
   baseSelect: UI.Toolbar.ToolbarComboBox;
   readonly filterSelect: UI.Toolbar.ToolbarComboBox;
@@ -306,8 +315,8 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
   readonly selectedSizeText: UI.Toolbar.ToolbarText;
   readonly popoverHelper: UI.PopoverHelper.PopoverHelper;
   currentPerspectiveIndex: number;
-  currentPerspective: SummaryPerspective|ComparisonPerspective|ContainmentPerspective|AllocationPerspective|
-      StatisticsPerspective;
+  currentPerspective: SummaryPerspective|ComparisonPerspective|RetainerPathComparisonPerspective|ContainmentPerspective|
+      AllocationPerspective|StatisticsPerspective;
   dataGrid: HeapSnapshotSortableDataGrid|null;
   readonly searchThrottler: Common.Throttler.Throttler;
   baseProfile!: HeapProfileHeader|null;
@@ -361,6 +370,11 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
     this.diffWidget = this.diffDataGrid.asWidget();
     this.diffWidget.setMinimumSize(50, 25);
 
+    this.retainerPathDiffDataGrid = new HeapSnapshotRetainerPathDiffDataGrid(heapProfilerModel, this);
+    this.retainerPathDiffDataGrid.addEventListener(DataGrid.DataGrid.Events.SelectedNode, this.selectionChanged, this);
+    this.retainerPathDiffWidget = this.retainerPathDiffDataGrid.asWidget();
+    this.retainerPathDiffWidget.setMinimumSize(50, 25);
+
     this.allocationDataGrid = null;
 
     if (isHeapTimeline && hasAllocationStacks) {
@@ -411,9 +425,11 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
 
     this.perspectives = [];
     this.comparisonPerspective = new ComparisonPerspective();
+    this.retainerPathComparisonPerspective = new RetainerPathComparisonPerspective();
     this.perspectives.push(new SummaryPerspective());
     if (profile.profileType() !== instance.trackingHeapSnapshotProfileType) {
       this.perspectives.push(this.comparisonPerspective);
+      this.perspectives.push(this.retainerPathComparisonPerspective);
     }
     this.perspectives.push(new ContainmentPerspective());
     if (this.allocationWidget) {
@@ -437,6 +453,7 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
     this.classNameFilter.setVisible(false);
     this.constructorsDataGrid.setNameFilter(this.classNameFilter);
     this.diffDataGrid.setNameFilter(this.classNameFilter);
+    this.retainerPathDiffDataGrid.setNameFilter(this.classNameFilter);
 
     this.selectedSizeText = new UI.Toolbar.ToolbarText();
 
@@ -708,7 +725,7 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
       return;
     }
     this.baseProfile = (this.profiles()[this.baseSelect.selectedIndex()] as HeapProfileHeader);
-    const dataGrid = (this.dataGrid as HeapSnapshotDiffDataGrid);
+    const dataGrid = (this.dataGrid as HeapSnapshotDiffDataGrid | HeapSnapshotRetainerPathDiffDataGrid);
     // Change set base data source only if main data source is already set.
     if (dataGrid.snapshot) {
       void this.baseProfile.loadPromise.then(dataGrid.setBaseDataSource.bind(dataGrid));
@@ -806,7 +823,10 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
 
   async updateDataSourceAndView(): Promise<void> {
     const dataGrid = this.dataGrid;
-    if (!dataGrid || dataGrid.snapshot) {
+    // The comparison views share the base snapshot selection, which may have changed while
+    // another comparison view was shown.
+    const isComparison = dataGrid === this.diffDataGrid || dataGrid === this.retainerPathDiffDataGrid;
+    if (!dataGrid || (dataGrid.snapshot && !isComparison)) {
       return;
     }
 
@@ -818,7 +838,7 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
     if (dataGrid.snapshot !== snapshotProxy) {
       void dataGrid.setDataSource(snapshotProxy, 0);
     }
-    if (dataGrid !== this.diffDataGrid) {
+    if (!isComparison) {
       return;
     }
     if (!this.baseProfile) {
@@ -827,8 +847,9 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
 
     const baseSnapshotProxy = await this.baseProfile.loadPromise;
 
-    if (this.diffDataGrid.baseSnapshot !== baseSnapshotProxy) {
-      this.diffDataGrid.setBaseDataSource(baseSnapshotProxy);
+    const comparisonDataGrid = (dataGrid as HeapSnapshotDiffDataGrid | HeapSnapshotRetainerPathDiffDataGrid);
+    if (comparisonDataGrid.baseSnapshot !== baseSnapshotProxy) {
+      comparisonDataGrid.setBaseDataSource(baseSnapshotProxy);
     }
   }
 
@@ -890,6 +911,7 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
     }
     const node = this.dataGrid.dataGridNodeFromNode(row) || this.containmentDataGrid.dataGridNodeFromNode(row) ||
         this.constructorsDataGrid.dataGridNodeFromNode(row) || this.diffDataGrid.dataGridNodeFromNode(row) ||
+        this.retainerPathDiffDataGrid.dataGridNodeFromNode(row) ||
         (this.allocationDataGrid && this.allocationDataGrid.dataGridNodeFromNode(row)) ||
         this.retainmentDataGrid.dataGridNodeFromNode(row);
     const heapProfilerModel = this.profile.heapProfilerModel();
@@ -930,7 +952,8 @@ export class HeapSnapshotView extends UI.View.SimpleView implements DataDisplayD
     const multipleSnapshots = this.profiles().length > 1;
     this.perspectiveSelect.removeOptions();
     this.perspectives.forEach((perspective, index) => {
-      if (multipleSnapshots || perspective !== this.comparisonPerspective) {
+      if (multipleSnapshots ||
+          (perspective !== this.comparisonPerspective && perspective !== this.retainerPathComparisonPerspective)) {
         this.perspectiveSelect.createOption(perspective.title(), String(index));
       }
     });
@@ -1106,6 +1129,24 @@ export class ComparisonPerspective extends Perspective {
   }
 }
 
+export class RetainerPathComparisonPerspective extends Perspective {
+  constructor() {
+    super(i18nString(UIStrings.retainerPathComparison));
+  }
+
+  activate(heapSnapshotView: HeapSnapshotView): void {
+    heapSnapshotView.splitWidget.setMainWidget(heapSnapshotView.retainerPathDiffWidget);
+    heapSnapshotView.splitWidget.setSidebarWidget(heapSnapshotView.objectDetailsView);
+    heapSnapshotView.splitWidget.show(heapSnapshotView.searchableViewInternal.element);
+    heapSnapshotView.baseSelect.setVisible(true);
+    heapSnapshotView.classNameFilter.setVisible(true);
+  }
+
+  masterGrid(heapSnapshotView: HeapSnapshotView): HeapSnapshotSortableDataGrid {
+    return heapSnapshotView.retainerPathDiffDataGrid;
+  }
+}
+
 export class ContainmentPerspective extends Perspective {
   constructor() {
     super(i18nString(UIStrings.containment));
@@ -0,0 +1,330 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as i18n from '../../core/i18n/i18n.js';
+import * as ProtocolClient from '../../core/protocol_client/protocol_client.js';
+import * as SDK from '../../core/sdk/sdk.js';
+import * as UI from '../../ui/legacy/legacy.js';
+
+import commandEditorStyles from './commandEditor.css.js';
+
+const UIStrings = {
+  /**
+  *@description Placeholder of the input for the name of the command in the command editor of the Protocol Monitor
+  */
+  command: 'Command',
+  /**
+  *@description Title of the dropdown in the command editor of the Protocol Monitor to choose where the command is sent
+  */
+  targetSession: 'Target session',
+  /**
+  *@description Text of an option in the target session dropdown of the Protocol Monitor command editor
+  *@example {example.com} PH1
+  *@example {frame} PH2
+  */
+  sS: '{PH1} ({PH2})',
+  /**
+  *@description Tooltip of the button that sends the command in the command editor of the Protocol Monitor
+  */
+  sendCommand: 'Send command',
+  /**
+  *@description Text shown in the command editor of the Protocol Monitor when the command is not known
+  */
+  unknownCommand: 'Unknown command',
+  /**
+  *@description Text shown in the command editor of the Protocol Monitor when the command takes no parameters
+  */
+  noParameters: 'This command has no parameters',
+  /**
+  *@description Text of the empty option of a parameter dropdown in the command editor of the Protocol Monitor
+  */
+  notSet: '(not set)',
+  /**
+  *@description Error message in the command editor of the Protocol Monitor when a required parameter is missing
+  */
+  parameterIsRequired: 'This parameter is required',
+  /**
+  *@description Error message in the command editor of the Protocol Monitor when a parameter is not a number
+  */
+  mustBeANumber: 'Must be a number',
+  /**
+  *@description Error message in the command editor of the Protocol Monitor when a parameter is not true or false
+  */
+  mustBeTrueOrFalse: 'Must be `true` or `false`',
+  /**
+  *@description Error message in the command editor of the Protocol Monitor when a parameter is not valid JSON
+  */
+  mustBeAJsonObjectOrArray: 'Must be a `JSON` object or array',
+  /**
+  *@description Error message in the command editor of the Protocol Monitor when a parameter has a value that is not allowed
+  *@example {png, jpeg, webp} PH1
+  */
+  mustBeOneOfS: 'Must be one of: {PH1}',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/protocol_monitor/CommandEditor.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+export interface CommandRequest {
+  command: string;
+  parameters: {[name: string]: unknown};
+  sessionId: string;
+}
+
+export interface ParsedParameters {
+  parameters: {[name: string]: unknown};
+  // Maps the names of the invalid parameters to the reason they are invalid.
+  errors: Map<string, string>;
+}
+
+export function commandParameters(command: string): readonly ProtocolClient.InspectorBackend.CommandParameter[]|
+    undefined {
+  return ProtocolClient.InspectorBackend.inspectorBackend.getCommandParameters().get(
+      command as ProtocolClient.InspectorBackend.QualifiedName);
+}
+
+export function enumValuesForParameter(parameter: ProtocolClient.InspectorBackend.CommandParameter): readonly string[]|
+    undefined {
+  if (!parameter.typeRef) {
+    return undefined;
+  }
+  return ProtocolClient.InspectorBackend.inspectorBackend.getEnumValues(
+      parameter.typeRef as ProtocolClient.InspectorBackend.QualifiedName);
+}
+
+/**
+ * Completes the domain while there is no `.` in the prefix, and the method of the domain afterwards.
+ */
+export function completeCommand(prefix: string): string[] {
+  const [domain, method] = prefix.split('.');
+  const commands = [...ProtocolClient.InspectorBackend.inspectorBackend.getCommandParameters().keys()];
+  if (method === undefined) {
+    const domains = new Set(commands.map(command => command.split('.')[0]));
+    return [...domains].filter(name => name.toLowerCase().startsWith(domain.toLowerCase())).map(name => name + '.');
+  }
+  const lowerCasePrefix = prefix.toLowerCase();
+  return commands.filter(command => command.toLowerCase().startsWith(lowerCasePrefix)).sort();
+}
+
+/**
+ * Turns the text of the parameter fields into the parameters of the command. Empty fields are left out.
+ */
+export function parseParameters(
+    parameters: readonly ProtocolClient.InspectorBackend.CommandParameter[],
+    values: ReadonlyMap<string, string>): ParsedParameters {
+  const result: ParsedParameters = {parameters: {}, errors: new Map()};
+  for (const parameter of parameters) {
+    const text = (values.get(parameter.name) || '').trim();
+    if (!text) {
+      if (!parameter.optional) {
+        result.errors.set(parameter.name, i18nString(UIStrings.parameterIsRequired));
+      }
+      continue;
+    }
+    const value = parseParameterValue(parameter, text);
+    if ('error' in value) {
+      result.errors.set(parameter.name, value.error);
+    } else {
+      result.parameters[parameter.name] = value.value;
+    }
+  }
+  return result;
+}
+
+function parseParameterValue(
+    parameter: ProtocolClient.InspectorBackend.CommandParameter, text: string): {value: unknown}|{error: string} {
+  const enumValues = enumValuesForParameter(parameter);
+  if (enumValues && !enumValues.includes(text)) {
+    return {error: i18nString(UIStrings.mustBeOneOfS, {PH1: enumValues.join(', ')})};
+  }
+  switch (parameter.type) {
+    case 'number': {
+      const value = Number(text);
+      return Number.isNaN(value) ? {error: i18nString(UIStrings.mustBeANumber)} : {value};
+    }
+    case 'boolean':
+      if (text !== 'true' && text !== 'false') {
+        return {error: i18nString(UIStrings.mustBeTrueOrFalse)};
+      }
+      return {value: text === 'true'};
+    case 'object': {
+      let value;
+      try {
+        value = JSON.parse(text);
+      } catch {
+      }
+      return value && typeof value === 'object' ? {value} : {error: i18nString(UIStrings.mustBeAJsonObjectOrArray)};
+    }
+    default:
+      return {value: text};
+  }
+}
+
+export function parameterValueToString(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Fills the dropdown with the sessions of the targets DevTools is attached to, keeping the selected one.
+ */
+export function updateTargetSessionOptions(select: UI.Toolbar.ToolbarComboBox): void {
+  const selectedSessionId = select.selectedOption()?.value;
+  select.removeOptions();
+  for (const target of SDK.TargetManager.TargetManager.instance().targets()) {
+    const option =
+        select.createOption(i18nString(UIStrings.sS, {PH1: target.name(), PH2: target.type()}), target.sessionId);
+    if (target.sessionId === selectedSessionId) {
+      select.select(option);
+    }
+  }
+}
+
+interface ParameterField {
+  parameter: ProtocolClient.InspectorBackend.CommandParameter;
+  control: HTMLInputElement|HTMLSelectElement;
+  errorElement: HTMLElement;
+}
+
+/**
+ * Lets the user fill in the parameters of a command in a form generated from the protocol
+ * definition, and send it to one of the sessions DevTools is attached to.
+ */
+export class CommandEditor extends UI.Widget.VBox implements SDK.TargetManager.Observer {
+  readonly #onSend: (request: CommandRequest) => void;
+  readonly #commandInput: UI.Toolbar.ToolbarInput;
+  readonly #targetSelect: UI.Toolbar.ToolbarComboBox;
+  readonly #formElement: HTMLElement;
+  #fields: ParameterField[] = [];
+  #renderedCommand: string|null = null;
+
+  constructor(onSend: (request: CommandRequest) => void) {
+    super(true);
+    this.#onSend = onSend;
+
+    const toolbar = new UI.Toolbar.Toolbar('protocol-monitor-command-editor-toolbar', this.contentElement);
+    this.#commandInput = new UI.Toolbar.ToolbarInput(
+        i18nString(UIStrings.command), i18nString(UIStrings.command), 1, .2, undefined,
+        async(_expression: string, prefix: string): Promise<UI.SuggestBox.Suggestions> =>
+            completeCommand(prefix).map(text => ({text})),
+        true);
+    this.#commandInput.addEventListener(UI.Toolbar.ToolbarInput.Event.TextChanged, () => this.#renderForm());
+    this.#commandInput.addEventListener(UI.Toolbar.ToolbarInput.Event.EnterPressed, () => this.#send());
+    toolbar.appendToolbarItem(this.#commandInput);
+
+    this.#targetSelect = new UI.Toolbar.ToolbarComboBox(null, i18nString(UIStrings.targetSession));
+    toolbar.appendToolbarItem(this.#targetSelect);
+
+    const sendButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.sendCommand), 'largeicon-play');
+    sendButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => this.#send());
+    toolbar.appendToolbarItem(sendButton);
+
+    this.#formElement = this.contentElement.createChild('div', 'protocol-monitor-command-form');
+    this.#renderForm();
+
+    SDK.TargetManager.TargetManager.instance().observeTargets(this);
+  }
+
+  wasShown(): void {
+    super.wasShown();
+    this.registerCSSFiles([commandEditorStyles]);
+  }
+
+  targetAdded(_target: SDK.Target.Target): void {
+    this.#updateTargets();
+  }
+
+  targetRemoved(_target: SDK.Target.Target): void {
+    this.#updateTargets();
+  }
+
+  setCommand(command: string, parameters: {[name: string]: unknown}|null): void {
+    this.#commandInput.setValue(command);
+    this.#renderForm();
+    for (const {parameter, control} of this.#fields) {
+      control.value = parameterValueToString(parameters?.[parameter.name]);
+    }
+  }
+
+  #updateTargets(): void {
+    updateTargetSessionOptions(this.#targetSelect);
+  }
+
+  #renderForm(): void {
+    const command = this.#commandInput.value().trim();
+    if (command === this.#renderedCommand) {
+      return;
+    }
+    this.#renderedCommand = command;
+    this.#fields = [];
+    this.#formElement.removeChildren();
+    if (!command) {
+      return;
+    }
+    const parameters = commandParameters(command);
+    if (!parameters) {
+      this.#formElement.createChild('div', 'protocol-monitor-command-message').textContent =
+          i18nString(UIStrings.unknownCommand);
+      return;
+    }
+    if (!parameters.length) {
+      this.#formElement.createChild('div', 'protocol-monitor-command-message').textContent =
+          i18nString(UIStrings.noParameters);
+      return;
+    }
+    for (const parameter of parameters) {
+      this.#fields.push(this.#createField(parameter));
+    }
+  }
+
+  #createField(parameter: ProtocolClient.InspectorBackend.CommandParameter): ParameterField {
+    const enumValues = enumValuesForParameter(parameter) || (parameter.type === 'boolean' ? ['true', 'false'] : null);
+    let control: HTMLInputElement|HTMLSelectElement;
+    if (enumValues) {
+      control = UI.UIUtils.createSelect(parameter.name, [i18nString(UIStrings.notSet), ...enumValues]);
+      // The first option stands for a parameter that is left out.
+      (control.options[0] as HTMLOptionElement).value = '';
+    } else {
+      control = UI.UIUtils.createInput('protocol-monitor-parameter-value');
+      control.placeholder = parameter.type === 'object' ? 'JSON' : parameter.type;
+      control.addEventListener('keydown', event => {
+        if (event.key === 'Enter') {
+          this.#send();
+        }
+      });
+    }
+
+    const row = this.#formElement.createChild('div', 'protocol-monitor-parameter');
+    const label = UI.UIUtils.createLabel(parameter.name, 'protocol-monitor-parameter-name', control);
+    label.classList.toggle('required', !parameter.optional);
+    row.appendChild(label);
+    row.createChild('span', 'protocol-monitor-parameter-type').textContent = parameter.typeRef || parameter.type;
+    row.appendChild(control);
+    const errorElement = row.createChild('div', 'protocol-monitor-parameter-error');
+    control.addEventListener('input', () => {
+      errorElement.textContent = '';
+    });
+    UI.ARIAUtils.markAsAlert(errorElement);
+    return {parameter, control, errorElement};
+  }
+
+  #send(): void {
+    const command = this.#commandInput.value().trim();
+    const parameters = commandParameters(command);
+    if (!parameters) {
+      return;
+    }
+    const values = new Map(this.#fields.map(({parameter, control}) => [parameter.name, control.value]));
+    const result = parseParameters(parameters, values);
+    for (const {parameter, errorElement} of this.#fields) {
+      errorElement.textContent = result.errors.get(parameter.name) || '';
+    }
+    if (result.errors.size) {
+      this.#fields.find(({parameter}) => result.errors.has(parameter.name))?.control.focus();
+      return;
+    }
+    this.#onSend({command, parameters: result.parameters, sessionId: this.#targetSelect.selectedOption()?.value || ''});
+  }
+}
@@ -2,6 +2,7 @@
 // Use of this source code is governed by a BSD-style license that can be
 // found in the LICENSE file.
 
+import * as Common from '../../core/common/common.js';
 import * as Host from '../../core/host/host.js';
 import * as i18n from '../../core/i18n/i18n.js';
 import * as Platform from '../../core/platform/platform.js';
@@ -15,7 +16,10 @@ import * as SourceFrame from '../../ui/legacy/components/source_frame/source_fra
 import * as UI from '../../ui/legacy/legacy.js';
 import * as LitHtml from '../../ui/lit-html/lit-html.js';
 
+import {CommandEditor} from './CommandEditor.js';
 import protocolMonitorStyles from './protocolMonitor.css.js';
+import {parseProtocolLog, recordedCommands} from './ProtocolReplay.js';
+import {ProtocolReplayView} from './ProtocolReplayView.js';
 
 const UIStrings = {
   /**
@@ -75,6 +79,10 @@ const UIStrings = {
   */
   save: 'Save',
   /**
+  *@description Tooltip of the button in the Protocol Monitor that loads a saved protocol log to replay it
+  */
+  load: 'Load',
+  /**
   *@description Text in Protocol Monitor to describe the sessions column
   */
   session: 'Session',
@@ -87,6 +95,10 @@ const UIStrings = {
    */
   sendRawCDPCommandExplanation:
       'Format: `\'Domain.commandName\'` for a command without parameters, or `\'{"command":"Domain.commandName", "parameters": {...}}\'` as a JSON object for a command with parameters. `\'cmd\'`/`\'method\'` and `\'args\'`/`\'params\'`/`\'arguments\'` are also supported as alternative keys for the `JSON` object.',
+  /**
+  *@description Tooltip of the button in the Protocol Monitor that shows the editor to fill in the parameters of a command in a form
+  */
+  showCommandEditor: 'Show command editor',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/protocol_monitor/ProtocolMonitor.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
@@ -110,6 +122,10 @@ export interface LogMessage {
   method: string;
   params: Object;
   type: 'send'|'recv';
+  sessionId?: string;
+  // Only set for the responses to commands.
+  result?: Object;
+  error?: Object;
 }
 
 let protocolMonitorImplInstance: ProtocolMonitorImpl;
@@ -126,6 +142,10 @@ export class ProtocolMonitorImpl extends UI.Widget.VBox {
   private isRecording: boolean = false;
 
   #historyAutocompleteDataProvider = new HistoryAutocompleteDataProvider();
+  readonly #commandEditor: CommandEditor;
+  readonly #split: UI.SplitWidget.SplitWidget;
+  readonly #replayView: ProtocolReplayView;
+  readonly #fileSelectorElement: HTMLInputElement;
 
   constructor() {
     super(true);
@@ -159,8 +179,19 @@ export class ProtocolMonitorImpl extends UI.Widget.VBox {
     });
     topToolbar.appendToolbarItem(saveButton);
 
+    this.#fileSelectorElement = UI.UIUtils.createFileSelectorElement(file => void this.#loadFromFile(file));
+    this.contentElement.appendChild(this.#fileSelectorElement);
+    const loadButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.load), 'largeicon-load');
+    loadButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => this.#fileSelectorElement.click());
+    topToolbar.appendToolbarItem(loadButton);
+
     const split = new UI.SplitWidget.SplitWidget(true, true, 'protocol-monitor-panel-split', 250);
     split.show(this.contentElement);
+    this.#split = split;
+    this.#replayView = new ProtocolReplayView(() => {
+      this.#replayView.detach();
+      this.#split.showWidget();
+    });
     this.infoWidget = new InfoWidget();
 
     const dataGridInitialData: DataGrid.DataGridController.DataGridControllerData = {
@@ -295,8 +326,30 @@ export class ProtocolMonitorImpl extends UI.Widget.VBox {
     });
     topToolbar.appendToolbarItem(this.textFilterUI);
 
+    this.#commandEditor = new CommandEditor(({command, parameters, sessionId}) => {
+      this.#sendCommand(command, parameters, sessionId);
+      // Commands sent from the editor can be recalled in the prompt too.
+      this.#historyAutocompleteDataProvider.addEntry(JSON.stringify({command, parameters}));
+    });
     const bottomToolbar = new UI.Toolbar.Toolbar('protocol-monitor-bottom-toolbar', this.contentElement);
-    bottomToolbar.appendToolbarItem(this.#createCommandInput());
+    const commandInput = this.#createCommandInput();
+    bottomToolbar.appendToolbarItem(commandInput);
+    const commandEditorButton = new UI.Toolbar.ToolbarToggle(i18nString(UIStrings.showCommandEditor), 'largeicon-edit');
+    commandEditorButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => {
+      commandEditorButton.setToggled(!commandEditorButton.toggled());
+      if (!commandEditorButton.toggled()) {
+        this.#commandEditor.detach();
+        return;
+      }
+      // Carry over what was typed in the prompt.
+      const value = commandInput.value();
+      if (value) {
+        const {command, parameters} = parseCommandInput(value);
+        this.#commandEditor.setCommand(command, parameters as {[name: string]: unknown} | null);
+      }
+      this.#commandEditor.show(this.contentElement, bottomToolbar.element);
+    });
+    bottomToolbar.appendToolbarItem(commandEditorButton);
   }
 
   #createCommandInput(): UI.Toolbar.ToolbarInput {
@@ -315,12 +368,32 @@ export class ProtocolMonitorImpl extends UI.Widget.VBox {
   #onCommandSend(input: UI.Toolbar.ToolbarInput): void {
     const value = input.value();
     const {command, parameters} = parseCommandInput(value);
+    this.#sendCommand(command, parameters, '');
+    this.#historyAutocompleteDataProvider.addEntry(value);
+  }
+
+  #sendCommand(command: string, parameters: unknown, sessionId: string): void {
     const test = ProtocolClient.InspectorBackend.test;
     // TODO: TS thinks that properties are read-only because
     // in TS test is defined as a namespace.
     // @ts-ignore
-    test.sendRawMessage(command, parameters, () => {});
-    this.#historyAutocompleteDataProvider.addEntry(value);
+    test.sendRawMessage(command, parameters, () => {}, sessionId);
+  }
+
+  async #loadFromFile(file: File): Promise<void> {
+    // Allow loading the same file again.
+    this.#fileSelectorElement.value = '';
+    let commands;
+    try {
+      commands = recordedCommands(parseProtocolLog(await file.text()));
+    } catch (error) {
+      Common.Console.Console.instance().error(
+          `Failed to load protocol log with following error: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    this.#replayView.setLog(file.name, commands);
+    this.#split.hideWidget();
+    this.#replayView.show(this.contentElement, this.#split.element);
   }
 
   static instance(opts: {forceNew: null|boolean} = {forceNew: null}): ProtocolMonitorImpl {
@@ -0,0 +1,231 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import {type LogMessage} from './ProtocolMonitor.js';
+
+export interface RecordedResponse {
+  result?: unknown;
+  error?: unknown;
+}
+
+export interface RecordedCommand {
+  id: number;
+  method: string;
+  params: {[name: string]: unknown};
+  sessionId?: string;
+  // Null if the log ends before the response was received.
+  response: RecordedResponse|null;
+}
+
+export interface ResponseDifference {
+  // E.g. `result.nodes[0].nodeName`.
+  path: string;
+  recorded: unknown;
+  replayed: unknown;
+}
+
+export interface ReplayResult {
+  command: RecordedCommand;
+  // The parameters that were sent, after ids were substituted.
+  params: {[name: string]: unknown};
+  response: RecordedResponse;
+  differences: ResponseDifference[];
+}
+
+export type SendCommand = (method: string, params: {[name: string]: unknown}, sessionId: string) =>
+    Promise<RecordedResponse>;
+
+/**
+ * Parses a log saved by the Protocol Monitor. Throws if the text isn't such a log.
+ */
+export function parseProtocolLog(text: string): LogMessage[] {
+  const log = JSON.parse(text);
+  if (!Array.isArray(log)) {
+    throw new Error('Expected an array of protocol messages');
+  }
+  for (const message of log) {
+    if (!message || typeof message !== 'object' || (message.type !== 'send' && message.type !== 'recv')) {
+      throw new Error('Expected every protocol message to have a type of either "send" or "recv"');
+    }
+    if (message.type === 'send' && (typeof message.id !== 'number' || typeof message.method !== 'string')) {
+      throw new Error('Expected every sent protocol message to have an id and a method');
+    }
+  }
+  return log;
+}
+
+/**
+ * Returns the commands sent in the log, paired with the responses they got.
+ */
+export function recordedCommands(log: LogMessage[]): RecordedCommand[] {
+  const commands = new Map<number, RecordedCommand>();
+  for (const message of log) {
+    if (message.type === 'send' && message.id !== undefined) {
+      commands.set(message.id, {
+        id: message.id,
+        method: message.method,
+        params: (message.params || {}) as {[name: string]: unknown},
+        sessionId: message.sessionId,
+        response: null,
+      });
+      continue;
+    }
+    // Events have no id.
+    const command = message.id !== undefined ? commands.get(message.id) : undefined;
+    if (message.type === 'recv' && command) {
+      command.response = {result: message.result, error: message.error};
+    }
+  }
+  return [...commands.values()];
+}
+
+// Matches `nodeId`, `requestId`, `backendNodeIds`, plain `id` and the like.
+const idKeyRegex = /^id$|[a-z]Ids?$/;
+
+// `nodeIds` holds the same kind of ids as `nodeId`.
+function idKind(key: string): string {
+  return key.replace(/Ids$/, 'Id');
+}
+
+function isObject(value: unknown): value is {[key: string]: unknown} {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Ids handed out by the backend, like `nodeId` or `requestId`, differ between the recording and
+ * the replay. This learns which replayed id stands for which recorded one by comparing the
+ * responses, so that the ids can be replaced in the parameters of later commands. Ids are told
+ * apart by the name of their field, so that e.g. a `nodeId` is never replaced by the substitute of
+ * an equal `backendNodeId`. Ids that are only sent in events are not learned.
+ */
+export class IdSubstitutions {
+  // Keyed by the kind of the id and the recorded id.
+  readonly #replayedIds = new Map<string, unknown>();
+
+  static #key(idKey: string, recorded: unknown): string {
+    return `${idKind(idKey)}:${JSON.stringify(recorded)}`;
+  }
+
+  learn(recorded: unknown, replayed: unknown): void {
+    if (!isObject(recorded) || !isObject(replayed)) {
+      return;
+    }
+    for (const [key, value] of Object.entries(recorded)) {
+      if (idKeyRegex.test(key)) {
+        this.#learnId(key, value, replayed[key]);
+      } else {
+        this.learn(value, replayed[key]);
+      }
+    }
+  }
+
+  #learnId(idKey: string, recorded: unknown, replayed: unknown): void {
+    if (Array.isArray(recorded) && Array.isArray(replayed)) {
+      recorded.forEach((value, index) => this.#learnId(idKey, value, replayed[index]));
+    } else if (isObject(recorded)) {
+      this.learn(recorded, replayed);
+    } else if (
+        (typeof recorded === 'string' || typeof recorded === 'number') && typeof replayed === typeof recorded &&
+        recorded !== replayed) {
+      this.#replayedIds.set(IdSubstitutions.#key(idKey, recorded), replayed);
+    }
+  }
+
+  apply<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map(item => this.apply(item)) as unknown as T;
+    }
+    if (!isObject(value)) {
+      return value;
+    }
+    const result: {[key: string]: unknown} = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = idKeyRegex.test(key) ? this.#applyToId(key, item) : this.apply(item);
+    }
+    return result as T;
+  }
+
+  #applyToId(idKey: string, value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.#applyToId(idKey, item));
+    }
+    if (isObject(value)) {
+      return this.apply(value);
+    }
+    const key = IdSubstitutions.#key(idKey, value);
+    return this.#replayedIds.has(key) ? this.#replayedIds.get(key) : value;
+  }
+
+  // Whether the replayed value of the field is the substitute of the recorded one.
+  isSubstitute(idKey: string, recorded: unknown, replayed: unknown): boolean {
+    if (!idKeyRegex.test(idKey) || recorded === undefined) {
+      return false;
+    }
+    const key = IdSubstitutions.#key(idKey, recorded);
+    return this.#replayedIds.has(key) && this.#replayedIds.get(key) === replayed;
+  }
+}
+
+/**
+ * Compares a replayed response with the recorded one. Ids that were substituted count as equal.
+ */
+export function diffResponses(
+    recorded: RecordedResponse, replayed: RecordedResponse,
+    substitutions: IdSubstitutions|null = null): ResponseDifference[] {
+  const differences: ResponseDifference[] = [];
+  diffValues('', '', recorded, replayed);
+  return differences;
+
+  // The items of arrays are compared under the key of the array, e.g. `nodeIds`.
+  function diffValues(path: string, key: string, recordedValue: unknown, replayedValue: unknown): void {
+    if (recordedValue === replayedValue || substitutions?.isSubstitute(key, recordedValue, replayedValue)) {
+      return;
+    }
+    if (isObject(recordedValue) && isObject(replayedValue) &&
+        Array.isArray(recordedValue) === Array.isArray(replayedValue)) {
+      const isArray = Array.isArray(recordedValue);
+      const childKeys = new Set([...Object.keys(recordedValue), ...Object.keys(replayedValue)]);
+      for (const childKey of childKeys) {
+        const childPath = isArray ? `${path}[${childKey}]` : (path ? `${path}.${childKey}` : childKey);
+        diffValues(childPath, isArray ? key : childKey, recordedValue[childKey], replayedValue[childKey]);
+      }
+      return;
+    }
+    differences.push({path, recorded: recordedValue, replayed: replayedValue});
+  }
+}
+
+// The sessions the commands were recorded in, where the empty string stands for the main session.
+export function recordedSessionIds(commands: RecordedCommand[]): string[] {
+  return [...new Set(commands.map(command => command.sessionId ?? ''))];
+}
+
+/**
+ * Sends the commands one after the other, each one once the previous one got its response. Each
+ * command is sent to the session that `sessionIds` maps its recorded session to. Throws before
+ * sending anything if the recorded session of a command is not mapped.
+ */
+export async function replayCommands(
+    commands: RecordedCommand[], send: SendCommand, options: {sessionIds: Map<string, string>, substituteIds: boolean},
+    onResult?: (result: ReplayResult) => void): Promise<ReplayResult[]> {
+  const unmappedSessionIds = recordedSessionIds(commands).filter(sessionId => !options.sessionIds.has(sessionId));
+  if (unmappedSessionIds.length) {
+    throw new Error(`No session to replay the commands of the recorded sessions ${unmappedSessionIds.join(', ')}`);
+  }
+  const substitutions = options.substituteIds ? new IdSubstitutions() : null;
+  const results = [];
+  for (const command of commands) {
+    const params = substitutions ? substitutions.apply(command.params) : command.params;
+    const sessionId = options.sessionIds.get(command.sessionId ?? '') as string;
+    const response = await send(command.method, params, sessionId);
+    if (substitutions && command.response) {
+      substitutions.learn(command.response.result, response.result);
+    }
+    const differences = command.response ? diffResponses(command.response, response, substitutions) : [];
+    const result = {command, params, response, differences};
+    results.push(result);
+    onResult?.(result);
+  }
+  return results;
+}
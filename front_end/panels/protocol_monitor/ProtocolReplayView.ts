@@ -0,0 +1,305 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as i18n from '../../core/i18n/i18n.js';
+import * as ProtocolClient from '../../core/protocol_client/protocol_client.js';
+import * as SDK from '../../core/sdk/sdk.js';
+import * as UI from '../../ui/legacy/legacy.js';
+
+import {updateTargetSessionOptions} from './CommandEditor.js';
+import protocolReplayViewStyles from './protocolReplayView.css.js';
+
+import {
+  recordedSessionIds,
+  replayCommands,
+  type RecordedCommand,
+  type RecordedResponse,
+  type ReplayResult,
+} from './ProtocolReplay.js';
+
+const UIStrings = {
+  /**
+  *@description Text in the toolbar of the replay view of the Protocol Monitor
+  *@example {ProtocolMonitor-20220601T100000.json} PH1
+  */
+  replayingS: 'Replaying {PH1}',
+  /**
+  *@description Title of the dropdown in the replay view of the Protocol Monitor to choose where the commands are sent
+  */
+  targetSession: 'Target session',
+  /**
+  *@description Label of the checkbox in the replay view of the Protocol Monitor that turns on replacing ids like nodeId in the replayed commands
+  */
+  substituteIds: 'Substitute ids',
+  /**
+  *@description Tooltip of the checkbox in the replay view of the Protocol Monitor that turns on replacing ids like nodeId in the replayed commands
+  */
+  substituteIdsTooltip:
+      'Replace ids such as `nodeId` or `requestId` in the parameters with the ids returned by the replayed commands',
+  /**
+  *@description Tooltip of the button that replays the selected commands in the Protocol Monitor
+  */
+  replaySelectedCommands: 'Replay selected commands',
+  /**
+  *@description Tooltip of the button that closes the replay view of the Protocol Monitor
+  */
+  closeReplay: 'Close replay',
+  /**
+  *@description Text shown in the replay view of the Protocol Monitor when the loaded log has no commands
+  */
+  noCommandsInLog: 'The log has no commands',
+  /**
+  *@description Text shown in the replay view of the Protocol Monitor next to a command that was not replayed yet
+  */
+  notReplayed: 'Not replayed',
+  /**
+  *@description Text shown in the replay view of the Protocol Monitor next to a command that is being replayed
+  */
+  replaying: 'Replaying…',
+  /**
+  *@description Text shown in the replay view of the Protocol Monitor when a replayed command got the same response as in the recording
+  */
+  sameResponse: 'Same response',
+  /**
+  *@description Text shown in the replay view of the Protocol Monitor when a replayed command got a different response than in the recording
+  */
+  differentResponse: 'Different response',
+  /**
+  *@description Text shown in the replay view of the Protocol Monitor when the recording has no response for a command
+  */
+  noRecordedResponse: 'No recorded response',
+  /**
+  *@description Text shown in the replay view of the Protocol Monitor when no command is selected to show the details of
+  */
+  selectACommand: 'Select a replayed command to compare its responses',
+  /**
+  *@description Title of a column in the replay view of the Protocol Monitor with the location of a difference in a response
+  */
+  path: 'Path',
+  /**
+  *@description Title of a column in the replay view of the Protocol Monitor with the recorded values
+  */
+  recorded: 'Recorded',
+  /**
+  *@description Title of a column in the replay view of the Protocol Monitor with the values of the replay
+  */
+  replayed: 'Replayed',
+  /**
+  *@description Text in the replay view of the Protocol Monitor before the parameters that were sent for a command
+  */
+  sentParameters: 'Sent parameters',
+  /**
+  *@description Text in the toolbar of the replay view of the Protocol Monitor when the selected commands were recorded in more than one session, so that they cannot be sent to a single target
+  */
+  selectCommandsOfOneSession:
+      'The selected commands were recorded in several sessions. Select the commands of one session.',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/protocol_monitor/ProtocolReplayView.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+interface CommandRow {
+  command: RecordedCommand;
+  element: HTMLElement;
+  checkbox: HTMLInputElement;
+  statusElement: HTMLElement;
+  result: ReplayResult|null;
+}
+
+// Commands that get no response, e.g. because the target went away while they were sent, fail after this time.
+const ResponseTimeoutMs = 10000;
+
+function sendCommand(method: string, params: {[name: string]: unknown}, sessionId: string): Promise<RecordedResponse> {
+  // Messages to sessions that no longer exist are dropped without a response.
+  if (!SDK.TargetManager.TargetManager.instance().targets().some(target => target.sessionId === sessionId)) {
+    return Promise.resolve({error: {message: `Session ${sessionId} does not exist`}});
+  }
+  return new Promise(resolve => {
+    const timeout = window.setTimeout(
+        () => resolve({error: {message: `No response within ${ResponseTimeoutMs / 1000} seconds`}}), ResponseTimeoutMs);
+    const test = ProtocolClient.InspectorBackend.test;
+    // TODO: TS thinks that properties are read-only because
+    // in TS test is defined as a namespace.
+    // @ts-ignore
+    test.sendRawMessage(method, params, (error: unknown, result: unknown) => {
+      window.clearTimeout(timeout);
+      resolve({result: result || undefined, error: error || undefined});
+    }, sessionId);
+  });
+}
+
+/**
+ * Shows the commands of a saved protocol log, replays a selection of them and compares the
+ * responses with the recorded ones.
+ */
+export class ProtocolReplayView extends UI.Widget.VBox {
+  readonly #titleElement: HTMLElement;
+  readonly #messageItem: UI.Toolbar.ToolbarText;
+  readonly #targetSelect: UI.Toolbar.ToolbarComboBox;
+  readonly #substituteIdsCheckbox: UI.Toolbar.ToolbarCheckbox;
+  readonly #replayButton: UI.Toolbar.ToolbarButton;
+  readonly #commandsElement: HTMLElement;
+  readonly #detailsElement: HTMLElement;
+  #rows: CommandRow[] = [];
+  #lastClickedRow: CommandRow|null = null;
+  #selectedRow: CommandRow|null = null;
+
+  constructor(onClose: () => void) {
+    super(true);
+
+    const toolbar = new UI.Toolbar.Toolbar('protocol-replay-toolbar', this.contentElement);
+    this.#titleElement = document.createElement('span');
+    this.#titleElement.classList.add('protocol-replay-title');
+    toolbar.appendToolbarItem(new UI.Toolbar.ToolbarItem(this.#titleElement));
+    this.#messageItem = new UI.Toolbar.ToolbarText();
+    toolbar.appendToolbarItem(this.#messageItem);
+    toolbar.appendSpacer();
+    this.#targetSelect = new UI.Toolbar.ToolbarComboBox(null, i18nString(UIStrings.targetSession));
+    toolbar.appendToolbarItem(this.#targetSelect);
+    this.#substituteIdsCheckbox =
+        new UI.Toolbar.ToolbarCheckbox(i18nString(UIStrings.substituteIds), i18nString(UIStrings.substituteIdsTooltip));
+    this.#substituteIdsCheckbox.setChecked(true);
+    toolbar.appendToolbarItem(this.#substituteIdsCheckbox);
+    this.#replayButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.replaySelectedCommands), 'largeicon-play');
+    this.#replayButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => void this.#replay());
+    toolbar.appendToolbarItem(this.#replayButton);
+    const closeButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.closeReplay), 'largeicon-delete');
+    closeButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, onClose);
+    toolbar.appendToolbarItem(closeButton);
+
+    this.#commandsElement = this.contentElement.createChild('div', 'protocol-replay-commands');
+    this.#detailsElement = this.contentElement.createChild('div', 'protocol-replay-details');
+  }
+
+  wasShown(): void {
+    super.wasShown();
+    this.registerCSSFiles([protocolReplayViewStyles]);
+    updateTargetSessionOptions(this.#targetSelect);
+  }
+
+  setLog(title: string, commands: RecordedCommand[]): void {
+    this.#titleElement.textContent = i18nString(UIStrings.replayingS, {PH1: title});
+    this.#commandsElement.removeChildren();
+    this.#rows = commands.map(command => this.#createRow(command));
+    this.#lastClickedRow = null;
+    this.#selectRow(null);
+    if (!commands.length) {
+      this.#commandsElement.createChild('div', 'protocol-replay-message').textContent =
+          i18nString(UIStrings.noCommandsInLog);
+    }
+  }
+
+  #createRow(command: RecordedCommand): CommandRow {
+    const element = this.#commandsElement.createChild('div', 'protocol-replay-command');
+    const checkboxLabel = UI.UIUtils.CheckboxLabel.create(command.method, true);
+    element.appendChild(checkboxLabel);
+    element.createChild('span', 'protocol-replay-params').textContent = JSON.stringify(command.params);
+    const statusElement = element.createChild('span', 'protocol-replay-status');
+    statusElement.textContent = i18nString(UIStrings.notReplayed);
+    const row = {command, element, checkbox: checkboxLabel.checkboxElement, statusElement, result: null};
+
+    // Shift-click selects or unselects all the commands since the last click.
+    row.checkbox.addEventListener('click', event => {
+      const lastClickedRow = this.#lastClickedRow;
+      this.#lastClickedRow = row;
+      if (!event.shiftKey || !lastClickedRow) {
+        return;
+      }
+      const from = this.#rows.indexOf(lastClickedRow);
+      const to = this.#rows.indexOf(row);
+      for (const rowInRange of this.#rows.slice(Math.min(from, to), Math.max(from, to) + 1)) {
+        rowInRange.checkbox.checked = row.checkbox.checked;
+      }
+    });
+    element.addEventListener('click', event => {
+      if (event.target !== row.checkbox) {
+        this.#selectRow(row);
+      }
+    });
+    return row;
+  }
+
+  async #replay(): Promise<void> {
+    const rows = this.#rows.filter(row => row.checkbox.checked);
+    this.#messageItem.setText('');
+    if (!rows.length) {
+      return;
+    }
+    // The selected target stands for the session the commands were recorded in.
+    const recordedSessions = recordedSessionIds(rows.map(row => row.command));
+    if (recordedSessions.length > 1) {
+      this.#messageItem.setText(i18nString(UIStrings.selectCommandsOfOneSession));
+      return;
+    }
+    this.#replayButton.setEnabled(false);
+    for (const row of rows) {
+      row.result = null;
+      row.statusElement.textContent = i18nString(UIStrings.replaying);
+      row.element.classList.remove('protocol-replay-same', 'protocol-replay-different');
+    }
+    const rowForCommand = new Map(rows.map(row => [row.command, row]));
+    const sessionId = this.#targetSelect.selectedOption()?.value || '';
+    const sessionIds = new Map([[recordedSessions[0], sessionId]]);
+    try {
+      await replayCommands(
+          rows.map(row => row.command), sendCommand, {sessionIds, substituteIds: this.#substituteIdsCheckbox.checked()},
+          result => {
+            const row = rowForCommand.get(result.command);
+            if (row) {
+              this.#showResult(row, result);
+            }
+          });
+    } finally {
+      this.#replayButton.setEnabled(true);
+    }
+  }
+
+  #showResult(row: CommandRow, result: ReplayResult): void {
+    row.result = result;
+    const same = Boolean(row.command.response) && !result.differences.length;
+    if (!row.command.response) {
+      row.statusElement.textContent = i18nString(UIStrings.noRecordedResponse);
+    } else {
+      row.statusElement.textContent =
+          same ? i18nString(UIStrings.sameResponse) : i18nString(UIStrings.differentResponse);
+    }
+    row.element.classList.toggle('protocol-replay-same', same);
+    row.element.classList.toggle('protocol-replay-different', Boolean(row.command.response) && !same);
+    if (row === this.#selectedRow) {
+      this.#selectRow(row);
+    }
+  }
+
+  #selectRow(row: CommandRow|null): void {
+    this.#selectedRow?.element.classList.remove('selected');
+    this.#selectedRow = row;
+    row?.element.classList.add('selected');
+
+    this.#detailsElement.removeChildren();
+    const result = row?.result;
+    if (!result) {
+      this.#detailsElement.createChild('div', 'protocol-replay-message').textContent =
+          i18nString(UIStrings.selectACommand);
+      return;
+    }
+    const sentElement = this.#detailsElement.createChild('div', 'protocol-replay-sent');
+    sentElement.createChild('span', 'protocol-replay-label').textContent = i18nString(UIStrings.sentParameters);
+    sentElement.createChild('span', 'protocol-replay-params').textContent = JSON.stringify(result.params);
+    if (!result.command.response || !result.differences.length) {
+      this.#detailsElement.createChild('div', 'protocol-replay-message').textContent =
+          result.command.response ? i18nString(UIStrings.sameResponse) : i18nString(UIStrings.noRecordedResponse);
+      return;
+    }
+    const table = this.#detailsElement.createChild('table', 'protocol-replay-differences');
+    const header = table.createChild('tr');
+    header.createChild('th').textContent = i18nString(UIStrings.path);
+    header.createChild('th').textContent = i18nString(UIStrings.recorded);
+    header.createChild('th').textContent = i18nString(UIStrings.replayed);
+    for (const {path, recorded, replayed} of result.differences) {
+      const tableRow = table.createChild('tr');
+      tableRow.createChild('td').textContent = path;
+      tableRow.createChild('td').textContent = recorded === undefined ? '–' : JSON.stringify(recorded);
+      tableRow.createChild('td').textContent = replayed === undefined ? '–' : JSON.stringify(replayed);
+    }
+  }
+}
@@ -2,10 +2,19 @@
 // Use of this source code is governed by a BSD-style license that can be
 // found in the LICENSE file.
 
+import './CommandEditor.js';
 import './ProtocolMonitor.js';
+import './ProtocolReplay.js';
+import './ProtocolReplayView.js';
 
+import * as CommandEditor from './CommandEditor.js';
 import * as ProtocolMonitor from './ProtocolMonitor.js';
+import * as ProtocolReplay from './ProtocolReplay.js';
+import * as ProtocolReplayView from './ProtocolReplayView.js';
 
 export {
+  CommandEditor,
   ProtocolMonitor,
+  ProtocolReplay,
+  ProtocolReplayView,
 };
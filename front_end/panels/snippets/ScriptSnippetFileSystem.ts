@@ -36,6 +36,10 @@ function unescapeSnippetName(name: Platform.DevToolsPath.EncodedPathString): Pla
   return Common.ParsedURL.ParsedURL.encodedPathToRawPathString(name);
 }
 
+function snippetsSetting(): Common.Settings.Setting<Snippet[]> {
+  return Common.Settings.Settings.instance().createSetting('scriptSnippets', []);
+}
+
 export class SnippetFileSystem extends Persistence.PlatformFileSystem.PlatformFileSystem {
   private readonly lastSnippetIdentifierSetting: Common.Settings.Setting<number>;
   private readonly snippetsSetting: Common.Settings.Setting<Snippet[]>;
@@ -43,7 +47,7 @@ export class SnippetFileSystem extends Persistence.PlatformFileSystem.PlatformFi
     super('snippet://' as Platform.DevToolsPath.UrlString, 'snippets');
     this.lastSnippetIdentifierSetting =
         Common.Settings.Settings.instance().createSetting('scriptSnippets_lastIdentifier', 0);
-    this.snippetsSetting = Common.Settings.Settings.instance().createSetting('scriptSnippets', []);
+    this.snippetsSetting = snippetsSetting();
   }
 
   initialFilePaths(): Platform.DevToolsPath.EncodedPathString[] {
@@ -220,7 +224,33 @@ export function findSnippetsProject(): Workspace.Workspace.Project {
 
   return workspaceProject;
 }
+
+export function snippetCellOutputs(uiSourceCode: Workspace.UISourceCode.UISourceCode): (SnippetCellOutput|null)[] {
+  const snippet = snippetsSetting().get().find(snippet => snippet.name === uiSourceCode.name());
+  return snippet?.cellOutputs ?? [];
+}
+
+export function setSnippetCellOutputs(
+    uiSourceCode: Workspace.UISourceCode.UISourceCode, cellOutputs: (SnippetCellOutput|null)[]): void {
+  const snippets = snippetsSetting().get();
+  const snippet = snippets.find(snippet => snippet.name === uiSourceCode.name());
+  if (snippet) {
+    snippet.cellOutputs = cellOutputs;
+    snippetsSetting().set(snippets);
+  }
+}
+
+export interface SnippetCellOutput {
+  // The code of the cell when it was run, so that outdated outputs can be told apart.
+  code: string;
+  // The result without an object id, as it outlives the execution context.
+  result: Protocol.Runtime.RemoteObject;
+  wasThrown: boolean;
+}
+
 export interface Snippet {
   name: Platform.DevToolsPath.RawPathString;
   content: string;
+  // The outputs of the cells of the snippet when it is run as a notebook in the Console, by cell index.
+  cellOutputs?: (SnippetCellOutput|null)[];
 }
@@ -3,6 +3,7 @@
 // found in the LICENSE file.
 
 import * as i18n from '../../core/i18n/i18n.js';
+import * as Bindings from '../../models/bindings/bindings.js';
 import * as CodeMirror from '../../third_party/codemirror.next/codemirror.next.js';
 import * as TextEditor from '../../ui/components/text_editor/text_editor.js';
 import * as UI from '../../ui/legacy/legacy.js';
@@ -45,26 +46,94 @@ const UIStrings = {
   *@description Type selector element title in Breakpoint Edit Dialog of the Sources panel
   */
   logAMessageToConsoleDoNotBreak: 'Log a message to Console, do not break',
+  /**
+  *@description Text in Breakpoint Edit Dialog of the Sources panel for a breakpoint that only pauses on some of the times that it is reached
+  */
+  hitCountBreakpoint: 'Hit count breakpoint',
+  /**
+  *@description Text in Breakpoint Edit Dialog of the Sources panel for a breakpoint that only pauses after another breakpoint has paused
+  */
+  dependentBreakpoint: 'Dependent breakpoint',
+  /**
+  *@description Text in Breakpoint Edit Dialog of the Sources panel. It is used as the placeholder for the condition of a hit count breakpoint or a dependent breakpoint, which can be left empty.
+  */
+  optionalExpressionToCheckBeforePausing: 'Optional expression to check before pausing, e.g. x > 5',
+  /**
+  *@description Type selector element title in Breakpoint Edit Dialog of the Sources panel
+  */
+  pauseOnlyOnSomeOfTheHits: 'Pause only on some of the times the breakpoint is reached',
+  /**
+  *@description Type selector element title in Breakpoint Edit Dialog of the Sources panel
+  */
+  pauseOnlyAfterAnotherBreakpoint: 'Pause only after another breakpoint has paused',
+  /**
+  *@description Screen reader label for a select box in Breakpoint Edit Dialog of the Sources panel that chooses how the number of hits of a breakpoint is compared with the number next to it
+  */
+  hitCountComparison: 'Hit count comparison',
+  /**
+  *@description Option of a select box in Breakpoint Edit Dialog of the Sources panel, followed by a number input. The breakpoint pauses only when it is reached for the given time.
+  */
+  hitCountEquals: 'Hit count equals',
+  /**
+  *@description Option of a select box in Breakpoint Edit Dialog of the Sources panel, followed by a number input. The breakpoint pauses every time the number of hits is a multiple of the given number.
+  */
+  hitCountIsAMultipleOf: 'Hit count is a multiple of',
+  /**
+  *@description Option of a select box in Breakpoint Edit Dialog of the Sources panel, followed by a number input. The breakpoint pauses every time after it was reached for the given number of times.
+  */
+  hitCountIsGreaterThan: 'Hit count is greater than',
+  /**
+  *@description Screen reader label for a number input in Breakpoint Edit Dialog of the Sources panel that sets the number of hits of a breakpoint
+  */
+  hitCount: 'Hit count',
+  /**
+  *@description Screen reader label for a select box in Breakpoint Edit Dialog of the Sources panel that chooses the breakpoint that needs to pause before the edited breakpoint pauses
+  */
+  triggerBreakpoint: 'Trigger breakpoint',
+  /**
+  *@description Error message in Breakpoint Edit Dialog of the Sources panel when the number of hits of a hit count breakpoint is not valid
+  */
+  hitCountMustBeAPositiveInteger: 'Hit count must be a positive integer.',
+  /**
+  *@description Error message in Breakpoint Edit Dialog of the Sources panel when no trigger breakpoint is chosen for a dependent breakpoint
+  */
+  selectTheTriggerBreakpoint: 'Select the breakpoint that has to pause first.',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/sources/BreakpointEditDialog.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
 
+export interface BreakpointEditDialogResult {
+  committed: boolean;
+  condition: string;
+  hitOptions: Bindings.BreakpointManager.HitOptions;
+}
+
+// A breakpoint that can be chosen as the trigger of a dependent breakpoint.
+export interface TriggerBreakpointCandidate {
+  id: string;
+  title: string;
+}
+
 export class BreakpointEditDialog extends UI.Widget.Widget {
-  private readonly onFinish: (arg0: {
-    committed: boolean,
-    condition: string,
-  }) => Promise<void>;
+  private readonly onFinish: (arg0: BreakpointEditDialogResult) => Promise<void>;
   private finished: boolean;
   private editor: TextEditor.TextEditor.TextEditor;
   private isLogpoint: boolean;
   private readonly typeSelector: UI.Toolbar.ToolbarComboBox;
+  private readonly hitCountModeSelector: UI.Toolbar.ToolbarComboBox;
+  private readonly hitCountInput: HTMLInputElement;
+  private readonly hitCountInputItem: UI.Toolbar.ToolbarItem;
+  private readonly triggerSelector: UI.Toolbar.ToolbarComboBox;
+  private readonly errorElement: HTMLElement;
   private placeholderCompartment: CodeMirror.Compartment;
 
   constructor(
       editorLineNumber: number,
       oldCondition: string,
       preferLogpoint: boolean,
-      onFinish: (arg0: {committed: boolean, condition: string}) => Promise<void>,
+      onFinish: (arg0: BreakpointEditDialogResult) => Promise<void>,
+      oldHitOptions: Bindings.BreakpointManager.HitOptions = Bindings.BreakpointManager.NO_HIT_OPTIONS,
+      triggerCandidates: TriggerBreakpointCandidate[] = [],
   ) {
     super(true);
 
@@ -100,9 +169,61 @@ export class BreakpointEditDialog extends UI.Widget.Widget {
     const conditionalOption =
         this.typeSelector.createOption(i18nString(UIStrings.conditionalBreakpoint), BreakpointType.Conditional);
     const logpointOption = this.typeSelector.createOption(i18nString(UIStrings.logpoint), BreakpointType.Logpoint);
-    this.typeSelector.select(this.isLogpoint ? logpointOption : conditionalOption);
+    const hitCountOption =
+        this.typeSelector.createOption(i18nString(UIStrings.hitCountBreakpoint), BreakpointType.HitCount);
+    const dependentOption = triggerCandidates.length || oldHitOptions.triggerBreakpointId ?
+        this.typeSelector.createOption(i18nString(UIStrings.dependentBreakpoint), BreakpointType.Dependent) :
+        null;
+    if (this.isLogpoint) {
+      this.typeSelector.select(logpointOption);
+    } else if (oldHitOptions.hitCount) {
+      this.typeSelector.select(hitCountOption);
+    } else if (oldHitOptions.triggerBreakpointId && dependentOption) {
+      this.typeSelector.select(dependentOption);
+    } else {
+      this.typeSelector.select(conditionalOption);
+    }
     toolbar.appendToolbarItem(this.typeSelector);
 
+    this.hitCountModeSelector = new UI.Toolbar.ToolbarComboBox(null, i18nString(UIStrings.hitCountComparison));
+    this.hitCountModeSelector.createOption(
+        i18nString(UIStrings.hitCountEquals), Bindings.BreakpointManager.HitCountMode.EQUAL);
+    this.hitCountModeSelector.createOption(
+        i18nString(UIStrings.hitCountIsAMultipleOf), Bindings.BreakpointManager.HitCountMode.MULTIPLE);
+    this.hitCountModeSelector.createOption(
+        i18nString(UIStrings.hitCountIsGreaterThan), Bindings.BreakpointManager.HitCountMode.GREATER);
+    const oldHitCountMode = oldHitOptions.hitCount?.mode;
+    const oldHitCountModeOption = this.hitCountModeSelector.options().find(option => option.value === oldHitCountMode);
+    if (oldHitCountModeOption) {
+      this.hitCountModeSelector.select(oldHitCountModeOption);
+    }
+    toolbar.appendToolbarItem(this.hitCountModeSelector);
+    this.hitCountInput = UI.UIUtils.createInput('hit-count-input', 'number');
+    this.hitCountInput.min = '1';
+    this.hitCountInput.value = oldHitOptions.hitCount ? String(oldHitOptions.hitCount.count) : '';
+    UI.ARIAUtils.setAccessibleName(this.hitCountInput, i18nString(UIStrings.hitCount));
+    this.hitCountInput.addEventListener('keydown', event => {
+      if (event.key === 'Enter') {
+        this.finishEditing(true, this.editor.state.doc.toString());
+        event.consume(true);
+      } else if (event.key === 'Escape') {
+        this.finishEditing(false, '');
+        event.consume(true);
+      }
+    });
+    this.hitCountInputItem = new UI.Toolbar.ToolbarItem(this.hitCountInput);
+    toolbar.appendToolbarItem(this.hitCountInputItem);
+
+    this.triggerSelector = new UI.Toolbar.ToolbarComboBox(null, i18nString(UIStrings.triggerBreakpoint));
+    for (const candidate of triggerCandidates) {
+      const option = this.triggerSelector.createOption(candidate.title, candidate.id);
+      if (candidate.id === oldHitOptions.triggerBreakpointId) {
+        this.triggerSelector.select(option);
+      }
+    }
+    toolbar.appendToolbarItem(this.triggerSelector);
+    this.updateHitOptionsVisibility();
+
     const content = oldCondition || '';
     const finishIfComplete = (view: CodeMirror.EditorView): boolean => {
       void TextEditor.JavaScript.isExpressionComplete(view.state.doc.toString()).then((complete): void => {
@@ -152,12 +273,16 @@ export class BreakpointEditDialog extends UI.Widget.Widget {
     }));
     editorWrapper.appendChild(this.editor);
 
+    this.errorElement = this.contentElement.createChild('div', 'breakpoint-edit-dialog-error');
+    this.errorElement.hidden = true;
+
     this.updateTooltip();
 
     this.element.addEventListener('blur', event => {
       if (!event.relatedTarget ||
           (event.relatedTarget && !(event.relatedTarget as Node).isSelfOrDescendant(this.element))) {
-        this.finishEditing(true, this.editor.state.doc.toString());
+        // Leaving the dialog with invalid hit options discards the changes, as the dialog cannot stay open.
+        this.finishEditing(this.hitOptions !== null, this.editor.state.doc.toString());
       }
     }, true);
   }
@@ -178,6 +303,42 @@ export class BreakpointEditDialog extends UI.Widget.Widget {
     }
     this.editor.dispatch({effects: this.placeholderCompartment.reconfigure(this.getPlaceholder())});
     this.updateTooltip();
+    this.updateHitOptionsVisibility();
+    this.errorElement.hidden = true;
+    if (type === BreakpointType.HitCount) {
+      this.hitCountInput.focus();
+    }
+  }
+
+  private updateHitOptionsVisibility(): void {
+    const type = this.breakpointType;
+    this.hitCountModeSelector.setVisible(type === BreakpointType.HitCount);
+    this.hitCountInputItem.setVisible(type === BreakpointType.HitCount);
+    this.triggerSelector.setVisible(type === BreakpointType.Dependent);
+  }
+
+  // The hit options of the chosen type, or null if they are not valid.
+  private get hitOptions(): Bindings.BreakpointManager.HitOptions|null {
+    const type = this.breakpointType;
+    if (type === BreakpointType.HitCount) {
+      const count = Number(this.hitCountInput.value);
+      const mode = this.hitCountModeSelector.selectedOption()?.value as Bindings.BreakpointManager.HitCountMode;
+      return Number.isInteger(count) && count > 0 ? {hitCount: {mode, count}, triggerBreakpointId: null} : null;
+    }
+    if (type === BreakpointType.Dependent) {
+      const triggerBreakpointId = this.triggerSelector.selectedOption()?.value;
+      return triggerBreakpointId ? {hitCount: null, triggerBreakpointId} : null;
+    }
+    return Bindings.BreakpointManager.NO_HIT_OPTIONS;
+  }
+
+  private showHitOptionsError(): void {
+    const message = this.breakpointType === BreakpointType.HitCount ?
+        i18nString(UIStrings.hitCountMustBeAPositiveInteger) :
+        i18nString(UIStrings.selectTheTriggerBreakpoint);
+    this.errorElement.textContent = message;
+    this.errorElement.hidden = false;
+    UI.ARIAUtils.alert(message);
   }
 
   private get breakpointType(): string|null {
@@ -193,6 +354,9 @@ export class BreakpointEditDialog extends UI.Widget.Widget {
     if (type === BreakpointType.Logpoint) {
       return CodeMirror.placeholder(i18nString(UIStrings.logMessageEgXIsX));
     }
+    if (type === BreakpointType.HitCount || type === BreakpointType.Dependent) {
+      return CodeMirror.placeholder(i18nString(UIStrings.optionalExpressionToCheckBeforePausing));
+    }
     return [];
   }
 
@@ -202,6 +366,10 @@ export class BreakpointEditDialog extends UI.Widget.Widget {
       UI.Tooltip.Tooltip.install((this.typeSelector.element), i18nString(UIStrings.pauseOnlyWhenTheConditionIsTrue));
     } else if (type === BreakpointType.Logpoint) {
       UI.Tooltip.Tooltip.install((this.typeSelector.element), i18nString(UIStrings.logAMessageToConsoleDoNotBreak));
+    } else if (type === BreakpointType.HitCount) {
+      UI.Tooltip.Tooltip.install((this.typeSelector.element), i18nString(UIStrings.pauseOnlyOnSomeOfTheHits));
+    } else if (type === BreakpointType.Dependent) {
+      UI.Tooltip.Tooltip.install((this.typeSelector.element), i18nString(UIStrings.pauseOnlyAfterAnotherBreakpoint));
     }
   }
 
@@ -209,12 +377,17 @@ export class BreakpointEditDialog extends UI.Widget.Widget {
     if (this.finished) {
       return;
     }
+    const hitOptions = this.hitOptions;
+    if (committed && !hitOptions) {
+      this.showHitOptionsError();
+      return;
+    }
     this.finished = true;
     this.editor.remove();
     if (this.isLogpoint) {
       condition = BreakpointEditDialog.conditionForLogpoint(condition);
     }
-    void this.onFinish({committed, condition});
+    void this.onFinish({committed, condition, hitOptions: hitOptions || Bindings.BreakpointManager.NO_HIT_OPTIONS});
   }
 
   wasShown(): void {
@@ -230,4 +403,6 @@ export const BreakpointType = {
   Breakpoint: 'Breakpoint',
   Conditional: 'Conditional',
   Logpoint: 'Logpoint',
+  HitCount: 'HitCount',
+  Dependent: 'Dependent',
 };
@@ -0,0 +1,365 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Common from '../../core/common/common.js';
+import * as i18n from '../../core/i18n/i18n.js';
+import * as Platform from '../../core/platform/platform.js';
+import * as SDK from '../../core/sdk/sdk.js';
+import type * as Protocol from '../../generated/protocol.js';
+import * as Bindings from '../../models/bindings/bindings.js';
+import * as Workspace from '../../models/workspace/workspace.js';
+import * as Components from '../../ui/legacy/components/utils/utils.js';
+
+const UIStrings = {
+  /**
+  *@description Error message in the Console when a file with breakpoints could not be imported
+  *@example {breakpoints.json} PH1
+  *@example {Unexpected end of JSON input} PH2
+  */
+  couldNotImportBreakpointsFromSS: 'Could not import breakpoints from {PH1}: {PH2}',
+  /**
+  *@description Error message in the Console when the imported file is not a breakpoints file that DevTools can read
+  */
+  notABreakpointsFile: 'The file is not a breakpoints file of a supported version',
+  /**
+  *@description Warning message in the Console when some breakpoints of an imported file are malformed
+  *@example {2} PH1
+  *@example {breakpoints.json} PH2
+  */
+  skippedDInvalidBreakpointsInS: 'Skipped {PH1} invalid breakpoints in {PH2}',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/sources/BreakpointsFile.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+export const BreakpointsFileVersion = 1;
+
+// Breakpoints are matched by their URL pattern when their URL is not loaded, e.g. because the page
+// is served from another origin or the file name of a bundle has a different content hash.
+export interface JavaScriptBreakpointEntry extends Bindings.BreakpointManager.BreakpointData {
+  urlPattern?: string;
+}
+
+export interface DOMBreakpointEntry extends SDK.DOMDebuggerModel.DOMBreakpointData {
+  urlPattern?: string;
+}
+
+export interface BreakpointsFile {
+  version: number;
+  breakpoints: JavaScriptBreakpointEntry[];
+  xhrBreakpoints: SDK.DOMDebuggerModel.XHRBreakpointData[];
+  domBreakpoints: DOMBreakpointEntry[];
+  eventListenerBreakpoints: SDK.DOMDebuggerModel.EventListenerBreakpointData[];
+}
+
+// Content hashes in file names, e.g. in `main.3f2a1b9c.js` or `chunk-5d41402a.js`.
+const ContentHashRegex = /(?<=[./_-])(?=[0-9a-f]*\d)[0-9a-f]{6,}(?=[./_-]|$)/gi;
+
+function stripQueryAndFragment(url: string): string {
+  return url.replace(/[?#].*$/, '');
+}
+
+/**
+ * Returns a pattern that matches the URL on any origin and with any content hashes, where `*` stands
+ * for any text. For example, the pattern of `http://localhost:8080/js/main.5d41402a.js` matches
+ * `https://example.com/js/main.3f2a1b9c.js?v=2`.
+ */
+export function urlPattern(url: string): string {
+  return stripQueryAndFragment(url).replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '*').replace(ContentHashRegex, '*');
+}
+
+export function matchesUrlPattern(pattern: string, url: string): boolean {
+  const regex = pattern.split('*').map(part => Platform.StringUtilities.escapeForRegExp(part)).join('.*');
+  return new RegExp(`^${regex}$`).test(stripQueryAndFragment(url));
+}
+
+function rebindURL<T extends string>(url: T, pattern: string|undefined, loadedURLs: T[]): T {
+  if (loadedURLs.includes(url)) {
+    return url;
+  }
+  const patternOrDefault = pattern ?? urlPattern(url);
+  return loadedURLs.find(loadedURL => matchesUrlPattern(patternOrDefault, loadedURL)) ?? url;
+}
+
+/**
+ * Moves the breakpoints whose URL is not loaded to a loaded URL that matches their URL pattern. The
+ * dependent breakpoints follow their trigger breakpoints.
+ */
+export function rebindBreakpoints(entries: JavaScriptBreakpointEntry[], loadedURLs: Platform.DevToolsPath.UrlString[]):
+    Bindings.BreakpointManager.BreakpointData[] {
+  const {BreakpointManager} = Bindings.BreakpointManager;
+  const storageIds = new Map<string, string>();
+  const breakpoints = entries.map(({urlPattern, ...breakpoint}) => {
+    const url = rebindURL(breakpoint.url, urlPattern, loadedURLs);
+    storageIds.set(
+        BreakpointManager.breakpointStorageId(breakpoint.url, breakpoint.lineNumber, breakpoint.columnNumber),
+        BreakpointManager.breakpointStorageId(url, breakpoint.lineNumber, breakpoint.columnNumber));
+    return {...breakpoint, url};
+  });
+  for (const breakpoint of breakpoints) {
+    if (breakpoint.triggerBreakpointId) {
+      breakpoint.triggerBreakpointId = storageIds.get(breakpoint.triggerBreakpointId) ?? breakpoint.triggerBreakpointId;
+    }
+  }
+  return breakpoints;
+}
+
+export function javaScriptBreakpointEntries(breakpoints: Bindings.BreakpointManager.Breakpoint[]):
+    JavaScriptBreakpointEntry[] {
+  return breakpoints.map(breakpoint => {
+    const entry: JavaScriptBreakpointEntry = {
+      url: breakpoint.url(),
+      urlPattern: urlPattern(breakpoint.url()),
+      lineNumber: breakpoint.lineNumber(),
+      condition: breakpoint.condition(),
+      enabled: breakpoint.enabled(),
+    };
+    const columnNumber = breakpoint.columnNumber();
+    if (columnNumber !== undefined) {
+      entry.columnNumber = columnNumber;
+    }
+    const hitCount = breakpoint.hitCount();
+    if (hitCount) {
+      entry.hitCount = hitCount;
+    }
+    const triggerBreakpointId = breakpoint.triggerBreakpointId();
+    if (triggerBreakpointId) {
+      entry.triggerBreakpointId = triggerBreakpointId;
+    }
+    return entry;
+  });
+}
+
+export function xhrBreakpointEntries(): SDK.DOMDebuggerModel.XHRBreakpointData[] {
+  return [...SDK.DOMDebuggerModel.DOMDebuggerManager.instance().xhrBreakpoints()].map(
+      ([url, enabled]) => ({url, enabled}));
+}
+
+export function domBreakpointEntries(): DOMBreakpointEntry[] {
+  return SDK.TargetManager.TargetManager.instance()
+      .models(SDK.DOMDebuggerModel.DOMDebuggerModel)
+      .flatMap(model => model.domBreakpointsData())
+      .map(breakpoint => ({...breakpoint, urlPattern: urlPattern(breakpoint.url)}));
+}
+
+export function eventListenerBreakpointEntries(): SDK.DOMDebuggerModel.EventListenerBreakpointData[] {
+  return SDK.DOMDebuggerModel.DOMDebuggerManager.instance()
+      .eventListenerBreakpoints()
+      .filter(breakpoint => breakpoint.enabled())
+      .map(
+          ({instrumentationName, eventName, eventTargetNames}) => ({instrumentationName, eventName, eventTargetNames}));
+}
+
+export function createBreakpointsFile(contents: Partial<Omit<BreakpointsFile, 'version'>>): BreakpointsFile {
+  return {
+    version: BreakpointsFileVersion,
+    breakpoints: contents.breakpoints ?? [],
+    xhrBreakpoints: contents.xhrBreakpoints ?? [],
+    domBreakpoints: contents.domBreakpoints ?? [],
+    eventListenerBreakpoints: contents.eventListenerBreakpoints ?? [],
+  };
+}
+
+// All breakpoints of every kind, including the JavaScript breakpoints shown in the Breakpoints sidebar.
+export function allBreakpoints(): BreakpointsFile {
+  const breakpoints = new Set(Bindings.BreakpointManager.BreakpointManager.instance().allBreakpointLocations().map(
+      location => location.breakpoint));
+  return createBreakpointsFile({
+    breakpoints: javaScriptBreakpointEntries([...breakpoints]),
+    xhrBreakpoints: xhrBreakpointEntries(),
+    domBreakpoints: domBreakpointEntries(),
+    eventListenerBreakpoints: eventListenerBreakpointEntries(),
+  });
+}
+
+interface Entry {
+  [key: string]: unknown;
+}
+
+const HitCountModes = ['equal', 'multiple', 'greater'];
+const DOMBreakpointTypes = ['subtree-modified', 'attribute-modified', 'node-removed'];
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) >= 0;
+}
+
+function isOptional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || check(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isHitCount(value: unknown): value is Bindings.BreakpointManager.HitCount {
+  const hitCount = value as Entry | null;
+  // Breakpoints with a hit count of 0 would never pause.
+  return typeof hitCount === 'object' && hitCount !== null && HitCountModes.includes(hitCount.mode as string) &&
+      Number.isSafeInteger(hitCount.count) && (hitCount.count as number) >= 1;
+}
+
+// The entries are read field by field, so that unknown fields are not imported.
+
+function readJavaScriptBreakpointEntry(entry: Entry): JavaScriptBreakpointEntry|null {
+  const {url, urlPattern, lineNumber, columnNumber, condition, enabled, hitCount, triggerBreakpointId} = entry;
+  if (!isString(url) || !isNonNegativeInteger(lineNumber) || !isOptional(columnNumber, isNonNegativeInteger) ||
+      !isString(condition) || typeof enabled !== 'boolean' || !isOptional(urlPattern, isString) ||
+      !isOptional(triggerBreakpointId, isString) || !isOptional(hitCount, isHitCount)) {
+    return null;
+  }
+  const breakpoint:
+      JavaScriptBreakpointEntry = {url: url as Platform.DevToolsPath.UrlString, lineNumber, condition, enabled};
+  if (urlPattern !== undefined) {
+    breakpoint.urlPattern = urlPattern as string;
+  }
+  if (columnNumber !== undefined) {
+    breakpoint.columnNumber = columnNumber as number;
+  }
+  if (hitCount !== undefined) {
+    const {mode, count} = hitCount as Bindings.BreakpointManager.HitCount;
+    breakpoint.hitCount = {mode, count};
+  }
+  if (triggerBreakpointId !== undefined) {
+    breakpoint.triggerBreakpointId = triggerBreakpointId as string;
+  }
+  return breakpoint;
+}
+
+function readXHRBreakpointEntry({url, enabled}: Entry): SDK.DOMDebuggerModel.XHRBreakpointData|null {
+  return isString(url) && typeof enabled === 'boolean' ? {url, enabled} : null;
+}
+
+function readDOMBreakpointEntry({url, urlPattern, path, type, enabled}: Entry): DOMBreakpointEntry|null {
+  if (!isString(url) || !isString(path) || !DOMBreakpointTypes.includes(type as string) ||
+      typeof enabled !== 'boolean' || !isOptional(urlPattern, isString)) {
+    return null;
+  }
+  const breakpoint: DOMBreakpointEntry = {
+    url: url as Platform.DevToolsPath.UrlString,
+    path,
+    type: type as Protocol.DOMDebugger.DOMBreakpointType,
+    enabled,
+  };
+  if (urlPattern !== undefined) {
+    breakpoint.urlPattern = urlPattern as string;
+  }
+  return breakpoint;
+}
+
+function readEventListenerBreakpointEntry({instrumentationName, eventName, eventTargetNames}: Entry):
+    SDK.DOMDebuggerModel.EventListenerBreakpointData|null {
+  if (!isString(instrumentationName) || !isString(eventName) || !Array.isArray(eventTargetNames) ||
+      !eventTargetNames.every(isString)) {
+    return null;
+  }
+  return {instrumentationName, eventName, eventTargetNames: [...eventTargetNames]};
+}
+
+/**
+ * Parses a breakpoints file, dropping the malformed entries and the unknown fields of the others. The
+ * dropped entries are appended to `invalidEntries`, so that they can be reported.
+ */
+export function parseBreakpointsFile(text: string, invalidEntries: unknown[] = []): BreakpointsFile {
+  const json = JSON.parse(text);
+  if (!json || typeof json !== 'object' || json.version !== BreakpointsFileVersion) {
+    throw new Error(i18nString(UIStrings.notABreakpointsFile));
+  }
+  const array = <T>(value: unknown, read: (entry: Entry) => T | null): T[] => {
+    const entries = [];
+    for (const entry of Array.isArray(value) ? value : []) {
+      const readEntry = entry && typeof entry === 'object' ? read(entry) : null;
+      if (readEntry) {
+        entries.push(readEntry);
+      } else {
+        invalidEntries.push(entry);
+      }
+    }
+    return entries;
+  };
+  return createBreakpointsFile({
+    breakpoints: array(json.breakpoints, readJavaScriptBreakpointEntry),
+    xhrBreakpoints: array(json.xhrBreakpoints, readXHRBreakpointEntry),
+    domBreakpoints: array(json.domBreakpoints, readDOMBreakpointEntry),
+    eventListenerBreakpoints: array(json.eventListenerBreakpoints, readEventListenerBreakpointEntry),
+  });
+}
+
+// Imported breakpoints whose URL pattern matched no loaded URL. They are rebound once a matching
+// UI source code is added.
+let pendingBreakpointEntries: JavaScriptBreakpointEntry[] = [];
+
+function rebindPendingBreakpoints(event: Common.EventTarget.EventTargetEvent<Workspace.UISourceCode.UISourceCode>):
+    void {
+  const url = event.data.url();
+  // The breakpoints of the URL itself are restored by the breakpoint manager.
+  pendingBreakpointEntries = pendingBreakpointEntries.filter(entry => entry.url !== url);
+  const matchingEntries =
+      pendingBreakpointEntries.filter(entry => matchesUrlPattern(entry.urlPattern ?? urlPattern(entry.url), url));
+  if (!matchingEntries.length) {
+    return;
+  }
+  pendingBreakpointEntries = pendingBreakpointEntries.filter(entry => !matchingEntries.includes(entry));
+  if (!pendingBreakpointEntries.length) {
+    Workspace.Workspace.WorkspaceImpl.instance().removeEventListener(
+        Workspace.Workspace.Events.UISourceCodeAdded, rebindPendingBreakpoints);
+  }
+  Bindings.BreakpointManager.BreakpointManager.instance().importBreakpoints(
+      rebindBreakpoints(matchingEntries, [url]), matchingEntries);
+}
+
+function addPendingBreakpoints(entries: JavaScriptBreakpointEntry[]): void {
+  if (!entries.length) {
+    return;
+  }
+  const workspace = Workspace.Workspace.WorkspaceImpl.instance();
+  if (!pendingBreakpointEntries.length) {
+    workspace.addEventListener(Workspace.Workspace.Events.UISourceCodeAdded, rebindPendingBreakpoints);
+  }
+  pendingBreakpointEntries.push(...entries);
+}
+
+export function importBreakpoints(breakpointsFile: BreakpointsFile): void {
+  const loadedURLs =
+      Workspace.Workspace.WorkspaceImpl.instance().uiSourceCodes().map(uiSourceCode => uiSourceCode.url());
+  const breakpoints = rebindBreakpoints(breakpointsFile.breakpoints, loadedURLs);
+  Bindings.BreakpointManager.BreakpointManager.instance().importBreakpoints(breakpoints);
+  addPendingBreakpoints(breakpointsFile.breakpoints.filter(
+      (entry, index) => breakpoints[index].url === entry.url && !loadedURLs.includes(entry.url)));
+
+  SDK.DOMDebuggerModel.DOMDebuggerManager.instance().importBreakpoints(
+      breakpointsFile.xhrBreakpoints, breakpointsFile.eventListenerBreakpoints);
+
+  const targets = SDK.TargetManager.TargetManager.instance().targets();
+  const documentURLs = targets.map(target => target.model(SDK.DOMModel.DOMModel)?.existingDocument()?.documentURL)
+                           .filter((url): url is Platform.DevToolsPath.UrlString => Boolean(url));
+  const domBreakpoints = breakpointsFile.domBreakpoints.map(
+      ({urlPattern, ...breakpoint}) => ({...breakpoint, url: rebindURL(breakpoint.url, urlPattern, documentURLs)}));
+  for (const target of targets) {
+    target.model(SDK.DOMDebuggerModel.DOMDebuggerModel)?.importDOMBreakpoints(domBreakpoints);
+  }
+}
+
+export async function importBreakpointsFile(file: File): Promise<void> {
+  const invalidEntries: unknown[] = [];
+  try {
+    importBreakpoints(parseBreakpointsFile(await file.text(), invalidEntries));
+  } catch (error) {
+    Common.Console.Console.instance().error(i18nString(
+        UIStrings.couldNotImportBreakpointsFromSS,
+        {PH1: file.name, PH2: error instanceof Error ? error.message : String(error)}));
+    return;
+  }
+  if (invalidEntries.length) {
+    Common.Console.Console.instance().warn(
+        i18nString(UIStrings.skippedDInvalidBreakpointsInS, {PH1: invalidEntries.length, PH2: file.name}));
+  }
+}
+
+export function createImportFileSelectorElement(): HTMLInputElement {
+  return Components.FileImportExport.createImportFileSelectorElement(file => void importBreakpointsFile(file));
+}
+
+export async function saveBreakpointsFile(breakpointsFile: BreakpointsFile): Promise<void> {
+  await Components.FileImportExport.saveToTimestampedFile(
+      'breakpoints', 'json', JSON.stringify(breakpointsFile, null, '  '));
+}
@@ -12,14 +12,28 @@ import * as Workspace from '../../models/workspace/workspace.js';
 import * as UI from '../../ui/legacy/legacy.js';
 
 import {LogpointPrefix, LogpointSuffix} from './BreakpointEditDialog.js';
+import {
+  allBreakpoints,
+  createBreakpointsFile,
+  createImportFileSelectorElement,
+  javaScriptBreakpointEntries,
+  saveBreakpointsFile,
+} from './BreakpointsFile.js';
 import * as SourcesComponents from './components/components.js';
 
 let breakpointsSidebarPaneInstance: BreakpointsSidebarPane;
+
+const HitCountOperators = {
+  [Bindings.BreakpointManager.HitCountMode.EQUAL]: '=',
+  [Bindings.BreakpointManager.HitCountMode.MULTIPLE]: '%',
+  [Bindings.BreakpointManager.HitCountMode.GREATER]: '>',
+};
 let breakpointsViewControllerInstance: BreakpointsSidebarController|null;
 
 export class BreakpointsSidebarPane extends UI.ThrottledWidget.ThrottledWidget {
   readonly #breakpointsView: SourcesComponents.BreakpointsView.BreakpointsView;
   readonly #controller: BreakpointsSidebarController;
+  readonly #fileSelectorElement: HTMLInputElement;
 
   static instance(): BreakpointsSidebarPane {
     if (!breakpointsSidebarPaneInstance) {
@@ -76,6 +90,20 @@ export class BreakpointsSidebarPane extends UI.ThrottledWidget.ThrottledWidget {
           event.consume();
         });
 
+    this.#breakpointsView.addEventListener(
+        SourcesComponents.BreakpointsView.BreakpointsExportedEvent.eventName, (event: Event) => {
+          const {data: {breakpointItems}} = event as SourcesComponents.BreakpointsView.BreakpointsExportedEvent;
+          void this.#controller.breakpointsExported(breakpointItems);
+          event.consume();
+        });
+    this.#breakpointsView.addEventListener(
+        SourcesComponents.BreakpointsView.BreakpointsImportedEvent.eventName, (event: Event) => {
+          this.#fileSelectorElement.click();
+          event.consume();
+        });
+
+    this.#fileSelectorElement = createImportFileSelectorElement();
+    this.contentElement.appendChild(this.#fileSelectorElement);
     this.contentElement.appendChild(this.#breakpointsView);
     this.update();
   }
@@ -175,6 +203,15 @@ export class BreakpointsSidebarController implements UI.ContextFlavorListener.Co
     locations.forEach(location => location?.breakpoint.remove(false /* keepInStorage */));
   }
 
+  breakpointsExported(breakpointItems: SourcesComponents.BreakpointsView.BreakpointItem[]|null): Promise<void> {
+    if (!breakpointItems) {
+      return saveBreakpointsFile(allBreakpoints());
+    }
+    const locations = breakpointItems.flatMap(breakpointItem => this.#getLocationsForBreakpointItem(breakpointItem));
+    const breakpoints = new Set(locations.map(location => location.breakpoint));
+    return saveBreakpointsFile(createBreakpointsFile({breakpoints: javaScriptBreakpointEntries([...breakpoints])}));
+  }
+
   expandedStateChanged(url: Platform.DevToolsPath.UrlString, expanded: boolean): void {
     if (expanded) {
       this.#collapsedFiles.delete(url);
@@ -342,19 +379,45 @@ export class BreakpointsSidebarController implements UI.ContextFlavorListener.Co
   #getBreakpointTypeAndDetails(locations: Bindings.BreakpointManager.BreakpointLocation[]):
       {type: SourcesComponents.BreakpointsView.BreakpointType, hoverText?: string} {
     const breakpointWithCondition = locations.find(location => Boolean(location.breakpoint.condition()));
-    let hoverText = breakpointWithCondition?.breakpoint.condition();
+    const hoverText = breakpointWithCondition?.breakpoint.condition();
     let type = SourcesComponents.BreakpointsView.BreakpointType.REGULAR_BREAKPOINT;
     if (breakpointWithCondition && hoverText) {
       if (hoverText.startsWith(LogpointPrefix) && hoverText.endsWith(LogpointSuffix)) {
-        type = SourcesComponents.BreakpointsView.BreakpointType.LOGPOINT;
-        hoverText = hoverText.slice(LogpointPrefix.length, hoverText.length - LogpointSuffix.length);
-      } else {
-        type = SourcesComponents.BreakpointsView.BreakpointType.CONDITIONAL_BREAKPOINT;
+        return {
+          type: SourcesComponents.BreakpointsView.BreakpointType.LOGPOINT,
+          hoverText: hoverText.slice(LogpointPrefix.length, hoverText.length - LogpointSuffix.length),
+        };
       }
+      type = SourcesComponents.BreakpointsView.BreakpointType.CONDITIONAL_BREAKPOINT;
+    }
+    // Hit counts and triggers take precedence over the condition, which only refines them.
+    const hitCount = locations.map(location => location.breakpoint.hitCount()).find(Boolean);
+    if (hitCount) {
+      return {
+        type: SourcesComponents.BreakpointsView.BreakpointType.HIT_COUNT_BREAKPOINT,
+        hoverText: `${HitCountOperators[hitCount.mode]} ${hitCount.count}`,
+      };
+    }
+    const triggerBreakpointId = locations.map(location => location.breakpoint.triggerBreakpointId()).find(Boolean);
+    if (triggerBreakpointId) {
+      return {
+        type: SourcesComponents.BreakpointsView.BreakpointType.DEPENDENT_BREAKPOINT,
+        hoverText: this.#triggerBreakpointTitle(triggerBreakpointId),
+      };
     }
     return {type, hoverText};
   }
 
+  #triggerBreakpointTitle(triggerBreakpointId: string): string {
+    const location = this.#breakpointManager.allBreakpointLocations().find(
+        location => location.breakpoint.breakpointStorageId() === triggerBreakpointId);
+    if (!location) {
+      return triggerBreakpointId;
+    }
+    const {uiSourceCode, lineNumber} = location.uiLocation;
+    return `${uiSourceCode.displayName()}:${lineNumber + 1}`;
+  }
+
   #getLocationsForBreakpointItem(breakpointItem: SourcesComponents.BreakpointsView.BreakpointItem):
       Bindings.BreakpointManager.BreakpointLocation[] {
     const locations = this.#breakpointItemToLocationMap.get(breakpointItem);
@@ -46,7 +46,7 @@ import * as UI from '../../ui/legacy/legacy.js';
 import type * as TextEditor from '../../ui/components/text_editor/text_editor.js';
 
 import {AddDebugInfoURLDialog} from './AddSourceMapURLDialog.js';
-import {BreakpointEditDialog, LogpointPrefix} from './BreakpointEditDialog.js';
+import {BreakpointEditDialog, LogpointPrefix, type TriggerBreakpointCandidate} from './BreakpointEditDialog.js';
 import {Plugin} from './Plugin.js';
 import {ScriptFormatterEditorAction} from './ScriptFormatterEditorAction.js';
 import {SourcesPanel} from './SourcesPanel.js';
@@ -804,6 +804,7 @@ export class DebuggerPlugin extends Plugin {
       preferLogpoint?: boolean): void {
     const editor = this.editor as TextEditor.TextEditor.TextEditor;
     const oldCondition = breakpoint ? breakpoint.condition() : '';
+    const oldHitOptions = breakpoint ? breakpoint.hitOptions() : Bindings.BreakpointManager.NO_HIT_OPTIONS;
     const decorationElement = document.createElement('div');
     const compartment = new CodeMirror.Compartment();
     const dialog = new BreakpointEditDialog(line.number - 1, oldCondition, Boolean(preferLogpoint), async result => {
@@ -816,13 +817,17 @@ export class DebuggerPlugin extends Plugin {
 
       recordBreakpointWithConditionAdded(breakpoint?.condition(), result.condition);
       if (breakpoint) {
-        breakpoint.setCondition(result.condition);
+        breakpoint.updateState(result.condition, breakpoint.enabled(), result.hitOptions);
+        // Logpoints never pause, so they cannot trigger other breakpoints.
+        if (result.condition.includes(LogpointPrefix)) {
+          this.breakpointManager.clearTriggerBreakpoint(breakpoint.breakpointStorageId());
+        }
       } else if (location) {
-        await this.setBreakpoint(location.lineNumber, location.columnNumber, result.condition, true);
+        await this.setBreakpoint(location.lineNumber, location.columnNumber, result.condition, true, result.hitOptions);
       } else {
-        await this.createNewBreakpoint(line, result.condition, true);
+        await this.createNewBreakpoint(line, result.condition, true, result.hitOptions);
       }
-    });
+    }, oldHitOptions, this.triggerBreakpointCandidates(breakpoint));
     editor.dispatch({
       effects: CodeMirror.StateEffect.appendConfig.of(compartment.of(CodeMirror.EditorView.decorations.of(
           CodeMirror.Decoration.set([CodeMirror.Decoration
@@ -856,6 +861,24 @@ export class DebuggerPlugin extends Plugin {
     }
   }
 
+  // The breakpoints that the given breakpoint can depend on, which excludes the breakpoints that
+  // depend on it to avoid cycles, and logpoints, which never pause.
+  private triggerBreakpointCandidates(breakpoint: Bindings.BreakpointManager.Breakpoint|
+                                      null): TriggerBreakpointCandidate[] {
+    const candidates = new Map<string, TriggerBreakpointCandidate>();
+    const storageId = breakpoint?.breakpointStorageId();
+    for (const {breakpoint: candidate, uiLocation} of this.breakpointManager.allBreakpointLocations()) {
+      const id = candidate.breakpointStorageId();
+      if (candidate === breakpoint || !id || candidates.has(id) ||
+          (storageId && candidate.triggerBreakpointId() === storageId) ||
+          candidate.condition().includes(LogpointPrefix)) {
+        continue;
+      }
+      candidates.set(id, {id, title: `${uiLocation.uiSourceCode.displayName()}:${uiLocation.lineNumber + 1}`});
+    }
+    return [...candidates.values()];
+  }
+
   // Create decorations to indicate the current debugging position
   private computeExecutionDecorations(editorState: CodeMirror.EditorState, lineNumber: number, columnNumber: number):
       CodeMirror.DecorationSet {
@@ -1169,7 +1192,7 @@ export class DebuggerPlugin extends Plugin {
       }
       if (main.condition().includes(LogpointPrefix)) {
         gutterClass += ' cm-breakpoint-logpoint';
-      } else if (main.condition()) {
+      } else if (main.condition() || main.hitCount() || main.triggerBreakpointId()) {
         gutterClass += ' cm-breakpoint-conditional';
       }
       gutterMarkers.push((new BreakpointGutterMarker(gutterClass)).range(lineStart));
@@ -1213,11 +1236,12 @@ export class DebuggerPlugin extends Plugin {
     await Promise.all(breakpoints.map(async description => {
       const {breakpoint, position} = description;
       const condition = breakpoint.condition(), enabled = breakpoint.enabled();
+      const hitOptions = breakpoint.hitOptions();
       await breakpoint.remove(false);
       const editorLocation = editor.toLineColumn(position);
       const uiLocation =
           this.transformer.editorLocationToUILocation(editorLocation.lineNumber, editorLocation.columnNumber);
-      await this.setBreakpoint(uiLocation.lineNumber, uiLocation.columnNumber, condition, enabled);
+      await this.setBreakpoint(uiLocation.lineNumber, uiLocation.columnNumber, condition, enabled, hitOptions);
     }));
   }
 
@@ -1478,21 +1502,24 @@ export class DebuggerPlugin extends Plugin {
     }
   }
 
-  private async createNewBreakpoint(line: CodeMirror.Line, condition: string, enabled: boolean): Promise<void> {
+  private async createNewBreakpoint(
+      line: CodeMirror.Line, condition: string, enabled: boolean,
+      hitOptions?: Bindings.BreakpointManager.HitOptions): Promise<void> {
     if (!this.editor || !SourceFrame.SourceFrame.isBreakableLine(this.editor.state, line)) {
       return;
     }
     Host.userMetrics.actionTaken(Host.UserMetrics.Action.ScriptsBreakpointSet);
     const origin = this.transformer.editorLocationToUILocation(line.number - 1);
-    await this.setBreakpoint(origin.lineNumber, origin.columnNumber, condition, enabled);
+    await this.setBreakpoint(origin.lineNumber, origin.columnNumber, condition, enabled, hitOptions);
   }
 
-  private async setBreakpoint(lineNumber: number, columnNumber: number|undefined, condition: string, enabled: boolean):
-      Promise<void> {
+  private async setBreakpoint(
+      lineNumber: number, columnNumber: number|undefined, condition: string, enabled: boolean,
+      hitOptions?: Bindings.BreakpointManager.HitOptions): Promise<void> {
     Common.Settings.Settings.instance().moduleSetting('breakpointsActive').set(true);
     await this.breakpointManager.setBreakpoint(
         this.uiSourceCode, lineNumber, columnNumber, condition, enabled,
-        Bindings.BreakpointManager.BreakpointOrigin.USER_ACTION);
+        Bindings.BreakpointManager.BreakpointOrigin.USER_ACTION, hitOptions);
     this.breakpointWasSetForTest(lineNumber, columnNumber, condition, enabled);
   }
 
@@ -1734,7 +1761,7 @@ class BreakpointInlineMarker extends CodeMirror.WidgetType {
     const condition = breakpoint ? breakpoint.condition() : '';
     if (condition.includes(LogpointPrefix)) {
       this.class += ' cm-inlineBreakpoint-logpoint';
-    } else if (condition) {
+    } else if (condition || breakpoint?.hitCount() || breakpoint?.triggerBreakpointId()) {
       this.class += ' cm-inlineBreakpoint-conditional';
     }
     if (!breakpoint?.enabled()) {
@@ -87,6 +87,32 @@ const UIStrings = {
   *@example {'hello'} PH1
   */
   logpointCode: 'Logpoint: {PH1}',
+  /**
+  *@description Tooltip text that shows when hovered over a piece of code of a hit count breakpoint in the breakpoint sidebar of the sources panel. It shows how the number of times that the breakpoint is reached is compared to decide whether to pause.
+  *@example {> 10} PH1
+  */
+  hitCountCode: 'Hit count: {PH1}',
+  /**
+  *@description Tooltip text that shows when hovered over a piece of code of a dependent breakpoint in the breakpoint sidebar of the sources panel. It shows the location of the breakpoint that has to pause before this breakpoint pauses.
+  *@example {app.js:12} PH1
+  */
+  dependsOnCode: 'Depends on: {PH1}',
+  /**
+  *@description Context menu item in the breakpoint sidebar of the Sources panel that saves a breakpoint to a JSON file.
+  */
+  exportBreakpoint: 'Export breakpoint…',
+  /**
+  *@description Context menu item in the breakpoint sidebar of the Sources panel that saves the breakpoints of a file to a JSON file.
+  */
+  exportBreakpointsInFile: 'Export breakpoints in file…',
+  /**
+  *@description Context menu item in the breakpoint sidebar of the Sources panel that saves all breakpoints, including XHR/fetch, DOM and event listener breakpoints, to a JSON file.
+  */
+  exportAllBreakpoints: 'Export all breakpoints…',
+  /**
+  *@description Context menu item in the breakpoint sidebar of the Sources panel that adds the breakpoints of a JSON file.
+  */
+  importBreakpoints: 'Import breakpoints…',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/sources/components/BreakpointsView.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
@@ -130,6 +156,8 @@ export const enum BreakpointStatus {
 export const enum BreakpointType {
   LOGPOINT = 'LOGPOINT',
   CONDITIONAL_BREAKPOINT = 'CONDITIONAL_BREAKPOINT',
+  HIT_COUNT_BREAKPOINT = 'HIT_COUNT_BREAKPOINT',
+  DEPENDENT_BREAKPOINT = 'DEPENDENT_BREAKPOINT',
   REGULAR_BREAKPOINT = 'REGULAR_BREAKPOINT',
 }
 
@@ -203,6 +231,25 @@ export class BreakpointsRemovedEvent extends Event {
   }
 }
 
+export class BreakpointsExportedEvent extends Event {
+  static readonly eventName = 'breakpointsexported';
+  // Null stands for all breakpoints, including XHR/fetch, DOM and event listener breakpoints.
+  data: {breakpointItems: BreakpointItem[]|null};
+
+  constructor(breakpointItems: BreakpointItem[]|null) {
+    super(BreakpointsExportedEvent.eventName);
+    this.data = {breakpointItems};
+  }
+}
+
+export class BreakpointsImportedEvent extends Event {
+  static readonly eventName = 'breakpointsimported';
+
+  constructor() {
+    super(BreakpointsImportedEvent.eventName);
+  }
+}
+
 export class BreakpointsView extends HTMLElement {
   static readonly litTagName = LitHtml.literal`devtools-breakpoint-view`;
   readonly #shadow = this.attachShadow({mode: 'open'});
@@ -230,6 +277,22 @@ export class BreakpointsView extends HTMLElement {
 
   connectedCallback(): void {
     this.#shadow.adoptedStyleSheets = [breakpointsViewStyles];
+    this.addEventListener('contextmenu', this.#onContextMenu);
+  }
+
+  readonly #onContextMenu = (event: Event): void => {
+    const menu = new UI.ContextMenu.ContextMenu(event);
+    this.#appendImportExportItems(menu);
+    void menu.show();
+  };
+
+  #appendImportExportItems(menu: UI.ContextMenu.ContextMenu): void {
+    menu.saveSection().appendItem(i18nString(UIStrings.exportAllBreakpoints), () => {
+      this.dispatchEvent(new BreakpointsExportedEvent(null));
+    });
+    menu.saveSection().appendItem(i18nString(UIStrings.importBreakpoints), () => {
+      this.dispatchEvent(new BreakpointsImportedEvent());
+    });
   }
 
   async #render(): Promise<void> {
@@ -445,6 +508,10 @@ export class BreakpointsView extends HTMLElement {
       const breakpointItems = otherGroups.map(({breakpointItems}) => breakpointItems).flat();
       this.dispatchEvent(new BreakpointsRemovedEvent(breakpointItems));
     }, otherGroups.length === 0);
+    menu.saveSection().appendItem(i18nString(UIStrings.exportBreakpointsInFile), () => {
+      this.dispatchEvent(new BreakpointsExportedEvent(breakpointItems));
+    });
+    this.#appendImportExportItems(menu);
 
     void menu.show();
   }
@@ -533,6 +600,10 @@ export class BreakpointsView extends HTMLElement {
     menu.defaultSection().appendItem(i18nString(UIStrings.removeOtherBreakpoints), () => {
       this.dispatchEvent(new BreakpointsRemovedEvent(otherItems));
     }, otherItems.length === 0);
+    menu.saveSection().appendItem(i18nString(UIStrings.exportBreakpoint), () => {
+      this.dispatchEvent(new BreakpointsExportedEvent([breakpointItem]));
+    });
+    this.#appendImportExportItems(menu);
 
     void menu.show();
   }
@@ -558,6 +629,8 @@ export class BreakpointsView extends HTMLElement {
       'hit': breakpointItem.isHit,
       'conditional-breakpoint': breakpointItem.type === BreakpointType.CONDITIONAL_BREAKPOINT,
       'logpoint': breakpointItem.type === BreakpointType.LOGPOINT,
+      'hit-count-breakpoint': breakpointItem.type === BreakpointType.HIT_COUNT_BREAKPOINT,
+      'dependent-breakpoint': breakpointItem.type === BreakpointType.DEPENDENT_BREAKPOINT,
     };
     const breakpointItemDescription = this.#getBreakpointItemDescription(breakpointItem);
     const codeSnippet = Platform.StringUtilities.trimEndWithMaxLength(breakpointItem.codeSnippet, MAX_SNIPPET_LENGTH);
@@ -605,6 +678,12 @@ export class BreakpointsView extends HTMLElement {
       case BreakpointType.LOGPOINT:
         assertNotNullOrUndefined(hoverText);
         return i18nString(UIStrings.logpointCode, {PH1: hoverText});
+      case BreakpointType.HIT_COUNT_BREAKPOINT:
+        assertNotNullOrUndefined(hoverText);
+        return i18nString(UIStrings.hitCountCode, {PH1: hoverText});
+      case BreakpointType.DEPENDENT_BREAKPOINT:
+        assertNotNullOrUndefined(hoverText);
+        return i18nString(UIStrings.dependsOnCode, {PH1: hoverText});
     }
   }
 
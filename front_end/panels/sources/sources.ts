@@ -4,6 +4,7 @@
 
 import * as AddSourceMapURLDialog from './AddSourceMapURLDialog.js';
 import * as BreakpointEditDialog from './BreakpointEditDialog.js';
+import * as BreakpointsFile from './BreakpointsFile.js';
 import * as BreakpointsSidebarPane from './BreakpointsSidebarPane.js';
 import * as CallStackSidebarPane from './CallStackSidebarPane.js';
 import * as CoveragePlugin from './CoveragePlugin.js';
@@ -37,6 +38,7 @@ import * as WatchExpressionsSidebarPane from './WatchExpressionsSidebarPane.js';
 export {
   AddSourceMapURLDialog,
   BreakpointEditDialog,
+  BreakpointsFile,
   BreakpointsSidebarPane,
   CallStackSidebarPane,
   CoveragePlugin,
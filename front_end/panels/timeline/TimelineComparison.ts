@@ -0,0 +1,193 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as SDK from '../../core/sdk/sdk.js';
+import * as TimelineModel from '../../models/timeline_model/timeline_model.js';
+
+import {TimelineRegExp} from './TimelineFilters.js';
+import {assignLayoutShiftsToClusters, TimelineUIUtils} from './TimelineUIUtils.js';
+
+// Comparing two recordings only makes sense if they are aligned: the same page
+// loaded in both, but the recordings were started at different points in time
+// before the navigation. So every time in here is relative to the first main
+// frame navigation of the recording, or to the start of the recording if there
+// was no navigation in it. Only the part of the recording after that point is
+// taken into account.
+
+export const enum WebVital {
+  FCP = 'FCP',
+  LCP = 'LCP',
+  DCL = 'DCL',
+  Load = 'L',
+  TBT = 'TBT',
+  CLS = 'CLS',
+}
+
+export interface RecordingMetrics {
+  // The time that the other times are relative to, in milliseconds.
+  alignmentTime: number;
+  // All metrics are in milliseconds since the alignment time, except TBT which
+  // is a duration and CLS which is a score. A metric is missing if the page
+  // never reached it in the recording.
+  webVitals: Map<WebVital, number>;
+  // The self time of the main thread events, grouped like the Bottom-Up view
+  // does when grouping by category.
+  selfTimeByCategory: Map<string, number>;
+  // The self time of the scripting events, grouped by the URL of the script
+  // they belong to.
+  scriptTimeByURL: Map<string, number>;
+}
+
+export interface MetricComparison<Key> {
+  key: Key;
+  before: number|null;
+  after: number|null;
+  // after - before, which is only known if both recordings have the metric.
+  delta: number|null;
+}
+
+export interface RecordingComparison {
+  webVitals: MetricComparison<WebVital>[];
+  selfTimeByCategory: MetricComparison<string>[];
+  scriptTimeByURL: MetricComparison<string>[];
+}
+
+export function metricsForRecording(timelineModel: TimelineModel.TimelineModel.TimelineModelImpl): RecordingMetrics {
+  const navigationStart = timelineModel.navStartTimes().values().next().value as SDK.TracingModel.Event | undefined;
+  const alignmentTime = navigationStart ? navigationStart.startTime : timelineModel.minimumRecordTime();
+  const endTime = timelineModel.maximumRecordTime();
+
+  const mainThreadTracks = timelineModel.tracks().filter(
+      track => track.type === TimelineModel.TimelineModel.TrackType.MainThread && track.forMainFrame);
+  const scriptingCategory = TimelineUIUtils.categories()['scripting'];
+  const selfTimeByCategory = new Map<string, number>();
+  const scriptTimeByURL = new Map<string, number>();
+  for (const track of mainThreadTracks) {
+    const events = track.syncEvents();
+    addSelfTimes(
+        selfTimeByCategory, events, alignmentTime, endTime, event => TimelineUIUtils.eventStyle(event).category.name);
+    addSelfTimes(
+        scriptTimeByURL, events, alignmentTime, endTime,
+        event => TimelineUIUtils.eventStyle(event).category === scriptingCategory ?
+            TimelineModel.TimelineProfileTree.eventURL(event) || '' :
+            '');
+  }
+
+  return {
+    alignmentTime,
+    webVitals: webVitalsForRecording(timelineModel, navigationStart || null, alignmentTime),
+    selfTimeByCategory,
+    scriptTimeByURL,
+  };
+}
+
+function addSelfTimes(
+    selfTimes: Map<string, number>, events: SDK.TracingModel.Event[], startTime: number, endTime: number,
+    groupBy: (event: SDK.TracingModel.Event) => string): void {
+  // Use the same filters as the Bottom-Up view, so that the numbers shown in
+  // the comparison match the ones the user sees when inspecting a recording.
+  const filters = [
+    new TimelineModel.TimelineModelFilter.ExclusiveNameFilter([TimelineModel.TimelineModel.RecordType.Task]),
+    TimelineUIUtils.visibleEventsFilter(),
+  ];
+  const root = new TimelineModel.TimelineProfileTree.BottomUpRootNode(
+      events, new TimelineRegExp(), filters, startTime, endTime, groupBy);
+  for (const [id, node] of root.children()) {
+    // Events that don't belong to any group end up in the '' group.
+    if (typeof id !== 'string' || !id) {
+      continue;
+    }
+    selfTimes.set(id, (selfTimes.get(id) || 0) + node.selfTime);
+  }
+}
+
+function webVitalsForRecording(
+    timelineModel: TimelineModel.TimelineModel.TimelineModelImpl, navigationStart: SDK.TracingModel.Event|null,
+    alignmentTime: number): Map<WebVital, number> {
+  const webVitals = new Map<WebVital, number>();
+  const events = timelineModel.tracks().flatMap(track => track.events);
+  const nextNavigationStart = [...timelineModel.navStartTimes().values()].find(e => e.startTime > alignmentTime);
+  const endTime = nextNavigationStart ? nextNavigationStart.startTime : timelineModel.maximumRecordTime();
+  const eventsInNavigation = events.filter(e => e.startTime >= alignmentTime && e.startTime < endTime)
+                                 .sort(SDK.TracingModel.Event.compareStartTime);
+
+  const firstOf = (filter: (event: SDK.TracingModel.Event) => boolean): SDK.TracingModel.Event|undefined =>
+      eventsInNavigation.find(filter);
+  const setTime = (webVital: WebVital, event: SDK.TracingModel.Event|undefined): void => {
+    if (event) {
+      webVitals.set(webVital, event.startTime - alignmentTime);
+    }
+  };
+
+  setTime(WebVital.FCP, firstOf(e => timelineModel.isFCPEvent(e)));
+  setTime(
+      WebVital.DCL,
+      firstOf(e => e.name === TimelineModel.TimelineModel.RecordType.MarkDOMContent && timelineModel.isMarkerEvent(e)));
+  setTime(
+      WebVital.Load,
+      firstOf(e => e.name === TimelineModel.TimelineModel.RecordType.MarkLoad && timelineModel.isMarkerEvent(e)));
+
+  // As in the Web Vitals lane, the LCP is the candidate with the highest index,
+  // unless it was invalidated afterwards.
+  const navigationId = navigationStart?.args['data']?.['navigationId'];
+  let latestLCPEvent: SDK.TracingModel.Event|null = null;
+  for (const event of eventsInNavigation) {
+    if (!timelineModel.isLCPCandidateEvent(event) && !timelineModel.isLCPInvalidateEvent(event)) {
+      continue;
+    }
+    if (navigationId && event.args['data']['navigationId'] !== navigationId) {
+      continue;
+    }
+    if (!latestLCPEvent || latestLCPEvent.args['data']['candidateIndex'] < event.args['data']['candidateIndex']) {
+      latestLCPEvent = event;
+    }
+  }
+  if (latestLCPEvent && timelineModel.isLCPCandidateEvent(latestLCPEvent)) {
+    setTime(WebVital.LCP, latestLCPEvent);
+  }
+
+  // This is estimated from the long tasks when the page didn't reach TTI in
+  // the recording, which is what the summary of the recording shows as well.
+  webVitals.set(WebVital.TBT, timelineModel.totalBlockingTime().time);
+
+  const layoutShifts = eventsInNavigation.filter(e => timelineModel.isLayoutShiftEvent(e));
+  assignLayoutShiftsToClusters(layoutShifts);
+  webVitals.set(
+      WebVital.CLS,
+      layoutShifts.reduce((max, event) => Math.max(max, event.args['data']['_current_cluster_score'] || 0), 0));
+
+  return webVitals;
+}
+
+export function compareRecordings(before: RecordingMetrics, after: RecordingMetrics): RecordingComparison {
+  const webVitalOrder = [WebVital.FCP, WebVital.LCP, WebVital.DCL, WebVital.Load, WebVital.TBT, WebVital.CLS];
+  return {
+    webVitals: compareMaps(before.webVitals, after.webVitals)
+                   .sort((a, b) => webVitalOrder.indexOf(a.key) - webVitalOrder.indexOf(b.key)),
+    selfTimeByCategory: sortByLargestDelta(compareMaps(before.selfTimeByCategory, after.selfTimeByCategory)),
+    scriptTimeByURL: sortByLargestDelta(compareMaps(before.scriptTimeByURL, after.scriptTimeByURL)),
+  };
+}
+
+function compareMaps<Key>(before: Map<Key, number>, after: Map<Key, number>): MetricComparison<Key>[] {
+  const keys = new Set([...before.keys(), ...after.keys()]);
+  return [...keys].map(key => {
+    const beforeValue = before.get(key) ?? null;
+    const afterValue = after.get(key) ?? null;
+    return {
+      key,
+      before: beforeValue,
+      after: afterValue,
+      delta: beforeValue !== null && afterValue !== null ? afterValue - beforeValue : null,
+    };
+  });
+}
+
+function sortByLargestDelta<Key>(comparisons: MetricComparison<Key>[]): MetricComparison<Key>[] {
+  // Something that only shows up in one of the recordings is as interesting as
+  // a big change, so rank it by the time it took there.
+  const magnitude = (comparison: MetricComparison<Key>): number =>
+      Math.abs(comparison.delta ?? comparison.after ?? comparison.before ?? 0);
+  return comparisons.sort((a, b) => magnitude(b) - magnitude(a));
+}
@@ -0,0 +1,288 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as i18n from '../../core/i18n/i18n.js';
+import * as DataGrid from '../../ui/legacy/components/data_grid/data_grid.js';
+import * as UI from '../../ui/legacy/legacy.js';
+
+import timelineComparisonViewStyles from './timelineComparisonView.css.js';
+
+import {
+  compareRecordings,
+  metricsForRecording,
+  WebVital,
+  type MetricComparison,
+  type RecordingMetrics,
+} from './TimelineComparison.js';
+import {type PerformanceModel} from './PerformanceModel.js';
+import {TimelineUIUtils} from './TimelineUIUtils.js';
+
+const UIStrings = {
+  /**
+  *@description Text in the toolbar of the recordings comparison in the Performance panel
+  *@example {example.com #1} PH1
+  *@example {example.com #2} PH2
+  */
+  comparingSWithS: 'Comparing {PH1} (before) with {PH2} (after)',
+  /**
+  *@description Tooltip of the button that swaps the two recordings that are being compared in the Performance panel
+  */
+  swapRecordings: 'Swap recordings',
+  /**
+  *@description Tooltip of the button that closes the recordings comparison in the Performance panel
+  */
+  closeComparison: 'Close comparison',
+  /**
+  *@description Title of the section of the recordings comparison that shows the Web Vitals of both recordings
+  */
+  webVitals: 'Web Vitals',
+  /**
+  *@description Title of the section of the recordings comparison that shows the main thread time per category
+  */
+  selfTimeByCategory: 'Main thread self time by category',
+  /**
+  *@description Title of the section of the recordings comparison that shows the time spent in each script
+  */
+  scriptingTimeByUrl: 'Scripting time by URL',
+  /**
+  *@description Text for the name column of the recordings comparison in the Performance panel
+  */
+  name: 'Name',
+  /**
+  *@description Text for the column of the recordings comparison that shows the values of the first recording
+  */
+  before: 'Before',
+  /**
+  *@description Text for the column of the recordings comparison that shows the values of the second recording
+  */
+  after: 'After',
+  /**
+  *@description Text for the column of the recordings comparison that shows the difference between the recordings
+  */
+  delta: 'Delta',
+  /**
+  *@description Text for the First Contentful Paint metric
+  */
+  firstContentfulPaint: 'First Contentful Paint',
+  /**
+  *@description Text for the Largest Contentful Paint metric
+  */
+  largestContentfulPaint: 'Largest Contentful Paint',
+  /**
+  *@description Text for the DOMContentLoaded event
+  */
+  domContentLoadedEvent: 'DOMContentLoaded Event',
+  /**
+  *@description Text for the load event
+  */
+  onloadEvent: 'Onload Event',
+  /**
+  *@description Text for the Total Blocking Time metric
+  */
+  totalBlockingTime: 'Total Blocking Time',
+  /**
+  *@description Text for the Cumulative Layout Shift metric
+  */
+  cumulativeLayoutShift: 'Cumulative Layout Shift',
+  /**
+  *@description Text shown in the recordings comparison when there is nothing to compare in a section
+  */
+  noData: 'No data',
+  /**
+  *@description Note shown at the bottom of the recordings comparison in the Performance panel
+  */
+  alignedByNavigationStart:
+      'Times are relative to the first main frame navigation of each recording, or to its start if there was none.',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/timeline/TimelineComparisonView.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+export interface ComparedRecording {
+  title: string;
+  model: PerformanceModel;
+}
+
+export class TimelineComparisonView extends UI.Widget.VBox {
+  readonly #onClose: () => void;
+  readonly #titleElement: HTMLElement;
+  readonly #sectionsElement: HTMLElement;
+  readonly #metricsCache = new WeakMap<PerformanceModel, RecordingMetrics>();
+  #before: ComparedRecording|null = null;
+  #after: ComparedRecording|null = null;
+
+  constructor(onClose: () => void) {
+    super();
+    this.#onClose = onClose;
+    this.element.classList.add('timeline-comparison-view');
+
+    const toolbar = new UI.Toolbar.Toolbar('timeline-comparison-toolbar', this.contentElement);
+    this.#titleElement = document.createElement('span');
+    this.#titleElement.classList.add('timeline-comparison-title');
+    toolbar.appendToolbarItem(new UI.Toolbar.ToolbarItem(this.#titleElement));
+    toolbar.appendSpacer();
+    const swapButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.swapRecordings), 'largeicon-rotate');
+    swapButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => this.#swap());
+    toolbar.appendToolbarItem(swapButton);
+    const closeButton = new UI.Toolbar.ToolbarButton(i18nString(UIStrings.closeComparison), 'largeicon-delete');
+    closeButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => this.#onClose());
+    toolbar.appendToolbarItem(closeButton);
+
+    this.#sectionsElement = this.contentElement.createChild('div', 'timeline-comparison-sections');
+    this.contentElement.createChild('div', 'timeline-comparison-note').textContent =
+        i18nString(UIStrings.alignedByNavigationStart);
+  }
+
+  setRecordings(before: ComparedRecording, after: ComparedRecording): void {
+    this.#before = before;
+    this.#after = after;
+    this.#render();
+  }
+
+  recordings(): {before: ComparedRecording, after: ComparedRecording}|null {
+    if (!this.#before || !this.#after) {
+      return null;
+    }
+    return {before: this.#before, after: this.#after};
+  }
+
+  wasShown(): void {
+    super.wasShown();
+    this.registerCSSFiles([timelineComparisonViewStyles]);
+  }
+
+  #swap(): void {
+    if (!this.#before || !this.#after) {
+      return;
+    }
+    this.setRecordings(this.#after, this.#before);
+  }
+
+  #metrics(model: PerformanceModel): RecordingMetrics {
+    let metrics = this.#metricsCache.get(model);
+    if (!metrics) {
+      metrics = metricsForRecording(model.timelineModel());
+      this.#metricsCache.set(model, metrics);
+    }
+    return metrics;
+  }
+
+  #render(): void {
+    this.#sectionsElement.removeChildren();
+    if (!this.#before || !this.#after) {
+      this.#titleElement.textContent = '';
+      return;
+    }
+    this.#titleElement.textContent =
+        i18nString(UIStrings.comparingSWithS, {PH1: this.#before.title, PH2: this.#after.title});
+
+    const comparison = compareRecordings(this.#metrics(this.#before.model), this.#metrics(this.#after.model));
+    this.#renderSection(
+        i18nString(UIStrings.webVitals), comparison.webVitals, webVitalTitle,
+        (webVital, value) => webVital === WebVital.CLS ? value.toFixed(4) : i18n.TimeUtilities.millisToString(value));
+    this.#renderSection(
+        i18nString(UIStrings.selfTimeByCategory), comparison.selfTimeByCategory,
+        categoryName => TimelineUIUtils.categories()[categoryName]?.title || categoryName,
+        (_categoryName, value) => i18n.TimeUtilities.millisToString(value, true));
+    this.#renderSection(
+        i18nString(UIStrings.scriptingTimeByUrl), comparison.scriptTimeByURL, url => url,
+        (_url, value) => i18n.TimeUtilities.millisToString(value, true));
+  }
+
+  #renderSection<Key>(
+      title: string, comparisons: MetricComparison<Key>[], nameForKey: (key: Key) => string,
+      formatValue: (key: Key, value: number) => string): void {
+    const section = this.#sectionsElement.createChild('div', 'timeline-comparison-section');
+    section.createChild('h3').textContent = title;
+    if (!comparisons.length) {
+      section.createChild('div', 'timeline-comparison-empty').textContent = i18nString(UIStrings.noData);
+      return;
+    }
+
+    const dataGrid = new DataGrid.SortableDataGrid.SortableDataGrid<ComparisonGridNode<Key>>({
+      displayName: title,
+      columns: [
+        {id: 'name', title: i18nString(UIStrings.name), sortable: true, weight: 4},
+        {id: 'before', title: i18nString(UIStrings.before), sortable: true, align: DataGrid.DataGrid.Align.Right},
+        {id: 'after', title: i18nString(UIStrings.after), sortable: true, align: DataGrid.DataGrid.Align.Right},
+        {id: 'delta', title: i18nString(UIStrings.delta), sortable: true, align: DataGrid.DataGrid.Align.Right},
+      ],
+    });
+    dataGrid.setStriped(true);
+    dataGrid.addEventListener(DataGrid.DataGrid.Events.SortingChanged, () => {
+      const columnId = dataGrid.sortColumnId();
+      if (!columnId) {
+        return;
+      }
+      const comparator =
+          columnId === 'name' ? DataGrid.SortableDataGrid.SortableDataGrid.StringComparator : compareNullableValues;
+      dataGrid.sortNodes(comparator.bind(null, columnId), !dataGrid.isSortOrderAscending());
+    });
+    for (const comparison of comparisons) {
+      dataGrid.rootNode().appendChild(
+          new ComparisonGridNode(comparison, nameForKey(comparison.key), formatValue.bind(null, comparison.key)));
+    }
+    dataGrid.asWidget().show(section);
+  }
+}
+
+function webVitalTitle(webVital: WebVital): string {
+  switch (webVital) {
+    case WebVital.FCP:
+      return i18nString(UIStrings.firstContentfulPaint);
+    case WebVital.LCP:
+      return i18nString(UIStrings.largestContentfulPaint);
+    case WebVital.DCL:
+      return i18nString(UIStrings.domContentLoadedEvent);
+    case WebVital.Load:
+      return i18nString(UIStrings.onloadEvent);
+    case WebVital.TBT:
+      return i18nString(UIStrings.totalBlockingTime);
+    case WebVital.CLS:
+      return i18nString(UIStrings.cumulativeLayoutShift);
+  }
+}
+
+// Rows that are missing a value are always sorted last.
+function compareNullableValues<Key>(
+    columnId: string, a: DataGrid.SortableDataGrid.SortableDataGridNode<ComparisonGridNode<Key>>,
+    b: DataGrid.SortableDataGrid.SortableDataGridNode<ComparisonGridNode<Key>>): number {
+  const aValue = a.data[columnId] as number | null;
+  const bValue = b.data[columnId] as number | null;
+  if (aValue === null || bValue === null) {
+    return aValue === bValue ? 0 : (aValue === null ? 1 : -1);
+  }
+  return aValue - bValue;
+}
+
+class ComparisonGridNode<Key> extends DataGrid.SortableDataGrid.SortableDataGridNode<ComparisonGridNode<Key>> {
+  readonly #formatValue: (value: number) => string;
+
+  constructor(comparison: MetricComparison<Key>, name: string, formatValue: (value: number) => string) {
+    super({name, before: comparison.before, after: comparison.after, delta: comparison.delta});
+    this.#formatValue = formatValue;
+  }
+
+  createCell(columnId: string): HTMLElement {
+    const cell = this.createTD(columnId);
+    const value = this.data[columnId];
+    if (columnId === 'name') {
+      cell.textContent = value;
+      UI.Tooltip.Tooltip.install(cell, value);
+      return cell;
+    }
+    if (value === null) {
+      cell.textContent = '–';
+      return cell;
+    }
+    if (columnId !== 'delta') {
+      cell.textContent = this.#formatValue(value);
+      return cell;
+    }
+    // All the metrics compared are better when they are lower.
+    cell.textContent = (value > 0 ? '+' : value < 0 ? '−' : '') + this.#formatValue(Math.abs(value));
+    cell.classList.toggle('timeline-comparison-regression', value > 0);
+    cell.classList.toggle('timeline-comparison-improvement', value < 0);
+    return cell;
+  }
+}
@@ -157,6 +157,31 @@ export class TimelineHistoryManager {
     return model;
   }
 
+  canCompare(): boolean {
+    return this.enabled && this.recordings.length > 1;
+  }
+
+  /**
+   * Lets the user pick one of the other recordings to compare with the
+   * current one. Unlike showHistoryDropDown, this doesn't change the current
+   * recording.
+   */
+  async showComparisonDropDown(anchor: Element): Promise<PerformanceModel|null> {
+    if (!this.canCompare() || !this.lastActiveModel) {
+      return null;
+    }
+    const otherRecordings = this.recordings.filter(model => model !== this.lastActiveModel);
+    const model = await DropDown.show(otherRecordings, otherRecordings[0], anchor);
+    if (!model) {
+      return null;
+    }
+    const data = TimelineHistoryManager.dataForModel(model);
+    if (data) {
+      data.lastUsed = Date.now();
+    }
+    return model;
+  }
+
   cancelIfShowing(): void {
     DropDown.cancelIfShowing();
   }
@@ -217,7 +242,7 @@ export class TimelineHistoryManager {
     return i18nString(UIStrings.sH, {PH1: hours});
   }
 
-  private title(performanceModel: PerformanceModel): string {
+  title(performanceModel: PerformanceModel): string {
     const data = TimelineHistoryManager.dataForModel(performanceModel);
     if (!data) {
       throw new Error('Unable to find data for model');
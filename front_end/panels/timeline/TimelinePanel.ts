@@ -54,6 +54,7 @@ import * as MobileThrottling from '../mobile_throttling/mobile_throttling.js';
 
 import {Events, PerformanceModel, type WindowChangedEvent} from './PerformanceModel.js';
 
+import {TimelineComparisonView} from './TimelineComparisonView.js';
 import {TimelineController, type Client} from './TimelineController.js';
 
 import {
@@ -116,6 +117,14 @@ const UIStrings = {
   */
   saveProfile: 'Save profile…',
   /**
+  *@description Tooltip text of the button that compares the current recording with another one in the Performance panel
+  */
+  compareWithAnotherRecording: 'Compare with another recording…',
+  /**
+  *@description Text of the button that compares the current recording with another one in the Performance panel
+  */
+  compare: 'Compare',
+  /**
   *@description Text to take screenshots
   */
   captureScreenshots: 'Capture screenshots',
@@ -320,6 +329,8 @@ export class TimelinePanel extends UI.Panel.Panel implements Client, TimelineMod
   private clearButton!: UI.Toolbar.ToolbarButton;
   private loadButton!: UI.Toolbar.ToolbarButton;
   private saveButton!: UI.Toolbar.ToolbarButton;
+  private compareButton!: UI.Toolbar.ToolbarButton;
+  private comparisonView: TimelineComparisonView|null = null;
   private statusPane!: StatusPane|null;
   private landingPage!: UI.Widget.Widget;
   private loader?: TimelineLoader;
@@ -543,6 +554,10 @@ export class TimelinePanel extends UI.Panel.Panel implements Client, TimelineMod
     this.panelToolbar.appendSeparator();
     this.panelToolbar.appendToolbarItem(this.historyManager.button());
     this.panelToolbar.registerCSSFiles([historyToolbarButtonStyles]);
+    this.compareButton = new UI.Toolbar.ToolbarButton(
+        i18nString(UIStrings.compareWithAnotherRecording), undefined, i18nString(UIStrings.compare));
+    this.compareButton.addEventListener(UI.Toolbar.ToolbarButton.Events.Click, () => void this.compareRecordings());
+    this.panelToolbar.appendToolbarItem(this.compareButton);
     this.panelToolbar.appendSeparator();
 
     // View
@@ -731,6 +746,36 @@ export class TimelinePanel extends UI.Panel.Panel implements Client, TimelineMod
     }
   }
 
+  async compareRecordings(): Promise<void> {
+    const currentModel = this.performanceModel;
+    if (this.state !== State.Idle || !currentModel) {
+      return;
+    }
+    const otherModel = await this.historyManager.showComparisonDropDown(this.compareButton.element);
+    if (!otherModel || currentModel !== this.performanceModel) {
+      return;
+    }
+    this.showComparison(otherModel, currentModel);
+  }
+
+  private showComparison(before: PerformanceModel, after: PerformanceModel): void {
+    if (!this.comparisonView) {
+      this.comparisonView = new TimelineComparisonView(() => this.hideComparison());
+    }
+    this.comparisonView.setRecordings(
+        {title: this.historyManager.title(before), model: before},
+        {title: this.historyManager.title(after), model: after});
+    this.searchableViewInternal.hideWidget();
+    this.comparisonView.show(this.timelinePane.element);
+  }
+
+  private hideComparison(): void {
+    this.comparisonView?.detach();
+    if (this.performanceModel) {
+      this.searchableViewInternal.showWidget();
+    }
+  }
+
   navigateHistory(direction: number): boolean {
     const model = this.historyManager.navigate(direction);
     if (model && model !== this.performanceModel) {
@@ -1064,6 +1109,8 @@ export class TimelinePanel extends UI.Panel.Panel implements Client, TimelineMod
     this.dropTarget.setEnabled(this.state === state.Idle);
     this.loadButton.setEnabled(this.state === state.Idle);
     this.saveButton.setEnabled(this.state === state.Idle && Boolean(this.performanceModel));
+    this.compareButton.setEnabled(
+        this.state === state.Idle && Boolean(this.performanceModel) && this.historyManager.canCompare());
   }
 
   async toggleRecording(): Promise<void> {
@@ -1115,6 +1162,9 @@ export class TimelinePanel extends UI.Panel.Panel implements Client, TimelineMod
       this.performanceModel.removeEventListener(Events.WindowChanged, this.onModelWindowChanged, this);
     }
     this.performanceModel = model;
+    // The comparison is between the current recording and another one, so it
+    // doesn't make sense anymore once the current recording changes.
+    this.comparisonView?.detach();
     if (model) {
       this.searchableViewInternal.showWidget();
       this.applyFilters(model);
@@ -1297,6 +1347,7 @@ export class TimelinePanel extends UI.Panel.Panel implements Client, TimelineMod
     }
 
     this.historyManager.addRecording(this.performanceModel);
+    this.updateTimelineControls();
 
     if (this.startCoverage.get()) {
       void UI.ViewManager.ViewManager.instance()
@@ -7,6 +7,8 @@ import * as CountersGraph from './CountersGraph.js';
 import * as EventsTimelineTreeView from './EventsTimelineTreeView.js';
 import * as ExtensionTracingSession from './ExtensionTracingSession.js';
 import * as PerformanceModel from './PerformanceModel.js';
+import * as TimelineComparison from './TimelineComparison.js';
+import * as TimelineComparisonView from './TimelineComparisonView.js';
 import * as TimelineController from './TimelineController.js';
 import * as TimelineDetailsView from './TimelineDetailsView.js';
 import * as TimelineEventOverview from './TimelineEventOverview.js';
@@ -30,6 +32,8 @@ export {
   EventsTimelineTreeView,
   ExtensionTracingSession,
   PerformanceModel,
+  TimelineComparison,
+  TimelineComparisonView,
   TimelineController,
   TimelineDetailsView,
   TimelineEventOverview,
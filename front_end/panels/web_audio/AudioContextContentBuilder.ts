@@ -36,6 +36,62 @@ const UIStrings = {
   *@description Text in Audio Context Content Builder
   */
   renderCapacity: 'Render Capacity',
+  /**
+  *@description Label in the Web Audio panel for the number of inputs of an audio node
+  */
+  inputs: 'Inputs',
+  /**
+  *@description Label in the Web Audio panel for the number of outputs of an audio node
+  */
+  outputs: 'Outputs',
+  /**
+  *@description Label in the Web Audio panel for the number of channels that an audio node mixes its inputs to
+  */
+  channelCount: 'Channel Count',
+  /**
+  *@description Label in the Web Audio panel for how an audio node computes the number of channels of its inputs
+  */
+  channelCountMode: 'Channel Count Mode',
+  /**
+  *@description Label in the Web Audio panel for how an audio node up-mixes and down-mixes the channels of its inputs
+  */
+  channelInterpretation: 'Channel Interpretation',
+  /**
+  *@description Header of the column of the names of the AudioParams of an audio node in the Web Audio panel
+  */
+  param: 'Param',
+  /**
+  *@description Header of the column of the automation rates of the AudioParams of an audio node in the Web Audio panel
+  */
+  rate: 'Rate',
+  /**
+  *@description Header of the column of the current values of the AudioParams of an audio node in the Web Audio panel
+  */
+  value: 'Value',
+  /**
+  *@description Header of the column of the default values of the AudioParams of an audio node in the Web Audio panel
+  */
+  defaultValue: 'Default',
+  /**
+  *@description Header of the column of the minimum values of the AudioParams of an audio node in the Web Audio panel
+  */
+  minValue: 'Min',
+  /**
+  *@description Header of the column of the maximum values of the AudioParams of an audio node in the Web Audio panel
+  */
+  maxValue: 'Max',
+  /**
+  *@description Header of the column of the plots of the recent values of the AudioParams of an audio node in the Web Audio panel
+  */
+  automation: 'Automation',
+  /**
+  *@description Text in the Web Audio panel when the selected audio node has no AudioParams
+  */
+  noParams: 'This node has no AudioParams.',
+  /**
+  *@description Note below the AudioParams of an audio node in the Web Audio panel
+  */
+  paramValuesNotReported: 'The browser does not report the current values of AudioParams.',
 };
 const str_ = i18n.i18n.registerUIStrings('panels/web_audio/AudioContextContentBuilder.ts', UIStrings);
 const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
@@ -87,6 +143,120 @@ export class ContextDetailBuilder {
   }
 }
 
+export class AudioNodeDetailBuilder {
+  private readonly fragment: DocumentFragment;
+  private readonly container: HTMLDivElement;
+  constructor(
+      label: string, nodeId: string, node: Protocol.WebAudio.AudioNode|null, params: Protocol.WebAudio.AudioParam[],
+      paramValues: Map<Protocol.WebAudio.GraphObjectId, readonly number[]>, paramValuesReported: boolean|null) {
+    this.fragment = document.createDocumentFragment();
+    this.container = document.createElement('div');
+    this.container.classList.add('context-detail-container');
+    this.fragment.appendChild(this.container);
+    this.build(label, nodeId, node, params, paramValues, paramValuesReported);
+  }
+
+  private build(
+      label: string, nodeId: string, node: Protocol.WebAudio.AudioNode|null, params: Protocol.WebAudio.AudioParam[],
+      paramValues: Map<Protocol.WebAudio.GraphObjectId, readonly number[]>, paramValuesReported: boolean|null): void {
+    this.container.appendChild(UI.Fragment.html`
+  <div class="context-detail-header">
+  <div class="context-detail-title">${label}</div>
+  <div class="context-detail-subtitle">${nodeId}</div>
+  </div>
+  `);
+    // Audio listeners are not audio nodes and have no channel configuration.
+    if (node) {
+      this.addEntry(i18nString(UIStrings.inputs), node.numberOfInputs);
+      this.addEntry(i18nString(UIStrings.outputs), node.numberOfOutputs);
+      this.addEntry(i18nString(UIStrings.channelCount), node.channelCount, 'ch');
+      this.addEntry(i18nString(UIStrings.channelCountMode), node.channelCountMode);
+      this.addEntry(i18nString(UIStrings.channelInterpretation), node.channelInterpretation);
+    }
+    this.addParams(params, paramValues, paramValuesReported);
+  }
+
+  private addEntry(entry: string, value: string|number, unit?: string): void {
+    const valueWithUnit = value + (unit ? ` ${unit}` : '');
+    this.container.appendChild(UI.Fragment.html`
+  <div class="context-detail-row">
+  <div class="context-detail-row-entry">${entry}</div>
+  <div class="context-detail-row-value">${valueWithUnit}</div>
+  </div>
+  `);
+  }
+
+  private addParams(
+      params: Protocol.WebAudio.AudioParam[], paramValues: Map<Protocol.WebAudio.GraphObjectId, readonly number[]>,
+      paramValuesReported: boolean|null): void {
+    if (!params.length) {
+      this.container.createChild('div', 'audio-node-no-params').textContent = i18nString(UIStrings.noParams);
+      return;
+    }
+    const table = this.container.createChild('table', 'audio-node-params');
+    const header = table.createChild('tr');
+    const titles = [
+      i18nString(UIStrings.param),
+      i18nString(UIStrings.rate),
+      i18nString(UIStrings.value),
+      i18nString(UIStrings.defaultValue),
+      i18nString(UIStrings.minValue),
+      i18nString(UIStrings.maxValue),
+      i18nString(UIStrings.automation),
+    ];
+    for (const title of titles) {
+      header.createChild('th').textContent = title;
+    }
+    for (const param of params) {
+      const row = table.createChild('tr');
+      row.createChild('td').textContent = param.paramType;
+      row.createChild('td').textContent = param.rate;
+      const values = paramValues.get(param.paramId) || [];
+      const currentValue = values.length ? formatParamValue(values[values.length - 1]) : '';
+      row.createChild('td', 'audio-node-param-value').textContent = currentValue;
+      for (const value of [param.defaultValue, param.minValue, param.maxValue]) {
+        row.createChild('td', 'audio-node-param-value').textContent = formatParamValue(value);
+      }
+      appendParamPlot(row.createChild('td'), values);
+    }
+    if (paramValuesReported === false) {
+      this.container.createChild('div', 'audio-node-params-note').textContent =
+          i18nString(UIStrings.paramValuesNotReported);
+    }
+  }
+
+  getFragment(): DocumentFragment {
+    return this.fragment;
+  }
+}
+
+// The ranges of most AudioParams are the limits of single precision floats, which are unreadable in full.
+function formatParamValue(value: number): string {
+  return Math.abs(value) >= 1e6 ? value.toExponential(3) : String(Number(value.toFixed(6)));
+}
+
+const ParamPlotWidth = 120;
+const ParamPlotHeight = 16;
+
+// Plots the values as a line that spans the range between the smallest and the largest of them.
+function appendParamPlot(cell: Element, values: readonly number[]): void {
+  if (values.length < 2) {
+    return;
+  }
+  const svg = UI.UIUtils.createSVGChild(cell, 'svg', 'audio-node-param-plot');
+  svg.setAttribute('width', String(ParamPlotWidth));
+  svg.setAttribute('height', String(ParamPlotHeight));
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  const points = values.map((value, index) => {
+    const x = index / (values.length - 1) * ParamPlotWidth;
+    // A constant value is drawn in the middle.
+    const y = range ? (1 - (value - min) / range) * (ParamPlotHeight - 2) + 1 : ParamPlotHeight / 2;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  UI.UIUtils.createSVGChild(svg, 'polyline').setAttribute('points', points.join(' '));
+}
+
 export class ContextSummaryBuilder {
   private readonly fragment: DocumentFragment;
   constructor(contextId: string, contextRealtimeData: Protocol.WebAudio.ContextRealtimeData) {
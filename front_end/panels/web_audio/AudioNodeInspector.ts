@@ -0,0 +1,180 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type * as Common from '../../core/common/common.js';
+import * as i18n from '../../core/i18n/i18n.js';
+import * as Platform from '../../core/platform/platform.js';
+import * as SDK from '../../core/sdk/sdk.js';
+import * as UI from '../../ui/legacy/legacy.js';
+import type * as Protocol from '../../generated/protocol.js';
+import * as GraphVisualizer from './graph_visualizer/graph_visualizer.js';
+
+import {AudioNodeDetailBuilder} from './AudioContextContentBuilder.js';
+import {WebAudioModel} from './WebAudioModel.js';
+
+const UIStrings = {
+  /**
+  *@description Accessible name of the list of the audio nodes of an audio context in the Web Audio panel
+  */
+  audioNodes: 'Audio nodes',
+  /**
+  *@description Text in the Web Audio panel when no audio node of the audio context is selected
+  */
+  selectANodeToSeeItsDetails: 'Select a node to see its channel configuration and params',
+};
+const str_ = i18n.i18n.registerUIStrings('panels/web_audio/AudioNodeInspector.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+// The number of values of each AudioParam that are plotted, one per poll of the view.
+const MaxParamValueSamples = 60;
+
+// Lists the nodes of the graph of an audio context, and shows the channel configuration and the
+// AudioParams of the selected one, with their current values and a plot of their recent values.
+export class AudioNodeInspector extends UI.Widget.HBox implements
+    UI.ListControl.ListDelegate<GraphVisualizer.NodeView.NodeView> {
+  private graph: GraphVisualizer.GraphView.GraphView|null;
+  private readonly items: UI.ListModel.ListModel<GraphVisualizer.NodeView.NodeView>;
+  private readonly list: UI.ListControl.ListControl<GraphVisualizer.NodeView.NodeView>;
+  private readonly detailsElement: HTMLElement;
+  private selectedNodeId: string|null;
+  // The recent values of the params of the selected node, oldest first.
+  private readonly paramValues: Map<Protocol.WebAudio.GraphObjectId, number[]>;
+  // Null until the values of the params of the selected node were requested.
+  private paramValuesReported: boolean|null;
+
+  constructor() {
+    super(false);
+    this.contentElement.classList.add('audio-node-inspector');
+    this.graph = null;
+    this.selectedNodeId = null;
+    this.paramValues = new Map();
+    this.paramValuesReported = null;
+
+    this.items = new UI.ListModel.ListModel();
+    this.list = new UI.ListControl.ListControl(this.items, this, UI.ListControl.ListMode.NonViewport);
+    this.list.element.classList.add('audio-node-list');
+    this.list.element.tabIndex = 0;
+    UI.ARIAUtils.setAccessibleName(this.list.element, i18nString(UIStrings.audioNodes));
+    this.contentElement.appendChild(this.list.element);
+
+    this.detailsElement = this.contentElement.createChild('div', 'audio-node-details vbox flex-auto');
+  }
+
+  setGraph(graph: GraphVisualizer.GraphView.GraphView|null): void {
+    if (this.graph === graph) {
+      return;
+    }
+    this.graph?.removeEventListener(GraphVisualizer.GraphView.Events.ShouldRedraw, this.graphChanged, this);
+    this.graph = graph;
+    this.graph?.addEventListener(GraphVisualizer.GraphView.Events.ShouldRedraw, this.graphChanged, this);
+    this.setSelectedNodeId(null);
+    this.refresh();
+  }
+
+  private graphChanged(_event: Common.EventTarget.EventTargetEvent<GraphVisualizer.GraphView.GraphView>): void {
+    this.refresh();
+  }
+
+  private refresh(): void {
+    const nodes = this.graph ? [...this.graph.getNodes().values()] : [];
+    // Replacing the items moves the selection of the list, so restore it afterwards.
+    const selectedNode = nodes.find(node => node.id === this.selectedNodeId) || null;
+    this.items.replaceAll(nodes);
+    this.setSelectedNodeId(selectedNode ? selectedNode.id : null);
+    this.list.selectItem(selectedNode, false, true);
+    this.updateDetails();
+  }
+
+  private setSelectedNodeId(nodeId: string|null): void {
+    if (nodeId !== this.selectedNodeId) {
+      this.selectedNodeId = nodeId;
+      this.paramValues.clear();
+      this.paramValuesReported = null;
+    }
+  }
+
+  // Requests the current values of the params of the selected node, and adds them to their plots.
+  async pollParamValues(): Promise<void> {
+    const nodeId = this.selectedNodeId as Protocol.WebAudio.GraphObjectId | null;
+    if (!nodeId || !this.isShowing()) {
+      return;
+    }
+    const values = new Map<Protocol.WebAudio.GraphObjectId, number>();
+    let reported = this.paramValuesReported;
+    for (const model of SDK.TargetManager.TargetManager.instance().models(WebAudioModel)) {
+      for (const param of model.audioParamsOfNode(nodeId)) {
+        const value = await model.requestAudioParamValue(param.contextId, param.paramId);
+        reported = value !== null;
+        if (value !== null) {
+          values.set(param.paramId, value);
+        }
+      }
+    }
+    // The selection may have changed while the values were requested.
+    if (nodeId !== this.selectedNodeId) {
+      return;
+    }
+    this.paramValuesReported = reported;
+    for (const [paramId, value] of values) {
+      const samples = Platform.MapUtilities.getWithDefault(this.paramValues, paramId, () => []);
+      samples.push(value);
+      if (samples.length > MaxParamValueSamples) {
+        samples.shift();
+      }
+    }
+    this.updateDetails();
+  }
+
+  private updateDetails(): void {
+    this.detailsElement.removeChildren();
+    const node = this.selectedNodeId && this.graph?.getNodeById(this.selectedNodeId);
+    if (!node) {
+      this.detailsElement.createChild('div', 'audio-node-details-placeholder').textContent =
+          i18nString(UIStrings.selectANodeToSeeItsDetails);
+      return;
+    }
+    const nodeId = node.id as Protocol.WebAudio.GraphObjectId;
+    let audioNode = null;
+    let audioParams: Protocol.WebAudio.AudioParam[] = [];
+    for (const model of SDK.TargetManager.TargetManager.instance().models(WebAudioModel)) {
+      audioNode = audioNode || model.audioNode(nodeId);
+      audioParams = audioParams.length ? audioParams : model.audioParamsOfNode(nodeId);
+    }
+    const detailBuilder = new AudioNodeDetailBuilder(
+        node.label, node.id, audioNode, audioParams, this.paramValues, this.paramValuesReported);
+    this.detailsElement.appendChild(detailBuilder.getFragment());
+  }
+
+  createElementForItem(node: GraphVisualizer.NodeView.NodeView): Element {
+    const element = document.createElement('div');
+    element.classList.add('audio-node-list-item');
+    element.textContent = node.label;
+    UI.Tooltip.Tooltip.install(element, node.type);
+    return element;
+  }
+
+  heightForItem(_node: GraphVisualizer.NodeView.NodeView): number {
+    return 0;
+  }
+
+  isItemSelectable(_node: GraphVisualizer.NodeView.NodeView): boolean {
+    return true;
+  }
+
+  selectedItemChanged(
+      _from: GraphVisualizer.NodeView.NodeView|null, to: GraphVisualizer.NodeView.NodeView|null,
+      fromElement: HTMLElement|null, toElement: HTMLElement|null): void {
+    fromElement?.classList.remove('selected');
+    toElement?.classList.add('selected');
+    const nodeId = to ? to.id : null;
+    if (nodeId !== this.selectedNodeId) {
+      this.setSelectedNodeId(nodeId);
+      this.updateDetails();
+    }
+  }
+
+  updateSelectedItemARIA(_fromElement: Element|null, _toElement: Element|null): boolean {
+    return false;
+  }
+}
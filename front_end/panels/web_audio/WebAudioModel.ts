@@ -9,11 +9,18 @@ import type * as Protocol from '../../generated/protocol.js';
 export class WebAudioModel extends SDK.SDKModel.SDKModel<EventTypes> implements ProtocolProxyApi.WebAudioDispatcher {
   private enabled: boolean;
   private readonly agent: ProtocolProxyApi.WebAudioApi;
+  private readonly audioNodes: Map<Protocol.WebAudio.GraphObjectId, Protocol.WebAudio.AudioNode>;
+  private readonly audioParams: Map<Protocol.WebAudio.GraphObjectId, Protocol.WebAudio.AudioParam>;
   constructor(target: SDK.Target.Target) {
     super(target);
 
     this.enabled = false;
 
+    // The nodes and params of all contexts, so that the view can show their channel configuration
+    // and param ranges, which the graph does not keep.
+    this.audioNodes = new Map();
+    this.audioParams = new Map();
+
     this.agent = target.webAudioAgent();
     target.registerWebAudioDispatcher(this);
 
@@ -30,10 +37,14 @@ export class WebAudioModel extends SDK.SDKModel.SDKModel<EventTypes> implements
   }
 
   private flushContexts(): void {
+    this.audioNodes.clear();
+    this.audioParams.clear();
     this.dispatchEventToListeners(Events.ModelReset);
   }
 
   async suspendModel(): Promise<void> {
+    this.audioNodes.clear();
+    this.audioParams.clear();
     this.dispatchEventToListeners(Events.ModelSuspend);
     await this.agent.invoke_disable();
   }
@@ -58,6 +69,16 @@ export class WebAudioModel extends SDK.SDKModel.SDKModel<EventTypes> implements
   }
 
   contextWillBeDestroyed({contextId}: Protocol.WebAudio.ContextWillBeDestroyedEvent): void {
+    for (const [nodeId, node] of this.audioNodes) {
+      if (node.contextId === contextId) {
+        this.audioNodes.delete(nodeId);
+      }
+    }
+    for (const [paramId, param] of this.audioParams) {
+      if (param.contextId === contextId) {
+        this.audioParams.delete(paramId);
+      }
+    }
     this.dispatchEventToListeners(Events.ContextDestroyed, contextId);
   }
 
@@ -74,18 +95,22 @@ export class WebAudioModel extends SDK.SDKModel.SDKModel<EventTypes> implements
   }
 
   audioNodeCreated({node}: Protocol.WebAudio.AudioNodeCreatedEvent): void {
+    this.audioNodes.set(node.nodeId, node);
     this.dispatchEventToListeners(Events.AudioNodeCreated, node);
   }
 
   audioNodeWillBeDestroyed({contextId, nodeId}: Protocol.WebAudio.AudioNodeWillBeDestroyedEvent): void {
+    this.audioNodes.delete(nodeId);
     this.dispatchEventToListeners(Events.AudioNodeWillBeDestroyed, {contextId, nodeId});
   }
 
   audioParamCreated({param}: Protocol.WebAudio.AudioParamCreatedEvent): void {
+    this.audioParams.set(param.paramId, param);
     this.dispatchEventToListeners(Events.AudioParamCreated, param);
   }
 
   audioParamWillBeDestroyed({contextId, nodeId, paramId}: Protocol.WebAudio.AudioParamWillBeDestroyedEvent): void {
+    this.audioParams.delete(paramId);
     this.dispatchEventToListeners(Events.AudioParamWillBeDestroyed, {contextId, nodeId, paramId});
   }
 
@@ -112,11 +137,26 @@ export class WebAudioModel extends SDK.SDKModel.SDKModel<EventTypes> implements
         Events.NodeParamDisconnected, {contextId, sourceId, destinationId, sourceOutputIndex});
   }
 
+  audioNode(nodeId: Protocol.WebAudio.GraphObjectId): Protocol.WebAudio.AudioNode|null {
+    return this.audioNodes.get(nodeId) || null;
+  }
+
+  audioParamsOfNode(nodeId: Protocol.WebAudio.GraphObjectId): Protocol.WebAudio.AudioParam[] {
+    return [...this.audioParams.values()].filter(param => param.nodeId === nodeId);
+  }
+
   async requestRealtimeData(contextId: Protocol.WebAudio.GraphObjectId):
       Promise<Protocol.WebAudio.ContextRealtimeData|null> {
     const realtimeResponse = await this.agent.invoke_getRealtimeData({contextId});
     return realtimeResponse.realtimeData;
   }
+
+  // Resolves to null if the browser does not report the values of AudioParams.
+  async requestAudioParamValue(contextId: Protocol.WebAudio.GraphObjectId, paramId: Protocol.WebAudio.GraphObjectId):
+      Promise<number|null> {
+    const response = await this.agent.invoke_getAudioParamValue({contextId, paramId});
+    return response.getError() ? null : response.value;
+  }
 }
 
 SDK.SDKModel.SDKModel.register(WebAudioModel, {capabilities: SDK.Target.Capability.DOM, autostart: false});
@@ -11,6 +11,7 @@ import type * as Protocol from '../../generated/protocol.js';
 import * as GraphVisualizer from './graph_visualizer/graph_visualizer.js';
 
 import {ContextDetailBuilder, ContextSummaryBuilder} from './AudioContextContentBuilder.js';
+import {AudioNodeInspector} from './AudioNodeInspector.js';
 import {AudioContextSelector, Events as SelectorEvents} from './AudioContextSelector.js';
 import {Events as ModelEvents, WebAudioModel} from './WebAudioModel.js';
 
@@ -30,6 +31,7 @@ export class WebAudioView extends UI.ThrottledWidget.ThrottledWidget implements
   private readonly contentContainer: HTMLElement;
   private readonly detailViewContainer: HTMLElement;
   private graphManager: GraphVisualizer.GraphManager.GraphManager;
+  private readonly nodeInspector: AudioNodeInspector;
   private readonly landingPage: UI.Widget.VBox;
   private readonly summaryBarContainer: HTMLElement;
   constructor() {
@@ -52,6 +54,9 @@ export class WebAudioView extends UI.ThrottledWidget.ThrottledWidget implements
 
     this.graphManager = new GraphVisualizer.GraphManager.GraphManager();
 
+    // Creates the inspector of the nodes of the selected context, shown below its details.
+    this.nodeInspector = new AudioNodeInspector();
+
     // Creates the landing page.
     this.landingPage = new UI.Widget.VBox();
     this.landingPage.contentElement.classList.add('web-audio-landing-page', 'fill');
@@ -72,6 +77,7 @@ export class WebAudioView extends UI.ThrottledWidget.ThrottledWidget implements
           if (context) {
             this.updateDetailView(context);
           }
+          this.nodeInspector.setGraph(context ? this.graphManager.getGraph(context.contextId) : null);
           void this.doUpdate();
         });
 
@@ -113,6 +119,7 @@ export class WebAudioView extends UI.ThrottledWidget.ThrottledWidget implements
 
   async doUpdate(): Promise<void> {
     await this.pollRealtimeData();
+    await this.nodeInspector.pollParamValues();
     this.update();
   }
 
@@ -180,12 +187,15 @@ export class WebAudioView extends UI.ThrottledWidget.ThrottledWidget implements
       this.landingPage.detach();
     }
     this.contextSelector.reset();
+    this.nodeInspector.setGraph(null);
+    this.nodeInspector.detach();
     this.detailViewContainer.removeChildren();
     this.landingPage.show(this.detailViewContainer);
     this.graphManager.clearGraphs();
   }
 
   private suspendModel(): void {
+    this.nodeInspector.setGraph(null);
     this.graphManager.clearGraphs();
   }
 
@@ -336,8 +346,10 @@ export class WebAudioView extends UI.ThrottledWidget.ThrottledWidget implements
       this.landingPage.detach();
     }
     const detailBuilder = new ContextDetailBuilder(context);
+    this.nodeInspector.detach();
     this.detailViewContainer.removeChildren();
     this.detailViewContainer.appendChild(detailBuilder.getFragment());
+    this.nodeInspector.show(this.detailViewContainer);
   }
 
   private updateSummaryBar(contextId: string, contextRealtimeData: Protocol.WebAudio.ContextRealtimeData): void {
@@ -4,6 +4,7 @@
 
 import * as AudioContextContentBuilder from './AudioContextContentBuilder.js';
 import * as AudioContextSelector from './AudioContextSelector.js';
+import * as AudioNodeInspector from './AudioNodeInspector.js';
 import * as WebAudioModel from './WebAudioModel.js';
 import * as WebAudioView from './WebAudioView.js';
 
@@ -18,6 +19,7 @@ export {
 export {
   AudioContextContentBuilder,
   AudioContextSelector,
+  AudioNodeInspector,
   WebAudioModel,
   WebAudioView,
 };
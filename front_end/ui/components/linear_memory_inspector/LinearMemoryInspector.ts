@@ -48,6 +48,13 @@ import {
   type JumpToHighlightedMemoryEvent,
 } from './LinearMemoryHighlightChipList.js';
 import {type HighlightInfo} from './LinearMemoryViewerUtils.js';
+import {
+  LinearMemoryStructView,
+  StructDefinitionChangedEvent,
+  type LinearMemoryStructViewData,
+  type StructLayoutPlacedEvent,
+} from './LinearMemoryStructView.js';
+import {decodeStruct, getStructRegions, parseStructLayouts, type StructLayout} from './StructLayoutUtils.js';
 
 import * as i18n from '../../../core/i18n/i18n.js';
 const UIStrings = {
@@ -73,6 +80,7 @@ export interface LinearMemoryInspectorData {
   valueTypeModes?: Map<ValueType, ValueTypeMode>;
   endianness?: Endianness;
   highlightInfo?: HighlightInfo;
+  structDefinition?: string;
 }
 
 export type Settings = {
@@ -153,6 +161,11 @@ export class LinearMemoryInspector extends HTMLElement {
   #valueTypes = new Set(this.#valueTypeModes.keys());
   #endianness = Endianness.Little;
 
+  #structDefinition = '';
+  // The struct layout placed by the user, which takes precedence over the layout of the highlight.
+  #structLayoutName: string|null = null;
+  #structAddress = 0;
+
   connectedCallback(): void {
     this.#shadow.adoptedStyleSheets = [linearMemoryInspectorStyles];
   }
@@ -182,6 +195,7 @@ export class LinearMemoryInspector extends HTMLElement {
     this.#valueTypes = data.valueTypes || this.#valueTypes;
     this.#endianness = data.endianness || this.#endianness;
     this.#highlightInfo = data.highlightInfo;
+    this.#structDefinition = data.structDefinition ?? this.#structDefinition;
     this.#setAddress(data.address);
     this.#render();
   }
@@ -204,6 +218,8 @@ export class LinearMemoryInspector extends HTMLElement {
 
     const highlightedMemoryAreas = this.#highlightInfo ? [this.#highlightInfo] : [];
     const focusedMemoryHighlight = this.#getSmallestEnclosingMemoryHighlight(highlightedMemoryAreas, this.#address);
+    const structViewData = this.#getStructViewData();
+    const structRegions = structViewData.decodedStruct ? getStructRegions(structViewData.decodedStruct) : [];
     // Disabled until https://crbug.com/1079231 is fixed.
     // clang-format off
     render(html`
@@ -225,7 +241,8 @@ export class LinearMemoryInspector extends HTMLElement {
             address: this.#address, memoryOffset: start,
             focus: this.#currentNavigatorMode === Mode.Submitted,
             highlightInfo: this.#highlightInfo,
-            focusedMemoryHighlight: focusedMemoryHighlight } as LinearMemoryViewerData}
+            focusedMemoryHighlight: focusedMemoryHighlight,
+            structRegions } as LinearMemoryViewerData}
           @byteselected=${this.#onByteSelected}
           @resize=${this.#resize}>
         </${LinearMemoryViewer.litTagName}>
@@ -244,6 +261,12 @@ export class LinearMemoryInspector extends HTMLElement {
           @jumptopointeraddress=${this.#onJumpToAddress}
           >
         </${LinearMemoryValueInterpreter.litTagName}/>
+        <${LinearMemoryStructView.litTagName}
+          .data=${structViewData as LinearMemoryStructViewData}
+          @structdefinitionchanged=${this.#onStructDefinitionChanged}
+          @structlayoutplaced=${this.#onStructLayoutPlaced}
+          @jumptopointeraddress=${this.#onJumpToAddress}>
+        </${LinearMemoryStructView.litTagName}>
       </div>
       `, this.#shadow, {
       host: this,
@@ -251,6 +274,46 @@ export class LinearMemoryInspector extends HTMLElement {
     // clang-format on
   }
 
+  #getStructViewData(): LinearMemoryStructViewData {
+    let layouts: StructLayout[] = [];
+    let error;
+    try {
+      layouts = parseStructLayouts(this.#structDefinition);
+    } catch (e) {
+      error = (e as Error).message;
+    }
+    const placedLayout = layouts.find(layout => layout.name === this.#structLayoutName);
+    const data: LinearMemoryStructViewData = {
+      structDefinition: this.#structDefinition,
+      layoutNames: layouts.map(layout => layout.name),
+      selectedLayoutName: placedLayout ? placedLayout.name : null,
+      error,
+    };
+    if (placedLayout) {
+      data.decodedStruct = decodeStruct(
+          placedLayout, this.#structAddress, this.#memory, this.#memoryOffset, this.#endianness, this.#valueTypeModes);
+    } else if (this.#highlightInfo?.layout) {
+      data.decodedStruct = decodeStruct(
+          this.#highlightInfo.layout, this.#highlightInfo.startAddress, this.#memory, this.#memoryOffset,
+          this.#endianness, this.#valueTypeModes);
+    }
+    return data;
+  }
+
+  #onStructDefinitionChanged(e: StructDefinitionChangedEvent): void {
+    e.stopPropagation();
+    this.#structDefinition = e.data;
+    this.dispatchEvent(new StructDefinitionChangedEvent(this.#structDefinition));
+    this.#render();
+  }
+
+  #onStructLayoutPlaced(e: StructLayoutPlacedEvent): void {
+    e.stopPropagation();
+    this.#structLayoutName = e.data;
+    this.#structAddress = this.#address;
+    this.#render();
+  }
+
   #onJumpToAddress(e: JumpToPointerAddressEvent|JumpToHighlightedMemoryEvent): void {
     // Stop event from bubbling up, since no element further up needs the event.
     e.stopPropagation();
@@ -413,5 +476,6 @@ declare global {
     'addresschanged': AddressChangedEvent;
     'settingschanged': SettingsChangedEvent;
     'deletememoryhighlight': DeleteMemoryHighlightEvent;
+    'structdefinitionchanged': StructDefinitionChangedEvent;
   }
 }
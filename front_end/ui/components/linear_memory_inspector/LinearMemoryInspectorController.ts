@@ -15,11 +15,12 @@ import {Events as LmiEvents, LinearMemoryInspectorPaneImpl} from './LinearMemory
 import {
   Endianness,
   getDefaultValueTypeMapping,
-  type ValueType,
+  ValueType,
   type ValueTypeMode,
 } from './ValueInterpreterDisplayUtils.js';
 import * as Bindings from '../../../models/bindings/bindings.js';
 import {type HighlightInfo} from './LinearMemoryViewerUtils.js';
+import {type FieldType, type StructLayout} from './StructLayoutUtils.js';
 
 const UIStrings = {
   /**
@@ -102,6 +103,69 @@ export function isMemoryObjectProperty(obj: SDK.RemoteObject.RemoteObject): bool
   return false;
 }
 
+type TypeInfo = Bindings.DebuggerLanguagePlugins.ValueNode['sourceType']['typeInfo'];
+type TypeMap = Map<unknown, {typeInfo: TypeInfo}>;
+
+function isStructTypeInfo(typeInfo: TypeInfo): boolean {
+  return typeInfo.arraySize === 0 && typeInfo.members.length > 0 &&
+      typeInfo.members.every(member => member.name !== undefined && member.name !== '*');
+}
+
+const INTEGER_VALUE_TYPES = new Map([
+  [1, ValueType.Int8],
+  [2, ValueType.Int16],
+  [4, ValueType.Int32],
+  [8, ValueType.Int64],
+]);
+
+// Scalars are recognized by their name and size, other values are shown as raw bytes.
+function fieldTypeFromTypeInfo(typeInfo: TypeInfo): FieldType {
+  const {size} = typeInfo;
+  const fieldType: FieldType = {name: typeInfo.typeNames[0] || '<anonymous>', size, alignment: typeInfo.alignment || 1};
+  if (typeInfo.members.some(member => member.name === '*')) {
+    fieldType.valueType = size === 8 ? ValueType.Pointer64 : ValueType.Pointer32;
+  } else if (/float|double/.test(fieldType.name)) {
+    if (size === 4 || size === 8) {
+      fieldType.valueType = size === 4 ? ValueType.Float32 : ValueType.Float64;
+    }
+  } else if (typeInfo.hasValue && !typeInfo.canExpand && INTEGER_VALUE_TYPES.has(size)) {
+    fieldType.valueType = INTEGER_VALUE_TYPES.get(size);
+    fieldType.signed = !/unsigned|uint|bool/.test(fieldType.name);
+  }
+  return fieldType;
+}
+
+function structLayoutFromTypeInfo(typeInfo: TypeInfo, typeMap: TypeMap, visitedTypeIds: Set<unknown>): StructLayout|
+    undefined {
+  // Recursive structs can only contain themselves through pointers, which are not expanded.
+  visitedTypeIds.add(typeInfo.typeId);
+  const fields = [];
+  for (const member of typeInfo.members) {
+    const memberTypeInfo = typeMap.get(member.typeId)?.typeInfo;
+    if (!memberTypeInfo) {
+      return undefined;
+    }
+    let count;
+    let elementTypeInfo = memberTypeInfo;
+    if (memberTypeInfo.arraySize > 0 && memberTypeInfo.members.length === 1) {
+      count = memberTypeInfo.arraySize;
+      elementTypeInfo = typeMap.get(memberTypeInfo.members[0].typeId)?.typeInfo ?? memberTypeInfo;
+    }
+    const type = fieldTypeFromTypeInfo(elementTypeInfo);
+    if (isStructTypeInfo(elementTypeInfo) && !visitedTypeIds.has(elementTypeInfo.typeId)) {
+      type.layout = structLayoutFromTypeInfo(elementTypeInfo, typeMap, visitedTypeIds);
+    }
+    fields.push({name: member.name ?? '', offset: member.offset, type, count});
+  }
+  visitedTypeIds.delete(typeInfo.typeId);
+  return {
+    name: typeInfo.typeNames[0] || '<anonymous>',
+    size: typeInfo.size,
+    alignment: typeInfo.alignment || 1,
+    fields,
+  };
+}
+
 type SerializableSettings = {
   valueTypes: ValueType[],
   valueTypeModes: [ValueType, ValueTypeMode][],
@@ -113,6 +177,7 @@ export class LinearMemoryInspectorController extends SDK.TargetManager.SDKModelO
   #bufferIdToRemoteObject: Map<string, SDK.RemoteObject.RemoteObject> = new Map();
   #bufferIdToHighlightInfo: Map<string, HighlightInfo> = new Map();
   #settings: Common.Settings.Setting<SerializableSettings>;
+  #structDefinitionSetting: Common.Settings.Setting<string>;
 
   private constructor() {
     super();
@@ -131,6 +196,7 @@ export class LinearMemoryInspectorController extends SDK.TargetManager.SDKModelO
       endianness: Endianness.Little,
     };
     this.#settings = Common.Settings.Settings.instance().createSetting('lmiInterpreterSettings', defaultSettings);
+    this.#structDefinitionSetting = Common.Settings.Settings.instance().createSetting('lmiStructLayouts', '');
   }
 
   static instance(): LinearMemoryInspectorController {
@@ -194,6 +260,14 @@ export class LinearMemoryInspectorController extends SDK.TargetManager.SDKModelO
     };
   }
 
+  saveStructDefinition(structDefinition: string): void {
+    this.#structDefinitionSetting.set(structDefinition);
+  }
+
+  loadStructDefinition(): string {
+    return this.#structDefinitionSetting.get();
+  }
+
   getHighlightInfo(bufferId: string): HighlightInfo|undefined {
     return this.#bufferIdToHighlightInfo.get(bufferId);
   }
@@ -285,6 +359,29 @@ export class LinearMemoryInspectorController extends SDK.TargetManager.SDKModelO
     return typeInfo.size;
   }
 
+  // Converts the type information of the DWARF extension into a struct layout. Returns undefined
+  // for values that are not structs. As for the size, pointers are followed once.
+  static extractStructLayout(obj: Bindings.DebuggerLanguagePlugins.ValueNode|
+                             Bindings.DebuggerLanguagePlugins.ExtensionRemoteObject): StructLayout|undefined {
+    if (obj instanceof Bindings.DebuggerLanguagePlugins.ExtensionRemoteObject) {
+      return undefined;
+    }
+    const {typeMap} = obj.sourceType;
+    let {typeInfo} = obj.sourceType;
+    const pointerMember = typeInfo.members.find(member => member.name === '*');
+    if (pointerMember) {
+      const pointeeTypeInfo = typeMap.get(pointerMember.typeId)?.typeInfo;
+      if (!pointeeTypeInfo) {
+        return undefined;
+      }
+      typeInfo = pointeeTypeInfo;
+    }
+    if (!isStructTypeInfo(typeInfo)) {
+      return undefined;
+    }
+    return structLayoutFromTypeInfo(typeInfo, typeMap, new Set());
+  }
+
   // The object type description corresponds to the type of the highlighted memory
   // that the user sees in the memory inspector. For pointers, we highlight the pointed to object.
   //
@@ -390,7 +487,7 @@ export class LinearMemoryInspectorController extends SDK.TargetManager.SDKModelO
                                                                                  obj.inspectableAddress) ??
         0;
 
-    let highlightInfo;
+    let highlightInfo: HighlightInfo|undefined;
     try {
       highlightInfo = {
         startAddress,
@@ -398,6 +495,10 @@ export class LinearMemoryInspectorController extends SDK.TargetManager.SDKModelO
         name: expression ? LinearMemoryInspectorController.extractObjectName(obj, expression) : expression,
         type: LinearMemoryInspectorController.extractObjectTypeDescription(obj),
       };
+      const layout = LinearMemoryInspectorController.extractStructLayout(obj);
+      if (layout) {
+        highlightInfo.layout = layout;
+      }
     } catch (err) {
       highlightInfo = undefined;
     }
@@ -17,6 +17,7 @@ import {
 import {LinearMemoryInspectorController, type LazyUint8Array} from './LinearMemoryInspectorController.js';
 import {type HighlightInfo} from './LinearMemoryViewerUtils.js';
 import {DeleteMemoryHighlightEvent} from './LinearMemoryHighlightChipList.js';
+import {StructDefinitionChangedEvent} from './LinearMemoryStructView.js';
 
 const UIStrings = {
   /**
@@ -159,6 +160,11 @@ class LinearMemoryInspectorView extends UI.Widget.VBox {
       event.stopPropagation();
       this.saveSettings(event.data);
     });
+    this.#inspector.addEventListener(StructDefinitionChangedEvent.eventName, (event: StructDefinitionChangedEvent) => {
+      // Stop event from bubbling up, since no element further up needs the event.
+      event.stopPropagation();
+      LinearMemoryInspectorController.instance().saveStructDefinition(event.data);
+    });
     this.#inspector.addEventListener(DeleteMemoryHighlightEvent.eventName, (event: DeleteMemoryHighlightEvent) => {
       LinearMemoryInspectorController.instance().removeHighlight(this.#tabId, event.data);
       this.refreshData();
@@ -190,11 +196,13 @@ class LinearMemoryInspectorView extends UI.Widget.VBox {
       let valueTypes;
       let valueTypeModes;
       let endianness;
+      let structDefinition;
       if (this.firstTimeOpen) {
         const settings = LinearMemoryInspectorController.instance().loadSettings();
         valueTypes = settings.valueTypes;
         valueTypeModes = settings.modes;
         endianness = settings.endianness;
+        structDefinition = LinearMemoryInspectorController.instance().loadStructDefinition();
         this.firstTimeOpen = false;
       }
       this.#inspector.data = {
@@ -206,6 +214,7 @@ class LinearMemoryInspectorView extends UI.Widget.VBox {
         valueTypeModes,
         endianness,
         highlightInfo: this.#getHighlightInfo(),
+        structDefinition,
       };
     });
   }
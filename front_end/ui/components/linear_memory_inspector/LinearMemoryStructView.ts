@@ -0,0 +1,181 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as i18n from '../../../core/i18n/i18n.js';
+import * as LitHtml from '../../lit-html/lit-html.js';
+import * as ComponentHelpers from '../helpers/helpers.js';
+
+import linearMemoryStructViewStyles from './linearMemoryStructView.css.js';
+import {type DecodedField} from './StructLayoutUtils.js';
+import {JumpToPointerAddressEvent} from './ValueInterpreterDisplay.js';
+
+const UIStrings = {
+  /**
+  *@description Tooltip text of the select of struct layouts in the Linear Memory Inspector
+  */
+  structLayout: 'Struct layout',
+  /**
+  *@description Option of the select of struct layouts in the Linear Memory Inspector that shows no struct
+  */
+  noStructLayout: 'No struct layout',
+  /**
+  *@description Text of the button that places the selected struct layout at the selected address in the Linear Memory Inspector
+  */
+  placeAtAddress: 'Place at address',
+  /**
+  *@description Summary of the section that contains the struct layout definitions in the Linear Memory Inspector
+  */
+  structLayoutDefinitions: 'Struct layout definitions',
+  /**
+  *@description Tooltip text of a field of a struct in the Linear Memory Inspector
+  *@example {4} PH1
+  */
+  jumpToFieldAtOffsetS: 'Jump to field at offset {PH1}',
+  /**
+  *@description Text shown in the Linear Memory Inspector instead of the value of a struct field that is outside of the loaded memory
+  */
+  notLoaded: 'Not loaded',
+};
+const str_ = i18n.i18n.registerUIStrings('ui/components/linear_memory_inspector/LinearMemoryStructView.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+const {render, html} = LitHtml;
+
+const PLACEHOLDER_DEFINITION = `struct Point {
+  float x;
+  float y;
+};`;
+
+export interface LinearMemoryStructViewData {
+  structDefinition: string;
+  layoutNames: string[];
+  selectedLayoutName: string|null;
+  error?: string;
+  decodedStruct?: DecodedField;
+}
+
+export class StructDefinitionChangedEvent extends Event {
+  static readonly eventName = 'structdefinitionchanged';
+  data: string;
+
+  constructor(structDefinition: string) {
+    super(StructDefinitionChangedEvent.eventName);
+    this.data = structDefinition;
+  }
+}
+
+export class StructLayoutPlacedEvent extends Event {
+  static readonly eventName = 'structlayoutplaced';
+  // The name of the layout to place at the selected address, or null to remove the struct.
+  data: string|null;
+
+  constructor(layoutName: string|null) {
+    super(StructLayoutPlacedEvent.eventName);
+    this.data = layoutName;
+  }
+}
+
+export class LinearMemoryStructView extends HTMLElement {
+  static readonly litTagName = LitHtml.literal`devtools-linear-memory-inspector-struct-view`;
+
+  readonly #shadow = this.attachShadow({mode: 'open'});
+  #structDefinition = '';
+  #layoutNames: string[] = [];
+  #selectedLayoutName: string|null = null;
+  #error?: string;
+  #decodedStruct?: DecodedField;
+
+  connectedCallback(): void {
+    this.#shadow.adoptedStyleSheets = [linearMemoryStructViewStyles];
+  }
+
+  set data(data: LinearMemoryStructViewData) {
+    this.#structDefinition = data.structDefinition;
+    this.#layoutNames = data.layoutNames;
+    this.#selectedLayoutName = data.selectedLayoutName;
+    this.#error = data.error;
+    this.#decodedStruct = data.decodedStruct;
+    this.#render();
+  }
+
+  #onLayoutChange(event: Event): void {
+    const layoutName = (event.target as HTMLSelectElement).value;
+    this.dispatchEvent(new StructLayoutPlacedEvent(layoutName || null));
+  }
+
+  #onPlaceAtAddress(): void {
+    this.dispatchEvent(new StructLayoutPlacedEvent(this.#selectedLayoutName));
+  }
+
+  #onDefinitionChange(event: Event): void {
+    this.dispatchEvent(new StructDefinitionChangedEvent((event.target as HTMLTextAreaElement).value));
+  }
+
+  #onJumpToField(address: number): void {
+    this.dispatchEvent(new JumpToPointerAddressEvent(address));
+  }
+
+  #render(): void {
+    // Disabled until https://crbug.com/1079231 is fixed.
+    // clang-format off
+    render(html`
+      <div class="struct-view">
+        <div class="struct-toolbar">
+          <select class="chrome-select" title=${i18nString(UIStrings.structLayout)}
+            ?disabled=${!this.#layoutNames.length} @change=${this.#onLayoutChange}>
+            <option value="" .selected=${this.#selectedLayoutName === null}>${i18nString(UIStrings.noStructLayout)}</option>
+            ${this.#layoutNames.map(name => html`
+              <option value=${name} .selected=${this.#selectedLayoutName === name}>${name}</option>`)}
+          </select>
+          <button class="place-button" ?disabled=${this.#selectedLayoutName === null} @click=${this.#onPlaceAtAddress}>
+            ${i18nString(UIStrings.placeAtAddress)}
+          </button>
+        </div>
+        <details class="struct-definitions" ?open=${!this.#structDefinition}>
+          <summary>${i18nString(UIStrings.structLayoutDefinitions)}</summary>
+          <textarea class="struct-definition" spellcheck="false" aria-label=${i18nString(UIStrings.structLayoutDefinitions)}
+            placeholder=${PLACEHOLDER_DEFINITION} .value=${this.#structDefinition}
+            @change=${this.#onDefinitionChange}></textarea>
+        </details>
+        ${this.#error ? html`<div class="struct-error" role="alert">${this.#error}</div>` : ''}
+        ${this.#decodedStruct ? html`
+          <ul class="struct-fields" role="tree">
+            ${this.#renderField(this.#decodedStruct, this.#decodedStruct.address)}
+          </ul>` : ''}
+      </div>
+    `, this.#shadow, {host: this});
+    // clang-format on
+  }
+
+  #renderField(field: DecodedField, structAddress: number): LitHtml.TemplateResult {
+    const offset = field.address - structAddress;
+    const value = field.children.length ? '' : field.value ?? i18nString(UIStrings.notLoaded);
+    // Disabled until https://crbug.com/1079231 is fixed.
+    // clang-format off
+    return html`
+      <li role="treeitem">
+        <div class="struct-field">
+          <button class="field-name" title=${i18nString(UIStrings.jumpToFieldAtOffsetS, {PH1: offset})}
+            @click=${this.#onJumpToField.bind(this, field.address)}>${field.name}</button>
+          <span class="field-type">${field.typeName}</span>
+          <span class="field-value selectable-text" data-value="true">${value}</span>
+        </div>
+        ${field.children.length ? html`
+          <ul role="group">
+            ${field.children.map(child => this.#renderField(child, structAddress))}
+          </ul>` : ''}
+      </li>
+    `;
+    // clang-format on
+  }
+}
+
+ComponentHelpers.CustomElements.defineComponent('devtools-linear-memory-inspector-struct-view', LinearMemoryStructView);
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface HTMLElementTagNameMap {
+    'devtools-linear-memory-inspector-struct-view': LinearMemoryStructView;
+  }
+}
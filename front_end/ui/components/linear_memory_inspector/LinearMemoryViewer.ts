@@ -4,7 +4,7 @@
 import * as LitHtml from '../../lit-html/lit-html.js';
 import * as ComponentHelpers from '../helpers/helpers.js';
 
-import {type HighlightInfo} from './LinearMemoryViewerUtils.js';
+import {type HighlightInfo, type StructRegion} from './LinearMemoryViewerUtils.js';
 import {toHexString} from './LinearMemoryInspectorUtils.js';
 import linearMemoryViewerStyles from './linearMemoryViewer.css.js';
 
@@ -17,6 +17,7 @@ export interface LinearMemoryViewerData {
   focus: boolean;
   highlightInfo?: HighlightInfo;
   focusedMemoryHighlight?: HighlightInfo;
+  structRegions?: StructRegion[];
 }
 
 export class ByteSelectedEvent extends Event {
@@ -41,6 +42,8 @@ export class ResizeEvent extends Event {
 
 const BYTE_GROUP_MARGIN = 8;
 const BYTE_GROUP_SIZE = 4;
+// The number of colors that alternate between the fields of struct layouts.
+const STRUCT_REGION_COLORS = 6;
 
 export class LinearMemoryViewer extends HTMLElement {
   static readonly litTagName = LitHtml.literal`devtools-linear-memory-inspector-viewer`;
@@ -55,6 +58,7 @@ export class LinearMemoryViewer extends HTMLElement {
   #memoryOffset = 0;
   #highlightInfo?: HighlightInfo;
   #focusedMemoryHighlight?: HighlightInfo;
+  #structRegions: StructRegion[] = [];
 
   #numRows = 1;
   #numBytesInRow = BYTE_GROUP_SIZE;
@@ -76,6 +80,7 @@ export class LinearMemoryViewer extends HTMLElement {
     this.#address = data.address;
     this.#highlightInfo = data.highlightInfo;
     this.#focusedMemoryHighlight = data.focusedMemoryHighlight;
+    this.#structRegions = data.structRegions || [];
     this.#memoryOffset = data.memoryOffset;
     this.#focusOnByte = data.focus;
     this.#update();
@@ -243,6 +248,7 @@ export class LinearMemoryViewer extends HTMLElement {
       const selected = i === this.#address - this.#memoryOffset;
       const shouldBeHighlighted = this.#shouldBeHighlighted(actualIndex);
       const focusedMemoryArea = this.#isFocusedArea(actualIndex);
+      const structRegionIndex = this.#structRegionIndex(actualIndex);
       const classMap = {
         'cell': true,
         'byte-cell': true,
@@ -250,11 +256,13 @@ export class LinearMemoryViewer extends HTMLElement {
         selected,
         'highlight-area': shouldBeHighlighted,
         'focused-area': focusedMemoryArea,
+        ...this.#structRegionClasses(structRegionIndex),
       };
       const isSelectableCell = i < this.#memory.length;
       const byteValue = isSelectableCell ? html`${toHexString({number: this.#memory[i], pad: 2, prefix: false})}` : '';
       const onSelectedByte = isSelectableCell ? this.#onSelectedByte.bind(this, actualIndex) : '';
-      cells.push(html`<span class=${LitHtml.Directives.classMap(classMap)} @click=${onSelectedByte}>${byteValue}</span>`);
+      const title = structRegionIndex === -1 ? LitHtml.nothing : this.#structRegions[structRegionIndex].name;
+      cells.push(html`<span class=${LitHtml.Directives.classMap(classMap)} title=${title} @click=${onSelectedByte}>${byteValue}</span>`);
     }
     return html`${cells}`;
   }
@@ -271,6 +279,7 @@ export class LinearMemoryViewer extends HTMLElement {
         selected: this.#address - this.#memoryOffset === i,
         'highlight-area': shouldBeHighlighted,
         'focused-area': focusedMemoryArea,
+        ...this.#structRegionClasses(this.#structRegionIndex(actualIndex)),
       };
       const isSelectableCell = i < this.#memory.length;
       const value = isSelectableCell ? html`${this.#toAscii(this.#memory[i])}` : '';
@@ -299,6 +308,21 @@ export class LinearMemoryViewer extends HTMLElement {
     && index < this.#highlightInfo.startAddress + this.#highlightInfo.size;
   }
 
+  #structRegionIndex(index: number): number {
+    return this.#structRegions.findIndex(
+        region => region.startAddress <= index && index < region.startAddress + region.size);
+  }
+
+  #structRegionClasses(structRegionIndex: number): {[className: string]: boolean} {
+    if (structRegionIndex === -1) {
+      return {};
+    }
+    return {
+      'struct-region': true,
+      [`struct-region-${structRegionIndex % STRUCT_REGION_COLORS}`]: true,
+    };
+  }
+
   #isFocusedArea(index: number): boolean {
     if (!this.#focusedMemoryHighlight) {
       return false;
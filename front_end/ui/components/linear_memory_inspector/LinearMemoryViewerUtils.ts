@@ -2,6 +2,8 @@
 // Use of this source code is governed by a BSD-style license that can be
 // found in the LICENSE file.
 
+import {type StructLayout} from './StructLayoutUtils.js';
+
 export interface HighlightInfo {
   startAddress: number;
   size: number;
@@ -9,4 +11,13 @@ export interface HighlightInfo {
   // than the scope view, we don't have guaranteed access to the name.
   name?: string;
   type: string;
+  // The layout of highlighted structs, taken from the debug information.
+  layout?: StructLayout;
+}
+
+// A field of a struct layout, shown as a colored region in the viewer.
+export interface StructRegion {
+  startAddress: number;
+  size: number;
+  name: string;
 }
@@ -0,0 +1,418 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as i18n from '../../../core/i18n/i18n.js';
+
+import {type StructRegion} from './LinearMemoryViewerUtils.js';
+import {toHexString} from './LinearMemoryInspectorUtils.js';
+import {
+  Endianness,
+  format,
+  getDefaultValueTypeMapping,
+  ValueType,
+  type ValueTypeMode,
+} from './ValueInterpreterDisplayUtils.js';
+
+const UIStrings = {
+  /**
+  *@description Error message in the Linear Memory Inspector when a struct layout definition contains an unexpected token
+  *@example {;} PH1
+  *@example {3} PH2
+  */
+  unexpectedSOnLineS: 'Unexpected {PH1} on line {PH2}',
+  /**
+  *@description Error message in the Linear Memory Inspector when a struct layout definition ends in the middle of a struct
+  */
+  unexpectedEndOfDefinition: 'Unexpected end of the layout definition',
+  /**
+  *@description Error message in the Linear Memory Inspector when a field of a struct layout definition has an unknown type
+  *@example {vec3} PH1
+  *@example {3} PH2
+  */
+  unknownTypeSOnLineS: 'Unknown type {PH1} on line {PH2}',
+  /**
+  *@description Error message in the Linear Memory Inspector when a struct layout definition defines a struct twice
+  *@example {Point} PH1
+  */
+  structSIsDefinedTwice: 'Struct {PH1} is defined twice',
+};
+const str_ = i18n.i18n.registerUIStrings('ui/components/linear_memory_inspector/StructLayoutUtils.ts', UIStrings);
+const i18nString = i18n.i18n.getLocalizedString.bind(undefined, str_);
+
+/**
+ * The type of a struct field. Scalars have a value type, nested structs a layout, and fields
+ * with neither are shown as raw bytes.
+ */
+export interface FieldType {
+  name: string;
+  size: number;
+  alignment: number;
+  valueType?: ValueType;
+  signed?: boolean;
+  layout?: StructLayout;
+}
+
+export interface StructField {
+  name: string;
+  offset: number;
+  type: FieldType;
+  // The number of elements of array fields.
+  count?: number;
+}
+
+export interface StructLayout {
+  name: string;
+  size: number;
+  alignment: number;
+  fields: StructField[];
+  // Overrides the endianness selected in the value interpreter.
+  endianness?: Endianness;
+}
+
+export interface DecodedField {
+  name: string;
+  address: number;
+  size: number;
+  typeName: string;
+  // Only fields without children have a value, which is missing if the memory is not loaded.
+  value?: string;
+  children: DecodedField[];
+}
+
+function scalarType(name: string, valueType: ValueType, size: number, signed: boolean): FieldType {
+  return {name, size, alignment: size, valueType, signed};
+}
+
+// Pointers are 32-bit, as in wasm32.
+const pointerType = scalarType('void *', ValueType.Pointer32, 4, false);
+
+const SCALAR_TYPES = new Map<string, FieldType>();
+for (const [names, valueType, size, signed] of [
+         [['int8_t', 'i8', 'char', 'signed char'], ValueType.Int8, 1, true],
+         [['uint8_t', 'u8', 'unsigned char', 'bool', '_Bool'], ValueType.Int8, 1, false],
+         [['int16_t', 'i16', 'short', 'signed short'], ValueType.Int16, 2, true],
+         [['uint16_t', 'u16', 'unsigned short'], ValueType.Int16, 2, false],
+         [['int32_t', 'i32', 'int', 'signed int', 'signed', 'long', 'signed long'], ValueType.Int32, 4, true],
+         [['uint32_t', 'u32', 'unsigned int', 'unsigned', 'unsigned long', 'size_t'], ValueType.Int32, 4, false],
+         [['int64_t', 'i64', 'long long', 'signed long long'], ValueType.Int64, 8, true],
+         [['uint64_t', 'u64', 'unsigned long long'], ValueType.Int64, 8, false],
+         [['float', 'f32'], ValueType.Float32, 4, true],
+         [['double', 'f64'], ValueType.Float64, 8, true],
+         [['ptr32'], ValueType.Pointer32, 4, false],
+         [['ptr64'], ValueType.Pointer64, 8, false],
+] as [string[], ValueType, number, boolean][]) {
+  for (const name of names) {
+    SCALAR_TYPES.set(name, scalarType(name, valueType, size, signed));
+  }
+}
+
+function alignTo(offset: number, alignment: number): number {
+  return Math.ceil(offset / alignment) * alignment;
+}
+
+/**
+ * Creates a layout from fields whose offsets are not known yet. Fields are aligned to the
+ * alignment of their type like C compilers do, unless the layout is packed.
+ */
+export function createStructLayout(
+    name: string, fields: Omit<StructField, 'offset'>[],
+    options: {packed?: boolean, endianness?: Endianness} = {}): StructLayout {
+  let offset = 0;
+  let alignment = 1;
+  const layoutFields = [];
+  for (const field of fields) {
+    const fieldAlignment = options.packed ? 1 : field.type.alignment;
+    offset = alignTo(offset, fieldAlignment);
+    alignment = Math.max(alignment, fieldAlignment);
+    layoutFields.push({...field, offset});
+    offset += field.type.size * (field.count ?? 1);
+  }
+  return {
+    name,
+    size: alignTo(offset, alignment),
+    alignment,
+    fields: layoutFields,
+    endianness: options.endianness,
+  };
+}
+
+interface Token {
+  text: string;
+  line: number;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens = [];
+  let line = 1;
+  const tokenRegExp = /\/\/[^\n]*|\/\*[^]*?\*\/|\n|[A-Za-z_]\w*|\d+|\S/g;
+  for (const [tokenText] of text.matchAll(tokenRegExp)) {
+    if (tokenText === '\n') {
+      ++line;
+    } else if (tokenText.startsWith('/*') || tokenText.startsWith('//')) {
+      line += tokenText.split('\n').length - 1;
+    } else {
+      tokens.push({text: tokenText, line});
+    }
+  }
+  return tokens;
+}
+
+class StructLayoutParser {
+  readonly #tokens: Token[];
+  readonly #layouts = new Map<string, StructLayout>();
+  #index = 0;
+
+  constructor(text: string) {
+    this.#tokens = tokenize(text);
+  }
+
+  parse(): StructLayout[] {
+    while (this.#index < this.#tokens.length) {
+      const layout = this.#parseStruct();
+      if (this.#layouts.has(layout.name)) {
+        throw new Error(i18nString(UIStrings.structSIsDefinedTwice, {PH1: layout.name}));
+      }
+      this.#layouts.set(layout.name, layout);
+    }
+    return [...this.#layouts.values()];
+  }
+
+  #next(): Token {
+    const token = this.#tokens[this.#index++];
+    if (!token) {
+      throw new Error(i18nString(UIStrings.unexpectedEndOfDefinition));
+    }
+    return token;
+  }
+
+  #peek(): string|undefined {
+    return this.#tokens[this.#index]?.text;
+  }
+
+  #expect(text: string): void {
+    const token = this.#next();
+    if (token.text !== text) {
+      throw this.#unexpectedTokenError(token);
+    }
+  }
+
+  #unexpectedTokenError(token: Token): Error {
+    return new Error(i18nString(UIStrings.unexpectedSOnLineS, {PH1: token.text, PH2: token.line}));
+  }
+
+  #parseIdentifier(): string {
+    const token = this.#next();
+    if (!/^[A-Za-z_]/.test(token.text)) {
+      throw this.#unexpectedTokenError(token);
+    }
+    return token.text;
+  }
+
+  #parseNumber(): number {
+    const token = this.#next();
+    if (!/^\d+$/.test(token.text)) {
+      throw this.#unexpectedTokenError(token);
+    }
+    return Number(token.text);
+  }
+
+  // [packed] [little_endian|big_endian] struct Name { fields };
+  #parseStruct(): StructLayout {
+    let packed = false;
+    let endianness;
+    for (let qualifier = this.#peek(); qualifier !== 'struct'; qualifier = this.#peek()) {
+      const token = this.#next();
+      if (token.text === 'packed') {
+        packed = true;
+      } else if (token.text === 'little_endian') {
+        endianness = Endianness.Little;
+      } else if (token.text === 'big_endian') {
+        endianness = Endianness.Big;
+      } else {
+        throw this.#unexpectedTokenError(token);
+      }
+    }
+    this.#expect('struct');
+    const name = this.#parseIdentifier();
+    this.#expect('{');
+    const fields = [];
+    while (this.#peek() !== '}') {
+      if (this.#peek() === 'padding') {
+        // `padding N;` inserts N unnamed bytes.
+        this.#next();
+        const size = this.#parseNumber();
+        this.#expect(';');
+        fields.push({name: '', type: {name: 'padding', size, alignment: 1}});
+        continue;
+      }
+      fields.push(this.#parseField());
+    }
+    this.#expect('}');
+    if (this.#peek() === ';') {
+      this.#next();
+    }
+    const layout = createStructLayout(name, fields, {packed, endianness});
+    // Explicit padding is not shown as a field.
+    layout.fields = layout.fields.filter(field => field.name);
+    return layout;
+  }
+
+  // type name; or type name[count];
+  #parseField(): Omit<StructField, 'offset'> {
+    const typeTokens = [];
+    while (this.#peek() !== ';' && this.#peek() !== '[') {
+      const token = this.#next();
+      if (token.text === '{' || token.text === '}') {
+        throw this.#unexpectedTokenError(token);
+      }
+      typeTokens.push(token);
+    }
+    const nameToken = typeTokens.pop();
+    if (!nameToken || !typeTokens.length) {
+      throw this.#unexpectedTokenError(this.#next());
+    }
+    if (!/^[A-Za-z_]/.test(nameToken.text)) {
+      throw this.#unexpectedTokenError(nameToken);
+    }
+    let count;
+    if (this.#peek() === '[') {
+      this.#next();
+      count = this.#parseNumber();
+      this.#expect(']');
+    }
+    this.#expect(';');
+    return {name: nameToken.text, type: this.#resolveType(typeTokens), count};
+  }
+
+  #resolveType(typeTokens: Token[]): FieldType {
+    if (typeTokens[typeTokens.length - 1].text === '*') {
+      const name = typeTokens.map(token => token.text).join(' ');
+      return {...pointerType, name};
+    }
+    const words = typeTokens.map(token => token.text).filter(word => word !== 'const' && word !== 'volatile');
+    const name = words.join(' ');
+    const scalar = SCALAR_TYPES.get(name);
+    if (scalar) {
+      return scalar;
+    }
+    const structName = words[0] === 'struct' && words.length === 2 ? words[1] : name;
+    const layout = this.#layouts.get(structName);
+    if (!layout) {
+      throw new Error(i18nString(UIStrings.unknownTypeSOnLineS, {PH1: name, PH2: typeTokens[0].line}));
+    }
+    return {name: `struct ${layout.name}`, size: layout.size, alignment: layout.alignment, layout};
+  }
+}
+
+/**
+ * Parses C-like struct definitions such as
+ *
+ *   packed big_endian struct Header {
+ *     uint16_t tag;
+ *     padding 2;
+ *     float values[4];
+ *     struct Point origin;
+ *   };
+ *
+ * Structs can use the structs defined before them. Throws a localized error for invalid definitions.
+ */
+export function parseStructLayouts(text: string): StructLayout[] {
+  return new StructLayoutParser(text).parse();
+}
+
+function formatBytes(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => toHexString({number: byte, pad: 2, prefix: false})).join(' ');
+}
+
+function decodeValue(
+    type: FieldType, address: number, memory: Uint8Array, memoryOffset: number, endianness: Endianness,
+    valueTypeModes: Map<ValueType, ValueTypeMode>): DecodedField {
+  const field = {name: '', address, size: type.size, typeName: type.name, children: [] as DecodedField[]};
+  if (type.layout) {
+    field.children = decodeFields(type.layout, address, memory, memoryOffset, endianness, valueTypeModes);
+    return field;
+  }
+  const start = address - memoryOffset;
+  if (start < 0 || start + type.size > memory.length) {
+    return field;
+  }
+  const bytes = memory.slice(start, start + type.size);
+  if (type.valueType === undefined) {
+    return {...field, value: formatBytes(bytes)};
+  }
+  const value = format({
+    buffer: bytes.buffer,
+    type: type.valueType,
+    endianness,
+    signed: Boolean(type.signed),
+    mode: valueTypeModes.get(type.valueType),
+  });
+  return {...field, value};
+}
+
+function decodeFields(
+    layout: StructLayout, address: number, memory: Uint8Array, memoryOffset: number, endianness: Endianness,
+    valueTypeModes: Map<ValueType, ValueTypeMode>): DecodedField[] {
+  const fieldEndianness = layout.endianness ?? endianness;
+  return layout.fields.map(field => {
+    const fieldAddress = address + field.offset;
+    if (field.count === undefined) {
+      return {
+        ...decodeValue(field.type, fieldAddress, memory, memoryOffset, fieldEndianness, valueTypeModes),
+        name: field.name,
+      };
+    }
+    const children = [];
+    for (let i = 0; i < field.count; ++i) {
+      children.push({
+        ...decodeValue(
+            field.type, fieldAddress + i * field.type.size, memory, memoryOffset, fieldEndianness, valueTypeModes),
+        name: `[${i}]`,
+      });
+    }
+    return {
+      name: field.name,
+      address: fieldAddress,
+      size: field.type.size * field.count,
+      typeName: `${field.type.name}[${field.count}]`,
+      children,
+    };
+  });
+}
+
+/**
+ * Decodes the struct at `address` from the loaded `memory`, which starts at `memoryOffset`.
+ * Fields outside of the loaded memory have no value.
+ */
+export function decodeStruct(
+    layout: StructLayout, address: number, memory: Uint8Array, memoryOffset: number, endianness: Endianness,
+    valueTypeModes: Map<ValueType, ValueTypeMode> = getDefaultValueTypeMapping()): DecodedField {
+  return {
+    name: layout.name,
+    address,
+    size: layout.size,
+    typeName: `struct ${layout.name}`,
+    children: decodeFields(layout, address, memory, memoryOffset, endianness, valueTypeModes),
+  };
+}
+
+/**
+ * Returns the memory regions of the scalar and raw byte fields, labelled with their path in the struct.
+ */
+export function getStructRegions(decodedStruct: DecodedField): StructRegion[] {
+  const regions: StructRegion[] = [];
+  const addRegions = (field: DecodedField, path: string): void => {
+    if (!field.children.length) {
+      regions.push({startAddress: field.address, size: field.size, name: path});
+      return;
+    }
+    for (const child of field.children) {
+      addRegions(child, child.name.startsWith('[') ? path + child.name : `${path}.${child.name}`);
+    }
+  };
+  for (const field of decodedStruct.children) {
+    addRegions(field, field.name);
+  }
+  return regions;
+}
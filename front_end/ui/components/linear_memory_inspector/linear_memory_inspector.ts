@@ -8,9 +8,11 @@ import * as LinearMemoryInspectorController from './LinearMemoryInspectorControl
 import * as LinearMemoryInspectorPane from './LinearMemoryInspectorPane.js';
 import * as LinearMemoryInspectorUtils from './LinearMemoryInspectorUtils.js';
 import * as LinearMemoryNavigator from './LinearMemoryNavigator.js';
+import * as LinearMemoryStructView from './LinearMemoryStructView.js';
 import * as LinearMemoryValueInterpreter from './LinearMemoryValueInterpreter.js';
 import * as LinearMemoryViewer from './LinearMemoryViewer.js';
 import * as LinearMemoryViewerUtils from './LinearMemoryViewerUtils.js';
+import * as StructLayoutUtils from './StructLayoutUtils.js';
 import * as ValueInterpreterDisplay from './ValueInterpreterDisplay.js';
 import * as ValueInterpreterDisplayUtils from './ValueInterpreterDisplayUtils.js';
 import * as ValueInterpreterSettings from './ValueInterpreterSettings.js';
@@ -22,9 +24,11 @@ export {
   LinearMemoryInspectorPane,
   LinearMemoryInspectorUtils,
   LinearMemoryNavigator,
+  LinearMemoryStructView,
   LinearMemoryValueInterpreter,
   LinearMemoryViewer,
   LinearMemoryViewerUtils,
+  StructLayoutUtils,
   ValueInterpreterDisplay,
   ValueInterpreterDisplayUtils,
   ValueInterpreterSettings,
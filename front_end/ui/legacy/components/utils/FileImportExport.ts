@@ -0,0 +1,34 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Platform from '../../../../core/platform/platform.js';
+import * as Bindings from '../../../../models/bindings/bindings.js';
+import * as UI from '../../legacy.js';
+
+/**
+ * Creates a hidden file selector for the import buttons of panels. Its value is cleared before the
+ * callback runs, so that selecting the same file again imports it again.
+ */
+export function createImportFileSelectorElement(callback: (file: File) => void): HTMLInputElement {
+  const fileSelectorElement = UI.UIUtils.createFileSelectorElement(file => {
+    fileSelectorElement.value = '';
+    callback(file);
+  });
+  return fileSelectorElement;
+}
+
+/**
+ * Lets the user save the content to a file named after the base name and the current time, e.g.
+ * `breakpoints-20221019T042146.json`. Nothing is written if the user cancels the save dialog.
+ */
+export async function saveToTimestampedFile(baseName: string, extension: string, content: string): Promise<void> {
+  const fileName = `${baseName}-${Platform.DateUtilities.toISO8601Compact(new Date())}.${extension}` as
+      Platform.DevToolsPath.RawPathString;
+  const stream = new Bindings.FileUtils.FileOutputStream();
+  if (!await stream.open(fileName)) {
+    return;
+  }
+  void stream.write(content);
+  void stream.close();
+}
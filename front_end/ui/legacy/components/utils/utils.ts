@@ -2,6 +2,7 @@
 // Use of this source code is governed by a BSD-style license that can be
 // found in the LICENSE file.
 
+import * as FileImportExport from './FileImportExport.js';
 import * as ImagePreview from './ImagePreview.js';
 import * as JSPresentationUtils from './JSPresentationUtils.js';
 import * as Linkifier from './Linkifier.js';
@@ -9,6 +10,7 @@ import * as Reload from './Reload.js';
 import * as TargetDetachedDialog from './TargetDetachedDialog.js';
 
 export {
+  FileImportExport,
   ImagePreview,
   JSPresentationUtils,
   Linkifier,
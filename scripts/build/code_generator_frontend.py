@@ -124,6 +124,17 @@ def resolve_param_raw_type_js(json_parameter, scope_domain_name):
         raise Exception("Unknown type")
 
 
+def resolve_param_type_ref(json_parameter, scope_domain_name, enum_name):
+    if "$ref" in json_parameter:
+        json_ref = json_parameter["$ref"]
+        if json_ref.find(".") == -1:
+            return "%s.%s" % (scope_domain_name, json_ref)
+        return json_ref
+    elif "enum" in json_parameter:
+        return enum_name
+    return None
+
+
 def get_ref_data_js(json_ref, scope_domain_name):
     dot_pos = json_ref.find(".")
     if dot_pos == -1:
@@ -166,7 +177,7 @@ class Templates:
 """ + "// File is generated by %s\n" % get_this_script_path_(sys.argv[0]) + """
 /**
  * @typedef {{
- *  registerCommand: function(string&any, !Array.<!{name: string, type: string, optional: boolean}>, !Array.<string>):void,
+ *  registerCommand: function(string&any, !Array.<!{name: string, type: string, optional: boolean, typeRef?: string}>, !Array.<string>):void,
  *  registerEnum: function(string&any, !Object<string, string>):void,
  *  registerEvent: function(string&any, !Array<string>):void,
  * }}
@@ -278,10 +289,18 @@ class Generator:
                 json_param_name = json_parameter["name"]
                 js_bind_type = resolve_param_raw_type_js(json_parameter, domain_name)
 
+                type_ref = resolve_param_type_ref(
+                    json_parameter, domain_name,
+                    "%s.%sRequest%s" % (domain_name, to_title_case(json_command_name), to_title_case(json_param_name)))
+
                 optional = json_parameter.get("optional")
 
-                js_param_text = "{\"name\": \"%s\", \"type\": \"%s\", \"optional\": %s}" % (json_param_name, js_bind_type, (
+                js_param_text = "{\"name\": \"%s\", \"type\": \"%s\", \"optional\": %s" % (json_param_name, js_bind_type, (
                     "true" if ("optional" in json_parameter and json_parameter["optional"]) else "false"))
+                # The type reference lets tools like the Protocol Monitor look up enum values for a parameter.
+                if type_ref:
+                    js_param_text += ", \"typeRef\": \"%s\"" % type_ref
+                js_param_text += "}"
 
                 js_param_list.append(js_param_text)
 
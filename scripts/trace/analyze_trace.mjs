@@ -0,0 +1,97 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+/**
+ * Runs the trace engine (front_end/models/trace) over a trace file outside of
+ * DevTools and prints a JSON summary of it: web vitals per navigation, layout
+ * shift clusters, long tasks, network requests and user timings.
+ *
+ * The trace engine is loaded from the build output, so DevTools must be built
+ * first.
+ *
+ * Usage:
+ *   npm run analyze-trace -- path/to/trace.json[.gz] [--target=Default] [--output=summary.json]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {fileURLToPath, pathToFileURL} from 'url';
+import * as zlib from 'zlib';
+
+import yargs from 'yargs';
+// False positive from the ESLint rule: crbug.com/1319352
+// eslint-disable-next-line rulesdir/es_modules_import
+import {hideBin} from 'yargs/helpers';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIRECTORY = path.join(__dirname, '..', '..');
+
+const flags = yargs(hideBin(process.argv))
+                  .usage('$0 <trace>', 'Prints a JSON summary of a trace file', y => {
+                    y.positional('trace', {type: 'string', describe: 'Path to a .json or .json.gz trace file'});
+                  })
+                  .option('target', {type: 'string', default: 'Default', desc: 'Name of the Ninja output directory.'})
+                  .option('output', {type: 'string', desc: 'Write the summary to this file instead of stdout.'})
+                  .strict()
+                  .parse();
+
+const GZIP_MAGIC_NUMBER = [0x1f, 0x8b];
+
+function readTraceFile(tracePath) {
+  let buffer = fs.readFileSync(tracePath);
+  // Don't rely on the extension: traces saved by DevTools are sometimes
+  // gzipped without being named .gz and vice versa.
+  if (buffer[0] === GZIP_MAGIC_NUMBER[0] && buffer[1] === GZIP_MAGIC_NUMBER[1]) {
+    buffer = zlib.gunzipSync(buffer);
+  }
+  return JSON.parse(buffer.toString('utf-8'));
+}
+
+// The trace engine does not touch the DOM, but a couple of the modules it
+// depends on read browser globals when they are evaluated or while parsing.
+// Provide the bare minimum so that they can be loaded in Node.
+function installBrowserGlobals() {
+  globalThis.self ??= globalThis;
+  globalThis.location ??= new URL('devtools://devtools/bundled/devtools_app.html');
+  globalThis.navigator ??= {language: 'en-US'};
+  globalThis.DOMRect ??= class DOMRect {
+    constructor(x = 0, y = 0, width = 0, height = 0) {
+      this.x = x;
+      this.y = y;
+      this.width = width;
+      this.height = height;
+    }
+  };
+  // Layout shifts keep a reference to the screenshot that follows them.
+  globalThis.Image ??= class Image {
+    constructor() {
+      this.src = '';
+    }
+  };
+}
+
+async function main() {
+  const traceModulePath =
+      path.join(ROOT_DIRECTORY, 'out', flags.target, 'gen', 'front_end', 'models', 'trace', 'trace.js');
+  if (!fs.existsSync(traceModulePath)) {
+    throw new Error(`Could not find ${traceModulePath}. Did you build out/${flags.target}?`);
+  }
+
+  installBrowserGlobals();
+  const TraceModel = await import(pathToFileURL(traceModulePath).href);
+
+  const contents = readTraceFile(flags.trace);
+  const summary = await TraceModel.TraceSummary.analyzeTrace(contents);
+  const json = JSON.stringify(summary, null, 2);
+  if (flags.output) {
+    fs.writeFileSync(flags.output, json);
+  } else {
+    console.log(json);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
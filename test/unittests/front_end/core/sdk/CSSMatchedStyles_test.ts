@@ -2,7 +2,11 @@
 // Use of this source code is governed by a BSD-style license that can be
 // found in the LICENSE file.
 
+import {assertNotNullOrUndefined} from '../../../../../front_end/core/platform/platform.js';
 import * as SDK from '../../../../../front_end/core/sdk/sdk.js';
+import * as Protocol from '../../../../../front_end/generated/protocol.js';
+import {createTarget} from '../../helpers/EnvironmentHelpers.js';
+import {describeWithMockConnection} from '../../helpers/MockConnection.js';
 
 const {assert} = chai;
 
@@ -79,6 +83,151 @@ describe('CSSMatchedStyles', () => {
       assert.deepEqual(
           parseCSSVariableNameAndFallback('var(---three_hyphens)'), {variableName: '---three_hyphens', fallback: ''});
     });
+  });
+});
+
+describeWithMockConnection('CSSMatchedStyles cascade explanations', () => {
+  const {CascadeReason} = SDK.CSSMatchedStyles;
+  let cssModel: SDK.CSSModel.CSSModel;
+  let node: SDK.DOMModel.DOMNode;
+
+  function createElement(domModel: SDK.DOMModel.DOMModel, nodeId: number): SDK.DOMModel.DOMNode {
+    return SDK.DOMModel.DOMNode.create(domModel, null, false, {
+      nodeId: nodeId as Protocol.DOM.NodeId,
+      backendNodeId: nodeId as Protocol.DOM.BackendNodeId,
+      nodeType: Node.ELEMENT_NODE,
+      nodeName: 'DIV',
+      localName: 'div',
+      nodeValue: '',
+    });
+  }
+
+  beforeEach(() => {
+    const target = createTarget();
+    const domModel = target.model(SDK.DOMModel.DOMModel);
+    const model = target.model(SDK.CSSModel.CSSModel);
+    assertNotNullOrUndefined(domModel);
+    assertNotNullOrUndefined(model);
+    cssModel = model;
+    node = createElement(domModel, 2);
+    node.parentNode = createElement(domModel, 1);
+  });
+
+  function ruleMatch(
+      selector: string, properties: Protocol.CSS.CSSProperty[],
+      {origin = Protocol.CSS.StyleSheetOrigin.Regular,
+       layer}: {origin?: Protocol.CSS.StyleSheetOrigin, layer?: string} = {}): Protocol.CSS.RuleMatch {
+    return {
+      rule: {
+        selectorList: {selectors: [{text: selector}], text: selector},
+        origin,
+        style: {cssProperties: properties, shorthandEntries: []},
+        layers: layer ? [{text: layer}] : undefined,
+      },
+      matchingSelectors: [0],
+    };
+  }
+
+  // The matched rules are ordered from the lowest to the highest precedence, like in the payload of the backend.
+  function matchedStyles(
+      matchedPayload: Protocol.CSS.RuleMatch[],
+      inheritedPayload: Protocol.CSS.InheritedStyleEntry[] = []): SDK.CSSMatchedStyles.CSSMatchedStyles {
+    return new SDK.CSSMatchedStyles.CSSMatchedStyles(
+        cssModel, node, null, null, matchedPayload, [], inheritedPayload, [], [], undefined);
+  }
+
+  function property(
+      style: SDK.CSSStyleDeclaration.CSSStyleDeclaration, name: string, index = 0): SDK.CSSProperty.CSSProperty {
+    const properties = style.allProperties().filter(property => property.name === name);
+    assert.isAbove(properties.length, index, `There is no ${name} property`);
+    return properties[index];
+  }
+
+  it('explains that an !important declaration wins', () => {
+    const styles = matchedStyles([
+      ruleMatch('div', [{name: 'color', value: 'red', important: true}]),
+      ruleMatch('#main', [{name: 'color', value: 'blue'}]),
+    ]);
+    const [loserStyle, winnerStyle] = styles.nodeStyles();
+    const explanation = styles.cascadeExplanation(property(loserStyle, 'color'));
+    assert.strictEqual(explanation?.winner, property(winnerStyle, 'color'));
+    assert.strictEqual(explanation?.reason, CascadeReason.Important);
+  });
+
+  it('explains that the declarations of authors win over the ones of the user agent', () => {
+    const styles = matchedStyles([
+      ruleMatch('div', [{name: 'display', value: 'block'}], {origin: Protocol.CSS.StyleSheetOrigin.UserAgent}),
+      ruleMatch('div', [{name: 'display', value: 'flex'}]),
+    ]);
+    const [winnerStyle, loserStyle] = styles.nodeStyles();
+    const explanation = styles.cascadeExplanation(property(loserStyle, 'display'));
+    assert.strictEqual(explanation?.winner, property(winnerStyle, 'display'));
+    assert.strictEqual(explanation?.reason, CascadeReason.Origin);
+  });
+
+  it('explains that a declaration in a later layer wins', () => {
+    const styles = matchedStyles([
+      ruleMatch('#main', [{name: 'color', value: 'red'}], {layer: 'base'}),
+      ruleMatch('div', [{name: 'color', value: 'blue'}], {layer: 'components'}),
+    ]);
+    const [winnerStyle, loserStyle] = styles.nodeStyles();
+    const explanation = styles.cascadeExplanation(property(loserStyle, 'color'));
+    assert.strictEqual(explanation?.winner, property(winnerStyle, 'color'));
+    assert.strictEqual(explanation?.reason, CascadeReason.Layer);
+  });
+
+  it('explains that a declaration with a more specific selector wins', () => {
+    const styles = matchedStyles([
+      ruleMatch('div', [{name: 'color', value: 'red'}]),
+      ruleMatch('div.title', [{name: 'color', value: 'blue'}]),
+    ]);
+    const [winnerStyle, loserStyle] = styles.nodeStyles();
+    const explanation = styles.cascadeExplanation(property(loserStyle, 'color'));
+    assert.strictEqual(explanation?.winner, property(winnerStyle, 'color'));
+    assert.strictEqual(explanation?.reason, CascadeReason.Specificity);
+  });
+
+  it('explains that a declaration on the element wins over an inherited one', () => {
+    const styles = matchedStyles([ruleMatch('.title', [{name: 'color', value: 'blue'}])], [
+      {matchedCSSRules: [ruleMatch('#main', [{name: 'color', value: 'red'}])]},
+    ]);
+    const winnerStyle = styles.nodeStyles()[0];
+    const loserStyle = styles.nodeStyles().find(style => styles.isInherited(style));
+    assertNotNullOrUndefined(loserStyle);
+    const explanation = styles.cascadeExplanation(property(loserStyle, 'color'));
+    assert.strictEqual(explanation?.winner, property(winnerStyle, 'color'));
+    assert.strictEqual(explanation?.reason, CascadeReason.Inheritance);
+  });
+
+  it('explains that the later declaration wins if the selectors are as specific', () => {
+    const styles = matchedStyles([
+      ruleMatch('.title', [{name: 'color', value: 'red'}]),
+      ruleMatch('.heading', [{name: 'color', value: 'green'}, {name: 'color', value: 'blue'}]),
+    ]);
+    const [winnerStyle, loserStyle] = styles.nodeStyles();
+    const winner = property(winnerStyle, 'color', 1);
+    const otherRuleExplanation = styles.cascadeExplanation(property(loserStyle, 'color'));
+    assert.strictEqual(otherRuleExplanation?.winner, winner);
+    assert.strictEqual(otherRuleExplanation?.reason, CascadeReason.SourceOrder);
+    const sameRuleExplanation = styles.cascadeExplanation(property(winnerStyle, 'color', 0));
+    assert.strictEqual(sameRuleExplanation?.winner, winner);
+    assert.strictEqual(sameRuleExplanation?.reason, CascadeReason.SourceOrder);
+    assert.isNull(styles.cascadeExplanation(winner));
+  });
 
+  it('explains that a shorthand loses to the winner of its longhands', () => {
+    const longhands = ['margin-top', 'margin-right', 'margin-bottom', 'margin-left'];
+    const styles = matchedStyles([
+      ruleMatch('#main', [{
+                  name: 'margin',
+                  value: '0',
+                  longhandProperties: longhands.map(name => ({name, value: '0'})),
+                }]),
+      ruleMatch('#main.title', longhands.map(name => ({name, value: '1px'}))),
+    ]);
+    const [winnerStyle, loserStyle] = styles.nodeStyles();
+    const explanation = styles.cascadeExplanation(property(loserStyle, 'margin'));
+    assert.strictEqual(explanation?.winner, property(winnerStyle, 'margin-top'));
+    assert.strictEqual(explanation?.reason, CascadeReason.Specificity);
   });
 });
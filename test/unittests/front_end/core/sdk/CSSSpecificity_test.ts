@@ -0,0 +1,57 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import * as SDK from '../../../../../front_end/core/sdk/sdk.js';
+
+const {selectorSpecificity, specificityText, compareSpecificity} = SDK.CSSSpecificity;
+
+function specificity(selectorText: string): string {
+  return specificityText(selectorSpecificity(selectorText));
+}
+
+describe('CSSSpecificity', () => {
+  it('counts IDs, classes, attributes, pseudo-classes, types and pseudo-elements', () => {
+    assert.strictEqual(specificity('*'), '(0,0,0)');
+    assert.strictEqual(specificity('li'), '(0,0,1)');
+    assert.strictEqual(specificity('ul > li + li'), '(0,0,3)');
+    assert.strictEqual(specificity('#main .item[data-x="a, b"]:hover'), '(1,3,0)');
+    assert.strictEqual(specificity('p::first-line'), '(0,0,2)');
+    assert.strictEqual(specificity('a:before'), '(0,0,2)');
+    assert.strictEqual(specificity('svg|circle.dot'), '(0,1,1)');
+  });
+
+  it('handles escaped identifiers', () => {
+    assert.strictEqual(specificity('.a\\:b'), '(0,1,0)');
+    assert.strictEqual(specificity('#\\31 23 span'), '(1,0,1)');
+  });
+
+  it('takes the most specific argument of :is(), :not() and :has(), and nothing for :where()', () => {
+    assert.strictEqual(specificity(':is(#a, .b) span'), '(1,0,1)');
+    assert.strictEqual(specificity('div:not(.a, p.b)'), '(0,1,2)');
+    assert.strictEqual(specificity('section:has(> img)'), '(0,0,2)');
+    assert.strictEqual(specificity(':where(#a .b) span'), '(0,0,1)');
+  });
+
+  it('adds the selectors of :nth-child(), ::slotted() and :host()', () => {
+    assert.strictEqual(specificity('li:nth-child(2n+1)'), '(0,1,1)');
+    assert.strictEqual(specificity('li:nth-child(2n+1 of .important)'), '(0,2,1)');
+    assert.strictEqual(specificity('::slotted(span)'), '(0,0,2)');
+    assert.strictEqual(specificity(':host(.dark)'), '(0,2,0)');
+    assert.strictEqual(specificity('::part(label)'), '(0,0,1)');
+  });
+
+  it('counts nothing for the nesting selector, whose parent selectors are unknown', () => {
+    assert.strictEqual(specificity('&'), '(0,0,0)');
+    assert.strictEqual(specificity('& > .item'), '(0,1,0)');
+    assert.strictEqual(specificity('.dark &:hover'), '(0,2,0)');
+  });
+
+  it('compares specificities', () => {
+    assert.isAbove(compareSpecificity(selectorSpecificity('#a'), selectorSpecificity('.a.b.c')), 0);
+    assert.isBelow(compareSpecificity(selectorSpecificity('div p'), selectorSpecificity('.a')), 0);
+    assert.strictEqual(compareSpecificity(selectorSpecificity('.a'), selectorSpecificity('[b]')), 0);
+  });
+});
@@ -65,6 +65,28 @@ describeWithMockConnection('MultitargetNetworkManager', () => {
     assert.isTrue(unexpectedCall.notCalled);
     assert.isTrue(expectedCall.calledOnceWith({origin: 'https://example.com'}));
   });
+
+  it('takes single targets offline independently of the network conditions', () => {
+    const pageTarget = createTarget();
+    const workerTarget = createTarget({type: SDK.Target.Type.ServiceWorker});
+    const manager = SDK.NetworkManager.MultitargetNetworkManager.instance({forceNew: true});
+    const pageCall = sinon.spy(pageTarget.networkAgent(), 'invoke_emulateNetworkConditions');
+    const workerCall = sinon.spy(workerTarget.networkAgent(), 'invoke_emulateNetworkConditions');
+
+    manager.setTargetOffline(workerTarget, true);
+    assert.isTrue(manager.isTargetOffline(workerTarget));
+    assert.isTrue(pageCall.notCalled);
+    assert.isTrue(workerCall.calledOnceWith({offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0}));
+
+    manager.setNetworkConditions(SDK.NetworkManager.Fast3GConditions);
+    assert.isFalse(pageCall.lastCall.args[0].offline);
+    assert.isTrue(workerCall.lastCall.args[0].offline);
+
+    manager.setTargetOffline(workerTarget, false);
+    assert.isFalse(manager.isTargetOffline(workerTarget));
+    assert.isFalse(workerCall.lastCall.args[0].offline);
+    assert.strictEqual(workerCall.lastCall.args[0].latency, SDK.NetworkManager.Fast3GConditions.latency);
+  });
 });
 
 describe('NetworkDispatcher', () => {
@@ -699,4 +721,61 @@ describeWithMockConnection('InterceptedRequest', () => {
         'https://www.example.com/cookies/mergeCookies.html', headersFromServer, expectedOverriddenHeaders,
         expectedPersistedSetCookieHeaders);
   });
+
+  it('continues a mocked request when its response cannot be sent', async () => {
+    const fetchAgent = target.fetchAgent();
+    sinon.stub(fetchAgent, 'invoke_fulfillRequest').resolves({getError: () => 'Invalid header'});
+    const continueRequest = sinon.stub(fetchAgent, 'invoke_continueRequest').resolves({getError: () => undefined});
+    const requestId = 'request_id_for_mock' as Protocol.Fetch.RequestId;
+    const interceptedRequest = new SDK.NetworkManager.InterceptedRequest(
+        fetchAgent, {method: 'GET', url: 'https://www.example.com/api'} as Protocol.Network.Request,
+        Protocol.Network.ResourceType.Fetch, requestId, null);
+    await interceptedRequest.fulfillRequest(200, [{name: 'Bad\nName', value: ''}], '');
+    assert.isTrue(continueRequest.calledOnceWithExactly({requestId}));
+  });
+});
+
+describe('Throttling rules', () => {
+  const conditions: SDK.NetworkManager.Conditions = {
+    title: 'CDN',
+    download: 1000,
+    upload: 500,
+    latency: 100,
+    jitter: 50,
+  };
+
+  it('match the hosts of URLs with wildcards', () => {
+    const {hostPatternMatches} = SDK.NetworkManager;
+    assert.isTrue(hostPatternMatches('*.cdn.example.com', 'https://img.cdn.example.com/a.png'));
+    assert.isTrue(hostPatternMatches('CDN.example.com', 'https://cdn.example.com:8080/a.png'));
+    assert.isFalse(hostPatternMatches('*.cdn.example.com', 'https://cdn.example.com/a.png'));
+    assert.isFalse(hostPatternMatches('cdn.example.com', 'https://cdn.example.com.evil.test/'));
+    assert.isFalse(hostPatternMatches('cdn.example.com', 'not a URL'));
+  });
+
+  it('delay requests by their latency, jitter and upload time', () => {
+    assert.strictEqual(SDK.NetworkManager.throttlingRequestDelay(conditions, 0, 0), 100);
+    assert.strictEqual(SDK.NetworkManager.throttlingRequestDelay(conditions, 250, 0.5), 100 + 25 + 500);
+  });
+
+  it('delay responses by their download time', () => {
+    assert.strictEqual(SDK.NetworkManager.throttlingResponseDelay(conditions, 2000), 2000);
+    assert.strictEqual(SDK.NetworkManager.throttlingResponseDelay({...conditions, download: -1}, 2000), 0);
+  });
+
+  it('compare packet loss, jitter and connection types of conditions', () => {
+    assert.isTrue(SDK.NetworkManager.networkConditionsEqual(conditions, {...conditions}));
+    assert.isFalse(SDK.NetworkManager.networkConditionsEqual(conditions, {...conditions, packetLoss: 5}));
+    assert.isFalse(SDK.NetworkManager.networkConditionsEqual(
+        conditions, {...conditions, connectionType: Protocol.Network.ConnectionType.Wifi}));
+  });
+});
+
+describe('Blocked patterns', () => {
+  it('match URLs containing their parts in order', () => {
+    const {blockedPatternMatches} = SDK.NetworkManager;
+    assert.isTrue(blockedPatternMatches('example.com/api/*', 'https://example.com/api/users'));
+    assert.isTrue(blockedPatternMatches('*.png', 'https://example.com/logo.png?v=1'));
+    assert.isFalse(blockedPatternMatches('api/*/users', 'https://example.com/users/api'));
+  });
 });
@@ -0,0 +1,185 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import * as FormatterWorker from '../../../../../front_end/entrypoints/formatter_worker/formatter_worker.js';
+
+function eraseTypeScript(text: string): string {
+  return FormatterWorker.SyntaxEraser.eraseSyntax(text, {typescript: true, jsx: false}).content;
+}
+
+// The lines of erased declarations are left with spaces, which are trimmed for readability.
+function eraseTypeScriptLines(text: string): string {
+  return eraseTypeScript(text).replace(/ +$/gm, '');
+}
+
+function eraseJSX(text: string): string {
+  return FormatterWorker.SyntaxEraser.eraseSyntax(text, {typescript: false, jsx: true}).content;
+}
+
+describe('SyntaxEraser', () => {
+  it('erases type annotations', () => {
+    assert.strictEqual(
+        eraseTypeScript('function f<T>(a: T, b?: number): Promise<T> { let c: string[] = []; return a!; }'),
+        'function f   (a   , b         )             { let c           = []; return a ; }');
+    assert.strictEqual(
+        eraseTypeScript('const g = async <T,>(x: Map<string, T>): Promise<void> => {};'),
+        'const g = async     (x                )                => {};');
+  });
+
+  it('erases type declarations', () => {
+    const text = `import type {A} from './a.js';
+import {type B, C} from './b.js';
+export interface D extends A {
+  d: B;
+}
+export type E<T> = T|null;
+declare const f: number;
+const g = h as unknown as E<string>;`;
+    assert.strictEqual(eraseTypeScriptLines(text), `
+import {        C} from './b.js';
+
+
+
+
+
+const g = h                        ;`);
+  });
+
+  it('erases the TypeScript syntax of classes', () => {
+    const text = `abstract class A<T> extends B<T> implements C, D {
+  private readonly a: T;
+  static b = 1;
+  [key: string]: unknown;
+  constructor(protected c: T) { super(); }
+  abstract d(): void;
+  e(x: number): void;
+  e(x: number|string): void {}
+}`;
+    assert.strictEqual(eraseTypeScriptLines(text), `         class A    extends B                    {
+                   a   ;
+  static b = 1;
+
+  constructor(          c   ) { super(); }
+
+
+  e(x               )       {}
+}`);
+  });
+
+  it('keeps enums as variables', () => {
+    assert.strictEqual(eraseTypeScript('export const enum Color {Red, Green}'), 'export       var  Color            ;');
+  });
+
+  it('erases TypeScript in the substitutions of templates', () => {
+    assert.strictEqual(
+        eraseTypeScript('const a = `${b as string} and ${`${c!}`}`;'), 'const a = `${b          } and ${`${c }`}`;');
+    assert.strictEqual(
+        eraseTypeScript('type A = `a-${string}`; const b = `${{c: 1}.c as number}`;'),
+        '                        const b = `${{c: 1}.c          }`;');
+  });
+
+  it('erases import types', () => {
+    assert.strictEqual(
+        eraseTypeScript('let a: typeof import(\'./a.js\') = b, c: import(\'./c.js\').C<D> = e;'),
+        'let a                          = b, c                        = e;');
+  });
+
+  it('keeps namespaces as blocks without exports', () => {
+    assert.strictEqual(
+        eraseTypeScript('export namespace A.B { export const c = 1; export function d(e: number) {} }'),
+        '                     {        const c = 1;        function d(e        ) {} }');
+  });
+
+  it('does not mistake JavaScript for TypeScript', () => {
+    const text = 'const a = b < c ? {d: e} : f(g) > 1; label: for (const [h, i] of j) { k = l ? m : n; }';
+    assert.strictEqual(eraseTypeScript(text), text);
+  });
+
+  it('replaces JSX elements with arrays of the embedded expressions', () => {
+    assert.strictEqual(
+        eraseJSX('const a = <Foo title={title}>{children}</Foo>;'), 'const a = [Foo       ,title  ,children  ,Foo];');
+    assert.strictEqual(
+        eraseJSX('const b = <ul>{items.map(item => <li key={item.id}>{item.name}</li>)}</ul>;'),
+        'const b = [0  ,items.map(item => [0      ,item.id  ,item.name     ])     ];');
+    assert.strictEqual(eraseJSX('const c = <><br/>Don\'t</>;'), 'const c = [0            ];');
+  });
+
+  it('erases the type arguments of generic components', () => {
+    assert.strictEqual(eraseJSX('const a = <Foo<T> a={1} />;'), 'const a = [Foo      ,1   ];');
+    assert.strictEqual(eraseJSX('const b = <Foo<string> a={1}>{c}</Foo>;'), 'const b = [Foo           ,1  ,c  ,Foo];');
+  });
+
+  it('erases type arguments before an assignment', () => {
+    assert.strictEqual(
+        eraseTypeScript('let a: Array<Map<string, number>>= [];'), 'let a                            = [];');
+    assert.strictEqual(eraseTypeScript('let b: Array<number>= [];'), 'let b               = [];');
+  });
+
+  it('keeps import aliases as constants', () => {
+    assert.strictEqual(eraseTypeScript('import fs = require(\'fs\');'), 'const  fs = require(\'fs\');');
+    assert.strictEqual(eraseTypeScript('export import Bar = Foo.Bar;'), 'export const  Bar = Foo.Bar;');
+    assert.strictEqual(eraseTypeScriptLines('import type Baz = Foo.Baz;'), '');
+  });
+
+  it('erases the type arguments of instantiation expressions', () => {
+    assert.strictEqual(eraseTypeScript('f<string>;'), 'f        ;');
+    assert.strictEqual(eraseTypeScript('const g = f<string>;'), 'const g = f        ;');
+    assert.strictEqual(
+        eraseTypeScript('const h = a.b<string, number>\nfoo();'), 'const h = a.b                \nfoo();');
+    assert.strictEqual(eraseTypeScript('const i = a < b > c;'), 'const i = a < b > c;');
+  });
+
+  it('keeps the erased syntax when formatting', () => {
+    const typeScript = FormatterWorker.FormatterWorker.format(
+        'text/typescript', 'interface A {a: number}\nfunction f(a: A): number {if (a.a) {return a.a as number;}}',
+        '  ');
+    assert.strictEqual(typeScript.content, `interface A {a: number}
+function f(a: A): number {
+  if (a.a) {
+    return a.a as number;
+  }
+}
+`);
+    const jsx = FormatterWorker.FormatterWorker.format(
+        'text/jsx', 'function App({items}) {return <ul>{items.map(item => <li>{item}</li>)}</ul>;}', '  ');
+    assert.strictEqual(jsx.content, `function App({items}) {
+  return <ul>{items.map(item=> <li>{item}</li>)}</ul>;
+}
+`);
+  });
+
+  it('formats the scripts of single-file components', () => {
+    const formatted = FormatterWorker.FormatterWorker.format(
+        'text/html', '<template><div>{{ a }}</div></template><script lang="ts">let a: number = 1;</script>', '  ');
+    assert.strictEqual(formatted.content, `<template>
+  <div>{{ a }}</div>
+</template>
+<script lang="ts">
+  let a: number = 1;
+</script>
+`);
+  });
+
+  it('keeps the source unformatted if the syntax is not erased into JavaScript', () => {
+    const formatted = FormatterWorker.FormatterWorker.format(
+        'text/html', '<template><div>{{ a }}</div></template><script lang="ts">let a: number = ;</script>', '  ');
+    assert.strictEqual(formatted.content, `<template>
+  <div>{{ a }}</div>
+</template>
+<script lang="ts">
+  let a: number = ;
+</script>
+`);
+  });
+
+  it('parses the scopes of TypeScript', () => {
+    const scopes = FormatterWorker.ScopeParser.parseScopes(
+        'function f(a: number): number { const b: Foo = a; return b; }', {typescript: true, jsx: false});
+    const functionScope = scopes?.children[0];
+    assert.deepEqual(functionScope?.variables.get('a')?.uses.map(use => use.offset), [11, 47]);
+    assert.deepEqual(functionScope?.variables.get('b')?.uses.map(use => use.offset), [38, 57]);
+  });
+});
@@ -0,0 +1,122 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import * as HeapSnapshotWorker from '../../../../../front_end/entrypoints/heap_snapshot_worker/heap_snapshot_worker.js';
+import type * as HeapSnapshotModel from '../../../../../front_end/models/heap_snapshot_model/heap_snapshot_model.js';
+
+interface TestNode {
+  type: string;
+  name: string;
+  id: number;
+  selfSize: number;
+  edges: {type: string, name: string|number, to: number}[];
+}
+
+const nodeTypes = ['hidden', 'array', 'string', 'object', 'code', 'closure', 'regexp', 'number', 'native', 'synthetic'];
+const edgeTypes = ['context', 'element', 'property', 'internal', 'hidden', 'shortcut', 'weak'];
+const nodeFields = ['type', 'name', 'id', 'self_size', 'edge_count', 'trace_node_id'];
+
+// Edges point to other nodes by their position in the list.
+function createSnapshot(testNodes: TestNode[]): HeapSnapshotWorker.HeapSnapshot.JSHeapSnapshot {
+  const strings: string[] = [];
+  const stringIndex = (string: string): number => {
+    if (!strings.includes(string)) {
+      strings.push(string);
+    }
+    return strings.indexOf(string);
+  };
+  const nodes = [];
+  const edges = [];
+  for (const node of testNodes) {
+    nodes.push(nodeTypes.indexOf(node.type), stringIndex(node.name), node.id, node.selfSize, node.edges.length, 0);
+    for (const edge of node.edges) {
+      const nameOrIndex = typeof edge.name === 'number' ? edge.name : stringIndex(edge.name);
+      edges.push(edgeTypes.indexOf(edge.type), nameOrIndex, edge.to * nodeFields.length);
+    }
+  }
+  const header = new HeapSnapshotWorker.HeapSnapshot.HeapSnapshotHeader();
+  header.meta.node_fields = nodeFields;
+  header.meta.node_types = [nodeTypes];
+  header.meta.edge_fields = ['type', 'name_or_index', 'to_node'];
+  header.meta.edge_types = [edgeTypes];
+  header.node_count = testNodes.length;
+  header.edge_count = edges.length / 3;
+  return new HeapSnapshotWorker.HeapSnapshot.JSHeapSnapshot(
+      {
+        /* eslint-disable @typescript-eslint/naming-convention */
+        root_index: 0,
+        nodes: new Uint32Array(nodes),
+        edges: new Uint32Array(edges),
+        snapshot: header,
+        samples: [],
+        strings,
+        locations: [],
+        trace_function_infos: new Uint32Array(),
+        trace_tree: {},
+        /* eslint-enable @typescript-eslint/naming-convention */
+      },
+      new HeapSnapshotWorker.HeapSnapshot.HeapSnapshotProgress());
+}
+
+describe('HeapSnapshot', () => {
+  describe('calculateRetainerPathDiff', () => {
+    const root = {type: 'synthetic', name: '', id: 1, selfSize: 0, edges: [{type: 'shortcut', name: 1, to: 1}]};
+    const window =
+        {type: 'object', name: 'Window', id: 3, selfSize: 10, edges: [{type: 'property', name: 'cache', to: 2}]};
+
+    it('groups the new objects by their retainer path and ranks them by retained size', () => {
+      const baseSnapshot = createSnapshot([
+        root,
+        window,
+        {type: 'object', name: 'Array', id: 5, selfSize: 16, edges: []},
+      ]);
+      const snapshot = createSnapshot([
+        root,
+        window,
+        {
+          type: 'object',
+          name: 'Array',
+          id: 5,
+          selfSize: 16,
+          edges: [{type: 'element', name: 0, to: 3}, {type: 'element', name: 1, to: 4}],
+        },
+        {
+          type: 'native',
+          name: 'Detached HTMLDivElement',
+          id: 7,
+          selfSize: 100,
+          edges: [{type: 'property', name: 'firstChild', to: 5}],
+        },
+        {type: 'native', name: 'Detached HTMLDivElement', id: 9, selfSize: 100, edges: []},
+        {type: 'native', name: 'Detached Text', id: 11, selfSize: 50, edges: []},
+      ]);
+
+      const diffs = snapshot.calculateRetainerPathDiff('base', baseSnapshot.aggregatesForDiff());
+      assert.deepEqual(diffs.map(diff => ({...diff})), [
+        {
+          className: 'Detached HTMLDivElement',
+          retainerPath: ['Window.cache', 'Array[]'],
+          count: 2,
+          selfSize: 200,
+          retainedSize: 250,
+        },
+        {
+          // The text is retained by a new element, whose retained size includes the size of the text.
+          className: 'Detached Text',
+          retainerPath: ['Window.cache', 'Array[]', 'Detached HTMLDivElement.firstChild'],
+          count: 1,
+          selfSize: 50,
+          retainedSize: 0,
+        },
+      ]);
+
+      const provider = snapshot.createRetainerPathNodesProvider('base', 0);
+      assert.deepEqual(
+          provider.serializeItemsRange(0, 10).items.map(item => (item as HeapSnapshotModel.HeapSnapshotModel.Node).id),
+          [7, 9]);
+    });
+  });
+});
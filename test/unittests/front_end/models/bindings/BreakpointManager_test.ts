@@ -233,6 +233,60 @@ describeWithRealConnection('BreakpointManager', () => {
     Workspace.Workspace.WorkspaceImpl.instance().removeProject(project);
   });
 
+  it('turns dependent breakpoints into ordinary breakpoints when their trigger is removed', async () => {
+    const {uiSourceCode, project} = createContentProviderUISourceCode({url: URL, mimeType: JS_MIME_TYPE});
+    const realDebugger = target.model(SDK.DebuggerModel.DebuggerModel);
+    assertNotNullOrUndefined(realDebugger);
+    sinon.stub(realDebugger, 'setBreakpointByURL')
+        .callsFake(() => Promise.resolve({breakpointId: BREAKPOINT_ID, locations: []}));
+    sinon.stub(realDebugger, 'removeBreakpoint').callsFake(() => Promise.resolve());
+
+    const trigger = await breakpointManager.setBreakpoint(
+        uiSourceCode, 1, 0, '', true, Bindings.BreakpointManager.BreakpointOrigin.OTHER);
+    const dependent = await breakpointManager.setBreakpoint(
+        uiSourceCode, 2, 0, 'x > 5', true, Bindings.BreakpointManager.BreakpointOrigin.OTHER,
+        {hitCount: null, triggerBreakpointId: trigger.breakpointStorageId()});
+    assert.isFalse(dependent.armed(realDebugger));
+
+    await trigger.remove(false);
+    assert.isNull(dependent.triggerBreakpointId());
+    assert.isTrue(dependent.armed(realDebugger));
+    assert.strictEqual(dependent.condition(), 'x > 5');
+    const storedItem = breakpointManager.storage.setting.get().find(item => item.lineNumber === 2);
+    assert.isUndefined(storedItem?.triggerBreakpointId);
+
+    await dependent.remove(false);
+    Workspace.Workspace.WorkspaceImpl.instance().removeProject(project);
+  });
+
+  it('disarms dependent breakpoints only in the debugger model whose global object was cleared', async () => {
+    const {uiSourceCode, project} = createContentProviderUISourceCode({url: URL, mimeType: JS_MIME_TYPE});
+    const realDebugger = target.model(SDK.DebuggerModel.DebuggerModel);
+    assertNotNullOrUndefined(realDebugger);
+    sinon.stub(realDebugger, 'setBreakpointByURL')
+        .callsFake(() => Promise.resolve({breakpointId: BREAKPOINT_ID, locations: []}));
+    sinon.stub(realDebugger, 'removeBreakpoint').callsFake(() => Promise.resolve());
+    const otherDebugger = new TestDebuggerModel(target);
+    breakpointManager.modelAdded(otherDebugger);
+
+    const trigger = await breakpointManager.setBreakpoint(
+        uiSourceCode, 1, 0, '', true, Bindings.BreakpointManager.BreakpointOrigin.OTHER);
+    const dependent = await breakpointManager.setBreakpoint(
+        uiSourceCode, 2, 0, '', true, Bindings.BreakpointManager.BreakpointOrigin.OTHER,
+        {hitCount: null, triggerBreakpointId: trigger.breakpointStorageId()});
+    dependent.setArmed(realDebugger, true);
+    dependent.setArmed(otherDebugger, true);
+
+    otherDebugger.dispatchEventToListeners(SDK.DebuggerModel.Events.GlobalObjectCleared, otherDebugger);
+    assert.isTrue(dependent.armed(realDebugger));
+    assert.isFalse(dependent.armed(otherDebugger));
+
+    breakpointManager.modelRemoved(otherDebugger);
+    await dependent.remove(false);
+    await trigger.remove(false);
+    Workspace.Workspace.WorkspaceImpl.instance().removeProject(project);
+  });
+
   it('can wait for file system breakpoints to be mapped to network ui source code', async () => {
     const url = 'file://example.js' as Platform.DevToolsPath.UrlString;
     const content = 'console.log(3)';
@@ -853,6 +907,48 @@ describeWithMockConnection('BreakpointManager (mock backend)', () => {
   });
 });
 
+describe('BreakpointManager.conditionWithHitCount', () => {
+  // Evaluates the condition of a breakpoint for the given number of hits.
+  function evaluateHits(condition: string, hits: number): boolean[] {
+    const evaluateCondition = new Function(`return ${condition};`);
+    return Array.from({length: hits}, () => Boolean(evaluateCondition()));
+  }
+
+  it('pauses on the matching hits', () => {
+    const {conditionWithHitCount} = Bindings.BreakpointManager.BreakpointManager;
+    assert.deepEqual(
+        evaluateHits(
+            conditionWithHitCount('', {mode: Bindings.BreakpointManager.HitCountMode.EQUAL, count: 3}, 'a'), 5),
+        [false, false, true, false, false]);
+    assert.deepEqual(
+        evaluateHits(
+            conditionWithHitCount('', {mode: Bindings.BreakpointManager.HitCountMode.MULTIPLE, count: 2}, 'b'), 5),
+        [false, true, false, true, false]);
+    assert.deepEqual(
+        evaluateHits(
+            conditionWithHitCount('', {mode: Bindings.BreakpointManager.HitCountMode.GREATER, count: 3}, 'c'), 5),
+        [false, false, false, true, true]);
+  });
+
+  it('counts the hits separately for each counter', () => {
+    const hitCount = {mode: Bindings.BreakpointManager.HitCountMode.EQUAL, count: 2};
+    const {conditionWithHitCount} = Bindings.BreakpointManager.BreakpointManager;
+    assert.deepEqual(evaluateHits(conditionWithHitCount('', hitCount, 'd'), 1), [false]);
+    assert.deepEqual(evaluateHits(conditionWithHitCount('', hitCount, 'e'), 2), [false, true]);
+    assert.deepEqual(evaluateHits(conditionWithHitCount('', hitCount, 'd'), 1), [true]);
+  });
+
+  it('counts the hits before checking the condition', () => {
+    const hitCount = {mode: Bindings.BreakpointManager.HitCountMode.MULTIPLE, count: 2};
+    const condition =
+        Bindings.BreakpointManager.BreakpointManager.conditionWithHitCount('false // comment', hitCount, 'f');
+    assert.deepEqual(evaluateHits(condition, 2), [false, false]);
+    const conditionAfter =
+        Bindings.BreakpointManager.BreakpointManager.conditionWithHitCount('true // comment', hitCount, 'f');
+    assert.deepEqual(evaluateHits(conditionAfter, 2), [false, true]);
+  });
+});
+
 function createFakeScriptMapping(
     debuggerModel: SDK.DebuggerModel.DebuggerModel, uiSourceCode: Workspace.UISourceCode.UISourceCode,
     uiLineNumber: number,
@@ -248,4 +248,39 @@ describe('HAR Importer', () => {
     const pageLoadRequest = requests[1];
     assert.isTrue(pageLoadRequest.resourceType().isDocument());
   });
+
+  it('Parses the position of the initiator of a Network Request', () => {
+    const [request] = HAR.Importer.Importer.requestsFromHARLog(new HAR.HARFormat.HARLog({
+      version: '1.2',
+      creator: {name: 'WebInspector', version: '537.36'},
+      entries: [{
+        _initiator: {type: 'parser', url: 'https://example.com/', lineNumber: 3, columnNumber: 12},
+        request: {
+          method: 'GET',
+          url: 'https://example.com/style.css',
+          httpVersion: 'http/2.0',
+          headers: [],
+          queryString: [],
+          headersSize: -1,
+          bodySize: 0,
+        },
+        response: {
+          status: 200,
+          statusText: '',
+          httpVersion: 'http/2.0',
+          headers: [],
+          content: {size: 0, mimeType: 'text/css'},
+          headersSize: -1,
+          bodySize: -1,
+        },
+        startedDateTime: '2020-12-14T20:35:53.241Z',
+        time: 10,
+        timings: {blocked: 1, dns: -1, ssl: -1, connect: -1, send: 1, wait: 7, receive: 1},
+      }],
+    }));
+    const initiator = request.initiator();
+    assert.strictEqual(initiator?.url, 'https://example.com/');
+    assert.strictEqual(initiator?.lineNumber, 3);
+    assert.strictEqual(initiator?.columnNumber, 12);
+  });
 });
@@ -0,0 +1,205 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import type * as Platform from '../../../../../front_end/core/platform/platform.js';
+import type * as Protocol from '../../../../../front_end/generated/protocol.js';
+import * as HAR from '../../../../../front_end/models/har/har.js';
+
+function cookie(name: string, value: string): HAR.Log.CookieDTO {
+  return {name, value, path: '/', domain: 'example.com', expires: null, httpOnly: false, secure: true};
+}
+
+function entry(): HAR.Log.EntryDTO {
+  return {
+    _fromCache: undefined,
+    _initiator: null,
+    _priority: null,
+    _resourceType: 'fetch',
+    _webSocketMessages: undefined,
+    cache: {},
+    connection: '42',
+    pageref: undefined,
+    request: {
+      method: 'POST',
+      url: 'https://example.com/api?user=alice&access_token=s3cr3t' as Platform.DevToolsPath.UrlString,
+      httpVersion: 'http/1.1',
+      headers: [
+        {name: 'authorization', value: 'Bearer s3cr3t'},
+        {name: 'Cookie', value: 'session=abc; theme=dark'},
+        {name: 'Accept', value: '*/*'},
+      ],
+      queryString: [{name: 'user', value: 'alice'}, {name: 'access_token', value: 's3cr3t'}],
+      cookies: [cookie('session', 'abc'), cookie('theme', 'dark')],
+      headersSize: -1,
+      bodySize: 0,
+      postData: {
+        mimeType: 'application/json',
+        text: JSON.stringify({user: {name: 'alice', password: 'hunter2'}, items: [{password: 'x'}]}),
+      },
+    },
+    response: {
+      status: 302,
+      statusText: 'Found',
+      httpVersion: 'http/1.1',
+      headers: [
+        {name: 'Set-Cookie', value: 'session=def; Path=/; HttpOnly\ntheme=light'},
+        {name: 'Location', value: 'https://example.com/next?access_token=s3cr3t'},
+      ],
+      cookies: [],
+      content: {size: 0, mimeType: 'application/json', text: '{"password":"hunter2","ok":true}'},
+      redirectURL: 'https://example.com/next?access_token=s3cr3t',
+      headersSize: -1,
+      bodySize: -1,
+      _transferSize: 0,
+      _error: null,
+    },
+    serverIPAddress: '',
+    startedDateTime: '2022-06-01T10:00:00.000Z',
+    time: 0,
+    timings: {blocked: -1, dns: -1, ssl: -1, connect: -1, send: 0, wait: 0, receive: 0},
+  } as unknown as HAR.Log.EntryDTO;
+}
+
+function rule(target: HAR.Redaction.RedactionTarget, name: string, action = HAR.Redaction.RedactionAction.Remove):
+    HAR.Redaction.RedactionRule {
+  return {target, name, action};
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return 'sha256:' + [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('HAR.Redaction.Redactor', () => {
+  it('leaves entries untouched if no rule matches', async () => {
+    const redacted = entry();
+    await new HAR.Redaction.Redactor([rule(HAR.Redaction.RedactionTarget.Header, 'X-Unknown')]).redactEntry(redacted);
+    assert.deepEqual(redacted, entry());
+  });
+
+  it('removes headers matching their names case-insensitively', async () => {
+    const redacted = entry();
+    await new HAR.Redaction.Redactor([rule(HAR.Redaction.RedactionTarget.Header, 'Authorization')])
+        .redactEntry(redacted);
+    assert.deepEqual(redacted.request.headers.map(({name}) => name), ['Cookie', 'Accept']);
+  });
+
+  it('redacts cookies in the cookie lists and in the cookie headers', async () => {
+    const redacted = entry();
+    await new HAR.Redaction
+        .Redactor([
+          rule(HAR.Redaction.RedactionTarget.Cookie, 'session', HAR.Redaction.RedactionAction.Hash),
+          rule(HAR.Redaction.RedactionTarget.Cookie, 'theme'),
+        ])
+        .redactEntry(redacted);
+    const sessionHash = await sha256('abc');
+    assert.deepEqual(redacted.request.cookies.map(({name, value}) => ({name, value})), [
+      {name: 'session', value: sessionHash},
+    ]);
+    assert.deepEqual(redacted.request.headers[1], {name: 'Cookie', value: `session=${sessionHash}`});
+    assert.deepEqual(
+        redacted.response.headers[0], {name: 'Set-Cookie', value: `session=${await sha256('def')}; Path=/; HttpOnly`});
+  });
+
+  it('drops cookie headers if all their cookies are removed', async () => {
+    const redacted = entry();
+    await new HAR.Redaction.Redactor([rule(HAR.Redaction.RedactionTarget.Cookie, '*')]).redactEntry(redacted);
+    assert.deepEqual(redacted.request.headers.map(({name}) => name), ['authorization', 'Accept']);
+    assert.deepEqual(redacted.response.headers.map(({name}) => name), ['Location']);
+    assert.isEmpty(redacted.request.cookies);
+  });
+
+  it('redacts query parameters in URLs and query strings', async () => {
+    const redacted = entry();
+    await new HAR.Redaction.Redactor([rule(HAR.Redaction.RedactionTarget.QueryParameter, 'access_token')])
+        .redactEntry(redacted);
+    assert.strictEqual(redacted.request.url, 'https://example.com/api?user=alice');
+    assert.deepEqual(redacted.request.queryString, [{name: 'user', value: 'alice'}]);
+    assert.strictEqual(redacted.response.redirectURL, 'https://example.com/next');
+    assert.deepEqual(redacted.response.headers[1], {name: 'Location', value: 'https://example.com/next'});
+  });
+
+  it('redacts query parameters in the referer header and the initiator URLs', async () => {
+    const redacted = entry();
+    redacted.request.headers.push({name: 'Referer', value: 'https://example.com/page?access_token=s3cr3t'});
+    redacted._initiator = {
+      type: 'script' as Protocol.Network.InitiatorType,
+      url: 'https://example.com/app.js?access_token=s3cr3t',
+      stack: {
+        callFrames: [],
+        parent: {
+          callFrames: [{
+            functionName: 'load',
+            scriptId: '1' as Protocol.Runtime.ScriptId,
+            url: 'https://example.com/lib.js?access_token=s3cr3t&v=2',
+            lineNumber: 1,
+            columnNumber: 2,
+          }],
+        },
+      },
+    };
+    await new HAR.Redaction.Redactor([rule(HAR.Redaction.RedactionTarget.QueryParameter, 'access_token')])
+        .redactEntry(redacted);
+    assert.deepEqual(redacted.request.headers[3], {name: 'Referer', value: 'https://example.com/page'});
+    assert.strictEqual(redacted._initiator.url, 'https://example.com/app.js');
+    assert.strictEqual(redacted._initiator.stack?.parent?.callFrames[0].url, 'https://example.com/lib.js?v=2');
+  });
+
+  it('redacts the fields of JSON WebSocket messages', async () => {
+    const redacted = entry();
+    redacted._webSocketMessages = [
+      {type: 'send', time: 1, opcode: 1, data: '{"password":"hunter2","ok":true}'},
+      {type: 'receive', time: 2, opcode: 1, data: 'password=hunter2'},
+    ];
+    await new HAR.Redaction.Redactor([rule(HAR.Redaction.RedactionTarget.BodyField, 'password')]).redactEntry(redacted);
+    assert.deepEqual(redacted._webSocketMessages, [
+      {type: 'send', time: 1, opcode: 1, data: '{"ok":true}'},
+      {type: 'receive', time: 2, opcode: 1, data: 'password=hunter2'},
+    ]);
+  });
+
+  it('redacts nested JSON body fields', async () => {
+    const redacted = entry();
+    await new HAR.Redaction
+        .Redactor([
+          rule(HAR.Redaction.RedactionTarget.BodyField, 'password', HAR.Redaction.RedactionAction.Hash),
+        ])
+        .redactEntry(redacted);
+    const hash = await sha256('hunter2');
+    assert.deepEqual(
+        JSON.parse(redacted.request.postData?.text || ''),
+        {user: {name: 'alice', password: hash}, items: [{password: await sha256('x')}]});
+    assert.deepEqual(JSON.parse(redacted.response.content.text || ''), {password: hash, ok: true});
+  });
+
+  it('redacts form fields', async () => {
+    const redacted = entry();
+    redacted.request.postData = {
+      mimeType: 'application/x-www-form-urlencoded',
+      text: 'user=alice&password=hunter%202',
+      params: [{name: 'user', value: 'alice'}, {name: 'password', value: 'hunter 2'}],
+    };
+    await new HAR.Redaction
+        .Redactor([
+          rule(HAR.Redaction.RedactionTarget.BodyField, 'password', HAR.Redaction.RedactionAction.Hash),
+        ])
+        .redactEntry(redacted);
+    const hash = await sha256('hunter 2');
+    assert.strictEqual(redacted.request.postData.text, `user=alice&password=${encodeURIComponent(hash)}`);
+    assert.deepEqual(
+        redacted.request.postData.params, [{name: 'user', value: 'alice'}, {name: 'password', value: hash}]);
+  });
+
+  it('does not touch encoded or unparsable content', async () => {
+    const redactor = new HAR.Redaction.Redactor([rule(HAR.Redaction.RedactionTarget.BodyField, '*')]);
+    const encoded = {size: 0, mimeType: 'application/json', text: 'eyJhIjoxfQ==', encoding: 'base64'};
+    await redactor.redactContent(encoded);
+    assert.strictEqual(encoded.text, 'eyJhIjoxfQ==');
+    const invalid = {size: 0, mimeType: 'application/json', text: '{"a":'};
+    await redactor.redactContent(invalid);
+    assert.strictEqual(invalid.text, '{"a":');
+  });
+});
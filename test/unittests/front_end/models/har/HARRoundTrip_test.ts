@@ -0,0 +1,311 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import * as SDK from '../../../../../front_end/core/sdk/sdk.js';
+import * as Platform from '../../../../../front_end/core/platform/platform.js';
+import * as Protocol from '../../../../../front_end/generated/protocol.js';
+import * as HAR from '../../../../../front_end/models/har/har.js';
+
+function baseEntry(url: string, startedDateTime: string, resourceType: string) {
+  return {
+    _initiator: {type: 'other'},
+    _priority: 'High',
+    _resourceType: resourceType,
+    cache: {},
+    connection: '42',
+    request: {
+      method: 'GET',
+      url,
+      httpVersion: 'http/2.0',
+      headers: [{name: ':method', value: 'GET'}],
+      queryString: [],
+      cookies: [],
+      headersSize: -1,
+      bodySize: 0,
+    },
+    response: {
+      status: 200,
+      statusText: '',
+      httpVersion: 'http/2.0',
+      headers: [],
+      cookies: [],
+      content: {size: 120, mimeType: 'application/json'},
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1,
+      _transferSize: 310,
+      _error: null,
+    },
+    serverIPAddress: '93.184.216.34',
+    startedDateTime,
+    time: 0,
+    timings: {},
+  };
+}
+
+const eventSourceMessages = [
+  {time: 1654077603.25, eventName: 'message', eventId: '1', data: 'first'},
+  {time: 1654077604.5, eventName: 'update', eventId: '2', data: '{"a":1}'},
+];
+
+// Entries as DevTools exports them, one for each of the Chrome specific parts of the format.
+const corpus = {
+  version: '1.2',
+  creator: {name: 'WebInspector', version: '537.36'},
+  pages: [],
+  entries: [
+    {
+      ...baseEntry('https://example.com/api/data?id=1', '2022-06-01T10:00:00.000Z', 'fetch'),
+      _initiator: {
+        type: 'script',
+        stack: {
+          callFrames: [{
+            functionName: 'load',
+            scriptId: '12',
+            url: 'https://example.com/app.js',
+            lineNumber: 10,
+            columnNumber: 4,
+          }],
+          parent: {
+            description: 'setTimeout',
+            callFrames: [{
+              functionName: '',
+              scriptId: '12',
+              url: 'https://example.com/app.js',
+              lineNumber: 2,
+              columnNumber: 0,
+            }],
+          },
+          parentId: {id: '7', debuggerId: '5.6'},
+        },
+      },
+      request: {
+        method: 'GET',
+        url: 'https://example.com/api/data?id=1',
+        httpVersion: 'http/2.0',
+        headers: [{name: ':method', value: 'GET'}],
+        queryString: [{name: 'id', value: '1'}],
+        cookies: [],
+        headersSize: -1,
+        bodySize: 0,
+      },
+      response: {
+        ...baseEntry('', '', '').response,
+        headers: [{name: 'server-timing', value: 'db;dur=53.2;desc="Database", app;dur=47.2'}],
+      },
+      time: 167.5,
+      // DevTools exports the DNS lookup as part of connecting as well, so an entry with both would not round-trip.
+      timings: {
+        blocked: 12.5,
+        dns: -1,
+        ssl: 15,
+        connect: 35,
+        send: 1,
+        wait: 110,
+        receive: 9,
+        _blocked_queueing: 4.5,
+      },
+    },
+    {
+      ...baseEntry('wss://example.com/socket', '2022-06-01T10:00:01.000Z', 'websocket'),
+      _initiator: {type: 'script', url: 'https://example.com/app.js', lineNumber: 20, columnNumber: 8},
+      _priority: 'Low',
+      _webSocketMessages: [
+        {type: 'send', time: 1654077601.5, opcode: 1, data: 'hello'},
+        {type: 'receive', time: 1654077601.75, opcode: 1, data: 'world'},
+        {type: 'receive', time: 1654077602, opcode: 2, data: 'AAEC'},
+      ],
+      response: {
+        ...baseEntry('', '', '').response,
+        status: 101,
+        statusText: 'Switching Protocols',
+        content: {size: 0, mimeType: 'x-unknown'},
+        _transferSize: 0,
+      },
+      time: 43,
+      timings: {blocked: 3, dns: -1, ssl: -1, connect: -1, send: 0, wait: 40, receive: 0, _blocked_queueing: 1},
+    },
+    {
+      ...baseEntry('https://example.com/events', '2022-06-01T10:00:02.000Z', 'eventsource'),
+      _initiator: {type: 'parser', url: 'https://example.com/', lineNumber: 3, columnNumber: 12},
+      _priority: 'VeryHigh',
+      _eventSourceMessages: eventSourceMessages,
+      response: {
+        ...baseEntry('', '', '').response,
+        headers: [{name: 'content-type', value: 'text/event-stream'}],
+        content: {size: 64, mimeType: 'text/event-stream'},
+      },
+      time: 2532.5,
+      timings: {blocked: 2, dns: -1, ssl: -1, connect: -1, send: 0.5, wait: 30, receive: 2500, _blocked_queueing: -1},
+    },
+    {
+      ...baseEntry('https://example.com/sw-cached.js', '2022-06-01T10:00:03.000Z', 'script'),
+      response: {...baseEntry('', '', '').response, content: {size: 2048, mimeType: 'text/javascript'}},
+      time: 23.25,
+      timings: {
+        blocked: 6,
+        dns: -1,
+        ssl: -1,
+        connect: -1,
+        send: 0.25,
+        wait: 14,
+        receive: 3,
+        _blocked_queueing: 2,
+        _workerStart: 0.5,
+        _workerReady: 2.5,
+        _workerFetchStart: 3,
+        _workerRespondWithSettled: 15,
+      },
+    },
+    {
+      ...baseEntry('https://example.com/missing.png', '2022-06-01T10:00:04.000Z', 'image'),
+      _priority: 'Low',
+      response: {
+        ...baseEntry('', '', '').response,
+        status: 0,
+        content: {size: 0, mimeType: 'x-unknown'},
+        _transferSize: 0,
+        _error: 'net::ERR_NAME_NOT_RESOLVED',
+      },
+      time: 25,
+      timings: {blocked: 25, dns: -1, ssl: -1, connect: -1, send: 0, wait: 0, receive: 0, _blocked_queueing: -1},
+    },
+  ],
+};
+
+function importCorpus(): SDK.NetworkRequest.NetworkRequest[] {
+  return HAR.Importer.Importer.requestsFromHARLog(new HAR.HARFormat.HARLog(structuredClone(corpus)));
+}
+
+async function exportRequest(request: SDK.NetworkRequest.NetworkRequest): Promise<HAR.Log.EntryDTO> {
+  // Drop the fields that are not written to the file.
+  return JSON.parse(JSON.stringify(await HAR.Log.Entry.build(request)));
+}
+
+describe('HAR round-trip', () => {
+  it('exports imported entries the way they were imported', async () => {
+    const requests = importCorpus();
+    assert.lengthOf(requests, corpus.entries.length);
+    for (let i = 0; i < requests.length; ++i) {
+      const {timings, time, ...exported} = await exportRequest(requests[i]);
+      const {timings: expectedTimings, time: expectedTime, ...expected} = JSON.parse(JSON.stringify(corpus.entries[i]));
+      assert.deepEqual(exported, expected, `entry ${i} changed`);
+      // Timings are stored relative to the start of the request, so they can be off by rounding errors.
+      assert.closeTo(time, expectedTime, 1e-3, `time of entry ${i} changed`);
+      assert.deepEqual(Object.keys(timings).sort(), Object.keys(expectedTimings).sort());
+      for (const [name, value] of Object.entries(timings)) {
+        assert.closeTo(value as number, expectedTimings[name], 1e-3, `timings.${name} of entry ${i} changed`);
+      }
+    }
+  });
+
+  it('restores initiator call stacks', () => {
+    const [request] = importCorpus();
+    const stack = request.initiator()?.stack;
+    assert.strictEqual(request.initiator()?.type, Protocol.Network.InitiatorType.Script);
+    assert.deepEqual(stack?.callFrames.map(({functionName, lineNumber}) => ({functionName, lineNumber})), [
+      {functionName: 'load', lineNumber: 10},
+    ]);
+    assert.strictEqual(stack?.parent?.description, 'setTimeout');
+    assert.strictEqual(stack?.parent?.callFrames[0].lineNumber, 2);
+    assert.strictEqual(stack?.parentId?.debuggerId, '5.6');
+  });
+
+  it('restores server timings from the response headers', () => {
+    const [request] = importCorpus();
+    assert.deepEqual(
+        request.serverTimings?.map(({metric, value, description}) => ({metric, value, description})),
+        [{metric: 'app', value: 47.2, description: ''}, {metric: 'db', value: 53.2, description: 'Database'}]);
+  });
+
+  it('restores WebSocket frames and EventSource messages', () => {
+    const [, webSocket, eventSource] = importCorpus();
+    assert.deepEqual(webSocket.frames().map(({type, text, opCode, mask}) => ({type, text, opCode, mask})), [
+      {type: SDK.NetworkRequest.WebSocketFrameType.Send, text: 'hello', opCode: 1, mask: true},
+      {type: SDK.NetworkRequest.WebSocketFrameType.Receive, text: 'world', opCode: 1, mask: false},
+      {type: SDK.NetworkRequest.WebSocketFrameType.Receive, text: 'AAEC', opCode: 2, mask: false},
+    ]);
+    assert.deepEqual(eventSource.eventSourceMessages(), eventSourceMessages);
+  });
+
+  it('restores priorities, resource types and failures', () => {
+    const requests = importCorpus();
+    assert.deepEqual(requests.map(request => request.priority()), [
+      Protocol.Network.ResourcePriority.High,
+      Protocol.Network.ResourcePriority.Low,
+      Protocol.Network.ResourcePriority.VeryHigh,
+      Protocol.Network.ResourcePriority.High,
+      Protocol.Network.ResourcePriority.Low,
+    ]);
+    assert.deepEqual(
+        requests.map(request => request.resourceType().name()),
+        ['fetch', 'websocket', 'eventsource', 'script', 'image']);
+    assert.isTrue(requests[4].failed);
+    assert.strictEqual(requests[4].localizedFailDescription, 'net::ERR_NAME_NOT_RESOLVED');
+  });
+
+  it('restores the timing phases of a request', () => {
+    const [request, , eventSourceRequest, serviceWorkerRequest] = importCorpus();
+    const timing = request.timing;
+    if (!timing) {
+      assert.fail('Expected the request to have timing data');
+      return;
+    }
+    // 12.5ms blocked, of which 4.5ms were spent in the queue before the request started.
+    assert.closeTo(timing.requestTime - request.issueTime(), 0.0045, 1e-6);
+    assert.deepEqual(
+        [timing.dnsStart, timing.dnsEnd, timing.connectStart, timing.sslStart, timing.connectEnd, timing.sslEnd],
+        [-1, -1, 8, 28, 43, 43]);
+    assert.deepEqual([timing.sendStart, timing.sendEnd, timing.receiveHeadersEnd], [43, 44, 154]);
+    // Without queueing, "blocked" is exported one less than the time before the request started.
+    assert.strictEqual(eventSourceRequest.timing?.sendStart, 3);
+    assert.deepEqual(
+        [
+          serviceWorkerRequest.timing?.workerStart,
+          serviceWorkerRequest.timing?.workerReady,
+          serviceWorkerRequest.timing?.workerFetchStart,
+          serviceWorkerRequest.timing?.workerRespondWithSettled,
+        ],
+        [0.5, 2.5, 3, 15]);
+  });
+
+  it('imports exported requests the way they were exported', async () => {
+    const issueTime = new Date(2022, 5, 1).getTime() / 1000;
+    const request = SDK.NetworkRequest.NetworkRequest.create(
+        'r0' as Protocol.Network.RequestId, 'https://example.com/' as Platform.DevToolsPath.UrlString,
+        Platform.DevToolsPath.EmptyUrlString, null, null, null);
+    request.setIssueTime(issueTime, issueTime);
+    request.connectionId = '7';
+    request.timing = {
+      requestTime: issueTime + 0.004,
+      proxyStart: -1,
+      proxyEnd: -1,
+      dnsStart: -1,
+      dnsEnd: -1,
+      connectStart: 2,
+      connectEnd: 40,
+      sslStart: 25,
+      sslEnd: 40,
+      workerStart: -1,
+      workerReady: -1,
+      workerFetchStart: -1,
+      workerRespondWithSettled: -1,
+      sendStart: 40,
+      sendEnd: 42,
+      pushStart: 0,
+      pushEnd: 0,
+      receiveHeadersEnd: 90,
+    };
+    request.endTime = issueTime + 0.104;
+    const entry = await exportRequest(request);
+
+    const [imported] = HAR.Importer.Importer.requestsFromHARLog(new HAR.HARFormat.HARLog(
+        {version: '1.2', creator: {name: 'WebInspector', version: '537.36'}, entries: [entry]}));
+    assert.deepEqual(await exportRequest(imported), entry);
+    assert.closeTo(imported.timing?.sendStart ?? -1, 40, 1e-3);
+    assert.closeTo(imported.endTime, request.endTime, 1e-5);
+  });
+});
@@ -0,0 +1,125 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import * as TraceModel from '../../../../../front_end/models/trace/trace.js';
+import {loadEventsFromTraceFile} from '../../helpers/TraceHelpers.js';
+
+const {ExtensionHandlers} = TraceModel;
+
+describe('ExtensionHandlers', () => {
+  let registry: TraceModel.ExtensionHandlers.ExtensionHandlerRegistry;
+
+  beforeEach(() => {
+    registry = new ExtensionHandlers.ExtensionHandlerRegistry();
+  });
+
+  function createProcessor(): TraceModel.TraceProcessor.TraceProcessor<typeof TraceModel.Handlers.ModelHandlers> {
+    return new TraceModel.TraceProcessor.TraceProcessor(
+        TraceModel.Handlers.ModelHandlers, {extensionHandlers: registry});
+  }
+
+  it('namespaces the handler names', () => {
+    assert.strictEqual(ExtensionHandlers.extensionHandlerName('acme', 'Custom'), 'acme/Custom');
+    assert.strictEqual(
+        ExtensionHandlers.extensionHandlerName('chrome-extension://abcdef', 'Custom'),
+        'chrome-extension://abcdef/Custom');
+  });
+
+  it('rejects invalid handler names', () => {
+    assert.throws(
+        () => ExtensionHandlers.extensionHandlerName('', 'Custom'),
+        'Trace event handlers must be registered with a namespace.');
+    assert.throws(() => ExtensionHandlers.extensionHandlerName('acme', ''), 'Invalid trace event handler name: "".');
+    assert.throws(
+        () => ExtensionHandlers.extensionHandlerName('acme', 'a/b'), 'Invalid trace event handler name: "a/b".');
+  });
+
+  it('does not allow registering two handlers with the same name', () => {
+    registry.register('acme', 'Custom', ExtensionHandlers.createEventCollectorHandler([]));
+    assert.throws(
+        () => registry.register('acme', 'Custom', ExtensionHandlers.createEventCollectorHandler([])),
+        'A trace event handler named acme/Custom is already registered.');
+  });
+
+  it('runs registered handlers and exposes their data under their namespaced name', async () => {
+    const handlerName = registry.register(
+        'acme', 'Collector', ExtensionHandlers.createEventCollectorHandler(['TracingStartedInBrowser']));
+    const processor = createProcessor();
+    await processor.parse(await loadEventsFromTraceFile('basic.json.gz'));
+
+    const data = processor.data?.[handlerName] as TraceModel.ExtensionHandlers.EventCollectorData;
+    assert.lengthOf(data.events, 1);
+    assert.strictEqual(data.events[0].name, 'TracingStartedInBrowser');
+    assert.deepEqual([...data.eventsByName.keys()], ['TracingStartedInBrowser']);
+    // The built-in data is still there.
+    assert.isDefined(processor.data?.Meta);
+  });
+
+  it('runs registered handlers after their dependencies', async () => {
+    let mainFrameIdSeenOnFinalize: string|null = null;
+    const handlerName = registry.register('acme', 'DependsOnMeta', {
+      reset() {},
+      handleEvent() {},
+      async finalize() {
+        mainFrameIdSeenOnFinalize = TraceModel.Handlers.ModelHandlers.Meta.data().mainFrameId;
+      },
+      data() {
+        return mainFrameIdSeenOnFinalize;
+      },
+      deps() {
+        return ['Meta'];
+      },
+    });
+    const processor = createProcessor();
+    await processor.parse(await loadEventsFromTraceFile('basic.json.gz'));
+    assert.strictEqual(processor.data?.[handlerName], processor.data?.Meta.mainFrameId);
+  });
+
+  it('sorts extension handlers that depend on each other', () => {
+    const baseHandler = {data() {}, handleEvent() {}, reset() {}};
+    const handlers = {
+      'acme/Second': {
+        ...baseHandler,
+        deps(): TraceModel.Handlers.Types.TraceEventHandlerName[] {
+          return ['acme/First'];
+        },
+      },
+      'acme/First': {
+        ...baseHandler,
+        deps(): TraceModel.Handlers.Types.TraceEventHandlerName[] {
+          return ['Meta'];
+        },
+      },
+      'Meta': baseHandler,
+    };
+    assert.deepEqual(
+        [...TraceModel.TraceProcessor.sortHandlers(handlers).keys()], ['Meta', 'acme/First', 'acme/Second']);
+  });
+
+  it('does not run handlers once they are unregistered', async () => {
+    const handlerName = registry.register('acme', 'Collector', ExtensionHandlers.createEventCollectorHandler([]));
+    registry.unregister(handlerName);
+    const processor = createProcessor();
+    await processor.parse(await loadEventsFromTraceFile('basic.json.gz'));
+    assert.notProperty(processor.data, handlerName);
+  });
+
+  it('only runs the handlers in the registry the processor was given', async () => {
+    const handlerName = registry.register('acme', 'Collector', ExtensionHandlers.createEventCollectorHandler([]));
+    const processor = new TraceModel.TraceProcessor.TraceProcessor(TraceModel.Handlers.ModelHandlers);
+    await processor.parse(await loadEventsFromTraceFile('basic.json.gz'));
+    assert.notProperty(processor.data, handlerName);
+  });
+
+  it('runs the handlers of the registry a model was created with', async () => {
+    const handlerName = registry.register(
+        'acme', 'Collector', ExtensionHandlers.createEventCollectorHandler(['TracingStartedInBrowser']));
+    const model = new TraceModel.TraceModel.Model(registry);
+    await model.parse(await loadEventsFromTraceFile('basic.json.gz'));
+    const data = model.traceParsedData(0)?.[handlerName] as TraceModel.ExtensionHandlers.EventCollectorData;
+    assert.lengthOf(data.events, 1);
+  });
+});
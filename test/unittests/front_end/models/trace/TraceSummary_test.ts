@@ -0,0 +1,78 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as TraceModel from '../../../../../front_end/models/trace/trace.js';
+
+const {assert} = chai;
+
+import {loadTraceFile} from '../../helpers/TraceHelpers.js';
+
+describe('TraceSummary', () => {
+  describe('traceFileFromContents', () => {
+    it('accepts a plain array of trace events', async () => {
+      const contents = await loadTraceFile('basic.json.gz');
+      assert.isArray(contents);
+      const file = TraceModel.TraceSummary.traceFileFromContents(contents);
+      assert.strictEqual<unknown>(file.traceEvents, contents);
+      assert.deepEqual(file.metadata, {});
+    });
+
+    it('accepts an object with trace events and metadata', async () => {
+      const contents = await loadTraceFile('cls-single-frame.json.gz');
+      const file = TraceModel.TraceSummary.traceFileFromContents(contents);
+      assert.isAbove(file.traceEvents.length, 0);
+      assert.strictEqual(file.metadata.source, 'DevTools');
+    });
+
+    it('throws if there are no trace events', () => {
+      assert.throws(
+          () => TraceModel.TraceSummary.traceFileFromContents(
+              {metadata: {}} as unknown as TraceModel.TraceModel.TraceFileContents),
+          'Trace file contents do not contain any trace events.');
+    });
+  });
+
+  describe('analyzeTrace', () => {
+    it('summarizes the web vitals for each navigation', async () => {
+      const summary = await TraceModel.TraceSummary.analyzeTrace(await loadTraceFile('interactive-time.json.gz'));
+      assert.strictEqual(summary.mainFrameURL, 'https://www.google.com/');
+      assert.lengthOf(summary.navigations, 1);
+      const [navigation] = summary.navigations;
+      assert.isTrue(navigation.isMainFrame);
+      assert.strictEqual(navigation.url, 'https://www.google.com/');
+      assert.deepEqual(navigation.metrics.FCP, {
+        score: '0.13s',
+        classification: TraceModel.Handlers.ModelHandlers.PageLoadMetrics.ScoreClassification.GOOD,
+        estimated: false,
+        timing: 131840,
+      });
+      assert.strictEqual(navigation.metrics.TBT?.score, '4.33ms');
+      assert.isNull(navigation.metrics.TBT?.timing);
+      assert.strictEqual(navigation.totalBlockingTime, 4329);
+      assert.lengthOf(summary.longTasks, 2);
+      assert.lengthOf(summary.networkRequests, 17);
+    });
+
+    it('summarizes the layout shift clusters', async () => {
+      const summary = await TraceModel.TraceSummary.analyzeTrace(await loadTraceFile('cls-single-frame.json.gz'));
+      assert.strictEqual(summary.layoutShifts.sessionMaxScore, 0.29522728495836237);
+      assert.lengthOf(summary.layoutShifts.clusters, 1);
+      assert.strictEqual(summary.layoutShifts.clusters[0].shiftCount, 7);
+    });
+
+    it('summarizes the user timings', async () => {
+      const summary = await TraceModel.TraceSummary.analyzeTrace(await loadTraceFile('user-timings.json.gz'));
+      assert.deepEqual(summary.userTimings.map(timing => timing.name), [
+        'first measure',
+        'second measure',
+        'third measure',
+      ]);
+    });
+
+    it('produces a summary that can be serialized to JSON', async () => {
+      const summary = await TraceModel.TraceSummary.analyzeTrace(await loadTraceFile('interactive-time.json.gz'));
+      assert.deepEqual(JSON.parse(JSON.stringify(summary)), summary);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import * as TraceModel from '../../../../../../front_end/models/trace/trace.js';
+import {loadModelDataFromTraceFile} from '../../../helpers/TraceHelpers.js';
+
+describe('LongTasksHandler', () => {
+  it('finds all the long tasks on the renderer main threads', async () => {
+    const {LongTasks} = await loadModelDataFromTraceFile('recursive-blocking-js.json.gz');
+    assert.lengthOf(LongTasks.longTasks, 3);
+    for (const longTask of LongTasks.longTasks) {
+      assert.strictEqual(longTask.event.name, 'RunTask');
+      assert.isAbove(longTask.duration, TraceModel.Handlers.ModelHandlers.LongTasks.LONG_TASK_THRESHOLD);
+      assert.strictEqual(
+          longTask.blockingDuration,
+          longTask.duration - TraceModel.Handlers.ModelHandlers.LongTasks.LONG_TASK_THRESHOLD);
+    }
+    assert.deepEqual(LongTasks.longTasks.map(longTask => longTask.duration), [1015793, 1000220, 1001333]);
+  });
+
+  it('attributes long tasks to their top level script', async () => {
+    const {LongTasks} = await loadModelDataFromTraceFile('recursive-blocking-js.json.gz');
+    assert.deepEqual(LongTasks.longTasks.map(longTask => longTask.scriptURL), [
+      'http://127.0.0.1:8080/',
+      'http://127.0.0.1:8080/',
+      'http://127.0.0.1:8080/',
+    ]);
+    assert.deepEqual([...LongTasks.longTasksByScriptURL.keys()], ['http://127.0.0.1:8080/']);
+    assert.lengthOf(LongTasks.longTasksByScriptURL.get('http://127.0.0.1:8080/') || [], 3);
+  });
+
+  it('does not attribute long tasks when there were no samples for the task', async () => {
+    const {LongTasks} = await loadModelDataFromTraceFile('interactive-time.json.gz');
+    assert.lengthOf(LongTasks.longTasks, 2);
+    assert.isNull(LongTasks.longTasks[0].scriptURL);
+    assert.isNotNull(LongTasks.longTasks[1].scriptURL);
+    assert.strictEqual(LongTasks.longTasksByScriptURL.size, 1);
+  });
+
+  it('calculates the total blocking time between FCP and TTI', async () => {
+    const {LongTasks, PageLoadMetrics} = await loadModelDataFromTraceFile('interactive-time.json.gz');
+    const {totalBlockingTimeByNavigationId} = LongTasks;
+    assert.strictEqual(totalBlockingTimeByNavigationId.size, 1);
+    const [navigationId, tbt] = [...totalBlockingTimeByNavigationId][0];
+    assert.closeTo(tbt.value, 4329, 1);
+    assert.lengthOf(tbt.longTasks, 1);
+
+    const metrics = PageLoadMetrics.metricScoresByFrameId.get(tbt.frameId)?.get(navigationId);
+    const {MetricName} = TraceModel.Handlers.ModelHandlers.PageLoadMetrics;
+    assert.strictEqual(tbt.startTime, metrics?.get(MetricName.FCP)?.event?.ts);
+    assert.strictEqual(tbt.endTime, metrics?.get(MetricName.TTI)?.event?.ts);
+    // The value is the one reported by the backend.
+    assert.strictEqual(tbt.value, metrics?.get(MetricName.TBT)?.value);
+    assert.strictEqual(metrics?.get(MetricName.TBT)?.score, '4.33ms');
+  });
+
+  it('uses the estimated total blocking time up to the end of the trace if TTI was not reached', async () => {
+    const {LongTasks, Meta, PageLoadMetrics} = await loadModelDataFromTraceFile('reload-no-tti.json.gz');
+    const {totalBlockingTimeByNavigationId} = LongTasks;
+    assert.strictEqual(totalBlockingTimeByNavigationId.size, 1);
+    const [[navigationId, tbt]] = [...totalBlockingTimeByNavigationId];
+    assert.strictEqual(tbt.endTime, Meta.traceBounds.max);
+    assert.strictEqual(tbt.value, 7329);
+    const metric = PageLoadMetrics.metricScoresByFrameId.get(tbt.frameId)
+                       ?.get(navigationId)
+                       ?.get(TraceModel.Handlers.ModelHandlers.PageLoadMetrics.MetricName.TBT);
+    assert.isTrue(metric?.estimated);
+    assert.strictEqual(metric?.value, tbt.value);
+  });
+
+  it('does not calculate the total blocking time for navigations that did not reach FCP', async () => {
+    const {LongTasks} = await loadModelDataFromTraceFile('recursive-blocking-js.json.gz');
+    assert.strictEqual(LongTasks.totalBlockingTimeByNavigationId.size, 0);
+  });
+});
@@ -34,3 +34,104 @@ describeWithRealConnection('UISourceCodeDiff', () => {
     workspace.removeProject(project);
   });
 });
+
+describe('unifiedDiff', () => {
+  it('returns hunks with three lines of context', () => {
+    assert.strictEqual(
+        WorkspaceDiff.WorkspaceDiff.unifiedDiff('src/app.css', 'a\nb\nc\n', 'a\nB\nc\n'),
+        'diff --git a/src/app.css b/src/app.css\n--- a/src/app.css\n+++ b/src/app.css\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n');
+  });
+
+  it('splits changes that are far apart into separate hunks', () => {
+    const lines = Array.from({length: 12}, (_, i) => String(i + 1));
+    const baseline = lines.join('\n') + '\n';
+    const current = ['one', ...lines.slice(1, 11), 'twelve'].join('\n') + '\n';
+    const patch = WorkspaceDiff.WorkspaceDiff.unifiedDiff('a.js', baseline, current);
+    assert.deepEqual(patch.split('\n').slice(3), [
+      '@@ -1,4 +1,4 @@',
+      '-1',
+      '+one',
+      ' 2',
+      ' 3',
+      ' 4',
+      '@@ -9,4 +9,4 @@',
+      ' 9',
+      ' 10',
+      ' 11',
+      '-12',
+      '+twelve',
+      '',
+    ]);
+  });
+
+  it('marks lines without a newline at the end of the file', () => {
+    assert.strictEqual(
+        WorkspaceDiff.WorkspaceDiff.unifiedDiff('a.js', 'a', 'a\n').split('\n').slice(3).join('\n'),
+        '@@ -1 +1 @@\n-a\n\\ No newline at end of file\n+a\n');
+  });
+
+  it('returns an empty patch for unchanged files', () => {
+    assert.strictEqual(WorkspaceDiff.WorkspaceDiff.unifiedDiff('a.js', 'a\n', 'a\n'), '');
+  });
+
+  it('maps URLs to paths in patches', () => {
+    const {patchPathForURL} = WorkspaceDiff.WorkspaceDiff;
+    assert.strictEqual(patchPathForURL('webpack:///./src/app.css' as Platform.DevToolsPath.UrlString), 'src/app.css');
+    assert.strictEqual(
+        patchPathForURL('https://example.com/styles/main%20page.css?v=1' as Platform.DevToolsPath.UrlString),
+        'styles/main page.css');
+  });
+
+  it('keeps files with the same path from different origins apart', () => {
+    const file = (url: string, path: string) =>
+        ({path, url: url as Platform.DevToolsPath.UrlString, baseline: '', current: 'a\n'});
+    const paths = WorkspaceDiff.WorkspaceDiff
+                      .distinctPatchPaths([
+                        file('https://example.com/styles/main.css', 'styles/main.css'),
+                        file('https://cdn.example.com:8080/styles/main.css', 'styles/main.css'),
+                        file('https://example.com/app.css', 'app.css'),
+                      ])
+                      .map(({path}) => path);
+    assert.deepEqual(paths, ['example.com/styles/main.css', 'cdn.example.com:8080/styles/main.css', 'app.css']);
+  });
+});
+
+describe('authoredFileChanges', () => {
+  const scssURL = 'webpack:///./src/app.scss' as Platform.DevToolsPath.UrlString;
+  const scss = '.a {\n  .b {\n    color: red;\n  }\n}\n';
+  const css = '.a .b {\n  color: red;\n}\n';
+  // The compiled lines of the selector and the declaration of `.a .b`.
+  const authoredLines = [{sourceURL: scssURL, lineNumber: 1}, {sourceURL: scssURL, lineNumber: 2}];
+  const authoredLine = (lineNumber: number) => authoredLines[lineNumber] || null;
+  const authoredContent = async () => scss;
+
+  it('makes the changes to a compiled file to its authored file', async () => {
+    const changes = await WorkspaceDiff.WorkspaceDiff.authoredFileChanges(
+        css, '.a .b {\n  color: blue;\n  margin: 0;\n}\n', authoredLine, authoredContent);
+    assert.deepEqual([...changes?.entries() || []], [[
+                       scssURL,
+                       {baseline: scss, current: '.a {\n  .b {\n    color: blue;\n    margin: 0;\n  }\n}\n'},
+                     ]]);
+  });
+
+  it('does not make changes to lines that map to authored lines with other text', async () => {
+    // The compiled selector `.a .b {` is `.b {` in the authored file.
+    assert.isNull(await WorkspaceDiff.WorkspaceDiff.authoredFileChanges(
+        css, '.a .b, .c {\n  color: red;\n}\n', authoredLine, authoredContent));
+    // The closing brace is not mapped.
+    assert.isNull(await WorkspaceDiff.WorkspaceDiff.authoredFileChanges(
+        css, '.a .b {\n  color: red;\n', authoredLine, authoredContent));
+  });
+
+  it('makes the changes to the authored files of a bundle', async () => {
+    const bundle = 'a {}\nb {\n  color: red;\n}\n';
+    const aURL = 'webpack:///./a.css' as Platform.DevToolsPath.UrlString;
+    const bURL = 'webpack:///./b.css' as Platform.DevToolsPath.UrlString;
+    const changes = await WorkspaceDiff.WorkspaceDiff.authoredFileChanges(
+        bundle, '/* first */\na {}\nb {\n}\n',
+        lineNumber => lineNumber ? {sourceURL: bURL, lineNumber: lineNumber - 1} : {sourceURL: aURL, lineNumber},
+        async sourceURL => sourceURL === aURL ? 'a {}\n' : 'b {\n  color: red;\n}\n');
+    assert.deepEqual(changes?.get(aURL), {baseline: 'a {}\n', current: '/* first */\na {}\n'});
+    assert.deepEqual(changes?.get(bURL), {baseline: 'b {\n  color: red;\n}\n', current: 'b {\n}\n'});
+  });
+});
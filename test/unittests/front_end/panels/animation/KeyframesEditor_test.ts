@@ -0,0 +1,39 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Animation from '../../../../../front_end/panels/animation/animation.js';
+
+const {assert} = chai;
+
+const {KeyframesEditor} = Animation;
+
+describe('KeyframesEditor', () => {
+  it('converts between keyframe offsets and keys', () => {
+    assert.strictEqual(KeyframesEditor.keyframeOffsetText(0.375), '37.5%');
+    assert.strictEqual(KeyframesEditor.keyframeOffsetText(0.1234567), '12.35%');
+    assert.strictEqual(KeyframesEditor.keyframeKeyOffset('from'), 0);
+    assert.strictEqual(KeyframesEditor.keyframeKeyOffset(' TO '), 1);
+    assert.strictEqual(KeyframesEditor.keyframeKeyOffset('37.5%'), 0.375);
+    assert.isNull(KeyframesEditor.keyframeKeyOffset('0%, 100%'));
+    assert.isNull(KeyframesEditor.keyframeKeyOffset('50'));
+  });
+
+  it('replaces the value of one animation in animation-* lists', () => {
+    assert.strictEqual(KeyframesEditor.animationListValue(null, 0, 1, '500ms', '0s'), '500ms');
+    assert.strictEqual(KeyframesEditor.animationListValue(null, 1, 3, '500ms', '0s'), '0s, 500ms, 0s');
+    assert.strictEqual(KeyframesEditor.animationListValue('1s, 2s', 2, 3, '500ms', '0s'), '1s, 2s, 500ms');
+  });
+
+  it('formats @keyframes rules and timing', () => {
+    const keyframes = [
+      {keyText: 'from', properties: [{name: 'opacity', value: '0'}]},
+      {keyText: '60%', properties: [{name: 'opacity', value: '1'}, {name: 'transform', value: 'scale(1.1)'}]},
+    ];
+    assert.strictEqual(
+        KeyframesEditor.keyframesRuleText('pop-in', keyframes),
+        '@keyframes pop-in {\n  from {\n    opacity: 0;\n  }\n  60% {\n    opacity: 1;\n    transform: scale(1.1);\n  }\n}');
+    assert.strictEqual(
+        KeyframesEditor.animationTimingText(1000.4, 250), 'animation-duration: 1000ms;\nanimation-delay: 250ms;');
+  });
+});
@@ -0,0 +1,98 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import * as Resources from '../../../../../front_end/panels/application/application.js';
+import {describeWithLocale} from '../../helpers/EnvironmentHelpers.js';
+
+const {IndexedDBModel, ObjectStore, EntryError, parseObjectStoreFile} = Resources.IndexedDBModel;
+const {entriesExpression, ValueFormat} = Resources.IndexedDBEntryEditor;
+
+describe('IndexedDBModel entries', () => {
+  it('evaluates key paths on values', () => {
+    const value = {id: 1, name: {first: 'Ada'}, tags: ['a']};
+    assert.strictEqual(IndexedDBModel.evaluateKeyPath(value, 'id'), 1);
+    assert.strictEqual(IndexedDBModel.evaluateKeyPath(value, 'name.first'), 'Ada');
+    assert.strictEqual(IndexedDBModel.evaluateKeyPath(value, 'name.first.length'), 3);
+    assert.deepEqual(IndexedDBModel.evaluateKeyPath(value, ['id', 'name.first']), [1, 'Ada']);
+    assert.strictEqual(IndexedDBModel.evaluateKeyPath('key', ''), 'key');
+    assert.isUndefined(IndexedDBModel.evaluateKeyPath(value, 'missing'));
+    assert.isUndefined(IndexedDBModel.evaluateKeyPath(value, ['id', 'missing']));
+  });
+
+  it('checks keys', () => {
+    assert.isTrue(IndexedDBModel.isValidKey(1));
+    assert.isTrue(IndexedDBModel.isValidKey('a'));
+    assert.isTrue(IndexedDBModel.isValidKey(new Date()));
+    assert.isTrue(IndexedDBModel.isValidKey([1, ['a']]));
+    assert.isFalse(IndexedDBModel.isValidKey(NaN));
+    assert.isFalse(IndexedDBModel.isValidKey(true));
+    assert.isFalse(IndexedDBModel.isValidKey({}));
+    assert.isFalse(IndexedDBModel.isValidKey([1, null]));
+  });
+
+  it('validates entries against the key path of their object store', () => {
+    const outOfLine = new ObjectStore('store', null, false);
+    assert.isNull(IndexedDBModel.validateEntry(outOfLine, 'key', 1));
+    assert.strictEqual(IndexedDBModel.validateEntry(outOfLine, undefined, 1), EntryError.KeyRequired);
+    assert.strictEqual(IndexedDBModel.validateEntry(outOfLine, {}, 1), EntryError.InvalidKey);
+    assert.isNull(IndexedDBModel.validateEntry(new ObjectStore('store', null, true), undefined, 1));
+
+    const inline = new ObjectStore('store', 'id', false);
+    assert.isNull(IndexedDBModel.validateEntry(inline, undefined, {id: 1}));
+    assert.strictEqual(IndexedDBModel.validateEntry(inline, 1, {id: 1}), EntryError.KeyNotAllowed);
+    assert.strictEqual(IndexedDBModel.validateEntry(inline, undefined, {}), EntryError.KeyPathNotFound);
+    assert.strictEqual(IndexedDBModel.validateEntry(inline, undefined, {id: true}), EntryError.InvalidKey);
+
+    const generated = new ObjectStore('store', 'id', true);
+    assert.isNull(IndexedDBModel.validateEntry(generated, undefined, {}));
+    assert.strictEqual(IndexedDBModel.validateEntry(generated, undefined, 1), EntryError.ValueNotObject);
+  });
+});
+
+describeWithLocale('IndexedDBEntryEditor', () => {
+  it('parses exported object stores', () => {
+    const entries = [{key: 1, value: {a: 1}}, {value: 'b'}];
+    assert.deepEqual(
+        parseObjectStoreFile(JSON.stringify({version: 1, databaseName: 'db', objectStoreName: 'store', entries})),
+        entries);
+    assert.throws(() => parseObjectStoreFile(JSON.stringify({version: 2, entries})));
+    assert.throws(() => parseObjectStoreFile(JSON.stringify({version: 1, entries: [{key: 1}]})));
+    assert.throws(() => parseObjectStoreFile('not json'));
+  });
+
+  it('creates the expression of JSON entries', () => {
+    const objectStore = new ObjectStore('store', null, false);
+    const result =
+        entriesExpression(objectStore, {keyText: '"a"', valueText: '{"b": 1}', originalKey: 'c'}, ValueFormat.JSON);
+    assert.isTrue('expression' in result);
+    if ('expression' in result) {
+      assert.deepEqual(eval(result.expression), [{key: 'a', value: {b: 1}, originalKey: 'c'}]);
+    }
+  });
+
+  it('reports invalid JSON entries', () => {
+    const objectStore = new ObjectStore('store', 'id', false);
+    assert.isTrue('error' in entriesExpression(objectStore, {keyText: '', valueText: '{'}, ValueFormat.JSON));
+    assert.isTrue('error' in entriesExpression(objectStore, {keyText: '', valueText: '{}'}, ValueFormat.JSON));
+    assert.isTrue(
+        'error' in
+        entriesExpression(new ObjectStore('store', null, false), {keyText: '', valueText: '1'}, ValueFormat.JSON));
+  });
+
+  it('wraps JavaScript expressions and only validates their keys', () => {
+    const objectStore = new ObjectStore('store', 'id', false);
+    const result = entriesExpression(
+        objectStore, {keyText: '', valueText: '{id: 1 + 1, date: new Date(0)}'}, ValueFormat.Expression);
+    assert.isTrue('expression' in result);
+    if ('expression' in result) {
+      assert.deepEqual(
+          eval(result.expression), [{key: undefined, value: {id: 2, date: new Date(0)}, originalKey: undefined}]);
+    }
+    assert.isTrue(
+        'error' in entriesExpression(
+            new ObjectStore('store', null, false), {keyText: '', valueText: '1'}, ValueFormat.Expression));
+  });
+});
@@ -221,4 +221,22 @@ describeWithMockConnection('IndexedDBModel', () => {
         {databaseId: testDBId, objectStoreName: 'test-store', model: indexedDBModel}));
   });
 
+  it('tells which values JSON represents exactly', () => {
+    const {jsonValueInPage} = Resources.IndexedDBModel;
+    const value = {id: 1, title: 'a', tags: ['b', null], done: false, nested: Object.create(null)};
+    assert.deepEqual(jsonValueInPage.call(value), {value});
+    const lossyValues = [
+      {date: new Date()},
+      [new ArrayBuffer(1)],
+      {map: new Map()},
+      {bytes: new Uint8Array(1)},
+      {missing: undefined},
+      new Array(2),
+      {nan: NaN},
+      new Set(),
+    ];
+    for (const lossy of lossyValues) {
+      assert.isNull(jsonValueInPage.call(lossy));
+    }
+  });
 });
@@ -0,0 +1,67 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import type * as Platform from '../../../../../front_end/core/platform/platform.js';
+import * as SDK from '../../../../../front_end/core/sdk/sdk.js';
+import * as Protocol from '../../../../../front_end/generated/protocol.js';
+import * as Application from '../../../../../front_end/panels/application/application.js';
+import {describeWithLocale} from '../../helpers/EnvironmentHelpers.js';
+
+import FetchLog = Application.ServiceWorkerFetchLogView;
+
+function createRequest(url: string, documentURL: string): SDK.NetworkRequest.NetworkRequest {
+  return SDK.NetworkRequest.NetworkRequest.create(
+      'requestId' as Protocol.Network.RequestId, url as Platform.DevToolsPath.UrlString,
+      documentURL as Platform.DevToolsPath.UrlString, null, null, null);
+}
+
+function workerTiming(workerFetchStart: number, workerRespondWithSettled: number): Protocol.Network.ResourceTiming {
+  return {requestTime: 1, receiveHeadersEnd: 50, workerFetchStart, workerRespondWithSettled} as
+      Protocol.Network.ResourceTiming;
+}
+
+describeWithLocale('ServiceWorkerFetchLogView', () => {
+  it('ignores requests that were not dispatched to a service worker', () => {
+    const request = createRequest('https://example.com/app.js', 'https://example.com/');
+    assert.isNull(FetchLog.fetchLogEntryForRequest(request));
+    request.timing = workerTiming(-1, -1);
+    assert.isNull(FetchLog.fetchLogEntryForRequest(request));
+  });
+
+  it('correlates responses from the Cache Storage with their cache', () => {
+    const request = createRequest('https://example.com/app.js', 'https://example.com/');
+    request.fetchedViaServiceWorker = true;
+    request.setServiceWorkerResponseSource(Protocol.Network.ServiceWorkerResponseSource.CacheStorage);
+    request.setResponseCacheStorageCacheName('static-v1');
+    request.timing = workerTiming(2, 12);
+    assert.deepEqual(FetchLog.fetchLogEntryForRequest(request), {
+      request,
+      source: FetchLog.FetchEventSource.CacheStorage,
+      cacheName: 'static-v1',
+      fetchEventTime: 10,
+    });
+  });
+
+  it('classifies synthesized responses and network fallbacks', () => {
+    const synthesized = createRequest('https://example.com/api', 'https://example.com/');
+    synthesized.fetchedViaServiceWorker = true;
+    synthesized.setServiceWorkerResponseSource(Protocol.Network.ServiceWorkerResponseSource.FallbackCode);
+    assert.strictEqual(FetchLog.fetchLogEntryForRequest(synthesized)?.source, FetchLog.FetchEventSource.Synthesized);
+
+    const fallback = createRequest('https://example.com/image.png', 'https://example.com/');
+    fallback.timing = workerTiming(2, -1);
+    assert.deepEqual(
+        FetchLog.fetchLogEntryForRequest(fallback),
+        {request: fallback, source: FetchLog.FetchEventSource.NetworkFallback});
+  });
+
+  it('matches requests to registrations by the scope of their documents', () => {
+    const request = createRequest('https://cdn.example.com/app.js', 'https://example.com/app/index.html');
+    assert.isTrue(FetchLog.isRequestInScope(request, 'https://example.com/app/'));
+    assert.isFalse(FetchLog.isRequestInScope(request, 'https://example.com/admin/'));
+    assert.isFalse(FetchLog.isRequestInScope(request, ''));
+  });
+});
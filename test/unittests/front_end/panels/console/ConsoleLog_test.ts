@@ -0,0 +1,125 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type * as Platform from '../../../../../front_end/core/platform/platform.js';
+import * as SDK from '../../../../../front_end/core/sdk/sdk.js';
+import * as Protocol from '../../../../../front_end/generated/protocol.js';
+import * as Console from '../../../../../front_end/panels/console/console.js';
+import {describeWithLocale} from '../../helpers/EnvironmentHelpers.js';
+
+const {assert} = chai;
+
+const {ConsoleLog} = Console;
+
+function createMessage(): SDK.ConsoleModel.ConsoleMessage {
+  const url = 'https://example.com/app.js' as Platform.DevToolsPath.UrlString;
+  return new SDK.ConsoleModel.ConsoleMessage(
+      null, Protocol.Log.LogEntrySource.Javascript, Protocol.Log.LogEntryLevel.Warning, 'count %d of %o', {
+        type: Protocol.Runtime.ConsoleAPICalledEventType.Warning,
+        url,
+        line: 4,
+        column: 2,
+        timestamp: 1000,
+        executionContextId: 3,
+        stackTrace: {
+          callFrames:
+              [{functionName: 'run', scriptId: '7' as Protocol.Runtime.ScriptId, url, lineNumber: 4, columnNumber: 2}],
+        },
+        parameters: [
+          {type: Protocol.Runtime.RemoteObjectType.String, value: 'count %d of %o'},
+          {type: Protocol.Runtime.RemoteObjectType.Number, unserializableValue: '-0', description: '-0'},
+          {
+            type: Protocol.Runtime.RemoteObjectType.Object,
+            className: 'Object',
+            description: 'Object',
+            objectId: '1' as Protocol.Runtime.RemoteObjectId,
+            preview: {
+              type: Protocol.Runtime.ObjectPreviewType.Object,
+              description: 'Object',
+              overflow: false,
+              properties: [
+                {name: 'a', type: Protocol.Runtime.PropertyPreviewType.Number, value: '1'},
+                {
+                  name: 'b',
+                  type: Protocol.Runtime.PropertyPreviewType.Object,
+                  subtype: Protocol.Runtime.PropertyPreviewSubtype.Array,
+                  value: 'Array(2)',
+                  valuePreview: {
+                    type: Protocol.Runtime.ObjectPreviewType.Object,
+                    subtype: Protocol.Runtime.ObjectPreviewSubtype.Array,
+                    description: 'Array(2)',
+                    overflow: false,
+                    properties: [
+                      {name: '0', type: Protocol.Runtime.PropertyPreviewType.Boolean, value: 'true'},
+                      {name: '1', type: Protocol.Runtime.PropertyPreviewType.Object, value: 'Object'},
+                    ],
+                  },
+                },
+              ],
+            },
+          },
+        ],
+      });
+}
+
+describeWithLocale('ConsoleLog', () => {
+  it('serializes messages with their details and the JSON previews of their arguments', () => {
+    const serialized = ConsoleLog.serializeConsoleMessage(createMessage());
+    assert.deepEqual(serialized.parameters, [
+      {type: 'string', value: 'count %d of %o'},
+      {type: 'number', description: '-0', unserializableValue: '-0'},
+      {type: 'object', className: 'Object', description: 'Object', value: {a: 1, b: [true, 'Object']}},
+    ]);
+    assert.strictEqual(serialized.level, Protocol.Log.LogEntryLevel.Warning);
+    assert.strictEqual(serialized.timestamp, 1000);
+    assert.strictEqual(serialized.executionContextId, 3);
+    assert.strictEqual(serialized.stackTrace?.callFrames[0].functionName, 'run');
+  });
+
+  it('imports the messages of a console log', () => {
+    const log = ConsoleLog.consoleLogLine(createMessage()) + '\n\n' +
+        ConsoleLog.consoleLogLine(new SDK.ConsoleModel.ConsoleMessage(
+            null, Protocol.Log.LogEntrySource.Network, Protocol.Log.LogEntryLevel.Error, 'Failed to load', {
+              timestamp: 2000,
+            })) +
+        '\n';
+    const [message, networkMessage] = ConsoleLog.parseConsoleLog(log);
+    assert.isNull(message.runtimeModel());
+    assert.strictEqual(message.source, Protocol.Log.LogEntrySource.Javascript);
+    assert.strictEqual(message.level, Protocol.Log.LogEntryLevel.Warning);
+    assert.strictEqual(message.type, Protocol.Runtime.ConsoleAPICalledEventType.Warning);
+    assert.strictEqual(message.url, 'https://example.com/app.js');
+    assert.strictEqual(message.line, 4);
+    assert.strictEqual(message.timestamp, 1000);
+    assert.strictEqual(message.getExecutionContextId(), 3);
+    assert.deepEqual(message.stackTrace, createMessage().stackTrace);
+    const parameters = message.parameters as SDK.RemoteObject.RemoteObject[];
+    assert.strictEqual(parameters[0].value, 'count %d of %o');
+    assert.isTrue(Object.is(parameters[1].value, -0));
+    assert.deepEqual(parameters[2].value, {a: 1, b: [true, 'Object']});
+    assert.strictEqual(networkMessage.source, Protocol.Log.LogEntrySource.Network);
+    assert.strictEqual(networkMessage.level, Protocol.Log.LogEntryLevel.Error);
+  });
+
+  it('rejects lines that are not console messages', () => {
+    const line = ConsoleLog.consoleLogLine(createMessage());
+    assert.throws(() => ConsoleLog.parseConsoleLog(`${line}\n{"messageText": "a"}`), 'Line 2 is not a console message');
+    assert.throws(() => ConsoleLog.parseConsoleLog('not json'), 'Line 1 is not a console message');
+  });
+
+  it('turns the previews of maps into entries', () => {
+    const preview = {
+      type: Protocol.Runtime.ObjectPreviewType.Object,
+      subtype: Protocol.Runtime.ObjectPreviewSubtype.Map,
+      description: 'Map(1)',
+      overflow: false,
+      properties: [],
+      entries: [{
+        key: {type: Protocol.Runtime.ObjectPreviewType.String, description: 'k', overflow: false, properties: []},
+        value: {type: Protocol.Runtime.ObjectPreviewType.Number, description: '2', overflow: false, properties: []},
+      }],
+    };
+    assert.deepEqual(ConsoleLog.jsonPreview(preview), [{key: 'k', value: 2}]);
+  });
+});
@@ -0,0 +1,57 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as SDK from '../../../../../front_end/core/sdk/sdk.js';
+import * as Protocol from '../../../../../front_end/generated/protocol.js';
+import * as Console from '../../../../../front_end/panels/console/console.js';
+
+const {assert} = chai;
+
+const {ConsoleNotebook} = Console;
+
+describe('ConsoleNotebook', () => {
+  it('splits snippets into cells at `// %%` lines', () => {
+    assert.deepEqual(ConsoleNotebook.splitCells('const a = 1;\n// %%\na + 1\n//%% Second\n\nlog(a);\n'), [
+      {separator: null, code: 'const a = 1;'},
+      {separator: '// %%', code: 'a + 1'},
+      {separator: '//%% Second', code: '\nlog(a);\n'},
+    ]);
+    assert.deepEqual(ConsoleNotebook.splitCells('// %%\nfoo();'), [{separator: '// %%', code: 'foo();'}]);
+    assert.deepEqual(ConsoleNotebook.splitCells('foo();'), [{separator: null, code: 'foo();'}]);
+    assert.deepEqual(ConsoleNotebook.splitCells(''), [{separator: null, code: ''}]);
+  });
+
+  it('keeps the whitespace around the code of cells', () => {
+    const content = '\n// %%\n  const text = `\n  indented\n`;\n\n// %%\n\n\n\n// %%\na + 1\n';
+    const cells = ConsoleNotebook.splitCells(content);
+    assert.deepEqual(cells.map(cell => cell.code), ['', '  const text = `\n  indented\n`;\n', '\n\n', 'a + 1\n']);
+    assert.strictEqual(ConsoleNotebook.joinCells(cells), content);
+  });
+
+  it('keeps the separator lines of cells', () => {
+    for (const content of ['// %% Setup\nconst a = 1;\n  //%%   Second\na + 1\n', '//%%\n', '// %%\n\n// %% Title\n']) {
+      assert.strictEqual(ConsoleNotebook.joinCells(ConsoleNotebook.splitCells(content)), content);
+    }
+  });
+
+  it('joins cells into the content of a snippet', () => {
+    const content =
+        ConsoleNotebook.joinCells([{separator: null, code: 'const a = 1;'}, {separator: null, code: 'a + 1\n'}]);
+    assert.strictEqual(content, 'const a = 1;\n// %%\na + 1\n');
+    assert.strictEqual(
+        ConsoleNotebook.joinCells([{separator: '//%% First', code: 'foo();'}, {separator: null, code: ''}]),
+        '//%% First\nfoo();\n// %%\n');
+  });
+
+  it('creates cell outputs without object ids', () => {
+    const output = ConsoleNotebook.cellOutput('1 + 1', SDK.RemoteObject.RemoteObject.fromLocalObject(2), false);
+    assert.deepEqual(output, {
+      code: '1 + 1',
+      result: {type: Protocol.Runtime.RemoteObjectType.Number, value: 2, description: '2'},
+      wasThrown: false,
+    });
+    assert.isFalse(ConsoleNotebook.isOutdatedCellOutput(output, '1 + 1\n'));
+    assert.isTrue(ConsoleNotebook.isOutdatedCellOutput(output, '1 + 2'));
+  });
+});
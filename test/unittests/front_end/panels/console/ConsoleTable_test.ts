@@ -0,0 +1,82 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as Protocol from '../../../../../front_end/generated/protocol.js';
+import * as Console from '../../../../../front_end/panels/console/console.js';
+
+const {assert} = chai;
+
+const {ConsoleTable} = Console;
+
+const {PropertyPreviewType, ObjectPreviewType} = Protocol.Runtime;
+
+function rowPreview(properties: Protocol.Runtime.PropertyPreview[]): Protocol.Runtime.ObjectPreview {
+  return {type: ObjectPreviewType.Object, description: 'Object', overflow: false, properties};
+}
+
+// The preview of `console.table([{name: 'a, "b"', position: {x: 1, y: 2}}, 'text'])`.
+const tablePreview = rowPreview([
+  {
+    name: '0',
+    type: PropertyPreviewType.Object,
+    value: 'Object',
+    valuePreview: rowPreview([
+      {name: 'name', type: PropertyPreviewType.String, value: 'a, "b"'},
+      {
+        name: 'position',
+        type: PropertyPreviewType.Object,
+        value: 'Object',
+        valuePreview: rowPreview([
+          {name: 'x', type: PropertyPreviewType.Number, value: '1'},
+          {name: 'y', type: PropertyPreviewType.Number, value: '2'},
+        ]),
+      },
+    ]),
+  },
+  {name: '1', type: PropertyPreviewType.String, value: 'text'},
+]);
+
+describe('ConsoleTable', () => {
+  it('lays out the rows and columns of tables', () => {
+    const table = ConsoleTable.consoleTable(tablePreview, false);
+    assert.deepEqual(table.columns.map(column => ConsoleTable.columnTitle(column, 'Value')), [
+      'name',
+      'position',
+      'Value',
+    ]);
+    assert.deepEqual(table.rows.map(row => row.property.name), ['0', '1']);
+  });
+
+  it('spreads nested objects over a column per property', () => {
+    const table = ConsoleTable.consoleTable(tablePreview, true);
+    assert.deepEqual(table.columns.map(column => ConsoleTable.columnTitle(column, 'Value')), [
+      'name',
+      'position.x',
+      'position.y',
+      'Value',
+    ]);
+  });
+
+  it('filters rows by their index and the text of their cells', () => {
+    const {rows} = ConsoleTable.consoleTable(tablePreview, false);
+    assert.deepEqual(rows.filter(row => ConsoleTable.rowMatches(row, 'TEXT')).map(row => row.property.name), ['1']);
+    assert.deepEqual(rows.filter(row => ConsoleTable.rowMatches(row, '0')).map(row => row.property.name), ['0']);
+  });
+
+  it('exports tables as CSV, TSV and JSON', () => {
+    const table = ConsoleTable.consoleTable(tablePreview, true);
+    const titles = ['(index)', ...table.columns.map(column => ConsoleTable.columnTitle(column, 'Value'))];
+    assert.strictEqual(
+        ConsoleTable.exportConsoleTable(table, table.rows, titles, ConsoleTable.ExportFormat.CSV),
+        '(index),name,position.x,position.y,Value\n0,"a, ""b""",1,2,\n1,,,,text\n');
+    assert.strictEqual(
+        ConsoleTable.exportConsoleTable(table, [table.rows[1]], titles, ConsoleTable.ExportFormat.TSV),
+        '(index)\tname\tposition.x\tposition.y\tValue\n1\t\t\t\ttext\n');
+    assert.deepEqual(
+        JSON.parse(ConsoleTable.exportConsoleTable(table, table.rows, titles, ConsoleTable.ExportFormat.JSON)), [
+          {'(index)': '0', name: 'a, "b"', 'position.x': 1, 'position.y': 2},
+          {'(index)': '1', Value: 'text'},
+        ]);
+  });
+});
@@ -0,0 +1,197 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type * as Lighthouse from '../../../../../front_end/panels/lighthouse/lighthouse.js';
+import {describeWithEnvironment, describeWithLocale} from '../../helpers/EnvironmentHelpers.js';
+
+const {assert} = chai;
+
+type ReportJSON = Lighthouse.LighthouseReporterTypes.ReportJSON;
+type AuditResultJSON = Lighthouse.LighthouseReporterTypes.AuditResultJSON;
+
+function audit(id: string, score: number|null, extra: Partial<AuditResultJSON> = {}): AuditResultJSON {
+  return {
+    id,
+    title: `Title of ${id}`,
+    description: '',
+    scoreDisplayMode: 'binary',
+    error: false,
+    score,
+    ...extra,
+  };
+}
+
+function report(
+    fetchTime: string, scores: {[id: string]: number|null}, audits: AuditResultJSON[],
+    metricIds: string[] = []): ReportJSON {
+  const categories: ReportJSON['categories'] = {};
+  for (const [id, score] of Object.entries(scores)) {
+    categories[id] = {
+      id,
+      title: `Title of ${id}`,
+      score,
+      manualDescription: '',
+      auditRefs: id === 'performance' ? metricIds.map(id => ({id, score: null, weight: 1, group: 'metrics'})) as
+              ReportJSON['categories'][string]['auditRefs'] :
+                                        [],
+    };
+  }
+  return {
+    lighthouseVersion: '9.6.2',
+    userAgent: '',
+    fetchTime,
+    timing: {total: 0},
+    finalDisplayedUrl: 'https://example.com/',
+    artifacts: {traces: {defaultPass: {traceEvents: []}}},
+    audits: Object.fromEntries(audits.map(audit => [audit.id, audit])),
+    categories,
+    categoryGroups: {},
+  };
+}
+
+describeWithLocale('LighthouseReportHistory', () => {
+  let LighthouseModule: typeof Lighthouse;
+  beforeEach(async () => {
+    LighthouseModule = await import('../../../../../front_end/panels/lighthouse/lighthouse.js');
+  });
+
+  it('parses reports saved from the panel and the CLI', () => {
+    const lhr = report('2022-06-01T10:00:00.000Z', {performance: 0.5}, []);
+    const {parseLighthouseReport} = LighthouseModule.LighthouseReportHistory;
+    assert.deepEqual(parseLighthouseReport(JSON.stringify(lhr)), lhr);
+    assert.deepEqual(parseLighthouseReport(JSON.stringify({lhr, artifacts: {}})), lhr);
+  });
+
+  it('throws when the text is not a report', () => {
+    const {parseLighthouseReport} = LighthouseModule.LighthouseReportHistory;
+    assert.throws(() => parseLighthouseReport('not json'), 'The file is not a `Lighthouse` report in JSON format.');
+    assert.throws(
+        () => parseLighthouseReport(JSON.stringify({lighthouseVersion: '9.6.2'})),
+        'The file is not a `Lighthouse` report in JSON format.');
+  });
+
+  it('throws when the categories or the audits of a report are malformed', () => {
+    const {parseLighthouseReport} = LighthouseModule.LighthouseReportHistory;
+    const lhr = report('2022-06-01T10:00:00.000Z', {performance: 0.5}, [audit('is-on-https', 1)]);
+    const malformedReports = [
+      {...lhr, categories: {performance: {...lhr.categories['performance'], auditRefs: undefined}}},
+      {...lhr, categories: {performance: {...lhr.categories['performance'], auditRefs: [{weight: 1}]}}},
+      {...lhr, audits: {'is-on-https': {id: 'is-on-https', score: 1}}},
+      {...lhr, audits: {'is-on-https': null}},
+    ];
+    for (const malformedReport of malformedReports) {
+      assert.throws(
+          () => parseLighthouseReport(JSON.stringify(malformedReport)),
+          'The file is not a `Lighthouse` report in JSON format.');
+    }
+  });
+
+  it('drops screenshots from the reports that are kept in the history', () => {
+    const lhr = report('2022-06-01T10:00:00.000Z', {}, [
+      audit('final-screenshot', null, {details: {type: 'screenshot'}}),
+      audit('is-on-https', 1, {details: {type: 'table'}}),
+    ]);
+    lhr.fullPageScreenshot = {};
+    const stripped = LighthouseModule.LighthouseReportHistory.reportWithoutScreenshots(lhr);
+    assert.isUndefined(stripped.fullPageScreenshot);
+    assert.isUndefined(stripped.audits['final-screenshot'].details);
+    assert.deepEqual(stripped.audits['is-on-https'], lhr.audits['is-on-https']);
+    assert.isDefined(lhr.audits['final-screenshot'].details);
+  });
+});
+
+describeWithLocale('LighthouseReportComparisonView', () => {
+  let LighthouseModule: typeof Lighthouse;
+  beforeEach(async () => {
+    LighthouseModule = await import('../../../../../front_end/panels/lighthouse/lighthouse.js');
+  });
+
+  it('compares the category scores of two reports', () => {
+    const baseReport = report('2022-06-01T10:00:00.000Z', {performance: 0.5, seo: 0.9}, []);
+    const newReport = report('2022-06-02T10:00:00.000Z', {performance: 0.75, accessibility: 1}, []);
+    const {categories} = LighthouseModule.LighthouseReportComparisonView.compareReports(baseReport, newReport);
+    assert.deepEqual(categories, [
+      {id: 'performance', title: 'Title of performance', baseScore: 0.5, score: 0.75},
+      {id: 'seo', title: 'Title of seo', baseScore: 0.9, score: null},
+      {id: 'accessibility', title: 'Title of accessibility', baseScore: null, score: 1},
+    ]);
+  });
+
+  it('compares the values of the performance metrics', () => {
+    const baseReport = report(
+        '2022-06-01T10:00:00.000Z', {performance: 0.5},
+        [audit('first-contentful-paint', 0.5, {numericValue: 1200, numericUnit: 'millisecond'})],
+        ['first-contentful-paint']);
+    const newReport = report(
+        '2022-06-02T10:00:00.000Z', {performance: 0.5},
+        [
+          audit('first-contentful-paint', 0.8, {numericValue: 900, numericUnit: 'millisecond'}),
+          audit('cumulative-layout-shift', 1, {numericValue: 0.01, numericUnit: 'unitless'}),
+        ],
+        ['first-contentful-paint', 'cumulative-layout-shift']);
+    const {metrics} = LighthouseModule.LighthouseReportComparisonView.compareReports(baseReport, newReport);
+    assert.deepEqual(metrics, [
+      {
+        id: 'first-contentful-paint',
+        title: 'Title of first-contentful-paint',
+        unit: 'millisecond',
+        baseValue: 1200,
+        value: 900,
+      },
+      {id: 'cumulative-layout-shift', title: 'Title of cumulative-layout-shift', unit: 'unitless', value: 0.01},
+    ]);
+  });
+
+  it('skips the metrics that neither report has an audit for', () => {
+    const baseReport = report('2022-06-01T10:00:00.000Z', {performance: 0.5}, [], ['first-contentful-paint']);
+    const newReport = report('2022-06-02T10:00:00.000Z', {performance: 0.5}, [], ['first-contentful-paint']);
+    const {metrics} = LighthouseModule.LighthouseReportComparisonView.compareReports(baseReport, newReport);
+    assert.deepEqual(metrics, []);
+  });
+
+  it('lists only the audits that changed between passing and failing', () => {
+    const baseReport = report('2022-06-01T10:00:00.000Z', {}, [
+      audit('is-on-https', 1),
+      audit('viewport', 0),
+      audit('document-title', 1),
+      audit('uses-long-cache-ttl', 0.95, {scoreDisplayMode: 'numeric'}),
+      audit('diagnostics', null, {scoreDisplayMode: 'informative'}),
+    ]);
+    const newReport = report('2022-06-02T10:00:00.000Z', {}, [
+      audit('is-on-https', 0),
+      audit('viewport', 1),
+      audit('document-title', 1),
+      audit('uses-long-cache-ttl', 0.5, {scoreDisplayMode: 'numeric'}),
+      audit('diagnostics', null, {scoreDisplayMode: 'informative'}),
+    ]);
+    const {audits} = LighthouseModule.LighthouseReportComparisonView.compareReports(baseReport, newReport);
+    assert.deepEqual(audits, [
+      {id: 'is-on-https', title: 'Title of is-on-https', basePassed: true, passed: false},
+      {id: 'viewport', title: 'Title of viewport', basePassed: false, passed: true},
+      {id: 'uses-long-cache-ttl', title: 'Title of uses-long-cache-ttl', basePassed: true, passed: false},
+    ]);
+  });
+});
+
+describeWithEnvironment('ReportHistory', () => {
+  let LighthouseModule: typeof Lighthouse;
+  beforeEach(async () => {
+    LighthouseModule = await import('../../../../../front_end/panels/lighthouse/lighthouse.js');
+  });
+
+  it('drops the oldest reports that do not fit in local storage', () => {
+    const {MaxReportHistorySize, ReportHistory} = LighthouseModule.LighthouseReportHistory;
+    const largeReport = (fetchTime: string): ReportJSON => report(fetchTime, {}, [
+      audit('is-on-https', 1, {description: 'x'.repeat(MaxReportHistorySize / 2)}),
+    ]);
+    const history = new ReportHistory();
+    history.clear();
+    history.add(largeReport('2022-06-01T10:00:00.000Z'));
+    history.add(report('2022-06-02T10:00:00.000Z', {}, []));
+    assert.lengthOf(history.reports(), 2);
+    history.add(largeReport('2022-06-03T10:00:00.000Z'));
+    assert.deepEqual(
+        history.reports().map(report => report.fetchTime), ['2022-06-02T10:00:00.000Z', '2022-06-03T10:00:00.000Z']);
+  });
+});
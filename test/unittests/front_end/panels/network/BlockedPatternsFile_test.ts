@@ -0,0 +1,75 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type * as Platform from '../../../../../front_end/core/platform/platform.js';
+import type * as SDK from '../../../../../front_end/core/sdk/sdk.js';
+import * as Network from '../../../../../front_end/panels/network/network.js';
+import {describeWithLocale} from '../../helpers/EnvironmentHelpers.js';
+
+const {assert} = chai;
+
+const {BlockedPatternsFile} = Network;
+
+const blockedPattern: SDK.NetworkManager.BlockedPattern = {
+  enabled: true,
+  url: '*.png' as Platform.DevToolsPath.UrlString,
+};
+
+const mockedPattern: SDK.NetworkManager.BlockedPattern = {
+  enabled: false,
+  url: 'example.com/api/*' as Platform.DevToolsPath.UrlString,
+  mockedResponse: {
+    statusCode: 503,
+    headers: [{name: 'Content-Type', value: 'application/json'}],
+    body: '{"error": "unavailable"}',
+    delay: 200,
+  },
+};
+
+const mockedResponse = mockedPattern.mockedResponse;
+
+describeWithLocale('BlockedPatternsFile', () => {
+  it('parses the patterns it exports', () => {
+    const text = JSON.stringify(BlockedPatternsFile.createBlockedPatternsFile([blockedPattern, mockedPattern]));
+    assert.deepEqual(BlockedPatternsFile.parseBlockedPatternsFile(text), [blockedPattern, mockedPattern]);
+  });
+
+  it('rejects files that do not contain blocked patterns', () => {
+    const invalidTexts = [
+      '[]',
+      JSON.stringify({version: 2, patterns: []}),
+      JSON.stringify({version: 1, patterns: [{url: '', enabled: true}]}),
+      JSON.stringify({version: 1, patterns: [{url: '*.js', enabled: true, mockedResponse: {statusCode: 200}}]}),
+      JSON.stringify(
+          {version: 1, patterns: [{...mockedPattern, mockedResponse: {...mockedResponse, statusCode: 600}}]}),
+      JSON.stringify({version: 1, patterns: [{...mockedPattern, mockedResponse: {...mockedResponse, delay: -1}}]}),
+      JSON.stringify({version: 1, patterns: [{...mockedPattern, mockedResponse: {...mockedResponse, delay: 3600001}}]}),
+    ];
+    for (const text of invalidTexts) {
+      assert.throws(() => BlockedPatternsFile.parseBlockedPatternsFile(text), /does not contain/);
+    }
+    assert.throws(() => BlockedPatternsFile.parseBlockedPatternsFile('{'), SyntaxError);
+  });
+
+  it('replaces existing patterns with imported patterns with the same URL pattern', () => {
+    const importedPattern = {...mockedPattern, enabled: true};
+    const otherPattern = {enabled: true, url: '*.css' as Platform.DevToolsPath.UrlString};
+    assert.deepEqual(
+        BlockedPatternsFile.mergeBlockedPatterns([mockedPattern, blockedPattern], [importedPattern, otherPattern]),
+        [blockedPattern, importedPattern, otherPattern]);
+  });
+
+  it('edits mocked headers as lines of name and value', () => {
+    const headers = BlockedPatternsFile.parseMockedHeaders(
+        'Content-Type: text/html\n\n  X-Empty\nLocation: https://a.test:8080/\n');
+    assert.deepEqual(headers, [
+      {name: 'Content-Type', value: 'text/html'},
+      {name: 'X-Empty', value: ''},
+      {name: 'Location', value: 'https://a.test:8080/'},
+    ]);
+    assert.strictEqual(
+        BlockedPatternsFile.mockedHeadersText(headers),
+        'Content-Type: text/html\nX-Empty: \nLocation: https://a.test:8080/');
+  });
+});
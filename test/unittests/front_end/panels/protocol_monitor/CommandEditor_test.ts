@@ -0,0 +1,106 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import * as ProtocolMonitor from '../../../../../front_end/panels/protocol_monitor/protocol_monitor.js';
+
+import {describeWithLocale} from '../../helpers/EnvironmentHelpers.js';
+
+describeWithLocale('CommandEditor', () => {
+  describe('completeCommand', () => {
+    it('completes domains until a method is being typed', () => {
+      const completions = ProtocolMonitor.CommandEditor.completeCommand('pag');
+      assert.include(completions, 'Page.');
+      assert.isTrue(completions.every(completion => completion.endsWith('.')));
+    });
+
+    it('completes the methods of a domain', () => {
+      assert.deepStrictEqual(
+          ProtocolMonitor.CommandEditor.completeCommand('Page.captureS'),
+          ['Page.captureScreenshot', 'Page.captureSnapshot']);
+    });
+  });
+
+  describe('commandParameters', () => {
+    it('returns the parameters of known commands', () => {
+      const parameters = ProtocolMonitor.CommandEditor.commandParameters('Page.captureScreenshot');
+      const format = parameters?.find(({name}) => name === 'format');
+      assert.deepStrictEqual(
+          format, {name: 'format', type: 'string', optional: true, typeRef: 'Page.CaptureScreenshotRequestFormat'});
+      if (!format) {
+        assert.fail('Expected Page.captureScreenshot to have a format parameter');
+        return;
+      }
+      assert.deepEqual(ProtocolMonitor.CommandEditor.enumValuesForParameter(format), ['jpeg', 'png', 'webp']);
+      assert.isUndefined(ProtocolMonitor.CommandEditor.commandParameters('Page.unknownCommand'));
+    });
+
+    it('returns no enum values for parameters that are not enums', () => {
+      const parameters = ProtocolMonitor.CommandEditor.commandParameters('DOM.getOuterHTML') || [];
+      assert.isNotEmpty(parameters);
+      for (const parameter of parameters) {
+        assert.isUndefined(ProtocolMonitor.CommandEditor.enumValuesForParameter(parameter));
+      }
+    });
+  });
+
+  describe('parseParameters', () => {
+    const parameters = [
+      {name: 'url', type: 'string', optional: false},
+      {name: 'depth', type: 'number', optional: true},
+      {name: 'pierce', type: 'boolean', optional: true},
+      {name: 'clip', type: 'object', optional: true, typeRef: 'Page.Viewport'},
+      {name: 'format', type: 'string', optional: true, typeRef: 'Page.CaptureScreenshotRequestFormat'},
+    ];
+
+    it('converts the values to the types of the parameters', () => {
+      const result = ProtocolMonitor.CommandEditor.parseParameters(
+          parameters, new Map([
+            ['url', 'https://example.com/'],
+            ['depth', ' -1 '],
+            ['pierce', 'true'],
+            ['clip', '{"x": 0, "y": 0, "width": 10, "height": 10, "scale": 1}'],
+            ['format', 'png'],
+          ]));
+      assert.deepStrictEqual(result.parameters, {
+        url: 'https://example.com/',
+        depth: -1,
+        pierce: true,
+        clip: {x: 0, y: 0, width: 10, height: 10, scale: 1},
+        format: 'png',
+      });
+      assert.strictEqual(result.errors.size, 0);
+    });
+
+    it('leaves out optional parameters without a value', () => {
+      const result = ProtocolMonitor.CommandEditor.parseParameters(
+          parameters, new Map([['url', 'https://example.com/'], ['depth', '']]));
+      assert.deepStrictEqual(result.parameters, {url: 'https://example.com/'});
+      assert.strictEqual(result.errors.size, 0);
+    });
+
+    it('reports missing and invalid parameters', () => {
+      const result = ProtocolMonitor.CommandEditor.parseParameters(parameters, new Map([
+                                                                     ['depth', 'deep'],
+                                                                     ['pierce', 'yes'],
+                                                                     ['clip', '42'],
+                                                                     ['format', 'gif'],
+                                                                   ]));
+      assert.deepStrictEqual(result.parameters, {});
+      assert.deepStrictEqual([...result.errors.keys()], ['url', 'depth', 'pierce', 'clip', 'format']);
+      assert.strictEqual(result.errors.get('url'), 'This parameter is required');
+      assert.include(result.errors.get('format'), 'png');
+    });
+  });
+
+  describe('parameterValueToString', () => {
+    it('shows strings as they are and everything else as JSON', () => {
+      assert.strictEqual(ProtocolMonitor.CommandEditor.parameterValueToString('text'), 'text');
+      assert.strictEqual(ProtocolMonitor.CommandEditor.parameterValueToString(42), '42');
+      assert.strictEqual(ProtocolMonitor.CommandEditor.parameterValueToString({a: [1]}), '{"a":[1]}');
+      assert.strictEqual(ProtocolMonitor.CommandEditor.parameterValueToString(undefined), '');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import * as ProtocolMonitor from '../../../../../front_end/panels/protocol_monitor/protocol_monitor.js';
+
+const {IdSubstitutions, diffResponses, parseProtocolLog, recordedCommands, replayCommands} =
+    ProtocolMonitor.ProtocolReplay;
+
+// A log as saved by the Protocol Monitor.
+const log = [
+  {domain: 'DOM', method: 'DOM.getDocument', params: {}, id: 1, type: 'send'},
+  {domain: '-', method: 'DOM.setChildNodes', params: {parentId: 1, nodes: []}, type: 'recv'},
+  {domain: '-', id: 1, result: {root: {nodeId: 1, nodeName: '#document'}}, type: 'recv'},
+  {domain: 'DOM', method: 'DOM.querySelector', params: {nodeId: 1, selector: 'body'}, id: 2, type: 'send'},
+  {domain: '-', id: 2, result: {nodeId: 5}, type: 'recv'},
+  {domain: 'DOM', method: 'DOM.getOuterHTML', params: {nodeId: 5}, id: 3, type: 'send', sessionId: 'ABC'},
+  {domain: '-', id: 3, error: {code: -32000, message: 'Could not find node with given id'}, type: 'recv'},
+  {domain: 'Page', method: 'Page.reload', params: {}, id: 4, type: 'send'},
+];
+
+describe('ProtocolReplay', () => {
+  describe('parseProtocolLog', () => {
+    it('parses saved logs', () => {
+      assert.lengthOf(parseProtocolLog(JSON.stringify(log)), log.length);
+    });
+
+    it('throws on anything else', () => {
+      assert.throws(() => parseProtocolLog('{"entries": []}'));
+      assert.throws(() => parseProtocolLog('[{"method": "DOM.enable"}]'));
+      assert.throws(() => parseProtocolLog('[{"type": "send", "method": "DOM.enable"}]'));
+      assert.throws(() => parseProtocolLog('not json'));
+    });
+  });
+
+  describe('recordedCommands', () => {
+    it('pairs the commands with their responses and skips events', () => {
+      const commands = recordedCommands(parseProtocolLog(JSON.stringify(log)));
+      assert.deepEqual(commands.map(({method}) => method), [
+        'DOM.getDocument',
+        'DOM.querySelector',
+        'DOM.getOuterHTML',
+        'Page.reload',
+      ]);
+      assert.deepEqual(commands[1].response, {result: {nodeId: 5}, error: undefined});
+      assert.deepEqual(
+          commands[2].response,
+          {result: undefined, error: {code: -32000, message: 'Could not find node with given id'}});
+      assert.strictEqual(commands[2].sessionId, 'ABC');
+      assert.isNull(commands[3].response);
+    });
+  });
+
+  describe('IdSubstitutions', () => {
+    it('replaces ids in parameters with the ones from the replayed responses', () => {
+      const substitutions = new IdSubstitutions();
+      substitutions.learn(
+          {root: {nodeId: 1, children: [{nodeId: 2, backendNodeId: 10}]}, requestId: 'r1', count: 3},
+          {root: {nodeId: 7, children: [{nodeId: 8, backendNodeId: 11}]}, requestId: 'r2', count: 4});
+      assert.deepEqual(
+          substitutions.apply({nodeId: 1, nodeIds: [2, 9], backendNodeId: 10, requestId: 'r1', depth: 1}),
+          {nodeId: 7, nodeIds: [8, 9], backendNodeId: 11, requestId: 'r2', depth: 1});
+      // Only ids are substituted.
+      assert.deepEqual(substitutions.apply({count: 3, text: 'r1'}), {count: 3, text: 'r1'});
+    });
+
+    it('keeps the substitutions of different kinds of ids apart', () => {
+      const substitutions = new IdSubstitutions();
+      substitutions.learn({nodeId: 1}, {nodeId: 3});
+      assert.deepEqual(
+          substitutions.apply({nodeId: 1, backendNodeId: 1, frameId: 1}), {nodeId: 3, backendNodeId: 1, frameId: 1});
+      assert.isFalse(substitutions.isSubstitute('backendNodeId', 1, 3));
+    });
+  });
+
+  describe('diffResponses', () => {
+    it('reports the paths of the differences', () => {
+      assert.deepEqual(
+          diffResponses(
+              {result: {nodes: [{nodeName: 'BODY', attributes: []}], total: 1}},
+              {result: {nodes: [{nodeName: 'DIV', attributes: []}], extra: true}}),
+          [
+            {path: 'result.nodes[0].nodeName', recorded: 'BODY', replayed: 'DIV'},
+            {path: 'result.total', recorded: 1, replayed: undefined},
+            {path: 'result.extra', recorded: undefined, replayed: true},
+          ]);
+      assert.deepEqual(diffResponses({result: {}}, {error: {code: 1}}), [
+        {path: 'result', recorded: {}, replayed: undefined},
+        {path: 'error', recorded: undefined, replayed: {code: 1}},
+      ]);
+    });
+
+    it('ignores substituted ids', () => {
+      const substitutions = new IdSubstitutions();
+      substitutions.learn({nodeId: 1}, {nodeId: 7});
+      assert.deepEqual(diffResponses({result: {nodeId: 1}}, {result: {nodeId: 7}}, substitutions), []);
+      assert.lengthOf(diffResponses({result: {nodeId: 1}}, {result: {nodeId: 8}}, substitutions), 1);
+    });
+  });
+
+  describe('replayCommands', () => {
+    it('sends the commands in order with substituted ids', async () => {
+      const commands = recordedCommands(parseProtocolLog(JSON.stringify(log))).slice(0, 3);
+      const responses = [
+        {result: {root: {nodeId: 11, nodeName: '#document'}}},
+        {result: {nodeId: 15}},
+        {result: {outerHTML: '<body></body>'}},
+      ];
+      const sent: {method: string, params: unknown, sessionId: string}[] = [];
+      const reported: string[] = [];
+      const results = await replayCommands(
+          commands,
+          async (method, params, sessionId) => {
+            sent.push({method, params, sessionId});
+            return responses[sent.length - 1];
+          },
+          {sessionIds: new Map([['', 'XYZ'], ['ABC', 'XYZ']]), substituteIds: true},
+          result => reported.push(result.command.method));
+
+      assert.deepEqual(sent, [
+        {method: 'DOM.getDocument', params: {}, sessionId: 'XYZ'},
+        {method: 'DOM.querySelector', params: {nodeId: 11, selector: 'body'}, sessionId: 'XYZ'},
+        {method: 'DOM.getOuterHTML', params: {nodeId: 15}, sessionId: 'XYZ'},
+      ]);
+      assert.deepEqual(reported, ['DOM.getDocument', 'DOM.querySelector', 'DOM.getOuterHTML']);
+      assert.deepEqual(results.map(({differences}) => differences.length), [0, 0, 2]);
+    });
+
+    it('sends the recorded parameters if ids are not substituted', async () => {
+      const commands = recordedCommands(parseProtocolLog(JSON.stringify(log))).slice(0, 2);
+      const sent: unknown[] = [];
+      const results = await replayCommands(commands, async (_method, params) => {
+        sent.push(params);
+        return {result: {root: {nodeId: 11, nodeName: '#document'}}};
+      }, {sessionIds: new Map([['', '']]), substituteIds: false});
+      assert.deepEqual(sent, [{}, {nodeId: 1, selector: 'body'}]);
+      assert.deepEqual(results[0].differences, [{path: 'result.root.nodeId', recorded: 1, replayed: 11}]);
+    });
+
+    it('refuses to replay commands of sessions that are not mapped', async () => {
+      const commands = recordedCommands(parseProtocolLog(JSON.stringify(log))).slice(0, 3);
+      let sent = 0;
+      const send = async () => {
+        ++sent;
+        return {};
+      };
+      let error;
+      try {
+        await replayCommands(commands, send, {sessionIds: new Map([['', 'XYZ']]), substituteIds: true});
+      } catch (e) {
+        error = e;
+      }
+      assert.instanceOf(error, Error);
+      assert.strictEqual(sent, 0);
+    });
+  });
+});
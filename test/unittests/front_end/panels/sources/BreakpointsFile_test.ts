@@ -0,0 +1,126 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import type * as Platform from '../../../../../front_end/core/platform/platform.js';
+import * as Sources from '../../../../../front_end/panels/sources/sources.js';
+
+const {BreakpointsFile} = Sources;
+
+describe('BreakpointsFile', () => {
+  it('creates URL patterns that ignore the origin, the query and content hashes', () => {
+    assert.strictEqual(BreakpointsFile.urlPattern('https://example.com/js/main.3f2a1b9c.js?v=2'), '*/js/main.*.js');
+    assert.strictEqual(BreakpointsFile.urlPattern('http://localhost:8080/chunk-5d41402a.js#top'), '*/chunk-*.js');
+    assert.strictEqual(BreakpointsFile.urlPattern('http://localhost:8080/js/facade.js'), '*/js/facade.js');
+  });
+
+  it('matches URLs against URL patterns', () => {
+    const pattern = BreakpointsFile.urlPattern('http://localhost:8080/js/main.5d41402a.js');
+    assert.isTrue(BreakpointsFile.matchesUrlPattern(pattern, 'https://example.com/js/main.3f2a1b9c.js?v=2'));
+    assert.isFalse(BreakpointsFile.matchesUrlPattern(pattern, 'https://example.com/js/vendor.3f2a1b9c.js'));
+    assert.isFalse(BreakpointsFile.matchesUrlPattern('*/a.js', 'https://example.com/a.json'));
+  });
+
+  it('rebinds breakpoints whose URL is not loaded and their dependent breakpoints', () => {
+    const oldURL = 'http://localhost:8080/main.5d41402a.js' as Platform.DevToolsPath.UrlString;
+    const newURL = 'https://example.com/main.3f2a1b9c.js' as Platform.DevToolsPath.UrlString;
+    const otherURL = 'https://example.com/other.js' as Platform.DevToolsPath.UrlString;
+    const breakpoints = BreakpointsFile.rebindBreakpoints(
+        [
+          {url: oldURL, urlPattern: '*/main.*.js', lineNumber: 1, columnNumber: 2, condition: '', enabled: true},
+          {
+            url: otherURL,
+            lineNumber: 3,
+            condition: 'x > 1',
+            enabled: false,
+            triggerBreakpointId: `${oldURL}:1:2`,
+          },
+        ],
+        [newURL, otherURL]);
+    assert.deepEqual(breakpoints, [
+      {url: newURL, lineNumber: 1, columnNumber: 2, condition: '', enabled: true},
+      {url: otherURL, lineNumber: 3, condition: 'x > 1', enabled: false, triggerBreakpointId: `${newURL}:1:2`},
+    ]);
+  });
+
+  it('keeps the URL of breakpoints that match no loaded URL', () => {
+    const url = 'http://localhost:8080/app.js' as Platform.DevToolsPath.UrlString;
+    const breakpoints = BreakpointsFile.rebindBreakpoints(
+        [{url, lineNumber: 0, condition: '', enabled: true}],
+        ['https://example.com/lib.js' as Platform.DevToolsPath.UrlString]);
+    assert.deepEqual(breakpoints, [{url, lineNumber: 0, condition: '', enabled: true}]);
+  });
+
+  it('parses breakpoints files', () => {
+    const breakpointsFile = BreakpointsFile.parseBreakpointsFile(JSON.stringify({
+      version: BreakpointsFile.BreakpointsFileVersion,
+      xhrBreakpoints: [{url: 'api/', enabled: true}],
+    }));
+    assert.deepEqual(breakpointsFile, {
+      version: BreakpointsFile.BreakpointsFileVersion,
+      breakpoints: [],
+      xhrBreakpoints: [{url: 'api/', enabled: true}],
+      domBreakpoints: [],
+      eventListenerBreakpoints: [],
+    });
+    assert.throws(() => BreakpointsFile.parseBreakpointsFile('{"breakpoints": []}'));
+  });
+
+  it('drops malformed entries of breakpoints files', () => {
+    const invalidEntries: unknown[] = [];
+    const breakpoint = {url: 'https://example.com/app.js', lineNumber: 1, condition: '', enabled: true};
+    const breakpointsFile = BreakpointsFile.parseBreakpointsFile(
+        JSON.stringify({
+          version: BreakpointsFile.BreakpointsFileVersion,
+          breakpoints: [
+            {},
+            null,
+            breakpoint,
+            {...breakpoint, lineNumber: -1},
+            {...breakpoint, columnNumber: 1.5},
+            {...breakpoint, condition: 1},
+            {...breakpoint, hitCount: {mode: 'sometimes', count: 2}},
+            {...breakpoint, hitCount: {mode: 'equal', count: 0}},
+          ],
+          xhrBreakpoints: [{url: 'api/'}],
+          domBreakpoints: [{url: 'https://example.com/', path: '1,HTML', type: 'node-moved', enabled: true}],
+          eventListenerBreakpoints: [{instrumentationName: '', eventName: 'click', eventTargetNames: [1]}],
+        }),
+        invalidEntries);
+    assert.deepEqual(breakpointsFile, {
+      version: BreakpointsFile.BreakpointsFileVersion,
+      breakpoints: [breakpoint] as Sources.BreakpointsFile.JavaScriptBreakpointEntry[],
+      xhrBreakpoints: [],
+      domBreakpoints: [],
+      eventListenerBreakpoints: [],
+    });
+    assert.lengthOf(invalidEntries, 10);
+  });
+
+  it('drops the unknown fields of breakpoints files', () => {
+    const breakpoint = {
+      url: 'https://example.com/app.js',
+      lineNumber: 1,
+      condition: '',
+      enabled: true,
+      hitCount: {mode: 'greater', count: 2},
+    };
+    const domBreakpoint = {url: 'https://example.com/', path: '1,HTML', type: 'node-removed', enabled: true};
+    const breakpointsFile = BreakpointsFile.parseBreakpointsFile(JSON.stringify({
+      version: BreakpointsFile.BreakpointsFileVersion,
+      breakpoints: [{...breakpoint, id: 1, hitCount: {...breakpoint.hitCount, hits: 3}}],
+      xhrBreakpoints: [{url: 'api/', enabled: true, method: 'POST'}],
+      domBreakpoints: [{...domBreakpoint, nodeId: 5}],
+      eventListenerBreakpoints: [{instrumentationName: '', eventName: 'click', eventTargetNames: ['*'], once: true}],
+    }));
+    assert.deepEqual(breakpointsFile, {
+      version: BreakpointsFile.BreakpointsFileVersion,
+      breakpoints: [breakpoint] as Sources.BreakpointsFile.JavaScriptBreakpointEntry[],
+      xhrBreakpoints: [{url: 'api/', enabled: true}],
+      domBreakpoints: [domBreakpoint] as Sources.BreakpointsFile.DOMBreakpointEntry[],
+      eventListenerBreakpoints: [{instrumentationName: '', eventName: 'click', eventTargetNames: ['*']}],
+    });
+  });
+});
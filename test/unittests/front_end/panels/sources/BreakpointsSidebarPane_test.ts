@@ -459,6 +459,29 @@ describeWithEnvironment('BreakpointsSidebarController', () => {
       assert.strictEqual(breakpointItem.hoverText, logDetail);
     });
 
+    it('correctly extracts hit count and dependent breakpoints', async () => {
+      const testData = [
+        createLocationTestData(HELLO_JS_FILE, 3, 15),
+        createLocationTestData(TEST_JS_FILE, 3, 15),
+        createLocationTestData(TEST_JS_FILE, 5, 15),
+      ];
+
+      const {breakpointManager, settings} = createStubBreakpointManagerAndSettingsWithMockdata(testData);
+      const [trigger, hitCountBreakpoint, dependentBreakpoint] = breakpointManager.allBreakpointLocations().map(
+          location => location.breakpoint as sinon.SinonStubbedInstance<Bindings.BreakpointManager.Breakpoint>);
+      hitCountBreakpoint.hitCount.returns({mode: Bindings.BreakpointManager.HitCountMode.GREATER, count: 10});
+      dependentBreakpoint.triggerBreakpointId.returns(trigger.breakpointStorageId());
+      const controller = Sources.BreakpointsSidebarPane.BreakpointsSidebarController.instance(
+          {forceNew: true, breakpointManager, settings});
+      const actualViewData = await controller.getUpdatedBreakpointViewData();
+      assert.lengthOf(actualViewData.groups, 2);
+      const [hitCountItem, dependentItem] = actualViewData.groups[1].breakpointItems;
+      assert.strictEqual(hitCountItem.type, SourcesComponents.BreakpointsView.BreakpointType.HIT_COUNT_BREAKPOINT);
+      assert.strictEqual(hitCountItem.hoverText, '> 10');
+      assert.strictEqual(dependentItem.type, SourcesComponents.BreakpointsView.BreakpointType.DEPENDENT_BREAKPOINT);
+      assert.strictEqual(dependentItem.hoverText, `${HELLO_JS_FILE}:4`);
+    });
+
     describe('breakpoint groups', () => {
       it('are expanded by default', async () => {
         const {controller} = await setUpTestWithOneBreakpointLocation();
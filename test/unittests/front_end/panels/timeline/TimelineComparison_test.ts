@@ -0,0 +1,132 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+const {assert} = chai;
+
+import * as SDK from '../../../../../front_end/core/sdk/sdk.js';
+import * as TimelineModel from '../../../../../front_end/models/timeline_model/timeline_model.js';
+import * as Timeline from '../../../../../front_end/panels/timeline/timeline.js';
+
+import {describeWithEnvironment} from '../../helpers/EnvironmentHelpers.js';
+import {FakeStorage} from '../../helpers/TimelineHelpers.js';
+import {loadTraceEventsLegacyEventPayload} from '../../helpers/TraceHelpers.js';
+
+describeWithEnvironment('TimelineComparison', () => {
+  async function timelineModelForTrace(name: string): Promise<TimelineModel.TimelineModel.TimelineModelImpl> {
+    const tracingModel = new SDK.TracingModel.TracingModel(new FakeStorage());
+    tracingModel.addEvents(await loadTraceEventsLegacyEventPayload(name));
+    tracingModel.tracingComplete();
+    const timelineModel = new TimelineModel.TimelineModel.TimelineModelImpl();
+    timelineModel.setEvents(tracingModel);
+    return timelineModel;
+  }
+
+  function metrics(
+      webVitals: [Timeline.TimelineComparison.WebVital, number][], selfTimeByCategory: [string, number][],
+      scriptTimeByURL: [string, number][]): Timeline.TimelineComparison.RecordingMetrics {
+    return {
+      alignmentTime: 0,
+      webVitals: new Map(webVitals),
+      selfTimeByCategory: new Map(selfTimeByCategory),
+      scriptTimeByURL: new Map(scriptTimeByURL),
+    };
+  }
+
+  describe('metricsForRecording', () => {
+    it('aligns the recording by its first main frame navigation', async () => {
+      const timelineModel = await timelineModelForTrace('lcp-images.json.gz');
+      const navigationStart = [...timelineModel.navStartTimes().values()][0];
+      const metrics = Timeline.TimelineComparison.metricsForRecording(timelineModel);
+      assert.strictEqual(metrics.alignmentTime, navigationStart.startTime);
+
+      const fcp = metrics.webVitals.get(Timeline.TimelineComparison.WebVital.FCP);
+      const lcp = metrics.webVitals.get(Timeline.TimelineComparison.WebVital.LCP);
+      if (fcp === undefined || lcp === undefined) {
+        assert.fail('Expected the recording to have an FCP and an LCP');
+        return;
+      }
+      assert.isAbove(fcp, 0);
+      assert.isAtLeast(lcp, fcp);
+    });
+
+    it('aggregates the main thread self time by category and by script URL', async () => {
+      const timelineModel = await timelineModelForTrace('lcp-images.json.gz');
+      const metrics = Timeline.TimelineComparison.metricsForRecording(timelineModel);
+      assert.isAbove(metrics.selfTimeByCategory.size, 0);
+      for (const [category, selfTime] of metrics.selfTimeByCategory) {
+        assert.isDefined(Timeline.TimelineUIUtils.TimelineUIUtils.categories()[category]);
+        assert.isAbove(selfTime, 0);
+      }
+      const totalScriptTime = [...metrics.scriptTimeByURL.values()].reduce((sum, time) => sum + time, 0);
+      assert.isAtMost(totalScriptTime, metrics.selfTimeByCategory.get('scripting') || 0);
+      assert.notInclude([...metrics.scriptTimeByURL.keys()], '');
+    });
+
+    it('shows no differences when comparing a recording with itself', async () => {
+      const timelineModel = await timelineModelForTrace('lcp-images.json.gz');
+      const metrics = Timeline.TimelineComparison.metricsForRecording(timelineModel);
+      const comparison = Timeline.TimelineComparison.compareRecordings(metrics, metrics);
+      const allComparisons = [...comparison.webVitals, ...comparison.selfTimeByCategory, ...comparison.scriptTimeByURL];
+      assert.isAbove(allComparisons.length, 0);
+      assert.isTrue(allComparisons.every(({delta}) => delta === 0));
+    });
+  });
+
+  describe('compareRecordings', () => {
+    it('computes the delta of each metric', () => {
+      const before = metrics(
+          [[Timeline.TimelineComparison.WebVital.FCP, 100], [Timeline.TimelineComparison.WebVital.LCP, 300]],
+          [['scripting', 50]], []);
+      const after = metrics(
+          [[Timeline.TimelineComparison.WebVital.FCP, 120], [Timeline.TimelineComparison.WebVital.LCP, 250]],
+          [['scripting', 80]], []);
+      const comparison = Timeline.TimelineComparison.compareRecordings(before, after);
+      assert.deepEqual(comparison.webVitals, [
+        {key: Timeline.TimelineComparison.WebVital.FCP, before: 100, after: 120, delta: 20},
+        {key: Timeline.TimelineComparison.WebVital.LCP, before: 300, after: 250, delta: -50},
+      ]);
+      assert.deepEqual(comparison.selfTimeByCategory, [{key: 'scripting', before: 50, after: 80, delta: 30}]);
+    });
+
+    it('has no delta for metrics that are only in one of the recordings', () => {
+      const before =
+          metrics([[Timeline.TimelineComparison.WebVital.FCP, 100]], [], [['https://example.com/old.js', 10]]);
+      const after = metrics(
+          [[Timeline.TimelineComparison.WebVital.FCP, 100], [Timeline.TimelineComparison.WebVital.LCP, 200]], [],
+          [['https://example.com/new.js', 20]]);
+      const comparison = Timeline.TimelineComparison.compareRecordings(before, after);
+      assert.deepEqual(
+          comparison.webVitals[1],
+          {key: Timeline.TimelineComparison.WebVital.LCP, before: null, after: 200, delta: null});
+      assert.deepEqual(comparison.scriptTimeByURL, [
+        {key: 'https://example.com/new.js', before: null, after: 20, delta: null},
+        {key: 'https://example.com/old.js', before: 10, after: null, delta: null},
+      ]);
+    });
+
+    it('sorts the web vitals in a fixed order and everything else by the largest change', () => {
+      const before = metrics(
+          [
+            [Timeline.TimelineComparison.WebVital.CLS, 0.1],
+            [Timeline.TimelineComparison.WebVital.TBT, 10],
+            [Timeline.TimelineComparison.WebVital.FCP, 100],
+          ],
+          [['painting', 10], ['scripting', 100], ['rendering', 50]], []);
+      const after = metrics(
+          [
+            [Timeline.TimelineComparison.WebVital.FCP, 100],
+            [Timeline.TimelineComparison.WebVital.CLS, 0.1],
+            [Timeline.TimelineComparison.WebVital.TBT, 10],
+          ],
+          [['painting', 15], ['scripting', 40], ['rendering', 70]], []);
+      const comparison = Timeline.TimelineComparison.compareRecordings(before, after);
+      assert.deepEqual(comparison.webVitals.map(({key}) => key), [
+        Timeline.TimelineComparison.WebVital.FCP,
+        Timeline.TimelineComparison.WebVital.TBT,
+        Timeline.TimelineComparison.WebVital.CLS,
+      ]);
+      assert.deepEqual(comparison.selfTimeByCategory.map(({key}) => key), ['scripting', 'rendering', 'painting']);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type * as SDK from '../../../../../front_end/core/sdk/sdk.js';
+import * as Protocol from '../../../../../front_end/generated/protocol.js';
+import * as WebAudio from '../../../../../front_end/panels/web_audio/web_audio.js';
+import {createTarget} from '../../helpers/EnvironmentHelpers.js';
+import {describeWithMockConnection} from '../../helpers/MockConnection.js';
+
+const {assert} = chai;
+
+function audioNode(contextId: string, nodeId: string): Protocol.WebAudio.AudioNode {
+  return {
+    nodeId: nodeId as Protocol.WebAudio.GraphObjectId,
+    contextId: contextId as Protocol.WebAudio.GraphObjectId,
+    nodeType: 'GainNode',
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 2,
+    channelCountMode: Protocol.WebAudio.ChannelCountMode.Max,
+    channelInterpretation: Protocol.WebAudio.ChannelInterpretation.Speakers,
+  };
+}
+
+function audioParam(contextId: string, nodeId: string, paramId: string): Protocol.WebAudio.AudioParam {
+  return {
+    paramId: paramId as Protocol.WebAudio.GraphObjectId,
+    nodeId: nodeId as Protocol.WebAudio.GraphObjectId,
+    contextId: contextId as Protocol.WebAudio.GraphObjectId,
+    paramType: 'gain',
+    rate: Protocol.WebAudio.AutomationRate.ARate,
+    defaultValue: 1,
+    minValue: -3.4028234663852886e38,
+    maxValue: 3.4028234663852886e38,
+  };
+}
+
+describeWithMockConnection('WebAudioModel', () => {
+  let target: SDK.Target.Target;
+  let model: WebAudio.WebAudioModel.WebAudioModel;
+  beforeEach(() => {
+    target = createTarget();
+    model = new WebAudio.WebAudioModel.WebAudioModel(target);
+  });
+
+  it('keeps the params of each node', () => {
+    model.audioNodeCreated({node: audioNode('c1', 'n1')});
+    model.audioNodeCreated({node: audioNode('c1', 'n2')});
+    const gain = audioParam('c1', 'n1', 'p1');
+    model.audioParamCreated({param: gain});
+    model.audioParamCreated({param: audioParam('c1', 'n2', 'p2')});
+    assert.deepEqual(model.audioNode('n1' as Protocol.WebAudio.GraphObjectId), audioNode('c1', 'n1'));
+    assert.deepEqual(model.audioParamsOfNode('n1' as Protocol.WebAudio.GraphObjectId), [gain]);
+
+    model.audioParamWillBeDestroyed({
+      contextId: gain.contextId,
+      nodeId: gain.nodeId,
+      paramId: gain.paramId,
+    });
+    assert.deepEqual(model.audioParamsOfNode('n1' as Protocol.WebAudio.GraphObjectId), []);
+    assert.lengthOf(model.audioParamsOfNode('n2' as Protocol.WebAudio.GraphObjectId), 1);
+  });
+
+  it('forgets the nodes and params of a destroyed context', () => {
+    model.audioNodeCreated({node: audioNode('c1', 'n1')});
+    model.audioParamCreated({param: audioParam('c1', 'n1', 'p1')});
+    model.audioNodeCreated({node: audioNode('c2', 'n2')});
+    model.audioParamCreated({param: audioParam('c2', 'n2', 'p2')});
+
+    model.contextWillBeDestroyed({contextId: 'c1' as Protocol.WebAudio.GraphObjectId});
+    assert.isNull(model.audioNode('n1' as Protocol.WebAudio.GraphObjectId));
+    assert.deepEqual(model.audioParamsOfNode('n1' as Protocol.WebAudio.GraphObjectId), []);
+    assert.isNotNull(model.audioNode('n2' as Protocol.WebAudio.GraphObjectId));
+    assert.lengthOf(model.audioParamsOfNode('n2' as Protocol.WebAudio.GraphObjectId), 1);
+  });
+
+  it('requests the current value of a param', async () => {
+    const getAudioParamValue = sinon.stub(target.webAudioAgent(), 'invoke_getAudioParamValue')
+                                   .resolves({value: 0.5, getError: () => undefined});
+    const contextId = 'c1' as Protocol.WebAudio.GraphObjectId;
+    const paramId = 'p1' as Protocol.WebAudio.GraphObjectId;
+    assert.strictEqual(await model.requestAudioParamValue(contextId, paramId), 0.5);
+    assert.isTrue(getAudioParamValue.calledOnceWithExactly({contextId, paramId}));
+  });
+
+  it('does not report param values the browser does not report', async () => {
+    sinon.stub(target.webAudioAgent(), 'invoke_getAudioParamValue')
+        .resolves({value: 0, getError: () => '\'WebAudio.getAudioParamValue\' wasn\'t found'});
+    assert.isNull(await model.requestAudioParamValue(
+        'c1' as Protocol.WebAudio.GraphObjectId, 'p1' as Protocol.WebAudio.GraphObjectId));
+  });
+});
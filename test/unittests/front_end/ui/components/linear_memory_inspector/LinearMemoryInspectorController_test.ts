@@ -449,6 +449,43 @@ describeWithEnvironment('LinearMemoryInspectorController', () => {
       assert.strictEqual(extractedName, '*' + name);
     }
   });
+
+  it('extracts the struct layout of ValueNodes', () => {
+    const typeInfo = (typeId: number, typeNames: string[], size: number, members: object[] = [], arraySize = 0) => ({
+      typeInfo: {
+        typeId,
+        typeNames,
+        size,
+        alignment: 4,
+        members,
+        arraySize,
+        hasValue: !members.length,
+        canExpand: members.length > 0,
+      },
+    });
+    const mockValueNode = {
+      sourceType: {
+        typeMap: new Map<number, object>([
+          [1, typeInfo(1, ['unsigned int'], 4)],
+          [2, typeInfo(2, ['float'], 4)],
+          [3, typeInfo(3, ['float[2]'], 8, [{typeId: 2, offset: 0}], 2)],
+        ]),
+        ...typeInfo(0, ['Point'], 12, [{name: 'id', offset: 0, typeId: 1}, {name: 'coords', offset: 4, typeId: 3}]),
+      },
+    } as unknown as Bindings.DebuggerLanguagePlugins.ValueNode;
+
+    const layout =
+        LinearMemoryInspector.LinearMemoryInspectorController.LinearMemoryInspectorController.extractStructLayout(
+            mockValueNode);
+    assert.exists(layout);
+    assert.strictEqual(layout?.name, 'Point');
+    assert.strictEqual(layout?.size, 12);
+    assert.deepEqual(layout?.fields.map(field => [field.name, field.offset, field.type.valueType, field.count]), [
+      ['id', 0, ValueInterpreterDisplayUtils.ValueType.Int32, undefined],
+      ['coords', 4, ValueInterpreterDisplayUtils.ValueType.Float32, 2],
+    ]);
+    assert.isFalse(layout?.fields[0].type.signed);
+  });
 });
 
 describe('RemoteArrayBufferWrapper', () => {
@@ -0,0 +1,97 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import * as LinearMemoryInspector from '../../../../../../front_end/ui/components/linear_memory_inspector/linear_memory_inspector.js';
+import {describeWithLocale} from '../../../helpers/EnvironmentHelpers.js';
+
+const {assert} = chai;
+const {parseStructLayouts, decodeStruct, getStructRegions} = LinearMemoryInspector.StructLayoutUtils;
+
+function fieldOffsets(layout: LinearMemoryInspector.StructLayoutUtils.StructLayout): [string, number][] {
+  return layout.fields.map(field => [field.name, field.offset]);
+}
+
+describeWithLocale('StructLayoutUtils', () => {
+  const HEADER = `
+    // A header with natural alignment.
+    struct Header {
+      uint8_t tag;
+      uint32_t length;
+      int16_t values[3];
+    };`;
+
+  it('aligns fields like C compilers', () => {
+    const [layout] = parseStructLayouts(HEADER);
+    assert.strictEqual(layout.name, 'Header');
+    assert.deepEqual(fieldOffsets(layout), [['tag', 0], ['length', 4], ['values', 8]]);
+    assert.strictEqual(layout.fields[2].count, 3);
+    assert.strictEqual(layout.size, 16);
+    assert.strictEqual(layout.alignment, 4);
+  });
+
+  it('does not align the fields of packed structs', () => {
+    const [layout] = parseStructLayouts('packed ' + HEADER.trim().replace(/^\/\/.*\n/, ''));
+    assert.deepEqual(fieldOffsets(layout), [['tag', 0], ['length', 1], ['values', 5]]);
+    assert.strictEqual(layout.size, 11);
+  });
+
+  it('supports explicit padding, pointers and nested structs', () => {
+    const layouts = parseStructLayouts(`
+      packed struct Padded { uint8_t a; padding 3; float b; };
+      struct Point { float x; float y; };
+      struct Line { unsigned char id; struct Point from; Point to; const char *label; };`);
+    assert.deepEqual(layouts.map(layout => layout.name), ['Padded', 'Point', 'Line']);
+    assert.deepEqual(fieldOffsets(layouts[0]), [['a', 0], ['b', 4]]);
+    assert.strictEqual(layouts[0].size, 8);
+    assert.deepEqual(fieldOffsets(layouts[2]), [['id', 0], ['from', 4], ['to', 12], ['label', 20]]);
+    assert.strictEqual(layouts[2].fields[1].type.layout, layouts[1]);
+    assert.strictEqual(layouts[2].fields[3].type.name, 'const char *');
+    assert.strictEqual(layouts[2].size, 24);
+  });
+
+  it('reports invalid definitions', () => {
+    assert.throws(() => parseStructLayouts('struct A { int x }'), 'Unexpected } on line 1');
+    assert.throws(() => parseStructLayouts('struct A {\n  vec3 v;\n};'), 'Unknown type vec3 on line 2');
+    assert.throws(() => parseStructLayouts('struct A { int x; };\nstruct A { int y; };'), 'Struct A is defined twice');
+    assert.throws(() => parseStructLayouts('struct A {'), 'Unexpected end of the layout definition');
+  });
+
+  it('decodes the fields of structs', () => {
+    const [layout] = parseStructLayouts(HEADER);
+    const memory = new Uint8Array([7, 0, 0, 0, 16, 0, 0, 0, 1, 0, 0xFF, 0xFF, 3, 0, 0, 0]);
+    const decoded = decodeStruct(
+        layout, 0x100, memory, 0x100, LinearMemoryInspector.ValueInterpreterDisplayUtils.Endianness.Little);
+    assert.deepEqual(decoded.children.map(field => [field.name, field.value]), [
+      ['tag', '7'],
+      ['length', '16'],
+      ['values', undefined],
+    ]);
+    assert.deepEqual(decoded.children[2].children.map(field => [field.name, field.address, field.value]), [
+      ['[0]', 0x108, '1'],
+      ['[1]', 0x10A, '-1'],
+      ['[2]', 0x10C, '3'],
+    ]);
+  });
+
+  it('uses the endianness of the struct and leaves memory that is not loaded undecoded', () => {
+    const [layout] = parseStructLayouts('big_endian struct B { uint16_t a; uint16_t b; };');
+    const decoded = decodeStruct(
+        layout, 0, new Uint8Array([1, 2, 3]), 0, LinearMemoryInspector.ValueInterpreterDisplayUtils.Endianness.Little);
+    assert.deepEqual(decoded.children.map(field => field.value), ['258', undefined]);
+  });
+
+  it('returns a labelled region for each field', () => {
+    const [, line] =
+        parseStructLayouts('struct Point { float x; float y; }; struct Line { uint8_t id; Point ends[2]; };');
+    const decoded = decodeStruct(
+        line, 8, new Uint8Array(), 0, LinearMemoryInspector.ValueInterpreterDisplayUtils.Endianness.Little);
+    assert.deepEqual(getStructRegions(decoded), [
+      {startAddress: 8, size: 1, name: 'id'},
+      {startAddress: 12, size: 4, name: 'ends[0].x'},
+      {startAddress: 16, size: 4, name: 'ends[0].y'},
+      {startAddress: 20, size: 4, name: 'ends[1].x'},
+      {startAddress: 24, size: 4, name: 'ends[1].y'},
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+// Copyright 2022 The Chromium Authors. All rights reserved.
+// Use of this source code is governed by a BSD-style license that can be
+// found in the LICENSE file.
+
+import type * as ComponentsModule from '../../../../../../../front_end/ui/legacy/components/utils/utils.js';
+import type * as BindingsModule from '../../../../../../../front_end/models/bindings/bindings.js';
+
+import {describeWithEnvironment} from '../../../../helpers/EnvironmentHelpers.js';
+
+const {assert} = chai;
+
+describeWithEnvironment('FileImportExport', async () => {
+  let Components: typeof ComponentsModule;
+  let Bindings: typeof BindingsModule;
+
+  before(async () => {
+    Components = await import('../../../../../../../front_end/ui/legacy/components/utils/utils.js');
+    Bindings = await import('../../../../../../../front_end/models/bindings/bindings.js');
+  });
+
+  it('clears the file selector before importing, so that the same file can be imported again', () => {
+    const importedFiles: File[] = [];
+    const fileSelectorElement = Components.FileImportExport.createImportFileSelectorElement(file => {
+      assert.strictEqual(fileSelectorElement.value, '');
+      importedFiles.push(file);
+    });
+    const file = new File(['{}'], 'breakpoints.json');
+    const dataTransfer = new DataTransfer();
+    dataTransfer.items.add(file);
+    fileSelectorElement.files = dataTransfer.files;
+    fileSelectorElement.dispatchEvent(new Event('change'));
+    assert.deepEqual(importedFiles, [file]);
+  });
+
+  it('saves the content to a file named after the base name and the current time', async () => {
+    const {FileOutputStream} = Bindings.FileUtils;
+    const open = sinon.stub(FileOutputStream.prototype, 'open').resolves(true);
+    const write = sinon.stub(FileOutputStream.prototype, 'write').resolves();
+    const close = sinon.stub(FileOutputStream.prototype, 'close').resolves();
+
+    await Components.FileImportExport.saveToTimestampedFile('breakpoints', 'json', '{}');
+    assert.match(open.firstCall.args[0], /^breakpoints-\d{8}T\d{6}\.json$/);
+    assert.isTrue(write.calledOnceWithExactly('{}'));
+    assert.isTrue(close.calledOnce);
+
+    open.resolves(false);
+    await Components.FileImportExport.saveToTimestampedFile('breakpoints', 'json', '{}');
+    assert.isTrue(write.calledOnce);
+
+    open.restore();
+    write.restore();
+    close.restore();
+  });
+});